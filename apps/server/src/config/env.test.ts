@@ -0,0 +1,58 @@
+/**
+ * Unit tests for environment configuration
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ShellType } from '@masterdashboard/shared';
+import { StatusDetector } from '../managers/status-detector.js';
+import { getStatusTimerSettings, type Env } from './env.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('getStatusTimerSettings', () => {
+  it('should leave the built-in timers alone when nothing is set', () => {
+    const detector = new StatusDetector({ timers: getStatusTimerSettings({} as Env) });
+
+    expect(detector.getTimerConfig(ShellType.BASH)).toMatchObject({
+      silenceMs: 5_000,
+      stallMs: 600_000,
+    });
+  });
+
+  it('should apply configured timers to every shell', () => {
+    const env = { STATUS_SILENCE_MS: 2_000, STATUS_STALL_MS: 60_000 } as Env;
+    const detector = new StatusDetector({ timers: getStatusTimerSettings(env) });
+
+    expect(detector.getTimerConfig(ShellType.BASH)).toMatchObject({
+      silenceMs: 2_000,
+      stallMs: 60_000,
+    });
+    expect(detector.getTimerConfig(ShellType.CLAUDE_CODE)).toMatchObject({
+      silenceMs: 2_000,
+      stallMs: 60_000,
+    });
+  });
+
+  it('should apply per-shell timers over the shared ones', () => {
+    const env = {
+      STATUS_STALL_MS: 60_000,
+      STATUS_TIMERS: { zsh: { stallMs: 300_000 }, 'claude-code': { silenceMs: 0 } },
+    } as unknown as Env;
+    const detector = new StatusDetector({ timers: getStatusTimerSettings(env) });
+
+    expect(detector.getTimerConfig(ShellType.ZSH)).toMatchObject({ stallMs: 300_000 });
+    expect(detector.getTimerConfig(ShellType.BASH)).toMatchObject({ stallMs: 60_000 });
+    expect(detector.getTimerConfig(ShellType.CLAUDE_CODE)).toMatchObject({
+      silenceMs: 0,
+      stallMs: 60_000,
+    });
+  });
+});
@@ -5,6 +5,30 @@
  */
 
 import { z } from 'zod';
+import {
+  ShellType,
+  TerminalActivityStatus,
+  type StatusTimerSettings,
+} from '@masterdashboard/shared';
+
+/** Timer overrides for one shell */
+const statusTimerSchema = z
+  .object({
+    silenceMs: z.number().int().min(0),
+    silenceStatus: z.union([
+      z.literal(TerminalActivityStatus.IDLE),
+      z.literal(TerminalActivityStatus.WAITING),
+    ]),
+    stallMs: z.number().int().min(0),
+  })
+  .partial()
+  .strict();
+
+/** Timer overrides by shell, or `default` for every shell */
+const statusTimersSchema = z.record(
+  z.nativeEnum(ShellType).or(z.literal('default')),
+  statusTimerSchema
+);
 
 const envSchema = z.object({
   // Server
@@ -15,6 +39,12 @@ const envSchema = z.object({
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
 
+  // Authentication - disabled unless AUTH_PASSWORD or AUTH_TOKEN is set
+  AUTH_PASSWORD: z.string().min(1).optional(),
+  AUTH_TOKEN: z.string().min(16).optional(),
+  SESSION_SECRET: z.string().min(16).optional(),
+  AUTH_SESSION_TTL_MS: z.string().default('604800000').transform(Number), // 7 days
+
   // Logging - default to 'error' for clean console (set LOG_LEVEL=info or debug for verbose)
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('error'),
 
@@ -25,6 +55,23 @@ const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().default('./data/masterdashboard.db'),
 
+  // Status detection - override the built-in silence and stall timers for every shell
+  STATUS_SILENCE_MS: z.string().transform(Number).optional(),
+  STATUS_STALL_MS: z.string().transform(Number).optional(),
+  // ...or per shell, as JSON: {"zsh":{"stallMs":300000},"claude-code":{"silenceMs":0}}
+  STATUS_TIMERS: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a JSON object' });
+        return z.NEVER;
+      }
+    })
+    .pipe(statusTimersSchema)
+    .optional(),
+
   // Session cleanup
   SESSION_CLEANUP_INTERVAL_MS: z.string().default('60000').transform(Number),
   PAUSED_SESSION_TIMEOUT_MS: z.string().default('3600000').transform(Number), // 1 hour
@@ -57,6 +104,23 @@ export function getEnv(): Env {
   return cachedEnv;
 }
 
+/**
+ * Status detector timer overrides set through the environment
+ * STATUS_SILENCE_MS and STATUS_STALL_MS win over the `default` entry of
+ * STATUS_TIMERS; a shell's own entry wins over both.
+ */
+export function getStatusTimerSettings(env: Env = getEnv()): StatusTimerSettings {
+  const timers = env.STATUS_TIMERS ?? {};
+  return {
+    ...timers,
+    default: {
+      ...timers.default,
+      ...(env.STATUS_SILENCE_MS !== undefined && { silenceMs: env.STATUS_SILENCE_MS }),
+      ...(env.STATUS_STALL_MS !== undefined && { stallMs: env.STATUS_STALL_MS }),
+    },
+  };
+}
+
 export function isDevelopment(): boolean {
   return getEnv().NODE_ENV === 'development';
 }
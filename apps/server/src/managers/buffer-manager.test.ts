@@ -163,6 +163,29 @@ describe('BufferManager', () => {
     });
   });
 
+  describe('getOutputLineCount', () => {
+    it('should keep counting lines after old output is trimmed', () => {
+      const smallManager = new BufferManager({
+        maxLines: 2,
+        persistToDisk: false,
+      });
+
+      smallManager.createBuffer('sess_123');
+      smallManager.appendOutput('sess_123', 'line1\nline2\n');
+      smallManager.appendOutput('sess_123', 'line3\n');
+      smallManager.appendOutput('sess_123', 'line4');
+
+      expect(smallManager.getFullBuffer('sess_123')).toBe('line3\nline4');
+      expect(smallManager.getOutputLineCount('sess_123')).toBe(3);
+
+      smallManager.destroy();
+    });
+
+    it('should return 0 for non-existent buffer', () => {
+      expect(bufferManager.getOutputLineCount('nonexistent')).toBe(0);
+    });
+  });
+
   describe('getLastLines', () => {
     it('should return last N lines', () => {
       bufferManager.createBuffer('sess_123');
@@ -305,6 +328,7 @@ describe('BufferManager', () => {
         session_id: 'sess_123',
         content: 'persisted\ndata',
         total_lines: 2,
+        output_lines: 40,
         last_flush_at: new Date().toISOString(),
       });
 
@@ -313,6 +337,7 @@ describe('BufferManager', () => {
       expect(loaded).toBe(true);
       expect(bufferManager.hasBuffer('sess_123')).toBe(true);
       expect(bufferManager.getFullBuffer('sess_123')).toBe('persisted\ndata');
+      expect(bufferManager.getOutputLineCount('sess_123')).toBe(40);
     });
 
     it('should return false if buffer not in database', async () => {
@@ -412,4 +437,68 @@ describe('BufferManager', () => {
       smallManager.destroy();
     });
   });
+
+  describe('search', () => {
+    beforeEach(() => {
+      bufferManager.createBuffer('sess_123');
+      bufferManager.appendOutput('sess_123', '\x1b[32mBuild OK\x1b[0m\r\n');
+      bufferManager.appendOutput('sess_123', 'error: missing sem');
+      bufferManager.appendOutput('sess_123', 'icolon\r\nwarning: unused\r\n');
+      bufferManager.appendOutput('sess_123', 'Error: again\r\n');
+    });
+
+    it('should return null for unknown sessions', () => {
+      expect(bufferManager.search('missing', { pattern: 'x' })).toBeNull();
+    });
+
+    it('should match plain text across chunk boundaries without escape codes', () => {
+      const found = bufferManager.search('sess_123', { pattern: 'semicolon', direction: 'forward' });
+
+      expect(found!.results).toEqual([
+        { lineNumber: 1, lineContent: 'error: missing semicolon', matchStart: 15, matchEnd: 24 },
+      ]);
+      expect(bufferManager.search('sess_123', { pattern: 'Build OK' })!.results).toHaveLength(1);
+    });
+
+    it('should honour case sensitivity and direction', () => {
+      const insensitive = bufferManager.search('sess_123', { pattern: 'error', direction: 'backward' });
+      expect(insensitive!.results.map((result) => result.lineNumber)).toEqual([3, 1]);
+
+      const sensitive = bufferManager.search('sess_123', { pattern: 'error', caseSensitive: true });
+      expect(sensitive!.results.map((result) => result.lineNumber)).toEqual([1]);
+    });
+
+    it('should support regular expressions and maxResults', () => {
+      const found = bufferManager.search('sess_123', {
+        pattern: /^\w+:/,
+        direction: 'forward',
+        maxResults: 2,
+      });
+
+      expect(found!.results.map((result) => result.lineContent)).toEqual([
+        'error: missing semicolon',
+        'warning: unused',
+      ]);
+      expect(found!.truncated).toBe(true);
+    });
+
+    it('should not report truncation when exactly maxResults lines match', () => {
+      const found = bufferManager.search('sess_123', { pattern: /^\w+:/, maxResults: 3 });
+
+      expect(found!.results).toHaveLength(3);
+      expect(found!.truncated).toBe(false);
+    });
+
+    it('should treat string patterns literally', () => {
+      expect(bufferManager.search('sess_123', { pattern: 'O.' })!.results).toHaveLength(0);
+    });
+
+    it('should keep only the final redraw of carriage-return lines', () => {
+      bufferManager.appendOutput('sess_123', 'progress 10%\rprogress 100%\r\n');
+
+      const found = bufferManager.search('sess_123', { pattern: 'progress' });
+      expect(found!.results).toHaveLength(1);
+      expect(found!.results[0]!.lineContent).toBe('progress 100%');
+    });
+  });
 });
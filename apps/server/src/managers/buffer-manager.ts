@@ -6,9 +6,19 @@
  */
 
 import { EventEmitter } from 'events';
-import type { BufferConfig, BufferSnapshot, BufferStats } from '@masterdashboard/shared';
+import type {
+  BufferConfig,
+  BufferSearchOptions,
+  BufferSearchResult,
+  BufferSearchResults,
+  BufferSnapshot,
+  BufferStats,
+  ValidatedBufferSearchQuery,
+} from '@masterdashboard/shared';
 import { DEFAULT_BUFFER_CONFIG } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { findLineMatches } from '../utils/regex.js';
 import { insertOrUpdateBuffer, getBufferBySessionId, deleteBuffer, sessionExists } from '../persistence/database.js';
 import type { InternalBuffer } from './types.js';
 
@@ -30,6 +40,75 @@ function filterDeviceAttributeResponses(content: string): string {
     .replace(/\[>[\d;]*c/g, '');      // Secondary DA without ESC (partial capture)
 }
 
+/**
+ * Count the newlines in output
+ */
+export function countNewlines(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    count += 1;
+  }
+  return count;
+}
+
+/**
+ * Default number of matches returned by a search
+ */
+const DEFAULT_SEARCH_MAX_RESULTS = 100;
+
+/**
+ * Convert raw terminal output into the plain text lines a user sees.
+ * Escape sequences are removed, and carriage-return redraws (progress bars,
+ * spinners) keep only the final text written to the line.
+ */
+function toSearchableLines(content: string): string[] {
+  /* eslint-disable no-control-regex */
+  const text = filterDeviceAttributeResponses(content)
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')  // OSC sequences
+    .replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, '')            // CSI sequences
+    .replace(/\x1b[()][0-9A-Za-z]/g, '')                // Charset selection
+    .replace(/\x1b[@-_]/g, '')                          // Other two-byte escapes
+    .replace(/[^\n]\x08/g, '')                          // Backspace erases a char
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g, '');  // Remaining control chars
+  /* eslint-enable no-control-regex */
+
+  return text.split('\n').map((line) => {
+    const segments = line.replace(/\r+$/, '').split('\r');
+    return segments[segments.length - 1] ?? '';
+  });
+}
+
+/**
+ * Build a global RegExp for a search pattern (strings match literally)
+ */
+function toSearchRegExp(pattern: string | RegExp, caseSensitive: boolean): RegExp {
+  const source =
+    typeof pattern === 'string' ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern.source;
+  return new RegExp(source, caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Turn a validated search query from a client into search options
+ */
+export function toBufferSearchOptions(query: ValidatedBufferSearchQuery): BufferSearchOptions {
+  let pattern: string | RegExp = query.query;
+  if (query.regex) {
+    try {
+      pattern = new RegExp(query.query);
+    } catch (error) {
+      throw new ValidationError(`Invalid regular expression: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    pattern,
+    caseSensitive: query.caseSensitive,
+    direction: query.direction,
+    maxResults: query.maxResults,
+    contextLines: query.contextLines,
+  };
+}
+
 export interface BufferManagerConfig extends Partial<BufferConfig> {
   /** Enable disk persistence */
   persistToDisk?: boolean;
@@ -73,6 +152,7 @@ export class BufferManager extends EventEmitter {
       sessionId,
       lines: [],
       totalLines: 0,
+      outputLines: 0,
       lastFlushAt: new Date(),
     };
 
@@ -94,6 +174,8 @@ export class BufferManager extends EventEmitter {
       sessionId,
       lines: row.content ? [row.content] : [],
       totalLines: row.total_lines,
+      // Buffers saved before lines were counted start from what is left
+      outputLines: Math.max(row.output_lines, countNewlines(row.content)),
       lastFlushAt: new Date(row.last_flush_at),
     };
 
@@ -116,6 +198,7 @@ export class BufferManager extends EventEmitter {
     // Each "line" is actually a raw output chunk
     buffer.lines.push(data);
     buffer.totalLines += 1;
+    buffer.outputLines += countNewlines(data);
 
     // Trim old chunks (keep last maxLines chunks)
     if (buffer.lines.length > this.config.maxLines) {
@@ -205,6 +288,14 @@ export class BufferManager extends EventEmitter {
     return buffer ? buffer.lines.join('') : '';
   }
 
+  /**
+   * Get the number of lines a session has printed, trimmed output included
+   * Line numbers in this count stay valid as old output is trimmed.
+   */
+  getOutputLineCount(sessionId: string): number {
+    return this.buffers.get(sessionId)?.outputLines ?? 0;
+  }
+
   /**
    * Get the last N chunks from a buffer
    */
@@ -216,6 +307,42 @@ export class BufferManager extends EventEmitter {
     return buffer.lines.slice(-count).join('');
   }
 
+  /**
+   * Search the full scrollback of a session
+   */
+  search(sessionId: string, options: BufferSearchOptions): BufferSearchResults | null {
+    const buffer = this.buffers.get(sessionId);
+    if (!buffer) {
+      return null;
+    }
+
+    const lines = toSearchableLines(buffer.lines.join(''));
+    const regex = toSearchRegExp(options.pattern, options.caseSensitive ?? false);
+    const maxResults = options.maxResults ?? DEFAULT_SEARCH_MAX_RESULTS;
+    const backward = options.direction === 'backward';
+    const contextLines = options.contextLines ?? 0;
+    // One match past the limit tells whether there were more
+    const found = findLineMatches(lines, regex, { backward, limit: maxResults + 1 });
+    const results = found.slice(0, maxResults).map(
+      ({ lineNumber, matchStart, matchEnd }): BufferSearchResult => ({
+        lineNumber,
+        lineContent: lines[lineNumber]!,
+        matchStart,
+        matchEnd,
+        ...(contextLines > 0 && {
+          before: lines.slice(Math.max(0, lineNumber - contextLines), lineNumber),
+          after: lines.slice(lineNumber + 1, lineNumber + 1 + contextLines),
+        }),
+      })
+    );
+
+    return {
+      results,
+      totalLines: lines.length,
+      truncated: found.length > maxResults,
+    };
+  }
+
   /**
    * Get buffer statistics
    */
@@ -280,6 +407,7 @@ export class BufferManager extends EventEmitter {
         session_id: sessionId,
         content: buffer.lines.join(''),
         total_lines: buffer.totalLines,
+        output_lines: buffer.outputLines,
         last_flush_at: new Date().toISOString(),
       });
       buffer.lastFlushAt = new Date();
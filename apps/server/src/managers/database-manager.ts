@@ -55,7 +55,7 @@ interface ManagedDatabase {
 export interface DatabaseManagerEvents {
   connected: { sessionId: string; engine: DatabaseEngine; database: string };
   disconnected: { sessionId: string };
-  error: { sessionId?: string; error: string; code?: string };
+  error: { sessionId?: string; projectId: string; error: string; code?: string };
   queryResult: { sessionId: string; result: QueryResult };
   queryError: { sessionId: string; error: string; query: string };
 }
@@ -148,6 +148,7 @@ export class DatabaseManager extends EventEmitter {
 
       this.emit('error', {
         sessionId,
+        projectId: config.projectId,
         error: message,
         code: 'CONNECTION_FAILED',
       });
@@ -6,6 +6,7 @@ export { SessionManager } from './session-manager.js';
 export { PTYManager } from './pty-manager.js';
 export { BufferManager, type BufferManagerConfig } from './buffer-manager.js';
 export { StatusDetector } from './status-detector.js';
+export { RecordingManager, type RecordingManagerConfig } from './recording-manager.js';
 export {
   BrowserManager,
   BrowserLaunchError,
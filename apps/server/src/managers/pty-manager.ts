@@ -15,10 +15,12 @@ import {
   SHELL_BINARY_PATHS,
   SHELL_STARTUP_ARGS,
   SHELL_ENV_DEFAULTS,
+  SESSION_ID_ENV_VAR,
   type TerminalConfig,
 } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
 import { PTYSpawnError } from '../utils/errors.js';
+import { getShellIntegrationLaunch } from './shell-integration.js';
 import type { PTYProcess } from './types.js';
 import type { TmuxManager } from './tmux-manager.js';
 
@@ -122,7 +124,7 @@ export class PTYManager extends EventEmitter {
     config: TerminalConfig
   ): Promise<IPty> {
     const shell = this.getShellPath(config.shell);
-    const shellArgs = this.getShellArgs(config.shell);
+    const { args: shellArgs, env: launchEnv } = this.getShellLaunch(config);
     const cwd = config.cwd ?? process.env.HOME ?? '/';
 
     // Check if tmux session already exists (server restart case)
@@ -132,7 +134,11 @@ export class PTYManager extends EventEmitter {
       logger.info({ sessionId }, 'Reattaching to existing tmux session');
     } else {
       // Create new tmux session with shell args (e.g., --dangerously-skip-permissions)
-      await this.tmuxManager!.createSession(sessionId, shell, cwd, shellArgs);
+      await this.tmuxManager!.createSession(sessionId, shell, cwd, shellArgs, {
+        ...config.env,
+        ...launchEnv,
+        [SESSION_ID_ENV_VAR]: sessionId,
+      });
       logger.info({ sessionId, shell, shellArgs }, 'Created new tmux session');
     }
 
@@ -221,12 +227,14 @@ export class PTYManager extends EventEmitter {
    */
   private createDirect(sessionId: string, config: TerminalConfig): IPty {
     const shell = this.getShellPath(config.shell);
-    const args = this.getShellArgs(config.shell);
+    const { args, env: launchEnv } = this.getShellLaunch(config);
 
     const env = {
       ...process.env,
       ...SHELL_ENV_DEFAULTS,
       ...config.env,
+      ...launchEnv,
+      [SESSION_ID_ENV_VAR]: sessionId,
     };
 
     const cwd = config.cwd ?? process.env.HOME ?? '/';
@@ -476,6 +484,23 @@ export class PTYManager extends EventEmitter {
     return [...SHELL_STARTUP_ARGS[shell]];
   }
 
+  /**
+   * Get shell arguments and extra environment, loading shell integration
+   * where the shell supports it
+   */
+  private getShellLaunch(config: TerminalConfig): { args: string[]; env: Record<string, string> } {
+    try {
+      const launch = getShellIntegrationLaunch(config.shell, config.env);
+      if (launch) {
+        return launch;
+      }
+    } catch (error) {
+      // Without integration the shell still works, it just cannot report its cwd
+      logger.warn({ shell: config.shell, error }, 'Failed to set up shell integration');
+    }
+    return { args: this.getShellArgs(config.shell), env: {} };
+  }
+
   /**
    * Kill all PTY processes (but keep tmux sessions for persistence)
    */
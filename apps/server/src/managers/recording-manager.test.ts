@@ -0,0 +1,117 @@
+/**
+ * Unit tests for RecordingManager (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import { RecordingManager } from './recording-manager.js';
+import type { SessionManager } from './session-manager.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/**
+ * Minimal SessionManager stand-in that only emits events
+ */
+function createSessionManager(): SessionManager {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    getTerminalSession: (sessionId: string) =>
+      sessionId === 'term_1'
+        ? { id: 'term_1', projectId: 'prj_1', cols: 120, rows: 40, title: 'build' }
+        : undefined,
+  }) as unknown as SessionManager;
+}
+
+function emitOutput(sessionManager: SessionManager, sessionId: string, data: string, timestamp = Date.now()) {
+  sessionManager.emit('terminal:output', { sessionId, data, timestamp });
+}
+
+describe('RecordingManager', () => {
+  let sessionManager: SessionManager;
+  let manager: RecordingManager;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await initDatabase();
+    sessionManager = createSessionManager();
+    manager = new RecordingManager(sessionManager, { flushIntervalMs: 100 });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    closeDatabase();
+    vi.useRealTimers();
+  });
+
+  it('should only record sessions that are switched on', () => {
+    emitOutput(sessionManager, 'term_1', 'before');
+
+    const recording = manager.start('term_1', 'usr_alice');
+    emitOutput(sessionManager, 'term_1', 'during');
+    emitOutput(sessionManager, 'term_2', 'other');
+
+    expect(manager.getEvents(recording.id).map((event) => event[2])).toEqual(['during']);
+    expect(recording.createdBy).toBe('usr_alice');
+  });
+
+  it('should timestamp output and resize events from the start', () => {
+    const recording = manager.start('term_1');
+
+    emitOutput(sessionManager, 'term_1', 'ls\r\n', Date.now() + 1500);
+    vi.advanceTimersByTime(2000);
+    sessionManager.emit('terminal:resize', { sessionId: 'term_1', cols: 100, rows: 30 });
+
+    const stopped = manager.stop('term_1');
+
+    expect(manager.getEvents(recording.id)).toEqual([
+      [1.5, 'o', 'ls\r\n'],
+      [2, 'r', '100x30'],
+    ]);
+    expect(stopped).toMatchObject({ eventCount: 2, duration: 2 });
+    expect(stopped?.endedAt).not.toBeNull();
+  });
+
+  it('should return the running recording when started twice', () => {
+    const first = manager.start('term_1');
+    expect(manager.start('term_1').id).toBe(first.id);
+  });
+
+  it('should stop recording when the session terminates', () => {
+    const recording = manager.start('term_1');
+
+    sessionManager.emit('session:terminated', { sessionId: 'term_1' });
+
+    expect(manager.getActiveRecordingId('term_1')).toBeNull();
+    expect(manager.getRecording(recording.id)?.endedAt).not.toBeNull();
+  });
+
+  it('should export asciicast v2', () => {
+    const recording = manager.start('term_1');
+    emitOutput(sessionManager, 'term_1', 'hello\r\n', Date.now() + 250);
+    manager.stop('term_1');
+
+    const lines = manager.exportAsciicast(recording.id)!.trimEnd().split('\n');
+    const header = JSON.parse(lines[0]!);
+
+    expect(header).toMatchObject({ version: 2, width: 120, height: 40, title: 'build' });
+    expect(header.timestamp).toBe(Math.floor(Date.parse(recording.startedAt) / 1000));
+    expect(JSON.parse(lines[1]!)).toEqual([0.25, 'o', 'hello\r\n']);
+  });
+
+  it('should reject sessions that do not exist', () => {
+    expect(() => manager.start('missing')).toThrow();
+  });
+});
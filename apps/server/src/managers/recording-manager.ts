@@ -0,0 +1,298 @@
+/**
+ * Recording Manager
+ *
+ * Records terminal output and resize events for sessions that have recording
+ * switched on. Events are timestamped relative to the recording start, held
+ * in memory briefly, and flushed to the database in batches. Recordings export
+ * as asciicast v2 (asciinema) files.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  createRecordingId,
+  type AsciicastHeader,
+  type RecordingEvent,
+  type RecordingEventCode,
+  type SessionRecording,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { SessionNotFoundError } from '../utils/errors.js';
+import {
+  insertRecording,
+  getRecordingById,
+  appendRecordingEvents,
+  getRecordingEvents,
+  finishRecording,
+  finishOpenRecordings,
+  type RecordingEventRow,
+  type RecordingRow,
+} from '../persistence/database.js';
+import type { SessionManager } from './session-manager.js';
+
+const logger = createChildLogger('recording-manager');
+
+export interface RecordingManagerConfig {
+  /** How often pending events are written to the database */
+  flushIntervalMs: number;
+}
+
+const DEFAULT_RECORDING_CONFIG: RecordingManagerConfig = {
+  flushIntervalMs: 1000,
+};
+
+/**
+ * Recording Manager events
+ */
+export interface RecordingManagerEvents {
+  started: SessionRecording;
+  stopped: SessionRecording;
+}
+
+interface ActiveRecording {
+  id: string;
+  /** Epoch ms of the recording start */
+  startedAt: number;
+  /** Next event sequence number */
+  seq: number;
+  /** Events not yet written to the database */
+  pending: RecordingEventRow[];
+}
+
+/**
+ * Convert a database row to a SessionRecording
+ */
+export function rowToRecording(row: RecordingRow): SessionRecording {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    projectId: row.project_id,
+    title: row.title,
+    cols: row.cols,
+    rows: row.rows,
+    createdBy: row.created_by,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    duration: row.duration,
+    eventCount: row.event_count,
+  };
+}
+
+/**
+ * Serialize a recording and its events as an asciicast v2 document
+ */
+export function toAsciicast(recording: SessionRecording, events: RecordingEvent[]): string {
+  const header: AsciicastHeader = {
+    version: 2,
+    width: recording.cols,
+    height: recording.rows,
+    timestamp: Math.floor(Date.parse(recording.startedAt) / 1000),
+    duration: recording.duration,
+  };
+  if (recording.title) {
+    header.title = recording.title;
+  }
+
+  const lines = [JSON.stringify(header), ...events.map((event) => JSON.stringify(event))];
+  return `${lines.join('\n')}\n`;
+}
+
+export class RecordingManager extends EventEmitter {
+  private config: RecordingManagerConfig;
+  private active = new Map<string, ActiveRecording>(); // sessionId -> recording
+  private flushInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private sessionManager: SessionManager,
+    config: Partial<RecordingManagerConfig> = {}
+  ) {
+    super();
+    this.config = { ...DEFAULT_RECORDING_CONFIG, ...config };
+
+    // Recordings cannot resume across restarts; close any left open
+    const closed = finishOpenRecordings(new Date().toISOString());
+    if (closed > 0) {
+      logger.info({ closed }, 'Closed recordings left open by previous run');
+    }
+
+    this.sessionManager.on('terminal:output', ({ sessionId, data, timestamp }) => {
+      this.append(sessionId, 'o', data, timestamp);
+    });
+
+    this.sessionManager.on('terminal:resize', ({ sessionId, cols, rows }) => {
+      this.append(sessionId, 'r', `${cols}x${rows}`, Date.now());
+    });
+
+    this.sessionManager.on('session:terminated', ({ sessionId }) => {
+      if (this.active.has(sessionId)) {
+        this.stop(sessionId);
+      }
+    });
+
+    this.flushInterval = setInterval(() => this.flushAll(), this.config.flushIntervalMs);
+
+    logger.info({ config: this.config }, 'Recording manager initialized');
+  }
+
+  /**
+   * Start recording a terminal session (returns the running recording if one exists)
+   */
+  start(sessionId: string, createdBy: string | null = null): SessionRecording {
+    const running = this.active.get(sessionId);
+    if (running) {
+      return this.getRecording(running.id)!;
+    }
+
+    const session = this.sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const startedAt = Date.now();
+    const row: RecordingRow = {
+      id: createRecordingId(),
+      session_id: sessionId,
+      project_id: session.projectId,
+      title: session.title ?? null,
+      cols: session.cols,
+      rows: session.rows,
+      created_by: createdBy,
+      started_at: new Date(startedAt).toISOString(),
+      ended_at: null,
+      duration: 0,
+      event_count: 0,
+    };
+    insertRecording(row);
+
+    this.active.set(sessionId, { id: row.id, startedAt, seq: 0, pending: [] });
+    logger.info({ sessionId, recordingId: row.id }, 'Recording started');
+
+    const recording = rowToRecording(row);
+    this.emit('started', recording);
+    return recording;
+  }
+
+  /**
+   * Stop recording a session
+   */
+  stop(sessionId: string): SessionRecording | null {
+    const running = this.active.get(sessionId);
+    if (!running) {
+      return null;
+    }
+
+    this.flush(running);
+    this.active.delete(sessionId);
+    finishRecording(running.id, new Date().toISOString());
+    logger.info({ sessionId, recordingId: running.id }, 'Recording stopped');
+
+    const recording = this.getRecording(running.id);
+    if (recording) {
+      this.emit('stopped', recording);
+    }
+    return recording;
+  }
+
+  /**
+   * Get the ID of a session's running recording, if any
+   */
+  getActiveRecordingId(sessionId: string): string | null {
+    return this.active.get(sessionId)?.id ?? null;
+  }
+
+  /**
+   * Get a recording by ID
+   */
+  getRecording(recordingId: string): SessionRecording | null {
+    const row = getRecordingById(recordingId);
+    return row ? rowToRecording(row) : null;
+  }
+
+  /**
+   * Get a recording's events, including any not yet flushed
+   */
+  getEvents(recordingId: string): RecordingEvent[] {
+    for (const running of this.active.values()) {
+      if (running.id === recordingId) {
+        this.flush(running);
+      }
+    }
+
+    return getRecordingEvents(recordingId).map((row) => [
+      row.time,
+      row.code as RecordingEventCode,
+      row.data,
+    ]);
+  }
+
+  /**
+   * Export a recording as an asciicast v2 document
+   */
+  exportAsciicast(recordingId: string): string | null {
+    const recording = this.getRecording(recordingId);
+    if (!recording) {
+      return null;
+    }
+    return toAsciicast(recording, this.getEvents(recordingId));
+  }
+
+  /**
+   * Queue an event for a session if it is being recorded
+   */
+  private append(sessionId: string, code: RecordingEventCode, data: string, timestamp: number): void {
+    const running = this.active.get(sessionId);
+    if (!running) {
+      return;
+    }
+
+    running.pending.push({
+      recording_id: running.id,
+      seq: running.seq++,
+      time: Math.max(0, (timestamp - running.startedAt) / 1000),
+      code,
+      data,
+    });
+  }
+
+  /**
+   * Write a recording's pending events to the database
+   */
+  private flush(running: ActiveRecording): void {
+    if (running.pending.length === 0) {
+      return;
+    }
+
+    const events = running.pending;
+    running.pending = [];
+    try {
+      appendRecordingEvents(running.id, events);
+    } catch (error) {
+      logger.error({ recordingId: running.id, error }, 'Failed to write recording events');
+    }
+  }
+
+  /**
+   * Flush every running recording
+   */
+  private flushAll(): void {
+    for (const running of this.active.values()) {
+      this.flush(running);
+    }
+  }
+
+  /**
+   * Stop all recordings and release resources
+   */
+  destroy(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    for (const sessionId of Array.from(this.active.keys())) {
+      this.stop(sessionId);
+    }
+    this.removeAllListeners();
+
+    logger.info('Recording manager destroyed');
+  }
+}
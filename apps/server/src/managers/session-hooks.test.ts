@@ -0,0 +1,62 @@
+/**
+ * Unit tests for terminal session hooks
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runSessionHook } from './session-hooks.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('runSessionHook', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'session-hooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should run in the session cwd with its environment', async () => {
+    await runSessionHook(
+      'preStart',
+      { preStart: 'echo "$GREETING $MASTERDASHBOARD_SESSION_ID" > out.txt' },
+      { sessionId: 'term_1', cwd, env: { GREETING: 'hello' } }
+    );
+
+    expect(readFileSync(join(cwd, 'out.txt'), 'utf-8')).toBe('hello term_1\n');
+  });
+
+  it('should do nothing when the hook is not set', async () => {
+    await expect(
+      runSessionHook('postExit', { preStart: 'exit 1' }, { sessionId: 'term_1', cwd })
+    ).resolves.toBeUndefined();
+    await expect(runSessionHook('preStart', undefined, { sessionId: 'term_1', cwd })).resolves.toBeUndefined();
+  });
+
+  it('should reject with the last line of stderr on failure', async () => {
+    await expect(
+      runSessionHook(
+        'preStart',
+        { preStart: 'echo starting; echo "docker is not running" >&2; exit 3' },
+        { sessionId: 'term_1', cwd }
+      )
+    ).rejects.toThrow('preStart hook failed: docker is not running');
+
+    await expect(
+      runSessionHook('postExit', { postExit: 'exit 2' }, { sessionId: 'term_1', cwd })
+    ).rejects.toThrow('postExit hook failed: exited with code 2');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Session Hooks
+ *
+ * Runs a terminal's pre-start and post-exit hook commands. Hooks run through
+ * /bin/sh outside the terminal, in its working directory and with its
+ * environment, so their output never reaches the terminal buffer.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { SESSION_ID_ENV_VAR, type TerminalHooks } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { SessionHookError } from '../utils/errors.js';
+
+const logger = createChildLogger('session-hooks');
+
+const execFileAsync = promisify(execFile);
+
+/** Hooks that run longer than this are killed */
+export const SESSION_HOOK_TIMEOUT_MS = 60_000;
+
+export type SessionHookName = keyof TerminalHooks;
+
+export interface SessionHookContext {
+  sessionId: string;
+  cwd: string;
+  env?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Run one of a session's hooks
+ * Resolves once the command exits; rejects with a SessionHookError if it
+ * fails or times out.
+ * Does nothing when the hook is not set.
+ */
+export async function runSessionHook(
+  hook: SessionHookName,
+  hooks: Readonly<TerminalHooks> | undefined,
+  context: SessionHookContext
+): Promise<void> {
+  const command = hooks?.[hook]?.trim();
+  if (!command) return;
+
+  logger.info({ sessionId: context.sessionId, hook }, 'Running session hook');
+
+  try {
+    await execFileAsync('/bin/sh', ['-c', command], {
+      cwd: context.cwd,
+      env: {
+        ...process.env,
+        ...context.env,
+        [SESSION_ID_ENV_VAR]: context.sessionId,
+      },
+      timeout: SESSION_HOOK_TIMEOUT_MS,
+    });
+  } catch (error) {
+    const { stderr, code, killed } = error as { stderr?: string; code?: number | string; killed?: boolean };
+    const reason = killed
+      ? `timed out after ${SESSION_HOOK_TIMEOUT_MS / 1000}s`
+      : stderr?.trim().split('\n').pop() || `exited with code ${code}`;
+    throw new SessionHookError(context.sessionId, hook, reason);
+  }
+}
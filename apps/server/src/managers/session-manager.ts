@@ -10,18 +10,28 @@ import { EventEmitter } from 'events';
 import {
   SessionType,
   SessionStatus,
+  ShellType,
   TerminalActivityStatus,
   createTerminalId,
+  DEFAULT_TERMINAL_DIMENSIONS,
   type BaseSession,
   type TerminalSession,
   type TerminalConfig,
+  type TmuxAdoptConfig,
+  type TmuxWindow,
+  type TerminalWindowAction,
   type BufferSnapshot,
+  type BufferSearchResults,
+  type ValidatedBufferSearchQuery,
+  type TerminalShellStatePayload,
 } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
 import {
   SessionNotFoundError,
   SessionTerminatedError,
   PTYNotFoundError,
+  TmuxTargetNotFoundError,
+  ValidationError,
 } from '../utils/errors.js';
 import {
   insertSession,
@@ -32,17 +42,47 @@ import {
   getActiveSessions as getActiveSessionsFromDb,
 } from '../persistence/database.js';
 import { PTYManager } from './pty-manager.js';
-import { BufferManager } from './buffer-manager.js';
+import { BufferManager, countNewlines, toBufferSearchOptions } from './buffer-manager.js';
 import { StatusDetector } from './status-detector.js';
 import { TmuxManager } from './tmux-manager.js';
-import type { ReconnectResult, ManagerOptions } from './types.js';
+import { runSessionHook } from './session-hooks.js';
+import {
+  ShellIntegrationParser,
+  applyShellIntegrationEvent,
+  getShellTitle,
+} from './shell-integration.js';
+import type {
+  ReconnectResult,
+  ManagerOptions,
+  StatusChangeEventInternal,
+  ShellCommandEventInternal,
+} from './types.js';
 
 const logger = createChildLogger('session-manager');
 
+/** Shells recognised from the command running in an adopted tmux pane */
+const PANE_COMMAND_SHELLS: Record<string, ShellType> = {
+  bash: ShellType.BASH,
+  zsh: ShellType.ZSH,
+  fish: ShellType.FISH,
+  sh: ShellType.SH,
+  pwsh: ShellType.POWERSHELL,
+  claude: ShellType.CLAUDE_CODE,
+};
+
+/**
+ * Guess the shell of an adopted pane for status detection
+ */
+function shellFromPaneCommand(command: string): ShellType {
+  return PANE_COMMAND_SHELLS[command.replace(/^-/, '')] ?? ShellType.BASH;
+}
+
 export class SessionManager extends EventEmitter {
   private sessions = new Map<string, BaseSession>();
   private clientSessions = new Map<string, Set<string>>(); // clientId -> sessionIds
   private sessionClients = new Map<string, string>(); // sessionId -> clientId (current)
+  private shellParsers = new Map<string, ShellIntegrationParser>();
+  private shellReported = new Set<string>(); // sessions whose shell has reported its state
   private ptyManager: PTYManager;
   private tmuxManager: TmuxManager;
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
@@ -89,6 +129,13 @@ export class SessionManager extends EventEmitter {
     return this.tmuxManager;
   }
 
+  /**
+   * Get the PTY manager instance
+   */
+  getPtyManager(): PTYManager {
+    return this.ptyManager;
+  }
+
   /**
    * Set up PTY event listeners
    */
@@ -98,14 +145,14 @@ export class SessionManager extends EventEmitter {
       // Always buffer (even if no client connected)
       this.bufferManager.appendOutput(sessionId, data);
 
-      // Detect status changes
-      const newStatus = this.statusDetector.detect(sessionId, data);
-      if (newStatus) {
-        this.updateSessionActivityStatus(sessionId, newStatus);
-      }
+      // Detect status changes (applied via the status:change listener)
+      this.statusDetector.detect(sessionId, data);
 
       // Emit to connected client if any
       this.emit('terminal:output', { sessionId, data, timestamp: Date.now() });
+
+      // Follow cwd and commands reported by shell integration
+      this.applyShellIntegration(sessionId, data);
     });
 
     this.ptyManager.on('exit', ({ sessionId, exitCode }) => {
@@ -117,7 +164,10 @@ export class SessionManager extends EventEmitter {
    * Set up status detector listeners
    */
   private setupStatusListeners(): void {
-    this.statusDetector.on('status:change', (event) => {
+    // Changes also come from the detector's silence and stall timers,
+    // not just from output, so the session is updated here
+    this.statusDetector.on('status:change', (event: StatusChangeEventInternal) => {
+      this.updateSessionActivityStatus(event.sessionId, event.newStatus);
       this.emit('status:change', event);
     });
   }
@@ -136,6 +186,7 @@ export class SessionManager extends EventEmitter {
       if (session && session.status !== SessionStatus.TERMINATED) {
         session.status = SessionStatus.TERMINATED;
         session.updatedAt = new Date();
+        this.runPostExitHook(sessionId);
         this.emit('session:terminated', { sessionId });
       }
     });
@@ -148,6 +199,11 @@ export class SessionManager extends EventEmitter {
     const dbSessions = getActiveSessionsFromDb();
 
     for (const dbSession of dbSessions) {
+      const config = JSON.parse(dbSession.config);
+      if (config.tmuxTarget) {
+        this.tmuxManager.adoptForeignTarget(dbSession.id, config.tmuxTarget);
+      }
+
       const hasTmux = await this.tmuxManager.sessionExists(dbSession.id);
 
       if (hasTmux) {
@@ -155,7 +211,6 @@ export class SessionManager extends EventEmitter {
         updateSessionStatus(dbSession.id, SessionStatus.DISCONNECTED);
 
         // Load session into memory
-        const config = JSON.parse(dbSession.config);
         const session: TerminalSession = {
           id: dbSession.id,
           type: SessionType.TERMINAL,
@@ -163,10 +218,14 @@ export class SessionManager extends EventEmitter {
           projectId: dbSession.project_id,
           shell: config.shell,
           cwd: config.cwd ?? process.env.HOME ?? '/',
+          env: config.env,
+          initialCommand: config.initialCommand,
+          hooks: config.hooks,
           cols: config.cols ?? 100,
           rows: config.rows ?? 30,
           activityStatus: TerminalActivityStatus.IDLE,
           title: config.title,
+          tmuxTarget: config.tmuxTarget,
           createdAt: new Date(dbSession.created_at),
           updatedAt: new Date(),
           lastActiveAt: new Date(dbSession.last_active_at),
@@ -189,10 +248,12 @@ export class SessionManager extends EventEmitter {
   /**
    * Create a new terminal session
    * Order: DB insert FIRST, then tmux creation (prevents orphans)
+   * ownerId records the user account that created the session, if any.
    */
   async createTerminalSession(
     clientId: string,
-    config: TerminalConfig
+    config: TerminalConfig,
+    ownerId: string | null = null
   ): Promise<TerminalSession> {
     const sessionId = createTerminalId();
     const now = new Date();
@@ -205,6 +266,10 @@ export class SessionManager extends EventEmitter {
       cwd: config.cwd,
     }, '🔵 SESSION_CREATE_START: Creating terminal session');
 
+    // STEP 0: Pre-start hook; nothing has been created yet if it fails
+    const cwd = config.cwd ?? process.env.HOME ?? '/';
+    await runSessionHook('preStart', config.hooks, { sessionId, cwd, env: config.env });
+
     // STEP 1: Insert into database FIRST (prevents orphaned tmux sessions)
     try {
       insertSession({
@@ -214,7 +279,10 @@ export class SessionManager extends EventEmitter {
         project_id: config.projectId,
         config: JSON.stringify({
           shell: config.shell,
-          cwd: config.cwd ?? process.env.HOME ?? '/',
+          cwd,
+          env: config.env,
+          initialCommand: config.initialCommand,
+          hooks: config.hooks,
           cols: config.cols ?? 80,
           rows: config.rows ?? 24,
           title: config.title,
@@ -224,6 +292,7 @@ export class SessionManager extends EventEmitter {
         last_active_at: now.toISOString(),
         metadata: '{}',
         tmux_session_name: null, // Will be updated after tmux creation
+        owner_id: ownerId,
       });
       logger.info({ sessionId }, '🔵 SESSION_CREATE_DB: Database entry created');
     } catch (error) {
@@ -231,6 +300,9 @@ export class SessionManager extends EventEmitter {
       throw error; // Don't continue if DB insert fails
     }
 
+    // Scope status detection to the shell before any output arrives
+    this.statusDetector.setSessionShell(sessionId, config.shell);
+
     // STEP 2: Create PTY process (will use tmux if available)
     try {
       await this.ptyManager.create(sessionId, config);
@@ -246,6 +318,11 @@ export class SessionManager extends EventEmitter {
       throw error;
     }
 
+    // Typed in once; recovery reattaches to a shell that already ran it
+    if (config.initialCommand?.trim()) {
+      this.ptyManager.write(sessionId, `${config.initialCommand}\r`);
+    }
+
     // STEP 3: Update DB with tmux session name
     const tmuxSession = this.tmuxManager.getSession(sessionId);
     const tmuxName = tmuxSession?.tmuxName ?? null;
@@ -267,8 +344,10 @@ export class SessionManager extends EventEmitter {
       status: SessionStatus.ACTIVE,
       projectId: config.projectId,
       shell: config.shell,
-      cwd: config.cwd ?? process.env.HOME ?? '/',
+      cwd,
       env: config.env,
+      initialCommand: config.initialCommand,
+      hooks: config.hooks,
       cols: config.cols ?? 80,
       rows: config.rows ?? 24,
       activityStatus: TerminalActivityStatus.IDLE,
@@ -292,6 +371,79 @@ export class SessionManager extends EventEmitter {
     return session;
   }
 
+  /**
+   * Adopt a tmux session, window or pane the user started outside the
+   * dashboard as a terminal of a project
+   * The session starts disconnected; the client attaches to it by
+   * reconnecting. The original is never killed or renamed, and terminating
+   * the dashboard session only detaches from it.
+   */
+  async adoptTmuxSession(
+    config: TmuxAdoptConfig,
+    ownerId: string | null = null
+  ): Promise<TerminalSession> {
+    const info = await this.tmuxManager.describeForeignTarget(config.target);
+    if (!info) {
+      throw new TmuxTargetNotFoundError(config.target);
+    }
+
+    const sessionId = createTerminalId();
+    const now = new Date();
+    const shell = config.shell ?? shellFromPaneCommand(info.command);
+    const title = config.title ?? `${info.sessionName}:${info.windowName}`;
+    const { cols, rows } = DEFAULT_TERMINAL_DIMENSIONS;
+
+    insertSession({
+      id: sessionId,
+      type: SessionType.TERMINAL,
+      status: SessionStatus.DISCONNECTED,
+      project_id: config.projectId,
+      config: JSON.stringify({
+        shell,
+        cwd: info.cwd,
+        cols,
+        rows,
+        title,
+        tmuxTarget: config.target,
+      }),
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      last_active_at: now.toISOString(),
+      metadata: '{}',
+      tmux_session_name: config.target,
+      owner_id: ownerId,
+    });
+
+    this.tmuxManager.adoptForeignTarget(sessionId, config.target);
+    this.statusDetector.setSessionShell(sessionId, shell);
+
+    const session: TerminalSession = {
+      id: sessionId,
+      type: SessionType.TERMINAL,
+      status: SessionStatus.DISCONNECTED,
+      projectId: config.projectId,
+      shell,
+      cwd: info.cwd,
+      cols,
+      rows,
+      activityStatus: TerminalActivityStatus.IDLE,
+      title,
+      tmuxTarget: config.target,
+      createdAt: now,
+      updatedAt: now,
+      lastActiveAt: now,
+    };
+
+    this.sessions.set(sessionId, session);
+    this.emit('session:created', session);
+    logger.info(
+      { sessionId, target: config.target, tmuxSession: info.sessionName, projectId: config.projectId },
+      'Adopted foreign tmux session'
+    );
+
+    return session;
+  }
+
   /**
    * Get all sessions
    */
@@ -317,6 +469,23 @@ export class SessionManager extends EventEmitter {
     return undefined;
   }
 
+  /**
+   * Get the cwd and last command reported by a terminal's shell
+   * Undefined until the shell has reported through shell integration.
+   */
+  getShellState(sessionId: string): TerminalShellStatePayload | undefined {
+    const session = this.getTerminalSession(sessionId);
+    if (!session || !this.shellReported.has(sessionId)) {
+      return undefined;
+    }
+    return {
+      sessionId,
+      cwd: session.cwd,
+      title: getShellTitle(session.cwd, session.lastCommand),
+      lastCommand: session.lastCommand,
+    };
+  }
+
   /**
    * Get all sessions for a project
    */
@@ -389,6 +558,11 @@ export class SessionManager extends EventEmitter {
         const dbSession = getSessionById(sessionId);
 
         if (dbSession && dbSession.status !== 'terminated') {
+          const config = JSON.parse(dbSession.config);
+          if (config.tmuxTarget) {
+            this.tmuxManager.adoptForeignTarget(sessionId, config.tmuxTarget);
+          }
+
           // Check if tmux session exists
           const hasTmux = await this.tmuxManager.sessionExists(sessionId);
           if (!hasTmux) {
@@ -397,7 +571,6 @@ export class SessionManager extends EventEmitter {
           }
 
           // Reconstruct session in memory
-          const config = JSON.parse(dbSession.config);
           session = {
             id: sessionId,
             type: SessionType.TERMINAL,
@@ -405,10 +578,14 @@ export class SessionManager extends EventEmitter {
             projectId: dbSession.project_id,
             shell: config.shell,
             cwd: config.cwd,
+            env: config.env,
+            initialCommand: config.initialCommand,
+            hooks: config.hooks,
             cols: config.cols,
             rows: config.rows,
             activityStatus: TerminalActivityStatus.IDLE,
             title: config.title,
+            tmuxTarget: config.tmuxTarget,
             createdAt: new Date(dbSession.created_at),
             updatedAt: new Date(),
             lastActiveAt: new Date(dbSession.last_active_at),
@@ -432,15 +609,18 @@ export class SessionManager extends EventEmitter {
         session.status = SessionStatus.TERMINATED;
         session.updatedAt = new Date();
         updateSessionStatus(sessionId, SessionStatus.TERMINATED);
+        this.runPostExitHook(sessionId);
         terminatedSessions.push(sessionId);
         continue;
       }
 
       // Reconnect PTY to tmux session
       const termSession = session as TerminalSession;
+      this.statusDetector.setSessionShell(sessionId, termSession.shell);
       const reconnected = await this.ptyManager.reconnect(sessionId, {
         shell: termSession.shell,
         cwd: termSession.cwd,
+        env: termSession.env ? { ...termSession.env } : undefined,
         cols: termSession.cols,
         rows: termSession.rows,
         projectId: termSession.projectId,
@@ -566,6 +746,7 @@ export class SessionManager extends EventEmitter {
           session.status = SessionStatus.TERMINATED;
           session.updatedAt = new Date();
           updateSessionStatus(sessionId, SessionStatus.TERMINATED);
+          this.runPostExitHook(sessionId);
           this.emit('session:terminated', { sessionId });
         }
       });
@@ -575,6 +756,82 @@ export class SessionManager extends EventEmitter {
     session.cols = cols;
     session.rows = rows;
     session.updatedAt = new Date();
+
+    this.emit('terminal:resize', { sessionId, cols, rows });
+  }
+
+  /**
+   * Search a terminal's full server-side scrollback
+   */
+  searchScrollback(sessionId: string, query: ValidatedBufferSearchQuery): BufferSearchResults {
+    if (!this.sessions.has(sessionId)) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const results = this.bufferManager.search(sessionId, toBufferSearchOptions(query));
+    if (!results) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return results;
+  }
+
+  /**
+   * List the tmux windows and panes of a terminal
+   */
+  async getTerminalWindows(sessionId: string): Promise<TmuxWindow[]> {
+    await this.requireTmuxSession(sessionId);
+    return this.tmuxManager.listWindows(sessionId);
+  }
+
+  /**
+   * Open, split, select or close a terminal's tmux windows and panes
+   * Returns the windows afterwards. The attached PTY shows the change.
+   */
+  async updateTerminalWindows(
+    sessionId: string,
+    change: TerminalWindowAction
+  ): Promise<TmuxWindow[]> {
+    await this.requireTmuxSession(sessionId);
+
+    switch (change.action) {
+      case 'new-window':
+        await this.tmuxManager.createWindow(sessionId, change.name);
+        break;
+      case 'split':
+        await this.tmuxManager.splitPane(sessionId, change.direction, change.paneId);
+        break;
+      case 'select-window':
+        await this.tmuxManager.selectWindow(sessionId, change.windowId);
+        break;
+      case 'select-pane':
+        await this.tmuxManager.selectPane(sessionId, change.paneId);
+        break;
+      case 'kill-window':
+        await this.tmuxManager.killWindow(sessionId, change.windowId);
+        break;
+      case 'kill-pane':
+        await this.tmuxManager.killPane(sessionId, change.paneId);
+        break;
+    }
+
+    logger.debug({ sessionId, action: change.action }, 'Terminal windows updated');
+    return this.tmuxManager.listWindows(sessionId);
+  }
+
+  /**
+   * Check that a live terminal is backed by tmux
+   */
+  private async requireTmuxSession(sessionId: string): Promise<void> {
+    const session = this.getTerminalSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    if (session.status === SessionStatus.TERMINATED) {
+      throw new SessionTerminatedError(sessionId);
+    }
+    if (!(await this.tmuxManager.sessionExists(sessionId, 0))) {
+      throw new ValidationError('Terminal is not backed by tmux', { sessionId });
+    }
   }
 
   /**
@@ -596,6 +853,8 @@ export class SessionManager extends EventEmitter {
 
     // Cleanup status detector
     this.statusDetector.clearSession(sessionId);
+    this.shellParsers.delete(sessionId);
+    this.shellReported.delete(sessionId);
 
     // Update session
     session.status = SessionStatus.TERMINATED;
@@ -616,6 +875,7 @@ export class SessionManager extends EventEmitter {
       this.sessionClients.delete(sessionId);
     }
 
+    this.runPostExitHook(sessionId);
     this.emit('session:terminated', { sessionId });
   }
 
@@ -661,6 +921,53 @@ export class SessionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Apply shell integration sequences from terminal output to the session
+   */
+  private applyShellIntegration(sessionId: string, data: string): void {
+    let parser = this.shellParsers.get(sessionId);
+    if (!parser) {
+      parser = new ShellIntegrationParser();
+      this.shellParsers.set(sessionId, parser);
+    }
+
+    const events = parser.parse(data);
+    if (events.length === 0) {
+      return;
+    }
+
+    const session = this.getTerminalSession(sessionId);
+    if (!session) {
+      return;
+    }
+
+    // The chunk is already buffered; count its lines up to each command mark
+    const chunkStartLine = this.bufferManager.getOutputLineCount(sessionId) - countNewlines(data);
+
+    let changed = false;
+    for (const event of events) {
+      const lastCommand = session.lastCommand;
+      changed = applyShellIntegrationEvent(session, event) || changed;
+
+      if (session.lastCommand && session.lastCommand !== lastCommand) {
+        const commandEvent: ShellCommandEventInternal = {
+          sessionId,
+          projectId: session.projectId,
+          command: session.lastCommand,
+          cwd: session.cwd,
+          line: chunkStartLine + countNewlines(data.slice(0, event.offset)),
+        };
+        this.emit('terminal:command', commandEvent);
+      }
+    }
+
+    if (changed || !this.shellReported.has(sessionId)) {
+      this.shellReported.add(sessionId);
+      session.updatedAt = new Date();
+      this.emit('terminal:shell', this.getShellState(sessionId));
+    }
+  }
+
   /**
    * Handle PTY exit (not the same as session termination)
    * This is now properly async to ensure DB updates complete before returning
@@ -693,6 +1000,8 @@ export class SessionManager extends EventEmitter {
 
         // Cleanup
         this.statusDetector.clearSession(sessionId);
+        this.shellParsers.delete(sessionId);
+        this.shellReported.delete(sessionId);
 
         // Update database - ensure this completes
         try {
@@ -702,6 +1011,7 @@ export class SessionManager extends EventEmitter {
           logger.error({ sessionId, error }, '🔴 PTY_EXIT_DB_FAILED: Failed to update session status in database');
         }
 
+        this.runPostExitHook(sessionId);
         this.emit('session:terminated', { sessionId, exitCode });
       } else {
         logger.info({ sessionId }, '🟡 PTY_EXIT_DISCONNECTED: Tmux still alive - marking as disconnected');
@@ -734,6 +1044,22 @@ export class SessionManager extends EventEmitter {
     });
   }
 
+  /**
+   * Run a terminal's post-exit hook in the background
+   */
+  private runPostExitHook(sessionId: string): void {
+    const session = this.getTerminalSession(sessionId);
+    if (!session?.hooks?.postExit) return;
+
+    runSessionHook('postExit', session.hooks, {
+      sessionId,
+      cwd: session.cwd,
+      env: session.env,
+    }).catch((error) => {
+      logger.warn({ sessionId, error }, 'Post-exit hook failed');
+    });
+  }
+
   /**
    * Track client-session relationship
    */
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for shell integration
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShellType, type ShellCommand } from '@masterdashboard/shared';
+import {
+  ShellIntegrationParser,
+  applyShellIntegrationEvent,
+  getShellIntegrationLaunch,
+  getShellTitle,
+} from './shell-integration.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('getShellIntegrationLaunch', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shell-integration-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start bash with the integration rcfile', () => {
+    const launch = getShellIntegrationLaunch(ShellType.BASH, {}, dir);
+
+    expect(launch?.args).toEqual(['--rcfile', join(dir, 'bash', 'masterdashboard.bash')]);
+    expect(existsSync(join(dir, 'bash', 'masterdashboard.bash'))).toBe(true);
+  });
+
+  it('should point zsh at the integration ZDOTDIR and keep the user one', () => {
+    const launch = getShellIntegrationLaunch(ShellType.ZSH, { ZDOTDIR: '/home/me/.zsh' }, dir);
+
+    expect(launch?.args).toEqual(['--login']);
+    expect(launch?.env).toEqual({
+      ZDOTDIR: join(dir, 'zsh'),
+      MASTERDASHBOARD_USER_ZDOTDIR: '/home/me/.zsh',
+    });
+    expect(existsSync(join(dir, 'zsh', '.zshrc'))).toBe(true);
+  });
+
+  it('should source the integration script in fish', () => {
+    const launch = getShellIntegrationLaunch(ShellType.FISH, {}, dir);
+
+    expect(launch?.args).toEqual([
+      '--login',
+      '--init-command',
+      `source ${join(dir, 'fish', 'masterdashboard.fish')}`,
+    ]);
+  });
+
+  it('should return null for shells without integration', () => {
+    expect(getShellIntegrationLaunch(ShellType.SH, {}, dir)).toBeNull();
+  });
+});
+
+describe('ShellIntegrationParser', () => {
+  it('should parse cwd, prompt and command marks', () => {
+    const parser = new ShellIntegrationParser();
+
+    const chunk =
+      'output\x1b]133;D;2\x07\x1b]7;file://host/tmp/my%20dir\x07\x1b]133;A\x07$ ' +
+      '\x1b]133;C;cmdline_url=ls%20-la\x1b\\';
+
+    expect(parser.parse(chunk)).toEqual([
+      { type: 'command-end', exitCode: 2, offset: chunk.indexOf('\x1b]7') },
+      { type: 'cwd', cwd: '/tmp/my dir', offset: chunk.indexOf('\x1b]133;A') },
+      { type: 'prompt', offset: chunk.indexOf('$ ') },
+      { type: 'command-start', command: 'ls -la', offset: chunk.length },
+    ]);
+  });
+
+  it('should keep a sequence split across chunks', () => {
+    const parser = new ShellIntegrationParser();
+
+    expect(parser.parse('text\x1b')).toEqual([]);
+    expect(parser.parse(']7;file://host/ho')).toEqual([]);
+    expect(parser.parse('me/user\x07more')).toEqual([{ type: 'cwd', cwd: '/home/user', offset: 8 }]);
+    expect(parser.parse('plain')).toEqual([]);
+  });
+
+  it('should ignore other escape sequences', () => {
+    const parser = new ShellIntegrationParser();
+
+    expect(parser.parse('\x1b[32mgreen\x1b[0m\x1b]0;title\x07\x1b]133;B\x07')).toEqual([]);
+  });
+
+  it('should leave out a missing exit code', () => {
+    const parser = new ShellIntegrationParser();
+
+    expect(parser.parse('\x1b]133;D\x07')).toEqual([
+      { type: 'command-end', exitCode: undefined, offset: 8 },
+    ]);
+  });
+});
+
+describe('applyShellIntegrationEvent', () => {
+  const now = new Date('2026-01-01T00:00:00.000Z');
+
+  it('should follow the cwd', () => {
+    const session = { cwd: '/home/user' };
+
+    expect(applyShellIntegrationEvent(session, { type: 'cwd', cwd: '/tmp' }, now)).toBe(true);
+    expect(session.cwd).toBe('/tmp');
+    expect(applyShellIntegrationEvent(session, { type: 'cwd', cwd: '/tmp' }, now)).toBe(false);
+  });
+
+  it('should record a command and its exit code', () => {
+    const session: { cwd: string; lastCommand?: ShellCommand } = { cwd: '/tmp' };
+
+    applyShellIntegrationEvent(session, { type: 'command-start', command: 'make' }, now);
+    expect(session.lastCommand).toEqual({ command: 'make', startedAt: now.toISOString() });
+
+    applyShellIntegrationEvent(session, { type: 'command-end', exitCode: 1 }, now);
+    expect(session.lastCommand).toEqual({
+      command: 'make',
+      startedAt: now.toISOString(),
+      finishedAt: now.toISOString(),
+      exitCode: 1,
+    });
+
+    expect(applyShellIntegrationEvent(session, { type: 'command-end', exitCode: 0 }, now)).toBe(false);
+  });
+
+  it('should finish a running command at the next prompt', () => {
+    const session: { cwd: string; lastCommand?: ShellCommand } = {
+      cwd: '/tmp',
+      lastCommand: { command: 'vim', startedAt: now.toISOString() },
+    };
+
+    expect(applyShellIntegrationEvent(session, { type: 'prompt' }, now)).toBe(true);
+    expect(session.lastCommand?.finishedAt).toBe(now.toISOString());
+    expect(session.lastCommand?.exitCode).toBeUndefined();
+  });
+
+  it('should ignore an empty command line', () => {
+    const session = { cwd: '/tmp' };
+
+    expect(applyShellIntegrationEvent(session, { type: 'command-start', command: '' }, now)).toBe(false);
+  });
+});
+
+describe('getShellTitle', () => {
+  it('should show the running command', () => {
+    expect(getShellTitle('/tmp', { command: 'top', startedAt: '' }, '/home/user')).toBe('top');
+  });
+
+  it('should show the cwd with home shortened', () => {
+    const finished = { command: 'ls', startedAt: 'then', finishedAt: 'now' };
+
+    expect(getShellTitle('/home/user/src', finished, '/home/user')).toBe('~/src');
+    expect(getShellTitle('/home/user', undefined, '/home/user')).toBe('~');
+    expect(getShellTitle('/home/username', undefined, '/home/user')).toBe('/home/username');
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Shell Integration
+ *
+ * Makes bash, zsh and fish report their working directory (OSC 7) and mark
+ * prompts and commands (OSC 133), and parses those sequences from terminal
+ * output. Inside tmux the sequences are wrapped for passthrough, since tmux
+ * drops escape sequences it does not know.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ShellType, type ShellCommand, type TerminalSession } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('shell-integration');
+
+/** Directory the integration scripts are written to */
+export const SHELL_INTEGRATION_DIR = join(
+  process.env.HOME ?? '/tmp',
+  '.config',
+  'masterdashboard',
+  'shell-integration'
+);
+
+/** Environment variable holding the user's own ZDOTDIR while ours is in use */
+const USER_ZDOTDIR_ENV_VAR = 'MASTERDASHBOARD_USER_ZDOTDIR';
+
+const SCRIPT_HEADER = `# Master Dashboard shell integration
+# This file is auto-generated - changes will be overwritten`;
+
+const BASH_SCRIPT = `${SCRIPT_HEADER}
+
+# Started with --rcfile instead of --login, so read the login files here
+[ -r /etc/profile ] && . /etc/profile
+if [ -r ~/.bash_profile ]; then . ~/.bash_profile
+elif [ -r ~/.bash_login ]; then . ~/.bash_login
+elif [ -r ~/.profile ]; then . ~/.profile
+fi
+
+__mdb_osc() {
+  if [ -n "$TMUX" ]; then
+    printf '\\ePtmux;\\e\\e]%s\\a\\e\\\\' "$1"
+  else
+    printf '\\e]%s\\a' "$1"
+  fi
+}
+
+__mdb_urlencode() {
+  local LC_ALL=C s="$1" out="" c i
+  for (( i = 0; i < \${#s}; i++ )); do
+    c="\${s:i:1}"
+    case "$c" in
+      [a-zA-Z0-9._~/-]) out+="$c" ;;
+      *) printf -v c '%%%02X' "'$c"; out+="$c" ;;
+    esac
+  done
+  printf '%s' "$out"
+}
+
+__mdb_started=
+__mdb_precmd() {
+  local ret=$?
+  # No command has finished before the first prompt
+  if [ -n "$__mdb_started" ]; then
+    __mdb_osc "133;D;$ret"
+  fi
+  __mdb_started=1
+  __mdb_osc "7;file://$HOSTNAME$(__mdb_urlencode "$PWD")"
+  __mdb_osc "133;A"
+  return $ret
+}
+
+# Runs from PS0, in a subshell, once a command line has been read
+__mdb_preexec() {
+  local command
+  command=$(HISTTIMEFORMAT= builtin history 1)
+  [[ "$command" =~ ^\\ *[0-9]+\\*?\\ +(.*)$ ]] && command="\${BASH_REMATCH[1]}"
+  __mdb_osc "133;C;cmdline_url=$(__mdb_urlencode "$command")"
+}
+
+if [[ "$(declare -p PROMPT_COMMAND 2>/dev/null)" == "declare -a"* ]]; then
+  PROMPT_COMMAND=(__mdb_precmd "\${PROMPT_COMMAND[@]}")
+else
+  PROMPT_COMMAND="__mdb_precmd\${PROMPT_COMMAND:+; $PROMPT_COMMAND}"
+fi
+PS0="\${PS0}"'$(__mdb_preexec)'
+`;
+
+/**
+ * A zsh startup file that reads the user's own copy
+ * ZDOTDIR points at our directory until the last file has been read.
+ */
+function zshStartupFile(name: string, extra = ''): string {
+  return `${SCRIPT_HEADER}
+
+__mdb_zdotdir=$ZDOTDIR
+ZDOTDIR=\${${USER_ZDOTDIR_ENV_VAR}:-$HOME}
+[[ -r $ZDOTDIR/${name} ]] && . $ZDOTDIR/${name}
+# The user's files may move ZDOTDIR themselves
+${USER_ZDOTDIR_ENV_VAR}=$ZDOTDIR
+ZDOTDIR=$__mdb_zdotdir
+${extra}`;
+}
+
+const ZSH_HOOKS = `
+__mdb_osc() {
+  if [[ -n $TMUX ]]; then
+    printf '\\ePtmux;\\e\\e]%s\\a\\e\\\\' "$1"
+  else
+    printf '\\e]%s\\a' "$1"
+  fi
+}
+
+__mdb_urlencode() {
+  emulate -L zsh
+  local LC_ALL=C s=$1 out= c i
+  for (( i = 1; i <= \${#s}; i++ )); do
+    c=\${s[i]}
+    case $c in
+      ([a-zA-Z0-9._~/-]) out+=$c ;;
+      (*) out+=$(printf '%%%02X' "'$c") ;;
+    esac
+  done
+  print -rn -- $out
+}
+
+__mdb_running=
+__mdb_precmd() {
+  local ret=$?
+  if [[ -n $__mdb_running ]]; then
+    __mdb_osc "133;D;$ret"
+    __mdb_running=
+  fi
+  __mdb_osc "7;file://$HOST$(__mdb_urlencode $PWD)"
+  __mdb_osc "133;A"
+  return $ret
+}
+
+__mdb_preexec() {
+  __mdb_running=1
+  __mdb_osc "133;C;cmdline_url=$(__mdb_urlencode $1)"
+}
+
+# First, so it sees the exit code of the command
+precmd_functions=(__mdb_precmd $precmd_functions)
+preexec_functions+=(__mdb_preexec)
+`;
+
+const FISH_SCRIPT = `${SCRIPT_HEADER}
+
+function __mdb_osc
+    if set -q TMUX
+        printf '\\ePtmux;\\e\\e]%s\\a\\e\\\\\\\\' $argv[1]
+    else
+        printf '\\e]%s\\a' $argv[1]
+    end
+end
+
+function __mdb_prompt --on-event fish_prompt
+    __mdb_osc "7;file://$hostname"(string escape --style=url -- $PWD)
+    __mdb_osc '133;A'
+end
+
+function __mdb_preexec --on-event fish_preexec
+    __mdb_osc '133;C;cmdline_url='(string escape --style=url -- $argv[1])
+end
+
+function __mdb_postexec --on-event fish_postexec
+    __mdb_osc "133;D;$status"
+end
+`;
+
+/** Script files by path relative to the integration directory */
+const SCRIPT_FILES: Record<string, string> = {
+  'bash/masterdashboard.bash': BASH_SCRIPT,
+  'zsh/.zshenv': zshStartupFile('.zshenv'),
+  'zsh/.zprofile': zshStartupFile('.zprofile'),
+  'zsh/.zshrc': zshStartupFile('.zshrc', ZSH_HOOKS),
+  // Last file of a login shell: hand ZDOTDIR back for shells started from this one
+  'zsh/.zlogin': zshStartupFile('.zlogin', `ZDOTDIR=$${USER_ZDOTDIR_ENV_VAR}\n`),
+  'fish/masterdashboard.fish': FISH_SCRIPT,
+};
+
+/** Directories the scripts have been written to by this process */
+const installedDirs = new Set<string>();
+
+/**
+ * Write the integration scripts, once per process
+ * Rewritten on each start so they follow the server version.
+ */
+export function installShellIntegration(dir: string = SHELL_INTEGRATION_DIR): void {
+  if (installedDirs.has(dir)) return;
+
+  for (const [file, content] of Object.entries(SCRIPT_FILES)) {
+    const path = join(dir, file);
+    const parent = join(path, '..');
+    if (!existsSync(parent)) {
+      mkdirSync(parent, { recursive: true });
+    }
+    writeFileSync(path, content);
+  }
+
+  installedDirs.add(dir);
+  logger.debug({ dir }, 'Shell integration scripts written');
+}
+
+/**
+ * How to start a shell with integration
+ */
+export interface ShellIntegrationLaunch {
+  /** Arguments replacing the shell's usual startup arguments */
+  args: string[];
+  /** Environment variables to add */
+  env: Record<string, string>;
+}
+
+/**
+ * Arguments and environment that load shell integration
+ * Returns null for shells without integration.
+ */
+export function getShellIntegrationLaunch(
+  shell: ShellType,
+  env: Readonly<Record<string, string>> = {},
+  dir: string = SHELL_INTEGRATION_DIR
+): ShellIntegrationLaunch | null {
+  switch (shell) {
+    case ShellType.BASH:
+      installShellIntegration(dir);
+      return { args: ['--rcfile', join(dir, 'bash', 'masterdashboard.bash')], env: {} };
+
+    case ShellType.ZSH:
+      installShellIntegration(dir);
+      return {
+        args: ['--login'],
+        env: {
+          ZDOTDIR: join(dir, 'zsh'),
+          [USER_ZDOTDIR_ENV_VAR]: env.ZDOTDIR ?? process.env.ZDOTDIR ?? process.env.HOME ?? '',
+        },
+      };
+
+    case ShellType.FISH:
+      installShellIntegration(dir);
+      return {
+        args: ['--login', '--init-command', `source ${join(dir, 'fish', 'masterdashboard.fish')}`],
+        env: {},
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * What a shell reported
+ */
+export type ShellIntegrationEvent =
+  | { type: 'cwd'; cwd: string }
+  | { type: 'prompt' }
+  | { type: 'command-start'; command: string }
+  | { type: 'command-end'; exitCode?: number };
+
+/**
+ * A shell integration event found in a chunk of output
+ */
+export type ParsedShellIntegrationEvent = ShellIntegrationEvent & {
+  /** Position in the chunk just after the sequence */
+  offset: number;
+};
+
+/** OSC 7 and OSC 133 sequences, ended by BEL or ST */
+// eslint-disable-next-line no-control-regex
+const SEQUENCE_REGEX = /\x1b\](7|133);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+/** Longest unfinished sequence kept for the next chunk */
+const MAX_CARRY_LENGTH = 4096;
+
+/**
+ * Decode an OSC 7 or OSC 133 payload
+ */
+function toEvent(code: string, value: string): ShellIntegrationEvent | null {
+  if (code === '7') {
+    // file://host/path, with the path percent-encoded
+    if (!value.startsWith('file://')) return null;
+    const pathStart = value.indexOf('/', 'file://'.length);
+    if (pathStart === -1) return null;
+    try {
+      return { type: 'cwd', cwd: decodeURIComponent(value.slice(pathStart)) };
+    } catch {
+      return null;
+    }
+  }
+
+  const [mark, ...params] = value.split(';');
+  switch (mark) {
+    case 'A':
+      return { type: 'prompt' };
+    case 'C': {
+      let command = '';
+      for (const param of params) {
+        if (param.startsWith('cmdline_url=')) {
+          try {
+            command = decodeURIComponent(param.slice('cmdline_url='.length));
+          } catch {
+            command = '';
+          }
+        } else if (param.startsWith('cmdline=')) {
+          command = param.slice('cmdline='.length);
+        }
+      }
+      return { type: 'command-start', command: command.trim() };
+    }
+    case 'D': {
+      const exitCode = params[0] ? Number.parseInt(params[0], 10) : NaN;
+      return { type: 'command-end', exitCode: Number.isNaN(exitCode) ? undefined : exitCode };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses shell integration sequences from a terminal's output
+ * Keeps a sequence split across chunks until the rest arrives.
+ */
+export class ShellIntegrationParser {
+  private carry = '';
+
+  parse(data: string): ParsedShellIntegrationEvent[] {
+    if (!this.carry && !data.includes('\x1b')) {
+      return [];
+    }
+
+    const text = this.carry + data;
+    const carried = this.carry.length;
+    this.carry = '';
+
+    const events: ParsedShellIntegrationEvent[] = [];
+    let end = 0;
+    for (const match of text.matchAll(SEQUENCE_REGEX)) {
+      end = match.index! + match[0].length;
+      const event = toEvent(match[1]!, match[2]!);
+      if (event) {
+        // A sequence always ends in this chunk, even when it began in the last
+        events.push({ ...event, offset: end - carried });
+      }
+    }
+
+    const open = text.lastIndexOf('\x1b]');
+    if (open >= end) {
+      const tail = text.slice(open);
+      if (tail.length < MAX_CARRY_LENGTH && !tail.includes('\x07') && !tail.includes('\x1b\\')) {
+        this.carry = tail;
+      }
+    } else if (text.endsWith('\x1b')) {
+      this.carry = '\x1b';
+    }
+
+    return events;
+  }
+}
+
+/**
+ * Apply a shell integration event to a session
+ * Returns whether anything changed.
+ */
+export function applyShellIntegrationEvent(
+  session: Pick<TerminalSession, 'cwd' | 'lastCommand'>,
+  event: ShellIntegrationEvent,
+  now: Date = new Date()
+): boolean {
+  const running = session.lastCommand && !session.lastCommand.finishedAt;
+
+  switch (event.type) {
+    case 'cwd':
+      if (session.cwd === event.cwd) return false;
+      session.cwd = event.cwd;
+      return true;
+
+    case 'command-start':
+      // Enter on an empty line runs nothing
+      if (!event.command) return false;
+      session.lastCommand = { command: event.command, startedAt: now.toISOString() };
+      return true;
+
+    case 'command-end':
+      if (!running) return false;
+      session.lastCommand = {
+        ...session.lastCommand!,
+        finishedAt: now.toISOString(),
+        exitCode: event.exitCode,
+      };
+      return true;
+
+    case 'prompt':
+      // A prompt without an end mark still means the command is over
+      if (!running) return false;
+      session.lastCommand = { ...session.lastCommand!, finishedAt: now.toISOString() };
+      return true;
+  }
+}
+
+/**
+ * Title for a terminal: the running command, or the directory at the prompt
+ * with the home directory shortened to ~
+ */
+export function getShellTitle(
+  cwd: string,
+  lastCommand: ShellCommand | undefined,
+  home: string | undefined = process.env.HOME
+): string {
+  if (lastCommand && !lastCommand.finishedAt) {
+    return lastCommand.command;
+  }
+  if (home && (cwd === home || cwd.startsWith(`${home}/`))) {
+    return `~${cwd.slice(home.length)}`;
+  }
+  return cwd;
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for SSH session status detection
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShellType, TerminalActivityStatus } from '@masterdashboard/shared';
+import { SSHManager, trackSSHStatus } from './ssh-manager.js';
+import { StatusDetector } from './status-detector.js';
+
+/** Shell channels opened by the fake ssh2 client, latest last */
+const streams: EventEmitter[] = [];
+
+// Mock ssh2 with a client that connects at once and opens a shell channel
+vi.mock('ssh2', () => ({
+  Client: class extends EventEmitter {
+    connect() {
+      setImmediate(() => this.emit('ready'));
+    }
+
+    shell(_options: unknown, callback: (err: Error | undefined, stream: EventEmitter) => void) {
+      const stream = Object.assign(new EventEmitter(), {
+        stderr: new EventEmitter(),
+        write: vi.fn(),
+        close: vi.fn(),
+      });
+      streams.push(stream);
+      callback(undefined, stream);
+    }
+
+    end() {}
+  },
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('trackSSHStatus', () => {
+  let sshManager: SSHManager;
+  let detector: StatusDetector;
+
+  beforeEach(() => {
+    streams.length = 0;
+    sshManager = new SSHManager();
+    detector = new StatusDetector();
+    trackSSHStatus(sshManager, detector);
+  });
+
+  afterEach(() => {
+    detector.destroy();
+    sshManager.removeAllListeners();
+  });
+
+  it('should detect status from SSH output and record it on the session', async () => {
+    const changes: unknown[] = [];
+    detector.on('status:change', (event) => changes.push(event));
+
+    const session = await sshManager.connect({
+      host: 'build.example.com',
+      username: 'dev',
+      authMethod: 'password',
+      password: 'secret',
+      projectId: 'prj_1',
+      shell: ShellType.CLAUDE_CODE,
+    });
+    streams[0]!.emit('data', Buffer.from('✻ Thinking...'));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        sessionId: session.id,
+        newStatus: TerminalActivityStatus.WORKING,
+      }),
+    ]);
+    expect(sshManager.getSession(session.id)?.activityStatus).toBe(
+      TerminalActivityStatus.WORKING
+    );
+  });
+});
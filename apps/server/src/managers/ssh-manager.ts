@@ -16,6 +16,8 @@ import {
   createSSHId,
 } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
+import type { StatusDetector } from './status-detector.js';
+import type { StatusChangeEventInternal } from './types.js';
 import {
   SSHConnectionError,
   SSHChannelError,
@@ -145,6 +147,7 @@ export class SSHManager extends EventEmitter {
           cols: config.cols ?? SSH_DEFAULTS.cols,
           rows: config.rows ?? SSH_DEFAULTS.rows,
           activityStatus: TerminalActivityStatus.IDLE,
+          shell: config.shell ?? SSH_DEFAULTS.shell,
           createdAt: now,
           updatedAt: now,
           lastActiveAt: now,
@@ -169,7 +172,12 @@ export class SSHManager extends EventEmitter {
           };
 
           this.connections.set(sessionId, managed);
-          this.emit('connected', { sessionId, host: config.host, username: config.username });
+          this.emit('connected', {
+            sessionId,
+            host: config.host,
+            username: config.username,
+            shell: session.shell,
+          });
           resolve(session);
         } catch (error) {
           client.end();
@@ -180,7 +188,7 @@ export class SSHManager extends EventEmitter {
 
       client.on('error', (err: Error) => {
         logger.error({ sessionId, host: config.host, error: err.message }, 'SSH connection error');
-        this.emit('error', { sessionId, error: err.message });
+        this.emit('error', { sessionId, projectId: config.projectId, error: err.message });
         this.cleanup(sessionId);
         reject(new SSHConnectionError(config.host, err.message));
       });
@@ -211,6 +219,7 @@ export class SSHManager extends EventEmitter {
 
         this.emit('keyboard-interactive', {
           sessionId,
+          projectId: config.projectId,
           name,
           instructions,
           prompts: prompts.map((p: KeyboardInteractivePrompt) => ({ prompt: p.prompt, echo: p.echo })),
@@ -356,6 +365,21 @@ export class SSHManager extends EventEmitter {
     return this.connections.get(sessionId)?.session;
   }
 
+  /**
+   * Record a session's detected activity status
+   * Returns false if the session is not connected.
+   */
+  setActivityStatus(sessionId: string, status: TerminalActivityStatus): boolean {
+    const managed = this.connections.get(sessionId);
+    if (!managed) {
+      return false;
+    }
+
+    managed.session.activityStatus = status;
+    managed.session.updatedAt = new Date();
+    return true;
+  }
+
   /**
    * Get all running SSH session IDs
    */
@@ -541,3 +565,26 @@ export class SSHManager extends EventEmitter {
     logger.info('SSH manager destroyed');
   }
 }
+
+/**
+ * Run SSH output through status detection and keep each session's activity
+ * status in step with it
+ */
+export function trackSSHStatus(sshManager: SSHManager, statusDetector: StatusDetector): void {
+  sshManager.on('connected', ({ sessionId, shell }) => {
+    statusDetector.setSessionShell(sessionId, shell);
+  });
+
+  // Changes reach clients as status:change through the session manager
+  sshManager.on('data', ({ sessionId, data }) => {
+    statusDetector.detect(sessionId, data);
+  });
+
+  statusDetector.on('status:change', ({ sessionId, newStatus }: StatusChangeEventInternal) => {
+    sshManager.setActivityStatus(sessionId, newStatus);
+  });
+
+  const clear = ({ sessionId }: { sessionId: string }) => statusDetector.clearSession(sessionId);
+  sshManager.on('closed', clear);
+  sshManager.on('disconnected', clear);
+}
@@ -326,13 +326,13 @@ describe('StatusDetector', () => {
 
   describe('removePattern', () => {
     it('should remove pattern by ID', () => {
-      const removed = detector.removePattern('bash-prompt');
+      const removed = detector.removePattern('bash-prompt-dollar');
 
       expect(removed).toBe(true);
 
       const patterns = detector.getPatterns();
       const ids = patterns.map((p) => p.id);
-      expect(ids).not.toContain('bash-prompt');
+      expect(ids).not.toContain('bash-prompt-dollar');
     });
 
     it('should return false for non-existent pattern', () => {
@@ -344,9 +344,9 @@ describe('StatusDetector', () => {
       const handler = vi.fn();
       detector.on('pattern:removed', handler);
 
-      detector.removePattern('bash-prompt');
+      detector.removePattern('bash-prompt-dollar');
 
-      expect(handler).toHaveBeenCalledWith('bash-prompt');
+      expect(handler).toHaveBeenCalledWith('bash-prompt-dollar');
     });
   });
 
@@ -444,6 +444,180 @@ describe('StatusDetector', () => {
     });
   });
 
+  describe('shell scoping', () => {
+    it('should not apply Claude Code patterns to a bash session', () => {
+      detector.setSessionShell('sess_bash', ShellType.BASH);
+      detector.setSessionShell('sess_claude', ShellType.CLAUDE_CODE);
+
+      const shells = (shell: ShellType) => detector.getPatterns(shell).map((p) => p.shell);
+      expect(shells(ShellType.BASH)).not.toContain(ShellType.CLAUDE_CODE);
+      expect(shells(ShellType.CLAUDE_CODE)).not.toContain(ShellType.BASH);
+
+      // "Thinking..." only means WORKING inside Claude Code
+      expect(detector.detect('sess_claude', '✻ Thinking...')).toBe(TerminalActivityStatus.WORKING);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.IDLE);
+      detector.detect('sess_bash', '✻ Thinking...');
+      expect(detector.getStatus('sess_bash')).not.toBe(TerminalActivityStatus.WORKING);
+    });
+
+    it('should treat skip-permissions Claude Code like Claude Code', () => {
+      const claude = detector.getPatterns(ShellType.CLAUDE_CODE).map((p) => p.id);
+      const skip = detector.getPatterns(ShellType.CLAUDE_CODE_SKIP_PERMISSIONS).map((p) => p.id);
+      expect(skip).toEqual(claude);
+    });
+
+    it('should scope patterns added at runtime', () => {
+      detector.setSessionShell('sess_zsh', ShellType.ZSH);
+      detector.setSessionShell('sess_fish', ShellType.FISH);
+      detector.addPattern({
+        id: 'zsh-only',
+        name: 'Zsh Only',
+        shell: ShellType.ZSH,
+        pattern: 'ZSH_MARKER',
+        status: TerminalActivityStatus.ERROR,
+        priority: 500,
+      });
+
+      expect(detector.detect('sess_zsh', 'ZSH_MARKER')).toBe(TerminalActivityStatus.ERROR);
+      expect(detector.detect('sess_fish', 'ZSH_MARKER')).not.toBe(TerminalActivityStatus.ERROR);
+    });
+
+    it('should forget the shell when the session is cleared', () => {
+      detector.setSessionShell('sess_bash', ShellType.BASH);
+      detector.clearSession('sess_bash');
+
+      expect(detector.detect('sess_bash', '✻ Thinking...')).toBe(TerminalActivityStatus.WORKING);
+    });
+  });
+
+  describe('silence and stall timers', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should go idle after unrecognised output stops', () => {
+      const events: unknown[] = [];
+      detector.on('status:change', (event) => events.push(event));
+      detector.setSessionShell('sess_bash', ShellType.BASH);
+      detector.setStatus('sess_bash', TerminalActivityStatus.WORKING);
+
+      detector.detect('sess_bash', 'compiling module 1 of 40');
+      vi.advanceTimersByTime(4_000);
+      detector.detect('sess_bash', 'compiling module 2 of 40');
+      vi.advanceTimersByTime(4_000);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.WORKING);
+
+      vi.advanceTimersByTime(1_000);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.IDLE);
+      expect(events[events.length - 1]).toMatchObject({
+        previousStatus: TerminalActivityStatus.WORKING,
+        newStatus: TerminalActivityStatus.IDLE,
+        timer: 'silence',
+      });
+    });
+
+    it('should treat silence in Claude Code as waiting for input', () => {
+      detector.setSessionShell('sess_claude', ShellType.CLAUDE_CODE);
+      detector.detect('sess_claude', 'Which branch should I rebase onto?');
+
+      vi.advanceTimersByTime(3_000);
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.WAITING);
+    });
+
+    it('should not override a status matched by a pattern', () => {
+      detector.detect('sess_123', 'npm ERR! code ENOENT');
+      vi.advanceTimersByTime(60_000);
+      expect(detector.getStatus('sess_123')).toBe(TerminalActivityStatus.ERROR);
+    });
+
+    it('should flag a silent working session as stalled and recover on output', () => {
+      const events: unknown[] = [];
+      detector.on('status:change', (event) => events.push(event));
+      detector.setSessionShell('sess_claude', ShellType.CLAUDE_CODE);
+
+      expect(detector.detect('sess_claude', '✻ Thinking...')).toBe(TerminalActivityStatus.WORKING);
+      vi.advanceTimersByTime(10 * 60_000 - 1);
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.WORKING);
+
+      vi.advanceTimersByTime(1);
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.STALLED);
+      expect(events[events.length - 1]).toMatchObject({
+        newStatus: TerminalActivityStatus.STALLED,
+        timer: 'stall',
+      });
+
+      detector.detect('sess_claude', 'Reading src/index.ts');
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.WORKING);
+    });
+
+    it('should honour configured timers and allow disabling them', () => {
+      detector.destroy();
+      detector = new StatusDetector({
+        timers: { default: { silenceMs: 0 }, [ShellType.ZSH]: { stallMs: 1_000 } },
+      });
+      detector.setSessionShell('sess_zsh', ShellType.ZSH);
+
+      expect(detector.getTimerConfig(ShellType.ZSH)).toMatchObject({ silenceMs: 0, stallMs: 1_000 });
+      detector.setStatus('sess_zsh', TerminalActivityStatus.WORKING);
+      detector.detect('sess_zsh', 'still going');
+      vi.advanceTimersByTime(1_000);
+      expect(detector.getStatus('sess_zsh')).toBe(TerminalActivityStatus.STALLED);
+
+      detector.setShellTimers(ShellType.ZSH, { stallMs: 0 });
+      detector.detect('sess_zsh', 'still going');
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(detector.getStatus('sess_zsh')).toBe(TerminalActivityStatus.WORKING);
+    });
+
+    it('should flag a working session that went quiet as stalled', () => {
+      detector.setSessionShell('sess_bash', ShellType.BASH);
+      detector.setStatus('sess_bash', TerminalActivityStatus.WORKING);
+
+      detector.detect('sess_bash', 'resolving dependencies');
+      vi.advanceTimersByTime(5_000);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.IDLE);
+
+      vi.advanceTimersByTime(10 * 60_000 - 5_000);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.STALLED);
+    });
+
+    it('should not stall a session that was idle before going quiet', () => {
+      detector.setSessionShell('sess_bash', ShellType.BASH);
+
+      detector.detect('sess_bash', 'some output');
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(detector.getStatus('sess_bash')).toBe(TerminalActivityStatus.IDLE);
+    });
+
+    it('should time a working session again once hooks stop driving it', () => {
+      detector.setSessionShell('sess_claude', ShellType.CLAUDE_CODE);
+      detector.setHookDriven('sess_claude');
+      detector.setStatus('sess_claude', TerminalActivityStatus.WORKING);
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.WORKING);
+
+      detector.clearHookDriven('sess_claude');
+      vi.advanceTimersByTime(3_000);
+      expect(detector.isHookDriven('sess_claude')).toBe(false);
+      expect(detector.getStatus('sess_claude')).toBe(TerminalActivityStatus.WAITING);
+    });
+
+    it('should cancel timers when the session is cleared', () => {
+      const listener = vi.fn();
+      detector.setStatus('sess_123', TerminalActivityStatus.WORKING);
+      detector.detect('sess_123', 'some output');
+      detector.on('status:change', listener);
+      detector.clearSession('sess_123');
+
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Claude Code patterns', () => {
     it('should detect Claude Code question', () => {
       const status = detector.detect('sess_123', 'Do you want to proceed? ');
@@ -460,5 +634,24 @@ describe('StatusDetector', () => {
       const status = detector.detect('sess_123', 'Error: Something went wrong');
       expect(status).toBe(TerminalActivityStatus.ERROR);
     });
+
+    it('should send the permission menu with a waiting status', () => {
+      const listener = vi.fn();
+      detector.on('status:change', listener);
+      detector.setSessionShell('sess_claude', ShellType.CLAUDE_CODE);
+
+      const status = detector.detect(
+        'sess_claude',
+        ' Bash command\r\n\r\n   npm test\r\n\r\n Do you want to proceed?\r\n ❯ 1. Yes\r\n   2. No\r\n'
+      );
+
+      expect(status).toBe(TerminalActivityStatus.WAITING);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          matchedPatternId: 'claude-permission-menu',
+          promptLines: [' Bash command', '   npm test', ' Do you want to proceed?', ' ❯ 1. Yes', '   2. No'],
+        })
+      );
+    });
   });
 });
@@ -3,28 +3,74 @@
  *
  * Detects terminal activity status from output patterns.
  * Emits status change events for UI updates.
+ *
+ * Patterns come from the registry in patterns/ and are scoped by shell:
+ * a session only sees the patterns for its own shell plus the shell-agnostic
+ * ones, so e.g. Claude Code prompts don't fire in a plain bash session.
+ *
+ * Output that matches no pattern starts two per-shell timers. If the session
+ * stays silent for `silenceMs` it settles into idle (or waiting, for shells
+ * whose prompts are often unrecognised); if it was working and stays silent
+ * for `stallMs` it is flagged as stalled, even if it went idle in between.
+ * Any new output resets both.
+ *
+ * Sessions whose status is reported by Claude Code hooks are authoritative:
+ * once a hook has set their status, output no longer changes it.
  */
 
 import { EventEmitter } from 'events';
 import {
   TerminalActivityStatus,
-  DEFAULT_STATUS_PATTERNS,
   DEFAULT_STATUS_DETECTOR_CONFIG,
+  DEFAULT_STATUS_TIMERS,
   compileStatusPattern,
   stripAnsi,
   type StatusPattern,
   type CompiledStatusPattern,
   type StatusDetectorConfig,
+  type StatusTimerConfig,
+  type StatusTimerKind,
+  type ClaudeHookEventName,
+  type ShellType,
 } from '@masterdashboard/shared';
+import { ALL_PATTERNS, patternAppliesToShell } from '../patterns/index.js';
 import { createChildLogger } from '../utils/logger.js';
 import type { StatusChangeEventInternal } from './types.js';
 
 const logger = createChildLogger('status-detector');
 
+/** Lines of output sent with a waiting status, so clients can show the prompt */
+const PROMPT_CONTEXT_LINES = 8;
+
+/**
+ * What caused a status change (all optional)
+ */
+interface StatusChangeCause {
+  matchedPattern?: string;
+  matchedPatternId?: string;
+  timer?: StatusTimerKind;
+  hookEvent?: ClaudeHookEventName;
+  message?: string;
+}
+
+/**
+ * Pending silence and stall timers for a session
+ */
+interface SessionTimers {
+  silence?: NodeJS.Timeout;
+  stall?: NodeJS.Timeout;
+  /** Whether the silence timer moved the session from working to idle */
+  idledFromWorking?: boolean;
+}
+
 export class StatusDetector extends EventEmitter {
   private patterns: CompiledStatusPattern[];
+  private patternsByShell = new Map<string, CompiledStatusPattern[]>();
+  private sessionShells = new Map<string, ShellType>();
   private sessionOutputBuffers = new Map<string, string>();
   private sessionStatuses = new Map<string, TerminalActivityStatus>();
+  private sessionTimers = new Map<string, SessionTimers>();
+  private hookDrivenSessions = new Set<string>();
   private config: Required<StatusDetectorConfig>;
 
   constructor(config: StatusDetectorConfig = {}) {
@@ -35,15 +81,22 @@ export class StatusDetector extends EventEmitter {
       disabledPatterns: config.disabledPatterns ?? [],
       debounceMs: config.debounceMs ?? DEFAULT_STATUS_DETECTOR_CONFIG.debounceMs ?? 100,
       lookbackLines: config.lookbackLines ?? DEFAULT_STATUS_DETECTOR_CONFIG.lookbackLines ?? 5,
+      timers: config.timers ?? {},
     };
 
-    // Compile default patterns
-    const defaultPatterns = DEFAULT_STATUS_PATTERNS.filter(
+    // Compile registry patterns
+    const defaultPatterns = ALL_PATTERNS.filter(
       (p) => p.enabled !== false && !this.config.disabledPatterns.includes(p.id)
     );
 
+    // Custom patterns replace registry patterns with the same ID
+    const customIds = new Set(this.config.customPatterns.map((p) => p.id));
+
     // Compile and sort patterns by priority (higher first)
-    this.patterns = [...defaultPatterns, ...this.config.customPatterns]
+    this.patterns = [
+      ...defaultPatterns.filter((p) => !customIds.has(p.id)),
+      ...this.config.customPatterns,
+    ]
       .map(compileStatusPattern)
       .sort((a, b) => b.priority - a.priority);
 
@@ -52,6 +105,7 @@ export class StatusDetector extends EventEmitter {
 
   /**
    * Add a custom pattern at runtime
+   * A pattern with `enabled: false` is listed but never matched.
    */
   addPattern(pattern: StatusPattern): void {
     const compiled = compileStatusPattern(pattern);
@@ -62,6 +116,7 @@ export class StatusDetector extends EventEmitter {
     // Add and re-sort
     this.patterns.push(compiled);
     this.patterns.sort((a, b) => b.priority - a.priority);
+    this.patternsByShell.clear();
 
     logger.debug({ patternId: pattern.id, patternName: pattern.name }, 'Added pattern');
     this.emit('pattern:added', pattern);
@@ -76,6 +131,7 @@ export class StatusDetector extends EventEmitter {
 
     const removed = this.patterns.length < initialLength;
     if (removed) {
+      this.patternsByShell.clear();
       logger.debug({ patternId }, 'Removed pattern');
       this.emit('pattern:removed', patternId);
     }
@@ -83,6 +139,55 @@ export class StatusDetector extends EventEmitter {
     return removed;
   }
 
+  /**
+   * Record the shell a session runs, so only its patterns are evaluated.
+   * Sessions without a shell are matched against every pattern.
+   */
+  setSessionShell(sessionId: string, shell: ShellType): void {
+    this.sessionShells.set(sessionId, shell);
+  }
+
+  /**
+   * Get the effective timer settings for a shell: built-in defaults for
+   * the shell, then configured defaults, then configured shell overrides
+   */
+  getTimerConfig(shell?: ShellType): StatusTimerConfig {
+    const builtIn = (shell && DEFAULT_STATUS_TIMERS[shell]) || DEFAULT_STATUS_TIMERS.default;
+    return {
+      ...builtIn,
+      ...this.config.timers.default,
+      ...(shell ? this.config.timers[shell] : undefined),
+    };
+  }
+
+  /**
+   * Override the timers for a shell at runtime
+   * Applies from the next output each session receives.
+   */
+  setShellTimers(shell: ShellType | 'default', timers: Partial<StatusTimerConfig>): void {
+    this.config.timers = {
+      ...this.config.timers,
+      [shell]: { ...this.config.timers[shell], ...timers },
+    };
+    logger.debug({ shell, timers }, 'Updated status timers');
+  }
+
+  /**
+   * Get the compiled patterns that apply to a shell (cached per shell)
+   */
+  private getCompiledPatterns(shell: string | undefined): CompiledStatusPattern[] {
+    if (!shell) {
+      return this.patterns;
+    }
+
+    let patterns = this.patternsByShell.get(shell);
+    if (!patterns) {
+      patterns = this.patterns.filter((p) => patternAppliesToShell(p, shell));
+      this.patternsByShell.set(shell, patterns);
+    }
+    return patterns;
+  }
+
   /**
    * Detect status from terminal output
    * Returns new status if changed, null otherwise
@@ -97,37 +202,32 @@ export class StatusDetector extends EventEmitter {
     const combined = (existing + cleanOutput).slice(-bufferSize);
     this.sessionOutputBuffers.set(sessionId, combined);
 
+    // Hooks report this session's status; output is only buffered
+    if (this.hookDrivenSessions.has(sessionId)) {
+      return null;
+    }
+
+    if (cleanOutput.trim().length > 0) {
+      this.clearTimers(sessionId);
+    }
+
     // Get last N lines for pattern matching
-    const lastLines = combined.split('\n').slice(-this.config.lookbackLines).join('\n');
+    const lastLines = this.getRecentOutput(sessionId);
 
-    // Check patterns in priority order
-    for (const pattern of this.patterns) {
-      if (pattern.regex.test(lastLines)) {
+    // Check the session's patterns in priority order
+    for (const pattern of this.getCompiledPatterns(this.sessionShells.get(sessionId))) {
+      if (pattern.enabled !== false && pattern.regex.test(lastLines)) {
         const currentStatus = this.sessionStatuses.get(sessionId);
 
-        if (currentStatus !== pattern.status) {
-          const previousStatus = currentStatus ?? TerminalActivityStatus.IDLE;
-          this.sessionStatuses.set(sessionId, pattern.status);
+        if (pattern.status === TerminalActivityStatus.WORKING) {
+          this.scheduleStallTimer(sessionId);
+        }
 
-          const event: StatusChangeEventInternal = {
-            sessionId,
-            previousStatus,
-            newStatus: pattern.status,
+        if (currentStatus !== pattern.status) {
+          this.transition(sessionId, pattern.status, {
             matchedPattern: pattern.name,
-            timestamp: new Date(),
-          };
-
-          logger.debug(
-            {
-              sessionId,
-              previousStatus,
-              newStatus: pattern.status,
-              matchedPattern: pattern.name,
-            },
-            'Status change detected'
-          );
-
-          this.emit('status:change', event);
+            matchedPatternId: pattern.id,
+          });
           return pattern.status;
         }
 
@@ -138,47 +238,203 @@ export class StatusDetector extends EventEmitter {
     // If we have output but no pattern matched, check for generic working state
     const currentStatus = this.sessionStatuses.get(sessionId);
     const trimmedOutput = cleanOutput.trim();
+    if (trimmedOutput.length === 0) {
+      return null;
+    }
 
-    // If there's output and we're currently waiting, switch to working
-    if (trimmedOutput.length > 0 && currentStatus === TerminalActivityStatus.WAITING) {
-      this.sessionStatuses.set(sessionId, TerminalActivityStatus.WORKING);
-
-      const event: StatusChangeEventInternal = {
-        sessionId,
-        previousStatus: currentStatus,
-        newStatus: TerminalActivityStatus.WORKING,
-        timestamp: new Date(),
-      };
+    // Nothing recognised the output; settle the session once it goes quiet
+    this.scheduleSilenceTimer(sessionId);
 
-      this.emit('status:change', event);
+    // If there's output and we're currently waiting or stalled, switch to working
+    if (
+      currentStatus === TerminalActivityStatus.WAITING ||
+      currentStatus === TerminalActivityStatus.STALLED
+    ) {
+      this.transition(sessionId, TerminalActivityStatus.WORKING);
+      this.scheduleStallTimer(sessionId);
       return TerminalActivityStatus.WORKING;
     }
 
+    if (currentStatus === TerminalActivityStatus.WORKING) {
+      this.scheduleStallTimer(sessionId);
+    }
+
     return null;
   }
 
   /**
-   * Force set status for a session (used for explicit state changes)
+   * Record a status change and emit it
    */
-  setStatus(sessionId: string, status: TerminalActivityStatus): void {
+  private transition(
+    sessionId: string,
+    newStatus: TerminalActivityStatus,
+    cause: StatusChangeCause = {}
+  ): void {
     const previousStatus = this.sessionStatuses.get(sessionId) ?? TerminalActivityStatus.IDLE;
-
-    if (previousStatus === status) {
-      return;
-    }
-
-    this.sessionStatuses.set(sessionId, status);
+    this.sessionStatuses.set(sessionId, newStatus);
 
     const event: StatusChangeEventInternal = {
       sessionId,
       previousStatus,
-      newStatus: status,
+      newStatus,
+      ...cause,
+      ...(newStatus === TerminalActivityStatus.WAITING && {
+        promptLines: this.getPromptLines(sessionId),
+      }),
       timestamp: new Date(),
     };
 
+    logger.debug({ sessionId, previousStatus, newStatus, ...cause }, 'Status change detected');
+
     this.emit('status:change', event);
   }
 
+  /**
+   * After `silenceMs` without output, move a working or idle session to the
+   * shell's silence status
+   */
+  private scheduleSilenceTimer(sessionId: string): void {
+    const { silenceMs, silenceStatus } = this.getTimerConfig(this.sessionShells.get(sessionId));
+    if (silenceMs <= 0) {
+      return;
+    }
+
+    const timers = this.getSessionTimers(sessionId);
+    clearTimeout(timers.silence);
+    timers.silence = setTimeout(() => {
+      timers.silence = undefined;
+      const status = this.getStatus(sessionId);
+      if (
+        status !== silenceStatus &&
+        (status === TerminalActivityStatus.WORKING || status === TerminalActivityStatus.IDLE)
+      ) {
+        timers.idledFromWorking =
+          status === TerminalActivityStatus.WORKING &&
+          silenceStatus === TerminalActivityStatus.IDLE;
+        this.transition(sessionId, silenceStatus, { timer: 'silence' });
+      }
+    }, silenceMs);
+    timers.silence.unref();
+  }
+
+  /**
+   * After `stallMs` without output, flag a session that is still working, or
+   * only went idle through silence, as stalled. A session that settled into
+   * waiting is waiting on the user instead.
+   */
+  private scheduleStallTimer(sessionId: string): void {
+    const { stallMs } = this.getTimerConfig(this.sessionShells.get(sessionId));
+    if (stallMs <= 0) {
+      return;
+    }
+
+    const timers = this.getSessionTimers(sessionId);
+    clearTimeout(timers.stall);
+    timers.stall = setTimeout(() => {
+      timers.stall = undefined;
+      const status = this.getStatus(sessionId);
+      if (
+        status === TerminalActivityStatus.WORKING ||
+        (timers.idledFromWorking && status === TerminalActivityStatus.IDLE)
+      ) {
+        this.transition(sessionId, TerminalActivityStatus.STALLED, { timer: 'stall' });
+      }
+    }, stallMs);
+    timers.stall.unref();
+  }
+
+  private getSessionTimers(sessionId: string): SessionTimers {
+    let timers = this.sessionTimers.get(sessionId);
+    if (!timers) {
+      timers = {};
+      this.sessionTimers.set(sessionId, timers);
+    }
+    return timers;
+  }
+
+  private clearTimers(sessionId: string): void {
+    const timers = this.sessionTimers.get(sessionId);
+    if (timers) {
+      clearTimeout(timers.silence);
+      clearTimeout(timers.stall);
+      this.sessionTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Get the recent output patterns are matched against (the last
+   * `lookbackLines` lines, ANSI codes stripped)
+   */
+  getRecentOutput(sessionId: string): string {
+    const output = this.sessionOutputBuffers.get(sessionId) ?? '';
+    return output.split('\n').slice(-this.config.lookbackLines).join('\n');
+  }
+
+  /**
+   * Get the last non-blank lines of output, e.g. the prompt a session is waiting on
+   */
+  private getPromptLines(sessionId: string): string[] {
+    const output = this.sessionOutputBuffers.get(sessionId) ?? '';
+    return output
+      .split('\n')
+      .map((line) => line.replace(/\r/g, '').trimEnd())
+      .filter((line) => line.length > 0)
+      .slice(-PROMPT_CONTEXT_LINES);
+  }
+
+  /**
+   * Force set status for a session (used for explicit state changes)
+   */
+  setStatus(
+    sessionId: string,
+    status: TerminalActivityStatus,
+    cause: StatusChangeCause = {}
+  ): void {
+    const previousStatus = this.sessionStatuses.get(sessionId) ?? TerminalActivityStatus.IDLE;
+
+    if (previousStatus === status) {
+      return;
+    }
+
+    this.clearTimers(sessionId);
+    this.transition(sessionId, status, cause);
+  }
+
+  /**
+   * Let Claude Code hooks own a session's status: pattern matches and
+   * timers stop applying to it until Claude Code exits or the session is cleared
+   */
+  setHookDriven(sessionId: string): void {
+    if (!this.hookDrivenSessions.has(sessionId)) {
+      this.hookDrivenSessions.add(sessionId);
+      this.clearTimers(sessionId);
+      logger.debug({ sessionId }, 'Session status now driven by hooks');
+    }
+  }
+
+  /**
+   * Hand a session's status back to pattern matching and timers, e.g. once
+   * Claude Code exits. A session left working is timed again from now.
+   */
+  clearHookDriven(sessionId: string): void {
+    if (!this.hookDrivenSessions.delete(sessionId)) {
+      return;
+    }
+
+    if (this.getStatus(sessionId) === TerminalActivityStatus.WORKING) {
+      this.scheduleSilenceTimer(sessionId);
+      this.scheduleStallTimer(sessionId);
+    }
+    logger.debug({ sessionId }, 'Session status no longer driven by hooks');
+  }
+
+  /**
+   * Check whether hooks own a session's status
+   */
+  isHookDriven(sessionId: string): boolean {
+    return this.hookDrivenSessions.has(sessionId);
+  }
+
   /**
    * Get current status for a session
    */
@@ -187,18 +443,25 @@ export class StatusDetector extends EventEmitter {
   }
 
   /**
-   * Get all registered patterns
+   * Get registered patterns, optionally only those applying to a shell
    */
-  getPatterns(): StatusPattern[] {
-    return this.patterns.map(({ regex, ...pattern }) => pattern);
+  getPatterns(shell?: string): StatusPattern[] {
+    return this.getCompiledPatterns(shell).map((compiled) => {
+      const pattern: StatusPattern & { regex?: RegExp } = { ...compiled };
+      delete pattern.regex;
+      return pattern;
+    });
   }
 
   /**
    * Clear session data (when session terminates)
    */
   clearSession(sessionId: string): void {
+    this.clearTimers(sessionId);
     this.sessionOutputBuffers.delete(sessionId);
     this.sessionStatuses.delete(sessionId);
+    this.sessionShells.delete(sessionId);
+    this.hookDrivenSessions.delete(sessionId);
     logger.debug({ sessionId }, 'Cleared session data');
   }
 
@@ -206,8 +469,13 @@ export class StatusDetector extends EventEmitter {
    * Cleanup resources
    */
   destroy(): void {
+    for (const sessionId of this.sessionTimers.keys()) {
+      this.clearTimers(sessionId);
+    }
     this.sessionOutputBuffers.clear();
     this.sessionStatuses.clear();
+    this.sessionShells.clear();
+    this.hookDrivenSessions.clear();
     this.removeAllListeners();
     logger.info('Status detector destroyed');
   }
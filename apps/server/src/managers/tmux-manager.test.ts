@@ -0,0 +1,106 @@
+/**
+ * Unit tests for foreign tmux session listing and adoption, and window and
+ * pane guards
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { TmuxWindow } from '@masterdashboard/shared';
+import { TmuxManager, parseForeignPanes } from './tmux-manager.js';
+import { TmuxTargetNotFoundError } from '../utils/errors.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function paneLine(fields: Array<string | number>): string {
+  return fields.join('\t');
+}
+
+describe('parseForeignPanes', () => {
+  it('should group panes into windows and sessions', () => {
+    const stdout = [
+      paneLine(['$0', 'work', 1, 1700000000, '@0', 0, 'editor', 1, '%0', 0, 1, 'nvim', '/home/me/app']),
+      paneLine(['$0', 'work', 1, 1700000000, '@1', 1, 'server', 0, '%1', 0, 0, 'node', '/home/me/app']),
+      paneLine(['$0', 'work', 1, 1700000000, '@1', 1, 'server', 0, '%2', 1, 1, 'bash', '/home/me/app/api']),
+      paneLine(['$3', 'agents', 0, 1700000100, '@4', 0, 'claude', 1, '%5', 0, 1, 'claude', '/home/me/odd\tpath']),
+      '',
+    ].join('\n');
+
+    const sessions = parseForeignPanes(stdout);
+
+    expect(sessions.map((s) => [s.id, s.name, s.attachedClients])).toEqual([
+      ['$0', 'work', 1],
+      ['$3', 'agents', 0],
+    ]);
+    expect(sessions[0]!.createdAt).toBe(new Date(1700000000 * 1000).toISOString());
+    expect(sessions[0]!.windows.map((w) => [w.id, w.name, w.active, w.panes.length])).toEqual([
+      ['@0', 'editor', true, 1],
+      ['@1', 'server', false, 2],
+    ]);
+    expect(sessions[0]!.windows[1]!.panes[1]).toEqual({
+      id: '%2',
+      index: 1,
+      active: true,
+      command: 'bash',
+      cwd: '/home/me/app/api',
+    });
+    expect(sessions[1]!.windows[0]!.panes[0]!.cwd).toBe('/home/me/odd\tpath');
+  });
+
+  it('should skip dashboard sessions and malformed lines', () => {
+    const stdout = [
+      paneLine(['$1', 'mdb_term_abc', 0, 1700000000, '@2', 0, 'bash', 1, '%3', 0, 1, 'bash', '/tmp']),
+      'not tmux output',
+    ].join('\n');
+
+    expect(parseForeignPanes(stdout)).toEqual([]);
+  });
+});
+
+describe('TmuxManager adopted sessions', () => {
+  it('should attach without detaching other clients and never kill the original', async () => {
+    const manager = new TmuxManager();
+    manager.adoptForeignTarget('term_1', '%5');
+
+    expect(manager.isAdopted('term_1')).toBe(true);
+    expect(manager.getAttachCommand('term_1')).toEqual(['tmux', 'attach-session', '-t', '%5']);
+    expect(manager.getAttachCommand('term_2')).toContain('-d');
+
+    const killed = vi.fn();
+    manager.on('session:killed', killed);
+    await manager.killSession('term_1');
+
+    expect(killed).not.toHaveBeenCalled();
+    expect(manager.isAdopted('term_1')).toBe(false);
+  });
+});
+
+describe('TmuxManager windows', () => {
+  const windows: TmuxWindow[] = [
+    {
+      id: '@1',
+      index: 0,
+      name: 'bash',
+      active: true,
+      panes: [{ id: '%1', index: 0, active: true, command: 'bash', cwd: '/tmp' }],
+    },
+  ];
+
+  it('should refuse windows of other sessions and closing the last window or pane', async () => {
+    const manager = new TmuxManager();
+    vi.spyOn(manager, 'listWindows').mockResolvedValue(windows);
+
+    await expect(manager.selectWindow('term_1', '@9')).rejects.toBeInstanceOf(TmuxTargetNotFoundError);
+    await expect(manager.splitPane('term_1', 'horizontal', '%9')).rejects.toBeInstanceOf(
+      TmuxTargetNotFoundError
+    );
+    await expect(manager.killWindow('term_1', '@1')).rejects.toThrow('last window');
+    await expect(manager.killPane('term_1', '%1')).rejects.toThrow('last pane');
+  });
+});
@@ -3,6 +3,11 @@
  *
  * Manages tmux sessions for terminal persistence across server restarts.
  * Users interact with normal shells - tmux is completely transparent.
+ *
+ * Sessions the dashboard creates live on its own tmux server. Sessions the
+ * user started from a normal terminal live on their default tmux server;
+ * those can be adopted, which attaches to them without killing or renaming
+ * them.
  */
 
 import { EventEmitter } from 'events';
@@ -10,7 +15,13 @@ import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
+import type {
+  ForeignTmuxSession,
+  TmuxSplitDirection,
+  TmuxWindow,
+} from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
+import { TmuxTargetNotFoundError, ValidationError } from '../utils/errors.js';
 import {
   getSessionByTmuxName,
   sessionExists as dbSessionExists,
@@ -22,6 +33,23 @@ const logger = createChildLogger('tmux-manager');
 /** Tmux session prefix for Master Dashboard sessions */
 const TMUX_SESSION_PREFIX = 'mdb_';
 
+/** Fields listed for each pane by list-panes, tab separated */
+const PANE_FORMAT = [
+  '#{session_id}',
+  '#{session_name}',
+  '#{session_attached}',
+  '#{session_created}',
+  '#{window_id}',
+  '#{window_index}',
+  '#{window_name}',
+  '#{window_active}',
+  '#{pane_id}',
+  '#{pane_index}',
+  '#{pane_active}',
+  '#{pane_current_command}',
+  '#{pane_current_path}',
+].join('\t');
+
 /** Default tmux configuration */
 const TMUX_CONFIG = `
 # Master Dashboard tmux configuration
@@ -51,6 +79,9 @@ set-option -sg escape-time 10
 # Focus events for proper terminal behavior
 set-option -g focus-events on
 
+# Let shell integration sequences (cwd, prompt marks) through to the dashboard
+set-option -gq allow-passthrough on
+
 # Ensure colors work properly - force-set window options
 set-window-option -g xterm-keys on
 `.trim();
@@ -79,6 +110,88 @@ export interface TmuxSession {
   attached: boolean;
 }
 
+/**
+ * What an adoption target points at
+ */
+export interface ForeignTmuxTargetInfo {
+  sessionName: string;
+  windowName: string;
+  /** Command running in the target pane (the active pane for a session or window) */
+  command: string;
+  cwd: string;
+}
+
+/**
+ * Quote an argument for the shell tmux runs the session command with
+ */
+function quoteShellArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Parse list-panes output (in PANE_FORMAT) into sessions with their windows
+ * and panes
+ */
+function parsePaneList(stdout: string): ForeignTmuxSession[] {
+  const sessions = new Map<string, ForeignTmuxSession>();
+
+  for (const line of stdout.split('\n')) {
+    const fields = line.split('\t');
+    if (fields.length < 13) continue;
+
+    const [
+      sessionId, sessionName, attached, created,
+      windowId, windowIndex, windowName, windowActive,
+      paneId, paneIndex, paneActive, command,
+    ] = fields as [string, string, string, string, string, string, string, string, string, string, string, string];
+    // The path is last so a tab in it cannot shift the other fields
+    const cwd = fields.slice(12).join('\t');
+
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = {
+        id: sessionId,
+        name: sessionName,
+        attachedClients: parseInt(attached, 10) || 0,
+        createdAt: new Date(parseInt(created, 10) * 1000).toISOString(),
+        windows: [],
+        adoptedBy: [],
+      };
+      sessions.set(sessionId, session);
+    }
+
+    let window = session.windows.find((w) => w.id === windowId);
+    if (!window) {
+      window = {
+        id: windowId,
+        index: parseInt(windowIndex, 10),
+        name: windowName,
+        active: windowActive === '1',
+        panes: [],
+      };
+      session.windows.push(window);
+    }
+
+    window.panes.push({
+      id: paneId,
+      index: parseInt(paneIndex, 10),
+      active: paneActive === '1',
+      command,
+      cwd,
+    });
+  }
+
+  return Array.from(sessions.values());
+}
+
+/**
+ * Parse `list-panes -a` output from the user's tmux server
+ * Sessions under our prefix belong to a dashboard, even on that server.
+ */
+export function parseForeignPanes(stdout: string): ForeignTmuxSession[] {
+  return parsePaneList(stdout).filter((session) => !session.name.startsWith(TMUX_SESSION_PREFIX));
+}
+
 const DEFAULT_CONFIG: Required<TmuxConfig> = {
   configPath: join(
     process.env.HOME ?? '/tmp',
@@ -99,6 +212,8 @@ const DEFAULT_CONFIG: Required<TmuxConfig> = {
 export class TmuxManager extends EventEmitter {
   private config: Required<TmuxConfig>;
   private sessions = new Map<string, TmuxSession>();
+  /** Adopted sessions: our session ID -> target on the user's tmux server */
+  private adopted = new Map<string, string>();
   private available = false;
   private tmuxVersion: string | null = null;
 
@@ -148,7 +263,8 @@ export class TmuxManager extends EventEmitter {
     sessionId: string,
     shell?: string,
     cwd?: string,
-    shellArgs?: string[]
+    shellArgs?: string[],
+    env: Record<string, string> = {}
   ): Promise<TmuxSession> {
     if (!this.available) {
       throw new Error('Tmux is not available');
@@ -160,7 +276,7 @@ export class TmuxManager extends EventEmitter {
 
     // Build the full shell command with arguments
     const shellCommand = shellArgs && shellArgs.length > 0
-      ? `${shellPath} ${shellArgs.join(' ')}`
+      ? [shellPath, ...shellArgs].map(quoteShellArg).join(' ')
       : shellPath;
 
     logger.debug(
@@ -186,6 +302,7 @@ export class TmuxManager extends EventEmitter {
         'COLORTERM=truecolor', // Enable true color
         '-e',
         'LANG=en_US.UTF-8', // Set locale
+        ...Object.entries(env).flatMap(([key, value]) => ['-e', `${key}=${value}`]),
         shellCommand, // Shell command with args
       ]);
     } catch (error) {
@@ -224,7 +341,7 @@ export class TmuxManager extends EventEmitter {
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        await this.exec(['has-session', '-t', tmuxName]);
+        await this.execFor(sessionId, ['has-session', '-t', tmuxName]);
         logger.debug({ sessionId, tmuxName }, 'Tmux session exists');
         return true;
       } catch (error) {
@@ -296,6 +413,14 @@ export class TmuxManager extends EventEmitter {
    * Kill a tmux session
    */
   async killSession(sessionId: string): Promise<void> {
+    // Adopted sessions belong to the user; only let go of them
+    const target = this.adopted.get(sessionId);
+    if (target) {
+      this.adopted.delete(sessionId);
+      logger.info({ sessionId, target }, 'Released adopted tmux session (left running)');
+      return;
+    }
+
     const tmuxName = this.getTmuxSessionName(sessionId);
 
     try {
@@ -314,6 +439,12 @@ export class TmuxManager extends EventEmitter {
    * Resize a tmux session window
    */
   async resize(sessionId: string, cols: number, rows: number): Promise<void> {
+    // Forcing the window size would also resize it for the user's own
+    // clients; an adopted window follows the attached PTY instead
+    if (this.adopted.has(sessionId)) {
+      return;
+    }
+
     const tmuxName = this.getTmuxSessionName(sessionId);
 
     try {
@@ -335,12 +466,13 @@ export class TmuxManager extends EventEmitter {
 
   /**
    * Send keys to a tmux session (for testing/automation)
+   * @param literal - Send the text as-is instead of as key names (e.g. "Enter")
    */
-  async sendKeys(sessionId: string, keys: string): Promise<void> {
+  async sendKeys(sessionId: string, keys: string, literal = false): Promise<void> {
     const tmuxName = this.getTmuxSessionName(sessionId);
 
     try {
-      await this.exec(['send-keys', '-t', tmuxName, keys]);
+      await this.execFor(sessionId, ['send-keys', '-t', tmuxName, ...(literal ? ['-l'] : []), keys]);
     } catch (error) {
       logger.warn({ sessionId, error }, 'Failed to send keys to tmux session');
       throw error;
@@ -370,7 +502,7 @@ export class TmuxManager extends EventEmitter {
         '-S', lines ? `-${lines}` : '-', // Start from beginning or N lines back
       ];
 
-      const { stdout } = await this.exec(args);
+      const { stdout } = await this.execFor(sessionId, args);
 
       logger.debug(
         { sessionId, contentLength: stdout.length },
@@ -420,6 +552,12 @@ export class TmuxManager extends EventEmitter {
    * Uses -d to detach other clients (ensures only one PTY is attached)
    */
   getAttachCommand(sessionId: string): string[] {
+    // Adopted: other clients stay attached, the user may be watching too
+    const target = this.adopted.get(sessionId);
+    if (target) {
+      return ['tmux', 'attach-session', '-t', target];
+    }
+
     const tmuxName = this.getTmuxSessionName(sessionId);
     return [
       'tmux',
@@ -434,6 +572,212 @@ export class TmuxManager extends EventEmitter {
     ];
   }
 
+  /**
+   * List the windows and panes of a session
+   * For an adopted session this is the whole tmux session its target is in.
+   */
+  async listWindows(sessionId: string): Promise<TmuxWindow[]> {
+    const { stdout } = await this.execFor(sessionId, [
+      'list-panes',
+      '-s',
+      '-t',
+      this.getTmuxSessionName(sessionId),
+      '-F',
+      PANE_FORMAT,
+    ]);
+    return parsePaneList(stdout)[0]?.windows ?? [];
+  }
+
+  /**
+   * Get the pids of the processes running in a session's panes (usually shells)
+   */
+  async getPanePids(sessionId: string): Promise<number[]> {
+    const { stdout } = await this.execFor(sessionId, [
+      'list-panes',
+      '-s',
+      '-t',
+      this.getTmuxSessionName(sessionId),
+      '-F',
+      '#{pane_pid}',
+    ]);
+    return stdout
+      .split('\n')
+      .map((line) => Number(line.trim()))
+      .filter((pid) => Number.isInteger(pid) && pid > 0);
+  }
+
+  /**
+   * Open a new window after the current one, in the current pane's directory
+   */
+  async createWindow(sessionId: string, name?: string): Promise<void> {
+    // new-window needs a window target, and an adopted target may be a pane
+    const windows = await this.listWindows(sessionId);
+    const current = windows.find((window) => window.active) ?? windows[0];
+
+    await this.execFor(sessionId, [
+      'new-window',
+      '-a',
+      '-t',
+      current?.id ?? this.getTmuxSessionName(sessionId),
+      '-c',
+      '#{pane_current_path}',
+      ...(name ? ['-n', name] : []),
+    ]);
+    logger.debug({ sessionId, name }, 'Tmux window created');
+  }
+
+  /**
+   * Split a pane (the current one by default) in its directory
+   */
+  async splitPane(
+    sessionId: string,
+    direction: TmuxSplitDirection,
+    paneId?: string
+  ): Promise<void> {
+    if (paneId) {
+      await this.requireTarget(sessionId, paneId);
+    }
+
+    await this.execFor(sessionId, [
+      'split-window',
+      direction === 'horizontal' ? '-h' : '-v',
+      '-t',
+      paneId ?? this.getTmuxSessionName(sessionId),
+      '-c',
+      '#{pane_current_path}',
+    ]);
+    logger.debug({ sessionId, direction, paneId }, 'Tmux pane split');
+  }
+
+  /**
+   * Make a window current
+   */
+  async selectWindow(sessionId: string, windowId: string): Promise<void> {
+    await this.requireTarget(sessionId, windowId);
+    await this.execFor(sessionId, ['select-window', '-t', windowId]);
+  }
+
+  /**
+   * Make a pane current (and its window)
+   */
+  async selectPane(sessionId: string, paneId: string): Promise<void> {
+    await this.requireTarget(sessionId, paneId);
+    await this.execFor(sessionId, ['select-window', '-t', paneId]);
+    await this.execFor(sessionId, ['select-pane', '-t', paneId]);
+  }
+
+  /**
+   * Close a window
+   * The last window is kept; closing it would end the session.
+   */
+  async killWindow(sessionId: string, windowId: string): Promise<void> {
+    const windows = await this.requireTarget(sessionId, windowId);
+    if (windows.length === 1) {
+      throw new ValidationError('Cannot close the last window of a terminal');
+    }
+
+    await this.execFor(sessionId, ['kill-window', '-t', windowId]);
+    logger.debug({ sessionId, windowId }, 'Tmux window killed');
+  }
+
+  /**
+   * Close a pane
+   * The last pane is kept; closing it would end the session.
+   */
+  async killPane(sessionId: string, paneId: string): Promise<void> {
+    const windows = await this.requireTarget(sessionId, paneId);
+    if (windows.length === 1 && windows[0]!.panes.length === 1) {
+      throw new ValidationError('Cannot close the last pane of a terminal');
+    }
+
+    await this.execFor(sessionId, ['kill-pane', '-t', paneId]);
+    logger.debug({ sessionId, paneId }, 'Tmux pane killed');
+  }
+
+  /**
+   * List sessions, windows and panes on the user's default tmux server
+   */
+  async listForeignSessions(): Promise<ForeignTmuxSession[]> {
+    if (!this.available) {
+      return [];
+    }
+
+    let sessions: ForeignTmuxSession[];
+    try {
+      const { stdout } = await this.execForeign(['list-panes', '-a', '-F', PANE_FORMAT]);
+      sessions = parseForeignPanes(stdout);
+    } catch {
+      // No tmux server running for the user
+      return [];
+    }
+
+    for (const session of sessions) {
+      const targets = new Set([
+        session.id,
+        ...session.windows.flatMap((w) => [w.id, ...w.panes.map((p) => p.id)]),
+      ]);
+      for (const [sessionId, target] of this.adopted) {
+        if (targets.has(target)) {
+          session.adoptedBy.push(sessionId);
+        }
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Describe a session ($N), window (@N) or pane (%N) on the user's tmux
+   * server, or return null if it does not exist
+   */
+  async describeForeignTarget(target: string): Promise<ForeignTmuxTargetInfo | null> {
+    if (!this.available) {
+      return null;
+    }
+
+    let stdout: string;
+    try {
+      ({ stdout } = await this.execForeign([
+        'list-panes',
+        '-t',
+        target,
+        '-F',
+        '#{pane_id}\t#{pane_active}\t#{session_name}\t#{window_name}\t#{pane_current_command}\t#{pane_current_path}',
+      ]));
+    } catch {
+      return null;
+    }
+
+    const panes = stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => line.split('\t'));
+    // A pane target lists its whole window; otherwise use the active pane
+    const pane = target.startsWith('%')
+      ? panes.find((fields) => fields[0] === target)
+      : panes.find((fields) => fields[1] === '1') ?? panes[0];
+    if (!pane) {
+      return null;
+    }
+
+    const [, , sessionName = '', windowName = '', command = '', ...cwd] = pane;
+    return { sessionName, windowName, command, cwd: cwd.join('\t') };
+  }
+
+  /**
+   * Back one of our sessions with a target on the user's tmux server
+   * Must be registered before the session is checked or attached.
+   */
+  adoptForeignTarget(sessionId: string, target: string): void {
+    this.adopted.set(sessionId, target);
+  }
+
+  /**
+   * Check if a session is backed by a foreign tmux target
+   */
+  isAdopted(sessionId: string): boolean {
+    return this.adopted.has(sessionId);
+  }
+
   /**
    * Get the full tmux command with config and socket
    */
@@ -454,15 +798,32 @@ export class TmuxManager extends EventEmitter {
   async shutdown(): Promise<void> {
     // Don't kill tmux sessions - that's the point of persistence!
     this.sessions.clear();
+    this.adopted.clear();
     this.removeAllListeners();
     logger.info('Tmux manager shutdown (sessions preserved)');
   }
 
   /**
-   * Get tmux session name from our session ID
+   * Check that a window or pane ID belongs to a session, so a client cannot
+   * act on another terminal's windows
+   * Returns the session's windows.
+   */
+  private async requireTarget(sessionId: string, target: string): Promise<TmuxWindow[]> {
+    const windows = await this.listWindows(sessionId);
+    const found = windows.some(
+      (window) => window.id === target || window.panes.some((pane) => pane.id === target)
+    );
+    if (!found) {
+      throw new TmuxTargetNotFoundError(target);
+    }
+    return windows;
+  }
+
+  /**
+   * Get tmux session name (or adopted target) from our session ID
    */
   private getTmuxSessionName(sessionId: string): string {
-    return `${TMUX_SESSION_PREFIX}${sessionId}`;
+    return this.adopted.get(sessionId) ?? `${TMUX_SESSION_PREFIX}${sessionId}`;
   }
 
   /**
@@ -492,6 +853,25 @@ export class TmuxManager extends EventEmitter {
     return execFileAsync('tmux', fullArgs, { timeout: 5000 });
   }
 
+  /**
+   * Execute a tmux command on the user's default tmux server
+   */
+  private async execForeign(
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync('tmux', args, { timeout: 5000 });
+  }
+
+  /**
+   * Execute a tmux command on whichever server holds a session
+   */
+  private async execFor(
+    sessionId: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return this.adopted.has(sessionId) ? this.execForeign(args) : this.exec(args);
+  }
+
   /**
    * Ensure tmux config file exists
    */
@@ -10,6 +10,9 @@ import type {
   TerminalActivityStatus,
   BufferSnapshot,
   SessionStatus,
+  StatusTimerKind,
+  ClaudeHookEventName,
+  ShellCommand,
 } from '@masterdashboard/shared';
 
 /**
@@ -19,6 +22,8 @@ export interface InternalBuffer {
   sessionId: string;
   lines: string[];
   totalLines: number;
+  /** Newlines written since the session started, including trimmed output */
+  outputLines: number;
   lastFlushAt: Date;
   /** Line index when client disconnected */
   disconnectLineIndex?: number;
@@ -65,9 +70,28 @@ export interface StatusChangeEventInternal {
   previousStatus: TerminalActivityStatus;
   newStatus: TerminalActivityStatus;
   matchedPattern?: string;
+  matchedPatternId?: string;
+  timer?: StatusTimerKind;
+  hookEvent?: ClaudeHookEventName;
+  message?: string;
+  promptLines?: string[];
   timestamp: Date;
 }
 
+/**
+ * A command started or finished in a terminal, from shell integration
+ */
+export interface ShellCommandEventInternal {
+  sessionId: string;
+  projectId: string;
+  /** The command; finishedAt is set once it has finished */
+  command: ShellCommand;
+  /** Directory the command runs in */
+  cwd: string;
+  /** Output line (BufferManager.getOutputLineCount) where the command started or finished */
+  line: number;
+}
+
 /**
  * PTY process info
  */
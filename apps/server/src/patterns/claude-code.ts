@@ -23,6 +23,16 @@ import {
  * - Rate limited (API errors)
  */
 export const CLAUDE_CODE_PATTERNS: StatusPattern[] = [
+  // Waiting for user input - numbered permission menu ("❯ 1. Yes")
+  {
+    id: 'claude-permission-menu',
+    name: 'Claude Code Permission Menu',
+    shell: ShellType.CLAUDE_CODE,
+    pattern: '❯\\s*1\\.\\s',
+    status: TerminalActivityStatus.WAITING,
+    priority: 105,
+    enabled: true,
+  },
   // Waiting for user input - question prompt
   {
     id: 'claude-question',
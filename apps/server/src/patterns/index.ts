@@ -275,18 +275,23 @@ export {
 };
 
 /**
- * Get patterns for a specific shell
+ * Check whether a pattern applies to a shell
  */
-export function getPatternsForShell(shell: string): StatusPattern[] {
+export function patternAppliesToShell(pattern: StatusPattern, shell: string): boolean {
   // Treat CLAUDE_CODE_SKIP_PERMISSIONS as alias for CLAUDE_CODE
   // Both shells use the same status detection patterns
   const effectiveShell = shell === ShellType.CLAUDE_CODE_SKIP_PERMISSIONS
     ? ShellType.CLAUDE_CODE
     : shell;
 
-  return ALL_PATTERNS.filter(
-    (pattern) => pattern.shell === effectiveShell || pattern.shell === 'all'
-  );
+  return pattern.shell === effectiveShell || pattern.shell === 'all';
+}
+
+/**
+ * Get patterns for a specific shell
+ */
+export function getPatternsForShell(shell: string): StatusPattern[] {
+  return ALL_PATTERNS.filter((pattern) => patternAppliesToShell(pattern, shell));
 }
 
 /**
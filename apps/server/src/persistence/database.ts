@@ -116,6 +116,7 @@ function createSchema(database: Database.Database): void {
       session_id TEXT PRIMARY KEY,
       content TEXT NOT NULL DEFAULT '',
       total_lines INTEGER NOT NULL DEFAULT 0,
+      output_lines INTEGER NOT NULL DEFAULT 0,
       last_flush_at TEXT NOT NULL DEFAULT (datetime('now')),
       FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
     );
@@ -164,6 +165,259 @@ function createSchema(database: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_notes_project_id ON notes(project_id);
   `);
 
+  // Users table
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      is_admin INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  // Project memberships table
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS project_members (
+      project_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('owner', 'operator', 'viewer')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (project_id, user_id),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Create index for membership lookups by user
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+  `);
+
+  // Audit log table
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+      client_id TEXT,
+      user_id TEXT,
+      actor TEXT,
+      project_id TEXT,
+      event TEXT NOT NULL,
+      target TEXT,
+      result TEXT NOT NULL CHECK (result IN ('success', 'failure', 'denied')),
+      details TEXT
+    );
+  `);
+
+  // Create indexes for audit log filtering
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_project_id ON audit_log(project_id);
+  `);
+
+  // Spectator share links table (only a hash of each token is stored)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS session_shares (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_by TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at TEXT NOT NULL,
+      revoked_at TEXT
+    );
+  `);
+
+  // Create index for share lookups by session
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_session_shares_session_id ON session_shares(session_id);
+  `);
+
+  // Session recordings table
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS recordings (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      title TEXT,
+      cols INTEGER NOT NULL,
+      rows INTEGER NOT NULL,
+      created_by TEXT,
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      duration REAL NOT NULL DEFAULT 0,
+      event_count INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+
+  // Recorded output and resize events, in order
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS recording_events (
+      recording_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      time REAL NOT NULL,
+      code TEXT NOT NULL CHECK (code IN ('o', 'r')),
+      data TEXT NOT NULL,
+      PRIMARY KEY (recording_id, seq),
+      FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Create indexes for recording lookups
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_recordings_session_id ON recordings(session_id);
+    CREATE INDEX IF NOT EXISTS idx_recordings_project_id ON recordings(project_id);
+  `);
+
+  // User-defined status patterns (custom ones and overrides of built-ins)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS status_patterns (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      shell TEXT NOT NULL,
+      pattern TEXT NOT NULL,
+      status TEXT NOT NULL,
+      priority INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  // Terminal status changes, for timelines and analytics
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS status_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      previous_status TEXT NOT NULL,
+      new_status TEXT NOT NULL,
+      matched_pattern TEXT,
+      source TEXT NOT NULL,
+      timestamp TEXT NOT NULL
+    );
+  `);
+
+  // Create indexes for status history queries
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_status_transitions_project_time ON status_transitions(project_id, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_status_transitions_session_time ON status_transitions(session_id, timestamp);
+  `);
+
+  // Which terminal events raise desktop notifications, per project
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS notification_rules (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      scope TEXT NOT NULL CHECK (scope IN ('project', 'shell', 'session')),
+      target TEXT,
+      triggers TEXT NOT NULL,
+      min_duration_ms INTEGER NOT NULL DEFAULT 0,
+      quiet_start TEXT,
+      quiet_end TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notification_rules_project_id ON notification_rules(project_id);
+  `);
+
+  // Workspace templates saved in the dashboard (repository templates live in files)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS workspace_templates (
+      id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      nodes TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (project_id, id),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Commands run in terminals, reported by shell integration
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS command_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      command TEXT NOT NULL,
+      cwd TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      exit_code INTEGER,
+      output_start_line INTEGER NOT NULL,
+      output_end_line INTEGER
+    );
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_command_history_project_time ON command_history(project_id, started_at);
+    CREATE INDEX IF NOT EXISTS idx_command_history_session_time ON command_history(session_id, started_at);
+  `);
+
+  // Output triggers: a pattern over terminal output and the action it runs
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS output_triggers (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      scope TEXT NOT NULL CHECK (scope IN ('project', 'session')),
+      target TEXT,
+      pattern TEXT NOT NULL,
+      case_sensitive INTEGER NOT NULL DEFAULT 1,
+      action TEXT NOT NULL,
+      cooldown_ms INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_output_triggers_project_id ON output_triggers(project_id);
+
+    CREATE TABLE IF NOT EXISTS output_trigger_executions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trigger_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      action_type TEXT NOT NULL,
+      match TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      error TEXT,
+      executed_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_output_trigger_executions_project_time ON output_trigger_executions(project_id, executed_at);
+
+    CREATE TABLE IF NOT EXISTS scheduled_commands (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('cron', 'once')),
+      cron TEXT,
+      run_at TEXT,
+      command TEXT NOT NULL,
+      enter INTEGER NOT NULL DEFAULT 1,
+      paused INTEGER NOT NULL DEFAULT 0,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scheduled_commands_project_id ON scheduled_commands(project_id);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_commands_next_run_at ON scheduled_commands(next_run_at);
+  `);
+
   logger.debug('Database schema created/verified');
 }
 
@@ -177,6 +431,16 @@ function migrateSchema(database: Database.Database): void {
     migrateTmuxSupport(database);
     database.pragma('user_version = 1');
   }
+
+  if (version < 2) {
+    migrateOwnership(database);
+    database.pragma('user_version = 2');
+  }
+
+  if (version < 3) {
+    migrateBufferOutputLines(database);
+    database.pragma('user_version = 3');
+  }
 }
 
 /**
@@ -198,6 +462,36 @@ function migrateTmuxSupport(database: Database.Database): void {
   }
 }
 
+/**
+ * Migration 2: Add owner columns to projects and sessions
+ */
+function migrateOwnership(database: Database.Database): void {
+  for (const table of ['projects', 'sessions']) {
+    const columns = database
+      .prepare(`PRAGMA table_info(${table})`)
+      .all() as { name: string }[];
+
+    if (!columns.some((c) => c.name === 'owner_id')) {
+      database.exec(`ALTER TABLE ${table} ADD COLUMN owner_id TEXT`);
+      logger.info({ table }, 'Migration: Added owner_id column');
+    }
+  }
+}
+
+/**
+ * Migration 3: Count the lines each buffer has printed, for command history
+ */
+function migrateBufferOutputLines(database: Database.Database): void {
+  const columns = database
+    .prepare('PRAGMA table_info(buffers)')
+    .all() as { name: string }[];
+
+  if (!columns.some((c) => c.name === 'output_lines')) {
+    database.exec('ALTER TABLE buffers ADD COLUMN output_lines INTEGER NOT NULL DEFAULT 0');
+    logger.info('Migration: Added output_lines column to buffers table');
+  }
+}
+
 // ============================================================================
 // Project Repository Functions
 // ============================================================================
@@ -210,12 +504,14 @@ export interface ProjectRow {
   settings: string;
   created_at: string;
   updated_at: string;
+  /** User who created the project (null when created without accounts) */
+  owner_id: string | null;
 }
 
 export function insertProject(project: ProjectRow): void {
   const stmt = getDatabase().prepare(`
-    INSERT INTO projects (id, name, description, default_cwd, settings, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO projects (id, name, description, default_cwd, settings, created_at, updated_at, owner_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
   stmt.run(
     project.id,
@@ -224,7 +520,8 @@ export function insertProject(project: ProjectRow): void {
     project.default_cwd,
     project.settings,
     project.created_at,
-    project.updated_at
+    project.updated_at,
+    project.owner_id
   );
 }
 
@@ -238,6 +535,19 @@ export function getAllProjects(): ProjectRow[] {
   return stmt.all() as ProjectRow[];
 }
 
+/**
+ * Get the projects a user is a member of
+ */
+export function getProjectsForUser(userId: string): ProjectRow[] {
+  const stmt = getDatabase().prepare(`
+    SELECT p.* FROM projects p
+    JOIN project_members m ON m.project_id = p.id
+    WHERE m.user_id = ?
+    ORDER BY p.updated_at DESC
+  `);
+  return stmt.all(userId) as ProjectRow[];
+}
+
 export function updateProject(id: string, updates: Partial<ProjectRow>): void {
   const fields: string[] = [];
   const values: unknown[] = [];
@@ -286,12 +596,14 @@ export interface SessionRow {
   last_active_at: string;
   metadata: string;
   tmux_session_name: string | null;
+  /** User who created the session (null when created without accounts) */
+  owner_id: string | null;
 }
 
 export function insertSession(session: SessionRow): void {
   const stmt = getDatabase().prepare(`
-    INSERT INTO sessions (id, type, status, project_id, config, created_at, updated_at, last_active_at, metadata, tmux_session_name)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO sessions (id, type, status, project_id, config, created_at, updated_at, last_active_at, metadata, tmux_session_name, owner_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   stmt.run(
     session.id,
@@ -303,7 +615,8 @@ export function insertSession(session: SessionRow): void {
     session.updated_at,
     session.last_active_at,
     session.metadata,
-    session.tmux_session_name
+    session.tmux_session_name,
+    session.owner_id
   );
 }
 
@@ -420,19 +733,28 @@ export interface BufferRow {
   session_id: string;
   content: string;
   total_lines: number;
+  /** Newlines written since the session started */
+  output_lines: number;
   last_flush_at: string;
 }
 
 export function insertOrUpdateBuffer(buffer: BufferRow): void {
   const stmt = getDatabase().prepare(`
-    INSERT INTO buffers (session_id, content, total_lines, last_flush_at)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO buffers (session_id, content, total_lines, output_lines, last_flush_at)
+    VALUES (?, ?, ?, ?, ?)
     ON CONFLICT(session_id) DO UPDATE SET
       content = excluded.content,
       total_lines = excluded.total_lines,
+      output_lines = excluded.output_lines,
       last_flush_at = excluded.last_flush_at
   `);
-  stmt.run(buffer.session_id, buffer.content, buffer.total_lines, buffer.last_flush_at);
+  stmt.run(
+    buffer.session_id,
+    buffer.content,
+    buffer.total_lines,
+    buffer.output_lines,
+    buffer.last_flush_at
+  );
 }
 
 export function getBufferBySessionId(sessionId: string): BufferRow | undefined {
@@ -546,3 +868,1051 @@ export function deleteNotesByProjectId(projectId: string): void {
   const stmt = getDatabase().prepare('DELETE FROM notes WHERE project_id = ?');
   stmt.run(projectId);
 }
+
+// ============================================================================
+// User Repository Functions
+// ============================================================================
+
+export interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  is_admin: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export function insertUser(user: UserRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO users (id, username, password_hash, is_admin, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    user.id,
+    user.username,
+    user.password_hash,
+    user.is_admin,
+    user.created_at,
+    user.updated_at
+  );
+}
+
+export function getUserById(id: string): UserRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM users WHERE id = ?');
+  return stmt.get(id) as UserRow | undefined;
+}
+
+export function getUserByUsername(username: string): UserRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM users WHERE username = ?');
+  return stmt.get(username) as UserRow | undefined;
+}
+
+export function getAllUsers(): UserRow[] {
+  const stmt = getDatabase().prepare('SELECT * FROM users ORDER BY username ASC');
+  return stmt.all() as UserRow[];
+}
+
+export function countUsers(): number {
+  const row = getDatabase().prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+  return row.count;
+}
+
+export function updateUserPassword(id: string, passwordHash: string): void {
+  const stmt = getDatabase().prepare(
+    "UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?"
+  );
+  stmt.run(passwordHash, id);
+}
+
+export function deleteUser(id: string): void {
+  const stmt = getDatabase().prepare('DELETE FROM users WHERE id = ?');
+  stmt.run(id);
+}
+
+// ============================================================================
+// Project Membership Repository Functions
+// ============================================================================
+
+export interface ProjectMemberRow {
+  project_id: string;
+  user_id: string;
+  role: string;
+  created_at: string;
+}
+
+/**
+ * Add a member or change an existing member's role
+ */
+export function upsertProjectMember(member: ProjectMemberRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO project_members (project_id, user_id, role, created_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(project_id, user_id) DO UPDATE SET role = excluded.role
+  `);
+  stmt.run(member.project_id, member.user_id, member.role, member.created_at);
+}
+
+export function getProjectMemberRole(projectId: string, userId: string): string | undefined {
+  const stmt = getDatabase().prepare(
+    'SELECT role FROM project_members WHERE project_id = ? AND user_id = ?'
+  );
+  const row = stmt.get(projectId, userId) as { role: string } | undefined;
+  return row?.role;
+}
+
+/**
+ * Get a project's members joined with their usernames
+ */
+export function getProjectMembers(projectId: string): Array<ProjectMemberRow & { username: string }> {
+  const stmt = getDatabase().prepare(`
+    SELECT m.*, u.username FROM project_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.project_id = ?
+    ORDER BY m.created_at ASC
+  `);
+  return stmt.all(projectId) as Array<ProjectMemberRow & { username: string }>;
+}
+
+export function deleteProjectMember(projectId: string, userId: string): void {
+  const stmt = getDatabase().prepare(
+    'DELETE FROM project_members WHERE project_id = ? AND user_id = ?'
+  );
+  stmt.run(projectId, userId);
+}
+
+// ============================================================================
+// Audit Log Repository Functions
+// ============================================================================
+
+export interface AuditLogRow {
+  id: number;
+  timestamp: string;
+  client_id: string | null;
+  user_id: string | null;
+  actor: string | null;
+  project_id: string | null;
+  event: string;
+  target: string | null;
+  result: string;
+  details: string | null;
+}
+
+export interface AuditLogFilter {
+  projectId?: string;
+  /** Restrict to any of these projects (used for non-admin callers) */
+  projectIds?: string[];
+  event?: string;
+  result?: string;
+  userId?: string;
+  since?: string;
+  until?: string;
+  limit: number;
+  offset: number;
+}
+
+export function insertAuditEntry(entry: Omit<AuditLogRow, 'id'>): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO audit_log (timestamp, client_id, user_id, actor, project_id, event, target, result, details)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    entry.timestamp,
+    entry.client_id,
+    entry.user_id,
+    entry.actor,
+    entry.project_id,
+    entry.event,
+    entry.target,
+    entry.result,
+    entry.details
+  );
+}
+
+/**
+ * Page through the audit log, newest first
+ */
+export function queryAuditLog(filter: AuditLogFilter): { rows: AuditLogRow[]; total: number } {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.projectId !== undefined) {
+    conditions.push('project_id = ?');
+    values.push(filter.projectId);
+  }
+  if (filter.projectIds !== undefined) {
+    if (filter.projectIds.length === 0) {
+      return { rows: [], total: 0 };
+    }
+    conditions.push(`project_id IN (${filter.projectIds.map(() => '?').join(', ')})`);
+    values.push(...filter.projectIds);
+  }
+  if (filter.event !== undefined) {
+    conditions.push('event = ?');
+    values.push(filter.event);
+  }
+  if (filter.result !== undefined) {
+    conditions.push('result = ?');
+    values.push(filter.result);
+  }
+  if (filter.userId !== undefined) {
+    conditions.push('user_id = ?');
+    values.push(filter.userId);
+  }
+  if (filter.since !== undefined) {
+    conditions.push('timestamp >= ?');
+    values.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    conditions.push('timestamp < ?');
+    values.push(filter.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const database = getDatabase();
+
+  const { count } = database
+    .prepare(`SELECT COUNT(*) AS count FROM audit_log ${where}`)
+    .get(...values) as { count: number };
+  const rows = database
+    .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...values, filter.limit, filter.offset) as AuditLogRow[];
+
+  return { rows, total: count };
+}
+
+// ============================================================================
+// Session Share Repository Functions
+// ============================================================================
+
+export interface SessionShareRow {
+  id: string;
+  session_id: string;
+  project_id: string;
+  token_hash: string;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export function insertSessionShare(share: SessionShareRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO session_shares (id, session_id, project_id, token_hash, created_by, created_at, expires_at, revoked_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    share.id,
+    share.session_id,
+    share.project_id,
+    share.token_hash,
+    share.created_by,
+    share.created_at,
+    share.expires_at,
+    share.revoked_at
+  );
+}
+
+export function getSessionShareById(id: string): SessionShareRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM session_shares WHERE id = ?');
+  return stmt.get(id) as SessionShareRow | undefined;
+}
+
+export function getSessionShareByTokenHash(tokenHash: string): SessionShareRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM session_shares WHERE token_hash = ?');
+  return stmt.get(tokenHash) as SessionShareRow | undefined;
+}
+
+/**
+ * Get a session's shares that are neither revoked nor expired
+ */
+export function getActiveSessionShares(sessionId: string, now: string): SessionShareRow[] {
+  const stmt = getDatabase().prepare(`
+    SELECT * FROM session_shares
+    WHERE session_id = ? AND revoked_at IS NULL AND expires_at > ?
+    ORDER BY created_at DESC
+  `);
+  return stmt.all(sessionId, now) as SessionShareRow[];
+}
+
+export function revokeSessionShare(id: string, revokedAt: string): void {
+  const stmt = getDatabase().prepare(
+    'UPDATE session_shares SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL'
+  );
+  stmt.run(revokedAt, id);
+}
+
+// ============================================================================
+// Recording Repository Functions
+// ============================================================================
+
+export interface RecordingRow {
+  id: string;
+  session_id: string;
+  project_id: string;
+  title: string | null;
+  cols: number;
+  rows: number;
+  created_by: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration: number;
+  event_count: number;
+}
+
+export interface RecordingEventRow {
+  recording_id: string;
+  seq: number;
+  time: number;
+  code: string;
+  data: string;
+}
+
+export function insertRecording(recording: RecordingRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO recordings (id, session_id, project_id, title, cols, rows, created_by, started_at, ended_at, duration, event_count)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    recording.id,
+    recording.session_id,
+    recording.project_id,
+    recording.title,
+    recording.cols,
+    recording.rows,
+    recording.created_by,
+    recording.started_at,
+    recording.ended_at,
+    recording.duration,
+    recording.event_count
+  );
+}
+
+export function getRecordingById(id: string): RecordingRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM recordings WHERE id = ?');
+  return stmt.get(id) as RecordingRow | undefined;
+}
+
+export function getRecordingsBySessionId(sessionId: string): RecordingRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM recordings WHERE session_id = ? ORDER BY started_at DESC'
+  );
+  return stmt.all(sessionId) as RecordingRow[];
+}
+
+export function getRecordingsByProjectId(projectId: string): RecordingRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM recordings WHERE project_id = ? ORDER BY started_at DESC'
+  );
+  return stmt.all(projectId) as RecordingRow[];
+}
+
+/**
+ * Append a batch of events and bump the recording's totals in one transaction
+ */
+export function appendRecordingEvents(recordingId: string, events: RecordingEventRow[]): void {
+  if (events.length === 0) return;
+
+  const database = getDatabase();
+  const insert = database.prepare(`
+    INSERT INTO recording_events (recording_id, seq, time, code, data)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const update = database.prepare(`
+    UPDATE recordings SET event_count = event_count + ?, duration = MAX(duration, ?)
+    WHERE id = ?
+  `);
+
+  database.transaction(() => {
+    for (const event of events) {
+      insert.run(recordingId, event.seq, event.time, event.code, event.data);
+    }
+    update.run(events.length, events[events.length - 1]!.time, recordingId);
+  })();
+}
+
+export function getRecordingEvents(recordingId: string): RecordingEventRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM recording_events WHERE recording_id = ? ORDER BY seq ASC'
+  );
+  return stmt.all(recordingId) as RecordingEventRow[];
+}
+
+export function finishRecording(id: string, endedAt: string): void {
+  const stmt = getDatabase().prepare(
+    'UPDATE recordings SET ended_at = ? WHERE id = ? AND ended_at IS NULL'
+  );
+  stmt.run(endedAt, id);
+}
+
+/**
+ * Close recordings left open by a server restart
+ */
+export function finishOpenRecordings(endedAt: string): number {
+  const stmt = getDatabase().prepare('UPDATE recordings SET ended_at = ? WHERE ended_at IS NULL');
+  return stmt.run(endedAt).changes;
+}
+
+export function deleteRecording(id: string): void {
+  const stmt = getDatabase().prepare('DELETE FROM recordings WHERE id = ?');
+  stmt.run(id);
+}
+
+// ============================================================================
+// Status Pattern Repository Functions
+// ============================================================================
+
+export interface StatusPatternRow {
+  id: string;
+  name: string;
+  shell: string;
+  pattern: string;
+  status: string;
+  priority: number;
+  enabled: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Insert a status pattern, or replace the one with the same ID
+ * (keeping its creator and creation time)
+ */
+export function upsertStatusPattern(row: StatusPatternRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO status_patterns (id, name, shell, pattern, status, priority, enabled, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      shell = excluded.shell,
+      pattern = excluded.pattern,
+      status = excluded.status,
+      priority = excluded.priority,
+      enabled = excluded.enabled,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(
+    row.id,
+    row.name,
+    row.shell,
+    row.pattern,
+    row.status,
+    row.priority,
+    row.enabled,
+    row.created_by,
+    row.created_at,
+    row.updated_at
+  );
+}
+
+export function getAllStatusPatterns(): StatusPatternRow[] {
+  const stmt = getDatabase().prepare('SELECT * FROM status_patterns ORDER BY priority DESC');
+  return stmt.all() as StatusPatternRow[];
+}
+
+export function deleteStatusPattern(id: string): boolean {
+  const stmt = getDatabase().prepare('DELETE FROM status_patterns WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
+
+// ============================================================================
+// Status Transition Repository Functions
+// ============================================================================
+
+export interface StatusTransitionRow {
+  id: number;
+  session_id: string;
+  project_id: string;
+  previous_status: string;
+  new_status: string;
+  matched_pattern: string | null;
+  source: string;
+  timestamp: string;
+}
+
+export interface StatusTransitionFilter {
+  projectId: string;
+  sessionId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export function insertStatusTransition(row: Omit<StatusTransitionRow, 'id'>): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO status_transitions (session_id, project_id, previous_status, new_status, matched_pattern, source, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    row.session_id,
+    row.project_id,
+    row.previous_status,
+    row.new_status,
+    row.matched_pattern,
+    row.source,
+    row.timestamp
+  );
+}
+
+/**
+ * Query status transitions, newest first
+ */
+export function queryStatusTransitions(filter: StatusTransitionFilter): StatusTransitionRow[] {
+  const conditions = ['project_id = ?'];
+  const values: unknown[] = [filter.projectId];
+
+  if (filter.sessionId !== undefined) {
+    conditions.push('session_id = ?');
+    values.push(filter.sessionId);
+  }
+  if (filter.since !== undefined) {
+    conditions.push('timestamp >= ?');
+    values.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    conditions.push('timestamp < ?');
+    values.push(filter.until);
+  }
+
+  const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+  if (filter.limit !== undefined) {
+    values.push(filter.limit);
+  }
+
+  const stmt = getDatabase().prepare(
+    `SELECT * FROM status_transitions WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC, id DESC ${limit}`
+  );
+  return stmt.all(...values) as StatusTransitionRow[];
+}
+
+/**
+ * Get each session's last transition before a time (its status at that time)
+ */
+export function getLatestStatusTransitionsBefore(
+  projectId: string,
+  before: string
+): StatusTransitionRow[] {
+  const stmt = getDatabase().prepare(`
+    SELECT * FROM status_transitions
+    WHERE id IN (
+      SELECT MAX(id) FROM status_transitions
+      WHERE project_id = ? AND timestamp < ?
+      GROUP BY session_id
+    )
+  `);
+  return stmt.all(projectId, before) as StatusTransitionRow[];
+}
+
+// ============================================================================
+// Notification Rule Repository Functions
+// ============================================================================
+
+export interface NotificationRuleRow {
+  id: string;
+  project_id: string;
+  scope: string;
+  target: string | null;
+  /** JSON array of triggers */
+  triggers: string;
+  min_duration_ms: number;
+  quiet_start: string | null;
+  quiet_end: string | null;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Insert a notification rule, or replace the one with the same ID
+ * (keeping its project and creation time)
+ */
+export function upsertNotificationRule(row: NotificationRuleRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO notification_rules (id, project_id, scope, target, triggers, min_duration_ms, quiet_start, quiet_end, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      scope = excluded.scope,
+      target = excluded.target,
+      triggers = excluded.triggers,
+      min_duration_ms = excluded.min_duration_ms,
+      quiet_start = excluded.quiet_start,
+      quiet_end = excluded.quiet_end,
+      enabled = excluded.enabled,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(
+    row.id,
+    row.project_id,
+    row.scope,
+    row.target,
+    row.triggers,
+    row.min_duration_ms,
+    row.quiet_start,
+    row.quiet_end,
+    row.enabled,
+    row.created_at,
+    row.updated_at
+  );
+}
+
+export function getNotificationRule(id: string): NotificationRuleRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM notification_rules WHERE id = ?');
+  return stmt.get(id) as NotificationRuleRow | undefined;
+}
+
+export function getNotificationRulesByProject(projectId: string): NotificationRuleRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM notification_rules WHERE project_id = ? ORDER BY created_at'
+  );
+  return stmt.all(projectId) as NotificationRuleRow[];
+}
+
+export function deleteNotificationRule(id: string): boolean {
+  const stmt = getDatabase().prepare('DELETE FROM notification_rules WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
+
+// ============================================================================
+// Workspace Template Repository Functions
+// ============================================================================
+
+export interface WorkspaceTemplateRow {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  /** JSON array of template nodes */
+  nodes: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Insert a workspace template, or replace the project's template with the
+ * same ID (keeping its creation time)
+ */
+export function upsertWorkspaceTemplate(row: WorkspaceTemplateRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO workspace_templates (id, project_id, name, description, nodes, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(project_id, id) DO UPDATE SET
+      name = excluded.name,
+      description = excluded.description,
+      nodes = excluded.nodes,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(
+    row.id,
+    row.project_id,
+    row.name,
+    row.description,
+    row.nodes,
+    row.created_at,
+    row.updated_at
+  );
+}
+
+export function getWorkspaceTemplate(projectId: string, id: string): WorkspaceTemplateRow | undefined {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM workspace_templates WHERE project_id = ? AND id = ?'
+  );
+  return stmt.get(projectId, id) as WorkspaceTemplateRow | undefined;
+}
+
+export function getWorkspaceTemplatesByProject(projectId: string): WorkspaceTemplateRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM workspace_templates WHERE project_id = ? ORDER BY name'
+  );
+  return stmt.all(projectId) as WorkspaceTemplateRow[];
+}
+
+export function deleteWorkspaceTemplate(projectId: string, id: string): boolean {
+  const stmt = getDatabase().prepare(
+    'DELETE FROM workspace_templates WHERE project_id = ? AND id = ?'
+  );
+  return stmt.run(projectId, id).changes > 0;
+}
+
+// ============================================================================
+// Command History Repository Functions
+// ============================================================================
+
+export interface CommandHistoryRow {
+  id: number;
+  session_id: string;
+  project_id: string;
+  command: string;
+  cwd: string;
+  started_at: string;
+  finished_at: string | null;
+  exit_code: number | null;
+  output_start_line: number;
+  output_end_line: number | null;
+}
+
+export interface CommandHistoryFilter {
+  projectId: string;
+  sessionId?: string;
+  since?: string;
+  until?: string;
+  /** Only commands that exited with a non-zero code */
+  failed?: boolean;
+  limit?: number;
+}
+
+/**
+ * Insert a started command, returning its ID
+ */
+export function insertCommandHistoryEntry(
+  row: Omit<CommandHistoryRow, 'id' | 'finished_at' | 'exit_code' | 'output_end_line'>
+): number {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO command_history (session_id, project_id, command, cwd, started_at, output_start_line)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    row.session_id,
+    row.project_id,
+    row.command,
+    row.cwd,
+    row.started_at,
+    row.output_start_line
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function finishCommandHistoryEntry(
+  id: number,
+  finishedAt: string,
+  exitCode: number | null,
+  outputEndLine: number | null
+): void {
+  const stmt = getDatabase().prepare(`
+    UPDATE command_history SET finished_at = ?, exit_code = ?, output_end_line = ?
+    WHERE id = ? AND finished_at IS NULL
+  `);
+  stmt.run(finishedAt, exitCode, outputEndLine, id);
+}
+
+export function getCommandHistoryEntryById(id: number): CommandHistoryRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM command_history WHERE id = ?');
+  return stmt.get(id) as CommandHistoryRow | undefined;
+}
+
+/**
+ * Query command history, newest first
+ */
+export function queryCommandHistory(filter: CommandHistoryFilter): CommandHistoryRow[] {
+  const conditions = ['project_id = ?'];
+  const values: unknown[] = [filter.projectId];
+
+  if (filter.sessionId !== undefined) {
+    conditions.push('session_id = ?');
+    values.push(filter.sessionId);
+  }
+  if (filter.since !== undefined) {
+    conditions.push('started_at >= ?');
+    values.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    conditions.push('started_at < ?');
+    values.push(filter.until);
+  }
+  if (filter.failed) {
+    conditions.push('exit_code IS NOT NULL AND exit_code != 0');
+  }
+
+  const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+  if (filter.limit !== undefined) {
+    values.push(filter.limit);
+  }
+
+  const stmt = getDatabase().prepare(
+    `SELECT * FROM command_history WHERE ${conditions.join(' AND ')} ORDER BY started_at DESC, id DESC ${limit}`
+  );
+  return stmt.all(...values) as CommandHistoryRow[];
+}
+
+/**
+ * Finish every command still running in a session (it ended)
+ */
+export function finishOpenCommandHistoryEntries(sessionId: string, finishedAt: string): number {
+  const stmt = getDatabase().prepare(
+    'UPDATE command_history SET finished_at = ? WHERE session_id = ? AND finished_at IS NULL'
+  );
+  return stmt.run(finishedAt, sessionId).changes;
+}
+
+// ============================================================================
+// Output Trigger Repository Functions
+// ============================================================================
+
+export interface OutputTriggerRow {
+  id: string;
+  project_id: string;
+  name: string;
+  scope: string;
+  target: string | null;
+  pattern: string;
+  case_sensitive: number;
+  /** JSON action */
+  action: string;
+  cooldown_ms: number;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutputTriggerExecutionRow {
+  id: number;
+  trigger_id: string;
+  project_id: string;
+  session_id: string;
+  action_type: string;
+  match: string;
+  success: number;
+  error: string | null;
+  executed_at: string;
+}
+
+export interface OutputTriggerExecutionFilter {
+  projectId: string;
+  triggerId?: string;
+  sessionId?: string;
+  limit?: number;
+}
+
+/**
+ * Insert an output trigger, or replace the one with the same ID
+ * (keeping its project and creation time)
+ */
+export function upsertOutputTrigger(row: OutputTriggerRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO output_triggers (id, project_id, name, scope, target, pattern, case_sensitive, action, cooldown_ms, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      scope = excluded.scope,
+      target = excluded.target,
+      pattern = excluded.pattern,
+      case_sensitive = excluded.case_sensitive,
+      action = excluded.action,
+      cooldown_ms = excluded.cooldown_ms,
+      enabled = excluded.enabled,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(
+    row.id,
+    row.project_id,
+    row.name,
+    row.scope,
+    row.target,
+    row.pattern,
+    row.case_sensitive,
+    row.action,
+    row.cooldown_ms,
+    row.enabled,
+    row.created_at,
+    row.updated_at
+  );
+}
+
+export function getOutputTrigger(id: string): OutputTriggerRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM output_triggers WHERE id = ?');
+  return stmt.get(id) as OutputTriggerRow | undefined;
+}
+
+export function getOutputTriggersByProject(projectId: string): OutputTriggerRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM output_triggers WHERE project_id = ? ORDER BY created_at'
+  );
+  return stmt.all(projectId) as OutputTriggerRow[];
+}
+
+export function deleteOutputTrigger(id: string): boolean {
+  const stmt = getDatabase().prepare('DELETE FROM output_triggers WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Log a trigger run, returning its ID
+ */
+export function insertOutputTriggerExecution(row: Omit<OutputTriggerExecutionRow, 'id'>): number {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO output_trigger_executions (trigger_id, project_id, session_id, action_type, match, success, error, executed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    row.trigger_id,
+    row.project_id,
+    row.session_id,
+    row.action_type,
+    row.match,
+    row.success,
+    row.error,
+    row.executed_at
+  );
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Query the trigger execution log, newest first
+ */
+export function queryOutputTriggerExecutions(
+  filter: OutputTriggerExecutionFilter
+): OutputTriggerExecutionRow[] {
+  const conditions = ['project_id = ?'];
+  const values: unknown[] = [filter.projectId];
+
+  if (filter.triggerId !== undefined) {
+    conditions.push('trigger_id = ?');
+    values.push(filter.triggerId);
+  }
+  if (filter.sessionId !== undefined) {
+    conditions.push('session_id = ?');
+    values.push(filter.sessionId);
+  }
+
+  const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+  if (filter.limit !== undefined) {
+    values.push(filter.limit);
+  }
+
+  const stmt = getDatabase().prepare(
+    `SELECT * FROM output_trigger_executions WHERE ${conditions.join(' AND ')} ORDER BY executed_at DESC, id DESC ${limit}`
+  );
+  return stmt.all(...values) as OutputTriggerExecutionRow[];
+}
+
+// ============================================================================
+// Scheduled Command Repository Functions
+// ============================================================================
+
+export interface ScheduledCommandRow {
+  id: string;
+  project_id: string;
+  session_id: string;
+  name: string;
+  kind: string;
+  cron: string | null;
+  run_at: string | null;
+  command: string;
+  enter: number;
+  paused: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Insert a scheduled command, or replace the one with the same ID
+ * (keeping its project, creation time and run history)
+ */
+export function upsertScheduledCommand(row: ScheduledCommandRow): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO scheduled_commands (id, project_id, session_id, name, kind, cron, run_at, command, enter, paused, next_run_at, last_run_at, last_error, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      session_id = excluded.session_id,
+      name = excluded.name,
+      kind = excluded.kind,
+      cron = excluded.cron,
+      run_at = excluded.run_at,
+      command = excluded.command,
+      enter = excluded.enter,
+      paused = excluded.paused,
+      next_run_at = excluded.next_run_at,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(
+    row.id,
+    row.project_id,
+    row.session_id,
+    row.name,
+    row.kind,
+    row.cron,
+    row.run_at,
+    row.command,
+    row.enter,
+    row.paused,
+    row.next_run_at,
+    row.last_run_at,
+    row.last_error,
+    row.created_at,
+    row.updated_at
+  );
+}
+
+export function getScheduledCommand(id: string): ScheduledCommandRow | undefined {
+  const stmt = getDatabase().prepare('SELECT * FROM scheduled_commands WHERE id = ?');
+  return stmt.get(id) as ScheduledCommandRow | undefined;
+}
+
+export function getScheduledCommandsByProject(projectId: string): ScheduledCommandRow[] {
+  const stmt = getDatabase().prepare(
+    'SELECT * FROM scheduled_commands WHERE project_id = ? ORDER BY created_at'
+  );
+  return stmt.all(projectId) as ScheduledCommandRow[];
+}
+
+export function getAllScheduledCommands(): ScheduledCommandRow[] {
+  const stmt = getDatabase().prepare('SELECT * FROM scheduled_commands ORDER BY created_at');
+  return stmt.all() as ScheduledCommandRow[];
+}
+
+/**
+ * Unpaused schedules whose next run is at or before `now`, oldest first
+ */
+export function getDueScheduledCommands(now: string): ScheduledCommandRow[] {
+  const stmt = getDatabase().prepare(`
+    SELECT * FROM scheduled_commands
+    WHERE paused = 0 AND next_run_at IS NOT NULL AND next_run_at <= ?
+    ORDER BY next_run_at
+  `);
+  return stmt.all(now) as ScheduledCommandRow[];
+}
+
+/**
+ * Set when a schedule runs next (null for never)
+ */
+export function setScheduledCommandNextRun(id: string, nextRunAt: string | null): void {
+  const stmt = getDatabase().prepare('UPDATE scheduled_commands SET next_run_at = ? WHERE id = ?');
+  stmt.run(nextRunAt, id);
+}
+
+/**
+ * Pause or resume a schedule, setting its next run
+ */
+export function setScheduledCommandPaused(
+  id: string,
+  paused: boolean,
+  nextRunAt: string | null,
+  updatedAt: string
+): boolean {
+  const stmt = getDatabase().prepare(
+    'UPDATE scheduled_commands SET paused = ?, next_run_at = ?, updated_at = ? WHERE id = ?'
+  );
+  return stmt.run(paused ? 1 : 0, nextRunAt, updatedAt, id).changes > 0;
+}
+
+/**
+ * Record a run's outcome and when the schedule runs next
+ */
+export function recordScheduledCommandRun(
+  id: string,
+  lastRunAt: string,
+  lastError: string | null,
+  nextRunAt: string | null
+): void {
+  const stmt = getDatabase().prepare(
+    'UPDATE scheduled_commands SET last_run_at = ?, last_error = ?, next_run_at = ? WHERE id = ?'
+  );
+  stmt.run(lastRunAt, lastError, nextRunAt, id);
+}
+
+export function deleteScheduledCommand(id: string): boolean {
+  const stmt = getDatabase().prepare('DELETE FROM scheduled_commands WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
@@ -10,6 +10,7 @@ export {
   insertProject,
   getProjectById,
   getAllProjects,
+  getProjectsForUser,
   updateProject,
   deleteProject,
   type ProjectRow,
@@ -34,4 +35,95 @@ export {
   deleteNote,
   deleteNotesByProjectId,
   type NoteRow,
+  // User repository
+  insertUser,
+  getUserById,
+  getUserByUsername,
+  getAllUsers,
+  countUsers,
+  updateUserPassword,
+  deleteUser,
+  type UserRow,
+  // Project membership repository
+  upsertProjectMember,
+  getProjectMemberRole,
+  getProjectMembers,
+  deleteProjectMember,
+  type ProjectMemberRow,
+  // Audit log repository
+  insertAuditEntry,
+  queryAuditLog,
+  type AuditLogRow,
+  type AuditLogFilter,
+  // Session share repository
+  insertSessionShare,
+  getSessionShareById,
+  getSessionShareByTokenHash,
+  getActiveSessionShares,
+  revokeSessionShare,
+  type SessionShareRow,
+  // Recording repository
+  insertRecording,
+  getRecordingById,
+  getRecordingsBySessionId,
+  getRecordingsByProjectId,
+  appendRecordingEvents,
+  getRecordingEvents,
+  finishRecording,
+  finishOpenRecordings,
+  deleteRecording,
+  type RecordingRow,
+  type RecordingEventRow,
+  // Status pattern repository
+  upsertStatusPattern,
+  getAllStatusPatterns,
+  deleteStatusPattern,
+  type StatusPatternRow,
+  // Status transition repository
+  insertStatusTransition,
+  queryStatusTransitions,
+  getLatestStatusTransitionsBefore,
+  type StatusTransitionRow,
+  type StatusTransitionFilter,
+  // Notification rule repository
+  upsertNotificationRule,
+  getNotificationRule,
+  getNotificationRulesByProject,
+  deleteNotificationRule,
+  type NotificationRuleRow,
+  // Workspace template repository
+  upsertWorkspaceTemplate,
+  getWorkspaceTemplate,
+  getWorkspaceTemplatesByProject,
+  deleteWorkspaceTemplate,
+  type WorkspaceTemplateRow,
+  // Command history repository
+  insertCommandHistoryEntry,
+  finishCommandHistoryEntry,
+  getCommandHistoryEntryById,
+  queryCommandHistory,
+  finishOpenCommandHistoryEntries,
+  type CommandHistoryRow,
+  type CommandHistoryFilter,
+  // Output trigger repository
+  upsertOutputTrigger,
+  getOutputTrigger,
+  getOutputTriggersByProject,
+  deleteOutputTrigger,
+  insertOutputTriggerExecution,
+  queryOutputTriggerExecutions,
+  type OutputTriggerRow,
+  type OutputTriggerExecutionRow,
+  type OutputTriggerExecutionFilter,
+  // Scheduled command repository
+  upsertScheduledCommand,
+  getScheduledCommand,
+  getScheduledCommandsByProject,
+  getAllScheduledCommands,
+  getDueScheduledCommands,
+  setScheduledCommandNextRun,
+  setScheduledCommandPaused,
+  recordScheduledCommandRun,
+  deleteScheduledCommand,
+  type ScheduledCommandRow,
 } from './database.js';
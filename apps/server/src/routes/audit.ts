@@ -0,0 +1,78 @@
+/**
+ * Audit Routes
+ *
+ * REST API for reading the audit log. Administrators see every entry;
+ * other users see entries for the projects they own.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { auditLogQuerySchema, ProjectRole } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { getProjectsForUser, queryAuditLog } from '../persistence/database.js';
+import { canAccessProject } from '../services/access-control.js';
+import { rowToAuditEntry } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-audit');
+
+export const auditRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  /**
+   * Page and filter the audit log, newest first
+   * GET /api/audit?projectId=&event=&result=&userId=&since=&until=&limit=&offset=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = auditLogQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const query = result.data;
+    const principal = request.principal;
+
+    if (query.projectId) {
+      if (rejectWithoutRole(request, reply, query.projectId, ProjectRole.OWNER)) return reply;
+    } else if (!principal?.isAdmin && !principal?.userId) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Administrator access required',
+      });
+    }
+
+    // Without a project filter, non-admins are limited to projects they own
+    const projectIds =
+      !query.projectId && principal && !principal.isAdmin && principal.userId
+        ? getProjectsForUser(principal.userId)
+            .map((p) => p.id)
+            .filter((id) => canAccessProject(principal, id, ProjectRole.OWNER))
+        : undefined;
+
+    try {
+      const { rows, total } = queryAuditLog({ ...query, projectIds });
+
+      return reply.send({
+        success: true,
+        data: rows.map(rowToAuditEntry),
+        meta: {
+          total,
+          limit: query.limit,
+          offset: query.offset,
+        },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to query audit log');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to query audit log',
+      });
+    }
+  });
+
+  done();
+};
@@ -0,0 +1,190 @@
+/**
+ * Auth Routes
+ *
+ * Login/logout endpoints and the preHandler that guards every other /api route.
+ */
+
+import type {
+  FastifyInstance,
+  FastifyPluginCallback,
+  FastifyReply,
+  FastifyRequest,
+} from 'fastify';
+import { createChildLogger } from '../utils/logger.js';
+import { extractBearerToken, type AuthService } from '../services/auth-service.js';
+import type { ProjectRole } from '@masterdashboard/shared';
+import { canAccessProject, resolvePrincipal } from '../services/access-control.js';
+
+const logger = createChildLogger('routes-auth');
+
+interface LoginBody {
+  username?: string;
+  password?: string;
+}
+
+/** Routes reachable without a session */
+const PUBLIC_PATHS = [
+  '/api/health',
+  '/api/auth/login',
+  '/api/auth/session',
+  // Spectator links authenticate with their own share token
+  '/api/spectate',
+  // Claude Code hooks post from local terminals; the route checks loopback
+  '/api/hooks',
+];
+
+function isPublicPath(url: string): boolean {
+  const path = url.split('?')[0] ?? url;
+  return PUBLIC_PATHS.some(
+    (publicPath) => path === publicPath || path.startsWith(`${publicPath}/`)
+  );
+}
+
+/**
+ * Create the preHandler hook that rejects unauthenticated /api requests
+ */
+export function createAuthHook(authService: AuthService) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const token = extractBearerToken(request.headers.authorization);
+    const enabled = authService.isEnabled();
+    request.auth = authService.authenticate(token);
+    request.principal = resolvePrincipal(request.auth, enabled);
+
+    if (!enabled || !request.url.startsWith('/api/')) {
+      return;
+    }
+    if (request.principal || isPublicPath(request.url)) {
+      return;
+    }
+
+    return reply.status(401).send({
+      success: false,
+      error: 'Authentication required',
+    });
+  };
+}
+
+/**
+ * Reply 403 unless the caller holds the required role in a project
+ * Returns true when the reply has been sent.
+ */
+export function rejectWithoutRole(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  projectId: string,
+  required: ProjectRole
+): boolean {
+  const principal = request.principal;
+  if (principal && canAccessProject(principal, projectId, required)) {
+    return false;
+  }
+  void reply.status(403).send({
+    success: false,
+    error: `Requires the ${required} role in this project`,
+  });
+  return true;
+}
+
+/**
+ * Reject callers that are not administrators
+ * Returns true when the reply has been sent.
+ */
+export function rejectNonAdmin(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (request.principal?.isAdmin) {
+    return false;
+  }
+  void reply.status(403).send({
+    success: false,
+    error: 'Administrator access required',
+  });
+  return true;
+}
+
+export const authRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const authService = fastify.authService;
+
+  /**
+   * Exchange the dashboard password or user credentials for a session token
+   * POST /api/auth/login
+   */
+  fastify.post<{ Body: LoginBody }>('/login', async (request, reply) => {
+    if (!authService.isPasswordLoginEnabled()) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Password login is not configured',
+      });
+    }
+
+    const password = request.body?.password;
+    if (typeof password !== 'string' || password.length === 0) {
+      return reply.status(400).send({
+        success: false,
+        error: 'password is required',
+      });
+    }
+
+    const username = request.body?.username?.trim() || undefined;
+    const result = authService.login(password, username);
+    if (!result) {
+      logger.warn({ ip: request.ip, username }, 'Failed login');
+      return reply.status(401).send({
+        success: false,
+        error: username ? 'Invalid username or password' : 'Invalid password',
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        token: result.token,
+        expiresAt: new Date(result.session.expiresAt).toISOString(),
+      },
+    });
+  });
+
+  /**
+   * Revoke the current session token
+   * POST /api/auth/logout
+   */
+  fastify.post('/logout', async (request, reply) => {
+    if (request.auth) {
+      authService.revoke(request.auth);
+    }
+    return reply.send({
+      success: true,
+      message: 'Logged out',
+    });
+  });
+
+  /**
+   * Describe the auth requirements and the caller's session
+   * GET /api/auth/session
+   */
+  fastify.get('/session', async (request, reply) => {
+    const session = request.auth;
+    const principal = request.principal;
+    return reply.send({
+      success: true,
+      data: {
+        authRequired: authService.isEnabled(),
+        passwordLogin: authService.isPasswordLoginEnabled(),
+        userAccounts: authService.hasUserAccounts(),
+        authenticated: principal !== null,
+        subject: session?.subject ?? null,
+        user: principal
+          ? { id: principal.userId, username: principal.username, isAdmin: principal.isAdmin }
+          : null,
+        expiresAt:
+          session && session.expiresAt < Number.MAX_SAFE_INTEGER
+            ? new Date(session.expiresAt).toISOString()
+            : null,
+      },
+    });
+  });
+
+  done();
+};
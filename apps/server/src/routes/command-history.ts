@@ -0,0 +1,76 @@
+/**
+ * Command History Routes
+ *
+ * REST API for the commands run in a project's terminals, as reported by
+ * shell integration.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { commandHistoryQuerySchema, ProjectRole } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-command-history');
+
+interface CommandParams {
+  commandId: string;
+}
+
+export const commandHistoryRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  /**
+   * List commands, newest first
+   * GET /api/command-history?projectId=&sessionId=&since=&until=&failed=&limit=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = commandHistoryQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+    if (rejectWithoutRole(request, reply, result.data.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: fastify.commandHistoryService.list(result.data),
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to query command history');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to query command history',
+      });
+    }
+  });
+
+  /**
+   * Where a command is in its terminal's scrollback now
+   * GET /api/command-history/:commandId/location
+   */
+  fastify.get<{ Params: CommandParams }>('/:commandId/location', async (request, reply) => {
+    const commandId = Number(request.params.commandId);
+    const entry = Number.isInteger(commandId)
+      ? fastify.commandHistoryService.get(commandId)
+      : undefined;
+    if (!entry) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Command not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, entry.projectId, ProjectRole.VIEWER)) return reply;
+
+    return reply.send({
+      success: true,
+      data: fastify.commandHistoryService.locate(entry),
+    });
+  });
+
+  done();
+};
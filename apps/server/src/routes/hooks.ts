@@ -0,0 +1,82 @@
+/**
+ * Hook Routes
+ *
+ * Receives Claude Code hook events from terminals on this machine. A hook
+ * command in Claude Code's settings pipes the event JSON through, e.g.:
+ *
+ *   curl -s -X POST -H 'Content-Type: application/json' --data-binary @- \
+ *     "http://127.0.0.1:4000/api/hooks/claude?sessionId=$MASTERDASHBOARD_SESSION_ID"
+ *
+ * The hook runs inside the terminal, not in a browser, so it carries no auth
+ * token; requests are accepted from loopback only.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { claudeHookPayloadSchema, idSchema } from '@masterdashboard/shared';
+import { isAppError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('routes-hooks');
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+interface ClaudeHookQuery {
+  sessionId?: string;
+}
+
+export const hookRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  /**
+   * Record a Claude Code hook event for a terminal session
+   * POST /api/hooks/claude?sessionId=xxx
+   */
+  fastify.post<{ Querystring: ClaudeHookQuery }>('/claude', async (request, reply) => {
+    if (!LOOPBACK_ADDRESSES.has(request.ip)) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Hook events are only accepted from this machine',
+      });
+    }
+
+    const sessionId = idSchema.safeParse(request.query.sessionId);
+    if (!sessionId.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'sessionId query parameter is required',
+      });
+    }
+
+    const payload = claudeHookPayloadSchema.safeParse(request.body);
+    if (!payload.success) {
+      return reply.status(400).send({
+        success: false,
+        error: payload.error.message,
+      });
+    }
+
+    try {
+      const event = fastify.claudeHookService.handle(sessionId.data, payload.data);
+      return reply.send({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ sessionId: sessionId.data, error }, 'Failed to handle hook event');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to handle hook event',
+      });
+    }
+  });
+
+  done();
+};
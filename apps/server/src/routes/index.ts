@@ -7,3 +7,16 @@ export { sessionRoutes } from './sessions.js';
 export { projectRoutes } from './projects.js';
 export { tmuxRoutes } from './tmux.js';
 export { noteRoutes } from './notes.js';
+export { authRoutes, createAuthHook } from './auth.js';
+export { userRoutes } from './users.js';
+export { auditRoutes } from './audit.js';
+export { spectateRoutes } from './spectate.js';
+export { recordingRoutes } from './recordings.js';
+export { hookRoutes } from './hooks.js';
+export { statusHistoryRoutes } from './status-history.js';
+export { notificationRuleRoutes } from './notification-rules.js';
+export { templateRoutes } from './templates.js';
+export { commandHistoryRoutes } from './command-history.js';
+export { outputTriggerRoutes } from './output-triggers.js';
+export { scheduledCommandRoutes } from './scheduled-commands.js';
+export { resourceRoutes } from './resources.js';
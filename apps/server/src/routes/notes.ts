@@ -5,7 +5,7 @@
  */
 
 import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
-import { createNodeId } from '@masterdashboard/shared';
+import { createNodeId, ProjectRole } from '@masterdashboard/shared';
 import type { NoteColor, NoteMode } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
 import {
@@ -17,6 +17,7 @@ import {
   getProjectById,
   type NoteRow,
 } from '../persistence/database.js';
+import { rejectWithoutRole } from './auth.js';
 
 const logger = createChildLogger('routes-notes');
 
@@ -81,6 +82,7 @@ export const noteRoutes: FastifyPluginCallback = (
     '/project/:projectId',
     async (request, reply) => {
       const { projectId } = request.params;
+      if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
 
       try {
         // Verify project exists
@@ -134,6 +136,7 @@ export const noteRoutes: FastifyPluginCallback = (
         error: 'projectId is required',
       });
     }
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.OPERATOR)) return reply;
 
     // Validate color
     const validColors = ['yellow', 'blue', 'pink', 'green', 'purple'];
@@ -224,6 +227,7 @@ export const noteRoutes: FastifyPluginCallback = (
           error: 'Note not found',
         });
       }
+      if (rejectWithoutRole(request, reply, row.project_id, ProjectRole.VIEWER)) return reply;
 
       return reply.send({
         success: true,
@@ -256,6 +260,9 @@ export const noteRoutes: FastifyPluginCallback = (
             error: 'Note not found',
           });
         }
+        if (rejectWithoutRole(request, reply, existing.project_id, ProjectRole.OPERATOR)) {
+          return reply;
+        }
 
         // Validate color if provided
         if (updates.color) {
@@ -342,6 +349,9 @@ export const noteRoutes: FastifyPluginCallback = (
           error: 'Note not found',
         });
       }
+      if (rejectWithoutRole(request, reply, existing.project_id, ProjectRole.OPERATOR)) {
+        return reply;
+      }
 
       deleteNoteFromDb(noteId);
 
@@ -0,0 +1,153 @@
+/**
+ * Notification Rule Routes
+ *
+ * REST API for the per-project rules that decide which terminal events
+ * raise desktop notifications.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  notificationRuleSchema,
+  notificationRulesQuerySchema,
+  type NotificationRuleInput,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { isAppError } from '../utils/errors.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-notification-rules');
+
+interface RuleParams {
+  ruleId: string;
+}
+
+export const notificationRuleRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const notificationService = fastify.notificationService;
+
+  /**
+   * List a project's rules
+   * GET /api/notification-rules?projectId=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = notificationRulesQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: notificationService.list(projectId),
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to list notification rules');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list notification rules',
+      });
+    }
+  });
+
+  /**
+   * Create or replace a rule
+   * PUT /api/notification-rules/:ruleId
+   */
+  fastify.put<{ Params: RuleParams }>('/:ruleId', async (request, reply) => {
+    const result = notificationRuleSchema.safeParse({
+      ...(request.body as object),
+      id: request.params.ruleId,
+    });
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const input = result.data as NotificationRuleInput;
+    if (rejectWithoutRole(request, reply, input.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const rule = notificationService.save(input);
+      recordAudit({
+        event: 'notification:rule:set',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: rule.projectId,
+        target: rule.id,
+        details: { scope: rule.scope, target: rule.target, triggers: rule.triggers },
+      });
+
+      return reply.send({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ ruleId: input.id, error }, 'Failed to save notification rule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to save notification rule',
+      });
+    }
+  });
+
+  /**
+   * Delete a rule
+   * DELETE /api/notification-rules/:ruleId
+   */
+  fastify.delete<{ Params: RuleParams }>('/:ruleId', async (request, reply) => {
+    const { ruleId } = request.params;
+
+    const rule = notificationService.get(ruleId);
+    if (!rule) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Notification rule not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, rule.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      notificationService.remove(ruleId);
+      recordAudit({
+        event: 'notification:rule:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: rule.projectId,
+        target: ruleId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Notification rule deleted',
+      });
+    } catch (error) {
+      logger.error({ ruleId, error }, 'Failed to delete notification rule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete notification rule',
+      });
+    }
+  });
+
+  done();
+};
@@ -0,0 +1,182 @@
+/**
+ * Output Trigger Routes
+ *
+ * REST API for the per-project triggers that run an action when terminal
+ * output matches a pattern, and for their execution log.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  outputTriggerSchema,
+  outputTriggersQuerySchema,
+  outputTriggerExecutionsQuerySchema,
+  type OutputTriggerInput,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { isAppError } from '../utils/errors.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-output-triggers');
+
+interface TriggerParams {
+  triggerId: string;
+}
+
+export const outputTriggerRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const outputTriggerService = fastify.outputTriggerService;
+
+  /**
+   * List a project's triggers
+   * GET /api/output-triggers?projectId=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = outputTriggersQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: outputTriggerService.list(projectId),
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to list output triggers');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list output triggers',
+      });
+    }
+  });
+
+  /**
+   * List trigger runs, newest first
+   * GET /api/output-triggers/executions?projectId=&triggerId=&sessionId=&limit=
+   */
+  fastify.get('/executions', async (request, reply) => {
+    const result = outputTriggerExecutionsQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+    if (rejectWithoutRole(request, reply, result.data.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: outputTriggerService.listExecutions(result.data),
+      });
+    } catch (error) {
+      logger.error({ query: result.data, error }, 'Failed to list output trigger runs');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list output trigger runs',
+      });
+    }
+  });
+
+  /**
+   * Create or replace a trigger
+   * PUT /api/output-triggers/:triggerId
+   */
+  fastify.put<{ Params: TriggerParams }>('/:triggerId', async (request, reply) => {
+    const result = outputTriggerSchema.safeParse({
+      ...(request.body as object),
+      id: request.params.triggerId,
+    });
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const input = result.data as OutputTriggerInput;
+    if (rejectWithoutRole(request, reply, input.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const trigger = outputTriggerService.save(input);
+      recordAudit({
+        event: 'output:trigger:set',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: trigger.projectId,
+        target: trigger.id,
+        details: { pattern: trigger.pattern, action: trigger.action.type, scope: trigger.scope },
+      });
+
+      return reply.send({
+        success: true,
+        data: trigger,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ triggerId: input.id, error }, 'Failed to save output trigger');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to save output trigger',
+      });
+    }
+  });
+
+  /**
+   * Delete a trigger
+   * DELETE /api/output-triggers/:triggerId
+   */
+  fastify.delete<{ Params: TriggerParams }>('/:triggerId', async (request, reply) => {
+    const { triggerId } = request.params;
+
+    const trigger = outputTriggerService.get(triggerId);
+    if (!trigger) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Output trigger not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, trigger.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      outputTriggerService.remove(triggerId);
+      recordAudit({
+        event: 'output:trigger:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: trigger.projectId,
+        target: triggerId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Output trigger deleted',
+      });
+    } catch (error) {
+      logger.error({ triggerId, error }, 'Failed to delete output trigger');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete output trigger',
+      });
+    }
+  });
+
+  done();
+};
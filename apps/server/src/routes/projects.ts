@@ -8,7 +8,12 @@ import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
 import {
   createProjectId,
   createProjectConfigSchema,
+  projectMemberSchema,
+  projectRoleSchema,
+  ProjectRole,
+  AuditResult,
   DEFAULT_PROJECT_SETTINGS,
+  type ProjectMember,
   type Project,
   type ProjectSettings,
   type CreateProjectConfig,
@@ -18,11 +23,21 @@ import {
   insertProject,
   getProjectById,
   getAllProjects,
+  getProjectsForUser,
   updateProject as updateProjectInDb,
   deleteProject as deleteProjectFromDb,
+  getUserById,
+  getUserByUsername,
+  getProjectMembers,
+  getProjectMemberRole,
+  upsertProjectMember,
+  deleteProjectMember,
   type ProjectRow,
 } from '../persistence/database.js';
 import { SessionManager } from '../managers/session-manager.js';
+import { recordAudit } from '../services/audit-log.js';
+import { syncProjectRoom } from '../websocket/rooms.js';
+import { rejectNonAdmin, rejectWithoutRole } from './auth.js';
 
 const logger = createChildLogger('routes-projects');
 
@@ -30,6 +45,14 @@ interface ProjectParams {
   projectId: string;
 }
 
+interface MemberParams extends ProjectParams {
+  userId: string;
+}
+
+interface UpdateMemberBody {
+  role: ProjectRole;
+}
+
 interface CreateProjectBody {
   name: string;
   description?: string;
@@ -59,6 +82,27 @@ function rowToProject(row: ProjectRow): Project {
   };
 }
 
+/**
+ * List a project's members
+ */
+function listMembers(projectId: string): ProjectMember[] {
+  return getProjectMembers(projectId).map((row) => ({
+    projectId: row.project_id,
+    userId: row.user_id,
+    username: row.username,
+    role: row.role as ProjectRole,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Whether removing or demoting a user would leave the project without an owner
+ */
+function isLastOwner(projectId: string, userId: string): boolean {
+  const owners = getProjectMembers(projectId).filter((m) => m.role === ProjectRole.OWNER);
+  return owners.length === 1 && owners[0]?.user_id === userId;
+}
+
 export const projectRoutes: FastifyPluginCallback = (
   fastify: FastifyInstance,
   _options,
@@ -70,9 +114,13 @@ export const projectRoutes: FastifyPluginCallback = (
    * List all projects
    * GET /api/projects
    */
-  fastify.get('/', async (_request, reply) => {
+  fastify.get('/', async (request, reply) => {
     try {
-      const rows = getAllProjects();
+      const principal = request.principal;
+      const rows =
+        !principal || principal.isAdmin || !principal.userId
+          ? getAllProjects()
+          : getProjectsForUser(principal.userId);
       const projects = rows.map(rowToProject);
 
       // Add session counts to each project
@@ -114,6 +162,9 @@ export const projectRoutes: FastifyPluginCallback = (
    * POST /api/projects
    */
   fastify.post<{ Body: CreateProjectBody }>('/', async (request, reply) => {
+    // A project's defaultCwd is where its sessions and file access start
+    if (rejectNonAdmin(request, reply)) return reply;
+
     const result = createProjectConfigSchema.safeParse(request.body);
 
     if (!result.success) {
@@ -141,8 +192,20 @@ export const projectRoutes: FastifyPluginCallback = (
         settings: JSON.stringify(settings),
         created_at: now.toISOString(),
         updated_at: now.toISOString(),
+        owner_id: request.principal?.userId ?? null,
       });
 
+      // The creating user owns the project
+      const ownerId = request.principal?.userId;
+      if (ownerId) {
+        upsertProjectMember({
+          project_id: projectId,
+          user_id: ownerId,
+          role: ProjectRole.OWNER,
+          created_at: now.toISOString(),
+        });
+      }
+
       const project: Project = {
         id: projectId,
         name: config.name,
@@ -178,6 +241,7 @@ export const projectRoutes: FastifyPluginCallback = (
    */
   fastify.get<{ Params: ProjectParams }>('/:projectId', async (request, reply) => {
     const { projectId } = request.params;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
 
     try {
       const row = getProjectById(projectId);
@@ -222,6 +286,8 @@ export const projectRoutes: FastifyPluginCallback = (
     async (request, reply) => {
       const { projectId } = request.params;
       const updates = request.body;
+      if (rejectWithoutRole(request, reply, projectId, ProjectRole.OWNER)) return reply;
+      if (updates.defaultCwd !== undefined && rejectNonAdmin(request, reply)) return reply;
 
       try {
         const existing = getProjectById(projectId);
@@ -287,6 +353,7 @@ export const projectRoutes: FastifyPluginCallback = (
    */
   fastify.delete<{ Params: ProjectParams }>('/:projectId', async (request, reply) => {
     const { projectId } = request.params;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.OWNER)) return reply;
 
     try {
       const existing = getProjectById(projectId);
@@ -304,6 +371,13 @@ export const projectRoutes: FastifyPluginCallback = (
       deleteProjectFromDb(projectId);
 
       logger.info({ projectId }, 'Project deleted');
+      recordAudit({
+        event: 'project:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId,
+        target: existing.name,
+      });
 
       return reply.send({
         success: true,
@@ -324,6 +398,7 @@ export const projectRoutes: FastifyPluginCallback = (
    */
   fastify.get<{ Params: ProjectParams }>('/:projectId/sessions', async (request, reply) => {
     const { projectId } = request.params;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
 
     try {
       const project = getProjectById(projectId);
@@ -359,5 +434,220 @@ export const projectRoutes: FastifyPluginCallback = (
     }
   });
 
+  /**
+   * List project members
+   * GET /api/projects/:projectId/members
+   */
+  fastify.get<{ Params: ProjectParams }>('/:projectId/members', async (request, reply) => {
+    const { projectId } = request.params;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      if (!getProjectById(projectId)) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Project not found',
+        });
+      }
+
+      const members = listMembers(projectId);
+      return reply.send({
+        success: true,
+        data: members,
+        meta: {
+          total: members.length,
+        },
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to list project members');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list project members',
+      });
+    }
+  });
+
+  /**
+   * Add a member by username (or change their role)
+   * POST /api/projects/:projectId/members
+   */
+  fastify.post<{ Params: ProjectParams }>('/:projectId/members', async (request, reply) => {
+    const { projectId } = request.params;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.OWNER)) return reply;
+
+    const result = projectMemberSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    try {
+      if (!getProjectById(projectId)) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Project not found',
+        });
+      }
+
+      const user = getUserByUsername(result.data.username);
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+      if (result.data.role !== ProjectRole.OWNER && isLastOwner(projectId, user.id)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'A project must keep at least one owner',
+        });
+      }
+
+      upsertProjectMember({
+        project_id: projectId,
+        user_id: user.id,
+        role: result.data.role,
+        created_at: new Date().toISOString(),
+      });
+      syncProjectRoom(user.id, projectId);
+
+      logger.info({ projectId, userId: user.id, role: result.data.role }, 'Project member added');
+      recordAudit({
+        event: 'project:member:set',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId,
+        target: user.username,
+        details: { role: result.data.role },
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: listMembers(projectId),
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to add project member');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to add project member',
+      });
+    }
+  });
+
+  /**
+   * Change a member's role
+   * PUT /api/projects/:projectId/members/:userId
+   */
+  fastify.put<{ Params: MemberParams; Body: UpdateMemberBody }>(
+    '/:projectId/members/:userId',
+    async (request, reply) => {
+      const { projectId, userId } = request.params;
+      if (rejectWithoutRole(request, reply, projectId, ProjectRole.OWNER)) return reply;
+
+      const result = projectRoleSchema.safeParse(request.body?.role);
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: result.error.message,
+        });
+      }
+
+      try {
+        if (!getUserById(userId) || !getProjectMemberRole(projectId, userId)) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Member not found',
+          });
+        }
+        if (result.data !== ProjectRole.OWNER && isLastOwner(projectId, userId)) {
+          return reply.status(400).send({
+            success: false,
+            error: 'A project must keep at least one owner',
+          });
+        }
+
+        upsertProjectMember({
+          project_id: projectId,
+          user_id: userId,
+          role: result.data,
+          created_at: new Date().toISOString(),
+        });
+        syncProjectRoom(userId, projectId);
+
+        logger.info({ projectId, userId, role: result.data }, 'Project member role changed');
+        recordAudit({
+          event: 'project:member:set',
+          result: AuditResult.SUCCESS,
+          principal: request.principal,
+          projectId,
+          target: userId,
+          details: { role: result.data },
+        });
+
+        return reply.send({
+          success: true,
+          data: listMembers(projectId),
+        });
+      } catch (error) {
+        logger.error({ projectId, userId, error }, 'Failed to update project member');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to update project member',
+        });
+      }
+    }
+  );
+
+  /**
+   * Remove a member
+   * DELETE /api/projects/:projectId/members/:userId
+   */
+  fastify.delete<{ Params: MemberParams }>(
+    '/:projectId/members/:userId',
+    async (request, reply) => {
+      const { projectId, userId } = request.params;
+      if (rejectWithoutRole(request, reply, projectId, ProjectRole.OWNER)) return reply;
+
+      try {
+        if (!getProjectMemberRole(projectId, userId)) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Member not found',
+          });
+        }
+        if (isLastOwner(projectId, userId)) {
+          return reply.status(400).send({
+            success: false,
+            error: 'A project must keep at least one owner',
+          });
+        }
+
+        deleteProjectMember(projectId, userId);
+        syncProjectRoom(userId, projectId);
+        logger.info({ projectId, userId }, 'Project member removed');
+        recordAudit({
+          event: 'project:member:remove',
+          result: AuditResult.SUCCESS,
+          principal: request.principal,
+          projectId,
+          target: userId,
+        });
+
+        return reply.send({
+          success: true,
+          data: listMembers(projectId),
+        });
+      } catch (error) {
+        logger.error({ projectId, userId, error }, 'Failed to remove project member');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to remove project member',
+        });
+      }
+    }
+  );
+
   done();
 };
@@ -0,0 +1,213 @@
+/**
+ * Recording Routes
+ *
+ * REST API for browsing, replaying and exporting terminal session
+ * recordings. Recording is switched on and off under /api/sessions.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { AuditResult, ProjectRole } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  getRecordingsBySessionId,
+  getRecordingsByProjectId,
+  deleteRecording as deleteRecordingFromDb,
+} from '../persistence/database.js';
+import { rowToRecording } from '../managers/recording-manager.js';
+import { canAccessProject } from '../services/access-control.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-recordings');
+
+interface RecordingListQuery {
+  sessionId?: string;
+  projectId?: string;
+}
+
+interface RecordingParams {
+  recordingId: string;
+}
+
+export const recordingRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const recordingManager = fastify.recordingManager;
+
+  /**
+   * List recordings for a session or project
+   * GET /api/recordings?sessionId=xxx or ?projectId=xxx
+   */
+  fastify.get<{ Querystring: RecordingListQuery }>('/', async (request, reply) => {
+    const { sessionId, projectId } = request.query;
+
+    if (!sessionId && !projectId) {
+      return reply.status(400).send({
+        success: false,
+        error: 'sessionId or projectId is required',
+      });
+    }
+
+    try {
+      const rows = sessionId
+        ? getRecordingsBySessionId(sessionId)
+        : getRecordingsByProjectId(projectId!);
+
+      // Only show recordings from projects the caller can see
+      const principal = request.principal;
+      const recordings = rows
+        .filter((row) => principal !== null && canAccessProject(principal, row.project_id))
+        .map(rowToRecording);
+
+      return reply.send({
+        success: true,
+        data: recordings,
+        meta: {
+          total: recordings.length,
+        },
+      });
+    } catch (error) {
+      logger.error({ sessionId, projectId, error }, 'Failed to list recordings');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list recordings',
+      });
+    }
+  });
+
+  /**
+   * Get a recording
+   * GET /api/recordings/:recordingId
+   */
+  fastify.get<{ Params: RecordingParams }>('/:recordingId', async (request, reply) => {
+    const recording = recordingManager.getRecording(request.params.recordingId);
+    if (!recording) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Recording not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, recording.projectId, ProjectRole.VIEWER)) return reply;
+
+    return reply.send({
+      success: true,
+      data: recording,
+    });
+  });
+
+  /**
+   * Get a recording's events for replay
+   * GET /api/recordings/:recordingId/events
+   */
+  fastify.get<{ Params: RecordingParams }>('/:recordingId/events', async (request, reply) => {
+    const { recordingId } = request.params;
+
+    const recording = recordingManager.getRecording(recordingId);
+    if (!recording) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Recording not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, recording.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      const events = recordingManager.getEvents(recordingId);
+      return reply.send({
+        success: true,
+        data: events,
+        meta: {
+          total: events.length,
+        },
+      });
+    } catch (error) {
+      logger.error({ recordingId, error }, 'Failed to read recording events');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to read recording events',
+      });
+    }
+  });
+
+  /**
+   * Download a recording as an asciinema file
+   * GET /api/recordings/:recordingId/cast
+   */
+  fastify.get<{ Params: RecordingParams }>('/:recordingId/cast', async (request, reply) => {
+    const { recordingId } = request.params;
+
+    const recording = recordingManager.getRecording(recordingId);
+    if (!recording) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Recording not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, recording.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      const cast = recordingManager.exportAsciicast(recordingId) ?? '';
+      return reply
+        .header('Content-Type', 'application/x-asciicast')
+        .header('Content-Disposition', `attachment; filename="${recordingId}.cast"`)
+        .send(cast);
+    } catch (error) {
+      logger.error({ recordingId, error }, 'Failed to export recording');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to export recording',
+      });
+    }
+  });
+
+  /**
+   * Delete a recording and its events
+   * DELETE /api/recordings/:recordingId
+   */
+  fastify.delete<{ Params: RecordingParams }>('/:recordingId', async (request, reply) => {
+    const { recordingId } = request.params;
+
+    const recording = recordingManager.getRecording(recordingId);
+    if (!recording) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Recording not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, recording.projectId, ProjectRole.OPERATOR)) {
+      return reply;
+    }
+    if (!recording.endedAt) {
+      return reply.status(409).send({
+        success: false,
+        error: 'Stop the recording before deleting it',
+      });
+    }
+
+    try {
+      deleteRecordingFromDb(recordingId);
+      recordAudit({
+        event: 'recording:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: recording.projectId,
+        target: recordingId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Recording deleted',
+      });
+    } catch (error) {
+      logger.error({ recordingId, error }, 'Failed to delete recording');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete recording',
+      });
+    }
+  });
+
+  done();
+};
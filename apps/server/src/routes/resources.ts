@@ -0,0 +1,110 @@
+/**
+ * Resource Routes
+ *
+ * REST API for the CPU and memory use of each terminal's process tree, and
+ * for killing runaway processes in it.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  resourcesQuerySchema,
+  killProcessTreeSchema,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { isAppError } from '../utils/errors.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-resources');
+
+interface SessionParams {
+  sessionId: string;
+}
+
+export const resourceRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const resourceMonitorService = fastify.resourceMonitorService;
+
+  /**
+   * Latest sample and history of each of a project's terminals
+   * GET /api/resources?projectId=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = resourcesQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    return reply.send({
+      success: true,
+      data: resourceMonitorService.getResources(projectId),
+    });
+  });
+
+  /**
+   * Kill a process in a terminal and everything under it
+   * POST /api/resources/:sessionId/kill
+   */
+  fastify.post<{ Params: SessionParams }>('/:sessionId/kill', async (request, reply) => {
+    const result = killProcessTreeSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { sessionId } = request.params;
+    const session = fastify.sessionManager.getSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) return reply;
+
+    const { pid, signal } = result.data;
+    try {
+      const killed = await resourceMonitorService.killTree(sessionId, pid, signal);
+      recordAudit({
+        event: 'process:kill',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: session.projectId,
+        target: sessionId,
+        details: { pid, signal, killed: killed.killed },
+      });
+
+      return reply.send({
+        success: true,
+        data: killed,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ sessionId, pid, error }, 'Failed to kill process tree');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to kill process tree',
+      });
+    }
+  });
+
+  done();
+};
@@ -0,0 +1,245 @@
+/**
+ * Scheduled Command Routes
+ *
+ * REST API for schedules that send input to a terminal session on a cron
+ * expression or once at a set time.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  scheduledCommandSchema,
+  scheduledCommandsQuerySchema,
+  scheduledCommandPauseSchema,
+  type ScheduledCommandInput,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { isAppError } from '../utils/errors.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-scheduled-commands');
+
+interface ScheduleParams {
+  scheduleId: string;
+}
+
+export const scheduledCommandRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const scheduledCommandService = fastify.scheduledCommandService;
+
+  /**
+   * List a project's schedules
+   * GET /api/schedules?projectId=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = scheduledCommandsQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: scheduledCommandService.list(projectId),
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to list schedules');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list schedules',
+      });
+    }
+  });
+
+  /**
+   * Create or replace a schedule
+   * PUT /api/schedules/:scheduleId
+   */
+  fastify.put<{ Params: ScheduleParams }>('/:scheduleId', async (request, reply) => {
+    const result = scheduledCommandSchema.safeParse({
+      ...(request.body as object),
+      id: request.params.scheduleId,
+    });
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const input = result.data as ScheduledCommandInput;
+    if (rejectWithoutRole(request, reply, input.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const schedule = scheduledCommandService.save(input);
+      recordAudit({
+        event: 'schedule:set',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: schedule.projectId,
+        target: schedule.id,
+        details: {
+          sessionId: schedule.sessionId,
+          kind: schedule.kind,
+          cron: schedule.cron,
+          runAt: schedule.runAt,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ scheduleId: input.id, error }, 'Failed to save schedule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to save schedule',
+      });
+    }
+  });
+
+  /**
+   * Pause or resume a schedule
+   * PATCH /api/schedules/:scheduleId
+   */
+  fastify.patch<{ Params: ScheduleParams }>('/:scheduleId', async (request, reply) => {
+    const result = scheduledCommandPauseSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { scheduleId } = request.params;
+    const existing = scheduledCommandService.get(scheduleId);
+    if (!existing) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, existing.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const schedule = scheduledCommandService.setPaused(scheduleId, result.data.paused);
+      recordAudit({
+        event: result.data.paused ? 'schedule:pause' : 'schedule:resume',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: existing.projectId,
+        target: scheduleId,
+      });
+
+      return reply.send({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      logger.error({ scheduleId, error }, 'Failed to update schedule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to update schedule',
+      });
+    }
+  });
+
+  /**
+   * Run a schedule now
+   * POST /api/schedules/:scheduleId/run
+   */
+  fastify.post<{ Params: ScheduleParams }>('/:scheduleId/run', async (request, reply) => {
+    const { scheduleId } = request.params;
+
+    const existing = scheduledCommandService.get(scheduleId);
+    if (!existing) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, existing.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const schedule = await scheduledCommandService.runNow(scheduleId);
+      recordAudit({
+        event: 'schedule:run',
+        result: schedule?.lastError ? AuditResult.FAILURE : AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: existing.projectId,
+        target: scheduleId,
+        details: { sessionId: existing.sessionId, error: schedule?.lastError ?? undefined },
+      });
+
+      return reply.send({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      logger.error({ scheduleId, error }, 'Failed to run schedule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to run schedule',
+      });
+    }
+  });
+
+  /**
+   * Delete a schedule
+   * DELETE /api/schedules/:scheduleId
+   */
+  fastify.delete<{ Params: ScheduleParams }>('/:scheduleId', async (request, reply) => {
+    const { scheduleId } = request.params;
+
+    const schedule = scheduledCommandService.get(scheduleId);
+    if (!schedule) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, schedule.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      scheduledCommandService.remove(scheduleId);
+      recordAudit({
+        event: 'schedule:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: schedule.projectId,
+        target: scheduleId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Schedule deleted',
+      });
+    } catch (error) {
+      logger.error({ scheduleId, error }, 'Failed to delete schedule');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete schedule',
+      });
+    }
+  });
+
+  done();
+};
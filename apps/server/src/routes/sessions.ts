@@ -5,9 +5,21 @@
  */
 
 import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  bufferSearchQuerySchema,
+  createSessionShareSchema,
+  projectOutputSearchQuerySchema,
+} from '@masterdashboard/shared';
 import { SessionManager } from '../managers/session-manager.js';
+import type { SSHManager } from '../managers/ssh-manager.js';
+import { canAccessProject } from '../services/access-control.js';
+import { recordAudit } from '../services/audit-log.js';
+import { searchProjectOutput } from '../services/output-search.js';
 import { createChildLogger } from '../utils/logger.js';
 import { isAppError } from '../utils/errors.js';
+import { rejectWithoutRole } from './auth.js';
 
 const logger = createChildLogger('routes-sessions');
 
@@ -19,6 +31,20 @@ interface SessionParams {
   sessionId: string;
 }
 
+interface BufferSearchQuery {
+  query?: string;
+  projectId?: string;
+  regex?: string;
+  caseSensitive?: string;
+  direction?: string;
+  maxResults?: string;
+  contextLines?: string;
+}
+
+interface ShareParams extends SessionParams {
+  shareId: string;
+}
+
 export const sessionRoutes: FastifyPluginCallback = (
   fastify: FastifyInstance,
   _options,
@@ -44,6 +70,12 @@ export const sessionRoutes: FastifyPluginCallback = (
         .filter(Boolean);
     }
 
+    // Only show sessions from projects the caller can see
+    const principal = request.principal;
+    sessions = sessions.filter(
+      (s) => principal !== null && canAccessProject(principal, s!.projectId)
+    );
+
     return reply.send({
       success: true,
       data: sessions.map((s) => ({
@@ -61,6 +93,51 @@ export const sessionRoutes: FastifyPluginCallback = (
     });
   });
 
+  /**
+   * Search output across all terminal and SSH sessions in a project
+   * GET /api/sessions/search?projectId=xxx&query=xxx
+   */
+  fastify.get<{ Querystring: BufferSearchQuery }>('/search', async (request, reply) => {
+    const parsed = projectOutputSearchQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        success: false,
+        error: parsed.error.message,
+      });
+    }
+    if (rejectWithoutRole(request, reply, parsed.data.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      // The SSH manager is attached when the WebSocket server starts
+      const sshManager = (fastify as unknown as { sshManager?: SSHManager }).sshManager;
+      const matches = searchProjectOutput(
+        { sessionManager, sshManager, bufferManager: fastify.bufferManager },
+        parsed.data
+      );
+
+      return reply.send({
+        success: true,
+        data: matches,
+        meta: {
+          total: matches.reduce((sum, session) => sum + session.results.length, 0),
+          sessions: matches.length,
+        },
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ projectId: parsed.data.projectId, error }, 'Failed to search output');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to search output',
+      });
+    }
+  });
+
   /**
    * Get session by ID
    * GET /api/sessions/:sessionId
@@ -75,6 +152,7 @@ export const sessionRoutes: FastifyPluginCallback = (
         error: 'Session not found',
       });
     }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.VIEWER)) return reply;
 
     return reply.send({
       success: true,
@@ -98,6 +176,11 @@ export const sessionRoutes: FastifyPluginCallback = (
   fastify.delete<{ Params: SessionParams }>('/:sessionId', async (request, reply) => {
     const { sessionId } = request.params;
 
+    const session = sessionManager.getSession(sessionId);
+    if (session && rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) {
+      return reply;
+    }
+
     try {
       await sessionManager.terminateSession(sessionId);
       return reply.send({
@@ -114,6 +197,28 @@ export const sessionRoutes: FastifyPluginCallback = (
     }
   });
 
+  /**
+   * Get the Claude Code hook events recorded for a session
+   * GET /api/sessions/:sessionId/hook-events
+   */
+  fastify.get<{ Params: SessionParams }>('/:sessionId/hook-events', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.VIEWER)) return reply;
+
+    return reply.send({
+      success: true,
+      data: fastify.claudeHookService.getEvents(sessionId),
+    });
+  });
+
   /**
    * Get buffer stats for a session
    * GET /api/sessions/:sessionId/buffer
@@ -122,6 +227,15 @@ export const sessionRoutes: FastifyPluginCallback = (
     const { sessionId } = request.params;
     const bufferManager = fastify.bufferManager;
 
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.VIEWER)) return reply;
+
     const stats = bufferManager.getBufferStats(sessionId);
     if (!stats) {
       return reply.status(404).send({
@@ -136,5 +250,293 @@ export const sessionRoutes: FastifyPluginCallback = (
     });
   });
 
+  /**
+   * Search a session's full scrollback
+   * GET /api/sessions/:sessionId/buffer/search?query=xxx&regex=true&direction=backward
+   */
+  fastify.get<{ Params: SessionParams; Querystring: BufferSearchQuery }>(
+    '/:sessionId/buffer/search',
+    async (request, reply) => {
+      const { sessionId } = request.params;
+
+      const session = sessionManager.getTerminalSession(sessionId);
+      if (!session) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Terminal session not found',
+        });
+      }
+      if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.VIEWER)) return reply;
+
+      const parsed = bufferSearchQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          success: false,
+          error: parsed.error.message,
+        });
+      }
+
+      try {
+        const { results, totalLines, truncated } = sessionManager.searchScrollback(
+          sessionId,
+          parsed.data
+        );
+        return reply.send({
+          success: true,
+          data: results,
+          meta: {
+            total: results.length,
+            totalLines,
+            truncated,
+          },
+        });
+      } catch (error) {
+        if (isAppError(error)) {
+          return reply.status(error.statusCode).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        logger.error({ sessionId, error }, 'Failed to search scrollback');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to search scrollback',
+        });
+      }
+    }
+  );
+
+  /**
+   * Get a terminal session's running recording, if any
+   * GET /api/sessions/:sessionId/recording
+   */
+  fastify.get<{ Params: SessionParams }>('/:sessionId/recording', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Terminal session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.VIEWER)) return reply;
+
+    const recordingId = fastify.recordingManager.getActiveRecordingId(sessionId);
+    return reply.send({
+      success: true,
+      data: recordingId ? fastify.recordingManager.getRecording(recordingId) : null,
+    });
+  });
+
+  /**
+   * Start recording a terminal session
+   * POST /api/sessions/:sessionId/recording
+   */
+  fastify.post<{ Params: SessionParams }>('/:sessionId/recording', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Terminal session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const recording = fastify.recordingManager.start(
+        sessionId,
+        request.principal?.userId ?? null
+      );
+      recordAudit({
+        event: 'session:record:start',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: session.projectId,
+        target: sessionId,
+        details: { recordingId: recording.id },
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: recording,
+      });
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to start recording');
+      const message = isAppError(error) ? error.message : 'Failed to start recording';
+      return reply.status(500).send({
+        success: false,
+        error: message,
+      });
+    }
+  });
+
+  /**
+   * Stop recording a terminal session
+   * DELETE /api/sessions/:sessionId/recording
+   */
+  fastify.delete<{ Params: SessionParams }>('/:sessionId/recording', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Terminal session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const recording = fastify.recordingManager.stop(sessionId);
+      if (!recording) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Session is not being recorded',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: recording,
+      });
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to stop recording');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to stop recording',
+      });
+    }
+  });
+
+  /**
+   * Create a read-only spectator link for a terminal session
+   * POST /api/sessions/:sessionId/shares
+   */
+  fastify.post<{ Params: SessionParams }>('/:sessionId/shares', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Terminal session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) return reply;
+
+    const result = createSessionShareSchema.safeParse(request.body ?? {});
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    try {
+      const created = fastify.shareService.createShare({
+        sessionId,
+        projectId: session.projectId,
+        createdBy: request.principal?.userId ?? null,
+        ttlMinutes: result.data.ttlMinutes,
+      });
+      recordAudit({
+        event: 'session:share',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: session.projectId,
+        target: sessionId,
+        details: { shareId: created.share.id, expiresAt: created.share.expiresAt },
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: created,
+      });
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to create session share');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create share link',
+      });
+    }
+  });
+
+  /**
+   * List a session's active spectator links
+   * GET /api/sessions/:sessionId/shares
+   */
+  fastify.get<{ Params: SessionParams }>('/:sessionId/shares', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    const session = sessionManager.getTerminalSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Terminal session not found',
+      });
+    }
+    if (rejectWithoutRole(request, reply, session.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const shares = fastify.shareService.getActiveShares(sessionId);
+      return reply.send({
+        success: true,
+        data: shares,
+        meta: {
+          total: shares.length,
+        },
+      });
+    } catch (error) {
+      logger.error({ sessionId, error }, 'Failed to list session shares');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list share links',
+      });
+    }
+  });
+
+  /**
+   * Revoke a spectator link (connected spectators are dropped)
+   * DELETE /api/sessions/:sessionId/shares/:shareId
+   */
+  fastify.delete<{ Params: ShareParams }>('/:sessionId/shares/:shareId', async (request, reply) => {
+    const { sessionId, shareId } = request.params;
+
+    try {
+      const share = fastify.shareService.getShare(shareId);
+      if (!share || share.sessionId !== sessionId) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Share link not found',
+        });
+      }
+      if (rejectWithoutRole(request, reply, share.projectId, ProjectRole.OPERATOR)) return reply;
+
+      fastify.shareService.revoke(shareId);
+      recordAudit({
+        event: 'session:share:revoke',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: share.projectId,
+        target: sessionId,
+        details: { shareId },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Share link revoked',
+      });
+    } catch (error) {
+      logger.error({ sessionId, shareId, error }, 'Failed to revoke session share');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to revoke share link',
+      });
+    }
+  });
+
   done();
 };
@@ -0,0 +1,63 @@
+/**
+ * Spectate Routes
+ *
+ * Public lookup for read-only share links. The share token in the URL is the
+ * only credential; live output is streamed on the spectator namespace.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import type { SpectatorSessionInfo } from '@masterdashboard/shared';
+import { SessionManager } from '../managers/session-manager.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('routes-spectate');
+
+interface SpectateParams {
+  token: string;
+}
+
+export const spectateRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const sessionManager = fastify.sessionManager as SessionManager;
+
+  /**
+   * Describe the session behind a share token
+   * GET /api/spectate/:token
+   */
+  fastify.get<{ Params: SpectateParams }>('/:token', async (request, reply) => {
+    try {
+      const share = fastify.shareService.resolveToken(request.params.token);
+      const session = share ? sessionManager.getTerminalSession(share.sessionId) : undefined;
+
+      if (!share || !session) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Share link is invalid or has expired',
+        });
+      }
+
+      const info: SpectatorSessionInfo = {
+        sessionId: session.id,
+        title: session.title ?? null,
+        cols: session.cols,
+        rows: session.rows,
+        expiresAt: share.expiresAt,
+      };
+      return reply.send({
+        success: true,
+        data: info,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to resolve share link');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to resolve share link',
+      });
+    }
+  });
+
+  done();
+};
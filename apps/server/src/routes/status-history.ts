@@ -0,0 +1,83 @@
+/**
+ * Status History Routes
+ *
+ * REST API for recorded status transitions and the time sessions spent
+ * working, waiting and errored.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  statusHistoryQuerySchema,
+  statusSummaryQuerySchema,
+  ProjectRole,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-status-history');
+
+export const statusHistoryRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  /**
+   * List status transitions, newest first
+   * GET /api/status-history?projectId=&sessionId=&since=&until=&limit=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = statusHistoryQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+    if (rejectWithoutRole(request, reply, result.data.projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: fastify.statusHistoryService.list(result.data),
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to query status history');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to query status history',
+      });
+    }
+  });
+
+  /**
+   * Time spent in each status per session and for the project
+   * GET /api/status-history/summary?projectId=&since=&until=
+   */
+  fastify.get('/summary', async (request, reply) => {
+    const result = statusSummaryQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId, since, until } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      return reply.send({
+        success: true,
+        data: fastify.statusHistoryService.summarize(projectId, since, until),
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to summarize status history');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to summarize status history',
+      });
+    }
+  });
+
+  done();
+};
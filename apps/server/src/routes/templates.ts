@@ -0,0 +1,169 @@
+/**
+ * Workspace Template Routes
+ *
+ * REST API for a project's workspace templates. Templates are launched over
+ * the WebSocket (template:launch) so their sessions belong to the client.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import {
+  AuditResult,
+  ProjectRole,
+  workspaceTemplateSchema,
+  workspaceTemplatesQuerySchema,
+  type WorkspaceTemplateInput,
+} from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { isAppError } from '../utils/errors.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectWithoutRole } from './auth.js';
+
+const logger = createChildLogger('routes-templates');
+
+interface TemplateParams {
+  templateId: string;
+}
+
+export const templateRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  const templateService = fastify.templateService;
+
+  /**
+   * List a project's templates
+   * GET /api/templates?projectId=
+   */
+  fastify.get('/', async (request, reply) => {
+    const result = workspaceTemplatesQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId, source } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.VIEWER)) return reply;
+
+    try {
+      const templates = await templateService.list(projectId);
+      return reply.send({
+        success: true,
+        data: source ? templates.filter((template) => template.source === source) : templates,
+      });
+    } catch (error) {
+      logger.error({ projectId, error }, 'Failed to list workspace templates');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list workspace templates',
+      });
+    }
+  });
+
+  /**
+   * Create or replace a template
+   * PUT /api/templates/:templateId
+   */
+  fastify.put<{ Params: TemplateParams }>('/:templateId', async (request, reply) => {
+    const result = workspaceTemplateSchema.safeParse({
+      ...(request.body as object),
+      id: request.params.templateId,
+    });
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const input = result.data as WorkspaceTemplateInput;
+    if (rejectWithoutRole(request, reply, input.projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const template = await templateService.save(input);
+      recordAudit({
+        event: 'template:set',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: template.projectId,
+        target: template.id,
+        details: { source: template.source, name: template.name, nodes: template.nodes.length },
+      });
+
+      return reply.send({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ templateId: input.id, error }, 'Failed to save workspace template');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to save workspace template',
+      });
+    }
+  });
+
+  /**
+   * Delete a template
+   * DELETE /api/templates/:templateId?projectId=&source=
+   */
+  fastify.delete<{ Params: TemplateParams }>('/:templateId', async (request, reply) => {
+    const { templateId } = request.params;
+    const result = workspaceTemplatesQuerySchema.safeParse(request.query);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { projectId, source = 'project' } = result.data;
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.OPERATOR)) return reply;
+
+    try {
+      const removed = await templateService.remove(projectId, source, templateId);
+      if (!removed) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Workspace template not found',
+        });
+      }
+
+      recordAudit({
+        event: 'template:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId,
+        target: templateId,
+        details: { source },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Workspace template deleted',
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ templateId, error }, 'Failed to delete workspace template');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete workspace template',
+      });
+    }
+  });
+
+  done();
+};
@@ -1,14 +1,18 @@
 /**
  * Tmux Routes
  *
- * REST API for tmux session management and statistics.
+ * REST API for tmux session management and statistics, and for adopting
+ * tmux sessions the user started outside the dashboard.
  */
 
 import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { AuditResult, ProjectRole, tmuxAdoptSchema } from '@masterdashboard/shared';
 import { SessionManager } from '../managers/session-manager.js';
 import { TmuxCleanupService } from '../services/tmux-cleanup-service.js';
+import { recordAudit } from '../services/audit-log.js';
 import { createChildLogger } from '../utils/logger.js';
 import { isAppError } from '../utils/errors.js';
+import { rejectNonAdmin, rejectWithoutRole } from './auth.js';
 
 const logger = createChildLogger('routes-tmux');
 
@@ -126,11 +130,95 @@ export const tmuxRoutes: FastifyPluginCallback = (
     }
   });
 
+  /**
+   * List tmux sessions, windows and panes on the user's own tmux server
+   * GET /api/tmux/foreign
+   */
+  fastify.get('/foreign', async (request, reply) => {
+    // Exposes every session on the host, not just the dashboard's
+    if (rejectNonAdmin(request, reply)) return reply;
+
+    try {
+      const sessions = await tmuxManager.listForeignSessions();
+      return reply.send({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to list foreign tmux sessions');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list foreign tmux sessions',
+      });
+    }
+  });
+
+  /**
+   * Attach a foreign tmux session, window or pane to a project
+   * POST /api/tmux/adopt
+   */
+  fastify.post('/adopt', async (request, reply) => {
+    // Adopted panes run as the server user, so operators could escape their project
+    if (rejectNonAdmin(request, reply)) return reply;
+
+    const result = tmuxAdoptSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const config = result.data;
+
+    try {
+      const session = await sessionManager.adoptTmuxSession(
+        config,
+        request.principal?.userId ?? null
+      );
+      recordAudit({
+        event: 'session:adopt',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId: session.projectId,
+        target: session.id,
+        details: { tmuxTarget: config.target },
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          id: session.id,
+          projectId: session.projectId,
+          shell: session.shell,
+          cwd: session.cwd,
+          title: session.title,
+          tmuxTarget: session.tmuxTarget,
+        },
+      });
+    } catch (error) {
+      if (isAppError(error)) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.error({ error, target: config.target }, 'Failed to adopt tmux session');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to adopt tmux session',
+      });
+    }
+  });
+
   /**
    * Cleanup orphaned tmux sessions
    * POST /api/tmux/cleanup
    */
-  fastify.post<{ Body: CleanupBody }>('/cleanup', async (_request, reply) => {
+  fastify.post<{ Body: CleanupBody }>('/cleanup', async (request, reply) => {
+    // Kills host tmux sessions no project owns
+    if (rejectNonAdmin(request, reply)) return reply;
+
     try {
       const allTmuxSessions = await tmuxManager.listSessions();
       let cleanedCount = 0;
@@ -173,6 +261,7 @@ export const tmuxRoutes: FastifyPluginCallback = (
         error: 'projectId is required',
       });
     }
+    if (rejectWithoutRole(request, reply, projectId, ProjectRole.OPERATOR)) return reply;
 
     try {
       const projectSessions = sessionManager.getSessionsByProject(projectId);
@@ -188,6 +277,14 @@ export const tmuxRoutes: FastifyPluginCallback = (
       }
 
       logger.info({ projectId, killedCount }, 'Killed all project sessions');
+      recordAudit({
+        event: 'session:kill-all',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        projectId,
+        target: projectId,
+        details: { killed: killedCount },
+      });
 
       return reply.send({
         success: true,
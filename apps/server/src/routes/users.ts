@@ -0,0 +1,164 @@
+/**
+ * User Routes
+ *
+ * REST API for managing user accounts. Administrators only.
+ */
+
+import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import { AuditResult, createUserId, createUserSchema } from '@masterdashboard/shared';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  insertUser,
+  getUserById,
+  getUserByUsername,
+  getAllUsers,
+  deleteUser as deleteUserFromDb,
+} from '../persistence/database.js';
+import { hashPassword } from '../services/auth-service.js';
+import { rowToUser } from '../services/access-control.js';
+import { recordAudit } from '../services/audit-log.js';
+import { rejectNonAdmin } from './auth.js';
+
+const logger = createChildLogger('routes-users');
+
+interface UserParams {
+  userId: string;
+}
+
+export const userRoutes: FastifyPluginCallback = (
+  fastify: FastifyInstance,
+  _options,
+  done
+) => {
+  /**
+   * List all users
+   * GET /api/users
+   */
+  fastify.get('/', async (request, reply) => {
+    if (rejectNonAdmin(request, reply)) return reply;
+
+    try {
+      const users = getAllUsers().map(rowToUser);
+      return reply.send({
+        success: true,
+        data: users,
+        meta: {
+          total: users.length,
+        },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to list users');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list users',
+      });
+    }
+  });
+
+  /**
+   * Create a user
+   * POST /api/users
+   */
+  fastify.post('/', async (request, reply) => {
+    if (rejectNonAdmin(request, reply)) return reply;
+
+    const result = createUserSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    const { username, password, isAdmin } = result.data;
+
+    try {
+      if (getUserByUsername(username)) {
+        return reply.status(409).send({
+          success: false,
+          error: 'Username already exists',
+        });
+      }
+
+      const now = new Date().toISOString();
+      const userId = createUserId();
+      insertUser({
+        id: userId,
+        username,
+        password_hash: hashPassword(password),
+        is_admin: isAdmin ? 1 : 0,
+        created_at: now,
+        updated_at: now,
+      });
+
+      logger.info({ userId, username, isAdmin }, 'User created');
+      recordAudit({
+        event: 'user:create',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        target: username,
+        details: { userId, isAdmin },
+      });
+
+      const row = getUserById(userId);
+      return reply.status(201).send({
+        success: true,
+        data: row ? rowToUser(row) : null,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to create user');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create user',
+      });
+    }
+  });
+
+  /**
+   * Delete a user (memberships are removed with it)
+   * DELETE /api/users/:userId
+   */
+  fastify.delete<{ Params: UserParams }>('/:userId', async (request, reply) => {
+    if (rejectNonAdmin(request, reply)) return reply;
+
+    const { userId } = request.params;
+
+    if (request.principal?.userId === userId) {
+      return reply.status(400).send({
+        success: false,
+        error: 'You cannot delete your own account',
+      });
+    }
+
+    try {
+      if (!getUserById(userId)) {
+        return reply.status(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      deleteUserFromDb(userId);
+      logger.info({ userId }, 'User deleted');
+      recordAudit({
+        event: 'user:delete',
+        result: AuditResult.SUCCESS,
+        principal: request.principal,
+        target: userId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User deleted',
+      });
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to delete user');
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete user',
+      });
+    }
+  });
+
+  done();
+};
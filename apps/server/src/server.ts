@@ -6,14 +6,47 @@
 
 import Fastify, { type FastifyInstance } from 'fastify';
 import cors from '@fastify/cors';
-import { getEnv, isDevelopment } from './config/env.js';
+import { getEnv, getStatusTimerSettings, isDevelopment } from './config/env.js';
 import { initDatabase, closeDatabase } from './persistence/database.js';
 import { SessionManager } from './managers/session-manager.js';
 import { BufferManager } from './managers/buffer-manager.js';
 import { StatusDetector } from './managers/status-detector.js';
+import { RecordingManager } from './managers/recording-manager.js';
 import { TmuxCleanupService } from './services/tmux-cleanup-service.js';
+import { AuthService, type AuthSession } from './services/auth-service.js';
+import { databaseUserDirectory, type Principal } from './services/access-control.js';
+import { ShareService } from './services/share-service.js';
+import { StatusPatternService } from './services/status-pattern-service.js';
+import { ClaudeHookService } from './services/claude-hook-service.js';
+import { StatusHistoryService } from './services/status-history-service.js';
+import { NotificationService } from './services/notification-service.js';
+import { TemplateService } from './services/template-service.js';
+import { CommandHistoryService } from './services/command-history-service.js';
+import { OutputTriggerService } from './services/output-trigger-service.js';
+import { ScheduledCommandService } from './services/scheduled-command-service.js';
+import { ResourceMonitorService } from './services/resource-monitor-service.js';
 import { setupWebSocket } from './websocket/index.js';
-import { healthRoutes, sessionRoutes, projectRoutes, tmuxRoutes, noteRoutes } from './routes/index.js';
+import {
+  healthRoutes,
+  sessionRoutes,
+  projectRoutes,
+  tmuxRoutes,
+  noteRoutes,
+  authRoutes,
+  userRoutes,
+  auditRoutes,
+  spectateRoutes,
+  recordingRoutes,
+  hookRoutes,
+  statusHistoryRoutes,
+  notificationRuleRoutes,
+  templateRoutes,
+  commandHistoryRoutes,
+  outputTriggerRoutes,
+  scheduledCommandRoutes,
+  resourceRoutes,
+  createAuthHook,
+} from './routes/index.js';
 import { createChildLogger } from './utils/logger.js';
 
 const serverLogger = createChildLogger('server');
@@ -24,7 +57,26 @@ declare module 'fastify' {
     sessionManager: SessionManager;
     bufferManager: BufferManager;
     statusDetector: StatusDetector;
+    statusPatternService: StatusPatternService;
+    claudeHookService: ClaudeHookService;
+    statusHistoryService: StatusHistoryService;
+    notificationService: NotificationService;
+    templateService: TemplateService;
+    commandHistoryService: CommandHistoryService;
+    outputTriggerService: OutputTriggerService;
+    recordingManager: RecordingManager;
     tmuxCleanupService: TmuxCleanupService;
+    scheduledCommandService: ScheduledCommandService;
+    resourceMonitorService: ResourceMonitorService;
+    authService: AuthService;
+    shareService: ShareService;
+  }
+
+  interface FastifyRequest {
+    /** Session resolved from the bearer token, null when anonymous */
+    auth: AuthSession | null;
+    /** Who the request acts as, null when anonymous */
+    principal: Principal | null;
   }
 }
 
@@ -52,6 +104,23 @@ export async function createServer(): Promise<FastifyInstance> {
   // Initialize database
   await initDatabase();
 
+  const authService = new AuthService({
+    password: env.AUTH_PASSWORD,
+    apiToken: env.AUTH_TOKEN,
+    secret: env.SESSION_SECRET,
+    sessionTtlMs: env.AUTH_SESSION_TTL_MS,
+    users: databaseUserDirectory,
+  });
+
+  if (!authService.isEnabled() && env.HOST !== '127.0.0.1' && env.HOST !== 'localhost') {
+    serverLogger.warn(
+      { host: env.HOST },
+      'Authentication is disabled but the server is not bound to loopback; set AUTH_PASSWORD'
+    );
+  }
+
+  const shareService = new ShareService();
+
   // Initialize managers
   const bufferManager = new BufferManager({
     maxLines: env.SCROLLBACK_LINES,
@@ -59,7 +128,11 @@ export async function createServer(): Promise<FastifyInstance> {
     flushIntervalMs: env.BUFFER_PERSIST_INTERVAL_MS,
   });
 
-  const statusDetector = new StatusDetector();
+  const statusDetector = new StatusDetector({ timers: getStatusTimerSettings(env) });
+
+  // Load user-defined status patterns on top of the built-in registry
+  const statusPatternService = new StatusPatternService(statusDetector, bufferManager);
+  statusPatternService.load();
 
   const sessionManager = new SessionManager(bufferManager, statusDetector, {
     maxScrollbackLines: env.SCROLLBACK_LINES,
@@ -83,11 +156,54 @@ export async function createServer(): Promise<FastifyInstance> {
   );
   await tmuxCleanupService.start();
 
+  // Send scheduled input to terminal sessions
+  const scheduledCommandService = new ScheduledCommandService(sessionManager);
+  scheduledCommandService.start();
+
+  // Sample CPU and memory of each terminal's process tree
+  const resourceMonitorService = new ResourceMonitorService(sessionManager);
+  resourceMonitorService.start();
+
+  // Claude Code hook events drive status for the sessions that send them
+  const claudeHookService = new ClaudeHookService(statusDetector, sessionManager);
+
+  // Persist status changes for timelines and analytics
+  const statusHistoryService = new StatusHistoryService(sessionManager);
+
+  // Turn status changes into desktop notifications per each project's rules
+  const notificationService = new NotificationService(sessionManager);
+
+  // Workspace templates that launch a set of terminals at once
+  const templateService = new TemplateService(sessionManager);
+
+  // Commands run in terminals, from shell integration
+  const commandHistoryService = new CommandHistoryService(sessionManager, bufferManager);
+
+  // Run user-defined actions when terminal output matches a pattern
+  const outputTriggerService = new OutputTriggerService(sessionManager);
+
+  // Initialize session recording
+  const recordingManager = new RecordingManager(sessionManager);
+
   // Decorate fastify with managers
   fastify.decorate('sessionManager', sessionManager);
   fastify.decorate('bufferManager', bufferManager);
   fastify.decorate('statusDetector', statusDetector);
+  fastify.decorate('statusPatternService', statusPatternService);
+  fastify.decorate('claudeHookService', claudeHookService);
+  fastify.decorate('statusHistoryService', statusHistoryService);
+  fastify.decorate('notificationService', notificationService);
+  fastify.decorate('templateService', templateService);
+  fastify.decorate('commandHistoryService', commandHistoryService);
+  fastify.decorate('outputTriggerService', outputTriggerService);
+  fastify.decorate('recordingManager', recordingManager);
   fastify.decorate('tmuxCleanupService', tmuxCleanupService);
+  fastify.decorate('scheduledCommandService', scheduledCommandService);
+  fastify.decorate('resourceMonitorService', resourceMonitorService);
+  fastify.decorate('authService', authService);
+  fastify.decorate('shareService', shareService);
+  fastify.decorateRequest('auth', null);
+  fastify.decorateRequest('principal', null);
 
   // Register plugins
   await fastify.register(cors, {
@@ -97,12 +213,28 @@ export async function createServer(): Promise<FastifyInstance> {
     allowedHeaders: ['Content-Type', 'Authorization'],
   });
 
+  // Require a session for everything under /api except health and login
+  fastify.addHook('preHandler', createAuthHook(authService));
+
   // Register routes
+  await fastify.register(authRoutes, { prefix: '/api/auth' });
   await fastify.register(healthRoutes, { prefix: '/api/health' });
   await fastify.register(sessionRoutes, { prefix: '/api/sessions' });
+  await fastify.register(userRoutes, { prefix: '/api/users' });
   await fastify.register(projectRoutes, { prefix: '/api/projects' });
   await fastify.register(tmuxRoutes, { prefix: '/api/tmux' });
   await fastify.register(noteRoutes, { prefix: '/api/notes' });
+  await fastify.register(auditRoutes, { prefix: '/api/audit' });
+  await fastify.register(spectateRoutes, { prefix: '/api/spectate' });
+  await fastify.register(recordingRoutes, { prefix: '/api/recordings' });
+  await fastify.register(hookRoutes, { prefix: '/api/hooks' });
+  await fastify.register(statusHistoryRoutes, { prefix: '/api/status-history' });
+  await fastify.register(notificationRuleRoutes, { prefix: '/api/notification-rules' });
+  await fastify.register(templateRoutes, { prefix: '/api/templates' });
+  await fastify.register(commandHistoryRoutes, { prefix: '/api/command-history' });
+  await fastify.register(outputTriggerRoutes, { prefix: '/api/output-triggers' });
+  await fastify.register(scheduledCommandRoutes, { prefix: '/api/schedules' });
+  await fastify.register(resourceRoutes, { prefix: '/api/resources' });
 
   // Setup WebSocket
   setupWebSocket(fastify);
@@ -126,8 +258,10 @@ export async function createServer(): Promise<FastifyInstance> {
 
   // Graceful shutdown hooks - optimized for fast restart in development
   fastify.addHook('onClose', async () => {
-    // Stop cleanup service immediately (sync)
+    // Stop cleanup service, scheduler and resource monitor immediately (sync)
     tmuxCleanupService.stop();
+    scheduledCommandService.stop();
+    resourceMonitorService.stop();
 
     // In development, prioritize speed over completeness
     // Tmux sessions are preserved anyway, so data loss is minimal
@@ -152,6 +286,11 @@ export async function createServer(): Promise<FastifyInstance> {
         await sessionManager.persistAllSessions();
       }
 
+      // Flush and close recordings before their session events stop
+      recordingManager.destroy();
+      claudeHookService.destroy();
+      notificationService.destroy();
+
       // SessionManager.destroy() handles ptyManager, bufferManager, statusDetector
       await sessionManager.destroy();
 
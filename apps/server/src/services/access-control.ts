@@ -0,0 +1,116 @@
+/**
+ * Access Control
+ *
+ * Maps authenticated sessions to principals and answers per-project role
+ * questions. The shared dashboard password and the static API token act as
+ * administrators; named user accounts only see projects they are members of.
+ */
+
+import { ProjectRole, hasProjectRole, type User } from '@masterdashboard/shared';
+import {
+  getUserById,
+  getUserByUsername,
+  getProjectMemberRole,
+  countUsers,
+  type UserRow,
+} from '../persistence/database.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  API_TOKEN_SUBJECT,
+  PASSWORD_SUBJECT,
+  verifyPassword,
+  type AuthSession,
+  type UserDirectory,
+} from './auth-service.js';
+
+const logger = createChildLogger('access-control');
+
+export interface Principal {
+  /** User account ID (null for the shared password, API token or open access) */
+  userId: string | null;
+  /** Display name */
+  username: string;
+  /** Administrators have owner rights on every project */
+  isAdmin: boolean;
+}
+
+/** Principal used when authentication is disabled */
+const ANONYMOUS_ADMIN: Principal = { userId: null, username: 'local', isAdmin: true };
+
+/**
+ * Convert a database row to a User
+ */
+export function rowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    isAdmin: row.is_admin === 1,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * User directory backed by the users table, for AuthService
+ */
+export const databaseUserDirectory: UserDirectory = {
+  hasUsers: () => countUsers() > 0,
+  verifyCredentials: (username, password) => {
+    const row = getUserByUsername(username);
+    if (!row || !verifyPassword(password, row.password_hash)) {
+      return null;
+    }
+    return row.id;
+  },
+};
+
+/**
+ * Resolve the principal behind an auth session
+ * Returns null when the session belongs to a user that no longer exists.
+ */
+export function resolvePrincipal(
+  auth: AuthSession | null,
+  authEnabled: boolean
+): Principal | null {
+  if (!authEnabled) {
+    return ANONYMOUS_ADMIN;
+  }
+  if (!auth) {
+    return null;
+  }
+  if (auth.subject === PASSWORD_SUBJECT || auth.subject === API_TOKEN_SUBJECT) {
+    return { userId: null, username: auth.subject, isAdmin: true };
+  }
+
+  const row = getUserById(auth.subject);
+  if (!row) {
+    logger.warn({ subject: auth.subject }, 'Session refers to a deleted user');
+    return null;
+  }
+  return { userId: row.id, username: row.username, isAdmin: row.is_admin === 1 };
+}
+
+/**
+ * Get a principal's role in a project (null when not a member)
+ */
+export function getProjectRole(principal: Principal, projectId: string): ProjectRole | null {
+  if (principal.isAdmin) {
+    return ProjectRole.OWNER;
+  }
+  if (!principal.userId) {
+    return null;
+  }
+  const role = getProjectMemberRole(projectId, principal.userId);
+  return (role as ProjectRole | undefined) ?? null;
+}
+
+/**
+ * Whether a principal holds at least the required role in a project
+ */
+export function canAccessProject(
+  principal: Principal,
+  projectId: string,
+  required: ProjectRole = ProjectRole.VIEWER
+): boolean {
+  const role = getProjectRole(principal, projectId);
+  return role !== null && hasProjectRole(role, required);
+}
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the audit log (against an in-memory database)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuditResult } from '@masterdashboard/shared';
+import { initDatabase, closeDatabase, queryAuditLog } from '../persistence/database.js';
+import { recordAudit, rowToAuditEntry } from './audit-log.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const alice = { userId: 'usr_alice', username: 'alice', isAdmin: false };
+
+describe('audit log', () => {
+  beforeEach(async () => {
+    await initDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record and read back an entry', () => {
+    recordAudit({
+      event: 'file:write',
+      result: AuditResult.SUCCESS,
+      clientId: 'client-1',
+      principal: alice,
+      projectId: 'prj_1',
+      target: '/tmp/notes.md',
+    });
+
+    const { rows, total } = queryAuditLog({ limit: 10, offset: 0 });
+    const entry = rowToAuditEntry(rows[0]!);
+
+    expect(total).toBe(1);
+    expect(entry).toMatchObject({
+      clientId: 'client-1',
+      userId: 'usr_alice',
+      actor: 'alice',
+      projectId: 'prj_1',
+      event: 'file:write',
+      target: '/tmp/notes.md',
+      result: AuditResult.SUCCESS,
+    });
+  });
+
+  it('should filter and page newest first', () => {
+    for (let i = 0; i < 5; i++) {
+      recordAudit({
+        event: 'git:push',
+        result: AuditResult.SUCCESS,
+        projectId: 'prj_1',
+        target: `repo-${i}`,
+      });
+    }
+    recordAudit({ event: 'git:push', result: AuditResult.DENIED, projectId: 'prj_2' });
+
+    const page = queryAuditLog({ projectId: 'prj_1', limit: 2, offset: 1 });
+    expect(page.total).toBe(5);
+    expect(page.rows.map((r) => r.target)).toEqual(['repo-3', 'repo-2']);
+
+    const denied = queryAuditLog({ result: AuditResult.DENIED, limit: 10, offset: 0 });
+    expect(denied.rows.map((r) => r.project_id)).toEqual(['prj_2']);
+
+    const restricted = queryAuditLog({ projectIds: [], limit: 10, offset: 0 });
+    expect(restricted.total).toBe(0);
+  });
+
+  it('should truncate long detail strings', () => {
+    recordAudit({
+      event: 'database:query',
+      result: AuditResult.SUCCESS,
+      details: { query: 'x'.repeat(5000) },
+    });
+
+    const { rows } = queryAuditLog({ limit: 1, offset: 0 });
+    const query = rowToAuditEntry(rows[0]!).details?.query as string;
+    expect(query.length).toBeLessThan(5000);
+  });
+});
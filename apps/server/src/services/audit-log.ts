@@ -0,0 +1,80 @@
+/**
+ * Audit Log
+ *
+ * Records security-relevant actions to the audit_log table. Writes never
+ * throw: a failed audit write is logged and the action carries on.
+ */
+
+import { AuditResult, type AuditEntry } from '@masterdashboard/shared';
+import { insertAuditEntry, type AuditLogRow } from '../persistence/database.js';
+import { createChildLogger } from '../utils/logger.js';
+import type { Principal } from './access-control.js';
+
+const logger = createChildLogger('audit-log');
+
+/** Longest query text kept in an entry's details */
+const MAX_DETAIL_LENGTH = 2000;
+
+export interface AuditRecord {
+  /** Event or action name */
+  event: string;
+  result: AuditResult;
+  clientId?: string | null;
+  principal?: Principal | null;
+  projectId?: string | null;
+  target?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Truncate long string values so a single entry stays small
+ */
+function trimDetails(details: Record<string, unknown>): Record<string, unknown> {
+  const trimmed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(details)) {
+    trimmed[key] =
+      typeof value === 'string' && value.length > MAX_DETAIL_LENGTH
+        ? `${value.slice(0, MAX_DETAIL_LENGTH)}…`
+        : value;
+  }
+  return trimmed;
+}
+
+/**
+ * Write an entry to the audit log
+ */
+export function recordAudit(record: AuditRecord): void {
+  try {
+    insertAuditEntry({
+      timestamp: new Date().toISOString(),
+      client_id: record.clientId ?? null,
+      user_id: record.principal?.userId ?? null,
+      actor: record.principal?.username ?? null,
+      project_id: record.projectId ?? null,
+      event: record.event,
+      target: record.target ?? null,
+      result: record.result,
+      details: record.details ? JSON.stringify(trimDetails(record.details)) : null,
+    });
+  } catch (error) {
+    logger.error({ error, event: record.event }, 'Failed to write audit entry');
+  }
+}
+
+/**
+ * Convert a database row to an AuditEntry
+ */
+export function rowToAuditEntry(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    clientId: row.client_id,
+    userId: row.user_id,
+    actor: row.actor,
+    projectId: row.project_id,
+    event: row.event,
+    target: row.target,
+    result: row.result as AuditResult,
+    details: row.details ? (JSON.parse(row.details) as Record<string, unknown>) : undefined,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for AuthService and token helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AuthService,
+  API_TOKEN_SUBJECT,
+  PASSWORD_SUBJECT,
+  signSessionToken,
+  verifySessionToken,
+  extractBearerToken,
+  hashPassword,
+  verifyPassword,
+  type AuthSession,
+} from './auth-service.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const SECRET = 'test-secret-0123456789abcdef';
+
+function makeSession(overrides: Partial<AuthSession> = {}): AuthSession {
+  return {
+    tokenId: 'token-1',
+    subject: PASSWORD_SUBJECT,
+    issuedAt: 1000,
+    expiresAt: 10_000,
+    ...overrides,
+  };
+}
+
+describe('session tokens', () => {
+  it('should round-trip a signed session', () => {
+    const session = makeSession();
+    const token = signSessionToken(session, SECRET);
+
+    expect(verifySessionToken(token, SECRET, 5000)).toEqual(session);
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signSessionToken(makeSession(), SECRET);
+
+    expect(verifySessionToken(token, 'another-secret-0123456789', 5000)).toBeNull();
+  });
+
+  it('should reject tampered payloads', () => {
+    const token = signSessionToken(makeSession(), SECRET);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ jti: 'x', sub: 'admin', iat: 0, exp: 99_999 })
+    ).toString('base64url');
+
+    expect(verifySessionToken(`${forged}.${signature}`, SECRET, 5000)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signSessionToken(makeSession({ expiresAt: 2000 }), SECRET);
+
+    expect(verifySessionToken(token, SECRET, 2000)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifySessionToken('not-a-token', SECRET)).toBeNull();
+    expect(verifySessionToken('a.b.c', SECRET)).toBeNull();
+  });
+});
+
+describe('extractBearerToken', () => {
+  it('should extract the token from a bearer header', () => {
+    expect(extractBearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(extractBearerToken('bearer abc')).toBe('abc');
+  });
+
+  it('should return null for missing or other schemes', () => {
+    expect(extractBearerToken(undefined)).toBeNull();
+    expect(extractBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+  });
+});
+
+describe('password hashing', () => {
+  it('should verify the original password only', () => {
+    const hash = hashPassword('correct horse');
+
+    expect(hash.startsWith('scrypt$')).toBe(true);
+    expect(verifyPassword('correct horse', hash)).toBe(true);
+    expect(verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('should salt each hash', () => {
+    expect(hashPassword('same')).not.toBe(hashPassword('same'));
+  });
+
+  it('should reject malformed hashes', () => {
+    expect(verifyPassword('x', 'plaintext')).toBe(false);
+    expect(verifyPassword('x', 'scrypt$salt$')).toBe(false);
+  });
+});
+
+describe('AuthService', () => {
+  it('should be disabled without a password or API token', () => {
+    const service = new AuthService({ sessionTtlMs: 1000 });
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.login('anything')).toBeNull();
+  });
+
+  it('should issue a token for the correct password', () => {
+    const service = new AuthService({ password: 'hunter2', secret: SECRET, sessionTtlMs: 60_000 });
+
+    const result = service.login('hunter2');
+
+    expect(result).not.toBeNull();
+    expect(service.authenticate(result!.token)?.subject).toBe(PASSWORD_SUBJECT);
+  });
+
+  it('should reject an incorrect password', () => {
+    const service = new AuthService({ password: 'hunter2', secret: SECRET, sessionTtlMs: 60_000 });
+
+    expect(service.login('hunter3')).toBeNull();
+  });
+
+  it('should accept the static API token', () => {
+    const service = new AuthService({
+      apiToken: 'static-token-0123456789',
+      sessionTtlMs: 60_000,
+    });
+
+    expect(service.authenticate('static-token-0123456789')?.subject).toBe(API_TOKEN_SUBJECT);
+    expect(service.authenticate('static-token-wrong')).toBeNull();
+  });
+
+  it('should reject revoked tokens', () => {
+    const service = new AuthService({ password: 'hunter2', secret: SECRET, sessionTtlMs: 60_000 });
+    const result = service.login('hunter2')!;
+
+    service.revoke(result.session);
+
+    expect(service.authenticate(result.token)).toBeNull();
+  });
+
+  it('should log in named users through the user directory', () => {
+    const service = new AuthService({
+      secret: SECRET,
+      sessionTtlMs: 60_000,
+      users: {
+        hasUsers: () => true,
+        verifyCredentials: (username, password) =>
+          username === 'alice' && password === 'wonderland' ? 'usr_alice' : null,
+      },
+    });
+
+    expect(service.isEnabled()).toBe(true);
+    expect(service.login('wonderland', 'bob')).toBeNull();
+
+    const result = service.login('wonderland', 'alice');
+    expect(service.authenticate(result!.token)?.subject).toBe('usr_alice');
+  });
+});
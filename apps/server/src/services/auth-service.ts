@@ -0,0 +1,299 @@
+/**
+ * Auth Service
+ *
+ * Password/token authentication for the REST API and Socket.IO handshake.
+ * Issues stateless HMAC-signed session tokens so no session table is needed;
+ * logging out adds the token ID to an in-memory revocation list until expiry.
+ *
+ * Named user accounts are looked up through a UserDirectory so this module
+ * stays free of persistence; a user session's subject is the user ID.
+ */
+
+import crypto from 'crypto';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('auth-service');
+
+/** Subject used for sessions created through the dashboard password */
+export const PASSWORD_SUBJECT = 'admin';
+
+/** Subject used when the static AUTH_TOKEN is presented */
+export const API_TOKEN_SUBJECT = 'api-token';
+
+/** Prefix identifying scrypt password hashes */
+const SCRYPT_PREFIX = 'scrypt';
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Lookup for named user accounts
+ */
+export interface UserDirectory {
+  /** Whether any user accounts exist */
+  hasUsers: () => boolean;
+  /** Resolve a username/password pair to a user ID, or null */
+  verifyCredentials: (username: string, password: string) => string | null;
+}
+
+export interface AuthConfig {
+  /** Password accepted by the login endpoint */
+  password?: string;
+  /** Static bearer token for scripts and integrations */
+  apiToken?: string;
+  /** HMAC secret for signing session tokens (random per process if omitted) */
+  secret?: string;
+  /** Session token lifetime in milliseconds */
+  sessionTtlMs: number;
+  /** Named user accounts (optional) */
+  users?: UserDirectory;
+}
+
+export interface AuthSession {
+  /** Token ID, used for revocation */
+  tokenId: string;
+  /** Who the session belongs to */
+  subject: string;
+  /** Issue time (epoch ms) */
+  issuedAt: number;
+  /** Expiry time (epoch ms) */
+  expiresAt: number;
+}
+
+export interface LoginResult {
+  token: string;
+  session: AuthSession;
+}
+
+interface TokenPayload {
+  jti: string;
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Sign a session into a compact `payload.signature` token
+ */
+export function signSessionToken(session: AuthSession, secret: string): string {
+  const payload: TokenPayload = {
+    jti: session.tokenId,
+    sub: session.subject,
+    iat: session.issuedAt,
+    exp: session.expiresAt,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(encoded)
+    .digest('base64url');
+  return `${encoded}.${signature}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * Returns null for malformed, tampered or expired tokens
+ */
+export function verifySessionToken(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): AuthSession | null {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(encoded)
+    .digest('base64url');
+  if (!safeEqual(signature, expected)) {
+    return null;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as TokenPayload;
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof payload.jti !== 'string' ||
+    typeof payload.sub !== 'string' ||
+    typeof payload.exp !== 'number' ||
+    payload.exp <= now
+  ) {
+    return null;
+  }
+
+  return {
+    tokenId: payload.jti,
+    subject: payload.sub,
+    issuedAt: payload.iat,
+    expiresAt: payload.exp,
+  };
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function extractBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match?.[1] ?? null;
+}
+
+/**
+ * Hash a password with scrypt into a `scrypt$salt$hash` string
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('base64url');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('base64url');
+  return `${SCRYPT_PREFIX}$${salt}$${hash}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword()
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+  const [prefix, salt, hash] = stored.split('$');
+  if (prefix !== SCRYPT_PREFIX || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return expected.length > 0 && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Constant-time string comparison (hashes first so lengths may differ)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+export class AuthService {
+  private readonly config: AuthConfig;
+  private readonly secret: string;
+  /** Revoked token IDs mapped to their expiry, pruned lazily */
+  private revoked = new Map<string, number>();
+
+  constructor(config: AuthConfig) {
+    this.config = config;
+
+    if (config.secret) {
+      this.secret = config.secret;
+    } else {
+      this.secret = crypto.randomBytes(32).toString('hex');
+      if (this.isEnabled()) {
+        logger.warn('SESSION_SECRET not set, sessions will not survive a server restart');
+      }
+    }
+
+    logger.info(
+      { enabled: this.isEnabled(), password: !!config.password, apiToken: !!config.apiToken },
+      'Auth service initialized'
+    );
+  }
+
+  /**
+   * Whether authentication is required (a password, API token or user account exists)
+   */
+  isEnabled(): boolean {
+    return !!this.config.password || !!this.config.apiToken || this.hasUserAccounts();
+  }
+
+  /**
+   * Whether the password login flow is available
+   */
+  isPasswordLoginEnabled(): boolean {
+    return !!this.config.password || this.hasUserAccounts();
+  }
+
+  /**
+   * Whether named user accounts can log in
+   */
+  hasUserAccounts(): boolean {
+    return this.config.users?.hasUsers() ?? false;
+  }
+
+  /**
+   * Exchange credentials for a signed session token
+   * Without a username the shared dashboard password is checked.
+   */
+  login(password: string, username?: string): LoginResult | null {
+    let subject: string | null = null;
+
+    if (username) {
+      subject = this.config.users?.verifyCredentials(username, password) ?? null;
+    } else if (this.config.password && safeEqual(password, this.config.password)) {
+      subject = PASSWORD_SUBJECT;
+    }
+
+    if (!subject) {
+      logger.warn({ username }, 'Rejected login attempt');
+      return null;
+    }
+
+    const now = Date.now();
+    const session: AuthSession = {
+      tokenId: crypto.randomUUID(),
+      subject,
+      issuedAt: now,
+      expiresAt: now + this.config.sessionTtlMs,
+    };
+
+    logger.info({ tokenId: session.tokenId, subject }, 'Session issued');
+    return { token: signSessionToken(session, this.secret), session };
+  }
+
+  /**
+   * Resolve a presented token to a session
+   * Accepts either a signed session token or the static API token
+   */
+  authenticate(token: string | null | undefined): AuthSession | null {
+    if (!token) {
+      return null;
+    }
+
+    if (this.config.apiToken && safeEqual(token, this.config.apiToken)) {
+      return {
+        tokenId: API_TOKEN_SUBJECT,
+        subject: API_TOKEN_SUBJECT,
+        issuedAt: 0,
+        expiresAt: Number.MAX_SAFE_INTEGER,
+      };
+    }
+
+    const session = verifySessionToken(token, this.secret);
+    if (!session || this.isRevoked(session.tokenId)) {
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Revoke a session token (logout)
+   */
+  revoke(session: AuthSession): void {
+    if (session.subject === API_TOKEN_SUBJECT) {
+      return;
+    }
+    this.revoked.set(session.tokenId, session.expiresAt);
+    logger.info({ tokenId: session.tokenId }, 'Session revoked');
+  }
+
+  private isRevoked(tokenId: string): boolean {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.revoked) {
+      if (expiresAt <= now) {
+        this.revoked.delete(id);
+      }
+    }
+    return this.revoked.has(tokenId);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for ClaudeHookService
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShellType, TerminalActivityStatus } from '@masterdashboard/shared';
+import { StatusDetector } from '../managers/status-detector.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import { ClaudeHookService } from './claude-hook-service.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/**
+ * Minimal SessionManager stand-in that knows one terminal
+ */
+function createSessionManager(): SessionManager {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    getTerminalSession: (sessionId: string) =>
+      sessionId === 'term_1' ? { id: 'term_1', projectId: 'prj_1' } : undefined,
+  }) as unknown as SessionManager;
+}
+
+describe('ClaudeHookService', () => {
+  let detector: StatusDetector;
+  let sessionManager: SessionManager;
+  let service: ClaudeHookService;
+
+  beforeEach(() => {
+    detector = new StatusDetector();
+    detector.setSessionShell('term_1', ShellType.CLAUDE_CODE);
+    sessionManager = createSessionManager();
+    service = new ClaudeHookService(detector, sessionManager);
+  });
+
+  afterEach(() => {
+    service.destroy();
+    detector.destroy();
+  });
+
+  it('should set status from hook events with the notification text', () => {
+    const changes: unknown[] = [];
+    detector.on('status:change', (event) => changes.push(event));
+
+    service.handle('term_1', { hook_event_name: 'PreToolUse', tool_name: 'Bash' });
+    expect(detector.getStatus('term_1')).toBe(TerminalActivityStatus.WORKING);
+
+    service.handle('term_1', {
+      hook_event_name: 'Notification',
+      message: 'Claude needs your permission to use Bash',
+    });
+    expect(detector.getStatus('term_1')).toBe(TerminalActivityStatus.WAITING);
+    expect(changes[changes.length - 1]).toMatchObject({
+      newStatus: TerminalActivityStatus.WAITING,
+      hookEvent: 'Notification',
+      message: 'Claude needs your permission to use Bash',
+    });
+  });
+
+  it('should take priority over regex matches once a hook has reported', () => {
+    service.handle('term_1', { hook_event_name: 'UserPromptSubmit' });
+
+    // A line ending in "?" would otherwise count as waiting
+    expect(detector.detect('term_1', 'Should this be a question?')).toBeNull();
+    expect(detector.getStatus('term_1')).toBe(TerminalActivityStatus.WORKING);
+  });
+
+  it('should hand the status back to output detection when the session ends', () => {
+    service.handle('term_1', { hook_event_name: 'UserPromptSubmit' });
+    service.handle('term_1', { hook_event_name: 'SessionEnd' });
+
+    expect(detector.isHookDriven('term_1')).toBe(false);
+    expect(detector.getStatus('term_1')).toBe(TerminalActivityStatus.IDLE);
+    expect(detector.detect('term_1', '✻ Thinking...')).toBe(TerminalActivityStatus.WORKING);
+  });
+
+  it('should keep a per-session event log and emit each event', () => {
+    const listener = vi.fn();
+    service.on('event', listener);
+
+    service.handle('term_1', { hook_event_name: 'PreToolUse', tool_name: 'Edit' });
+    service.handle('term_1', { hook_event_name: 'SubagentStop' });
+
+    const events = service.getEvents('term_1');
+    expect(events.map((e) => [e.event, e.status])).toEqual([
+      ['PreToolUse', TerminalActivityStatus.WORKING],
+      ['SubagentStop', null],
+    ]);
+    expect(events[0]?.toolName).toBe('Edit');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    sessionManager.emit('session:terminated', { sessionId: 'term_1' });
+    expect(service.getEvents('term_1')).toEqual([]);
+  });
+
+  it('should reject events for unknown sessions', () => {
+    expect(() => service.handle('term_missing', { hook_event_name: 'Stop' })).toThrow(/not found/i);
+    expect(detector.isHookDriven('term_missing')).toBe(false);
+  });
+});
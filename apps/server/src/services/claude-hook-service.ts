@@ -0,0 +1,124 @@
+/**
+ * Claude Code Hook Service
+ *
+ * Turns Claude Code hook events into terminal status. Every dashboard
+ * terminal carries its session ID in SESSION_ID_ENV_VAR, so a hook script
+ * can post the event JSON together with the terminal it ran in. The first
+ * hook event for a session makes hooks the authority for its status; regex
+ * detection stops applying to it.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  TerminalActivityStatus,
+  type ClaudeHookEvent,
+  type ClaudeHookEventName,
+  type ClaudeHookPayload,
+} from '@masterdashboard/shared';
+import type { StatusDetector } from '../managers/status-detector.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import { SessionNotFoundError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('claude-hook-service');
+
+/** Events kept in each session's log */
+const MAX_EVENTS_PER_SESSION = 200;
+
+/**
+ * Status each hook event puts the session in; events not listed are only logged
+ */
+const HOOK_EVENT_STATUS: Partial<Record<ClaudeHookEventName, TerminalActivityStatus>> = {
+  SessionStart: TerminalActivityStatus.IDLE,
+  UserPromptSubmit: TerminalActivityStatus.WORKING,
+  PreToolUse: TerminalActivityStatus.WORKING,
+  PostToolUse: TerminalActivityStatus.WORKING,
+  PreCompact: TerminalActivityStatus.WORKING,
+  // Permission requests and "waiting for your input" reminders
+  Notification: TerminalActivityStatus.WAITING,
+  // Claude finished its turn and is waiting for the next prompt
+  Stop: TerminalActivityStatus.WAITING,
+  SessionEnd: TerminalActivityStatus.IDLE,
+};
+
+/**
+ * Claude Hook Service events
+ */
+export interface ClaudeHookServiceEvents {
+  event: ClaudeHookEvent;
+}
+
+export class ClaudeHookService extends EventEmitter {
+  private events = new Map<string, ClaudeHookEvent[]>();
+
+  constructor(
+    private readonly statusDetector: StatusDetector,
+    private readonly sessionManager: SessionManager
+  ) {
+    super();
+
+    this.sessionManager.on('session:terminated', ({ sessionId }) => {
+      this.events.delete(sessionId);
+    });
+  }
+
+  /**
+   * Apply a hook event to a terminal session and record it
+   */
+  handle(sessionId: string, payload: ClaudeHookPayload): ClaudeHookEvent {
+    if (!this.sessionManager.getTerminalSession(sessionId)) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const status = HOOK_EVENT_STATUS[payload.hook_event_name] ?? null;
+    const event: ClaudeHookEvent = {
+      sessionId,
+      event: payload.hook_event_name,
+      ...(payload.tool_name && { toolName: payload.tool_name }),
+      ...(payload.message && { message: payload.message }),
+      status,
+      timestamp: new Date().toISOString(),
+    };
+
+    const ended = payload.hook_event_name === 'SessionEnd';
+    if (!ended) {
+      this.statusDetector.setHookDriven(sessionId);
+    }
+    if (status) {
+      this.statusDetector.setStatus(sessionId, status, {
+        hookEvent: event.event,
+        message: event.message,
+      });
+    }
+    // Claude Code has exited; the shell's output drives the status again
+    if (ended) {
+      this.statusDetector.clearHookDriven(sessionId);
+    }
+
+    const log = this.events.get(sessionId) ?? [];
+    log.push(event);
+    if (log.length > MAX_EVENTS_PER_SESSION) {
+      log.splice(0, log.length - MAX_EVENTS_PER_SESSION);
+    }
+    this.events.set(sessionId, log);
+
+    logger.debug({ sessionId, event: event.event, status }, 'Claude Code hook event');
+    this.emit('event', event);
+    return event;
+  }
+
+  /**
+   * Get a session's recorded hook events, oldest first
+   */
+  getEvents(sessionId: string): ClaudeHookEvent[] {
+    return [...(this.events.get(sessionId) ?? [])];
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.events.clear();
+    this.removeAllListeners();
+  }
+}
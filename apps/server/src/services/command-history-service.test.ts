@@ -0,0 +1,123 @@
+/**
+ * Unit tests for command history (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CommandHistoryEntry, ShellCommand } from '@masterdashboard/shared';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import type { ShellCommandEventInternal } from '../managers/types.js';
+import { CommandHistoryService } from './command-history-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** Seconds after 09:00 as an ISO timestamp */
+function at(seconds: number): string {
+  return new Date(Date.UTC(2026, 0, 5, 9, 0) + seconds * 1000).toISOString();
+}
+
+function command(
+  sessionManager: SessionManager,
+  sessionId: string,
+  shellCommand: ShellCommand,
+  line: number
+): void {
+  const event: ShellCommandEventInternal = {
+    sessionId,
+    projectId: 'prj_1',
+    command: shellCommand,
+    cwd: '/srv/app',
+    line,
+  };
+  sessionManager.emit('terminal:command', event);
+}
+
+describe('CommandHistoryService', () => {
+  let sessionManager: SessionManager;
+  let service: CommandHistoryService;
+  let emitted: CommandHistoryEntry[];
+
+  beforeEach(async () => {
+    await initDatabase();
+    sessionManager = new EventEmitter() as unknown as SessionManager;
+    const bufferManager = {
+      getOutputLineCount: () => 120,
+    } as unknown as BufferManager;
+    service = new CommandHistoryService(sessionManager, bufferManager);
+    emitted = [];
+    service.on('command', (entry: CommandHistoryEntry) => emitted.push(entry));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record a command with its exit code, duration and output lines', () => {
+    command(sessionManager, 'term_1', { command: 'make test', startedAt: at(0) }, 10);
+    command(
+      sessionManager,
+      'term_1',
+      { command: 'make test', startedAt: at(0), finishedAt: at(12), exitCode: 2 },
+      25
+    );
+
+    const [entry] = service.list({ projectId: 'prj_1', sessionId: 'term_1' });
+    expect(entry).toMatchObject({
+      command: 'make test',
+      cwd: '/srv/app',
+      startedAt: at(0),
+      finishedAt: at(12),
+      exitCode: 2,
+      durationMs: 12_000,
+      outputStartLine: 10,
+      outputEndLine: 25,
+    });
+    expect(emitted.map((e) => e.finishedAt)).toEqual([null, at(12)]);
+  });
+
+  it('should filter by session and failure, newest first', () => {
+    command(sessionManager, 'term_1', { command: 'ls', startedAt: at(0) }, 1);
+    command(sessionManager, 'term_1', { command: 'ls', startedAt: at(0), finishedAt: at(1), exitCode: 0 }, 3);
+    command(sessionManager, 'term_2', { command: 'false', startedAt: at(5) }, 1);
+    command(sessionManager, 'term_2', { command: 'false', startedAt: at(5), finishedAt: at(6), exitCode: 1 }, 1);
+
+    expect(service.list({ projectId: 'prj_1' }).map((e) => e.command)).toEqual(['false', 'ls']);
+    expect(service.list({ projectId: 'prj_1', failed: true }).map((e) => e.command)).toEqual(['false']);
+    expect(service.list({ projectId: 'prj_1', sessionId: 'term_1' })).toHaveLength(1);
+    expect(service.list({ projectId: 'prj_other' })).toEqual([]);
+  });
+
+  it('should finish a running command when its session ends', () => {
+    command(sessionManager, 'term_1', { command: 'sleep 100', startedAt: at(0) }, 4);
+    sessionManager.emit('session:terminated', { sessionId: 'term_1' });
+
+    const [entry] = service.list({ projectId: 'prj_1' });
+    expect(entry?.finishedAt).not.toBeNull();
+    expect(entry?.exitCode).toBeNull();
+    expect(entry?.outputEndLine).toBeNull();
+  });
+
+  it('should locate the command line in the scrollback', () => {
+    command(sessionManager, 'term_1', { command: 'git status', startedAt: at(0) }, 42);
+    const [entry] = service.list({ projectId: 'prj_1' });
+
+    expect(service.locate(entry!)).toEqual({
+      result: { lineNumber: 41, lineContent: 'git status', matchStart: 0, matchEnd: 0 },
+      totalLines: 121,
+    });
+  });
+});
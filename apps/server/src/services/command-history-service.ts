@@ -0,0 +1,155 @@
+/**
+ * Command History Service
+ *
+ * Records every command run in a terminal, as reported by shell
+ * integration, with its exit code, run time, directory and where its
+ * output is in the session's scrollback.
+ */
+
+import { EventEmitter } from 'events';
+import type { CommandHistoryEntry, CommandOutputLocation } from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import type { ShellCommandEventInternal } from '../managers/types.js';
+import {
+  insertCommandHistoryEntry,
+  finishCommandHistoryEntry,
+  finishOpenCommandHistoryEntries,
+  getCommandHistoryEntryById,
+  queryCommandHistory,
+  type CommandHistoryFilter,
+  type CommandHistoryRow,
+} from '../persistence/database.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('command-history-service');
+
+/**
+ * Convert a database row to a CommandHistoryEntry
+ */
+export function rowToCommandHistoryEntry(row: CommandHistoryRow): CommandHistoryEntry {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    projectId: row.project_id,
+    command: row.command,
+    cwd: row.cwd,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    exitCode: row.exit_code,
+    durationMs: row.finished_at
+      ? new Date(row.finished_at).getTime() - new Date(row.started_at).getTime()
+      : null,
+    outputStartLine: row.output_start_line,
+    outputEndLine: row.output_end_line,
+  };
+}
+
+export class CommandHistoryService extends EventEmitter {
+  /** Entry of the command running in each session */
+  private running = new Map<string, number>();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly bufferManager: BufferManager
+  ) {
+    super();
+
+    this.sessionManager.on('terminal:command', (event: ShellCommandEventInternal) => {
+      this.record(event);
+    });
+
+    this.sessionManager.on('session:terminated', ({ sessionId }: { sessionId: string }) => {
+      this.finishSession(sessionId);
+    });
+  }
+
+  /**
+   * List commands, newest first
+   */
+  list(filter: CommandHistoryFilter): CommandHistoryEntry[] {
+    return queryCommandHistory(filter).map(rowToCommandHistoryEntry);
+  }
+
+  /**
+   * Get a command by ID
+   */
+  get(id: number): CommandHistoryEntry | undefined {
+    const row = getCommandHistoryEntryById(id);
+    return row ? rowToCommandHistoryEntry(row) : undefined;
+  }
+
+  /**
+   * Where a command's line is in its session's scrollback right now
+   */
+  locate(entry: CommandHistoryEntry): CommandOutputLocation {
+    return {
+      // The command line itself is the line before its output
+      result: {
+        lineNumber: Math.max(0, entry.outputStartLine - 1),
+        lineContent: entry.command,
+        matchStart: 0,
+        matchEnd: 0,
+      },
+      totalLines: this.bufferManager.getOutputLineCount(entry.sessionId) + 1,
+    };
+  }
+
+  private record(event: ShellCommandEventInternal): void {
+    try {
+      if (event.command.finishedAt) {
+        this.finish(event);
+      } else {
+        this.start(event);
+      }
+    } catch (error) {
+      // A failed write is logged and does not affect the session
+      logger.error({ error, sessionId: event.sessionId }, 'Failed to record command');
+    }
+  }
+
+  private start(event: ShellCommandEventInternal): void {
+    const id = insertCommandHistoryEntry({
+      session_id: event.sessionId,
+      project_id: event.projectId,
+      command: event.command.command,
+      cwd: event.cwd,
+      started_at: event.command.startedAt,
+      output_start_line: event.line,
+    });
+    this.running.set(event.sessionId, id);
+    this.emitEntry(id);
+  }
+
+  private finish(event: ShellCommandEventInternal): void {
+    const id = this.running.get(event.sessionId);
+    if (id === undefined) {
+      return;
+    }
+
+    this.running.delete(event.sessionId);
+    finishCommandHistoryEntry(
+      id,
+      event.command.finishedAt!,
+      event.command.exitCode ?? null,
+      event.line
+    );
+    this.emitEntry(id);
+  }
+
+  private finishSession(sessionId: string): void {
+    this.running.delete(sessionId);
+    try {
+      finishOpenCommandHistoryEntries(sessionId, new Date().toISOString());
+    } catch (error) {
+      logger.error({ error, sessionId }, 'Failed to finish commands of ended session');
+    }
+  }
+
+  private emitEntry(id: number): void {
+    const entry = this.get(id);
+    if (entry) {
+      this.emit('command', entry);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for notification rules (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ShellType,
+  TerminalActivityStatus,
+  type NotificationRuleInput,
+  type StatusNotification,
+} from '@masterdashboard/shared';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  NotificationService,
+  isWithinQuietHours,
+  resolveNotificationRule,
+} from './notification-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const { WORKING, WAITING, ERROR } = TerminalActivityStatus;
+
+/**
+ * Minimal SessionManager stand-in with one Claude Code terminal
+ */
+function createSessionManager(): SessionManager {
+  const emitter = new EventEmitter();
+  const terminal = { id: 'term_1', projectId: 'prj_1', shell: ShellType.CLAUDE_CODE, title: 'agent' };
+  return Object.assign(emitter, {
+    getSession: (sessionId: string) => (sessionId === terminal.id ? terminal : undefined),
+    getTerminalSession: (sessionId: string) => (sessionId === terminal.id ? terminal : undefined),
+  }) as unknown as SessionManager;
+}
+
+function rule(overrides: Partial<NotificationRuleInput> = {}): NotificationRuleInput {
+  return {
+    id: 'rule_project',
+    projectId: 'prj_1',
+    scope: 'project',
+    target: null,
+    triggers: ['waiting'],
+    minDurationMs: 0,
+    quietHours: null,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('isWithinQuietHours', () => {
+  const at = (time: string) => new Date(`2026-01-05T${time}:00`);
+
+  it('should match a same-day window', () => {
+    const quiet = { start: '12:00', end: '13:30' };
+    expect(isWithinQuietHours(quiet, at('12:45'))).toBe(true);
+    expect(isWithinQuietHours(quiet, at('13:30'))).toBe(false);
+    expect(isWithinQuietHours(null, at('12:45'))).toBe(false);
+  });
+
+  it('should match a window that runs past midnight', () => {
+    const quiet = { start: '22:00', end: '07:00' };
+    expect(isWithinQuietHours(quiet, at('23:15'))).toBe(true);
+    expect(isWithinQuietHours(quiet, at('06:59'))).toBe(true);
+    expect(isWithinQuietHours(quiet, at('07:00'))).toBe(false);
+  });
+});
+
+describe('resolveNotificationRule', () => {
+  it('should prefer session over shell over project rules', () => {
+    const now = new Date().toISOString();
+    const rules = [
+      { ...rule(), createdAt: now, updatedAt: now },
+      { ...rule({ id: 'rule_shell', scope: 'shell', target: 'claude' }), createdAt: now, updatedAt: now },
+      { ...rule({ id: 'rule_session', scope: 'session', target: 'term_1', enabled: false }), createdAt: now, updatedAt: now },
+    ];
+
+    expect(resolveNotificationRule(rules, 'term_1', 'claude')?.id).toBe('rule_shell');
+    expect(resolveNotificationRule(rules, 'term_1', 'bash')?.id).toBe('rule_project');
+  });
+});
+
+describe('NotificationService', () => {
+  let sessionManager: SessionManager;
+  let service: NotificationService;
+  let notifications: StatusNotification[];
+
+  const change = (previousStatus: TerminalActivityStatus, newStatus: TerminalActivityStatus) =>
+    sessionManager.emit('status:change', {
+      sessionId: 'term_1',
+      previousStatus,
+      newStatus,
+      promptLines: ['Do you want to proceed?', ''],
+      timestamp: new Date(),
+    });
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await initDatabase();
+    sessionManager = createSessionManager();
+    service = new NotificationService(sessionManager);
+    notifications = [];
+    service.on('notification', (notification: StatusNotification) => notifications.push(notification));
+  });
+
+  afterEach(() => {
+    service.destroy();
+    closeDatabase();
+    vi.useRealTimers();
+  });
+
+  it('should store and list rules per project', () => {
+    service.save(rule({ triggers: ['waiting', 'waiting', 'exited'] }));
+
+    expect(service.list('prj_1').map((r) => r.triggers)).toEqual([['waiting', 'exited']]);
+    expect(service.list('prj_2')).toEqual([]);
+    expect(() => service.save(rule({ projectId: 'prj_2' }))).toThrow('another project');
+
+    expect(service.remove('rule_project')).toBe(true);
+    expect(service.remove('rule_project')).toBe(false);
+  });
+
+  it('should only notify once a status has held for the minimum duration', () => {
+    service.save(rule({ minDurationMs: 3000 }));
+
+    change(WORKING, WAITING);
+    vi.advanceTimersByTime(2000);
+    change(WAITING, WORKING);
+    vi.advanceTimersByTime(5000);
+    expect(notifications).toHaveLength(0);
+
+    change(WORKING, WAITING);
+    vi.advanceTimersByTime(3000);
+    expect(notifications).toEqual([
+      expect.objectContaining({
+        ruleId: 'rule_project',
+        trigger: 'waiting',
+        title: 'agent is waiting for input',
+        body: 'Do you want to proceed?',
+      }),
+    ]);
+  });
+
+  it('should skip triggers the rule does not include and fall back to the default rule', () => {
+    change(WORKING, ERROR);
+    vi.advanceTimersByTime(5000);
+    expect(notifications.map((n) => [n.ruleId, n.trigger])).toEqual([[null, 'error']]);
+
+    service.save(rule({ triggers: ['waiting'] }));
+    change(WORKING, ERROR);
+    vi.advanceTimersByTime(5000);
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('should stay silent during quiet hours', () => {
+    vi.setSystemTime(new Date('2026-01-05T23:00:00'));
+    service.save(rule({ quietHours: { start: '22:00', end: '07:00' } }));
+
+    change(WORKING, WAITING);
+    vi.advanceTimersByTime(1000);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should notify immediately when a process exits on its own', () => {
+    service.save(rule({ triggers: ['exited'], minDurationMs: 10_000 }));
+
+    sessionManager.emit('session:terminated', { sessionId: 'term_1' });
+    sessionManager.emit('session:terminated', { sessionId: 'term_1', exitCode: 1 });
+
+    expect(notifications.map((n) => [n.trigger, n.body])).toEqual([['exited', 'Exited with code 1']]);
+  });
+});
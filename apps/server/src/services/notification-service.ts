@@ -0,0 +1,278 @@
+/**
+ * Notification Service
+ *
+ * Stores per-project notification rules and evaluates them against terminal
+ * status changes and exits. A status must hold for the rule's minimum
+ * duration before it notifies, and nothing is sent during quiet hours.
+ * Notifications are emitted as 'notification' events for the WebSocket
+ * layer to broadcast.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  TerminalActivityStatus,
+  DEFAULT_NOTIFICATION_RULE,
+  type NotificationRule,
+  type NotificationRuleInput,
+  type NotificationRuleScope,
+  type NotificationTrigger,
+  type QuietHours,
+  type StatusNotification,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { StatusChangeEventInternal } from '../managers/types.js';
+import {
+  upsertNotificationRule,
+  getNotificationRule,
+  getNotificationRulesByProject,
+  deleteNotificationRule,
+  type NotificationRuleRow,
+} from '../persistence/database.js';
+import { ValidationError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('notification-service');
+
+const STATUS_TRIGGERS: Partial<Record<TerminalActivityStatus, NotificationTrigger>> = {
+  [TerminalActivityStatus.WAITING]: 'waiting',
+  [TerminalActivityStatus.ERROR]: 'error',
+};
+
+/** Rule precedence; higher wins */
+const SCOPE_RANK: Record<NotificationRuleScope, number> = {
+  project: 0,
+  shell: 1,
+  session: 2,
+};
+
+type EffectiveRule = Pick<NotificationRule, 'triggers' | 'minDurationMs' | 'quietHours'> & {
+  id: string | null;
+};
+
+/**
+ * Convert a database row to a NotificationRule
+ */
+export function rowToNotificationRule(row: NotificationRuleRow): NotificationRule {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    scope: row.scope as NotificationRuleScope,
+    target: row.target,
+    triggers: JSON.parse(row.triggers) as NotificationTrigger[],
+    minDurationMs: row.min_duration_ms,
+    quietHours:
+      row.quiet_start && row.quiet_end ? { start: row.quiet_start, end: row.quiet_end } : null,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours! * 60 + minutes!;
+}
+
+/**
+ * Whether a time falls inside quiet hours (server-local time)
+ */
+export function isWithinQuietHours(quietHours: QuietHours | null, date: Date): boolean {
+  if (!quietHours) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Pick the most specific enabled rule that applies to a session
+ */
+export function resolveNotificationRule(
+  rules: NotificationRule[],
+  sessionId: string,
+  shell: string | undefined
+): NotificationRule | undefined {
+  return rules
+    .filter(
+      (rule) =>
+        rule.enabled &&
+        (rule.scope === 'project' ||
+          (rule.scope === 'shell' && rule.target === shell) ||
+          (rule.scope === 'session' && rule.target === sessionId))
+    )
+    .sort((a, b) => SCOPE_RANK[b.scope] - SCOPE_RANK[a.scope])[0];
+}
+
+export class NotificationService extends EventEmitter {
+  /** Notifications waiting out their rule's minimum duration */
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    super();
+
+    this.sessionManager.on('status:change', (event: StatusChangeEventInternal) => {
+      this.handleStatusChange(event);
+    });
+
+    this.sessionManager.on(
+      'session:terminated',
+      ({ sessionId, exitCode }: { sessionId: string; exitCode?: number }) => {
+        this.cancelPending(sessionId);
+        // Only processes that exited on their own; a user closing a terminal knows about it
+        if (exitCode !== undefined) {
+          this.evaluate(sessionId, 'exited', `Exited with code ${exitCode}`);
+        }
+      }
+    );
+  }
+
+  /**
+   * List a project's rules
+   */
+  list(projectId: string): NotificationRule[] {
+    return getNotificationRulesByProject(projectId).map(rowToNotificationRule);
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  get(ruleId: string): NotificationRule | undefined {
+    const row = getNotificationRule(ruleId);
+    return row ? rowToNotificationRule(row) : undefined;
+  }
+
+  /**
+   * Add or replace a rule
+   */
+  save(input: NotificationRuleInput): NotificationRule {
+    const existing = getNotificationRule(input.id);
+    if (existing && existing.project_id !== input.projectId) {
+      throw new ValidationError('Notification rule belongs to another project', {
+        ruleId: input.id,
+      });
+    }
+
+    const now = new Date().toISOString();
+    upsertNotificationRule({
+      id: input.id,
+      project_id: input.projectId,
+      scope: input.scope,
+      target: input.scope === 'project' ? null : input.target,
+      triggers: JSON.stringify(Array.from(new Set(input.triggers))),
+      min_duration_ms: input.minDurationMs,
+      quiet_start: input.quietHours?.start ?? null,
+      quiet_end: input.quietHours?.end ?? null,
+      enabled: input.enabled ? 1 : 0,
+      created_at: now,
+      updated_at: now,
+    });
+
+    logger.info({ ruleId: input.id, projectId: input.projectId }, 'Notification rule saved');
+    return this.get(input.id)!;
+  }
+
+  /**
+   * Remove a rule
+   * Returns false if it did not exist.
+   */
+  remove(ruleId: string): boolean {
+    const removed = deleteNotificationRule(ruleId);
+    if (removed) {
+      logger.info({ ruleId }, 'Notification rule removed');
+    }
+    return removed;
+  }
+
+  /**
+   * Cancel pending notifications
+   */
+  destroy(): void {
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  private handleStatusChange(event: StatusChangeEventInternal): void {
+    // Any change means the previous status did not hold long enough
+    this.cancelPending(event.sessionId);
+
+    const trigger = STATUS_TRIGGERS[event.newStatus];
+    if (!trigger) return;
+
+    const detail =
+      event.message ??
+      [...(event.promptLines ?? [])].reverse().find((line) => line.trim()) ??
+      event.matchedPattern;
+    this.evaluate(event.sessionId, trigger, detail);
+  }
+
+  private evaluate(sessionId: string, trigger: NotificationTrigger, detail?: string): void {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return;
+
+    const shell = this.sessionManager.getTerminalSession(sessionId)?.shell;
+    let rule: EffectiveRule = { id: null, ...DEFAULT_NOTIFICATION_RULE };
+    try {
+      rule = resolveNotificationRule(this.list(session.projectId), sessionId, shell) ?? rule;
+    } catch (error) {
+      logger.error({ error, sessionId }, 'Failed to load notification rules; using the default');
+    }
+
+    if (!rule.triggers.includes(trigger)) return;
+
+    const notify = () => {
+      this.pending.delete(sessionId);
+      if (isWithinQuietHours(rule.quietHours, new Date())) {
+        logger.debug({ sessionId, trigger, ruleId: rule.id }, 'Notification suppressed by quiet hours');
+        return;
+      }
+
+      const notification: StatusNotification = {
+        ruleId: rule.id,
+        projectId: session.projectId,
+        sessionId,
+        shell,
+        trigger,
+        title: this.getTitle(sessionId, trigger),
+        body: detail?.trim() ?? '',
+        timestamp: new Date().toISOString(),
+      };
+      this.emit('notification', notification);
+    };
+
+    if (trigger === 'exited' || rule.minDurationMs === 0) {
+      notify();
+      return;
+    }
+
+    const timer = setTimeout(notify, rule.minDurationMs);
+    timer.unref();
+    this.pending.set(sessionId, timer);
+  }
+
+  private getTitle(sessionId: string, trigger: NotificationTrigger): string {
+    const terminal = this.sessionManager.getTerminalSession(sessionId);
+    const name = terminal?.title ?? terminal?.shell ?? 'Terminal';
+
+    switch (trigger) {
+      case 'waiting':
+        return `${name} is waiting for input`;
+      case 'error':
+        return `${name} hit an error`;
+      case 'exited':
+        return `${name} exited`;
+    }
+  }
+
+  private cancelPending(sessionId: string): void {
+    const timer = this.pending.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pending.delete(sessionId);
+    }
+  }
+}
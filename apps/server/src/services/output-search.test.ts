@@ -0,0 +1,118 @@
+/**
+ * Unit tests for project-wide output search
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionStatus, SessionType } from '@masterdashboard/shared';
+import { BufferManager } from '../managers/buffer-manager.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { SSHManager } from '../managers/ssh-manager.js';
+import { searchProjectOutput, type OutputSearchSources } from './output-search.js';
+
+vi.mock('../persistence/database.js', () => ({
+  insertOrUpdateBuffer: vi.fn(),
+  getBufferBySessionId: vi.fn(),
+  deleteBuffer: vi.fn(),
+  sessionExists: vi.fn(),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const terminals = [
+  { id: 'term_build', type: SessionType.TERMINAL, status: SessionStatus.ACTIVE, projectId: 'prj_1', shell: 'zsh', title: 'build' },
+  { id: 'term_server', type: SessionType.TERMINAL, status: SessionStatus.ACTIVE, projectId: 'prj_1', shell: 'bash' },
+  { id: 'term_dead', type: SessionType.TERMINAL, status: SessionStatus.TERMINATED, projectId: 'prj_1', shell: 'zsh' },
+];
+
+const sshSessions = [
+  { id: 'ssh_prod', projectId: 'prj_1', username: 'deploy', host: 'prod' },
+  { id: 'ssh_other', projectId: 'prj_2', username: 'deploy', host: 'staging' },
+];
+
+function query(text: string, overrides: Record<string, unknown> = {}) {
+  return {
+    projectId: 'prj_1',
+    query: text,
+    regex: false,
+    caseSensitive: false,
+    direction: 'backward' as const,
+    maxResults: 20,
+    contextLines: 1,
+    ...overrides,
+  };
+}
+
+describe('searchProjectOutput', () => {
+  let bufferManager: BufferManager;
+  let sources: OutputSearchSources;
+
+  beforeEach(() => {
+    bufferManager = new BufferManager({ persistToDisk: false });
+    for (const id of ['term_build', 'term_server', 'term_dead', 'ssh_prod', 'ssh_other']) {
+      bufferManager.createBuffer(id);
+    }
+    bufferManager.appendOutput('term_build', 'compiling\r\nerror TS2304: oops\r\ndone\r\n');
+    bufferManager.appendOutput('term_server', 'listening on http://localhost:3000\r\nerror: EADDRINUSE\r\nerror: retry\r\n');
+    bufferManager.appendOutput('term_dead', 'error: stale\r\n');
+    bufferManager.appendOutput('ssh_prod', 'error: disk full\r\n');
+    bufferManager.appendOutput('ssh_other', 'error: elsewhere\r\n');
+
+    sources = {
+      bufferManager,
+      sessionManager: {
+        getSessionsByProject: (projectId: string) =>
+          terminals.filter((session) => session.projectId === projectId),
+      } as unknown as SessionManager,
+      sshManager: {
+        getRunningSessionIds: () => sshSessions.map((session) => session.id),
+        getSession: (id: string) => sshSessions.find((session) => session.id === id),
+      } as unknown as SSHManager,
+    };
+  });
+
+  afterEach(() => {
+    bufferManager.destroy();
+  });
+
+  it('should search live terminal and SSH sessions in the project', () => {
+    const matches = searchProjectOutput(sources, query('error'));
+
+    expect(matches.map((session) => session.sessionId)).toEqual(['term_server', 'term_build', 'ssh_prod']);
+    expect(matches.map((session) => session.title)).toEqual(['bash', 'build', 'deploy@prod']);
+    expect(matches[2]!.sessionType).toBe(SessionType.SSH);
+  });
+
+  it('should include context lines around each match', () => {
+    const [build] = searchProjectOutput(sources, query('TS2304'));
+
+    expect(build!.results[0]).toMatchObject({
+      lineContent: 'error TS2304: oops',
+      before: ['compiling'],
+      after: ['done'],
+    });
+  });
+
+  it('should leave out sessions without matches', () => {
+    expect(searchProjectOutput(sources, query('localhost:\\d+', { regex: true }))).toHaveLength(1);
+    expect(searchProjectOutput(sources, query('nothing here'))).toEqual([]);
+  });
+
+  it('should work before the SSH manager is available', () => {
+    const matches = searchProjectOutput({ ...sources, sshManager: undefined }, query('error'));
+    expect(matches.every((session) => session.sessionType === SessionType.TERMINAL)).toBe(true);
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() => searchProjectOutput(sources, query('(unclosed', { regex: true }))).toThrow(
+      /Invalid regular expression/
+    );
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Output Search
+ *
+ * Searches the scrollback of every live terminal and SSH session in a
+ * project, so output can be found without knowing which session printed it.
+ */
+
+import {
+  SessionStatus,
+  SessionType,
+  type SessionOutputMatches,
+  type TerminalSession,
+  type ValidatedProjectOutputSearchQuery,
+} from '@masterdashboard/shared';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import { toBufferSearchOptions } from '../managers/buffer-manager.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { SSHManager } from '../managers/ssh-manager.js';
+
+export interface OutputSearchSources {
+  sessionManager: SessionManager;
+  sshManager: SSHManager | undefined;
+  bufferManager: BufferManager;
+}
+
+interface SearchTarget {
+  sessionId: string;
+  sessionType: SessionType;
+  title: string;
+}
+
+/**
+ * List the sessions in a project whose output can be searched
+ */
+function getSearchTargets(sources: OutputSearchSources, projectId: string): SearchTarget[] {
+  const targets: SearchTarget[] = [];
+
+  for (const session of sources.sessionManager.getSessionsByProject(projectId)) {
+    if (session.type !== SessionType.TERMINAL || session.status === SessionStatus.TERMINATED) {
+      continue;
+    }
+    const terminal = session as TerminalSession;
+    targets.push({
+      sessionId: terminal.id,
+      sessionType: SessionType.TERMINAL,
+      title: terminal.title ?? terminal.shell,
+    });
+  }
+
+  for (const sessionId of sources.sshManager?.getRunningSessionIds() ?? []) {
+    const session = sources.sshManager?.getSession(sessionId);
+    if (session?.projectId === projectId) {
+      targets.push({
+        sessionId,
+        sessionType: SessionType.SSH,
+        title: `${session.username}@${session.host}`,
+      });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Search all terminal and SSH output in a project.
+ * Only sessions with at least one match are returned, most matches first.
+ */
+export function searchProjectOutput(
+  sources: OutputSearchSources,
+  query: ValidatedProjectOutputSearchQuery
+): SessionOutputMatches[] {
+  const options = toBufferSearchOptions(query);
+  const matches: SessionOutputMatches[] = [];
+
+  for (const target of getSearchTargets(sources, query.projectId)) {
+    const found = sources.bufferManager.search(target.sessionId, options);
+    if (found && found.results.length > 0) {
+      matches.push({ ...target, ...found });
+    }
+  }
+
+  return matches.sort((a, b) => b.results.length - a.results.length);
+}
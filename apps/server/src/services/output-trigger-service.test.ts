@@ -0,0 +1,253 @@
+/**
+ * Unit tests for output triggers (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type {
+  OutputTriggerExecution,
+  OutputTriggerFired,
+  OutputTriggerInput,
+} from '@masterdashboard/shared';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  OutputTriggerService,
+  expandTriggerTemplate,
+  splitOutputLines,
+} from './output-trigger-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const SESSIONS: Record<string, { id: string; projectId: string }> = {
+  term_1: { id: 'term_1', projectId: 'prj_1' },
+  term_2: { id: 'term_2', projectId: 'prj_1' },
+  term_other: { id: 'term_other', projectId: 'prj_2' },
+};
+
+/**
+ * Minimal SessionManager stand-in that records terminal input
+ */
+function createSessionManager() {
+  const emitter = new EventEmitter();
+  const writeToTerminal = vi.fn();
+  const sessionManager = Object.assign(emitter, {
+    getSession: (sessionId: string) => SESSIONS[sessionId],
+    writeToTerminal,
+  }) as unknown as SessionManager;
+  return { sessionManager, writeToTerminal };
+}
+
+function trigger(overrides: Partial<OutputTriggerInput> = {}): OutputTriggerInput {
+  return {
+    id: 'trg_answer',
+    projectId: 'prj_1',
+    name: 'Answer',
+    scope: 'project',
+    target: null,
+    pattern: 'Continue\\? \\[y/N\\]',
+    caseSensitive: true,
+    action: { type: 'send_keys', keys: 'y', enter: true },
+    cooldownMs: 10_000,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+/** Let action promises settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('splitOutputLines', () => {
+  it('should keep the unfinished line pending', () => {
+    expect(splitOutputLines('', 'one\r\ntwo\nthr')).toEqual({ lines: ['one', 'two'], pending: 'thr' });
+    expect(splitOutputLines('thr', 'ee\n')).toEqual({ lines: ['three'], pending: '' });
+  });
+
+  it('should end a line at a carriage return', () => {
+    expect(splitOutputLines('', '10%\r20%\r')).toEqual({ lines: ['10%', '20%'], pending: '' });
+  });
+});
+
+describe('expandTriggerTemplate', () => {
+  it('should fill the match and capture groups', () => {
+    const match = ['http://localhost:3000', 'localhost', '3000'];
+    expect(expandTriggerTemplate('$0', match)).toBe('http://localhost:3000');
+    expect(expandTriggerTemplate('port $2 on $1, $3', match)).toBe('port 3000 on localhost, ');
+  });
+});
+
+describe('OutputTriggerService', () => {
+  let sessionManager: SessionManager;
+  let writeToTerminal: ReturnType<typeof vi.fn>;
+  let service: OutputTriggerService;
+  let executions: OutputTriggerExecution[];
+  let fired: OutputTriggerFired[];
+
+  const output = (sessionId: string, data: string) =>
+    sessionManager.emit('terminal:output', { sessionId, data, timestamp: Date.now() });
+
+  beforeEach(async () => {
+    await initDatabase();
+    ({ sessionManager, writeToTerminal } = createSessionManager());
+    service = new OutputTriggerService(sessionManager);
+    executions = [];
+    fired = [];
+    service.on('execution', (execution: OutputTriggerExecution) => executions.push(execution));
+    service.on('fired', (event: OutputTriggerFired) => fired.push(event));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    closeDatabase();
+  });
+
+  it('should store, list and remove triggers', () => {
+    service.save(trigger());
+    expect(service.list('prj_1')).toEqual([
+      expect.objectContaining({ id: 'trg_answer', caseSensitive: true, action: trigger().action }),
+    ]);
+
+    expect(service.remove('trg_answer')).toBe(true);
+    expect(service.remove('trg_answer')).toBe(false);
+    expect(service.list('prj_1')).toEqual([]);
+  });
+
+  it('should answer a prompt on an unfinished line once', async () => {
+    service.save(trigger());
+
+    output('term_1', 'Continue? [y/N] ');
+    output('term_1', ' ');
+    output('term_1', '\r\n');
+    await flush();
+
+    expect(writeToTerminal).toHaveBeenCalledTimes(1);
+    expect(writeToTerminal).toHaveBeenCalledWith('term_1', 'y\r');
+    expect(executions).toEqual([
+      expect.objectContaining({
+        triggerId: 'trg_answer',
+        sessionId: 'term_1',
+        actionType: 'send_keys',
+        match: 'Continue? [y/N]',
+        success: true,
+      }),
+    ]);
+    expect(service.listExecutions({ projectId: 'prj_1' })).toHaveLength(1);
+  });
+
+  it('should wait out the cooldown per session', async () => {
+    service.save(trigger({ pattern: 'FAIL', cooldownMs: 60_000 }));
+
+    output('term_1', 'FAIL a\nFAIL b\n');
+    output('term_2', 'FAIL c\n');
+    await flush();
+
+    expect(writeToTerminal.mock.calls.map(([sessionId]) => sessionId)).toEqual(['term_1', 'term_2']);
+  });
+
+  it('should only run session triggers for their session', async () => {
+    service.save(trigger({ pattern: 'FAIL', scope: 'session', target: 'term_2' }));
+
+    output('term_1', 'FAIL\n');
+    await flush();
+    expect(writeToTerminal).not.toHaveBeenCalled();
+
+    output('term_2', 'FAIL\n');
+    await flush();
+    expect(writeToTerminal).toHaveBeenCalledWith('term_2', 'y\r');
+  });
+
+  it('should match ANSI-colored output, ignoring case when asked', async () => {
+    service.save(trigger({ pattern: 'fail', caseSensitive: false }));
+
+    output('term_1', '\x1b[31mFAIL\x1b[0m src/app.test.ts\n');
+    await flush();
+
+    expect(executions[0]).toMatchObject({ match: 'FAIL', success: true });
+  });
+
+  it('should send browser actions with their templates filled in', async () => {
+    service.save(
+      trigger({
+        id: 'trg_dev',
+        pattern: 'https?://localhost:(\\d+)',
+        action: { type: 'open_browser', url: '$0/' },
+      })
+    );
+
+    output('term_1', '  ➜  Local:   http://localhost:5173\n');
+    await flush();
+
+    expect(fired).toEqual([
+      expect.objectContaining({
+        triggerId: 'trg_dev',
+        sessionId: 'term_1',
+        action: { type: 'open_browser', url: 'http://localhost:5173/' },
+      }),
+    ]);
+  });
+
+  it('should run commands in another session of the project', async () => {
+    service.save(
+      trigger({
+        pattern: 'Build (\\w+)',
+        action: { type: 'run_command', sessionId: 'term_2', command: 'echo $1' },
+      })
+    );
+
+    output('term_1', 'Build done\n');
+    await flush();
+
+    expect(writeToTerminal).toHaveBeenCalledWith('term_2', 'echo done\r');
+  });
+
+  it('should reject a command target in another project', () => {
+    expect(() =>
+      service.save(
+        trigger({ action: { type: 'run_command', sessionId: 'term_other', command: 'ls' } })
+      )
+    ).toThrow('another project');
+  });
+
+  it('should log failed webhooks', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 502 });
+    vi.stubGlobal('fetch', fetchMock);
+    service.save(
+      trigger({ pattern: 'FAIL', action: { type: 'webhook', url: 'http://localhost:9000/hook' } })
+    );
+
+    output('term_1', 'FAIL\n');
+    await flush();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:9000/hook',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(executions[0]).toMatchObject({ success: false, error: 'Webhook responded with 502' });
+  });
+
+  it('should disable a trigger whose pattern times out', async () => {
+    service.save(trigger({ pattern: '(a+)+b' }));
+
+    output('term_1', `${'a'.repeat(40)}\n`);
+    output('term_1', 'aab\n');
+    await flush();
+
+    expect(writeToTerminal).not.toHaveBeenCalled();
+    expect(service.get('trg_answer')?.enabled).toBe(false);
+    expect(executions).toEqual([
+      expect.objectContaining({ success: false, error: expect.stringMatching(/^Trigger disabled/) }),
+    ]);
+  });
+});
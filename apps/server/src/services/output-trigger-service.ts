@@ -0,0 +1,504 @@
+/**
+ * Output Trigger Service
+ *
+ * Stores per-project output triggers and runs them against terminal output.
+ * Output is stripped of ANSI codes the way the status detector sees it and
+ * tested one line at a time; the unfinished last line is tested too, so
+ * prompts that wait on the same line can be answered, but it fires each
+ * trigger at most once.
+ *
+ * A trigger runs at most once per cooldown for each session. Every run is
+ * written to the execution log and emitted as 'execution'; actions the
+ * browser carries out (notifications, opening a Browser node) are emitted
+ * as 'fired'.
+ *
+ * Patterns run with a timeout. A trigger whose pattern times out is
+ * disabled and the failure written to the execution log.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  stripAnsi,
+  type OutputTrigger,
+  type OutputTriggerAction,
+  type OutputTriggerActionType,
+  type OutputTriggerExecution,
+  type OutputTriggerFired,
+  type OutputTriggerInput,
+  type OutputTriggerScope,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  upsertOutputTrigger,
+  getOutputTrigger,
+  getOutputTriggersByProject,
+  deleteOutputTrigger,
+  insertOutputTriggerExecution,
+  queryOutputTriggerExecutions,
+  type OutputTriggerExecutionFilter,
+  type OutputTriggerExecutionRow,
+  type OutputTriggerRow,
+} from '../persistence/database.js';
+import { ValidationError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+import { execLines } from '../utils/regex.js';
+
+const logger = createChildLogger('output-trigger-service');
+
+/** Webhooks that take longer than this fail */
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+/** Longest unfinished line kept for matching */
+const MAX_PENDING_LINE = 4_096;
+
+/** Longest match kept in the execution log */
+const MAX_LOGGED_MATCH = 500;
+
+/** How long one trigger's pattern may run over one chunk of output */
+const MATCH_TIMEOUT_MS = 100;
+
+interface CompiledTrigger {
+  trigger: OutputTrigger;
+  regex: RegExp;
+}
+
+interface TriggerMatches {
+  trigger: OutputTrigger;
+  /** Match for each line, by index */
+  matches: Array<RegExpExecArray | null>;
+}
+
+/**
+ * Output a session has printed since its last line break
+ */
+interface PendingLine {
+  text: string;
+  /** Triggers that already fired on it */
+  fired: Set<string>;
+}
+
+/**
+ * Convert a database row to an OutputTrigger
+ */
+export function rowToOutputTrigger(row: OutputTriggerRow): OutputTrigger {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    scope: row.scope as OutputTriggerScope,
+    target: row.target,
+    pattern: row.pattern,
+    caseSensitive: row.case_sensitive === 1,
+    action: JSON.parse(row.action) as OutputTriggerAction,
+    cooldownMs: row.cooldown_ms,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a database row to an OutputTriggerExecution
+ */
+export function rowToOutputTriggerExecution(
+  row: OutputTriggerExecutionRow
+): OutputTriggerExecution {
+  return {
+    id: row.id,
+    triggerId: row.trigger_id,
+    projectId: row.project_id,
+    sessionId: row.session_id,
+    actionType: row.action_type as OutputTriggerActionType,
+    match: row.match,
+    success: row.success === 1,
+    error: row.error,
+    executedAt: row.executed_at,
+  };
+}
+
+/**
+ * Split output into finished lines and the unfinished rest.
+ * A carriage return ends a line too, so progress output that redraws one
+ * line is tested one frame at a time.
+ */
+export function splitOutputLines(
+  pending: string,
+  output: string
+): { lines: string[]; pending: string } {
+  const lines = (pending + output).split(/\r\n|\n|\r/);
+  const rest = lines.pop() ?? '';
+  return { lines, pending: rest.slice(-MAX_PENDING_LINE) };
+}
+
+/**
+ * Fill `$0`-`$9` in an action template from a match
+ */
+export function expandTriggerTemplate(template: string, match: readonly string[]): string {
+  return template.replace(/\$(\d)/g, (_, group: string) => match[Number(group)] ?? '');
+}
+
+/**
+ * Whether a trigger applies to a session
+ */
+export function triggerAppliesToSession(trigger: OutputTrigger, sessionId: string): boolean {
+  return trigger.enabled && (trigger.scope === 'project' || trigger.target === sessionId);
+}
+
+export class OutputTriggerService extends EventEmitter {
+  /** Enabled triggers by project, compiled on first use */
+  private compiled = new Map<string, CompiledTrigger[]>();
+  private pendingLines = new Map<string, PendingLine>();
+  /** Last run of each trigger, by session */
+  private lastRuns = new Map<string, Map<string, number>>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    super();
+
+    this.sessionManager.on(
+      'terminal:output',
+      ({ sessionId, data }: { sessionId: string; data: string }) => {
+        this.handleOutput(sessionId, data);
+      }
+    );
+
+    this.sessionManager.on('session:terminated', ({ sessionId }: { sessionId: string }) => {
+      this.pendingLines.delete(sessionId);
+      this.lastRuns.delete(sessionId);
+    });
+  }
+
+  /**
+   * List a project's triggers
+   */
+  list(projectId: string): OutputTrigger[] {
+    return getOutputTriggersByProject(projectId).map(rowToOutputTrigger);
+  }
+
+  /**
+   * Get a trigger by ID
+   */
+  get(triggerId: string): OutputTrigger | undefined {
+    const row = getOutputTrigger(triggerId);
+    return row ? rowToOutputTrigger(row) : undefined;
+  }
+
+  /**
+   * Add or replace a trigger
+   */
+  save(input: OutputTriggerInput): OutputTrigger {
+    const existing = getOutputTrigger(input.id);
+    if (existing && existing.project_id !== input.projectId) {
+      throw new ValidationError('Output trigger belongs to another project', {
+        triggerId: input.id,
+      });
+    }
+
+    if (input.action.type === 'run_command') {
+      const target = this.sessionManager.getSession(input.action.sessionId);
+      if (target && target.projectId !== input.projectId) {
+        throw new ValidationError('Command target belongs to another project', {
+          sessionId: input.action.sessionId,
+        });
+      }
+    }
+
+    const now = new Date().toISOString();
+    upsertOutputTrigger({
+      id: input.id,
+      project_id: input.projectId,
+      name: input.name,
+      scope: input.scope,
+      target: input.scope === 'project' ? null : input.target,
+      pattern: input.pattern,
+      case_sensitive: input.caseSensitive ? 1 : 0,
+      action: JSON.stringify(input.action),
+      cooldown_ms: input.cooldownMs,
+      enabled: input.enabled ? 1 : 0,
+      created_at: now,
+      updated_at: now,
+    });
+    this.compiled.delete(input.projectId);
+
+    logger.info({ triggerId: input.id, projectId: input.projectId }, 'Output trigger saved');
+    return this.get(input.id)!;
+  }
+
+  /**
+   * Remove a trigger
+   * Returns false if it did not exist.
+   */
+  remove(triggerId: string): boolean {
+    const row = getOutputTrigger(triggerId);
+    if (!row) return false;
+
+    deleteOutputTrigger(triggerId);
+    this.compiled.delete(row.project_id);
+    logger.info({ triggerId }, 'Output trigger removed');
+    return true;
+  }
+
+  /**
+   * List trigger runs, newest first
+   */
+  listExecutions(filter: OutputTriggerExecutionFilter): OutputTriggerExecution[] {
+    return queryOutputTriggerExecutions(filter).map(rowToOutputTriggerExecution);
+  }
+
+  private handleOutput(sessionId: string, data: string): void {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return;
+
+    const triggers = this.getCompiledTriggers(session.projectId).filter(({ trigger }) =>
+      triggerAppliesToSession(trigger, sessionId)
+    );
+    if (triggers.length === 0) {
+      this.pendingLines.delete(sessionId);
+      return;
+    }
+
+    const previous = this.pendingLines.get(sessionId) ?? { text: '', fired: new Set<string>() };
+    const { lines, pending } = splitOutputLines(previous.text, stripAnsi(data));
+    const matches = this.matchTriggers(
+      session.projectId,
+      sessionId,
+      triggers,
+      pending ? [...lines, pending] : lines
+    );
+
+    lines.forEach((_, index) => {
+      // The first line was the unfinished one; don't fire twice on it
+      const skip = index === 0 ? previous.fired : undefined;
+      this.fireMatches(session.projectId, sessionId, matches, index, skip);
+    });
+
+    const fired = lines.length === 0 ? previous.fired : new Set<string>();
+    if (pending) {
+      const matched = this.fireMatches(session.projectId, sessionId, matches, lines.length, fired);
+      for (const triggerId of matched) {
+        fired.add(triggerId);
+      }
+    }
+    this.pendingLines.set(sessionId, { text: pending, fired });
+  }
+
+  /**
+   * Match each trigger against the lines, leaving out triggers that time out
+   */
+  private matchTriggers(
+    projectId: string,
+    sessionId: string,
+    triggers: CompiledTrigger[],
+    lines: string[]
+  ): TriggerMatches[] {
+    const results: TriggerMatches[] = [];
+    for (const { trigger, regex } of triggers) {
+      try {
+        results.push({ trigger, matches: execLines(lines, regex, MATCH_TIMEOUT_MS) });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        this.disable(trigger, projectId, sessionId, error.message);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Run the triggers that matched a line; returns the IDs of those that matched
+   */
+  private fireMatches(
+    projectId: string,
+    sessionId: string,
+    results: TriggerMatches[],
+    lineIndex: number,
+    skip?: Set<string>
+  ): string[] {
+    const matched: string[] = [];
+    for (const { trigger, matches } of results) {
+      if (skip?.has(trigger.id)) continue;
+
+      const match = matches[lineIndex];
+      if (!match) continue;
+
+      matched.push(trigger.id);
+      this.fire(trigger, projectId, sessionId, Array.from(match, (group) => group ?? ''));
+    }
+    return matched;
+  }
+
+  /**
+   * Turn off a trigger whose pattern is too slow to run on output
+   */
+  private disable(
+    trigger: OutputTrigger,
+    projectId: string,
+    sessionId: string,
+    reason: string
+  ): void {
+    logger.warn({ triggerId: trigger.id, projectId, reason }, 'Disabling slow output trigger');
+    this.compiled.delete(projectId);
+
+    try {
+      const row = getOutputTrigger(trigger.id);
+      if (row) {
+        upsertOutputTrigger({ ...row, enabled: 0, updated_at: new Date().toISOString() });
+      }
+    } catch (error) {
+      logger.error({ error, triggerId: trigger.id }, 'Failed to disable output trigger');
+    }
+    this.log(trigger, projectId, sessionId, '', `Trigger disabled: ${reason}`);
+  }
+
+  private fire(trigger: OutputTrigger, projectId: string, sessionId: string, match: string[]): void {
+    const runs = this.lastRuns.get(sessionId) ?? new Map<string, number>();
+    const now = Date.now();
+    const lastRun = runs.get(trigger.id);
+    if (lastRun !== undefined && now - lastRun < trigger.cooldownMs) {
+      logger.debug({ triggerId: trigger.id, sessionId }, 'Output trigger cooling down');
+      return;
+    }
+    runs.set(trigger.id, now);
+    this.lastRuns.set(sessionId, runs);
+
+    this.runAction(trigger, projectId, sessionId, match)
+      .then(() => this.log(trigger, projectId, sessionId, match[0]!, null))
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({ triggerId: trigger.id, sessionId, error: message }, 'Output trigger failed');
+        this.log(trigger, projectId, sessionId, match[0]!, message);
+      });
+  }
+
+  private async runAction(
+    trigger: OutputTrigger,
+    projectId: string,
+    sessionId: string,
+    match: string[]
+  ): Promise<void> {
+    const { action } = trigger;
+    const fill = (template: string) => expandTriggerTemplate(template, match);
+
+    switch (action.type) {
+      case 'send_keys':
+        this.sessionManager.writeToTerminal(sessionId, fill(action.keys) + (action.enter ? '\r' : ''));
+        return;
+
+      case 'run_command': {
+        const target = this.sessionManager.getSession(action.sessionId);
+        if (!target || target.projectId !== projectId) {
+          throw new Error('Command target session not found in this project');
+        }
+        this.sessionManager.writeToTerminal(action.sessionId, `${fill(action.command)}\r`);
+        return;
+      }
+
+      case 'webhook': {
+        const response = await fetch(action.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            triggerId: trigger.id,
+            triggerName: trigger.name,
+            projectId,
+            sessionId,
+            match: match[0],
+            groups: match.slice(1),
+            timestamp: new Date().toISOString(),
+          }),
+          // Only the validated local URL; a redirect could point anywhere
+          redirect: 'error',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`Webhook responded with ${response.status}`);
+        }
+        return;
+      }
+
+      case 'notify':
+        this.emitFired(trigger, projectId, sessionId, match, {
+          type: 'notify',
+          title: fill(action.title),
+          body: fill(action.body),
+        });
+        return;
+
+      case 'open_browser': {
+        const url = fill(action.url);
+        if (!/^https?:\/\//i.test(url)) {
+          throw new Error(`Not an http(s) URL: ${url}`);
+        }
+        this.emitFired(trigger, projectId, sessionId, match, { type: 'open_browser', url });
+        return;
+      }
+    }
+  }
+
+  private emitFired(
+    trigger: OutputTrigger,
+    projectId: string,
+    sessionId: string,
+    match: string[],
+    action: OutputTriggerFired['action']
+  ): void {
+    const fired: OutputTriggerFired = {
+      triggerId: trigger.id,
+      triggerName: trigger.name,
+      projectId,
+      sessionId,
+      action,
+      match: match[0]!,
+      timestamp: new Date().toISOString(),
+    };
+    this.emit('fired', fired);
+  }
+
+  private log(
+    trigger: OutputTrigger,
+    projectId: string,
+    sessionId: string,
+    match: string,
+    error: string | null
+  ): void {
+    const row: Omit<OutputTriggerExecutionRow, 'id'> = {
+      trigger_id: trigger.id,
+      project_id: projectId,
+      session_id: sessionId,
+      action_type: trigger.action.type,
+      match: match.slice(0, MAX_LOGGED_MATCH),
+      success: error === null ? 1 : 0,
+      error,
+      executed_at: new Date().toISOString(),
+    };
+
+    try {
+      const id = insertOutputTriggerExecution(row);
+      this.emit('execution', rowToOutputTriggerExecution({ id, ...row }));
+    } catch (logError) {
+      logger.error({ error: logError, triggerId: trigger.id }, 'Failed to log output trigger run');
+    }
+  }
+
+  private getCompiledTriggers(projectId: string): CompiledTrigger[] {
+    const cached = this.compiled.get(projectId);
+    if (cached) return cached;
+
+    const compiled: CompiledTrigger[] = [];
+    try {
+      for (const trigger of this.list(projectId)) {
+        if (!trigger.enabled) continue;
+        try {
+          compiled.push({ trigger, regex: new RegExp(trigger.pattern, trigger.caseSensitive ? '' : 'i') });
+        } catch (error) {
+          logger.warn({ triggerId: trigger.id, error }, 'Skipping output trigger with an invalid pattern');
+        }
+      }
+    } catch (error) {
+      // Not cached, so the next output tries again
+      logger.error({ error, projectId }, 'Failed to load output triggers');
+      return compiled;
+    }
+
+    this.compiled.set(projectId, compiled);
+    return compiled;
+  }
+}
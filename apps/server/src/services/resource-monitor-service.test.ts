@@ -0,0 +1,156 @@
+/**
+ * Unit tests for resource monitoring (against a fake /proc)
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SessionStatus,
+  SessionType,
+  type SessionResourceSample,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import { PAGE_SIZE_BYTES } from '../utils/proc.js';
+import { ResourceMonitorService } from './resource-monitor-service.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** Shell pid of each session's PTY */
+const SESSIONS = [
+  { id: 'term_1', projectId: 'prj_1', pid: 100 },
+  { id: 'term_2', projectId: 'prj_2', pid: 200 },
+];
+
+/**
+ * Minimal SessionManager stand-in with PTY-backed terminals
+ */
+function createSessionManager() {
+  const sessions = SESSIONS.map(({ id, projectId }) => ({
+    id,
+    projectId,
+    type: SessionType.TERMINAL,
+    status: SessionStatus.ACTIVE,
+  }));
+  return {
+    getSessions: () => sessions,
+    getTerminalSession: (sessionId: string) => sessions.find((s) => s.id === sessionId),
+    getTmuxManager: () => ({ isAvailable: () => false }),
+    getPtyManager: () => ({
+      isTmuxBacked: () => false,
+      isRunning: () => true,
+      getProcessInfo: (sessionId: string) => {
+        const session = SESSIONS.find((s) => s.id === sessionId);
+        return session ? { sessionId, pid: session.pid } : null;
+      },
+    }),
+  } as unknown as SessionManager;
+}
+
+describe('ResourceMonitorService', () => {
+  let procRoot: string;
+  let service: ResourceMonitorService;
+
+  /** Write /proc/<pid>/stat with the fields the monitor reads */
+  const writeProcess = (pid: number, command: string, ppid: number, cpuTicks = 0, rssPages = 0) => {
+    mkdirSync(join(procRoot, String(pid)), { recursive: true });
+    writeFileSync(
+      join(procRoot, String(pid), 'stat'),
+      `${pid} (${command}) S ${ppid} ${pid} ${pid} 0 -1 4194304 0 0 0 0 ${cpuTicks} 0 0 0 20 0 1 0 ${pid} 1000000 ${rssPages} 0\n`
+    );
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    procRoot = mkdtempSync(join(tmpdir(), 'mdb-proc-'));
+    service = new ResourceMonitorService(createSessionManager(), { procRoot, historyLength: 3 });
+
+    writeProcess(1, 'init', 0);
+    writeProcess(100, 'bash', 1, 10, 100);
+    writeProcess(101, 'node', 100, 50, 1000);
+    writeProcess(102, 'esbuild', 101, 0, 200);
+    writeProcess(200, 'zsh', 1, 5, 50);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('should sample the tree under each session', async () => {
+    const emitted: SessionResourceSample[][] = [];
+    service.on('sample', (samples: SessionResourceSample[]) => emitted.push(samples));
+
+    const [first] = await service.sample();
+
+    expect(first).toMatchObject({
+      sessionId: 'term_1',
+      projectId: 'prj_1',
+      cpuPercent: 0,
+      rssBytes: 1300 * PAGE_SIZE_BYTES,
+    });
+    expect(first!.processes.map(({ command, depth }) => [command, depth])).toEqual([
+      ['bash', 0],
+      ['node', 1],
+      ['esbuild', 2],
+    ]);
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should measure CPU use since the previous sample', async () => {
+    await service.sample();
+
+    // node uses 2.5s of CPU in 5s, and tsc starts
+    writeProcess(101, 'node', 100, 300, 1000);
+    writeProcess(103, 'tsc', 101, 40, 10);
+    vi.setSystemTime(new Date('2026-03-01T12:00:05.000Z'));
+    const [sample] = await service.sample();
+
+    expect(sample!.cpuPercent).toBe(50);
+    expect(sample!.processes.find((p) => p.pid === 101)?.cpuPercent).toBe(50);
+    expect(sample!.processes.find((p) => p.pid === 103)?.cpuPercent).toBe(0);
+  });
+
+  it('should keep a capped history per project session', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.sample();
+    }
+
+    const resources = service.getResources('prj_1');
+    expect(resources).toHaveLength(1);
+    expect(resources[0]!.history).toHaveLength(3);
+    expect(service.getResources('prj_missing')).toEqual([]);
+  });
+
+  it('should kill a child and everything under it, children first', async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+
+    const result = await service.killTree('term_1', 101);
+
+    expect(result).toEqual({ sessionId: 'term_1', pid: 101, signal: 'SIGTERM', killed: [102, 101] });
+    expect(kill.mock.calls).toEqual([
+      [102, 'SIGTERM'],
+      [101, 'SIGTERM'],
+    ]);
+  });
+
+  it("should refuse to kill the shell or another session's processes", async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+
+    await expect(service.killTree('term_1', 100)).rejects.toThrow(/terminate the session/);
+    await expect(service.killTree('term_1', 200)).rejects.toThrow(/not running in this session/);
+    await expect(service.killTree('term_missing', 101)).rejects.toThrow(/Session not found/);
+    expect(kill).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Resource Monitor Service
+ *
+ * Samples the process tree under each terminal from /proc: the panes of its
+ * tmux session, or its PTY's shell when it has no tmux session. CPU use is
+ * the CPU time a process used since the previous sample, so a process shows
+ * 0% on the first sample it appears in.
+ *
+ * Each sample is emitted as 'sample', and a short history per session is
+ * kept for sparklines. Linux only; elsewhere the service does nothing.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  RESOURCE_HISTORY_LENGTH,
+  SessionStatus,
+  SessionType,
+  type KillTreeResult,
+  type KillTreeSignal,
+  type SessionResourcePoint,
+  type SessionResourceSample,
+  type SessionResources,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  readProcessTable,
+  collectProcessTree,
+  CLOCK_TICKS_PER_SECOND,
+  type ProcStat,
+} from '../utils/proc.js';
+import { SessionNotFoundError, ValidationError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('resource-monitor');
+
+export interface ResourceMonitorConfig {
+  /** How often to sample (default: 5 seconds) */
+  sampleIntervalMs: number;
+  /** Samples kept per session (default: RESOURCE_HISTORY_LENGTH) */
+  historyLength: number;
+  /** Where procfs is mounted (default: /proc) */
+  procRoot: string;
+}
+
+const DEFAULT_MONITOR_CONFIG: ResourceMonitorConfig = {
+  sampleIntervalMs: 5 * 1000, // 5 seconds
+  historyLength: RESOURCE_HISTORY_LENGTH,
+  procRoot: '/proc',
+};
+
+/**
+ * Key for a process that stays the same only while the pid isn't reused
+ */
+function processKey(stat: ProcStat): string {
+  return `${stat.pid}:${stat.startTime}`;
+}
+
+function roundPercent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export class ResourceMonitorService extends EventEmitter {
+  private config: ResourceMonitorConfig;
+  private sampleInterval: ReturnType<typeof setInterval> | null = null;
+  /** Whether a sample is being taken, so slow reads don't overlap */
+  private sampling = false;
+  /** CPU ticks of each sampled process at the previous sample */
+  private previousTicks = new Map<string, number>();
+  private previousSampleAt: number | null = null;
+  private latest = new Map<string, SessionResourceSample>();
+  private history = new Map<string, SessionResourcePoint[]>();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    config: Partial<ResourceMonitorConfig> = {}
+  ) {
+    super();
+    this.config = { ...DEFAULT_MONITOR_CONFIG, ...config };
+  }
+
+  /**
+   * Start sampling
+   */
+  start(): void {
+    if (process.platform !== 'linux') {
+      logger.info({ platform: process.platform }, 'Resource monitoring needs /proc, disabled');
+      return;
+    }
+
+    this.sampleInterval = setInterval(() => {
+      void this.sample();
+    }, this.config.sampleIntervalMs);
+
+    logger.info({ sampleIntervalMs: this.config.sampleIntervalMs }, 'Resource monitor started');
+  }
+
+  /**
+   * Stop sampling
+   */
+  stop(): void {
+    if (this.sampleInterval) {
+      clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+    }
+    logger.info('Resource monitor stopped');
+  }
+
+  /**
+   * Latest sample and history of each session in a project
+   */
+  getResources(projectId: string): SessionResources[] {
+    return Array.from(this.latest.values())
+      .filter((sample) => sample.projectId === projectId)
+      .map((sample) => ({ sample, history: this.history.get(sample.sessionId) ?? [] }));
+  }
+
+  /**
+   * Sample every terminal session, returning the samples
+   */
+  async sample(): Promise<SessionResourceSample[]> {
+    if (this.sampling) return [];
+    this.sampling = true;
+
+    try {
+      const table = await readProcessTable(this.config.procRoot);
+      const now = Date.now();
+      const elapsedSeconds =
+        this.previousSampleAt !== null ? (now - this.previousSampleAt) / 1000 : 0;
+      const ticks = new Map<string, number>();
+      const samples: SessionResourceSample[] = [];
+
+      for (const session of this.getTerminalSessions()) {
+        const tree = collectProcessTree(table, await this.getRootPids(session.id));
+        if (tree.length === 0) continue;
+
+        const processes = tree.map((stat) => {
+          const key = processKey(stat);
+          const previous = this.previousTicks.get(key);
+          ticks.set(key, stat.cpuTicks);
+
+          const cpuPercent =
+            previous !== undefined && elapsedSeconds > 0
+              ? ((stat.cpuTicks - previous) / CLOCK_TICKS_PER_SECOND / elapsedSeconds) * 100
+              : 0;
+          return {
+            pid: stat.pid,
+            ppid: stat.ppid,
+            command: stat.command,
+            depth: stat.depth,
+            cpuPercent: roundPercent(Math.max(0, cpuPercent)),
+            rssBytes: stat.rssBytes,
+          };
+        });
+
+        samples.push({
+          sessionId: session.id,
+          projectId: session.projectId,
+          timestamp: new Date(now).toISOString(),
+          cpuPercent: roundPercent(processes.reduce((total, p) => total + p.cpuPercent, 0)),
+          rssBytes: processes.reduce((total, p) => total + p.rssBytes, 0),
+          processes,
+        });
+      }
+
+      this.previousTicks = ticks;
+      this.previousSampleAt = now;
+      this.record(samples);
+
+      if (samples.length > 0) {
+        this.emit('sample', samples);
+      }
+      return samples;
+    } catch (error) {
+      logger.warn({ error }, 'Failed to sample process resources');
+      return [];
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Signal a process in a session's tree and everything under it, children
+   * first. The session's own shells (tree roots) can't be killed this way.
+   */
+  async killTree(
+    sessionId: string,
+    pid: number,
+    signal: KillTreeSignal = 'SIGTERM'
+  ): Promise<KillTreeResult> {
+    const session = this.sessionManager.getTerminalSession(sessionId);
+    if (!session || session.status === SessionStatus.TERMINATED) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const table = await readProcessTable(this.config.procRoot);
+    const rootPids = await this.getRootPids(sessionId);
+    if (rootPids.includes(pid)) {
+      throw new ValidationError("Can't kill a session's shell; terminate the session instead", {
+        sessionId,
+        pid,
+      });
+    }
+    if (!collectProcessTree(table, rootPids).some((stat) => stat.pid === pid)) {
+      throw new ValidationError('Process is not running in this session', { sessionId, pid });
+    }
+
+    const killed: number[] = [];
+    for (const stat of collectProcessTree(table, [pid]).reverse()) {
+      try {
+        process.kill(stat.pid, signal);
+        killed.push(stat.pid);
+      } catch (error) {
+        // Already exited
+        if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+          throw error;
+        }
+      }
+    }
+
+    logger.info({ sessionId, pid, signal, killed }, 'Process tree killed');
+    return { sessionId, pid, signal, killed };
+  }
+
+  private getTerminalSessions() {
+    return this.sessionManager
+      .getSessions()
+      .filter(
+        (session) =>
+          session.type === SessionType.TERMINAL && session.status !== SessionStatus.TERMINATED
+      );
+  }
+
+  /**
+   * Processes at the top of a session's tree: its tmux panes, or its PTY
+   */
+  private async getRootPids(sessionId: string): Promise<number[]> {
+    const ptyManager = this.sessionManager.getPtyManager();
+    const tmuxManager = this.sessionManager.getTmuxManager();
+
+    // A tmux-backed PTY runs the tmux client; the shells are under the server
+    if (
+      tmuxManager.isAvailable() &&
+      (ptyManager.isTmuxBacked(sessionId) || !ptyManager.isRunning(sessionId))
+    ) {
+      try {
+        return await tmuxManager.getPanePids(sessionId);
+      } catch {
+        return [];
+      }
+    }
+
+    const pid = ptyManager.getProcessInfo(sessionId)?.pid;
+    return pid ? [pid] : [];
+  }
+
+  /**
+   * Keep the latest samples and extend each session's history
+   */
+  private record(samples: SessionResourceSample[]): void {
+    const sampled = new Set(samples.map((sample) => sample.sessionId));
+    for (const sessionId of this.latest.keys()) {
+      if (!sampled.has(sessionId)) {
+        this.latest.delete(sessionId);
+        this.history.delete(sessionId);
+      }
+    }
+
+    for (const sample of samples) {
+      this.latest.set(sample.sessionId, sample);
+      const history = this.history.get(sample.sessionId) ?? [];
+      history.push({
+        timestamp: sample.timestamp,
+        cpuPercent: sample.cpuPercent,
+        rssBytes: sample.rssBytes,
+      });
+      this.history.set(sample.sessionId, history.slice(-this.config.historyLength));
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for scheduled commands (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ScheduledCommand, ScheduledCommandInput } from '@masterdashboard/shared';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import { PTYNotFoundError } from '../utils/errors.js';
+import { ScheduledCommandService, computeNextRun } from './scheduled-command-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const SESSIONS: Record<string, { id: string; projectId: string }> = {
+  term_1: { id: 'term_1', projectId: 'prj_1' },
+  term_other: { id: 'term_other', projectId: 'prj_2' },
+};
+
+/**
+ * Minimal SessionManager stand-in that records terminal and tmux input
+ */
+function createSessionManager() {
+  const writeToTerminal = vi.fn();
+  const tmuxManager = {
+    sessionExists: vi.fn(async () => true),
+    sendKeys: vi.fn(async () => undefined),
+  };
+  const sessionManager = Object.assign(new EventEmitter(), {
+    getSession: (sessionId: string) => SESSIONS[sessionId],
+    getTmuxManager: () => tmuxManager,
+    writeToTerminal,
+  }) as unknown as SessionManager;
+  return { sessionManager, writeToTerminal, tmuxManager };
+}
+
+function schedule(overrides: Partial<ScheduledCommandInput> = {}): ScheduledCommandInput {
+  return {
+    id: 'sch_e2e',
+    projectId: 'prj_1',
+    sessionId: 'term_1',
+    name: 'Nightly e2e',
+    kind: 'cron',
+    cron: '0 2 * * *',
+    runAt: null,
+    command: 'pnpm test:e2e',
+    enter: true,
+    paused: false,
+    ...overrides,
+  };
+}
+
+/** Local time on 1 March 2026 */
+const at = (hours: number, minutes = 0, day = 1) => new Date(2026, 2, day, hours, minutes);
+
+/** Let the first check after start() settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('computeNextRun', () => {
+  const base = { kind: 'once', cron: null, run_at: at(3).toISOString(), paused: 0, last_run_at: null };
+
+  it('should keep a one-off due until it has run at its time', () => {
+    expect(computeNextRun(base, at(1))).toBe(at(3).toISOString());
+    expect(computeNextRun({ ...base, last_run_at: at(2).toISOString() }, at(2))).toBe(
+      at(3).toISOString()
+    );
+    expect(computeNextRun({ ...base, last_run_at: at(3).toISOString() }, at(3))).toBeNull();
+  });
+
+  it('should find the next cron run and none while paused', () => {
+    const cron = { ...base, kind: 'cron', cron: '30 2 * * *', run_at: null };
+    expect(computeNextRun(cron, at(1))).toBe(at(2, 30).toISOString());
+    expect(computeNextRun(cron, at(3))).toBe(at(2, 30, 2).toISOString());
+    expect(computeNextRun({ ...cron, paused: 1 }, at(1))).toBeNull();
+  });
+});
+
+describe('ScheduledCommandService', () => {
+  let sessionManager: SessionManager;
+  let writeToTerminal: ReturnType<typeof vi.fn>;
+  let tmuxManager: ReturnType<typeof createSessionManager>['tmuxManager'];
+  let service: ScheduledCommandService;
+  let runs: ScheduledCommand[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(at(1));
+    await initDatabase();
+    ({ sessionManager, writeToTerminal, tmuxManager } = createSessionManager());
+    service = new ScheduledCommandService(sessionManager);
+    runs = [];
+    service.on('run', (run: ScheduledCommand) => runs.push(run));
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+    closeDatabase();
+  });
+
+  it('should reject schedules it cannot run', () => {
+    expect(() => service.save(schedule({ sessionId: 'term_other' }))).toThrow(/Session not found/);
+    expect(() => service.save(schedule({ cron: '0 25 * * *' }))).toThrow(/Invalid hour/);
+    expect(() => service.save(schedule({ cron: '0 0 30 2 *' }))).toThrow(/never runs/);
+    expect(() =>
+      service.save(schedule({ kind: 'once', cron: null, runAt: at(0).toISOString() }))
+    ).toThrow(/future/);
+    expect(service.list('prj_1')).toEqual([]);
+  });
+
+  it('should run a cron schedule when due and move to its next run', async () => {
+    expect(service.save(schedule()).nextRunAt).toBe(at(2).toISOString());
+
+    await service.tick();
+    expect(writeToTerminal).not.toHaveBeenCalled();
+
+    vi.setSystemTime(at(2, 0));
+    await service.tick();
+
+    expect(writeToTerminal).toHaveBeenCalledWith('term_1', 'pnpm test:e2e\r');
+    expect(runs).toEqual([
+      expect.objectContaining({
+        id: 'sch_e2e',
+        lastRunAt: at(2).toISOString(),
+        lastError: null,
+        nextRunAt: at(2, 0, 2).toISOString(),
+      }),
+    ]);
+  });
+
+  it('should run a one-off once', async () => {
+    service.save(schedule({ kind: 'once', cron: null, runAt: at(1, 30).toISOString(), enter: false }));
+
+    vi.setSystemTime(at(1, 31));
+    await service.tick();
+    await service.tick();
+
+    expect(writeToTerminal).toHaveBeenCalledTimes(1);
+    expect(writeToTerminal).toHaveBeenCalledWith('term_1', 'pnpm test:e2e');
+    expect(service.get('sch_e2e')).toMatchObject({ nextRunAt: null, lastRunAt: at(1, 31).toISOString() });
+  });
+
+  it('should not run while paused and pick up again on resume', async () => {
+    service.save(schedule());
+    expect(service.setPaused('sch_e2e', true)).toMatchObject({ paused: true, nextRunAt: null });
+
+    vi.setSystemTime(at(2, 0));
+    await service.tick();
+    expect(writeToTerminal).not.toHaveBeenCalled();
+
+    vi.setSystemTime(at(2, 5));
+    expect(service.setPaused('sch_e2e', false)).toMatchObject({
+      paused: false,
+      nextRunAt: at(2, 0, 2).toISOString(),
+    });
+    expect(service.setPaused('sch_missing', false)).toBeUndefined();
+  });
+
+  it('should run now without moving the next run, recording failures', async () => {
+    service.save(schedule());
+    writeToTerminal.mockImplementation(() => {
+      throw new Error('Session not found: term_1');
+    });
+
+    const run = await service.runNow('sch_e2e');
+
+    expect(run).toMatchObject({
+      lastRunAt: at(1).toISOString(),
+      lastError: 'Session not found: term_1',
+      nextRunAt: at(2).toISOString(),
+    });
+    expect(runs).toHaveLength(1);
+    expect(await service.runNow('sch_missing')).toBeUndefined();
+  });
+
+  it('should send through tmux when the PTY is gone', async () => {
+    service.save(schedule());
+    writeToTerminal.mockImplementation(() => {
+      throw new PTYNotFoundError('term_1', 'PTY not running - reconnect required');
+    });
+
+    await service.runNow('sch_e2e');
+
+    expect(tmuxManager.sendKeys).toHaveBeenNthCalledWith(1, 'term_1', 'pnpm test:e2e', true);
+    expect(tmuxManager.sendKeys).toHaveBeenNthCalledWith(2, 'term_1', 'Enter');
+    expect(service.get('sch_e2e')?.lastError).toBeNull();
+  });
+
+  it('should skip missed cron runs on start but catch up on missed one-offs', async () => {
+    service.save(schedule());
+    service.save(
+      schedule({ id: 'sch_compact', kind: 'once', cron: null, runAt: at(1, 30).toISOString(), command: '/compact' })
+    );
+
+    // Down until after both were due
+    vi.setSystemTime(at(4));
+    service.start();
+    await flush();
+
+    expect(writeToTerminal).toHaveBeenCalledTimes(1);
+    expect(writeToTerminal).toHaveBeenCalledWith('term_1', '/compact\r');
+    expect(service.get('sch_e2e')?.nextRunAt).toBe(at(2, 0, 2).toISOString());
+    expect(service.get('sch_compact')?.nextRunAt).toBeNull();
+  });
+
+  it('should remove schedules', () => {
+    service.save(schedule());
+    expect(service.remove('sch_e2e')).toBe(true);
+    expect(service.remove('sch_e2e')).toBe(false);
+    expect(service.list('prj_1')).toEqual([]);
+  });
+});
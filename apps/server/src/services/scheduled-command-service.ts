@@ -0,0 +1,298 @@
+/**
+ * Scheduled Command Service
+ *
+ * Stores schedules that send input to a terminal session, either on a cron
+ * expression or once at a set time, and runs them from a periodic check.
+ * Schedules live in the database, so they survive restarts: on start a cron
+ * schedule skips the runs it missed and waits for its next one, while a
+ * one-off that came due while the server was down runs on the first check.
+ *
+ * Input goes to the session's PTY; a session whose PTY is gone but whose
+ * tmux session is alive (e.g. after a restart, before a browser reconnects)
+ * gets it through tmux instead. Each run records its outcome on the
+ * schedule and is emitted as 'run'.
+ */
+
+import { EventEmitter } from 'events';
+import type {
+  ScheduledCommand,
+  ScheduledCommandInput,
+  ScheduleKind,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  upsertScheduledCommand,
+  getScheduledCommand,
+  getScheduledCommandsByProject,
+  getAllScheduledCommands,
+  getDueScheduledCommands,
+  setScheduledCommandNextRun,
+  setScheduledCommandPaused,
+  recordScheduledCommandRun,
+  deleteScheduledCommand,
+  type ScheduledCommandRow,
+} from '../persistence/database.js';
+import { parseCron, nextCronRun } from '../utils/cron.js';
+import { PTYNotFoundError, ValidationError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('scheduled-commands');
+
+export interface SchedulerConfig {
+  /** How often to look for due schedules (default: 15 seconds) */
+  checkIntervalMs: number;
+}
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  checkIntervalMs: 15 * 1000, // 15 seconds
+};
+
+/**
+ * Convert a database row to a ScheduledCommand
+ */
+export function rowToScheduledCommand(row: ScheduledCommandRow): ScheduledCommand {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    sessionId: row.session_id,
+    name: row.name,
+    kind: row.kind as ScheduleKind,
+    cron: row.cron,
+    runAt: row.run_at,
+    command: row.command,
+    enter: row.enter === 1,
+    paused: row.paused === 1,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * When a schedule should next run after `now`, or null if it shouldn't.
+ * A one-off is due at its run time until it has run at or after it.
+ */
+export function computeNextRun(
+  row: Pick<ScheduledCommandRow, 'kind' | 'cron' | 'run_at' | 'paused' | 'last_run_at'>,
+  now: Date
+): string | null {
+  if (row.paused === 1) return null;
+
+  if (row.kind === 'cron') {
+    return row.cron ? (nextCronRun(parseCron(row.cron), now)?.toISOString() ?? null) : null;
+  }
+
+  if (row.run_at === null) return null;
+  return row.last_run_at !== null && row.last_run_at >= row.run_at ? null : row.run_at;
+}
+
+export class ScheduledCommandService extends EventEmitter {
+  private config: SchedulerConfig;
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  /** Whether a check is running, so slow sends don't overlap */
+  private ticking = false;
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    config: Partial<SchedulerConfig> = {}
+  ) {
+    super();
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    const now = new Date();
+    for (const row of getAllScheduledCommands()) {
+      setScheduledCommandNextRun(row.id, computeNextRun(row, now));
+    }
+
+    this.checkInterval = setInterval(() => {
+      void this.tick();
+    }, this.config.checkIntervalMs);
+    void this.tick();
+
+    logger.info({ checkIntervalMs: this.config.checkIntervalMs }, 'Scheduler started');
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    logger.info('Scheduler stopped');
+  }
+
+  /**
+   * List a project's schedules
+   */
+  list(projectId: string): ScheduledCommand[] {
+    return getScheduledCommandsByProject(projectId).map(rowToScheduledCommand);
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  get(scheduleId: string): ScheduledCommand | undefined {
+    const row = getScheduledCommand(scheduleId);
+    return row ? rowToScheduledCommand(row) : undefined;
+  }
+
+  /**
+   * Add or replace a schedule
+   */
+  save(input: ScheduledCommandInput): ScheduledCommand {
+    const existing = getScheduledCommand(input.id);
+    if (existing && existing.project_id !== input.projectId) {
+      throw new ValidationError('Schedule belongs to another project', { scheduleId: input.id });
+    }
+
+    const session = this.sessionManager.getSession(input.sessionId);
+    if (!session || session.projectId !== input.projectId) {
+      throw new ValidationError('Session not found in this project', {
+        sessionId: input.sessionId,
+      });
+    }
+
+    const now = new Date();
+    let runAt: string | null = null;
+
+    if (input.kind === 'cron') {
+      if (!nextCronRun(parseCron(input.cron ?? ''), now)) {
+        throw new ValidationError('Cron expression never runs', { cron: input.cron });
+      }
+    } else {
+      runAt = new Date(input.runAt ?? '').toISOString();
+      if (runAt !== existing?.run_at && runAt <= now.toISOString()) {
+        throw new ValidationError('Run time must be in the future', { runAt: input.runAt });
+      }
+    }
+
+    const row: ScheduledCommandRow = {
+      id: input.id,
+      project_id: input.projectId,
+      session_id: input.sessionId,
+      name: input.name,
+      kind: input.kind,
+      cron: input.kind === 'cron' ? input.cron!.trim() : null,
+      run_at: runAt,
+      command: input.command,
+      enter: input.enter ? 1 : 0,
+      paused: input.paused ? 1 : 0,
+      next_run_at: null,
+      last_run_at: existing?.last_run_at ?? null,
+      last_error: existing?.last_error ?? null,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    };
+    row.next_run_at = computeNextRun(row, now);
+    upsertScheduledCommand(row);
+
+    logger.info({ scheduleId: input.id, projectId: input.projectId }, 'Schedule saved');
+    return this.get(input.id)!;
+  }
+
+  /**
+   * Pause or resume a schedule
+   * Returns undefined if it does not exist.
+   */
+  setPaused(scheduleId: string, paused: boolean): ScheduledCommand | undefined {
+    const row = getScheduledCommand(scheduleId);
+    if (!row) return undefined;
+
+    const now = new Date();
+    const nextRunAt = computeNextRun({ ...row, paused: paused ? 1 : 0 }, now);
+    setScheduledCommandPaused(scheduleId, paused, nextRunAt, now.toISOString());
+
+    logger.info({ scheduleId, paused }, paused ? 'Schedule paused' : 'Schedule resumed');
+    return this.get(scheduleId);
+  }
+
+  /**
+   * Run a schedule now, leaving its next run as it was
+   * Returns undefined if it does not exist.
+   */
+  async runNow(scheduleId: string): Promise<ScheduledCommand | undefined> {
+    const row = getScheduledCommand(scheduleId);
+    return row ? this.run(row, false) : undefined;
+  }
+
+  /**
+   * Remove a schedule
+   * Returns false if it did not exist.
+   */
+  remove(scheduleId: string): boolean {
+    const removed = deleteScheduledCommand(scheduleId);
+    if (removed) {
+      logger.info({ scheduleId }, 'Schedule removed');
+    }
+    return removed;
+  }
+
+  /**
+   * Run every schedule that is due
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const row of getDueScheduledCommands(new Date().toISOString())) {
+        await this.run(row, true);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Scheduler check failed');
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(
+    row: ScheduledCommandRow,
+    scheduled: boolean
+  ): Promise<ScheduledCommand | undefined> {
+    let lastError: string | null = null;
+    try {
+      await this.send(row);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      logger.warn({ scheduleId: row.id, sessionId: row.session_id, error }, 'Scheduled command failed');
+    }
+
+    const now = new Date();
+    const lastRunAt = now.toISOString();
+    const nextRunAt = scheduled
+      ? computeNextRun({ ...row, last_run_at: lastRunAt }, now)
+      : row.next_run_at;
+    recordScheduledCommandRun(row.id, lastRunAt, lastError, nextRunAt);
+
+    const schedule = this.get(row.id);
+    if (schedule) {
+      this.emit('run', schedule);
+    }
+    return schedule;
+  }
+
+  private async send(row: ScheduledCommandRow): Promise<void> {
+    try {
+      this.sessionManager.writeToTerminal(row.session_id, row.command + (row.enter ? '\r' : ''));
+    } catch (error) {
+      const tmuxManager = this.sessionManager.getTmuxManager();
+      if (!(error instanceof PTYNotFoundError) || !(await tmuxManager.sessionExists(row.session_id))) {
+        throw error;
+      }
+
+      await tmuxManager.sendKeys(row.session_id, row.command, true);
+      if (row.enter) {
+        await tmuxManager.sendKeys(row.session_id, 'Enter');
+      }
+    }
+  }
+}
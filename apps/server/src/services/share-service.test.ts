@@ -0,0 +1,87 @@
+/**
+ * Unit tests for spectator share links (against an in-memory database)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initDatabase, closeDatabase, getSessionShareById } from '../persistence/database.js';
+import { ShareService, hashShareToken } from './share-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const shareOptions = {
+  sessionId: 'term_1',
+  projectId: 'prj_1',
+  createdBy: 'usr_alice',
+  ttlMinutes: 30,
+};
+
+describe('ShareService', () => {
+  let service: ShareService;
+
+  beforeEach(async () => {
+    await initDatabase();
+    service = new ShareService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    closeDatabase();
+  });
+
+  it('should resolve a fresh token to its share', () => {
+    const { share, token } = service.createShare(shareOptions);
+
+    expect(service.resolveToken(token)).toEqual(share);
+    expect(service.getActiveShares('term_1')).toHaveLength(1);
+  });
+
+  it('should store only a hash of the token', () => {
+    const { share, token } = service.createShare(shareOptions);
+
+    const row = getSessionShareById(share.id);
+    expect(row?.token_hash).toBe(hashShareToken(token));
+    expect(JSON.stringify(row)).not.toContain(token);
+  });
+
+  it('should reject unknown and missing tokens', () => {
+    service.createShare(shareOptions);
+
+    expect(service.resolveToken('not-a-token')).toBeNull();
+    expect(service.resolveToken(undefined)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    vi.useFakeTimers();
+    const { token } = service.createShare(shareOptions);
+
+    vi.advanceTimersByTime(31 * 60_000);
+
+    expect(service.resolveToken(token)).toBeNull();
+    expect(service.getActiveShares('term_1')).toHaveLength(0);
+  });
+
+  it('should reject revoked tokens and notify listeners', () => {
+    const { share, token } = service.createShare(shareOptions);
+    const onRevoked = vi.fn();
+    service.on('revoked', onRevoked);
+
+    const revoked = service.revoke(share.id);
+
+    expect(revoked?.revokedAt).not.toBeNull();
+    expect(onRevoked).toHaveBeenCalledWith(revoked);
+    expect(service.resolveToken(token)).toBeNull();
+    expect(service.revoke('shr_missing')).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Share Service
+ *
+ * Issues and resolves read-only spectator links for terminal sessions.
+ * A link carries a random bearer token; only its SHA-256 hash is stored, so
+ * the token is shown once at creation and cannot be recovered afterwards.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { createShareId, type CreatedSessionShare, type SessionShare } from '@masterdashboard/shared';
+import {
+  insertSessionShare,
+  getSessionShareById,
+  getSessionShareByTokenHash,
+  getActiveSessionShares,
+  revokeSessionShare,
+  type SessionShareRow,
+} from '../persistence/database.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('share-service');
+
+/** Random bytes in a share token */
+const TOKEN_BYTES = 32;
+
+export interface CreateShareOptions {
+  sessionId: string;
+  projectId: string;
+  /** User account creating the link (null for the shared password) */
+  createdBy: string | null;
+  /** Link lifetime in minutes */
+  ttlMinutes: number;
+}
+
+/**
+ * Share Service events
+ */
+export interface ShareServiceEvents {
+  revoked: SessionShare;
+}
+
+/**
+ * Hash a share token for storage and lookup
+ */
+export function hashShareToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Convert a database row to a SessionShare
+ */
+export function rowToSessionShare(row: SessionShareRow): SessionShare {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    projectId: row.project_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export class ShareService extends EventEmitter {
+  constructor() {
+    super();
+    logger.info('Share service initialized');
+  }
+
+  /**
+   * Create a share link and return it with its one-time token
+   */
+  createShare(options: CreateShareOptions): CreatedSessionShare {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+    const row: SessionShareRow = {
+      id: createShareId(),
+      session_id: options.sessionId,
+      project_id: options.projectId,
+      token_hash: hashShareToken(token),
+      created_by: options.createdBy,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + options.ttlMinutes * 60_000).toISOString(),
+      revoked_at: null,
+    };
+
+    insertSessionShare(row);
+    logger.info(
+      { shareId: row.id, sessionId: row.session_id, expiresAt: row.expires_at },
+      'Session share created'
+    );
+
+    return { share: rowToSessionShare(row), token };
+  }
+
+  /**
+   * Resolve a token to its share, or null if unknown, expired or revoked
+   */
+  resolveToken(token: string | undefined): SessionShare | null {
+    if (!token) {
+      return null;
+    }
+
+    const row = getSessionShareByTokenHash(hashShareToken(token));
+    if (!row || row.revoked_at || Date.parse(row.expires_at) <= Date.now()) {
+      return null;
+    }
+    return rowToSessionShare(row);
+  }
+
+  /**
+   * Get a share by ID
+   */
+  getShare(shareId: string): SessionShare | null {
+    const row = getSessionShareById(shareId);
+    return row ? rowToSessionShare(row) : null;
+  }
+
+  /**
+   * List a session's shares that still work
+   */
+  getActiveShares(sessionId: string): SessionShare[] {
+    return getActiveSessionShares(sessionId, new Date().toISOString()).map(rowToSessionShare);
+  }
+
+  /**
+   * Revoke a share; connected spectators are disconnected by listeners
+   */
+  revoke(shareId: string): SessionShare | null {
+    const row = getSessionShareById(shareId);
+    if (!row) {
+      return null;
+    }
+
+    if (!row.revoked_at) {
+      revokeSessionShare(shareId, new Date().toISOString());
+      logger.info({ shareId, sessionId: row.session_id }, 'Session share revoked');
+    }
+
+    const share = this.getShare(shareId);
+    if (share) {
+      this.emit('revoked', share);
+    }
+    return share;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for status history (against an in-memory database)
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TerminalActivityStatus } from '@masterdashboard/shared';
+import { initDatabase, closeDatabase } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { StatusChangeEventInternal } from '../managers/types.js';
+import { StatusHistoryService } from './status-history-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const { WORKING, WAITING, ERROR, IDLE } = TerminalActivityStatus;
+
+/**
+ * Minimal SessionManager stand-in with two terminals in one project
+ */
+function createSessionManager(): SessionManager {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    getSession: (sessionId: string) =>
+      ['term_1', 'term_2'].includes(sessionId) ? { id: sessionId, projectId: 'prj_1' } : undefined,
+  }) as unknown as SessionManager;
+}
+
+/** Minutes after 09:00 as a Date */
+function at(minutes: number): Date {
+  return new Date(Date.UTC(2026, 0, 5, 9, 0) + minutes * 60_000);
+}
+
+function change(
+  sessionManager: SessionManager,
+  sessionId: string,
+  previousStatus: TerminalActivityStatus,
+  newStatus: TerminalActivityStatus,
+  minutes: number,
+  matchedPattern?: string
+): void {
+  const event: StatusChangeEventInternal = {
+    sessionId,
+    previousStatus,
+    newStatus,
+    matchedPattern,
+    timestamp: at(minutes),
+  };
+  sessionManager.emit('status:change', event);
+}
+
+describe('StatusHistoryService', () => {
+  let sessionManager: SessionManager;
+  let service: StatusHistoryService;
+
+  beforeEach(async () => {
+    await initDatabase();
+    sessionManager = createSessionManager();
+    service = new StatusHistoryService(sessionManager);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should persist status changes with their cause', () => {
+    change(sessionManager, 'term_1', IDLE, WORKING, 0, 'Claude Code Spinner');
+    sessionManager.emit('status:change', {
+      sessionId: 'term_1',
+      previousStatus: WORKING,
+      newStatus: IDLE,
+      timer: 'silence',
+      timestamp: at(1),
+    });
+    change(sessionManager, 'term_other', IDLE, WORKING, 2);
+
+    const transitions = service.list({ projectId: 'prj_1' });
+    expect(transitions.map((t) => [t.newStatus, t.source, t.matchedPattern])).toEqual([
+      [IDLE, 'timer', null],
+      [WORKING, 'pattern', 'Claude Code Spinner'],
+    ]);
+    expect(service.list({ projectId: 'prj_1', sessionId: 'term_2' })).toEqual([]);
+  });
+
+  it('should sum time in each status per session and project', () => {
+    change(sessionManager, 'term_1', IDLE, WORKING, 0);
+    change(sessionManager, 'term_1', WORKING, WAITING, 10);
+    change(sessionManager, 'term_1', WAITING, WORKING, 40);
+    change(sessionManager, 'term_2', IDLE, ERROR, 30);
+
+    const summary = service.summarize('prj_1', at(0).toISOString(), at(60).toISOString());
+    const term1 = summary.sessions.find((s) => s.sessionId === 'term_1')!;
+
+    expect(term1.durations[WORKING]).toBe(30 * 60_000);
+    expect(term1.durations[WAITING]).toBe(30 * 60_000);
+    expect(term1.segments.map((s) => s.status)).toEqual([WORKING, WAITING, WORKING]);
+    expect(summary.totals[WAITING]).toBe(30 * 60_000);
+    expect(summary.totals[ERROR]).toBe(30 * 60_000);
+  });
+
+  it('should carry the status from before the period and stop at session end', () => {
+    change(sessionManager, 'term_1', IDLE, WAITING, 0);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(at(20));
+    sessionManager.emit('session:terminated', { sessionId: 'term_1' });
+    vi.useRealTimers();
+
+    const summary = service.summarize('prj_1', at(10).toISOString(), at(60).toISOString());
+    expect(summary.sessions[0]?.durations[WAITING]).toBe(10 * 60_000);
+    expect(summary.sessions[0]?.durations[IDLE]).toBe(0);
+  });
+
+  it('should flag patterns whose status is quickly replaced', () => {
+    change(sessionManager, 'term_1', WORKING, WAITING, 0, 'Claude Code Question');
+    change(sessionManager, 'term_1', WAITING, WORKING, 0.05);
+    change(sessionManager, 'term_1', WORKING, WAITING, 5, 'Claude Code Question');
+    change(sessionManager, 'term_1', WAITING, WORKING, 15);
+
+    const summary = service.summarize('prj_1', at(0).toISOString(), at(30).toISOString());
+    expect(summary.patterns).toEqual([
+      {
+        pattern: 'Claude Code Question',
+        status: WAITING,
+        count: 2,
+        averageDurationMs: (3_000 + 10 * 60_000) / 2,
+        shortLivedCount: 1,
+      },
+    ]);
+  });
+});
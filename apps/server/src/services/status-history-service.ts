@@ -0,0 +1,253 @@
+/**
+ * Status History Service
+ *
+ * Persists every terminal status change to the status_transitions table and
+ * turns the history into timelines: time spent in each status per session
+ * and per project, and how long the statuses set by each pattern lasted.
+ */
+
+import {
+  TerminalActivityStatus,
+  STATUS_SHORT_LIVED_MS,
+  type PatternStatusStats,
+  type SessionStatusSummary,
+  type StatusDurations,
+  type StatusSummary,
+  type StatusTransition,
+  type StatusTransitionSource,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { StatusChangeEventInternal } from '../managers/types.js';
+import {
+  insertStatusTransition,
+  queryStatusTransitions,
+  getLatestStatusTransitionsBefore,
+  type StatusTransitionFilter,
+  type StatusTransitionRow,
+} from '../persistence/database.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('status-history-service');
+
+/** Period summarized when no start is given */
+const DEFAULT_SUMMARY_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a database row to a StatusTransition
+ */
+export function rowToStatusTransition(row: StatusTransitionRow): StatusTransition {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    projectId: row.project_id,
+    previousStatus: row.previous_status as TerminalActivityStatus,
+    newStatus: row.new_status as TerminalActivityStatus,
+    matchedPattern: row.matched_pattern,
+    source: row.source as StatusTransitionSource,
+    timestamp: row.timestamp,
+  };
+}
+
+function emptyDurations(): StatusDurations {
+  return {
+    [TerminalActivityStatus.WORKING]: 0,
+    [TerminalActivityStatus.WAITING]: 0,
+    [TerminalActivityStatus.ERROR]: 0,
+    [TerminalActivityStatus.IDLE]: 0,
+    [TerminalActivityStatus.STALLED]: 0,
+  };
+}
+
+function getSource(event: StatusChangeEventInternal): StatusTransitionSource {
+  if (event.matchedPattern) return 'pattern';
+  if (event.timer) return 'timer';
+  if (event.hookEvent) return 'hook';
+  return 'manual';
+}
+
+/**
+ * Summarize transitions over a period
+ *
+ * @param transitions - Transitions within the period, in any order
+ * @param initial - Each session's last transition before the period
+ */
+export function summarizeStatusHistory(
+  projectId: string,
+  transitions: StatusTransition[],
+  initial: StatusTransition[],
+  from: Date,
+  to: Date
+): StatusSummary {
+  const bySession = new Map<string, StatusTransition[]>();
+  for (const transition of [...transitions].sort((a, b) => a.id - b.id)) {
+    const list = bySession.get(transition.sessionId) ?? [];
+    list.push(transition);
+    bySession.set(transition.sessionId, list);
+  }
+  const initialBySession = new Map(initial.map((t) => [t.sessionId, t]));
+  for (const sessionId of initialBySession.keys()) {
+    if (!bySession.has(sessionId)) bySession.set(sessionId, []);
+  }
+
+  const totals = emptyDurations();
+  const sessions: SessionStatusSummary[] = [];
+  const patterns = new Map<string, PatternStatusStats & { totalDurationMs: number }>();
+
+  for (const [sessionId, list] of bySession) {
+    const durations = emptyDurations();
+    const segments: SessionStatusSummary['segments'] = [];
+
+    // Status at the start of the period, unless the session had ended
+    const before = initialBySession.get(sessionId);
+    let current: TerminalActivityStatus | null =
+      before && before.source !== 'session-end' ? before.newStatus : null;
+    let since = from.getTime();
+
+    const close = (end: number) => {
+      if (current !== null && end > since) {
+        durations[current] += end - since;
+        segments.push({
+          status: current,
+          start: new Date(since).toISOString(),
+          end: new Date(end).toISOString(),
+        });
+      }
+    };
+
+    list.forEach((transition, index) => {
+      const at = new Date(transition.timestamp).getTime();
+      close(at);
+      current = transition.source === 'session-end' ? null : transition.newStatus;
+      since = at;
+
+      if (transition.matchedPattern) {
+        const next = list[index + 1];
+        const lasted = (next ? new Date(next.timestamp).getTime() : to.getTime()) - at;
+        const stats = patterns.get(transition.matchedPattern) ?? {
+          pattern: transition.matchedPattern,
+          status: transition.newStatus,
+          count: 0,
+          averageDurationMs: 0,
+          shortLivedCount: 0,
+          totalDurationMs: 0,
+        };
+        stats.count += 1;
+        stats.totalDurationMs += lasted;
+        if (next && lasted < STATUS_SHORT_LIVED_MS) {
+          stats.shortLivedCount += 1;
+        }
+        patterns.set(transition.matchedPattern, stats);
+      }
+    });
+    close(to.getTime());
+
+    for (const status of Object.keys(durations) as TerminalActivityStatus[]) {
+      totals[status] += durations[status];
+    }
+    sessions.push({ sessionId, durations, transitions: list.length, segments });
+  }
+
+  return {
+    projectId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals,
+    sessions,
+    patterns: Array.from(patterns.values())
+      .map(({ totalDurationMs, ...stats }) => ({
+        ...stats,
+        averageDurationMs: Math.round(totalDurationMs / stats.count),
+      }))
+      .sort((a, b) => b.shortLivedCount - a.shortLivedCount || b.count - a.count),
+  };
+}
+
+export class StatusHistoryService {
+  /** Project and last status of each session seen, for recording its end */
+  private sessions = new Map<string, { projectId: string; status: TerminalActivityStatus }>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    this.sessionManager.on('status:change', (event: StatusChangeEventInternal) => {
+      this.recordChange(event);
+    });
+
+    this.sessionManager.on('session:terminated', ({ sessionId }) => {
+      this.recordEnd(sessionId);
+    });
+  }
+
+  /**
+   * List transitions, newest first
+   */
+  list(filter: StatusTransitionFilter): StatusTransition[] {
+    return queryStatusTransitions(filter).map(rowToStatusTransition);
+  }
+
+  /**
+   * Summarize a project's status history (defaults to the last 24 hours)
+   */
+  summarize(projectId: string, since?: string, until?: string): StatusSummary {
+    const to = until ? new Date(until) : new Date();
+    const from = since ? new Date(since) : new Date(to.getTime() - DEFAULT_SUMMARY_PERIOD_MS);
+
+    const transitions = this.list({
+      projectId,
+      since: from.toISOString(),
+      until: to.toISOString(),
+    });
+    const initial = getLatestStatusTransitionsBefore(projectId, from.toISOString()).map(
+      rowToStatusTransition
+    );
+
+    return summarizeStatusHistory(projectId, transitions, initial, from, to);
+  }
+
+  private recordChange(event: StatusChangeEventInternal): void {
+    const projectId =
+      this.sessions.get(event.sessionId)?.projectId ??
+      this.sessionManager.getSession(event.sessionId)?.projectId;
+    if (!projectId) {
+      return;
+    }
+
+    this.sessions.set(event.sessionId, { projectId, status: event.newStatus });
+    this.insert({
+      session_id: event.sessionId,
+      project_id: projectId,
+      previous_status: event.previousStatus,
+      new_status: event.newStatus,
+      matched_pattern: event.matchedPattern ?? null,
+      source: getSource(event),
+      timestamp: event.timestamp.toISOString(),
+    });
+  }
+
+  private recordEnd(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    this.insert({
+      session_id: sessionId,
+      project_id: session.projectId,
+      previous_status: session.status,
+      new_status: TerminalActivityStatus.IDLE,
+      matched_pattern: null,
+      source: 'session-end',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Write a transition; a failed write is logged and does not affect the session
+   */
+  private insert(row: Omit<StatusTransitionRow, 'id'>): void {
+    try {
+      insertStatusTransition(row);
+    } catch (error) {
+      logger.error({ error, sessionId: row.session_id }, 'Failed to record status transition');
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for custom status patterns (against an in-memory database)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShellType, TerminalActivityStatus, type StatusPattern } from '@masterdashboard/shared';
+import { initDatabase, closeDatabase, getAllStatusPatterns } from '../persistence/database.js';
+import { StatusDetector } from '../managers/status-detector.js';
+import { BufferManager } from '../managers/buffer-manager.js';
+import { StatusPatternService } from './status-pattern-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const deployPattern: StatusPattern = {
+  id: 'deploy-waiting',
+  name: 'Deploy Approval',
+  shell: ShellType.BASH,
+  pattern: 'Approve deploy\\?',
+  status: TerminalActivityStatus.WAITING,
+  priority: 300,
+  enabled: true,
+};
+
+describe('StatusPatternService', () => {
+  let detector: StatusDetector;
+  let bufferManager: BufferManager;
+  let service: StatusPatternService;
+
+  beforeEach(async () => {
+    await initDatabase();
+    detector = new StatusDetector();
+    bufferManager = new BufferManager({ persistToDisk: false });
+    service = new StatusPatternService(detector, bufferManager);
+  });
+
+  afterEach(() => {
+    detector.destroy();
+    bufferManager.destroy();
+    closeDatabase();
+  });
+
+  it('should apply a saved pattern and restore it after a restart', () => {
+    service.save(deployPattern, 'usr_alice');
+    detector.setSessionShell('term_1', ShellType.BASH);
+    expect(detector.detect('term_1', 'Approve deploy? ')).toBe(TerminalActivityStatus.WAITING);
+
+    const restartedDetector = new StatusDetector();
+    const restarted = new StatusPatternService(restartedDetector, bufferManager);
+    restarted.load();
+
+    expect(restarted.list(ShellType.BASH)).toContainEqual({ ...deployPattern, source: 'custom' });
+    expect(restarted.list(ShellType.ZSH).map((p) => p.id)).not.toContain('deploy-waiting');
+    restartedDetector.destroy();
+  });
+
+  it('should override a built-in pattern and restore it on removal', () => {
+    const builtIn = service.list().find((p) => p.id === 'npm-error')!;
+    expect(builtIn.source).toBe('builtin');
+
+    service.save({ ...builtIn, enabled: false }, null);
+    expect(service.list().find((p) => p.id === 'npm-error')).toMatchObject({
+      enabled: false,
+      source: 'override',
+    });
+    expect(detector.detect('term_1', 'npm ERR! code ENOENT')).not.toBe(TerminalActivityStatus.ERROR);
+
+    expect(service.remove('npm-error')).toBe(true);
+    expect(service.list().find((p) => p.id === 'npm-error')).toEqual(builtIn);
+    expect(getAllStatusPatterns()).toEqual([]);
+  });
+
+  it('should refuse to remove built-in patterns', () => {
+    expect(() => service.remove('npm-error')).toThrow(/Built-in patterns cannot be removed/);
+    expect(service.remove('no-such-pattern')).toBe(false);
+  });
+
+  it('should not store a pattern that does not compile', () => {
+    expect(() => service.save({ ...deployPattern, pattern: '(unclosed' }, null)).toThrow();
+    expect(getAllStatusPatterns()).toEqual([]);
+  });
+
+  it('should test a pattern against recent output', () => {
+    bufferManager.createBuffer('term_1');
+    bufferManager.appendOutput('term_1', 'Approve deploy? n\r\nbuilding\r\nApprove deploy? ');
+    detector.detect('term_1', 'building\nApprove deploy? ');
+
+    const result = service.test('term_1', 'Approve deploy\\?');
+    expect(result.results.map((r) => r.lineNumber)).toEqual([2, 0]);
+    expect(result.matchesLatest).toBe(true);
+
+    // Only in older output, not in the lines the detector looks at
+    const older = service.test('term_1', 'deploy\\? n');
+    expect(older.results).toHaveLength(1);
+    expect(older.matchesLatest).toBe(false);
+    expect(() => service.test('term_missing', 'x')).toThrow(/not found/i);
+  });
+});
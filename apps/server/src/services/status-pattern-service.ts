@@ -0,0 +1,176 @@
+/**
+ * Status Pattern Service
+ *
+ * Manages user-defined status patterns on top of the built-in registry.
+ * Custom patterns are stored in the status_patterns table and loaded into
+ * the StatusDetector at startup. A custom pattern with the ID of a built-in
+ * one overrides it; removing the override brings the built-in back.
+ */
+
+import type {
+  ListedStatusPattern,
+  StatusPattern,
+  StatusPatternSource,
+  StatusPatternTestResultPayload,
+  ShellType,
+  TerminalActivityStatus,
+} from '@masterdashboard/shared';
+import type { StatusDetector } from '../managers/status-detector.js';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import { ALL_PATTERNS } from '../patterns/index.js';
+import {
+  upsertStatusPattern,
+  getAllStatusPatterns,
+  deleteStatusPattern,
+  type StatusPatternRow,
+} from '../persistence/database.js';
+import { SessionNotFoundError, ValidationError } from '../utils/errors.js';
+import { testRegExp } from '../utils/regex.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('status-pattern-service');
+
+/** Most recent matches returned by a pattern test */
+const TEST_MAX_RESULTS = 50;
+
+const BUILT_IN_PATTERNS = new Map(ALL_PATTERNS.map((pattern) => [pattern.id, pattern]));
+
+/**
+ * Convert a database row to a StatusPattern
+ */
+export function rowToStatusPattern(row: StatusPatternRow): StatusPattern {
+  return {
+    id: row.id,
+    name: row.name,
+    shell: row.shell as ShellType | 'all',
+    pattern: row.pattern,
+    status: row.status as TerminalActivityStatus,
+    priority: row.priority,
+    enabled: row.enabled === 1,
+  };
+}
+
+export class StatusPatternService {
+  private customIds = new Set<string>();
+
+  constructor(
+    private readonly statusDetector: StatusDetector,
+    private readonly bufferManager: BufferManager
+  ) {}
+
+  /**
+   * Load stored patterns into the status detector
+   */
+  load(): void {
+    const rows = getAllStatusPatterns();
+    for (const row of rows) {
+      try {
+        this.statusDetector.addPattern(rowToStatusPattern(row));
+        this.customIds.add(row.id);
+      } catch (error) {
+        logger.warn({ patternId: row.id, error }, 'Skipping stored status pattern that does not compile');
+      }
+    }
+
+    logger.info({ count: this.customIds.size }, 'Custom status patterns loaded');
+  }
+
+  /**
+   * List patterns, optionally only those applying to a shell
+   */
+  list(shell?: ShellType): ListedStatusPattern[] {
+    return this.statusDetector
+      .getPatterns(shell)
+      .map((pattern) => ({ ...pattern, source: this.getSource(pattern.id) }));
+  }
+
+  /**
+   * Add or replace a custom pattern
+   */
+  save(pattern: StatusPattern, createdBy: string | null): ListedStatusPattern {
+    const now = new Date().toISOString();
+
+    // Compile before storing so a bad pattern never reaches the database
+    this.statusDetector.addPattern(pattern);
+    upsertStatusPattern({
+      id: pattern.id,
+      name: pattern.name,
+      shell: pattern.shell,
+      pattern: pattern.pattern,
+      status: pattern.status,
+      priority: pattern.priority,
+      enabled: pattern.enabled === false ? 0 : 1,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    });
+    this.customIds.add(pattern.id);
+
+    logger.info({ patternId: pattern.id, createdBy }, 'Custom status pattern saved');
+    return { ...pattern, source: this.getSource(pattern.id) };
+  }
+
+  /**
+   * Remove a custom pattern, restoring the built-in it overrode
+   * Returns false if no such custom pattern exists.
+   */
+  remove(patternId: string): boolean {
+    if (!this.customIds.has(patternId)) {
+      if (BUILT_IN_PATTERNS.has(patternId)) {
+        throw new ValidationError('Built-in patterns cannot be removed; disable them instead', {
+          patternId,
+        });
+      }
+      return false;
+    }
+
+    deleteStatusPattern(patternId);
+    this.customIds.delete(patternId);
+    this.statusDetector.removePattern(patternId);
+
+    const builtIn = BUILT_IN_PATTERNS.get(patternId);
+    if (builtIn) {
+      this.statusDetector.addPattern(builtIn);
+    }
+
+    logger.info({ patternId, restoredBuiltIn: !!builtIn }, 'Custom status pattern removed');
+    return true;
+  }
+
+  /**
+   * Test a regex against a session's scrollback and the output the
+   * status detector is currently looking at
+   */
+  test(sessionId: string, pattern: string): StatusPatternTestResultPayload {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'm');
+    } catch (error) {
+      throw new ValidationError(`Invalid regular expression: ${(error as Error).message}`);
+    }
+
+    const results = this.bufferManager.search(sessionId, {
+      pattern: regex,
+      caseSensitive: true,
+      direction: 'backward',
+      maxResults: TEST_MAX_RESULTS,
+    });
+    if (!results) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    return {
+      ...results,
+      sessionId,
+      pattern,
+      matchesLatest: testRegExp(regex, this.statusDetector.getRecentOutput(sessionId)),
+    };
+  }
+
+  private getSource(patternId: string): StatusPatternSource {
+    if (!this.customIds.has(patternId)) {
+      return 'builtin';
+    }
+    return BUILT_IN_PATTERNS.has(patternId) ? 'override' : 'custom';
+  }
+}
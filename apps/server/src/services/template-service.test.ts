@@ -0,0 +1,181 @@
+/**
+ * Unit tests for workspace templates (against an in-memory database and a
+ * temporary project directory)
+ */
+
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  NodeType,
+  ShellType,
+  REPO_TEMPLATES_DIR,
+  type TerminalConfig,
+  type WorkspaceTemplateInput,
+} from '@masterdashboard/shared';
+import { initDatabase, closeDatabase, insertProject } from '../persistence/database.js';
+import type { SessionManager } from '../managers/session-manager.js';
+import { TemplateService, toTemplateCwd } from './template-service.js';
+
+vi.mock('../config/env.js', () => ({
+  getEnv: () => ({ DATABASE_URL: ':memory:' }),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function template(overrides: Partial<WorkspaceTemplateInput> = {}): WorkspaceTemplateInput {
+  return {
+    id: 'fullstack',
+    projectId: 'prj_1',
+    source: 'project',
+    name: 'Full stack',
+    nodes: [
+      {
+        type: NodeType.TERMINAL,
+        label: 'API',
+        position: { x: 0, y: 0 },
+        cwd: 'api',
+        env: { PORT: '4000' },
+        command: 'pnpm dev',
+      },
+      { type: NodeType.GIT, position: { x: 700, y: 0 } },
+    ],
+    ...overrides,
+  };
+}
+
+describe('toTemplateCwd', () => {
+  it('should make paths inside the project relative', () => {
+    expect(toTemplateCwd('/work/app/api', '/work/app')).toBe('api');
+    expect(toTemplateCwd('/work/app', '/work/app')).toBe('.');
+    expect(toTemplateCwd('/elsewhere', '/work/app')).toBe('/elsewhere');
+    expect(toTemplateCwd('web', '/work/app')).toBe('web');
+    expect(toTemplateCwd(undefined, '/work/app')).toBeUndefined();
+  });
+});
+
+describe('TemplateService', () => {
+  let projectDir: string;
+  let created: TerminalConfig[];
+  let service: TemplateService;
+
+  beforeEach(async () => {
+    await initDatabase();
+    projectDir = mkdtempSync(join(tmpdir(), 'templates-'));
+    const now = new Date().toISOString();
+    insertProject({
+      id: 'prj_1',
+      name: 'App',
+      description: null,
+      default_cwd: projectDir,
+      settings: JSON.stringify({ defaultShell: ShellType.ZSH }),
+      created_at: now,
+      updated_at: now,
+      owner_id: null,
+    });
+
+    created = [];
+    const sessionManager = {
+      createTerminalSession: async (_clientId: string, config: TerminalConfig) => {
+        if (config.title === 'Broken') throw new Error('spawn failed');
+        created.push(config);
+        return { id: `term_${created.length}` };
+      },
+    } as unknown as SessionManager;
+    service = new TemplateService(sessionManager);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should store project templates with cwds relative to the project', async () => {
+    const apiDir = join(projectDir, 'api');
+    await service.save(template({ nodes: [{ ...template().nodes[0]!, cwd: apiDir }] }));
+
+    const [saved] = await service.list('prj_1');
+    expect(saved).toMatchObject({ id: 'fullstack', source: 'project', name: 'Full stack' });
+    expect(saved!.nodes[0]!.cwd).toBe('api');
+
+    expect(await service.remove('prj_1', 'project', 'fullstack')).toBe(true);
+    expect(await service.list('prj_1')).toEqual([]);
+  });
+
+  it('should read YAML and JSON templates from the repository and skip invalid ones', async () => {
+    const dir = join(projectDir, REPO_TEMPLATES_DIR);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, 'agents.yaml'),
+      ['name: Agents', 'nodes:', '  - type: terminal', '    shell: claude-code', '    position: { x: 0, y: 0 }'].join('\n')
+    );
+    writeFileSync(join(dir, 'notes.json'), JSON.stringify({ name: 'Notes', nodes: [{ type: 'notes', position: { x: 0, y: 0 } }] }));
+    writeFileSync(join(dir, 'broken.yml'), 'name: Broken\nnodes: []\n');
+    writeFileSync(join(dir, 'README.md'), '# Templates');
+
+    const templates = await service.list('prj_1');
+    expect(templates.map((t) => [t.id, t.source, t.name])).toEqual([
+      ['agents', 'repo', 'Agents'],
+      ['notes', 'repo', 'Notes'],
+    ]);
+    expect(templates[0]!.nodes[0]!.shell).toBe(ShellType.CLAUDE_CODE);
+  });
+
+  it('should write repository templates as YAML and delete the file', async () => {
+    await service.save(template({ source: 'repo' }));
+
+    const filePath = join(projectDir, REPO_TEMPLATES_DIR, 'fullstack.yaml');
+    expect(readFileSync(filePath, 'utf-8')).toContain('name: Full stack');
+    expect((await service.get('prj_1', 'repo', 'fullstack'))?.nodes).toHaveLength(2);
+
+    expect(await service.remove('prj_1', 'repo', 'fullstack')).toBe(true);
+    expect(existsSync(filePath)).toBe(false);
+    expect(await service.remove('prj_1', 'repo', 'fullstack')).toBe(false);
+  });
+
+  it('should create a session per terminal node and report failures per node', async () => {
+    await service.save(
+      template({
+        nodes: [
+          ...template().nodes,
+          { type: NodeType.TERMINAL, label: 'Broken', position: { x: 0, y: 500 } },
+        ],
+      })
+    );
+
+    const result = await service.launch('client_1', null, {
+      projectId: 'prj_1',
+      templateId: 'fullstack',
+      source: 'project',
+    });
+
+    expect(created).toEqual([
+      expect.objectContaining({
+        shell: ShellType.ZSH,
+        cwd: join(projectDir, 'api'),
+        env: { PORT: '4000' },
+        initialCommand: 'pnpm dev',
+        title: 'API',
+      }),
+    ]);
+    expect(result?.nodes.map((n) => [n.node.type, n.sessionId, n.error])).toEqual([
+      [NodeType.TERMINAL, 'term_1', undefined],
+      [NodeType.GIT, null, undefined],
+      [NodeType.TERMINAL, null, 'Failed to create session'],
+    ]);
+    expect(result?.nodes[1]!.node.cwd).toBe(projectDir);
+
+    expect(
+      await service.launch('client_1', null, { projectId: 'prj_1', templateId: 'missing', source: 'project' })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Template Service
+ *
+ * Stores workspace templates and launches them. Project templates live in
+ * the database; repository templates are YAML or JSON files under
+ * REPO_TEMPLATES_DIR in the project's default cwd, so they can be committed
+ * alongside the code. Launching a template creates a terminal session for
+ * each terminal node; the client then adds the nodes to its canvas.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import YAML from 'yaml';
+import {
+  NodeType,
+  ShellType,
+  REPO_TEMPLATES_DIR,
+  templateIdSchema,
+  workspaceTemplateDefinitionSchema,
+  type ProjectSettings,
+  type TemplateLaunchPayload,
+  type TemplateLaunchResult,
+  type WorkspaceTemplate,
+  type WorkspaceTemplateDefinition,
+  type WorkspaceTemplateInput,
+  type WorkspaceTemplateNode,
+  type WorkspaceTemplateSource,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import {
+  getProjectById,
+  upsertWorkspaceTemplate,
+  getWorkspaceTemplate,
+  getWorkspaceTemplatesByProject,
+  deleteWorkspaceTemplate,
+  type ProjectRow,
+  type WorkspaceTemplateRow,
+} from '../persistence/database.js';
+import { ProjectNotFoundError, isAppError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('template-service');
+
+const TEMPLATE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Convert a database row to a WorkspaceTemplate
+ */
+export function rowToWorkspaceTemplate(row: WorkspaceTemplateRow): WorkspaceTemplate {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    source: 'project',
+    name: row.name,
+    description: row.description ?? undefined,
+    nodes: JSON.parse(row.nodes) as WorkspaceTemplateNode[],
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Parse and validate the contents of a template file
+ */
+export function parseTemplateFile(fileName: string, content: string): WorkspaceTemplateDefinition {
+  const raw: unknown = fileName.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  return workspaceTemplateDefinitionSchema.parse(raw) as WorkspaceTemplateDefinition;
+}
+
+/**
+ * Make a node's cwd relative to the project directory when it lies inside it,
+ * so templates keep working when the repository is checked out elsewhere
+ */
+export function toTemplateCwd(cwd: string | undefined, projectCwd: string): string | undefined {
+  if (!cwd || !path.isAbsolute(cwd)) return cwd;
+
+  const relative = path.relative(projectCwd, cwd);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return cwd;
+  return relative || '.';
+}
+
+export class TemplateService {
+  constructor(private readonly sessionManager: SessionManager) {}
+
+  /**
+   * List a project's templates from both sources
+   */
+  async list(projectId: string): Promise<WorkspaceTemplate[]> {
+    const stored = getWorkspaceTemplatesByProject(projectId).map(rowToWorkspaceTemplate);
+    const project = getProjectById(projectId);
+    const repo = project ? await this.readRepoTemplates(project) : [];
+    return [...stored, ...repo];
+  }
+
+  /**
+   * Get a template by source and ID
+   */
+  async get(
+    projectId: string,
+    source: WorkspaceTemplateSource,
+    templateId: string
+  ): Promise<WorkspaceTemplate | undefined> {
+    if (source === 'project') {
+      const row = getWorkspaceTemplate(projectId, templateId);
+      return row ? rowToWorkspaceTemplate(row) : undefined;
+    }
+
+    const project = this.requireProject(projectId);
+    const templates = await this.readRepoTemplates(project);
+    return templates.find((template) => template.id === templateId);
+  }
+
+  /**
+   * Add or replace a template
+   * Repository templates are written as YAML unless a JSON file already
+   * holds the template.
+   */
+  async save(input: WorkspaceTemplateInput): Promise<WorkspaceTemplate> {
+    const project = this.requireProject(input.projectId);
+    const definition: WorkspaceTemplateDefinition = {
+      name: input.name,
+      description: input.description,
+      nodes: input.nodes.map((node) => ({
+        ...node,
+        cwd: toTemplateCwd(node.cwd, project.default_cwd),
+      })),
+    };
+
+    if (input.source === 'project') {
+      const now = new Date().toISOString();
+      upsertWorkspaceTemplate({
+        id: input.id,
+        project_id: input.projectId,
+        name: definition.name,
+        description: definition.description ?? null,
+        nodes: JSON.stringify(definition.nodes),
+        created_at: now,
+        updated_at: now,
+      });
+    } else {
+      const existing = await this.findRepoTemplateFile(project, input.id);
+      const filePath = existing ?? path.join(this.getRepoTemplatesDir(project), `${input.id}.yaml`);
+      const content = filePath.endsWith('.json')
+        ? `${JSON.stringify(definition, null, 2)}\n`
+        : YAML.stringify(definition);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+
+    logger.info(
+      { templateId: input.id, projectId: input.projectId, source: input.source },
+      'Workspace template saved'
+    );
+    return (await this.get(input.projectId, input.source, input.id))!;
+  }
+
+  /**
+   * Remove a template
+   * Returns false if it did not exist.
+   */
+  async remove(
+    projectId: string,
+    source: WorkspaceTemplateSource,
+    templateId: string
+  ): Promise<boolean> {
+    let removed: boolean;
+    if (source === 'project') {
+      removed = deleteWorkspaceTemplate(projectId, templateId);
+    } else {
+      const filePath = await this.findRepoTemplateFile(this.requireProject(projectId), templateId);
+      if (filePath) {
+        await fs.unlink(filePath);
+      }
+      removed = filePath !== undefined;
+    }
+
+    if (removed) {
+      logger.info({ templateId, projectId, source }, 'Workspace template removed');
+    }
+    return removed;
+  }
+
+  /**
+   * Create the sessions for a template's terminal nodes
+   * A terminal that fails to start is reported on its node rather than
+   * failing the whole launch. Returns undefined if the template does not exist.
+   */
+  async launch(
+    clientId: string,
+    ownerId: string | null,
+    payload: TemplateLaunchPayload
+  ): Promise<TemplateLaunchResult | undefined> {
+    const project = this.requireProject(payload.projectId);
+    const template = await this.get(payload.projectId, payload.source, payload.templateId);
+    if (!template) return undefined;
+
+    const settings = JSON.parse(project.settings) as Partial<ProjectSettings>;
+    const result: TemplateLaunchResult = {
+      templateId: template.id,
+      source: template.source,
+      nodes: [],
+    };
+
+    for (const templateNode of template.nodes) {
+      const cwd = path.resolve(project.default_cwd, templateNode.cwd ?? '.');
+      const node: WorkspaceTemplateNode = { ...templateNode, cwd };
+
+      if (node.type !== NodeType.TERMINAL) {
+        result.nodes.push({ node, sessionId: null });
+        continue;
+      }
+
+      node.shell = node.shell ?? settings.defaultShell ?? ShellType.BASH;
+      try {
+        const session = await this.sessionManager.createTerminalSession(
+          clientId,
+          {
+            shell: node.shell,
+            cwd,
+            env: node.env,
+            initialCommand: node.command,
+            hooks: node.hooks,
+            projectId: project.id,
+            title: node.label,
+          },
+          ownerId
+        );
+        result.nodes.push({ node, sessionId: session.id });
+      } catch (error) {
+        logger.warn({ templateId: template.id, label: node.label, error }, 'Template terminal failed to start');
+        result.nodes.push({
+          node,
+          sessionId: null,
+          error: isAppError(error) ? error.message : 'Failed to create session',
+        });
+      }
+    }
+
+    logger.info(
+      { templateId: template.id, projectId: project.id, nodes: result.nodes.length },
+      'Workspace template launched'
+    );
+    return result;
+  }
+
+  private requireProject(projectId: string): ProjectRow {
+    const project = getProjectById(projectId);
+    if (!project) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return project;
+  }
+
+  private getRepoTemplatesDir(project: ProjectRow): string {
+    return path.join(project.default_cwd, REPO_TEMPLATES_DIR);
+  }
+
+  /**
+   * Template files in the repository, keyed by template ID (the file name
+   * without extension)
+   */
+  private async listRepoTemplateFiles(project: ProjectRow): Promise<Map<string, string>> {
+    const dir = this.getRepoTemplatesDir(project);
+    const files = new Map<string, string>();
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      return files;
+    }
+
+    for (const entry of entries.sort()) {
+      const extension = path.extname(entry);
+      const id = path.basename(entry, extension);
+      if (TEMPLATE_FILE_EXTENSIONS.includes(extension) && templateIdSchema.safeParse(id).success && !files.has(id)) {
+        files.set(id, path.join(dir, entry));
+      }
+    }
+    return files;
+  }
+
+  private async findRepoTemplateFile(project: ProjectRow, templateId: string): Promise<string | undefined> {
+    return (await this.listRepoTemplateFiles(project)).get(templateId);
+  }
+
+  private async readRepoTemplates(project: ProjectRow): Promise<WorkspaceTemplate[]> {
+    const templates: WorkspaceTemplate[] = [];
+
+    for (const [id, filePath] of await this.listRepoTemplateFiles(project)) {
+      try {
+        const [content, stats] = await Promise.all([
+          fs.readFile(filePath, 'utf-8'),
+          fs.stat(filePath),
+        ]);
+        templates.push({
+          ...parseTemplateFile(filePath, content),
+          id,
+          projectId: project.id,
+          source: 'repo',
+          path: filePath,
+          updatedAt: stats.mtime.toISOString(),
+        });
+      } catch (error) {
+        logger.warn({ filePath, error }, 'Skipping invalid template file');
+      }
+    }
+    return templates;
+  }
+}
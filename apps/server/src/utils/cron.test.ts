@@ -0,0 +1,69 @@
+/**
+ * Unit tests for cron expression parsing and scheduling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronRun } from './cron.js';
+import { ValidationError } from './errors.js';
+
+/** Local time, as cron runs in server-local time */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('parseCron', () => {
+  it('should parse lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 * mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.dayOfMonthRestricted).toBe(true);
+    expect(schedule.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('should expand shorthands and treat 7 as Sunday', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('0 0 * * 5/1').daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(ValidationError);
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid minute "60"');
+    expect(() => parseCron('* * * foo *')).toThrow('Invalid month');
+    expect(() => parseCron('* 5-2 * * *')).toThrow('Invalid hour range');
+    expect(() => parseCron('*/0 * * * *')).toThrow(ValidationError);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('should find the next nightly run', () => {
+    const schedule = parseCron('0 2 * * *');
+
+    expect(nextCronRun(schedule, local(2026, 1, 5, 1, 30))).toEqual(local(2026, 1, 5, 2, 0));
+    expect(nextCronRun(schedule, local(2026, 1, 5, 2, 0))).toEqual(local(2026, 1, 6, 2, 0));
+  });
+
+  it('should roll over months and years', () => {
+    expect(nextCronRun(parseCron('30 8 1 * *'), local(2026, 12, 15))).toEqual(
+      local(2027, 1, 1, 8, 30)
+    );
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    const schedule = parseCron('0 12 13 * fri');
+
+    // Monday 5 January 2026 -> Friday 9 January
+    expect(nextCronRun(schedule, local(2026, 1, 5))).toEqual(local(2026, 1, 9, 12, 0));
+    // Saturday 10 January -> Tuesday 13 January
+    expect(nextCronRun(schedule, local(2026, 1, 10))).toEqual(local(2026, 1, 13, 12, 0));
+  });
+
+  it('should give up on dates that never come', () => {
+    expect(nextCronRun(parseCron('0 0 30 2 *'), local(2026, 1, 1))).toBeNull();
+  });
+});
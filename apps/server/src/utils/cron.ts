@@ -0,0 +1,178 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard five-field cron expressions (minute, hour, day of month,
+ * month, day of week) and finds their next run in server-local time.
+ * Fields accept `*`, lists, ranges, steps and month and weekday names;
+ * `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly` are shorthands.
+ *
+ * As in Vixie cron, when both day fields are restricted a day matches
+ * either of them.
+ */
+
+import { ValidationError } from './errors.js';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field is restricted (not `*`) */
+  dayOfMonthRestricted: boolean;
+  /** Whether the day of week field is restricted (not `*`) */
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** How far ahead to look for a run before giving up (e.g. on 30 February) */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for values, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is also Sunday
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+function parseValue(text: string, spec: FieldSpec, expression: string): number {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + spec.min : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new ValidationError(`Invalid ${spec.name} "${text}" in cron expression`, { expression });
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (range === undefined || extra !== undefined || range === '') {
+      throw new ValidationError(`Invalid ${spec.name} "${part}" in cron expression`, { expression });
+    }
+
+    const step = stepText === undefined ? 1 : parseValue(stepText, { ...spec, min: 1, names: undefined }, expression);
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from ?? '', spec, expression);
+      end = parseValue(to ?? '', spec, expression);
+    } else {
+      start = parseValue(range, spec, expression);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new ValidationError(`Invalid ${spec.name} range "${range}" in cron expression`, {
+        expression,
+      });
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws ValidationError if it is not valid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new ValidationError('Cron expressions have five fields: minute hour day month weekday', {
+      expression,
+    });
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((spec, index) =>
+    parseField(fields[index]!, spec, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2]!.startsWith('*'),
+    dayOfWeekRestricted: !fields[4]!.startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First minute strictly after `after` that the schedule runs at, or null if
+ * it never runs (within five years)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
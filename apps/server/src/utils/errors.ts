@@ -10,6 +10,7 @@ export enum ErrorCode {
   SESSION_ALREADY_EXISTS = 'SESSION_ALREADY_EXISTS',
   SESSION_TERMINATED = 'SESSION_TERMINATED',
   SESSION_INVALID_STATE = 'SESSION_INVALID_STATE',
+  SESSION_HOOK_FAILED = 'SESSION_HOOK_FAILED',
 
   // Project errors
   PROJECT_NOT_FOUND = 'PROJECT_NOT_FOUND',
@@ -20,6 +21,9 @@ export enum ErrorCode {
   PTY_NOT_FOUND = 'PTY_NOT_FOUND',
   PTY_WRITE_FAILED = 'PTY_WRITE_FAILED',
 
+  // Tmux errors
+  TMUX_TARGET_NOT_FOUND = 'TMUX_TARGET_NOT_FOUND',
+
   // SSH errors
   SSH_CONNECTION_FAILED = 'SSH_CONNECTION_FAILED',
   SSH_AUTH_FAILED = 'SSH_AUTH_FAILED',
@@ -36,6 +40,9 @@ export enum ErrorCode {
   WS_UNAUTHORIZED = 'WS_UNAUTHORIZED',
   WS_RATE_LIMITED = 'WS_RATE_LIMITED',
 
+  // Authorization errors
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+
   // Database errors
   DB_CONNECTION_FAILED = 'DB_CONNECTION_FAILED',
   DB_QUERY_FAILED = 'DB_QUERY_FAILED',
@@ -114,6 +121,20 @@ export class SessionTerminatedError extends AppError {
   }
 }
 
+export class SessionHookError extends AppError {
+  constructor(sessionId: string, hook: string, errorMessage: string) {
+    super(
+      {
+        code: ErrorCode.SESSION_HOOK_FAILED,
+        message: `${hook} hook failed: ${errorMessage}`,
+        details: { sessionId, hook },
+      },
+      500
+    );
+    this.name = 'SessionHookError';
+  }
+}
+
 export class ProjectNotFoundError extends AppError {
   constructor(projectId: string) {
     super(
@@ -158,6 +179,20 @@ export class PTYNotFoundError extends AppError {
   }
 }
 
+export class TmuxTargetNotFoundError extends AppError {
+  constructor(target: string) {
+    super(
+      {
+        code: ErrorCode.TMUX_TARGET_NOT_FOUND,
+        message: `Tmux session, window or pane not found: ${target}`,
+        details: { target },
+      },
+      404
+    );
+    this.name = 'TmuxTargetNotFoundError';
+  }
+}
+
 export class SSHConnectionError extends AppError {
   constructor(host: string, errorMessage: string) {
     super(
@@ -256,6 +291,20 @@ export class WebSocketError extends AppError {
   }
 }
 
+export class PermissionDeniedError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(
+      {
+        code: ErrorCode.PERMISSION_DENIED,
+        message,
+        details,
+      },
+      403
+    );
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 export class FileNotFoundError extends AppError {
   constructor(filePath: string) {
     super(
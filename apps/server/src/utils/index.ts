@@ -16,3 +16,21 @@ export {
   wrapError,
   type ErrorDetails,
 } from './errors.js';
+export { parseCron, nextCronRun, type CronSchedule } from './cron.js';
+export {
+  parseProcStat,
+  readProcessTable,
+  collectProcessTree,
+  CLOCK_TICKS_PER_SECOND,
+  PAGE_SIZE_BYTES,
+  type ProcStat,
+  type ProcTreeEntry,
+} from './proc.js';
+export {
+  execLines,
+  findLineMatches,
+  testRegExp,
+  REGEX_TIMEOUT_MS,
+  type LineMatch,
+  type LineMatchOptions,
+} from './regex.js';
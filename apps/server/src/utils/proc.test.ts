@@ -0,0 +1,96 @@
+/**
+ * Unit tests for reading the Linux process table (from a fake /proc)
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  parseProcStat,
+  readProcessTable,
+  collectProcessTree,
+  PAGE_SIZE_BYTES,
+  type ProcStat,
+} from './proc.js';
+
+/** A /proc/<pid>/stat line with the fields we read filled in */
+function statLine(pid: number, command: string, ppid: number, cpuTicks = 0, rssPages = 0): string {
+  return `${pid} (${command}) S ${ppid} ${pid} ${pid} 34816 ${pid} 4194304 100 0 0 0 ${cpuTicks} 0 0 0 20 0 1 0 ${pid * 10} 10000000 ${rssPages} 18446744073709551615 1 1 0 0 0 0 0 0 0 0 0 0 17 0 0 0 0 0 0\n`;
+}
+
+function stat(pid: number, ppid: number): ProcStat {
+  return { pid, ppid, command: `p${pid}`, cpuTicks: 0, startTime: 0, rssBytes: 0 };
+}
+
+describe('parseProcStat', () => {
+  it('should read the fields it needs', () => {
+    expect(parseProcStat(statLine(42, 'node', 1, 250, 3))).toEqual({
+      pid: 42,
+      ppid: 1,
+      command: 'node',
+      cpuTicks: 250,
+      startTime: 420,
+      rssBytes: 3 * PAGE_SIZE_BYTES,
+    });
+  });
+
+  it('should allow spaces and parentheses in the command', () => {
+    expect(parseProcStat(statLine(7, 'tmux: server (1)', 1))?.command).toBe('tmux: server (1)');
+  });
+
+  it('should reject malformed content', () => {
+    expect(parseProcStat('')).toBeNull();
+    expect(parseProcStat('12 (bash) S')).toBeNull();
+  });
+});
+
+describe('readProcessTable', () => {
+  let procRoot: string;
+
+  beforeEach(() => {
+    procRoot = mkdtempSync(join(tmpdir(), 'mdb-proc-'));
+  });
+
+  afterEach(() => {
+    rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('should read numeric entries and skip the rest', async () => {
+    for (const [pid, command] of [[1, 'init'], [20, 'bash']] as const) {
+      mkdirSync(join(procRoot, String(pid)));
+      writeFileSync(join(procRoot, String(pid), 'stat'), statLine(pid, command, pid === 1 ? 0 : 1));
+    }
+    // Exited after being listed
+    mkdirSync(join(procRoot, '30'));
+    mkdirSync(join(procRoot, 'self'));
+
+    const table = await readProcessTable(procRoot);
+
+    expect([...table.keys()].sort((a, b) => a - b)).toEqual([1, 20]);
+    expect(table.get(20)?.command).toBe('bash');
+  });
+});
+
+describe('collectProcessTree', () => {
+  // pid, ppid
+  const table = new Map(
+    [[1, 0], [10, 1], [11, 10], [12, 11], [13, 10], [20, 1]].map(([pid, ppid]) => [
+      pid!,
+      stat(pid!, ppid!),
+    ])
+  );
+
+  it('should walk the tree depth first with depths', () => {
+    expect(collectProcessTree(table, [10]).map(({ pid, depth }) => [pid, depth])).toEqual([
+      [10, 0],
+      [11, 1],
+      [12, 2],
+      [13, 1],
+    ]);
+  });
+
+  it('should combine roots and skip missing ones', () => {
+    expect(collectProcessTree(table, [20, 99, 13]).map(({ pid }) => pid)).toEqual([20, 13]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Linux Process Table
+ *
+ * Reads processes from `/proc/<pid>/stat` and walks the trees under given
+ * processes. CPU times are in clock ticks and memory in pages; the kernel
+ * defaults of 100 ticks a second and 4 KiB pages are assumed.
+ */
+
+import * as fs from 'fs/promises';
+import { join } from 'path';
+
+/** Clock ticks per second (USER_HZ) */
+export const CLOCK_TICKS_PER_SECOND = 100;
+
+/** Bytes per memory page */
+export const PAGE_SIZE_BYTES = 4096;
+
+export interface ProcStat {
+  pid: number;
+  ppid: number;
+  /** Command name (comm), at most 15 characters */
+  command: string;
+  /** User plus system CPU time, in clock ticks */
+  cpuTicks: number;
+  /** Start time after boot, in clock ticks; tells a reused pid apart */
+  startTime: number;
+  rssBytes: number;
+}
+
+/**
+ * A process in a tree, with its distance from the tree's root
+ */
+export interface ProcTreeEntry extends ProcStat {
+  depth: number;
+}
+
+/**
+ * Parse the contents of `/proc/<pid>/stat`, or return null if malformed
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  // The command is in parentheses and may itself contain spaces and ")"
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open === -1 || close < open) {
+    return null;
+  }
+
+  const pid = Number(content.slice(0, open).trim());
+  // Fields from the third (state) on
+  const fields = content.slice(close + 2).trim().split(/\s+/);
+  const ppid = Number(fields[1]);
+  const utime = Number(fields[11]);
+  const stime = Number(fields[12]);
+  const startTime = Number(fields[19]);
+  const rssPages = Number(fields[21]);
+
+  if ([pid, ppid, utime, stime, startTime, rssPages].some((value) => !Number.isFinite(value))) {
+    return null;
+  }
+
+  return {
+    pid,
+    ppid,
+    command: content.slice(open + 1, close),
+    cpuTicks: utime + stime,
+    startTime,
+    rssBytes: Math.max(0, rssPages) * PAGE_SIZE_BYTES,
+  };
+}
+
+/**
+ * Read every process, by pid
+ * Processes that exit while being read are left out.
+ */
+export async function readProcessTable(procRoot = '/proc'): Promise<Map<number, ProcStat>> {
+  const entries = await fs.readdir(procRoot);
+  const table = new Map<number, ProcStat>();
+
+  await Promise.all(
+    entries
+      .filter((entry) => /^\d+$/.test(entry))
+      .map(async (entry) => {
+        try {
+          const stat = parseProcStat(await fs.readFile(join(procRoot, entry, 'stat'), 'utf8'));
+          if (stat) {
+            table.set(stat.pid, stat);
+          }
+        } catch {
+          // Exited since the directory was listed
+        }
+      })
+  );
+
+  return table;
+}
+
+/**
+ * The processes under each root, including the roots, parents before
+ * their children. Roots that are not in the table are skipped.
+ */
+export function collectProcessTree(
+  table: Map<number, ProcStat>,
+  rootPids: readonly number[]
+): ProcTreeEntry[] {
+  const children = new Map<number, ProcStat[]>();
+  for (const stat of table.values()) {
+    const siblings = children.get(stat.ppid);
+    if (siblings) {
+      siblings.push(stat);
+    } else {
+      children.set(stat.ppid, [stat]);
+    }
+  }
+
+  const tree: ProcTreeEntry[] = [];
+  const seen = new Set<number>();
+  const visit = (stat: ProcStat, depth: number) => {
+    if (seen.has(stat.pid)) return;
+    seen.add(stat.pid);
+    tree.push({ ...stat, depth });
+    for (const child of (children.get(stat.pid) ?? []).sort((a, b) => a.pid - b.pid)) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const pid of rootPids) {
+    const root = table.get(pid);
+    if (root) {
+      visit(root, 0);
+    }
+  }
+
+  return tree;
+}
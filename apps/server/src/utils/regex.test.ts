@@ -0,0 +1,62 @@
+/**
+ * Unit tests for time-limited regular expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { execLines, findLineMatches, testRegExp } from './regex.js';
+import { ValidationError } from './errors.js';
+
+describe('findLineMatches', () => {
+  const lines = ['error: one', 'ok', 'error: two error'];
+
+  it('should find matches forward', () => {
+    expect(findLineMatches(lines, /error/g, { backward: false, limit: 10 })).toEqual([
+      { lineNumber: 0, matchStart: 0, matchEnd: 5 },
+      { lineNumber: 2, matchStart: 0, matchEnd: 5 },
+      { lineNumber: 2, matchStart: 11, matchEnd: 16 },
+    ]);
+  });
+
+  it('should find the latest matches first backward, up to the limit', () => {
+    expect(findLineMatches(lines, /error/g, { backward: true, limit: 2 })).toEqual([
+      { lineNumber: 2, matchStart: 11, matchEnd: 16 },
+      { lineNumber: 2, matchStart: 0, matchEnd: 5 },
+    ]);
+  });
+
+  it('should skip empty matches', () => {
+    expect(findLineMatches(lines, /x*/g, { backward: false, limit: 10 })).toEqual([]);
+  });
+
+  it('should give up on a catastrophically backtracking pattern', () => {
+    const started = Date.now();
+
+    expect(() =>
+      findLineMatches(['a'.repeat(40)], /(a+)+b/g, { backward: false, limit: 10 })
+    ).toThrow(ValidationError);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+});
+
+describe('testRegExp', () => {
+  it('should test text against a pattern', () => {
+    expect(testRegExp(/^\$ $/m, 'done\n$ ')).toBe(true);
+    expect(testRegExp(/^\$ $/m, 'still running')).toBe(false);
+  });
+
+  it('should give up on a catastrophically backtracking pattern', () => {
+    expect(() => testRegExp(/(a+)+b/, 'a'.repeat(40))).toThrow(/simplify the pattern/);
+  });
+});
+
+describe('execLines', () => {
+  it('should match each line', () => {
+    const [first, second] = execLines(['Build done', 'ok'], /Build (\w+)/);
+    expect(Array.from(first!)).toEqual(['Build done', 'done']);
+    expect(second).toBeNull();
+  });
+
+  it('should give up after the given timeout', () => {
+    expect(() => execLines(['a'.repeat(40)], /(a+)+b/, 50)).toThrow(/longer than 50ms/);
+  });
+});
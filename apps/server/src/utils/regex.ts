@@ -0,0 +1,116 @@
+/**
+ * Time-limited Regular Expressions
+ *
+ * Client-supplied regular expressions run in a separate V8 context with a
+ * timeout, so one that backtracks catastrophically fails with a
+ * ValidationError instead of blocking the event loop.
+ */
+
+import * as vm from 'vm';
+import { ValidationError } from './errors.js';
+
+/** How long a regular expression may run over one search or test */
+export const REGEX_TIMEOUT_MS = 1000;
+
+/**
+ * A match within one line
+ */
+export interface LineMatch {
+  lineNumber: number;
+  matchStart: number;
+  matchEnd: number;
+}
+
+export interface LineMatchOptions {
+  /** Search from the last line up, latest match in each line first */
+  backward: boolean;
+  /** Stop after this many matches */
+  limit: number;
+}
+
+// Variables the scripts read are assigned on the context before each run
+const context = vm.createContext({});
+
+const findLineMatchesScript = new vm.Script(`(() => {
+  const found = [];
+  for (let i = 0; i < lines.length && found.length < limit; i++) {
+    const lineNumber = backward ? lines.length - 1 - i : i;
+    const line = lines[lineNumber];
+    const lineMatches = [];
+
+    regex.lastIndex = 0;
+    let match;
+    while ((match = regex.exec(line)) !== null) {
+      if (match[0].length === 0) {
+        // Skip empty matches (e.g. /^/) without looping forever
+        regex.lastIndex++;
+        continue;
+      }
+      const matchStart = match.index;
+      lineMatches.push({ lineNumber, matchStart, matchEnd: matchStart + match[0].length });
+    }
+
+    if (backward) {
+      lineMatches.reverse();
+    }
+    found.push(...lineMatches.slice(0, limit - found.length));
+  }
+  return found;
+})()`);
+
+const testScript = new vm.Script('regex.test(text)');
+
+const execLinesScript = new vm.Script('lines.map((line) => regex.exec(line))');
+
+function run<T>(
+  script: vm.Script,
+  variables: Record<string, unknown>,
+  timeoutMs = REGEX_TIMEOUT_MS
+): T {
+  Object.assign(context, variables);
+  try {
+    return script.runInContext(context, { timeout: timeoutMs }) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new ValidationError(
+        `Regular expression took longer than ${timeoutMs}ms; simplify the pattern`
+      );
+    }
+    throw error;
+  } finally {
+    // Don't keep large scrollback reachable from the context
+    for (const name of Object.keys(variables)) {
+      delete (context as Record<string, unknown>)[name];
+    }
+  }
+}
+
+/**
+ * Find the matches of a global regular expression line by line
+ */
+export function findLineMatches(
+  lines: readonly string[],
+  regex: RegExp,
+  options: LineMatchOptions
+): LineMatch[] {
+  return run<LineMatch[]>(findLineMatchesScript, { lines, regex, ...options });
+}
+
+/**
+ * Test a regular expression against text
+ */
+export function testRegExp(regex: RegExp, text: string): boolean {
+  return run<boolean>(testScript, { regex, text });
+}
+
+/**
+ * Match a non-global regular expression against each line
+ * The timeout covers all of the lines together.
+ */
+export function execLines(
+  lines: readonly string[],
+  regex: RegExp,
+  timeoutMs = REGEX_TIMEOUT_MS
+): Array<RegExpExecArray | null> {
+  return run<Array<RegExpExecArray | null>>(execLinesScript, { lines, regex }, timeoutMs);
+}
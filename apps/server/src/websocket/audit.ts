@@ -0,0 +1,44 @@
+/**
+ * WebSocket Audit Helpers
+ *
+ * Lets event handlers write audit entries without threading the client's
+ * identity through every call.
+ */
+
+import type { Socket } from 'socket.io';
+import { AuditResult } from '@masterdashboard/shared';
+import { recordAudit } from '../services/audit-log.js';
+import { getClientPrincipal } from './middleware.js';
+
+export interface SocketAuditFields {
+  projectId?: string | null;
+  target?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an action performed by a socket client
+ * A failure is recorded when `error` is given; its message lands in details.
+ */
+export function auditSocketAction(
+  socket: Socket,
+  event: string,
+  fields: SocketAuditFields,
+  error?: unknown
+): void {
+  recordAudit({
+    event,
+    result: error === undefined ? AuditResult.SUCCESS : AuditResult.FAILURE,
+    clientId: socket.id,
+    principal: getClientPrincipal(socket),
+    projectId: fields.projectId,
+    target: fields.target,
+    details:
+      error === undefined
+        ? fields.details
+        : {
+            ...fields.details,
+            error: error instanceof Error ? error.message : String(error),
+          },
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for WebSocket event authorization
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WS_EVENTS } from '@masterdashboard/shared';
+import { authorizeEvent, resolveEventProjectId, type SessionLookup } from './authorization.js';
+import type { Principal } from '../services/access-control.js';
+
+const memberships = new Map<string, string>();
+
+// Mock the membership lookup
+vi.mock('../persistence/database.js', () => ({
+  getProjectMemberRole: (projectId: string, userId: string) =>
+    memberships.get(`${projectId}:${userId}`),
+  getProjectById: (projectId: string) =>
+    projectId === 'prj_1' ? { id: 'prj_1', default_cwd: '/home/dev/app' } : undefined,
+  getUserById: vi.fn(),
+  getUserByUsername: vi.fn(),
+  countUsers: vi.fn(() => 0),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function makeLookup(sessions: Record<string, string> = {}): SessionLookup {
+  const getSession = (id: string) =>
+    sessions[id] ? { projectId: sessions[id] } : undefined;
+  return {
+    sessionManager: { getSession },
+    sshManager: { getSession: () => undefined },
+    databaseManager: { getSession: () => undefined },
+    browserManager: { getSession: () => null },
+  } as unknown as SessionLookup;
+}
+
+const viewer: Principal = { userId: 'usr_viewer', username: 'viewer', isAdmin: false };
+const operator: Principal = { userId: 'usr_operator', username: 'operator', isAdmin: false };
+const admin: Principal = { userId: null, username: 'admin', isAdmin: true };
+
+describe('resolveEventProjectId', () => {
+  it('should prefer the session project over an explicit projectId', () => {
+    const lookup = makeLookup({ term_1: 'prj_2' });
+    expect(resolveEventProjectId({ projectId: 'prj_1', sessionId: 'term_1' }, lookup)).toBe('prj_2');
+  });
+
+  it('should use an explicit projectId when the session is unknown', () => {
+    expect(resolveEventProjectId({ projectId: 'prj_1', sessionId: 'term_new' }, makeLookup())).toBe(
+      'prj_1'
+    );
+  });
+
+  it('should fall back to the session project', () => {
+    expect(resolveEventProjectId({ sessionId: 'term_1' }, makeLookup({ term_1: 'prj_2' }))).toBe(
+      'prj_2'
+    );
+  });
+
+  it('should return null for unknown targets', () => {
+    expect(resolveEventProjectId({ sessionId: 'missing' }, makeLookup())).toBeNull();
+    expect(resolveEventProjectId('not-an-object', makeLookup())).toBeNull();
+  });
+});
+
+describe('authorizeEvent', () => {
+  beforeEach(() => {
+    memberships.clear();
+    memberships.set('prj_1:usr_viewer', 'viewer');
+    memberships.set('prj_1:usr_operator', 'operator');
+  });
+
+  const lookup = makeLookup({ term_1: 'prj_1' });
+
+  it('should allow administrators everything', () => {
+    const result = authorizeEvent(admin, WS_EVENTS.GIT_PUSH, { projectId: 'prj_9' }, lookup);
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should reject viewers for mutating events', () => {
+    for (const [event, payload] of [
+      [WS_EVENTS.TERMINAL_INPUT, { sessionId: 'term_1', data: 'ls\r' }],
+      [WS_EVENTS.FILE_WRITE, { projectId: 'prj_1', path: '/tmp/x', content: '' }],
+      [WS_EVENTS.GIT_PUSH, { projectId: 'prj_1', repoPath: '/tmp/repo' }],
+      [WS_EVENTS.DATABASE_QUERY, { projectId: 'prj_1', query: 'DELETE FROM t' }],
+      [WS_EVENTS.TERMINAL_RESIZE, { sessionId: 'term_1', cols: 80, rows: 24 }],
+      [WS_EVENTS.SSH_CLOSE, { projectId: 'prj_1', sessionId: 'ssh_1' }],
+      [WS_EVENTS.DATABASE_DISCONNECT, { projectId: 'prj_1', sessionId: 'db_1' }],
+      [WS_EVENTS.LAYOUT_SAVE, { projectId: 'prj_1', name: 'Default' }],
+      [WS_EVENTS.NOTE_UPDATE, { projectId: 'prj_1', id: 'note_1' }],
+      [WS_EVENTS.PROJECT_UPDATE, { projectId: 'prj_1', name: 'Renamed' }],
+    ] as const) {
+      expect(authorizeEvent(viewer, event, payload, lookup).allowed).toBe(false);
+    }
+  });
+
+  it('should reject viewers for events without a known project', () => {
+    expect(authorizeEvent(viewer, 'project:archive', { name: 'x' }, lookup).allowed).toBe(false);
+  });
+
+  it('should let viewers reconnect to output', () => {
+    const result = authorizeEvent(viewer, WS_EVENTS.TERMINAL_RECONNECT, { sessionId: 'term_1' }, lookup);
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should let operators send input', () => {
+    const result = authorizeEvent(
+      operator,
+      WS_EVENTS.TERMINAL_INPUT,
+      { sessionId: 'term_1', data: 'ls\r' },
+      lookup
+    );
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should reject non-members', () => {
+    const result = authorizeEvent(
+      operator,
+      WS_EVENTS.TERMINAL_RECONNECT,
+      { projectId: 'prj_other' },
+      lookup
+    );
+    expect(result.allowed).toBe(false);
+  });
+
+  it("should reject a projectId that doesn't match the session's project", () => {
+    memberships.set('prj_other:usr_viewer', 'operator');
+
+    const result = authorizeEvent(
+      viewer,
+      WS_EVENTS.TERMINAL_INPUT,
+      { projectId: 'prj_other', sessionId: 'term_1', data: 'ls\r' },
+      lookup
+    );
+    expect(result).toEqual({ allowed: false, reason: 'Session does not belong to this project' });
+  });
+
+  it("should confine file events to the project's directory", () => {
+    const read = (filePath: string, projectId?: string) =>
+      authorizeEvent(viewer, WS_EVENTS.FILE_READ, { projectId, path: filePath }, lookup);
+
+    expect(read('/home/dev/app/src/index.ts', 'prj_1').allowed).toBe(true);
+    expect(read('/home/dev/app', 'prj_1').allowed).toBe(true);
+    expect(read('/home/dev/.ssh/id_ed25519', 'prj_1')).toEqual({
+      allowed: false,
+      reason: "Path is outside this project's directory",
+    });
+    expect(read('/home/dev/app/../.ssh/id_ed25519', 'prj_1').allowed).toBe(false);
+    expect(read('/home/dev/app-secrets/key', 'prj_1').allowed).toBe(false);
+    expect(read('/home/dev/app/src/index.ts').allowed).toBe(false);
+  });
+
+  it('should check every path a file event names', () => {
+    const result = authorizeEvent(
+      operator,
+      WS_EVENTS.FILE_COPY,
+      {
+        projectId: 'prj_1',
+        sourcePaths: ['/home/dev/app/a', '/etc/passwd'],
+        destinationPath: '/home/dev/app/b',
+      },
+      lookup
+    );
+    expect(result.allowed).toBe(false);
+  });
+
+  it('should reject unauthenticated clients', () => {
+    expect(authorizeEvent(null, WS_EVENTS.PING, {}, lookup).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * WebSocket Authorization
+ *
+ * Per-event project role checks. The project an event targets is that of
+ * the session named by `payload.sessionId` or, for events without a known
+ * session, `payload.projectId`. An event naming a session in one project and
+ * a different `projectId` is rejected.
+ *
+ * File events must name a project, and members may only touch paths inside
+ * that project's default working directory.
+ */
+
+import * as path from 'path';
+import { READ_ONLY_ALLOWED_EVENTS, ProjectRole } from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { SSHManager } from '../managers/ssh-manager.js';
+import type { BrowserManager } from '../managers/browser-manager.js';
+import type { DatabaseManager } from '../managers/database-manager.js';
+import { getProjectById } from '../persistence/database.js';
+import { canAccessProject, type Principal } from '../services/access-control.js';
+
+export interface SessionLookup {
+  sessionManager: SessionManager;
+  sshManager: SSHManager;
+  browserManager: BrowserManager;
+  databaseManager: DatabaseManager;
+}
+
+export type AuthorizationResult =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+interface EventTarget {
+  projectId: string | null;
+  sessionId: string | null;
+}
+
+/** File event fields that name one path */
+const FILE_PATH_FIELDS = ['path', 'rootPath', 'parentPath', 'destinationPath', 'cwd'];
+
+/** File event fields that name several paths */
+const FILE_PATH_LIST_FIELDS = ['paths', 'sourcePaths'];
+
+/**
+ * Read the project and session named in an event payload
+ */
+function readEventTarget(payload: unknown): EventTarget {
+  if (typeof payload !== 'object' || payload === null) {
+    return { projectId: null, sessionId: null };
+  }
+
+  const { projectId, sessionId } = payload as { projectId?: unknown; sessionId?: unknown };
+  return {
+    projectId: typeof projectId === 'string' && projectId.length > 0 ? projectId : null,
+    sessionId: typeof sessionId === 'string' && sessionId.length > 0 ? sessionId : null,
+  };
+}
+
+/**
+ * Read every path a file event payload names
+ */
+function readEventPaths(payload: unknown): string[] {
+  if (typeof payload !== 'object' || payload === null) {
+    return [];
+  }
+
+  const fields = payload as Record<string, unknown>;
+  const paths: unknown[] = [
+    ...FILE_PATH_FIELDS.map((field) => fields[field]),
+    ...FILE_PATH_LIST_FIELDS.flatMap((field) =>
+      Array.isArray(fields[field]) ? (fields[field] as unknown[]) : []
+    ),
+  ];
+  return paths.filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Whether every path lies inside a project's default working directory
+ * Paths resolve the way the file manager resolves them.
+ */
+function isWithinProjectDirectory(paths: string[], projectId: string): boolean {
+  const cwd = getProjectById(projectId)?.default_cwd;
+  if (!cwd) {
+    return false;
+  }
+
+  const root = path.resolve(cwd);
+  return paths.every((target) => {
+    const resolved = path.resolve(target);
+    return resolved === root || resolved.startsWith(root + path.sep);
+  });
+}
+
+/**
+ * Find the project a session belongs to, across every session manager
+ */
+export function lookupSessionProjectId(sessionId: string, lookup: SessionLookup): string | null {
+  return (
+    lookup.sessionManager.getSession(sessionId)?.projectId ??
+    lookup.sshManager.getSession(sessionId)?.projectId ??
+    lookup.databaseManager.getSession(sessionId)?.projectId ??
+    lookup.browserManager.getSession(sessionId)?.projectId ??
+    null
+  );
+}
+
+/**
+ * Find the project an event payload refers to
+ * A known session's project wins over the payload's `projectId`.
+ */
+export function resolveEventProjectId(payload: unknown, lookup: SessionLookup): string | null {
+  const { projectId, sessionId } = readEventTarget(payload);
+  return (sessionId ? lookupSessionProjectId(sessionId, lookup) : null) ?? projectId;
+}
+
+/**
+ * Decide whether a principal may send an event
+ * Administrators may send anything; members need the viewer role to read
+ * and the operator role for events not in READ_ONLY_ALLOWED_EVENTS, and
+ * file events only reach their project's directory.
+ */
+export function authorizeEvent(
+  principal: Principal | null,
+  event: string,
+  payload: unknown,
+  lookup: SessionLookup
+): AuthorizationResult {
+  if (!principal) {
+    return { allowed: false, reason: 'Authentication required' };
+  }
+  if (principal.isAdmin) {
+    return { allowed: true };
+  }
+
+  const mutating = !READ_ONLY_ALLOWED_EVENTS.includes(event);
+  const fileEvent = event.startsWith('file:');
+  const projectId = resolveEventProjectId(payload, lookup);
+  const target = readEventTarget(payload);
+
+  if (target.projectId && projectId !== target.projectId) {
+    return { allowed: false, reason: 'Session does not belong to this project' };
+  }
+
+  if (!projectId) {
+    return mutating || fileEvent
+      ? { allowed: false, reason: 'Cannot determine the project for this action' }
+      : { allowed: true };
+  }
+
+  if (!canAccessProject(principal, projectId, ProjectRole.VIEWER)) {
+    return { allowed: false, reason: 'You are not a member of this project' };
+  }
+  if (mutating && !canAccessProject(principal, projectId, ProjectRole.OPERATOR)) {
+    return { allowed: false, reason: 'Viewers have read-only access to this project' };
+  }
+  if (fileEvent && !isWithinProjectDirectory(readEventPaths(payload), projectId)) {
+    return { allowed: false, reason: "Path is outside this project's directory" };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,112 @@
+/**
+ * Broadcast Input WebSocket Handlers
+ *
+ * Writes input typed once to every terminal and SSH session of a broadcast
+ * group (synchronized typing). Every target must belong to the project the
+ * event was authorized for.
+ */
+
+import { Socket } from 'socket.io';
+import {
+  WS_EVENTS,
+  SessionType,
+  terminalBroadcastPayloadSchema,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { SSHManager } from '../managers/ssh-manager.js';
+import { isAppError } from '../utils/errors.js';
+import { sendMessage, sendError, checkRateLimit } from './middleware.js';
+import { filterDeviceAttributeResponses } from './handlers.js';
+
+/**
+ * Broadcast event handler function type
+ */
+type BroadcastEventHandler = (
+  socket: Socket,
+  payload: unknown,
+  correlationId: string | undefined,
+  sessionManager: SessionManager,
+  sshManager: SSHManager
+) => Promise<void> | void;
+
+/**
+ * Map of broadcast event names to handlers
+ */
+const broadcastHandlers: Record<string, BroadcastEventHandler> = {
+  /**
+   * Write input to every session of a broadcast group
+   */
+  [WS_EVENTS.TERMINAL_BROADCAST]: (socket, payload, correlationId, sessionManager, sshManager) => {
+    if (!checkRateLimit(socket, WS_EVENTS.TERMINAL_BROADCAST)) {
+      sendError(socket, 'RATE_LIMITED', 'Too many input events', correlationId);
+      return;
+    }
+
+    const result = terminalBroadcastPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const { projectId, targets } = result.data;
+
+    // Check every target before writing, so a group never gets partial input
+    const foreign = targets.find((target) => {
+      const session =
+        target.type === SessionType.SSH
+          ? sshManager.getSession(target.sessionId)
+          : sessionManager.getSession(target.sessionId);
+      return session !== undefined && session.projectId !== projectId;
+    });
+    if (foreign) {
+      sendError(
+        socket,
+        'PERMISSION_DENIED',
+        `Session ${foreign.sessionId} does not belong to project ${projectId}`,
+        correlationId
+      );
+      return;
+    }
+
+    // Same filtering as terminal:input, since member terminals forward xterm.js data
+    const data = filterDeviceAttributeResponses(result.data.data);
+    if (!data) {
+      return;
+    }
+
+    for (const target of targets) {
+      if (target.type === SessionType.SSH) {
+        if (!sshManager.write(target.sessionId, data)) {
+          sendError(socket, 'SSH_NOT_FOUND', `SSH session not found: ${target.sessionId}`, correlationId);
+        }
+        continue;
+      }
+
+      try {
+        sessionManager.writeToTerminal(target.sessionId, data);
+      } catch (error) {
+        const message = isAppError(error) ? error.message : 'Failed to write to terminal';
+        // Same as terminal:input, so the member node can offer to reconnect
+        sendMessage(socket, WS_EVENTS.SESSION_ERROR, {
+          sessionId: target.sessionId,
+          error: message,
+          code: 'TERMINAL_WRITE_FAILED',
+        }, correlationId);
+      }
+    }
+  },
+};
+
+/**
+ * Check if an event is a broadcast event
+ */
+export function isBroadcastEvent(event: string): boolean {
+  return event in broadcastHandlers;
+}
+
+/**
+ * Get broadcast event handler
+ */
+export function getBroadcastHandler(event: string): BroadcastEventHandler | undefined {
+  return broadcastHandlers[event];
+}
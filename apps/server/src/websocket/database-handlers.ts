@@ -14,6 +14,7 @@ import { z } from 'zod';
 import { DatabaseManager } from '../managers/database-manager.js';
 import { createChildLogger } from '../utils/logger.js';
 import { sendMessage, sendError } from './middleware.js';
+import { auditSocketAction } from './audit.js';
 
 const logger = createChildLogger('database-handlers');
 
@@ -142,6 +143,11 @@ const databaseHandlers: Record<string, DatabaseEventHandler> = {
       return;
     }
 
+    const audit = {
+      projectId: databaseManager.getSession(result.data.sessionId)?.projectId ?? null,
+      target: result.data.sessionId,
+    };
+
     try {
       const queryResult = await databaseManager.query(
         result.data.sessionId,
@@ -153,12 +159,27 @@ const databaseHandlers: Record<string, DatabaseEventHandler> = {
         }
       );
 
+      auditSocketAction(socket, WS_EVENTS.DATABASE_QUERY, {
+        ...audit,
+        details: {
+          query: result.data.query,
+          rowCount: queryResult.rowCount,
+          affectedRows: queryResult.affectedRows,
+        },
+      });
+
       sendMessage(socket, WS_EVENTS.DATABASE_QUERY_RESULT, {
         sessionId: result.data.sessionId,
         result: queryResult,
       }, correlationId);
     } catch (error) {
       logger.error({ error, sessionId: result.data.sessionId }, 'Database query failed');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.DATABASE_QUERY,
+        { ...audit, details: { query: result.data.query } },
+        error
+      );
       const message = error instanceof Error ? error.message : 'Query failed';
       sendMessage(socket, WS_EVENTS.DATABASE_QUERY_ERROR, {
         sessionId: result.data.sessionId,
@@ -20,6 +20,7 @@ import { SessionManager } from '../managers/session-manager.js';
 import { createChildLogger } from '../utils/logger.js';
 import { isAppError } from '../utils/errors.js';
 import { sendMessage, sendError, getClientId } from './middleware.js';
+import { auditSocketAction } from './audit.js';
 
 const logger = createChildLogger('file-handlers');
 
@@ -455,6 +456,11 @@ const fileHandlers: Record<string, FileEventHandler> = {
         createDirectories: result.data.createDirectories,
       });
 
+      auditSocketAction(socket, WS_EVENTS.FILE_WRITE, {
+        projectId: result.data.projectId,
+        target: result.data.path,
+      });
+
       sendMessage(socket, WS_EVENTS.FILE_WRITE_RESPONSE, {
         path: result.data.path,
         ...writeResult,
@@ -463,6 +469,12 @@ const fileHandlers: Record<string, FileEventHandler> = {
       logger.info({ path: result.data.path }, 'File written successfully');
     } catch (error) {
       logger.error({ error, path: result.data.path }, 'Failed to write file');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.FILE_WRITE,
+        { projectId: result.data.projectId, target: result.data.path },
+        error
+      );
       const message = isAppError(error) ? error.message : 'Failed to write file';
       sendMessage(socket, WS_EVENTS.FILE_ERROR, {
         path: result.data.path,
@@ -586,6 +598,19 @@ const fileHandlers: Record<string, FileEventHandler> = {
     try {
       const deleteResult = await fileManager.deleteItems(result.data.paths);
 
+      auditSocketAction(
+        socket,
+        WS_EVENTS.FILE_DELETE,
+        {
+          projectId: result.data.projectId,
+          target: result.data.paths.join(', '),
+          details: { failedPaths: deleteResult.failedPaths },
+        },
+        deleteResult.failedPaths.length > 0
+          ? `${deleteResult.failedPaths.length} path(s) could not be deleted`
+          : undefined
+      );
+
       sendMessage(socket, WS_EVENTS.FILE_DELETE_RESPONSE, {
         success: deleteResult.failedPaths.length === 0,
         deletedPaths: deleteResult.deletedPaths,
@@ -595,6 +620,12 @@ const fileHandlers: Record<string, FileEventHandler> = {
       logger.info({ deletedCount: deleteResult.deletedPaths.length }, 'Delete operation completed');
     } catch (error) {
       logger.error({ error, paths: result.data.paths }, 'Failed to delete files/folders');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.FILE_DELETE,
+        { projectId: result.data.projectId, target: result.data.paths.join(', ') },
+        error
+      );
       const message = isAppError(error) ? error.message : 'Failed to delete';
       sendMessage(socket, WS_EVENTS.FILE_DELETE_RESPONSE, {
         success: false,
@@ -652,6 +683,22 @@ const fileHandlers: Record<string, FileEventHandler> = {
         result.data.destinationPath
       );
 
+      auditSocketAction(
+        socket,
+        WS_EVENTS.FILE_MOVE,
+        {
+          projectId: result.data.projectId,
+          target: result.data.sourcePaths.join(', '),
+          details: {
+            destinationPath: result.data.destinationPath,
+            failedPaths: moveResult.failedPaths,
+          },
+        },
+        moveResult.failedPaths.length > 0
+          ? `${moveResult.failedPaths.length} path(s) could not be moved`
+          : undefined
+      );
+
       sendMessage(socket, WS_EVENTS.FILE_MOVE_RESPONSE, {
         success: moveResult.failedPaths.length === 0,
         movedPaths: moveResult.movedPaths,
@@ -661,6 +708,16 @@ const fileHandlers: Record<string, FileEventHandler> = {
       logger.info({ movedCount: moveResult.movedPaths.length }, 'Move operation completed');
     } catch (error) {
       logger.error({ error, sourcePaths: result.data.sourcePaths, destinationPath: result.data.destinationPath }, 'Failed to move files/folders');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.FILE_MOVE,
+        {
+          projectId: result.data.projectId,
+          target: result.data.sourcePaths.join(', '),
+          details: { destinationPath: result.data.destinationPath },
+        },
+        error
+      );
       const message = isAppError(error) ? error.message : 'Failed to move';
       sendMessage(socket, WS_EVENTS.FILE_MOVE_RESPONSE, {
         success: false,
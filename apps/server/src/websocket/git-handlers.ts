@@ -10,6 +10,7 @@ import { z } from 'zod';
 import { GitManager } from '../managers/git-manager.js';
 import { createChildLogger } from '../utils/logger.js';
 import { sendMessage, sendError } from './middleware.js';
+import { auditSocketAction } from './audit.js';
 
 const logger = createChildLogger('git-handlers');
 
@@ -279,6 +280,17 @@ const gitHandlers: Record<string, GitEventHandler> = {
     try {
       const commitResult = await gitManager.commit(result.data.repoPath, result.data.message);
 
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_COMMIT,
+        {
+          projectId: result.data.projectId,
+          target: result.data.repoPath,
+          details: { message: result.data.message, commitHash: commitResult.commitHash },
+        },
+        commitResult.success ? undefined : commitResult.error ?? 'Operation failed'
+      );
+
       sendMessage(socket, WS_EVENTS.GIT_COMMIT_RESPONSE, {
         repoPath: result.data.repoPath,
         result: commitResult,
@@ -286,6 +298,12 @@ const gitHandlers: Record<string, GitEventHandler> = {
       }, correlationId);
     } catch (error) {
       logger.error({ error, repoPath: result.data.repoPath }, 'Failed to commit');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_COMMIT,
+        { projectId: result.data.projectId, target: result.data.repoPath },
+        error
+      );
       const message = error instanceof Error ? error.message : 'Failed to commit';
       sendMessage(socket, WS_EVENTS.GIT_ERROR, {
         repoPath: result.data.repoPath,
@@ -308,12 +326,29 @@ const gitHandlers: Record<string, GitEventHandler> = {
     try {
       const pushResult = await gitManager.push(result.data.repoPath, result.data.force);
 
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_PUSH,
+        {
+          projectId: result.data.projectId,
+          target: result.data.repoPath,
+          details: { force: result.data.force },
+        },
+        pushResult.success ? undefined : pushResult.error ?? 'Operation failed'
+      );
+
       sendMessage(socket, WS_EVENTS.GIT_PUSH_RESPONSE, {
         repoPath: result.data.repoPath,
         result: pushResult,
       }, correlationId);
     } catch (error) {
       logger.error({ error, repoPath: result.data.repoPath }, 'Failed to push');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_PUSH,
+        { projectId: result.data.projectId, target: result.data.repoPath },
+        error
+      );
       const message = error instanceof Error ? error.message : 'Failed to push';
       sendMessage(socket, WS_EVENTS.GIT_ERROR, {
         repoPath: result.data.repoPath,
@@ -364,12 +399,29 @@ const gitHandlers: Record<string, GitEventHandler> = {
     try {
       const discardResult = await gitManager.discard(result.data.repoPath, result.data.files);
 
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_DISCARD,
+        {
+          projectId: result.data.projectId,
+          target: result.data.repoPath,
+          details: { files: result.data.files },
+        },
+        discardResult.success ? undefined : discardResult.error ?? 'Operation failed'
+      );
+
       sendMessage(socket, WS_EVENTS.GIT_DISCARD_RESPONSE, {
         repoPath: result.data.repoPath,
         result: discardResult,
       }, correlationId);
     } catch (error) {
       logger.error({ error, repoPath: result.data.repoPath }, 'Failed to discard changes');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.GIT_DISCARD,
+        { projectId: result.data.projectId, target: result.data.repoPath },
+        error
+      );
       const message = error instanceof Error ? error.message : 'Failed to discard changes';
       sendMessage(socket, WS_EVENTS.GIT_ERROR, {
         repoPath: result.data.repoPath,
@@ -11,13 +11,23 @@ import {
   terminalConfigSchema,
   terminalInputPayloadSchema,
   terminalResizePayloadSchema,
+  terminalSearchPayloadSchema,
+  terminalWindowsPayloadSchema,
+  terminalWindowActionPayloadSchema,
 } from '@masterdashboard/shared';
 import { SessionManager } from '../managers/session-manager.js';
 import { BrowserManager } from '../managers/browser-manager.js';
 import { createChildLogger } from '../utils/logger.js';
 import { isAppError } from '../utils/errors.js';
-import { sendMessage, sendError, getClientId, checkRateLimit } from './middleware.js';
+import {
+  sendMessage,
+  sendError,
+  getClientId,
+  checkRateLimit,
+  getClientPrincipal,
+} from './middleware.js';
 import { handleReconnect, handleTerminalReconnect } from './reconnect.js';
+import { auditSocketAction } from './audit.js';
 import { createBrowserSession, terminateBrowserSession } from './browser-handlers.js';
 
 const logger = createChildLogger('ws-handlers');
@@ -29,7 +39,7 @@ const logger = createChildLogger('ws-handlers');
  * consumed by tmux, but sometimes they get echoed as visible text.
  * Filter them to prevent garbage characters from appearing.
  */
-function filterDeviceAttributeResponses(input: string): string {
+export function filterDeviceAttributeResponses(input: string): string {
   // ESC [ ? Ps c - Primary Device Attributes response
   // ESC [ > Ps ; Ps ; Ps c - Secondary Device Attributes response
   return input
@@ -97,7 +107,17 @@ const handlers: Record<string, EventHandler> = {
     }
 
     try {
-      const session = await sessionManager.createTerminalSession(clientId, configResult.data);
+      const session = await sessionManager.createTerminalSession(
+        clientId,
+        configResult.data,
+        getClientPrincipal(socket)?.userId ?? null
+      );
+
+      auditSocketAction(socket, WS_EVENTS.SESSION_CREATE, {
+        projectId: session.projectId,
+        target: session.id,
+        details: { type: session.type, shell: configResult.data.shell, cwd: configResult.data.cwd },
+      });
 
       sendMessage(
         socket,
@@ -112,6 +132,12 @@ const handlers: Record<string, EventHandler> = {
       );
     } catch (error) {
       logger.error({ error, clientId }, 'Failed to create session');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.SESSION_CREATE,
+        { projectId: configResult.data.projectId, details: { type: SessionType.TERMINAL } },
+        error
+      );
       const message = isAppError(error) ? error.message : 'Failed to create session';
       sendError(socket, 'SESSION_CREATE_FAILED', message, correlationId);
     }
@@ -128,6 +154,14 @@ const handlers: Record<string, EventHandler> = {
       return;
     }
 
+    const audit = {
+      projectId:
+        sessionManager.getSession(data.sessionId)?.projectId ??
+        browserManager?.getSession(data.sessionId)?.projectId ??
+        null,
+      target: data.sessionId,
+    };
+
     try {
       // Check if it's a browser session (starts with 'browser_')
       if (data.sessionId.startsWith('browser_') && browserManager) {
@@ -135,6 +169,7 @@ const handlers: Record<string, EventHandler> = {
       } else {
         await sessionManager.terminateSession(data.sessionId);
       }
+      auditSocketAction(socket, WS_EVENTS.SESSION_TERMINATE, audit);
       sendMessage(
         socket,
         WS_EVENTS.SESSION_TERMINATED,
@@ -143,6 +178,7 @@ const handlers: Record<string, EventHandler> = {
       );
     } catch (error) {
       logger.error({ error, sessionId: data.sessionId }, 'Failed to terminate session');
+      auditSocketAction(socket, WS_EVENTS.SESSION_TERMINATE, audit, error);
       const message = isAppError(error) ? error.message : 'Failed to terminate session';
       sendError(socket, 'SESSION_TERMINATE_FAILED', message, correlationId);
     }
@@ -239,6 +275,70 @@ const handlers: Record<string, EventHandler> = {
     }
   },
 
+  /**
+   * Handle scrollback search request
+   */
+  [WS_EVENTS.TERMINAL_SEARCH]: (socket, payload, correlationId, sessionManager) => {
+    const result = terminalSearchPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const { sessionId, ...query } = result.data;
+    try {
+      const found = sessionManager.searchScrollback(sessionId, query);
+      sendMessage(socket, WS_EVENTS.TERMINAL_SEARCH_RESULTS, {
+        sessionId,
+        query: query.query,
+        ...found,
+      }, correlationId);
+    } catch (error) {
+      const message = isAppError(error) ? error.message : 'Failed to search terminal';
+      sendError(socket, 'TERMINAL_SEARCH_FAILED', message, correlationId);
+    }
+  },
+
+  /**
+   * Handle request for a terminal's tmux windows and panes
+   */
+  [WS_EVENTS.TERMINAL_WINDOWS]: async (socket, payload, correlationId, sessionManager) => {
+    const result = terminalWindowsPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const { sessionId } = result.data;
+    try {
+      const windows = await sessionManager.getTerminalWindows(sessionId);
+      sendMessage(socket, WS_EVENTS.TERMINAL_WINDOWS_STATE, { sessionId, windows }, correlationId);
+    } catch (error) {
+      const message = isAppError(error) ? error.message : 'Failed to list terminal windows';
+      sendError(socket, 'TERMINAL_WINDOWS_FAILED', message, correlationId);
+    }
+  },
+
+  /**
+   * Handle tmux window and pane changes
+   */
+  [WS_EVENTS.TERMINAL_WINDOW_ACTION]: async (socket, payload, correlationId, sessionManager) => {
+    const result = terminalWindowActionPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const { sessionId, ...change } = result.data;
+    try {
+      const windows = await sessionManager.updateTerminalWindows(sessionId, change);
+      sendMessage(socket, WS_EVENTS.TERMINAL_WINDOWS_STATE, { sessionId, windows }, correlationId);
+    } catch (error) {
+      const message = isAppError(error) ? error.message : 'Failed to update terminal windows';
+      sendError(socket, 'TERMINAL_WINDOWS_FAILED', message, correlationId);
+    }
+  },
+
   /**
    * Handle terminal reconnect request
    */
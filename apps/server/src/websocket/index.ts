@@ -6,32 +6,59 @@
 
 import type { FastifyInstance } from 'fastify';
 import { Server as SocketIOServer, Socket } from 'socket.io';
-import { WS_EVENTS } from '@masterdashboard/shared';
+import {
+  WS_EVENTS,
+  AuditResult,
+  type ClaudeHookEvent,
+  type CommandHistoryEntry,
+  type OutputTriggerExecution,
+  type OutputTriggerFired,
+  type ScheduledCommand,
+  type SessionResourceSample,
+  type StatusNotification,
+} from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
 import { SessionManager } from '../managers/session-manager.js';
-import { SSHManager } from '../managers/ssh-manager.js';
+import { SSHManager, trackSSHStatus } from '../managers/ssh-manager.js';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import type { StatusDetector } from '../managers/status-detector.js';
 import { BrowserManager } from '../managers/browser-manager.js';
 import { getEnv } from '../config/env.js';
 import {
   registerClient,
   unregisterClient,
   setIO,
+  createAuthMiddleware,
+  getClientPrincipal,
+  sendError,
 } from './middleware.js';
+import { authorizeEvent, resolveEventProjectId } from './authorization.js';
+import { ProjectRooms } from './rooms.js';
+import { recordAudit } from '../services/audit-log.js';
 import { getHandler, hasHandler } from './handlers.js';
 import { getSSHHandler, isSSHEvent } from './ssh-handlers.js';
 import { getBrowserHandler, isBrowserEvent } from './browser-handlers.js';
 import { getFileHandler, isFileEvent } from './file-handlers.js';
 import { getDatabaseHandler, isDatabaseEvent } from './database-handlers.js';
 import { getGitHandler, isGitEvent } from './git-handlers.js';
+import { getStatusPatternHandler, isStatusPatternEvent } from './status-handlers.js';
+import { getTemplateHandler, isTemplateEvent } from './template-handlers.js';
+import { getBroadcastHandler, isBroadcastEvent } from './broadcast-handlers.js';
+import { setupSpectatorNamespace } from './spectator.js';
 import { FileManager } from '../managers/file-manager.js';
 import { DatabaseManager } from '../managers/database-manager.js';
 import { GitManager } from '../managers/git-manager.js';
+import type { StatusPatternService } from '../services/status-pattern-service.js';
+import type { TemplateService } from '../services/template-service.js';
+import { ErrorCode } from '../utils/errors.js';
 
 const logger = createChildLogger('websocket');
 
 export function setupWebSocket(fastify: FastifyInstance): void {
   const env = getEnv();
   const sessionManager = fastify.sessionManager as SessionManager;
+  const statusPatternService = fastify.statusPatternService;
+  const templateService = fastify.templateService;
   const sshManager = new SSHManager();
   const browserManager = new BrowserManager();
   const fileManager = new FileManager({
@@ -64,21 +91,74 @@ export function setupWebSocket(fastify: FastifyInstance): void {
   // Store io instance for broadcasting
   setIO(io);
 
+  // Reject handshakes without a valid session token
+  io.use(createAuthMiddleware(fastify.authService));
+
+  // Send session events only to sockets that may read the session's project
+  const rooms = new ProjectRooms(io, {
+    sessionManager,
+    sshManager,
+    browserManager,
+    databaseManager,
+  });
+
   // Set up session manager event forwarding
-  setupSessionManagerEvents(sessionManager, io);
+  setupSessionManagerEvents(sessionManager, rooms);
+
+  // Forward Claude Code hook events for the per-session event log
+  fastify.claudeHookService.on('event', (event: ClaudeHookEvent) => {
+    rooms.emitToSession(event.sessionId, WS_EVENTS.STATUS_HOOK_EVENT, event);
+  });
+
+  // Broadcast notifications raised by the project's rules
+  fastify.notificationService.on('notification', (notification: StatusNotification) => {
+    rooms.emitToProject(notification.projectId, WS_EVENTS.STATUS_NOTIFICATION, notification);
+  });
+
+  // Forward commands as they start and finish, for the history sidebar
+  fastify.commandHistoryService.on('command', (entry: CommandHistoryEntry) => {
+    rooms.emitToProject(entry.projectId, WS_EVENTS.TERMINAL_COMMAND, entry);
+  });
+
+  // Forward trigger actions the browser carries out, and every run for the log
+  fastify.outputTriggerService.on('fired', (fired: OutputTriggerFired) => {
+    rooms.emitToProject(fired.projectId, WS_EVENTS.TERMINAL_TRIGGER_FIRED, fired);
+  });
+  fastify.outputTriggerService.on('execution', (execution: OutputTriggerExecution) => {
+    rooms.emitToProject(execution.projectId, WS_EVENTS.TERMINAL_TRIGGER_EXECUTED, execution);
+  });
+
+  // Forward scheduled command runs, for the schedules panel
+  fastify.scheduledCommandService.on('run', (schedule: ScheduledCommand) => {
+    rooms.emitToProject(schedule.projectId, WS_EVENTS.SESSION_SCHEDULE_RUN, schedule);
+  });
+
+  // Stream process tree samples, for node sparklines and the resources view
+  fastify.resourceMonitorService.on('sample', (samples: SessionResourceSample[]) => {
+    const byProject = new Map<string, SessionResourceSample[]>();
+    for (const sample of samples) {
+      byProject.set(sample.projectId, [...(byProject.get(sample.projectId) ?? []), sample]);
+    }
+    for (const [projectId, projectSamples] of byProject) {
+      rooms.emitToProject(projectId, WS_EVENTS.SESSION_RESOURCES, projectSamples);
+    }
+  });
 
   // Set up SSH manager event forwarding
-  setupSSHManagerEvents(sshManager, io);
+  setupSSHManagerEvents(sshManager, rooms, fastify.bufferManager, fastify.statusDetector);
 
   // Set up Browser manager event forwarding
-  setupBrowserManagerEvents(browserManager, io);
+  setupBrowserManagerEvents(browserManager, rooms);
 
   // Set up Database manager event forwarding
-  setupDatabaseManagerEvents(databaseManager, io);
+  setupDatabaseManagerEvents(databaseManager, rooms);
+
+  // Serve read-only share links on their own namespace
+  setupSpectatorNamespace(io, sessionManager, fastify.bufferManager, fastify.shareService);
 
   // Handle connections
   io.on('connection', (socket: Socket) => {
-    handleConnection(socket, sessionManager, sshManager, browserManager, fileManager, databaseManager, gitManager);
+    handleConnection(socket, rooms, sessionManager, sshManager, browserManager, fileManager, databaseManager, gitManager, statusPatternService, templateService);
   });
 
   // Cleanup on server close - Socket.IO first for fast port release
@@ -107,14 +187,18 @@ export function setupWebSocket(fastify: FastifyInstance): void {
  */
 function handleConnection(
   socket: Socket,
+  rooms: ProjectRooms,
   sessionManager: SessionManager,
   sshManager: SSHManager,
   browserManager: BrowserManager,
   fileManager: FileManager,
   databaseManager: DatabaseManager,
-  gitManager: GitManager
+  gitManager: GitManager,
+  statusPatternService: StatusPatternService,
+  templateService: TemplateService
 ): void {
   const clientId = registerClient(socket);
+  rooms.joinAll(socket);
   logger.info({ clientId }, 'Client connected');
 
   // Send connection acknowledgment (use 'connected' instead of reserved 'connect')
@@ -125,7 +209,7 @@ function handleConnection(
 
   // Handle all events dynamically
   socket.onAny(async (event: string, payload: unknown, callback?: (response: unknown) => void) => {
-    await handleMessage(socket, event, payload, sessionManager, sshManager, browserManager, fileManager, databaseManager, gitManager, callback);
+    await handleMessage(socket, rooms, event, payload, sessionManager, sshManager, browserManager, fileManager, databaseManager, gitManager, statusPatternService, templateService, callback);
   });
 
   // Handle disconnect
@@ -144,6 +228,7 @@ function handleConnection(
  */
 async function handleMessage(
   socket: Socket,
+  rooms: ProjectRooms,
   event: string,
   payload: unknown,
   sessionManager: SessionManager,
@@ -152,6 +237,8 @@ async function handleMessage(
   fileManager: FileManager,
   databaseManager: DatabaseManager,
   gitManager: GitManager,
+  statusPatternService: StatusPatternService,
+  templateService: TemplateService,
   callback?: (response: unknown) => void
 ): Promise<void> {
   const clientId = socket.id;
@@ -161,12 +248,41 @@ async function handleMessage(
     event !== WS_EVENTS.PING &&
     event !== WS_EVENTS.TERMINAL_INPUT &&
     event !== WS_EVENTS.SSH_INPUT &&
+    event !== WS_EVENTS.TERMINAL_BROADCAST &&
     event !== WS_EVENTS.BROWSER_INPUT &&
     event !== WS_EVENTS.DATABASE_QUERY // Queries can be frequent and contain sensitive data
   ) {
     logger.info({ clientId, event, payload }, 'Received event');
   }
 
+  // Enforce project roles before any handler runs
+  const lookup = { sessionManager, sshManager, browserManager, databaseManager };
+  const authorization = authorizeEvent(getClientPrincipal(socket), event, payload, lookup);
+  if (!authorization.allowed) {
+    const correlationId =
+      typeof payload === 'object' && payload !== null && '_correlationId' in payload
+        ? (payload as { _correlationId?: string })._correlationId
+        : undefined;
+    logger.warn({ clientId, event, reason: authorization.reason }, 'Event denied');
+    recordAudit({
+      event,
+      result: AuditResult.DENIED,
+      clientId,
+      principal: getClientPrincipal(socket),
+      projectId: resolveEventProjectId(payload, lookup),
+      details: { reason: authorization.reason },
+    });
+    sendError(socket, ErrorCode.PERMISSION_DENIED, authorization.reason, correlationId);
+    if (callback) callback({ success: false, error: authorization.reason });
+    return;
+  }
+
+  // Receive the project's session events from now on
+  const projectId = resolveEventProjectId(payload, lookup);
+  if (projectId) {
+    rooms.join(socket, projectId);
+  }
+
   // Check for SSH events first
   if (isSSHEvent(event)) {
     const sshHandler = getSSHHandler(event);
@@ -257,6 +373,66 @@ async function handleMessage(
     return;
   }
 
+  // Check for Status pattern events
+  if (isStatusPatternEvent(event)) {
+    const statusHandler = getStatusPatternHandler(event);
+    if (statusHandler) {
+      try {
+        // Extract correlation ID from payload if present
+        let correlationId: string | undefined;
+        if (typeof payload === 'object' && payload !== null && '_correlationId' in payload) {
+          correlationId = (payload as { _correlationId?: string })._correlationId;
+        }
+        const result = await statusHandler(socket, payload, correlationId, statusPatternService);
+        if (callback) callback({ success: true, data: result });
+      } catch (error) {
+        logger.error({ clientId, event, error }, 'Status pattern handler error');
+        if (callback) callback({ success: false, error: 'Internal handler error' });
+      }
+    }
+    return;
+  }
+
+  // Check for workspace template events
+  if (isTemplateEvent(event)) {
+    const templateHandler = getTemplateHandler(event);
+    if (templateHandler) {
+      try {
+        // Extract correlation ID from payload if present
+        let correlationId: string | undefined;
+        if (typeof payload === 'object' && payload !== null && '_correlationId' in payload) {
+          correlationId = (payload as { _correlationId?: string })._correlationId;
+        }
+        const result = await templateHandler(socket, payload, correlationId, templateService);
+        if (callback) callback({ success: true, data: result });
+      } catch (error) {
+        logger.error({ clientId, event, error }, 'Template handler error');
+        if (callback) callback({ success: false, error: 'Internal handler error' });
+      }
+    }
+    return;
+  }
+
+  // Check for broadcast input events
+  if (isBroadcastEvent(event)) {
+    const broadcastHandler = getBroadcastHandler(event);
+    if (broadcastHandler) {
+      try {
+        // Extract correlation ID from payload if present
+        let correlationId: string | undefined;
+        if (typeof payload === 'object' && payload !== null && '_correlationId' in payload) {
+          correlationId = (payload as { _correlationId?: string })._correlationId;
+        }
+        const result = await broadcastHandler(socket, payload, correlationId, sessionManager, sshManager);
+        if (callback) callback({ success: true, data: result });
+      } catch (error) {
+        logger.error({ clientId, event, error }, 'Broadcast handler error');
+        if (callback) callback({ success: false, error: 'Internal handler error' });
+      }
+    }
+    return;
+  }
+
   // Check if we have a handler for this event
   if (!hasHandler(event)) {
     logger.warn({ clientId, event }, 'Unknown event');
@@ -302,16 +478,21 @@ function handleClose(
 /**
  * Set up event forwarding from SessionManager to Socket.IO clients
  */
-function setupSessionManagerEvents(sessionManager: SessionManager, io: SocketIOServer): void {
+function setupSessionManagerEvents(sessionManager: SessionManager, rooms: ProjectRooms): void {
   // Forward terminal output to clients
   sessionManager.on('terminal:output', ({ sessionId, data, timestamp }) => {
-    io.emit(WS_EVENTS.TERMINAL_OUTPUT, { sessionId, data, timestamp });
+    rooms.emitToSession(sessionId, WS_EVENTS.TERMINAL_OUTPUT, { sessionId, data, timestamp });
+  });
+
+  // Forward cwd and command changes reported by shell integration
+  sessionManager.on('terminal:shell', (state) => {
+    rooms.emitToSession(state.sessionId, WS_EVENTS.TERMINAL_SHELL_STATE, state);
   });
 
   // Forward status changes to clients
   sessionManager.on('status:change', (event) => {
     logger.debug({ event }, 'Status change event');
-    io.emit(WS_EVENTS.STATUS_CHANGE, event);
+    rooms.emitToSession(event.sessionId, WS_EVENTS.STATUS_CHANGE, event);
   });
 
   // Log session events
@@ -321,7 +502,8 @@ function setupSessionManagerEvents(sessionManager: SessionManager, io: SocketIOS
 
   sessionManager.on('session:terminated', ({ sessionId, exitCode }) => {
     logger.info({ sessionId, exitCode }, 'Session terminated');
-    io.emit(WS_EVENTS.SESSION_TERMINATED, { sessionId, exitCode });
+    rooms.emitToSession(sessionId, WS_EVENTS.SESSION_TERMINATED, { sessionId, exitCode });
+    rooms.forgetSession(sessionId);
   });
 
   sessionManager.on('session:paused', ({ sessionId }) => {
@@ -330,7 +512,7 @@ function setupSessionManagerEvents(sessionManager: SessionManager, io: SocketIOS
 
   sessionManager.on('session:disconnected', ({ sessionId }) => {
     logger.info({ sessionId }, 'Session disconnected (PTY died, tmux alive)');
-    io.emit(WS_EVENTS.SESSION_DISCONNECTED, { sessionId });
+    rooms.emitToSession(sessionId, WS_EVENTS.SESSION_DISCONNECTED, { sessionId });
   });
 
   sessionManager.on('session:reconnected', ({ sessionId, clientId }) => {
@@ -341,120 +523,142 @@ function setupSessionManagerEvents(sessionManager: SessionManager, io: SocketIOS
 /**
  * Set up event forwarding from SSHManager to Socket.IO clients
  */
-function setupSSHManagerEvents(sshManager: SSHManager, io: SocketIOServer): void {
-  // Forward SSH output to clients
+function setupSSHManagerEvents(
+  sshManager: SSHManager,
+  rooms: ProjectRooms,
+  bufferManager: BufferManager,
+  statusDetector: StatusDetector
+): void {
+  trackSSHStatus(sshManager, statusDetector);
+
+  // Forward SSH output to clients, keeping scrollback for output search
   sshManager.on('data', ({ sessionId, data }) => {
-    io.emit(WS_EVENTS.SSH_OUTPUT, { sessionId, data, timestamp: Date.now() });
+    if (!bufferManager.hasBuffer(sessionId)) {
+      bufferManager.createBuffer(sessionId);
+    }
+    bufferManager.appendOutput(sessionId, data);
+    const output = { sessionId, data, timestamp: Date.now() };
+    rooms.emitToSession(sessionId, WS_EVENTS.SSH_OUTPUT, output);
+  });
+
+  sshManager.on('closed', ({ sessionId }) => {
+    bufferManager.deleteBuffer(sessionId);
   });
 
   // Forward connection events
-  sshManager.on('connected', ({ sessionId, host, username }) => {
-    logger.info({ sessionId, host, username }, 'SSH connected');
-    io.emit(WS_EVENTS.SSH_CONNECTED, { sessionId, host, username });
+  sshManager.on('connected', ({ sessionId, host, username, shell }) => {
+    logger.info({ sessionId, host, username, shell }, 'SSH connected');
+    rooms.emitToSession(sessionId, WS_EVENTS.SSH_CONNECTED, { sessionId, host, username, shell });
   });
 
   // Forward disconnect events
   sshManager.on('disconnected', ({ sessionId }) => {
     logger.info({ sessionId }, 'SSH disconnected');
-    io.emit('ssh:disconnected', { sessionId });
+    bufferManager.deleteBuffer(sessionId);
+    rooms.emitToSession(sessionId, 'ssh:disconnected', { sessionId });
+    rooms.forgetSession(sessionId);
   });
 
   // Forward error events
-  sshManager.on('error', ({ sessionId, error }) => {
+  // Connection errors can come before the session is registered, so use its project
+  sshManager.on('error', ({ sessionId, projectId, error }) => {
     logger.error({ sessionId, error }, 'SSH error');
-    io.emit(WS_EVENTS.SSH_ERROR, { sessionId, error });
+    rooms.emitToProject(projectId, WS_EVENTS.SSH_ERROR, { sessionId, error });
   });
 
   // Forward keyboard-interactive events
-  sshManager.on('keyboard-interactive', (event) => {
+  sshManager.on('keyboard-interactive', ({ projectId, ...event }) => {
     logger.debug({ sessionId: event.sessionId }, 'SSH keyboard-interactive');
-    io.emit('ssh:keyboard-interactive', event);
+    rooms.emitToProject(projectId, 'ssh:keyboard-interactive', event);
   });
 }
 
 /**
  * Set up event forwarding from BrowserManager to Socket.IO clients
  */
-function setupBrowserManagerEvents(browserManager: BrowserManager, io: SocketIOServer): void {
+function setupBrowserManagerEvents(browserManager: BrowserManager, rooms: ProjectRooms): void {
   // Forward screencast frames to clients
   browserManager.on('frame', (frame) => {
-    io.emit(WS_EVENTS.BROWSER_FRAME, frame);
+    rooms.emitToSession(frame.sessionId, WS_EVENTS.BROWSER_FRAME, frame);
   });
 
   // Forward navigation events
   browserManager.on('navigated', ({ sessionId, url, title }) => {
     logger.debug({ sessionId, url }, 'Browser navigated');
-    io.emit('browser:loaded', { sessionId, url, title });
+    rooms.emitToSession(sessionId, 'browser:loaded', { sessionId, url, title });
   });
 
   // Forward page load events
   browserManager.on('loaded', ({ sessionId, url, title }) => {
     logger.debug({ sessionId, url }, 'Browser page loaded');
-    io.emit('browser:loaded', { sessionId, url, title });
+    rooms.emitToSession(sessionId, 'browser:loaded', { sessionId, url, title });
   });
 
   // Forward console messages
   browserManager.on('console', (message) => {
-    io.emit(WS_EVENTS.BROWSER_CONSOLE, message);
+    rooms.emitToSession(message.sessionId, WS_EVENTS.BROWSER_CONSOLE, message);
   });
 
   // Forward error events
   browserManager.on('error', ({ sessionId, message, stack }) => {
     logger.error({ sessionId, message }, 'Browser page error');
-    io.emit('browser:error', { sessionId, error: message, stack });
+    rooms.emitToSession(sessionId, 'browser:error', { sessionId, error: message, stack });
   });
 
   // Forward termination events
   browserManager.on('terminated', ({ sessionId }) => {
     logger.info({ sessionId }, 'Browser session terminated');
-    io.emit(WS_EVENTS.SESSION_TERMINATED, { sessionId });
+    rooms.emitToSession(sessionId, WS_EVENTS.SESSION_TERMINATED, { sessionId });
+    rooms.forgetSession(sessionId);
   });
 
   // Forward crash events
   browserManager.on('crashed', ({ sessionId }) => {
     logger.error({ sessionId }, 'Browser page crashed');
-    io.emit('browser:crashed', { sessionId });
+    rooms.emitToSession(sessionId, 'browser:crashed', { sessionId });
   });
 
   // Forward close events
   browserManager.on('closed', ({ sessionId }) => {
     logger.info({ sessionId }, 'Browser page closed');
-    io.emit(WS_EVENTS.SESSION_TERMINATED, { sessionId });
+    rooms.emitToSession(sessionId, WS_EVENTS.SESSION_TERMINATED, { sessionId });
   });
 }
 
 /**
  * Set up event forwarding from DatabaseManager to Socket.IO clients
  */
-function setupDatabaseManagerEvents(databaseManager: DatabaseManager, io: SocketIOServer): void {
+function setupDatabaseManagerEvents(databaseManager: DatabaseManager, rooms: ProjectRooms): void {
   // Forward connection events
   databaseManager.on('connected', ({ sessionId, engine, database }) => {
     logger.info({ sessionId, engine, database }, 'Database connected');
-    io.emit(WS_EVENTS.DATABASE_CONNECTED, { sessionId, engine, database });
+    rooms.emitToSession(sessionId, WS_EVENTS.DATABASE_CONNECTED, { sessionId, engine, database });
   });
 
   // Forward disconnect events
   databaseManager.on('disconnected', ({ sessionId }) => {
     logger.info({ sessionId }, 'Database disconnected');
-    io.emit(WS_EVENTS.DATABASE_DISCONNECTED, { sessionId });
+    rooms.emitToSession(sessionId, WS_EVENTS.DATABASE_DISCONNECTED, { sessionId });
+    rooms.forgetSession(sessionId);
   });
 
   // Forward error events
-  databaseManager.on('error', ({ sessionId, error, code }) => {
+  // Connection errors come before the session is registered, so use its project
+  databaseManager.on('error', ({ sessionId, projectId, error, code }) => {
     logger.error({ sessionId, error, code }, 'Database error');
-    io.emit(WS_EVENTS.DATABASE_ERROR, { sessionId, error, code });
+    rooms.emitToProject(projectId, WS_EVENTS.DATABASE_ERROR, { sessionId, error, code });
   });
 
   // Forward query result events
   databaseManager.on('queryResult', ({ sessionId, result }) => {
     logger.debug({ sessionId, rowCount: result.rowCount }, 'Query result');
-    io.emit(WS_EVENTS.DATABASE_QUERY_RESULT, { sessionId, result });
+    rooms.emitToSession(sessionId, WS_EVENTS.DATABASE_QUERY_RESULT, { sessionId, result });
   });
 
   // Forward query error events
   databaseManager.on('queryError', ({ sessionId, error, query }) => {
     logger.error({ sessionId, error }, 'Query error');
-    io.emit(WS_EVENTS.DATABASE_QUERY_ERROR, { sessionId, error, query });
+    rooms.emitToSession(sessionId, WS_EVENTS.DATABASE_QUERY_ERROR, { sessionId, error, query });
   });
 }
 
@@ -7,6 +7,13 @@
 import { Socket, Server as SocketIOServer } from 'socket.io';
 import { RATE_LIMITED_EVENTS, type WSEventName } from '@masterdashboard/shared';
 import { createChildLogger } from '../utils/logger.js';
+import { ErrorCode, WebSocketError } from '../utils/errors.js';
+import {
+  extractBearerToken,
+  type AuthService,
+  type AuthSession,
+} from '../services/auth-service.js';
+import { resolvePrincipal, type Principal } from '../services/access-control.js';
 
 const logger = createChildLogger('ws-middleware');
 
@@ -21,6 +28,10 @@ interface ClientState {
   rateLimits: Map<string, RateLimitEntry>;
   isAlive: boolean;
   lastPing: number;
+  /** Session established during the handshake (null when auth is disabled) */
+  auth: AuthSession | null;
+  /** Who the client acts as, for project role checks */
+  principal: Principal | null;
 }
 
 const clients = new Map<string, ClientState>();
@@ -40,6 +51,33 @@ export function getIO(): SocketIOServer | null {
   return ioInstance;
 }
 
+/**
+ * Create the Socket.IO handshake middleware
+ * Accepts `auth.token` from the client or an Authorization bearer header
+ */
+export function createAuthMiddleware(authService: AuthService) {
+  return (socket: Socket, next: (err?: Error) => void): void => {
+    const handshakeToken = (socket.handshake.auth as { token?: unknown } | undefined)?.token;
+    const token =
+      typeof handshakeToken === 'string'
+        ? handshakeToken
+        : extractBearerToken(socket.handshake.headers.authorization);
+
+    const session = authService.authenticate(token);
+    const principal = resolvePrincipal(session, authService.isEnabled());
+    socket.data.auth = session;
+    socket.data.principal = principal;
+
+    if (principal) {
+      next();
+      return;
+    }
+
+    logger.warn({ address: socket.handshake.address }, 'Rejected unauthenticated socket');
+    next(new WebSocketError(ErrorCode.WS_UNAUTHORIZED, 'Authentication required'));
+  };
+}
+
 /**
  * Register a new client
  */
@@ -51,6 +89,8 @@ export function registerClient(socket: Socket): string {
     rateLimits: new Map(),
     isAlive: true,
     lastPing: Date.now(),
+    auth: (socket.data.auth as AuthSession | null | undefined) ?? null,
+    principal: (socket.data.principal as Principal | null | undefined) ?? null,
   };
 
   clients.set(clientId, state);
@@ -79,6 +119,20 @@ export function getClientState(socket: Socket): ClientState | undefined {
   return clients.get(socket.id);
 }
 
+/**
+ * Get the auth session a client connected with
+ */
+export function getClientAuth(socket: Socket): AuthSession | null {
+  return clients.get(socket.id)?.auth ?? null;
+}
+
+/**
+ * Get the principal a client acts as
+ */
+export function getClientPrincipal(socket: Socket): Principal | null {
+  return clients.get(socket.id)?.principal ?? null;
+}
+
 /**
  * Get client ID from socket
  */
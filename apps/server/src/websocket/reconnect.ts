@@ -152,6 +152,11 @@ export async function handleTerminalReconnect(
         isReplay: true,
       });
     }
+
+    const shellState = isActive ? sessionManager.getShellState(sessionId) : undefined;
+    if (shellState) {
+      sendMessage(socket, WS_EVENTS.TERMINAL_SHELL_STATE, shellState);
+    }
   } catch (error) {
     logger.error({ clientId, sessionId, error }, 'Terminal reconnection failed');
     sendMessage(
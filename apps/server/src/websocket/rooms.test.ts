@@ -0,0 +1,158 @@
+/**
+ * Unit tests for project-scoped WebSocket rooms
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { WS_EVENTS } from '@masterdashboard/shared';
+import type { Principal } from '../services/access-control.js';
+import type { SessionLookup } from './authorization.js';
+import { registerClient } from './middleware.js';
+import { ADMIN_ROOM, ProjectRooms, projectRoom, syncProjectRoom } from './rooms.js';
+
+const memberships = new Map<string, string>();
+
+// Mock the membership lookups
+vi.mock('../persistence/database.js', () => ({
+  getProjectMemberRole: (projectId: string, userId: string) =>
+    memberships.get(`${projectId}:${userId}`),
+  getProjectsForUser: (userId: string) =>
+    Array.from(memberships.keys())
+      .filter((key) => key.endsWith(`:${userId}`))
+      .map((key) => ({ id: key.split(':')[0] })),
+  getUserById: vi.fn(),
+  getUserByUsername: vi.fn(),
+  countUsers: vi.fn(() => 0),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const sessions = new Map<string, string>();
+
+const lookup = {
+  sessionManager: {
+    getSession: (id: string) => (sessions.has(id) ? { projectId: sessions.get(id) } : undefined),
+  },
+  sshManager: { getSession: () => undefined },
+  databaseManager: { getSession: () => undefined },
+  browserManager: { getSession: () => null },
+} as unknown as SessionLookup;
+
+let socketCount = 0;
+
+/**
+ * Registered socket stand-in that tracks the rooms it joins and leaves
+ */
+function connect(principal: Principal): Socket {
+  const rooms = new Set<string>();
+  const socket = {
+    id: `socket_${++socketCount}`,
+    data: { auth: null, principal },
+    rooms,
+    join: (room: string | string[]) => {
+      for (const name of Array.isArray(room) ? room : [room]) rooms.add(name);
+    },
+    leave: (room: string) => {
+      rooms.delete(room);
+    },
+  } as unknown as Socket;
+  registerClient(socket);
+  return socket;
+}
+
+const viewer: Principal = { userId: 'usr_viewer', username: 'viewer', isAdmin: false };
+const outsider: Principal = { userId: 'usr_outsider', username: 'outsider', isAdmin: false };
+const admin: Principal = { userId: null, username: 'admin', isAdmin: true };
+
+describe('ProjectRooms', () => {
+  let emitted: Array<{ rooms: string[]; event: string; payload: unknown }>;
+  let rooms: ProjectRooms;
+
+  beforeEach(() => {
+    memberships.clear();
+    memberships.set('prj_1:usr_viewer', 'viewer');
+    sessions.clear();
+    sessions.set('term_1', 'prj_1');
+
+    emitted = [];
+    const io = {
+      to: (target: string | string[]) => ({
+        emit: (event: string, payload: unknown) =>
+          emitted.push({ rooms: Array.isArray(target) ? target : [target], event, payload }),
+      }),
+    } as unknown as SocketIOServer;
+    rooms = new ProjectRooms(io, lookup);
+  });
+
+  it("should join members to their projects' rooms and admins to the admin room", () => {
+    const memberSocket = connect(viewer);
+    const adminSocket = connect(admin);
+
+    rooms.joinAll(memberSocket);
+    rooms.joinAll(adminSocket);
+
+    expect([...memberSocket.rooms]).toEqual([projectRoom('prj_1')]);
+    expect([...adminSocket.rooms]).toEqual([ADMIN_ROOM]);
+  });
+
+  it('should only join a project room the principal may read', () => {
+    const socket = connect(outsider);
+
+    rooms.join(socket, 'prj_1');
+    expect(socket.rooms.size).toBe(0);
+
+    memberships.set('prj_1:usr_outsider', 'viewer');
+    rooms.join(socket, 'prj_1');
+    expect(socket.rooms.has(projectRoom('prj_1'))).toBe(true);
+  });
+
+  it("should move a user's sockets in and out of a room as their membership changes", () => {
+    const socket = connect(outsider);
+    const other = connect(viewer);
+    rooms.joinAll(other);
+
+    memberships.set('prj_1:usr_outsider', 'viewer');
+    syncProjectRoom('usr_outsider', 'prj_1');
+    expect(socket.rooms.has(projectRoom('prj_1'))).toBe(true);
+
+    memberships.delete('prj_1:usr_outsider');
+    syncProjectRoom('usr_outsider', 'prj_1');
+    expect(socket.rooms.has(projectRoom('prj_1'))).toBe(false);
+    expect(other.rooms.has(projectRoom('prj_1'))).toBe(true);
+  });
+
+  it("should send session events to the session's project", () => {
+    rooms.emitToSession('term_1', WS_EVENTS.TERMINAL_OUTPUT, { sessionId: 'term_1', data: 'ls' });
+
+    expect(emitted).toEqual([
+      {
+        rooms: [projectRoom('prj_1'), ADMIN_ROOM],
+        event: WS_EVENTS.TERMINAL_OUTPUT,
+        payload: { sessionId: 'term_1', data: 'ls' },
+      },
+    ]);
+  });
+
+  it('should remember a session project until the session is forgotten', () => {
+    rooms.emitToSession('term_1', WS_EVENTS.STATUS_CHANGE, {});
+    sessions.delete('term_1');
+
+    rooms.emitToSession('term_1', WS_EVENTS.SESSION_TERMINATED, {});
+    rooms.forgetSession('term_1');
+    rooms.emitToSession('term_1', WS_EVENTS.SESSION_TERMINATED, {});
+
+    expect(emitted.map((e) => e.rooms)).toEqual([
+      [projectRoom('prj_1'), ADMIN_ROOM],
+      [projectRoom('prj_1'), ADMIN_ROOM],
+      [ADMIN_ROOM],
+    ]);
+  });
+});
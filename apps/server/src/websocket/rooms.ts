@@ -0,0 +1,133 @@
+/**
+ * WebSocket Project Rooms
+ *
+ * Session output and state go only to sockets allowed to read the project
+ * the session belongs to. A socket joins the room of each project its user
+ * is a member of when it connects, and of any other project it is later
+ * authorized for; administrators join one room that receives every project.
+ * When a user's membership changes, their sockets join or leave the room to
+ * match.
+ */
+
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { ProjectRole } from '@masterdashboard/shared';
+import { getProjectsForUser } from '../persistence/database.js';
+import { canAccessProject } from '../services/access-control.js';
+import { createChildLogger } from '../utils/logger.js';
+import { lookupSessionProjectId, type SessionLookup } from './authorization.js';
+import { getClientPrincipal, getConnectedClientIds, getSocketByClientId } from './middleware.js';
+
+const logger = createChildLogger('ws-rooms');
+
+/** Room of sockets that receive every project's events */
+export const ADMIN_ROOM = 'admins';
+
+/**
+ * Room of sockets allowed to read a project
+ */
+export function projectRoom(projectId: string): string {
+  return `project:${projectId}`;
+}
+
+/**
+ * Move a user's sockets into or out of a project's room to match their
+ * current membership
+ */
+export function syncProjectRoom(userId: string, projectId: string): void {
+  const room = projectRoom(projectId);
+  for (const clientId of getConnectedClientIds()) {
+    const socket = getSocketByClientId(clientId);
+    const principal = socket ? getClientPrincipal(socket) : null;
+    if (!socket || !principal || principal.isAdmin || principal.userId !== userId) {
+      continue;
+    }
+
+    if (canAccessProject(principal, projectId, ProjectRole.VIEWER)) {
+      void socket.join(room);
+    } else if (socket.rooms.has(room)) {
+      void socket.leave(room);
+      logger.debug({ clientId, userId, projectId }, 'Socket left project room');
+    }
+  }
+}
+
+export class ProjectRooms {
+  /**
+   * Project of each session events were sent for, so events that follow a
+   * session's removal from its manager still reach the right room
+   */
+  private sessionProjects = new Map<string, string>();
+
+  constructor(
+    private readonly io: SocketIOServer,
+    private readonly lookup: SessionLookup
+  ) {}
+
+  /**
+   * Join a newly connected socket to the rooms of its principal's projects
+   */
+  joinAll(socket: Socket): void {
+    const principal = getClientPrincipal(socket);
+    if (!principal) {
+      return;
+    }
+    if (principal.isAdmin) {
+      void socket.join(ADMIN_ROOM);
+      return;
+    }
+    if (principal.userId) {
+      const projects = getProjectsForUser(principal.userId);
+      void socket.join(projects.map((project) => projectRoom(project.id)));
+    }
+  }
+
+  /**
+   * Join a socket to a project's room if its principal may read the project
+   */
+  join(socket: Socket, projectId: string): void {
+    const principal = getClientPrincipal(socket);
+    if (!principal || principal.isAdmin || socket.rooms.has(projectRoom(projectId))) {
+      return;
+    }
+    if (canAccessProject(principal, projectId, ProjectRole.VIEWER)) {
+      void socket.join(projectRoom(projectId));
+    }
+  }
+
+  /**
+   * Send an event to the sockets allowed to read a project
+   */
+  emitToProject(projectId: string, event: string, payload: unknown): void {
+    this.io.to([projectRoom(projectId), ADMIN_ROOM]).emit(event, payload);
+  }
+
+  /**
+   * Send an event to the sockets allowed to read a session's project
+   * Events for a session whose project is unknown reach administrators only.
+   */
+  emitToSession(sessionId: string, event: string, payload: unknown): void {
+    const projectId = this.getSessionProjectId(sessionId);
+    if (!projectId) {
+      logger.debug({ sessionId, event }, 'No project for session event, sending to administrators');
+      this.io.to(ADMIN_ROOM).emit(event, payload);
+      return;
+    }
+    this.emitToProject(projectId, event, payload);
+  }
+
+  /**
+   * Drop a finished session's remembered project
+   */
+  forgetSession(sessionId: string): void {
+    this.sessionProjects.delete(sessionId);
+  }
+
+  private getSessionProjectId(sessionId: string): string | null {
+    const projectId =
+      this.sessionProjects.get(sessionId) ?? lookupSessionProjectId(sessionId, this.lookup);
+    if (projectId) {
+      this.sessionProjects.set(sessionId, projectId);
+    }
+    return projectId;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Spectator Namespace
+ *
+ * Serves read-only share links on a dedicated Socket.IO namespace. A
+ * spectator authenticates with a share token instead of a session token,
+ * receives a replay of the session's buffer followed by live output for that
+ * one session, and has every inbound event rejected.
+ */
+
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import {
+  AuditResult,
+  SPECTATOR_NAMESPACE,
+  WS_EVENTS,
+  type SessionShare,
+  type SpectatorEndedPayload,
+  type SpectatorSnapshotPayload,
+} from '@masterdashboard/shared';
+import type { SessionManager } from '../managers/session-manager.js';
+import type { BufferManager } from '../managers/buffer-manager.js';
+import type { ShareService } from '../services/share-service.js';
+import { recordAudit } from '../services/audit-log.js';
+import { createChildLogger } from '../utils/logger.js';
+import { ErrorCode, WebSocketError } from '../utils/errors.js';
+
+const logger = createChildLogger('spectator');
+
+/** Room holding every spectator of a session */
+function sessionRoom(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/** Room holding the spectators that joined through one share link */
+function shareRoom(shareId: string): string {
+  return `share:${shareId}`;
+}
+
+/**
+ * Tell spectators in a room why the stream ended, then drop them
+ */
+function endSpectators(
+  io: SocketIOServer,
+  room: string,
+  sessionId: string,
+  reason: SpectatorEndedPayload['reason']
+): void {
+  const namespace = io.of(SPECTATOR_NAMESPACE);
+  const payload: SpectatorEndedPayload = { sessionId, reason };
+  namespace.to(room).emit(WS_EVENTS.SPECTATOR_ENDED, payload);
+  namespace.in(room).disconnectSockets(true);
+}
+
+/**
+ * Register the spectator namespace and its event forwarding
+ */
+export function setupSpectatorNamespace(
+  io: SocketIOServer,
+  sessionManager: SessionManager,
+  bufferManager: BufferManager,
+  shareService: ShareService
+): void {
+  const namespace = io.of(SPECTATOR_NAMESPACE);
+
+  // Only share tokens for live terminal sessions get in
+  namespace.use((socket: Socket, next: (err?: Error) => void) => {
+    const shareToken = (socket.handshake.auth as { shareToken?: unknown } | undefined)?.shareToken;
+    const share = shareService.resolveToken(
+      typeof shareToken === 'string' ? shareToken : undefined
+    );
+
+    if (!share || !sessionManager.getTerminalSession(share.sessionId)) {
+      logger.warn({ address: socket.handshake.address }, 'Rejected spectator socket');
+      next(new WebSocketError(ErrorCode.WS_UNAUTHORIZED, 'Share link is invalid or has expired'));
+      return;
+    }
+
+    socket.data.share = share;
+    next();
+  });
+
+  namespace.on('connection', (socket: Socket) => {
+    handleSpectatorConnection(socket, sessionManager, bufferManager);
+  });
+
+  // Live output goes only to the session's own room
+  sessionManager.on('terminal:output', ({ sessionId, data, timestamp }) => {
+    namespace.to(sessionRoom(sessionId)).emit(WS_EVENTS.TERMINAL_OUTPUT, {
+      sessionId,
+      data,
+      timestamp,
+    });
+  });
+
+  sessionManager.on('session:terminated', ({ sessionId }) => {
+    endSpectators(io, sessionRoom(sessionId), sessionId, 'terminated');
+  });
+
+  shareService.on('revoked', (share: SessionShare) => {
+    endSpectators(io, shareRoom(share.id), share.sessionId, 'revoked');
+  });
+
+  logger.info('Spectator namespace configured');
+}
+
+/**
+ * Handle a new spectator connection
+ */
+function handleSpectatorConnection(
+  socket: Socket,
+  sessionManager: SessionManager,
+  bufferManager: BufferManager
+): void {
+  const share = socket.data.share as SessionShare;
+  const session = sessionManager.getTerminalSession(share.sessionId);
+
+  void socket.join([sessionRoom(share.sessionId), shareRoom(share.id)]);
+  logger.info({ socketId: socket.id, shareId: share.id, sessionId: share.sessionId }, 'Spectator joined');
+  recordAudit({
+    event: 'session:spectate',
+    result: AuditResult.SUCCESS,
+    clientId: socket.id,
+    projectId: share.projectId,
+    target: share.sessionId,
+    details: { shareId: share.id, address: socket.handshake.address },
+  });
+
+  const snapshot: SpectatorSnapshotPayload = {
+    sessionId: share.sessionId,
+    output: bufferManager.getBufferSnapshot(share.sessionId, true)?.outputSinceDisconnect ?? '',
+    cols: session?.cols ?? 80,
+    rows: session?.rows ?? 24,
+  };
+  socket.emit(WS_EVENTS.SPECTATOR_SNAPSHOT, snapshot);
+
+  // Drop the spectator when the link runs out
+  const expiryTimer = setTimeout(() => {
+    const payload: SpectatorEndedPayload = { sessionId: share.sessionId, reason: 'expired' };
+    socket.emit(WS_EVENTS.SPECTATOR_ENDED, payload);
+    socket.disconnect(true);
+  }, Math.max(0, Date.parse(share.expiresAt) - Date.now()));
+
+  // Spectators are strictly read-only
+  socket.onAny((event: string, ...args: unknown[]) => {
+    logger.warn({ socketId: socket.id, shareId: share.id, event }, 'Spectator event rejected');
+    const callback = args[args.length - 1];
+    if (typeof callback === 'function') {
+      callback({ success: false, error: 'Spectator connections are read-only' });
+    }
+  });
+
+  socket.on('disconnect', (reason: string) => {
+    clearTimeout(expiryTimer);
+    logger.info({ socketId: socket.id, shareId: share.id, reason }, 'Spectator left');
+  });
+}
@@ -7,6 +7,7 @@
 import { Socket } from 'socket.io';
 import {
   WS_EVENTS,
+  SSH_DEFAULTS,
   sshConfigSchema,
   type SSHConfig,
 } from '@masterdashboard/shared';
@@ -14,6 +15,7 @@ import { SSHManager } from '../managers/ssh-manager.js';
 import { createChildLogger } from '../utils/logger.js';
 import { isAppError } from '../utils/errors.js';
 import { sendMessage, sendError, getClientId, checkRateLimit } from './middleware.js';
+import { auditSocketAction } from './audit.js';
 
 const logger = createChildLogger('ssh-handlers');
 
@@ -57,9 +59,17 @@ export const sshHandlers: Record<string, SSHEventHandler> = {
       'SSH connection requested'
     );
 
+    const target = `${config.username}@${config.host}:${config.port ?? SSH_DEFAULTS.port}`;
+
     try {
       const session = await sshManager.connect(config);
 
+      auditSocketAction(socket, WS_EVENTS.SSH_CONNECT, {
+        projectId: config.projectId,
+        target,
+        details: { sessionId: session.id, authMethod: config.authMethod },
+      });
+
       sendMessage(
         socket,
         WS_EVENTS.SSH_CONNECTED,
@@ -68,11 +78,13 @@ export const sshHandlers: Record<string, SSHEventHandler> = {
           host: session.host,
           port: session.port,
           username: session.username,
+          shell: session.shell,
         },
         correlationId
       );
     } catch (error) {
       logger.error({ error, host: config.host }, 'SSH connection failed');
+      auditSocketAction(socket, WS_EVENTS.SSH_CONNECT, { projectId: config.projectId, target }, error);
       const message = isAppError(error) ? error.message : 'SSH connection failed';
       sendError(socket, 'SSH_CONNECTION_FAILED', message, correlationId);
     }
@@ -0,0 +1,154 @@
+/**
+ * Status Pattern WebSocket Handlers
+ *
+ * Lists, adds, removes and tests status detection patterns. Patterns are
+ * server-wide, so adding or removing one broadcasts the new list to every
+ * client.
+ */
+
+import { Socket } from 'socket.io';
+import {
+  WS_EVENTS,
+  statusPatternAddPayloadSchema,
+  statusPatternRemovePayloadSchema,
+  statusPatternsListPayloadSchema,
+  statusPatternTestPayloadSchema,
+  type StatusPattern,
+} from '@masterdashboard/shared';
+import type { StatusPatternService } from '../services/status-pattern-service.js';
+import { isAppError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+import { sendMessage, sendError, broadcast, getClientPrincipal } from './middleware.js';
+import { auditSocketAction } from './audit.js';
+
+const logger = createChildLogger('status-handlers');
+
+/**
+ * Status pattern event handler function type
+ */
+type StatusEventHandler = (
+  socket: Socket,
+  payload: unknown,
+  correlationId: string | undefined,
+  statusPatternService: StatusPatternService
+) => Promise<void> | void;
+
+/**
+ * Send the full pattern list to every client
+ */
+function broadcastPatterns(statusPatternService: StatusPatternService): void {
+  broadcast(WS_EVENTS.STATUS_PATTERNS_LIST_RESPONSE, {
+    patterns: statusPatternService.list(),
+  });
+}
+
+/**
+ * Map of status pattern event names to handlers
+ */
+const statusHandlers: Record<string, StatusEventHandler> = {
+  /**
+   * List patterns
+   */
+  [WS_EVENTS.STATUS_PATTERNS_LIST]: (socket, payload, correlationId, statusPatternService) => {
+    const result = statusPatternsListPayloadSchema.safeParse(payload ?? {});
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    sendMessage(
+      socket,
+      WS_EVENTS.STATUS_PATTERNS_LIST_RESPONSE,
+      { patterns: statusPatternService.list(result.data.shell) },
+      correlationId
+    );
+  },
+
+  /**
+   * Add a pattern, or replace the one with the same ID
+   */
+  [WS_EVENTS.STATUS_PATTERN_ADD]: (socket, payload, correlationId, statusPatternService) => {
+    const result = statusPatternAddPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const pattern = result.data.pattern as StatusPattern;
+    try {
+      statusPatternService.save(pattern, getClientPrincipal(socket)?.userId ?? null);
+      auditSocketAction(socket, WS_EVENTS.STATUS_PATTERN_ADD, {
+        target: pattern.id,
+        details: { pattern: pattern.pattern, status: pattern.status, shell: pattern.shell },
+      });
+    } catch (error) {
+      logger.error({ error, patternId: pattern.id }, 'Failed to add status pattern');
+      auditSocketAction(socket, WS_EVENTS.STATUS_PATTERN_ADD, { target: pattern.id }, error);
+      const message = isAppError(error) ? error.message : 'Failed to add status pattern';
+      sendError(socket, 'STATUS_PATTERN_ADD_FAILED', message, correlationId);
+      return;
+    }
+
+    broadcastPatterns(statusPatternService);
+  },
+
+  /**
+   * Remove a custom pattern
+   */
+  [WS_EVENTS.STATUS_PATTERN_REMOVE]: (socket, payload, correlationId, statusPatternService) => {
+    const result = statusPatternRemovePayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const { patternId } = result.data;
+    try {
+      if (!statusPatternService.remove(patternId)) {
+        sendError(socket, 'STATUS_PATTERN_NOT_FOUND', `Status pattern not found: ${patternId}`, correlationId);
+        return;
+      }
+      auditSocketAction(socket, WS_EVENTS.STATUS_PATTERN_REMOVE, { target: patternId });
+    } catch (error) {
+      auditSocketAction(socket, WS_EVENTS.STATUS_PATTERN_REMOVE, { target: patternId }, error);
+      const message = isAppError(error) ? error.message : 'Failed to remove status pattern';
+      sendError(socket, 'STATUS_PATTERN_REMOVE_FAILED', message, correlationId);
+      return;
+    }
+
+    broadcastPatterns(statusPatternService);
+  },
+
+  /**
+   * Test a regex against a session's recent output
+   */
+  [WS_EVENTS.STATUS_PATTERN_TEST]: (socket, payload, correlationId, statusPatternService) => {
+    const result = statusPatternTestPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    try {
+      const testResult = statusPatternService.test(result.data.sessionId, result.data.pattern);
+      sendMessage(socket, WS_EVENTS.STATUS_PATTERN_TEST_RESULT, testResult, correlationId);
+    } catch (error) {
+      const message = isAppError(error) ? error.message : 'Failed to test status pattern';
+      sendError(socket, 'STATUS_PATTERN_TEST_FAILED', message, correlationId);
+    }
+  },
+};
+
+/**
+ * Check if an event is a status pattern event
+ */
+export function isStatusPatternEvent(event: string): boolean {
+  return event in statusHandlers;
+}
+
+/**
+ * Get status pattern event handler
+ */
+export function getStatusPatternHandler(event: string): StatusEventHandler | undefined {
+  return statusHandlers[event];
+}
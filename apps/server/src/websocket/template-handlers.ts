@@ -0,0 +1,100 @@
+/**
+ * Workspace Template WebSocket Handlers
+ *
+ * Launches workspace templates. Launching goes over the socket rather than
+ * REST so the created terminal sessions are tracked for this client, like
+ * sessions created with session:create.
+ */
+
+import { Socket } from 'socket.io';
+import {
+  WS_EVENTS,
+  templateLaunchPayloadSchema,
+  type TemplateLaunchPayload,
+} from '@masterdashboard/shared';
+import type { TemplateService } from '../services/template-service.js';
+import { isAppError } from '../utils/errors.js';
+import { createChildLogger } from '../utils/logger.js';
+import { sendMessage, sendError, getClientId, getClientPrincipal } from './middleware.js';
+import { auditSocketAction } from './audit.js';
+
+const logger = createChildLogger('template-handlers');
+
+/**
+ * Template event handler function type
+ */
+type TemplateEventHandler = (
+  socket: Socket,
+  payload: unknown,
+  correlationId: string | undefined,
+  templateService: TemplateService
+) => Promise<void> | void;
+
+/**
+ * Map of template event names to handlers
+ */
+const templateHandlers: Record<string, TemplateEventHandler> = {
+  /**
+   * Create the sessions for a template and return its nodes
+   */
+  [WS_EVENTS.TEMPLATE_LAUNCH]: async (socket, payload, correlationId, templateService) => {
+    const clientId = getClientId(socket);
+    if (!clientId) {
+      sendError(socket, 'UNAUTHORIZED', 'Client not registered', correlationId);
+      return;
+    }
+
+    const result = templateLaunchPayloadSchema.safeParse(payload);
+    if (!result.success) {
+      sendError(socket, 'VALIDATION_FAILED', result.error.message, correlationId);
+      return;
+    }
+
+    const launch = result.data as TemplateLaunchPayload;
+    try {
+      const launched = await templateService.launch(
+        clientId,
+        getClientPrincipal(socket)?.userId ?? null,
+        launch
+      );
+      if (!launched) {
+        sendError(socket, 'TEMPLATE_NOT_FOUND', `Workspace template not found: ${launch.templateId}`, correlationId);
+        return;
+      }
+
+      auditSocketAction(socket, WS_EVENTS.TEMPLATE_LAUNCH, {
+        projectId: launch.projectId,
+        target: launch.templateId,
+        details: {
+          source: launch.source,
+          sessions: launched.nodes.filter((node) => node.sessionId).length,
+        },
+      });
+      sendMessage(socket, WS_EVENTS.TEMPLATE_LAUNCHED, launched, correlationId);
+    } catch (error) {
+      logger.error({ error, templateId: launch.templateId }, 'Failed to launch workspace template');
+      auditSocketAction(
+        socket,
+        WS_EVENTS.TEMPLATE_LAUNCH,
+        { projectId: launch.projectId, target: launch.templateId },
+        error
+      );
+      const message = isAppError(error) ? error.message : 'Failed to launch workspace template';
+      sendError(socket, 'TEMPLATE_LAUNCH_FAILED', message, correlationId);
+    }
+  },
+};
+
+/**
+ * Check if an event is a template event
+ */
+export function isTemplateEvent(event: string): boolean {
+  return event in templateHandlers;
+}
+
+/**
+ * Get template event handler
+ */
+export function getTemplateHandler(event: string): TemplateEventHandler | undefined {
+  return templateHandlers[event];
+}
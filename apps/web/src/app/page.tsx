@@ -16,6 +16,7 @@ import {
   useProjectLoading,
   useProjectError,
 } from '@/stores/project-store';
+import { useAuthStore, useAuthRequired, useAuthUser } from '@/stores/auth-store';
 
 export default function Home() {
   const { loadProjects, clearError } = useProjectStore();
@@ -23,6 +24,12 @@ export default function Home() {
   const recentProjectIds = useRecentProjectIds();
   const isLoading = useProjectLoading();
   const error = useProjectError();
+  const authRequired = useAuthRequired();
+  const logout = useAuthStore((state) => state.logout);
+  const user = useAuthUser();
+
+  // Only administrators may create projects
+  const canCreate = !user || user.isAdmin;
 
   const [showCreateDialog, setShowCreateDialog] = useState(false);
 
@@ -74,22 +81,31 @@ export default function Home() {
               </span>
             </div>
 
-            <Button onClick={() => setShowCreateDialog(true)}>
-              <svg
-                className="w-4 h-4 mr-1.5"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 4v16m8-8H4"
-                />
-              </svg>
-              New Project
-            </Button>
+            <div className="flex items-center gap-2">
+              {authRequired && (
+                <Button variant="ghost" onClick={logout}>
+                  Sign out
+                </Button>
+              )}
+              {canCreate && (
+                <Button onClick={() => setShowCreateDialog(true)}>
+                  <svg
+                    className="w-4 h-4 mr-1.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 4v16m8-8H4"
+                    />
+                  </svg>
+                  New Project
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -148,24 +164,28 @@ export default function Home() {
               No projects yet
             </h2>
             <p className="text-sm text-slate-500 mb-6 text-center max-w-sm">
-              Create your first project to start organizing terminals by workspace.
+              {canCreate
+                ? 'Create your first project to start organizing terminals by workspace.'
+                : 'Ask an administrator to add you to a project.'}
             </p>
-            <Button onClick={() => setShowCreateDialog(true)}>
-              <svg
-                className="w-4 h-4 mr-1.5"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 4v16m8-8H4"
-                />
-              </svg>
-              Create Project
-            </Button>
+            {canCreate && (
+              <Button onClick={() => setShowCreateDialog(true)}>
+                <svg
+                  className="w-4 h-4 mr-1.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                Create Project
+              </Button>
+            )}
           </div>
         )}
 
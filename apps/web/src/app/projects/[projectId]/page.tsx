@@ -1,7 +1,8 @@
 /**
  * Project Workspace Page
  *
- * Dynamic route for project workspace with header, quick start sidebar, and canvas.
+ * Dynamic route for project workspace with header, quick start sidebar, canvas,
+ * and the queue of terminals waiting for input.
  */
 
 'use client';
@@ -11,7 +12,13 @@ import { useParams, useRouter } from 'next/navigation';
 import { Canvas } from '@/components/canvas';
 import { ProjectHeader, QuickStart } from '@/components/projects';
 import { CommandPalette } from '@/components/command-palette';
-import { useWebSocket, useKeyboardShortcuts } from '@/hooks';
+import { WaitingQueue } from '@/components/panels/WaitingQueue';
+import {
+  useWebSocket,
+  useKeyboardShortcuts,
+  useStatusNotification,
+  useResourceMonitor,
+} from '@/hooks';
 import { useProjectStore, useCurrentProject, useProjectLoading } from '@/stores/project-store';
 import { useCanvasStore, useConnectionStatus } from '@/stores/canvas-store';
 import { NodeType } from '@masterdashboard/shared';
@@ -46,6 +53,12 @@ export default function ProjectWorkspace() {
     },
   });
 
+  // Track terminal status changes (node glow and waiting queue)
+  useStatusNotification({ enabled: !!currentProject });
+
+  // Follow CPU and memory use of the project's terminals
+  useResourceMonitor(currentProject ? projectId : null);
+
   // Load project on mount
   useEffect(() => {
     if (projectId) {
@@ -118,6 +131,9 @@ export default function ProjectWorkspace() {
         <div className="flex-1 min-w-0">
           <Canvas />
         </div>
+
+        {/* Terminals waiting for input */}
+        <WaitingQueue projectId={currentProject.id} />
       </div>
 
       {/* Footer Status */}
@@ -9,6 +9,7 @@
 import { type ReactNode } from 'react';
 import { ReactFlowProvider } from '@xyflow/react';
 import { ThemeProvider } from '@/providers/ThemeProvider';
+import { AuthGate } from '@/components/auth';
 
 interface ProvidersProps {
   children: ReactNode;
@@ -17,7 +18,9 @@ interface ProvidersProps {
 export function Providers({ children }: ProvidersProps) {
   return (
     <ThemeProvider>
-      <ReactFlowProvider>{children}</ReactFlowProvider>
+      <AuthGate>
+        <ReactFlowProvider>{children}</ReactFlowProvider>
+      </AuthGate>
     </ThemeProvider>
   );
 }
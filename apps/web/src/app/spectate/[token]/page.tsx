@@ -0,0 +1,17 @@
+/**
+ * Spectator Page
+ *
+ * Public, read-only view of a terminal session shared through a link.
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { SpectatorView } from '@/components/spectator';
+
+export default function SpectatePage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  return <SpectatorView token={token} />;
+}
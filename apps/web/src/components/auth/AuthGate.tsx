@@ -0,0 +1,44 @@
+/**
+ * Auth Gate
+ *
+ * Checks the server session on load and renders the login screen instead
+ * of the app when authentication is required and no valid token is held.
+ * Spectator pages are let through: their share token is the credential.
+ */
+
+'use client';
+
+import { useEffect, type ReactNode } from 'react';
+import { usePathname } from 'next/navigation';
+import { useAuthStore, useAuthStatus } from '@/stores/auth-store';
+import { LoginScreen } from './LoginScreen';
+
+interface AuthGateProps {
+  children: ReactNode;
+}
+
+export function AuthGate({ children }: AuthGateProps) {
+  const checkSession = useAuthStore((state) => state.checkSession);
+  const status = useAuthStatus();
+  const isSpectatorPage = usePathname()?.startsWith('/spectate/') ?? false;
+
+  useEffect(() => {
+    if (!isSpectatorPage) {
+      checkSession();
+    }
+  }, [checkSession, isSpectatorPage]);
+
+  if (isSpectatorPage) {
+    return <>{children}</>;
+  }
+
+  if (status === 'unknown') {
+    return <div className="min-h-screen bg-slate-950" />;
+  }
+
+  if (status === 'unauthenticated') {
+    return <LoginScreen />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,98 @@
+/**
+ * Login Screen
+ *
+ * Full-page password prompt shown when the server requires authentication.
+ * Asks for a username too once user accounts exist; leaving it empty falls
+ * back to the shared dashboard password.
+ */
+
+'use client';
+
+import { useState, useCallback, type FormEvent } from 'react';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { useAuthStore } from '@/stores/auth-store';
+
+export function LoginScreen() {
+  const login = useAuthStore((state) => state.login);
+  const isLoading = useAuthStore((state) => state.isLoading);
+  const error = useAuthStore((state) => state.error);
+  const userAccounts = useAuthStore((state) => state.userAccounts);
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      if (!password) return;
+
+      const ok = await login(password, username.trim() || undefined);
+      if (ok) {
+        setPassword('');
+      }
+    },
+    [username, password, login]
+  );
+
+  return (
+    <main className="min-h-screen bg-slate-950 flex items-center justify-center px-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm p-6 bg-slate-900 border border-slate-800 rounded-lg shadow-xl"
+      >
+        <div className="flex items-center gap-2 mb-6">
+          <svg
+            className="w-6 h-6 text-blue-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+            />
+          </svg>
+          <h1 className="text-lg font-semibold text-slate-100">
+            Master Dashboard
+          </h1>
+        </div>
+
+        {userAccounts && (
+          <div className="mb-3">
+            <Input
+              label="Username"
+              name="username"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+        )}
+
+        <Input
+          label="Password"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          autoFocus={!userAccounts}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          error={error ?? undefined}
+        />
+
+        <Button
+          type="submit"
+          className="w-full mt-4"
+          loading={isLoading}
+          disabled={!password}
+        >
+          Sign in
+        </Button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Auth Components Exports
+ */
+
+export { AuthGate } from './AuthGate';
+export { LoginScreen } from './LoginScreen';
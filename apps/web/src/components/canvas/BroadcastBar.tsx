@@ -0,0 +1,102 @@
+/**
+ * Broadcast Bar Component
+ *
+ * Shown while broadcast input is on. Keys typed here go to every terminal
+ * and SSH node of the group, as does typing in any member node.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useBroadcast } from '@/hooks/useBroadcast';
+import { useNodes, useProjectId } from '@/stores/canvas-store';
+import { keyToTerminalInput } from '@/utils/broadcast';
+
+export function BroadcastBar() {
+  const { nodeIds, stop, send } = useBroadcast();
+  const nodes = useNodes();
+  const projectId = useProjectId();
+  // Local echo of the line being typed; the terminals show the real result
+  const [line, setLine] = useState('');
+
+  const members = useMemo(
+    () => nodes.filter((node) => nodeIds.includes(node.id)),
+    [nodes, nodeIds]
+  );
+
+  // The group belongs to the canvas it was started on
+  useEffect(() => {
+    stop();
+  }, [projectId, stop]);
+
+  useEffect(() => {
+    if (nodeIds.length === 0) {
+      setLine('');
+    }
+  }, [nodeIds.length]);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>) => {
+      const input = keyToTerminalInput(event);
+      if (input === null) return;
+
+      event.preventDefault();
+      send(input);
+
+      if (event.key === 'Enter' || (event.ctrlKey && event.key.toLowerCase() === 'c')) {
+        setLine('');
+      } else if (event.key === 'Backspace') {
+        setLine((value) => value.slice(0, -1));
+      } else if (event.key.length === 1 && !event.ctrlKey && !event.altKey) {
+        setLine((value) => value + event.key);
+      }
+    },
+    [send]
+  );
+
+  const handlePaste = useCallback(
+    (event: React.ClipboardEvent<HTMLInputElement>) => {
+      event.preventDefault();
+      const text = event.clipboardData.getData('text');
+      if (text) {
+        send(text);
+        setLine((value) => value + text);
+      }
+    },
+    [send]
+  );
+
+  if (members.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-3 w-[560px] max-w-[80vw] px-3 py-2 rounded-lg bg-slate-900/95 border border-amber-500 shadow-2xl">
+      <span
+        className="flex items-center gap-1.5 text-xs font-medium text-amber-400 shrink-0"
+        title={members.map((node) => node.data.label).join('\n')}
+      >
+        <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+        Broadcasting to {members.length}
+      </span>
+      <input
+        value={line}
+        onChange={() => undefined}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        placeholder="Type here or in any highlighted terminal"
+        className="flex-1 min-w-0 px-2 py-1 text-xs font-mono bg-slate-950 border border-slate-700 rounded
+          text-slate-200 placeholder-slate-500 focus:outline-none focus:border-amber-500"
+        spellCheck={false}
+        autoFocus
+      />
+      <button
+        onClick={stop}
+        className="px-2 py-1 text-xs rounded bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 transition-colors shrink-0"
+        title="Stop broadcasting (Ctrl+Shift+B)"
+      >
+        Stop
+      </button>
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ import { useCanvasStore } from '@/stores/canvas-store';
 import { nodeTypes } from '@/components/nodes';
 import { NodePalette } from '@/components/palette/NodePalette';
 import { CanvasControls } from './CanvasControls';
+import { BroadcastBar } from './BroadcastBar';
+import { useFocusTerminal } from '@/hooks/useStatusNotification';
 import { NodeType } from '@masterdashboard/shared';
 
 export function Canvas() {
@@ -41,6 +43,7 @@ export function Canvas() {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   // Store screen-to-flow function separately to avoid generic type issues
   const screenToFlowRef = useRef<((position: { x: number; y: number }) => { x: number; y: number }) | null>(null);
+  const setCenterRef = useRef<((x: number, y: number, options?: { zoom?: number; duration?: number }) => void) | null>(null);
 
   // Handle new connections between nodes
   const onConnect: OnConnect = useCallback(
@@ -79,8 +82,10 @@ export function Canvas() {
   );
 
   // Handle node selection
+  // Modifier clicks add to the selection (e.g. for broadcast input), so keep it
   const onNodeClick = useCallback(
-    (_event: React.MouseEvent, node: Node) => {
+    (event: React.MouseEvent, node: Node) => {
+      if (event.metaKey || event.ctrlKey || event.shiftKey) return;
       setSelectedNode(node.id);
     },
     [setSelectedNode]
@@ -92,10 +97,34 @@ export function Canvas() {
   }, [setSelectedNode]);
 
   // Handle React Flow initialization
-  const onInit = useCallback((instance: { screenToFlowPosition: (position: { x: number; y: number }) => { x: number; y: number } }) => {
+  const onInit = useCallback((instance: {
+    screenToFlowPosition: (position: { x: number; y: number }) => { x: number; y: number };
+    setCenter: (x: number, y: number, options?: { zoom?: number; duration?: number }) => void;
+  }) => {
     screenToFlowRef.current = instance.screenToFlowPosition;
+    setCenterRef.current = instance.setCenter;
   }, []);
 
+  // Select and centre the node showing a session (e.g. from output search)
+  const handleFocusTerminal = useCallback(
+    (sessionId: string) => {
+      const node = nodes.find(
+        (n) => (n.data as { sessionId?: string }).sessionId === sessionId
+      );
+      if (!node) return;
+
+      setSelectedNode(node.id);
+      setCenterRef.current?.(
+        node.position.x + (node.width ?? 300) / 2,
+        node.position.y + (node.height ?? 200) / 2,
+        { duration: 300, zoom: 1 }
+      );
+    },
+    [nodes, setSelectedNode]
+  );
+
+  useFocusTerminal(handleFocusTerminal);
+
   // Handle viewport change
   const onMoveEnd = useCallback(
     (_event: unknown, viewport: { x: number; y: number; zoom: number }) => {
@@ -169,6 +198,9 @@ export function Canvas() {
         <Panel position="top-right" className="m-4">
           <CanvasControls />
         </Panel>
+        <Panel position="bottom-center" className="mb-4">
+          <BroadcastBar />
+        </Panel>
       </ReactFlow>
     </div>
   );
@@ -1,22 +1,28 @@
 /**
  * Canvas Controls Component
  *
- * Control panel for canvas operations like fit view, arrange, and clear.
+ * Control panel for canvas operations like fit view, arrange, broadcast
+ * input, and clear.
  */
 
 'use client';
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useReactFlow, useViewport } from '@xyflow/react';
 import { useCanvasStore, useConnectionStatus } from '@/stores/canvas-store';
 import { Button } from '@/components/ui/Button';
 import { Panel } from '@/components/ui/Panel';
+import { useBroadcast } from '@/hooks/useBroadcast';
+import { getBroadcastGroup } from '@/utils/broadcast';
 
 export function CanvasControls() {
   const { fitView, zoomTo } = useReactFlow();
   const viewport = useViewport();
   const { clearCanvas, saveLayout, nodes, edges } = useCanvasStore();
   const connectionStatus = useConnectionStatus();
+  const { nodeIds: broadcastNodeIds, start: startBroadcast, stop: stopBroadcast } = useBroadcast();
+  const broadcastGroupSize = useMemo(() => getBroadcastGroup(nodes, edges).length, [nodes, edges]);
+  const broadcasting = broadcastNodeIds.length > 0;
 
   // Fit view to all nodes
   const handleFitView = useCallback(() => {
@@ -231,6 +237,33 @@ export function CanvasControls() {
           Arrange
         </Button>
 
+        <Button
+          variant={broadcasting ? 'primary' : 'secondary'}
+          size="sm"
+          onClick={broadcasting ? stopBroadcast : startBroadcast}
+          disabled={!broadcasting && broadcastGroupSize < 2}
+          title={
+            broadcasting
+              ? 'Stop broadcasting (Ctrl+Shift+B)'
+              : 'Type into the selected terminals at once (Ctrl+Shift+B). Select several, or one linked to others.'
+          }
+        >
+          <svg
+            className="w-4 h-4 mr-1.5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.857 15.355-5.857 21.213 0"
+            />
+          </svg>
+          {broadcasting ? 'Stop Broadcast' : 'Broadcast'}
+        </Button>
+
         <Button
           variant="secondary"
           size="sm"
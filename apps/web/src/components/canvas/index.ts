@@ -4,3 +4,4 @@
 
 export { Canvas } from './Canvas';
 export { CanvasControls } from './CanvasControls';
+export { BroadcastBar } from './BroadcastBar';
@@ -69,6 +69,36 @@ vi.mock('@/hooks/useQuickOpen', () => ({
   }),
 }));
 
+const mockSearchOutput = vi.fn();
+
+vi.mock('@/hooks/useOutputSearch', () => ({
+  useOutputSearch: () => ({
+    sessions: [
+      {
+        sessionId: 'term_build',
+        sessionType: 'terminal',
+        title: 'build',
+        totalLines: 120,
+        truncated: false,
+        results: [
+          {
+            lineNumber: 41,
+            lineContent: 'error TS2304: Cannot find name',
+            matchStart: 0,
+            matchEnd: 5,
+            before: ['compiling...'],
+            after: [],
+          },
+        ],
+      },
+    ],
+    loading: false,
+    error: null,
+    search: mockSearchOutput,
+    clearResults: vi.fn(),
+  }),
+}));
+
 describe('CommandPalette', () => {
   const mockSetQuery = vi.fn();
   const mockSetSelectedIndex = vi.fn();
@@ -241,6 +271,60 @@ describe('CommandPalette', () => {
     });
   });
 
+  describe('output mode', () => {
+    beforeEach(() => {
+      vi.mocked(useCommandStore).mockReturnValue({
+        ...defaultCommandStoreState,
+        mode: 'output',
+        query: 'error',
+      });
+    });
+
+    it('should search output when the query changes', () => {
+      render(<CommandPalette />);
+      expect(mockSearchOutput).toHaveBeenCalledWith('error');
+    });
+
+    it('should group matches by session', () => {
+      render(<CommandPalette />);
+
+      expect(screen.getAllByTestId('output-session-group')).toHaveLength(1);
+      expect(screen.getByText('build')).toBeInTheDocument();
+      expect(screen.getByText('compiling...')).toBeInTheDocument();
+      expect(screen.getByText('42')).toBeInTheDocument();
+    });
+
+    it('should focus the session and reveal the match on Enter', () => {
+      vi.useFakeTimers();
+      const focusListener = vi.fn();
+      const revealListener = vi.fn();
+      window.addEventListener('focusTerminal', focusListener);
+      window.addEventListener('terminal:reveal-match', revealListener);
+
+      render(<CommandPalette />);
+      fireEvent.keyDown(window, { key: 'Enter' });
+      vi.advanceTimersByTime(50);
+
+      expect(mockClose).toHaveBeenCalled();
+      expect((focusListener.mock.calls[0]![0] as CustomEvent).detail).toBe('term_build');
+      expect((revealListener.mock.calls[0]![0] as CustomEvent).detail).toMatchObject({
+        sessionId: 'term_build',
+        totalLines: 120,
+        result: { lineNumber: 41 },
+      });
+
+      window.removeEventListener('focusTerminal', focusListener);
+      window.removeEventListener('terminal:reveal-match', revealListener);
+      vi.useRealTimers();
+    });
+
+    it('should cycle back to commands mode with Tab', () => {
+      render(<CommandPalette />);
+      fireEvent.keyDown(window, { key: 'Tab' });
+      expect(mockSetMode).toHaveBeenCalledWith('commands');
+    });
+  });
+
   describe('backdrop', () => {
     it('should close on backdrop click', async () => {
       const user = userEvent.setup();
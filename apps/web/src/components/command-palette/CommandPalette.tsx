@@ -1,8 +1,8 @@
 /**
  * CommandPalette Component
  *
- * VS Code-style command palette with quick open (Ctrl+P) and
- * command execution (Ctrl+K) modes.
+ * VS Code-style command palette with quick open (Ctrl+P), command
+ * execution (Ctrl+K) and project-wide output search (Ctrl+Shift+F) modes.
  */
 
 'use client';
@@ -13,10 +13,28 @@ import { useProjectStore } from '@/stores/project-store';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useCommands, type Command } from '@/hooks/useCommands';
 import { useQuickOpen, type FileResult } from '@/hooks/useQuickOpen';
+import { useOutputSearch } from '@/hooks/useOutputSearch';
+import { requestRevealMatch } from '@/components/nodes/TerminalNode/hooks/useRevealMatch';
 import { sortByScore } from '@/utils/fuzzy-search';
 import { CommandItem } from './CommandItem';
 import { FileItem } from './FileItem';
-import { NodeType, type ViewerNodeData, type ViewerContentType } from '@masterdashboard/shared';
+import { OutputMatchItem } from './OutputMatchItem';
+import {
+  NodeType,
+  SessionType,
+  type BufferSearchResult,
+  type ViewerNodeData,
+  type ViewerContentType,
+} from '@masterdashboard/shared';
+
+/** A single output search hit, flattened for keyboard navigation */
+interface OutputHit {
+  sessionId: string;
+  result: BufferSearchResult;
+  totalLines: number;
+}
+
+const MODE_ORDER = ['commands', 'files', 'output'] as const;
 
 const SearchIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -62,6 +80,17 @@ const CommandIcon = () => (
   </svg>
 );
 
+const OutputIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+    />
+  </svg>
+);
+
 // Content type detection for viewer
 const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown', '.mdx']);
 const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.ico', '.bmp']);
@@ -122,6 +151,27 @@ export function CommandPalette() {
     debounceMs: 150,
   });
 
+  // Get output search results across all sessions in the project
+  const {
+    sessions: outputSessions,
+    loading: outputLoading,
+    error: outputError,
+    search: searchOutput,
+  } = useOutputSearch({ projectId: currentProject?.id });
+
+  // Output hits in display order, for keyboard navigation
+  const outputHits = useMemo<OutputHit[]>(
+    () =>
+      outputSessions.flatMap((session) =>
+        session.results.map((result) => ({
+          sessionId: session.sessionId,
+          result,
+          totalLines: session.totalLines,
+        }))
+      ),
+    [outputSessions]
+  );
+
   // Filter and sort commands based on query
   const filteredCommands = useMemo(() => {
     if (!query) {
@@ -153,7 +203,8 @@ export function CommandPalette() {
   }, [fileResults, query, mode, recentFiles]);
 
   // Items to display based on mode
-  const items = mode === 'files' ? displayedFiles : filteredCommands;
+  const items =
+    mode === 'files' ? displayedFiles : mode === 'output' ? outputHits : filteredCommands;
   const maxIndex = Math.max(0, items.length - 1);
 
   // Trigger file search when query changes in files mode
@@ -163,6 +214,13 @@ export function CommandPalette() {
     }
   }, [mode, query, searchFiles]);
 
+  // Trigger output search when query changes in output mode
+  useEffect(() => {
+    if (mode === 'output') {
+      searchOutput(query);
+    }
+  }, [mode, query, searchOutput]);
+
   // Focus input when opening
   useEffect(() => {
     if (isOpen) {
@@ -225,6 +283,18 @@ export function CommandPalette() {
     [addRecentFile, close, addNode, updateNodeData]
   );
 
+  // Focus the session's node and scroll to the matching line
+  const openOutputHit = useCallback(
+    (hit: OutputHit) => {
+      close();
+      setTimeout(() => {
+        window.dispatchEvent(new CustomEvent('focusTerminal', { detail: hit.sessionId }));
+        requestRevealMatch(hit);
+      }, 50);
+    },
+    [close]
+  );
+
   // Execute selected item
   const executeSelected = useCallback(() => {
     if (mode === 'files') {
@@ -232,6 +302,11 @@ export function CommandPalette() {
       if (file) {
         openFile(file);
       }
+    } else if (mode === 'output') {
+      const hit = outputHits[selectedIndex];
+      if (hit) {
+        openOutputHit(hit);
+      }
     } else {
       const command = filteredCommands[selectedIndex];
       if (command) {
@@ -242,8 +317,10 @@ export function CommandPalette() {
     mode,
     displayedFiles,
     filteredCommands,
+    outputHits,
     selectedIndex,
     openFile,
+    openOutputHit,
     executeCommand,
   ]);
 
@@ -274,9 +351,9 @@ export function CommandPalette() {
           break;
 
         case 'Tab':
-          // Tab switches between modes
+          // Tab cycles through the modes
           e.preventDefault();
-          setMode(mode === 'files' ? 'commands' : 'files');
+          setMode(MODE_ORDER[(MODE_ORDER.indexOf(mode) + 1) % MODE_ORDER.length]!);
           break;
       }
     };
@@ -353,6 +430,22 @@ export function CommandPalette() {
             Files
             <kbd className="px-1 py-0.5 text-[10px] bg-slate-800 rounded">⌘P</kbd>
           </button>
+          <button
+            onClick={() => setMode('output')}
+            className={`
+              flex items-center gap-2 px-4 py-2 text-xs font-medium
+              transition-colors
+              ${
+                mode === 'output'
+                  ? 'text-blue-400 border-b-2 border-blue-400 -mb-px bg-blue-500/5'
+                  : 'text-slate-400 hover:text-slate-300'
+              }
+            `}
+          >
+            <OutputIcon />
+            Output
+            <kbd className="px-1 py-0.5 text-[10px] bg-slate-800 rounded">⌘⇧F</kbd>
+          </button>
           <div className="flex-1" />
           <button
             onClick={close}
@@ -377,7 +470,9 @@ export function CommandPalette() {
             placeholder={
               mode === 'files'
                 ? 'Search files by name...'
-                : 'Type a command or search...'
+                : mode === 'output'
+                  ? 'Search output in all sessions...'
+                  : 'Type a command or search...'
             }
             className="
               flex-1 bg-transparent text-slate-100
@@ -434,6 +529,56 @@ export function CommandPalette() {
                 />
               ))}
             </>
+          ) : mode === 'output' ? (
+            // Output results, grouped by session
+            <>
+              {outputLoading && (
+                <div className="p-4 text-center text-slate-500 text-sm">
+                  <div className="w-5 h-5 border-2 border-slate-600 border-t-slate-400 rounded-full animate-spin mx-auto mb-2" />
+                  Searching...
+                </div>
+              )}
+              {!outputLoading && outputError && (
+                <div className="p-4 text-center text-red-400 text-sm">{outputError}</div>
+              )}
+              {!outputLoading && !outputError && outputSessions.length === 0 && query && (
+                <div className="p-4 text-center text-slate-500 text-sm">
+                  No output found matching &ldquo;{query}&rdquo;
+                </div>
+              )}
+              {!outputLoading && outputSessions.length === 0 && !query && (
+                <div className="p-4 text-center text-slate-500 text-sm">
+                  Start typing to search terminal output...
+                </div>
+              )}
+              {!outputLoading &&
+                outputSessions.map((session) => (
+                  <div key={session.sessionId} data-testid="output-session-group">
+                    <div className="flex items-center gap-2 px-4 pt-2 pb-1 text-xs text-slate-400">
+                      <span className="font-medium text-slate-300 truncate">{session.title}</span>
+                      <span className="text-[10px] uppercase text-slate-500">
+                        {session.sessionType === SessionType.SSH ? 'SSH' : 'Terminal'}
+                      </span>
+                      <span className="ml-auto text-slate-500">
+                        {session.results.length}
+                        {session.truncated ? '+' : ''}{' '}
+                        {session.results.length === 1 ? 'match' : 'matches'}
+                      </span>
+                    </div>
+                    {session.results.map((result) => {
+                      const index = outputHits.findIndex((hit) => hit.result === result);
+                      return (
+                        <OutputMatchItem
+                          key={`${result.lineNumber}:${result.matchStart}`}
+                          result={result}
+                          isSelected={index === selectedIndex}
+                          onClick={() => openOutputHit(outputHits[index]!)}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
+            </>
           ) : (
             // Command results
             <>
@@ -0,0 +1,59 @@
+/**
+ * OutputMatchItem Component
+ *
+ * Renders a single matching output line, with its surrounding context, in
+ * the command palette output search mode.
+ */
+
+'use client';
+
+import type { BufferSearchResult } from '@masterdashboard/shared';
+
+interface OutputMatchItemProps {
+  result: BufferSearchResult;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+function ContextLine({ text }: { text: string }) {
+  return <div className="truncate text-slate-600">{text || ' '}</div>;
+}
+
+export function OutputMatchItem({ result, isSelected, onClick }: OutputMatchItemProps) {
+  const { lineContent, matchStart, matchEnd } = result;
+
+  return (
+    <button
+      data-testid="output-match-item"
+      data-selected={isSelected}
+      onClick={onClick}
+      className={`
+        w-full flex items-start gap-3 pl-8 pr-4 py-1.5 text-left
+        transition-colors duration-75
+        ${
+          isSelected
+            ? 'bg-blue-500/20 text-slate-100'
+            : 'text-slate-300 hover:bg-slate-700/50'
+        }
+      `}
+    >
+      {/* Line number */}
+      <span className="flex-shrink-0 w-12 text-right text-[10px] font-mono text-slate-500 pt-0.5">
+        {result.lineNumber + 1}
+      </span>
+
+      {/* Match with context */}
+      <div className="flex-1 min-w-0 text-xs font-mono">
+        {result.before?.map((line, i) => <ContextLine key={`b${i}`} text={line} />)}
+        <div className="truncate">
+          {lineContent.slice(0, matchStart)}
+          <span className="text-blue-400 font-semibold">
+            {lineContent.slice(matchStart, matchEnd)}
+          </span>
+          {lineContent.slice(matchEnd)}
+        </div>
+        {result.after?.map((line, i) => <ContextLine key={`a${i}`} text={line} />)}
+      </div>
+    </button>
+  );
+}
@@ -7,3 +7,4 @@
 export { CommandPalette } from './CommandPalette';
 export { CommandItem } from './CommandItem';
 export { FileItem } from './FileItem';
+export { OutputMatchItem } from './OutputMatchItem';
@@ -10,6 +10,7 @@
 import { memo, type ReactNode } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { useIsBroadcasting } from '@/stores/broadcast-store';
 
 interface BaseNodeProps {
   /** Node ID */
@@ -53,6 +54,7 @@ export const BaseNode = memo(function BaseNode({
   statusIndicator,
 }: BaseNodeProps) {
   const { removeNode } = useCanvasStore();
+  const broadcasting = useIsBroadcasting(id);
 
   // Default status indicator color (used if no custom statusIndicator provided)
   const statusColor = connected ? 'bg-green-500' : 'bg-slate-500';
@@ -61,9 +63,12 @@ export const BaseNode = memo(function BaseNode({
     <div
       className="h-full flex flex-col rounded-lg overflow-hidden shadow-2xl bg-slate-900"
       style={{
-        boxShadow: selected
-          ? `0 0 0 2px ${borderColor}`
-          : `0 0 0 1px ${borderColor}`,
+        // Broadcast members get an amber ring that wins over the selection ring
+        boxShadow: broadcasting
+          ? '0 0 0 3px #f59e0b'
+          : selected
+            ? `0 0 0 2px ${borderColor}`
+            : `0 0 0 1px ${borderColor}`,
       }}
     >
       {/* Header - Draggable area */}
@@ -88,6 +93,14 @@ export const BaseNode = memo(function BaseNode({
 
         {/* Right side: Actions */}
         <div className="flex items-center gap-1 flex-shrink-0">
+          {broadcasting && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-amber-500 text-[10px] font-semibold uppercase tracking-wide text-slate-950"
+              title="Input is sent to every broadcasting terminal (Ctrl+Shift+B to stop)"
+            >
+              Broadcast
+            </span>
+          )}
           {headerActions}
           <button
             className="p-1 hover:bg-black/20 rounded transition-colors"
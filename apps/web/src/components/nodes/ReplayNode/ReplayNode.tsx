@@ -0,0 +1,278 @@
+/**
+ * Replay Node Component
+ *
+ * Plays back a recorded terminal session on the canvas. Supports play/pause,
+ * scrubbing to any point, playback speed, and downloading the recording as
+ * an asciinema (.cast) file.
+ */
+
+'use client';
+
+import { memo, useRef, useState, useEffect, useCallback } from 'react';
+import { type NodeProps, NodeResizer } from '@xyflow/react';
+import type { RecordingEvent, ReplayNodeData, SessionRecording } from '@masterdashboard/shared';
+
+import { BaseNode } from '../BaseNode';
+import { Terminal, type TerminalHandle } from '../TerminalNode/Terminal';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { eventIndexAt, collectOutput, formatPlaybackTime } from '@/utils/playback';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+/** Playback clock resolution */
+const TICK_MS = 50;
+
+const SPEED_OPTIONS = [0.5, 1, 2, 4, 8];
+
+/**
+ * Replay icon component
+ */
+function ReplayIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Download icon component
+ */
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+      />
+    </svg>
+  );
+}
+
+interface ReplayNodeProps extends NodeProps {
+  data: ReplayNodeData;
+}
+
+export const ReplayNode = memo(function ReplayNode({ id, data, selected }: ReplayNodeProps) {
+  const terminalRef = useRef<TerminalHandle>(null);
+  const { updateNodeData } = useCanvasStore();
+
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [events, setEvents] = useState<RecordingEvent[]>([]);
+  const [terminalReady, setTerminalReady] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Index of the next event to write, kept in step with the terminal contents
+  const nextEventRef = useRef(0);
+  const positionRef = useRef(0);
+
+  const duration = recording?.duration ?? 0;
+  const speed = data.playbackSpeed || 1;
+
+  // Load the recording and its events
+  useEffect(() => {
+    if (!data.recordingId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const base = `${API_URL}/api/recordings/${data.recordingId}`;
+        const [infoResponse, eventsResponse] = await Promise.all([
+          fetch(base, { headers: getAuthHeaders() }),
+          fetch(`${base}/events`, { headers: getAuthHeaders() }),
+        ]);
+        const [info, eventData] = await Promise.all([infoResponse.json(), eventsResponse.json()]);
+        if (cancelled) return;
+
+        if (info.success && eventData.success) {
+          setRecording(info.data);
+          setEvents(eventData.data);
+          setError(null);
+        } else {
+          setError(info.error ?? eventData.error ?? 'Failed to load recording');
+        }
+      } catch {
+        if (!cancelled) setError('Failed to connect to server');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [data.recordingId]);
+
+  /**
+   * Redraw the terminal as it looked at a point in time
+   */
+  const seek = useCallback(
+    (time: number) => {
+      const index = eventIndexAt(events, time);
+      terminalRef.current?.reset();
+      terminalRef.current?.write(collectOutput(events, 0, index));
+      nextEventRef.current = index;
+      positionRef.current = time;
+      setPosition(time);
+    },
+    [events]
+  );
+
+  // Show the first frame once everything is loaded
+  useEffect(() => {
+    if (terminalReady && events.length > 0) {
+      seek(0);
+    }
+  }, [terminalReady, events, seek]);
+
+  // Advance the playhead while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      const time = Math.min(positionRef.current + (TICK_MS / 1000) * speed, duration);
+      const index = eventIndexAt(events, time);
+      if (index > nextEventRef.current) {
+        terminalRef.current?.write(collectOutput(events, nextEventRef.current, index));
+        nextEventRef.current = index;
+      }
+      positionRef.current = time;
+      setPosition(time);
+
+      if (time >= duration) {
+        setPlaying(false);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, speed, duration, events]);
+
+  const handleTogglePlay = useCallback(() => {
+    if (!playing && positionRef.current >= duration) {
+      seek(0);
+    }
+    setPlaying((value) => !value);
+  }, [playing, duration, seek]);
+
+  const handleSpeedChange = useCallback(
+    (value: number) => {
+      updateNodeData<ReplayNodeData>(id, { playbackSpeed: value });
+    },
+    [id, updateNodeData]
+  );
+
+  const handleDownload = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/recordings/${data.recordingId}/cast`, {
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) {
+        setError('Failed to download recording');
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${data.recordingId}.cast`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, [data.recordingId]);
+
+  const handleReady = useCallback(() => setTerminalReady(true), []);
+
+  return (
+    <>
+      <NodeResizer minWidth={400} minHeight={250} isVisible={selected} />
+
+      <BaseNode
+        id={id}
+        title={recording?.title ? `Replay: ${recording.title}` : data.label}
+        icon={<ReplayIcon className="w-4 h-4" />}
+        headerColor="#7a6a9b"
+        borderColor="#6b5c8a"
+        connected={!!recording}
+        selected={selected}
+      >
+        <div className="w-full h-full flex flex-col">
+          <div className="flex items-center gap-2 px-2 py-1 bg-slate-800 border-b border-slate-700 text-xs">
+            <button
+              onClick={handleTogglePlay}
+              disabled={events.length === 0}
+              className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={position}
+              onChange={(e) => seek(Number(e.target.value))}
+              disabled={events.length === 0}
+              className="flex-1 nodrag"
+              aria-label="Playback position"
+            />
+            <span className="font-mono text-slate-400 flex-shrink-0">
+              {formatPlaybackTime(position)} / {formatPlaybackTime(duration)}
+            </span>
+            <select
+              value={speed}
+              onChange={(e) => handleSpeedChange(Number(e.target.value))}
+              className="px-1 py-0.5 bg-slate-800 border border-slate-600 rounded text-slate-200 nodrag"
+              aria-label="Playback speed"
+            >
+              {SPEED_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}x
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleDownload}
+              disabled={!data.recordingId}
+              className="p-1.5 hover:bg-slate-700 rounded transition-colors"
+              title="Download .cast"
+            >
+              <DownloadIcon className="w-3.5 h-3.5 text-slate-400" />
+            </button>
+          </div>
+
+          {error && <div className="px-2 py-1 text-xs text-red-400 bg-slate-900">{error}</div>}
+          {!data.recordingId && (
+            <div className="px-2 py-1 text-xs text-slate-400 bg-slate-900">
+              No recording selected. Stop a terminal recording to open it here.
+            </div>
+          )}
+
+          <div className="flex-1 min-h-[200px] overflow-hidden nodrag nopan nowheel">
+            <Terminal ref={terminalRef} onReady={handleReady} cursorBlink={false} disabled />
+          </div>
+        </div>
+      </BaseNode>
+    </>
+  );
+});
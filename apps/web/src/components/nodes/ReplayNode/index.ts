@@ -0,0 +1 @@
+export { ReplayNode } from './ReplayNode';
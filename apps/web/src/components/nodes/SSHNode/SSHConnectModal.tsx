@@ -8,7 +8,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { SSHAuthMethod } from '@masterdashboard/shared';
+import { ShellType, SHELL_DISPLAY_NAMES, type SSHAuthMethod } from '@masterdashboard/shared';
 
 interface SSHConnectModalProps {
   onConnect: (config: {
@@ -19,11 +19,13 @@ interface SSHConnectModalProps {
     password?: string;
     privateKey?: string;
     passphrase?: string;
+    shell: ShellType;
   }) => void;
   onClose: () => void;
   isConnecting: boolean;
   initialHost?: string;
   initialUsername?: string;
+  initialShell?: ShellType;
 }
 
 function KeyIcon({ className }: { className?: string }) {
@@ -79,6 +81,7 @@ export function SSHConnectModal({
   isConnecting,
   initialHost = '',
   initialUsername = '',
+  initialShell = ShellType.BASH,
 }: SSHConnectModalProps) {
   const [host, setHost] = useState(initialHost);
   const [port, setPort] = useState('22');
@@ -87,6 +90,7 @@ export function SSHConnectModal({
   const [password, setPassword] = useState('');
   const [privateKey, setPrivateKey] = useState('');
   const [passphrase, setPassphrase] = useState('');
+  const [shell, setShell] = useState<ShellType>(initialShell);
 
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
@@ -100,11 +104,13 @@ export function SSHConnectModal({
         password?: string;
         privateKey?: string;
         passphrase?: string;
+        shell: ShellType;
       } = {
         host,
         port: parseInt(port, 10) || 22,
         username,
         authMethod,
+        shell,
       };
 
       if (authMethod === 'password' && password) {
@@ -119,7 +125,7 @@ export function SSHConnectModal({
 
       onConnect(config);
     },
-    [host, port, username, authMethod, password, privateKey, passphrase, onConnect]
+    [host, port, username, authMethod, password, privateKey, passphrase, shell, onConnect]
   );
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -208,6 +214,22 @@ export function SSHConnectModal({
             />
           </div>
 
+          {/* Remote shell, so the right status patterns apply */}
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Remote shell</label>
+            <select
+              value={shell}
+              onChange={(e) => setShell(e.target.value as ShellType)}
+              className="w-full bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 focus:border-amber-500 outline-none"
+            >
+              {Object.values(ShellType).map((type) => (
+                <option key={type} value={type}>
+                  {SHELL_DISPLAY_NAMES[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Auth Method */}
           <div>
             <label className="block text-sm text-gray-400 mb-2">Authentication</label>
@@ -13,6 +13,7 @@ import {
   type SSHNodeData,
   TerminalActivityStatus,
   type SSHAuthMethod,
+  type ShellType,
 } from '@masterdashboard/shared';
 
 import { BaseNode } from '../BaseNode';
@@ -21,7 +22,10 @@ import { StatusIndicator, StatusGlow } from '../TerminalNode/StatusIndicator';
 import { SSHConnectModal } from './SSHConnectModal';
 import { useSSHSocket } from './hooks/useSSHSocket';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { useIsBroadcasting } from '@/stores/broadcast-store';
+import { useBroadcast } from '@/hooks/useBroadcast';
 import { useTerminal } from '../TerminalNode/hooks/useTerminal';
+import { useRevealMatch } from '../TerminalNode/hooks/useRevealMatch';
 import { useNodeColors, useShowResizeHandles } from '@/stores/settings-store';
 
 /**
@@ -116,9 +120,16 @@ export const SSHNode = memo(function SSHNode({
 
   const { updateNodeData } = useCanvasStore();
   const { settings } = useTerminal();
+  const broadcasting = useIsBroadcasting(id);
+  const { send: broadcast } = useBroadcast();
   const nodeColors = useNodeColors();
   const showResizeHandles = useShowResizeHandles();
 
+  // Scroll to matches picked in the project-wide output search
+  useRevealMatch(data.sessionId, (result, totalLines) => {
+    terminalRef.current?.revealMatch(result, totalLines);
+  });
+
   // SSH socket management
   const {
     connected,
@@ -138,6 +149,7 @@ export const SSHNode = memo(function SSHNode({
         connected: true,
         host: info.host,
         username: info.username,
+        shell: info.shell,
         activityStatus: TerminalActivityStatus.IDLE,
       });
       setConnectionInfo(info);
@@ -176,18 +188,24 @@ export const SSHNode = memo(function SSHNode({
       password?: string;
       privateKey?: string;
       passphrase?: string;
+      shell: ShellType;
     }) => {
-      connect(config);
+      connect({ ...config, projectId: data.projectId });
     },
-    [connect]
+    [connect, data.projectId]
   );
 
   // Handle terminal input
   const handleData = useCallback(
     (inputData: string) => {
-      sendInput(inputData);
+      // Typing in a broadcast member goes to the whole group
+      if (broadcasting) {
+        broadcast(inputData);
+      } else {
+        sendInput(inputData);
+      }
     },
-    [sendInput]
+    [broadcasting, broadcast, sendInput]
   );
 
   // Handle terminal resize
@@ -359,6 +377,7 @@ export const SSHNode = memo(function SSHNode({
           isConnecting={connecting}
           initialHost={data.host}
           initialUsername={data.username}
+          initialShell={data.shell}
         />
       )}
     </>
@@ -10,6 +10,7 @@ import { useWebSocket } from '@/hooks/useWebSocket';
 import {
   WS_EVENTS,
   type SSHConfig,
+  type ShellType,
 } from '@masterdashboard/shared';
 
 interface SSHConnectedPayload {
@@ -17,6 +18,7 @@ interface SSHConnectedPayload {
   host: string;
   port: number;
   username: string;
+  shell: ShellType;
 }
 
 interface SSHOutputPayload {
@@ -43,7 +45,10 @@ interface UseSSHSocketOptions {
   /** Callback for SSH output data */
   onOutput: (data: string) => void;
   /** Callback when SSH session is connected */
-  onConnected: (sessionId: string, info: { host: string; username: string }) => void;
+  onConnected: (
+    sessionId: string,
+    info: { host: string; username: string; shell: ShellType }
+  ) => void;
   /** Callback when SSH session is disconnected */
   onDisconnected: () => void;
   /** Callback for keyboard-interactive auth prompts */
@@ -58,7 +63,7 @@ interface UseSSHSocketReturn {
   /** Whether currently connecting */
   connecting: boolean;
   /** Connect to an SSH server */
-  connect: (config: Omit<SSHConfig, 'projectId'>) => void;
+  connect: (config: SSHConfig) => void;
   /** Disconnect from the SSH session */
   disconnect: () => void;
   /** Send keyboard input to the SSH session */
@@ -102,6 +107,7 @@ export function useSSHSocket({
       onConnected(payload.sessionId, {
         host: payload.host,
         username: payload.username,
+        shell: payload.shell,
       });
     };
 
@@ -146,7 +152,7 @@ export function useSSHSocket({
 
   // Connect to SSH server
   const connect = useCallback(
-    (config: Omit<SSHConfig, 'projectId'>) => {
+    (config: SSHConfig) => {
       if (!socketConnected) {
         onError?.('WebSocket not connected');
         return;
@@ -0,0 +1,166 @@
+/**
+ * Command History Sidebar Component
+ *
+ * Commands run in a terminal, newest first, with exit code and run time.
+ * Clicking a command scrolls the terminal to its output; failed commands
+ * are highlighted.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { CommandHistoryEntry } from '@masterdashboard/shared';
+import { formatCommandDuration, isFailedCommand } from '@/utils/command-history';
+
+interface CommandHistorySidebarProps {
+  /** Commands, newest first */
+  commands: CommandHistoryEntry[];
+  loading: boolean;
+  error: string | null;
+  /** Scroll the terminal to a command's output */
+  onReveal: (entry: CommandHistoryEntry) => void;
+  /** Type the command into the terminal and run it */
+  onRerun?: (entry: CommandHistoryEntry) => void;
+  onClose: () => void;
+}
+
+/**
+ * Re-run icon component
+ */
+function RerunIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Copy icon component
+ */
+function CopyIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Exit code or running indicator
+ */
+function CommandResult({ entry }: { entry: CommandHistoryEntry }) {
+  if (!entry.finishedAt) {
+    return <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse shrink-0" />;
+  }
+  if (entry.exitCode === null) {
+    return null;
+  }
+  if (entry.exitCode === 0) {
+    return <span className="text-green-400 shrink-0">✓</span>;
+  }
+  return (
+    <span className="px-1 rounded bg-red-500/20 text-red-400 shrink-0">{entry.exitCode}</span>
+  );
+}
+
+export function CommandHistorySidebar({
+  commands,
+  loading,
+  error,
+  onReveal,
+  onRerun,
+  onClose,
+}: CommandHistorySidebarProps) {
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  const handleCopy = useCallback((entry: CommandHistoryEntry) => {
+    navigator.clipboard.writeText(entry.command);
+    setCopiedId(entry.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  }, []);
+
+  const buttonClass =
+    'p-0.5 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className="flex flex-col w-56 shrink-0 bg-slate-900 border-l border-slate-700 nodrag nowheel">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-slate-700">
+        <span className="text-xs font-medium text-slate-300">History</span>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-500 hover:text-slate-200"
+          title="Hide history"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && <div className="px-2 py-1 text-xs text-red-400">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto">
+        {commands.length === 0 ? (
+          <div className="px-2 py-3 text-xs text-slate-500">
+            {loading ? 'Loading...' : 'No commands yet. Commands appear for bash, zsh and fish.'}
+          </div>
+        ) : (
+          commands.map((entry) => (
+            <div
+              key={entry.id}
+              className={`group px-2 py-1 border-b border-slate-800 cursor-pointer ${
+                isFailedCommand(entry)
+                  ? 'bg-red-950/40 hover:bg-red-950/70'
+                  : 'hover:bg-slate-800'
+              }`}
+              onClick={() => onReveal(entry)}
+              title={`${entry.command}\n${entry.cwd}\n${new Date(entry.startedAt).toLocaleString()}`}
+            >
+              <div className="flex items-center gap-1.5 text-xs font-mono">
+                <span className="flex-1 min-w-0 truncate text-slate-200">{entry.command}</span>
+                <CommandResult entry={entry} />
+              </div>
+              <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                <span className="flex-1 min-w-0 truncate">{entry.cwd}</span>
+                {entry.durationMs !== null && <span>{formatCommandDuration(entry.durationMs)}</span>}
+                <span className="hidden group-hover:flex items-center gap-0.5">
+                  {onRerun && (
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        onRerun(entry);
+                      }}
+                      className={buttonClass}
+                      title="Run again"
+                    >
+                      <RerunIcon className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      handleCopy(entry);
+                    }}
+                    className={buttonClass}
+                    title={copiedId === entry.id ? 'Copied!' : 'Copy command'}
+                  >
+                    <CopyIcon className={`w-3 h-3 ${copiedId === entry.id ? 'text-green-400' : ''}`} />
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
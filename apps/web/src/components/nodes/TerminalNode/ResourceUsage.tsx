@@ -0,0 +1,56 @@
+/**
+ * Resource Usage Component
+ *
+ * Compact CPU sparkline and memory figure for a terminal's node header,
+ * with the busiest processes of its tree in the tooltip.
+ */
+
+'use client';
+
+import { memo, useMemo } from 'react';
+import { Sparkline } from '@/components/ui/Sparkline';
+import { useSessionResources, useSessionResourceHistory } from '@/stores/resource-store';
+import { formatBytes } from '@/utils/resources';
+
+interface ResourceUsageProps {
+  /** Terminal session ID */
+  sessionId?: string;
+}
+
+/** Processes listed in the tooltip */
+const TOOLTIP_PROCESSES = 5;
+
+export const ResourceUsage = memo(function ResourceUsage({ sessionId }: ResourceUsageProps) {
+  const sample = useSessionResources(sessionId);
+  const history = useSessionResourceHistory(sessionId);
+
+  const cpuValues = useMemo(() => (history ?? []).map((point) => point.cpuPercent), [history]);
+
+  const tooltip = useMemo(() => {
+    if (!sample) return '';
+    const busiest = [...sample.processes]
+      .sort((a, b) => b.cpuPercent - a.cpuPercent || b.rssBytes - a.rssBytes)
+      .slice(0, TOOLTIP_PROCESSES)
+      .map((p) => `${p.command} (${p.pid}): ${p.cpuPercent}% · ${formatBytes(p.rssBytes)}`);
+    return [
+      `CPU ${sample.cpuPercent}% · ${formatBytes(sample.rssBytes)} in ${sample.processes.length} processes`,
+      ...busiest,
+    ].join('\n');
+  }, [sample]);
+
+  if (!sample) {
+    return null;
+  }
+
+  return (
+    <span
+      className="flex items-center gap-1 px-1 text-[10px] font-mono text-white/70"
+      title={tooltip}
+      data-testid="terminal-resources"
+    >
+      <Sparkline values={cpuValues} max={100} label={`CPU ${sample.cpuPercent}%`} />
+      <span className="w-10 text-right">{Math.round(sample.cpuPercent)}%</span>
+      <span className="w-14 text-right">{formatBytes(sample.rssBytes)}</span>
+    </span>
+  );
+});
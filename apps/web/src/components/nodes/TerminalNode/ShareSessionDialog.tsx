@@ -0,0 +1,209 @@
+/**
+ * Share Session Dialog
+ *
+ * Creates time-limited, read-only spectator links for a terminal session and
+ * lists the links that are still active so they can be revoked.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CreatedSessionShare, SessionShare } from '@masterdashboard/shared';
+import { Dialog } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { getAuthHeaders } from '@/stores/auth-store';
+
+interface ShareSessionDialogProps {
+  /** Terminal session ID */
+  sessionId: string;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when dialog should close */
+  onClose: () => void;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+/** Link lifetimes offered, in minutes */
+const TTL_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 8 * 60, label: '8 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '7 days' },
+];
+
+const selectClassName =
+  'px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Build the spectator page URL for a share token
+ */
+function spectatorUrl(token: string): string {
+  return `${window.location.origin}/spectate/${token}`;
+}
+
+export function ShareSessionDialog({ sessionId, open, onClose }: ShareSessionDialogProps) {
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [ttlMinutes, setTtlMinutes] = useState(60);
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sharesUrl = `${API_URL}/api/sessions/${sessionId}/shares`;
+
+  const fetchShares = useCallback(async () => {
+    try {
+      const response = await fetch(sharesUrl, { headers: getAuthHeaders() });
+      const data = await response.json();
+
+      if (data.success) {
+        setShares(data.data);
+        setError(null);
+      } else {
+        setError(data.error ?? 'Failed to load share links');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, [sharesUrl]);
+
+  useEffect(() => {
+    if (open) {
+      setLink(null);
+      fetchShares();
+    }
+  }, [open, fetchShares]);
+
+  const handleCreate = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(sharesUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        body: JSON.stringify({ ttlMinutes }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const created = data.data as CreatedSessionShare;
+        setLink(spectatorUrl(created.token));
+        setCopied(false);
+        await fetchShares();
+      } else {
+        setError(data.error ?? 'Failed to create share link');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [sharesUrl, ttlMinutes, fetchShares]);
+
+  const handleCopy = useCallback(async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  }, [link]);
+
+  const handleRevoke = useCallback(
+    async (shareId: string) => {
+      setLoading(true);
+      try {
+        const response = await fetch(`${sharesUrl}/${shareId}`, {
+          method: 'DELETE',
+          headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+
+        if (!data.success) {
+          setError(data.error ?? 'Failed to revoke share link');
+        }
+        await fetchShares();
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [sharesUrl, fetchShares]
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="Share Terminal"
+      footer={
+        <Button variant="secondary" onClick={onClose}>
+          Close
+        </Button>
+      }
+    >
+      <p className="mb-3 text-sm text-slate-400">
+        Anyone with the link can watch this terminal live. They cannot type into it.
+      </p>
+
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={ttlMinutes}
+          onChange={(e) => setTtlMinutes(Number(e.target.value))}
+          className={selectClassName}
+          aria-label="Link lifetime"
+        >
+          {TTL_OPTIONS.map((option) => (
+            <option key={option.minutes} value={option.minutes}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button size="sm" onClick={handleCreate} loading={loading}>
+          Create link
+        </Button>
+      </div>
+
+      {link && (
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            readOnly
+            value={link}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-xs font-mono"
+            aria-label="Share link"
+          />
+          <Button variant="secondary" size="sm" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      )}
+
+      {shares.length > 0 && (
+        <>
+          <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Active links
+          </h3>
+          <ul className="divide-y divide-slate-800">
+            {shares.map((share) => (
+              <li key={share.id} className="flex items-center justify-between gap-3 py-2">
+                <span className="text-sm text-slate-300">
+                  Expires {new Date(share.expiresAt).toLocaleString()}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(share.id)}
+                  disabled={loading}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </Dialog>
+  );
+}
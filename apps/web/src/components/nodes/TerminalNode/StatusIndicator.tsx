@@ -54,6 +54,13 @@ const STATUS_COLORS: Record<TerminalActivityStatus, StatusConfig> = {
     label: 'Idle',
     textColor: 'text-gray-400',
   },
+  [TerminalActivityStatus.STALLED]: {
+    bg: 'bg-orange-500',
+    glow: 'shadow-orange-500/50',
+    ring: 'ring-orange-500/30',
+    label: 'Stalled (no output)',
+    textColor: 'text-orange-400',
+  },
 };
 
 const SIZE_CLASSES = {
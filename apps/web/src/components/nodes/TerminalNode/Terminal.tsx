@@ -20,7 +20,8 @@ import type { FitAddon as FitAddonType } from 'xterm-addon-fit';
 
 import { terminalThemes, type TerminalThemeName } from './utils/themes';
 import { useCanvasStore } from '@/stores/canvas-store';
-import { NodeType } from '@masterdashboard/shared';
+import { locateMatch } from '@/utils/scrollback-search';
+import { NodeType, type BufferSearchResult } from '@masterdashboard/shared';
 
 /**
  * Terminal handle for imperative methods
@@ -52,6 +53,11 @@ export interface TerminalHandle {
   scrollToBottom: () => void;
   /** Get current dimensions */
   getDimensions: () => { cols: number; rows: number } | undefined;
+  /**
+   * Scroll to and select a server scrollback match.
+   * Returns false if the match is older than the local scrollback.
+   */
+  revealMatch: (result: BufferSearchResult, totalLines: number) => boolean;
 }
 
 interface TerminalProps {
@@ -63,6 +69,8 @@ interface TerminalProps {
   onTitleChange?: (title: string) => void;
   /** Callback when selection changes */
   onSelectionChange?: (selection: string) => void;
+  /** Callback once xterm has loaded and accepts writes */
+  onReady?: () => void;
   /** Terminal color theme */
   theme?: TerminalThemeName;
   /** Font size in pixels */
@@ -86,6 +94,7 @@ export const Terminal = forwardRef<TerminalHandle, TerminalProps>(
       onResize,
       onTitleChange,
       onSelectionChange,
+      onReady,
       theme = 'dracula',
       fontSize = 14,
       fontFamily = 'JetBrains Mono, Menlo, Monaco, Consolas, monospace',
@@ -269,6 +278,7 @@ export const Terminal = forwardRef<TerminalHandle, TerminalProps>(
           resizeObserverRef.current = resizeObserver;
 
           setIsLoading(false);
+          onReady?.();
         } catch (error) {
           console.error('Failed to initialize terminal:', error);
         }
@@ -413,6 +423,29 @@ export const Terminal = forwardRef<TerminalHandle, TerminalProps>(
           }
           return undefined;
         },
+        revealMatch: (result: BufferSearchResult, totalLines: number) => {
+          const terminal = terminalRef.current;
+          if (!terminal) return false;
+
+          const buffer = terminal.buffer.active;
+          const location = locateMatch(
+            buffer,
+            buffer.baseY + buffer.cursorY,
+            terminal.cols,
+            result,
+            totalLines
+          );
+          if (!location) return false;
+
+          // Centre the match in the viewport
+          terminal.scrollToLine(Math.max(0, location.row - Math.floor(terminal.rows / 2)));
+          if (location.length > 0) {
+            terminal.select(location.col, location.row, location.length);
+          } else {
+            terminal.clearSelection();
+          }
+          return true;
+        },
       }),
       [fit]
     );
@@ -2,13 +2,15 @@
  * Terminal Configuration Modal
  *
  * Modal for configuring terminal settings including shell selection,
- * theme, font size, and other preferences.
+ * theme, font size, and other preferences, plus the environment, startup
+ * command and hooks that new sessions are created with.
  */
 
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { ShellType, type TerminalNodeData } from '@masterdashboard/shared';
+import { ShellType, type TerminalHooks, type TerminalNodeData } from '@masterdashboard/shared';
+import { parseEnvLines, formatEnvLines } from '@/utils/env-vars';
 import {
   terminalThemes,
   themeNames,
@@ -41,8 +43,14 @@ export interface TerminalConfigData {
   cursorBlink: boolean;
   cursorStyle: 'block' | 'underline' | 'bar';
   scrollback: number;
+  env: Record<string, string>;
+  initialCommand: string;
+  hooks: TerminalHooks;
 }
 
+const INPUT_CLASS =
+  'w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
 /**
  * Close icon component
  */
@@ -80,6 +88,12 @@ export function TerminalConfig({
     'block'
   );
   const [scrollback, setScrollback] = useState(10000);
+  const [envText, setEnvText] = useState(() => formatEnvLines(data.env));
+  const [initialCommand, setInitialCommand] = useState(data.initialCommand ?? '');
+  const [preStart, setPreStart] = useState(data.hooks?.preStart ?? '');
+  const [postExit, setPostExit] = useState(data.hooks?.postExit ?? '');
+
+  const { env, invalidLines } = parseEnvLines(envText);
 
   // Handle escape key to close modal
   useEffect(() => {
@@ -94,6 +108,7 @@ export function TerminalConfig({
   }, [onClose]);
 
   const handleSave = useCallback(() => {
+    if (invalidLines.length > 0) return;
     onSave({
       shell,
       theme,
@@ -101,9 +116,29 @@ export function TerminalConfig({
       cursorBlink,
       cursorStyle,
       scrollback,
+      env,
+      initialCommand: initialCommand.trim(),
+      hooks: {
+        preStart: preStart.trim() || undefined,
+        postExit: postExit.trim() || undefined,
+      },
     });
     onClose();
-  }, [shell, theme, fontSize, cursorBlink, cursorStyle, scrollback, onSave, onClose]);
+  }, [
+    shell,
+    theme,
+    fontSize,
+    cursorBlink,
+    cursorStyle,
+    scrollback,
+    env,
+    invalidLines,
+    initialCommand,
+    preStart,
+    postExit,
+    onSave,
+    onClose,
+  ]);
 
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent) => {
@@ -271,6 +306,82 @@ export function TerminalConfig({
               <span>100,000</span>
             </div>
           </div>
+
+          {/* Session Startup */}
+          <div className="space-y-3 pt-4 border-t border-slate-700">
+            <div>
+              <h3 className="text-sm font-medium text-slate-300">Session Startup</h3>
+              <p className="text-xs text-slate-500 mt-1">
+                Applied when a new session starts and kept across server restarts.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Environment Variables
+              </label>
+              <textarea
+                value={envText}
+                onChange={(e) => setEnvText(e.target.value)}
+                placeholder={'NODE_ENV=development\nPORT=3000'}
+                rows={3}
+                spellCheck={false}
+                className={INPUT_CLASS}
+              />
+              {invalidLines.length > 0 && (
+                <p className="text-xs text-red-400 mt-1">
+                  Expected KEY=VALUE on line {invalidLines.join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Initial Command
+              </label>
+              <input
+                type="text"
+                value={initialCommand}
+                onChange={(e) => setInitialCommand(e.target.value)}
+                placeholder="npm run dev"
+                spellCheck={false}
+                className={INPUT_CLASS}
+              />
+              <p className="text-xs text-slate-500 mt-1">Typed into the shell once it starts.</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Pre-start Hook
+              </label>
+              <input
+                type="text"
+                value={preStart}
+                onChange={(e) => setPreStart(e.target.value)}
+                placeholder="docker compose up -d"
+                spellCheck={false}
+                className={INPUT_CLASS}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Runs on the server before the shell starts; the session is not created if it fails.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Post-exit Hook
+              </label>
+              <input
+                type="text"
+                value={postExit}
+                onChange={(e) => setPostExit(e.target.value)}
+                placeholder="docker compose down"
+                spellCheck={false}
+                className={INPUT_CLASS}
+              />
+              <p className="text-xs text-slate-500 mt-1">Runs on the server after the session ends.</p>
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
@@ -283,7 +394,8 @@ export function TerminalConfig({
           </button>
           <button
             onClick={handleSave}
-            className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-500 transition-colors"
+            disabled={invalidLines.length > 0}
+            className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Save Changes
           </button>
@@ -11,8 +11,17 @@
 import { memo, useRef, useCallback, useEffect, useState } from 'react';
 import { type NodeProps, NodeResizer } from '@xyflow/react';
 import {
+  NodeType,
   ShellType,
+  type BrowserNodeData,
+  type BufferSearchResult,
+  type CommandHistoryEntry,
+  type FolderViewerNodeData,
+  type GitNodeData,
+  type ReplayNodeData,
+  type SessionRecording,
   type TerminalNodeData,
+  type TerminalShellStatePayload,
   TerminalActivityStatus,
 } from '@masterdashboard/shared';
 
@@ -20,10 +29,22 @@ import { BaseNode } from '../BaseNode';
 import { Terminal, type TerminalHandle } from './Terminal';
 import { TerminalToolbar } from './TerminalToolbar';
 import { TerminalConfig, type TerminalConfigData } from './TerminalConfig';
+import { ShareSessionDialog } from './ShareSessionDialog';
+import { TerminalWindowTabs } from './TerminalWindowTabs';
+import { CommandHistorySidebar } from './CommandHistorySidebar';
 import { StatusIndicator, StatusGlow } from './StatusIndicator';
+import { ResourceUsage } from './ResourceUsage';
 import { useTerminalSocket } from './hooks/useTerminalSocket';
 import { useTerminal } from './hooks/useTerminal';
+import { useSessionRecording } from './hooks/useSessionRecording';
+import { useScrollbackSearch } from './hooks/useScrollbackSearch';
+import { useTerminalWindows } from './hooks/useTerminalWindows';
+import { useShellState } from './hooks/useShellState';
+import { useCommandHistory } from './hooks/useCommandHistory';
+import { useOpenBrowserTriggers } from './hooks/useOpenBrowserTriggers';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { useIsBroadcasting } from '@/stores/broadcast-store';
+import { useBroadcast } from '@/hooks/useBroadcast';
 import { useNodeColors, useShowResizeHandles } from '@/stores/settings-store';
 
 /**
@@ -58,13 +79,17 @@ export const TerminalNode = memo(function TerminalNode({
 }: TerminalNodeProps) {
   const terminalRef = useRef<TerminalHandle>(null);
   const [showConfig, setShowConfig] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [title, setTitle] = useState(data.label);
   const [cwd, setCwd] = useState(data.cwd ?? '~');
   // Flag to prevent auto-reconnect - user must manually click reconnect
   const manualReconnectRequired = useRef(false);
 
-  const { updateNodeData } = useCanvasStore();
+  const { updateNodeData, addNode, getNode } = useCanvasStore();
   const { settings, updateSettings } = useTerminal();
+  const broadcasting = useIsBroadcasting(id);
+  const { send: broadcast } = useBroadcast();
   const nodeColors = useNodeColors();
   const showResizeHandles = useShowResizeHandles();
 
@@ -175,9 +200,12 @@ export const TerminalNode = memo(function TerminalNode({
         shell: data.shell ?? ShellType.BASH,
         cwd: data.cwd,
         projectId: data.projectId,
+        env: data.env,
+        initialCommand: data.initialCommand,
+        hooks: data.hooks,
       });
     }
-  }, [data.sessionId, data.shell, data.cwd, data.projectId, connect, reconnect, connecting, socketReady]);
+  }, [data.sessionId, data.shell, data.cwd, data.projectId, data.env, data.initialCommand, data.hooks, connect, reconnect, connecting, socketReady]);
 
   // Sync terminal size with server when connection is established
   // This ensures the PTY size matches the actual rendered terminal
@@ -194,12 +222,142 @@ export const TerminalNode = memo(function TerminalNode({
     }
   }, [connected, sendResize]);
 
+  // Add a node to the right of this terminal
+  const addNodeBeside = useCallback(
+    (type: NodeType) => {
+      const node = getNode(id);
+      const width = Number(node?.style?.width ?? node?.width ?? 0);
+      return addNode(type, {
+        x: (node?.position.x ?? 100) + width + 40,
+        y: node?.position.y ?? 100,
+      });
+    },
+    [id, addNode, getNode]
+  );
+
+  // Open a finished recording in a replay node beside this terminal
+  const handleRecordingStopped = useCallback(
+    (recording: SessionRecording) => {
+      const replayId = addNodeBeside(NodeType.REPLAY);
+      updateNodeData<ReplayNodeData>(replayId, {
+        recordingId: recording.id,
+        label: `Replay: ${title}`,
+      });
+    },
+    [title, addNodeBeside, updateNodeData]
+  );
+
+  const { recording, toggleRecording } = useSessionRecording({
+    sessionId: data.sessionId,
+    connected,
+    onStopped: handleRecordingStopped,
+  });
+
+  const handleRevealMatch = useCallback(
+    (result: BufferSearchResult, totalLines: number) =>
+      terminalRef.current?.revealMatch(result, totalLines) ?? false,
+    []
+  );
+
+  const {
+    find: handleSearch,
+    clear: clearSearch,
+    status: searchStatus,
+    offscreenLine,
+  } = useScrollbackSearch({
+    sessionId: data.sessionId,
+    onReveal: handleRevealMatch,
+  });
+
+  // tmux windows and panes
+  const {
+    windows,
+    error: windowsError,
+    refresh: refreshWindows,
+    update: updateWindows,
+  } = useTerminalWindows({
+    sessionId: data.sessionId,
+    connected,
+  });
+
+  // Real cwd, title and last command from shell integration
+  const handleShellState = useCallback(
+    (state: TerminalShellStatePayload) => {
+      setTitle(state.title);
+      setCwd(state.cwd);
+      if (state.cwd !== data.cwd) {
+        updateNodeData<TerminalNodeData>(id, { cwd: state.cwd });
+      }
+    },
+    [id, data.cwd, updateNodeData]
+  );
+
+  const shellState = useShellState({
+    sessionId: data.sessionId,
+    onChange: handleShellState,
+  });
+
+  // Folder and git nodes opened from here start in the shell's directory
+  const handleOpenFolder = useCallback(() => {
+    const path = shellState?.cwd ?? data.cwd;
+    const folderId = addNodeBeside(NodeType.FOLDER);
+    if (path) {
+      updateNodeData<FolderViewerNodeData>(folderId, { rootPath: path, currentPath: path });
+    }
+  }, [shellState, data.cwd, addNodeBeside, updateNodeData]);
+
+  const handleOpenGit = useCallback(() => {
+    const path = shellState?.cwd ?? data.cwd;
+    const gitId = addNodeBeside(NodeType.GIT);
+    if (path) {
+      updateNodeData<GitNodeData>(gitId, { repoPath: path });
+    }
+  }, [shellState, data.cwd, addNodeBeside, updateNodeData]);
+
+  // Output triggers can open a page the terminal printed, e.g. a dev server
+  const handleTriggerOpenBrowser = useCallback(
+    (url: string) => {
+      const browserId = addNodeBeside(NodeType.BROWSER);
+      updateNodeData<BrowserNodeData>(browserId, { url });
+    },
+    [addNodeBeside, updateNodeData]
+  );
+
+  useOpenBrowserTriggers({
+    sessionId: data.sessionId,
+    onOpen: handleTriggerOpenBrowser,
+  });
+
+  const commandHistory = useCommandHistory({
+    sessionId: data.sessionId ?? '',
+    projectId: data.projectId,
+    enabled: showHistory,
+  });
+
+  const handleRerunCommand = useCallback(
+    (entry: CommandHistoryEntry) => {
+      sendInput(`${entry.command}\r`);
+      terminalRef.current?.focus();
+    },
+    [sendInput]
+  );
+
+  const handleSearchClose = useCallback(() => {
+    clearSearch();
+    terminalRef.current?.clearSelection();
+  }, [clearSearch]);
+
   // Handle terminal input
   const handleData = useCallback(
     (inputData: string) => {
-      sendInput(inputData);
+      // Typing in a broadcast member goes to the whole group
+      if (broadcasting) {
+        broadcast(inputData);
+      } else {
+        sendInput(inputData);
+      }
     },
-    [sendInput]
+    [broadcasting, broadcast, sendInput]
   );
 
   // Handle terminal resize
@@ -214,6 +372,8 @@ export const TerminalNode = memo(function TerminalNode({
   const handleTitleChange = useCallback(
     (newTitle: string) => {
       setTitle(newTitle);
+      // Shell integration reports the real cwd
+      if (shellState) return;
       // Extract CWD from title if it follows common patterns
       const cwdMatch = newTitle.match(/^.*?:\s*(.+?)(?:\s*[-–]\s*.+)?$/);
       if (cwdMatch?.[1]) {
@@ -221,7 +381,7 @@ export const TerminalNode = memo(function TerminalNode({
         updateNodeData<TerminalNodeData>(id, { cwd: cwdMatch[1] });
       }
     },
-    [id, updateNodeData]
+    [id, shellState, updateNodeData]
   );
 
   // Copy selection to clipboard
@@ -248,9 +408,12 @@ export const TerminalNode = memo(function TerminalNode({
         shell: data.shell ?? ShellType.BASH,
         cwd: data.cwd,
         projectId: data.projectId,
+        env: data.env,
+        initialCommand: data.initialCommand,
+        hooks: data.hooks,
       });
     }
-  }, [data.sessionId, data.shell, data.cwd, data.projectId, reconnect, connect]);
+  }, [data.sessionId, data.shell, data.cwd, data.projectId, data.env, data.initialCommand, data.hooks, reconnect, connect]);
 
   // Save configuration changes
   const handleSaveConfig = useCallback(
@@ -263,6 +426,13 @@ export const TerminalNode = memo(function TerminalNode({
         scrollback: config.scrollback,
       });
 
+      // Startup settings only apply to the next session
+      updateNodeData<TerminalNodeData>(id, {
+        env: Object.keys(config.env).length > 0 ? config.env : undefined,
+        initialCommand: config.initialCommand || undefined,
+        hooks: config.hooks.preStart || config.hooks.postExit ? config.hooks : undefined,
+      });
+
       // If shell changed, we need to create a new session
       if (config.shell !== data.shell) {
         disconnect();
@@ -322,6 +492,7 @@ export const TerminalNode = memo(function TerminalNode({
               showPulse={true}
             />
           }
+          headerActions={<ResourceUsage sessionId={data.sessionId} />}
         >
           <div className="w-full h-full flex flex-col">
             <TerminalToolbar
@@ -329,27 +500,69 @@ export const TerminalNode = memo(function TerminalNode({
               onClear={handleClear}
               onSettings={() => setShowConfig(true)}
               onReconnect={!connected ? handleReconnect : undefined}
+              onShare={data.sessionId ? () => setShowShare(true) : undefined}
+              onToggleRecording={data.sessionId ? toggleRecording : undefined}
+              recording={recording}
               connected={connected}
               connecting={connecting}
               isReconnecting={connecting && !!data.sessionId}
               cwd={cwd}
+              lastCommand={shellState?.lastCommand}
+              onOpenFolder={handleOpenFolder}
+              onOpenGit={handleOpenGit}
+              onToggleHistory={data.sessionId ? () => setShowHistory((open) => !open) : undefined}
+              historyOpen={showHistory}
               activityStatus={data.activityStatus}
+              enableSearch={!!data.sessionId}
+              onSearch={handleSearch}
+              onSearchClose={handleSearchClose}
+              searchStatus={searchStatus}
             />
 
-            <div className="flex-1 min-h-[200px] overflow-hidden nodrag nopan nowheel">
-              <Terminal
-                ref={terminalRef}
-                onData={handleData}
-                onResize={handleResize}
-                onTitleChange={handleTitleChange}
-                theme={settings.theme}
-                fontSize={settings.fontSize}
-                fontFamily={settings.fontFamily}
-                cursorBlink={settings.cursorBlink}
-                cursorStyle={settings.cursorStyle}
-                scrollback={settings.scrollback}
-                disabled={!connected}
-              />
+            <TerminalWindowTabs
+              windows={windows}
+              error={windowsError}
+              onChange={updateWindows}
+              onRefresh={refreshWindows}
+            />
+
+            {offscreenLine && (
+              <div
+                className="px-2 py-1 text-xs font-mono text-slate-300 bg-slate-900 border-b border-slate-700 truncate"
+                title={offscreenLine}
+              >
+                <span className="text-slate-500">Older than local scrollback, line </span>
+                {offscreenLine}
+              </div>
+            )}
+
+            <div className="flex-1 min-h-[200px] flex overflow-hidden">
+              <div className="flex-1 min-w-0 overflow-hidden nodrag nopan nowheel">
+                <Terminal
+                  ref={terminalRef}
+                  onData={handleData}
+                  onResize={handleResize}
+                  onTitleChange={handleTitleChange}
+                  theme={settings.theme}
+                  fontSize={settings.fontSize}
+                  fontFamily={settings.fontFamily}
+                  cursorBlink={settings.cursorBlink}
+                  cursorStyle={settings.cursorStyle}
+                  scrollback={settings.scrollback}
+                  disabled={!connected}
+                />
+              </div>
+
+              {showHistory && (
+                <CommandHistorySidebar
+                  commands={commandHistory.commands}
+                  loading={commandHistory.loading}
+                  error={commandHistory.error}
+                  onReveal={commandHistory.reveal}
+                  onRerun={connected ? handleRerunCommand : undefined}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
             </div>
           </div>
         </BaseNode>
@@ -366,6 +579,14 @@ export const TerminalNode = memo(function TerminalNode({
           currentCursorBlink={settings.cursorBlink}
         />
       )}
+
+      {data.sessionId && (
+        <ShareSessionDialog
+          sessionId={data.sessionId}
+          open={showShare}
+          onClose={() => setShowShare(false)}
+        />
+      )}
     </>
   );
 });
@@ -7,7 +7,8 @@
 'use client';
 
 import { useState, useCallback, type KeyboardEvent } from 'react';
-import { TerminalActivityStatus } from '@masterdashboard/shared';
+import { TerminalActivityStatus, type ShellCommand } from '@masterdashboard/shared';
+import type { ScrollbackSearchOptions } from './hooks/useScrollbackSearch';
 
 /**
  * Search icon component
@@ -30,6 +31,22 @@ function SearchIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Chevron icon component (points down; rotate for up)
+ */
+function ChevronIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+    </svg>
+  );
+}
+
 /**
  * Copy icon component
  */
@@ -120,6 +137,99 @@ function ReconnectIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Record icon component
+ */
+function RecordIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+      <circle cx="12" cy="12" r="6" />
+    </svg>
+  );
+}
+
+/**
+ * Share icon component
+ */
+function ShareIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Folder icon component
+ */
+function FolderIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Git branch icon component
+ */
+function GitIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <circle cx="6" cy="6" r="2" strokeWidth={2} />
+      <circle cx="6" cy="18" r="2" strokeWidth={2} />
+      <circle cx="18" cy="8" r="2" strokeWidth={2} />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 8v8m12-6a6 6 0 01-6 6H8" />
+    </svg>
+  );
+}
+
+/**
+ * History (clock) icon component
+ */
+function HistoryIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+      />
+    </svg>
+  );
+}
+
 /**
  * Close icon component
  */
@@ -150,6 +260,12 @@ interface TerminalToolbarProps {
   onSettings: () => void;
   /** Callback to reconnect */
   onReconnect?: () => void;
+  /** Callback to open the spectator link dialog */
+  onShare?: () => void;
+  /** Callback to start or stop recording */
+  onToggleRecording?: () => void;
+  /** Whether the session is being recorded */
+  recording?: boolean;
   /** Whether connected to session */
   connected: boolean;
   /** Whether currently connecting */
@@ -158,10 +274,24 @@ interface TerminalToolbarProps {
   isReconnecting?: boolean;
   /** Current working directory */
   cwd?: string;
+  /** Last command reported by shell integration */
+  lastCommand?: ShellCommand;
+  /** Callback to open a folder node at the working directory */
+  onOpenFolder?: () => void;
+  /** Callback to open a git node at the working directory */
+  onOpenGit?: () => void;
+  /** Callback to show or hide the command history sidebar */
+  onToggleHistory?: () => void;
+  /** Whether the command history sidebar is open */
+  historyOpen?: boolean;
   /** Optional search functionality */
   enableSearch?: boolean;
   /** Search callback */
-  onSearch?: (query: string, direction: 'next' | 'prev') => void;
+  onSearch?: (query: string, direction: 'next' | 'prev', options: ScrollbackSearchOptions) => void;
+  /** Called when the search bar closes */
+  onSearchClose?: () => void;
+  /** Search progress or match position, e.g. "3/42" */
+  searchStatus?: string | null;
   /** Current activity status */
   activityStatus?: TerminalActivityStatus;
 }
@@ -193,6 +323,11 @@ const ACTIVITY_STATUS_CONFIG: Record<
     color: 'bg-slate-500',
     textColor: 'text-slate-400',
   },
+  [TerminalActivityStatus.STALLED]: {
+    label: 'Stalled',
+    color: 'bg-orange-500',
+    textColor: 'text-orange-400',
+  },
 };
 
 export function TerminalToolbar({
@@ -200,16 +335,28 @@ export function TerminalToolbar({
   onClear,
   onSettings,
   onReconnect,
+  onShare,
+  onToggleRecording,
+  recording = false,
   connected,
   connecting = false,
   isReconnecting = false,
   cwd,
+  lastCommand,
+  onOpenFolder,
+  onOpenGit,
+  onToggleHistory,
+  historyOpen = false,
   enableSearch = false,
   onSearch,
+  onSearchClose,
+  searchStatus,
   activityStatus = TerminalActivityStatus.IDLE,
 }: TerminalToolbarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
   const [copied, setCopied] = useState(false);
 
   const handleCopy = useCallback(() => {
@@ -218,22 +365,30 @@ export function TerminalToolbar({
     setTimeout(() => setCopied(false), 1500);
   }, [onCopy]);
 
-  const handleSearch = useCallback(() => {
-    if (searchQuery && onSearch) {
-      onSearch(searchQuery, 'next');
-    }
-  }, [searchQuery, onSearch]);
+  const handleSearch = useCallback(
+    (direction: 'next' | 'prev' = 'next') => {
+      if (searchQuery && onSearch) {
+        onSearch(searchQuery, direction, { regex, caseSensitive });
+      }
+    },
+    [searchQuery, onSearch, regex, caseSensitive]
+  );
+
+  const handleCloseSearch = useCallback(() => {
+    setShowSearch(false);
+    setSearchQuery('');
+    onSearchClose?.();
+  }, [onSearchClose]);
 
   const handleSearchKeyDown = useCallback(
     (e: KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'Enter') {
-        handleSearch();
+        handleSearch(e.shiftKey ? 'prev' : 'next');
       } else if (e.key === 'Escape') {
-        setShowSearch(false);
-        setSearchQuery('');
+        handleCloseSearch();
       }
     },
-    [handleSearch]
+    [handleSearch, handleCloseSearch]
   );
 
   const handleToggleSearch = useCallback(() => {
@@ -287,9 +442,27 @@ export function TerminalToolbar({
             </span>
           </>
         )}
+
+        {lastCommand && (
+          <span
+            className="flex items-center gap-1 min-w-0 text-xs font-mono text-slate-500"
+            title={lastCommand.command}
+          >
+            <span className="truncate max-w-[160px]">{lastCommand.command}</span>
+            {!lastCommand.finishedAt ? (
+              <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse shrink-0" />
+            ) : lastCommand.exitCode === undefined ? null : lastCommand.exitCode === 0 ? (
+              <span className="text-green-400 shrink-0">✓</span>
+            ) : (
+              <span className="px-1 rounded bg-red-500/20 text-red-400 shrink-0">
+                {lastCommand.exitCode}
+              </span>
+            )}
+          </span>
+        )}
       </div>
 
-      {/* Search bar (expandable) */}
+      {/* Search bar (expandable) - searches the full server-side scrollback */}
       {enableSearch && showSearch && (
         <div className="flex items-center gap-1 bg-slate-700/50 rounded px-2 py-0.5">
           <input
@@ -301,15 +474,43 @@ export function TerminalToolbar({
             className="bg-transparent text-xs text-slate-300 outline-none w-24 placeholder:text-slate-600"
             autoFocus
           />
+          {searchStatus && (
+            <span className="text-[10px] text-slate-400 whitespace-nowrap">{searchStatus}</span>
+          )}
+          <button
+            onClick={() => setCaseSensitive((value) => !value)}
+            className={`px-1 text-[10px] font-mono rounded ${
+              caseSensitive ? 'bg-slate-500 text-slate-100' : 'text-slate-400 hover:bg-slate-600'
+            }`}
+            title="Match case"
+          >
+            Aa
+          </button>
+          <button
+            onClick={() => setRegex((value) => !value)}
+            className={`px-1 text-[10px] font-mono rounded ${
+              regex ? 'bg-slate-500 text-slate-100' : 'text-slate-400 hover:bg-slate-600'
+            }`}
+            title="Use regular expression"
+          >
+            .*
+          </button>
           <button
-            onClick={handleSearch}
+            onClick={() => handleSearch('prev')}
             className="p-0.5 hover:bg-slate-600 rounded"
-            title="Find next"
+            title="Newer match (Shift+Enter)"
           >
-            <SearchIcon className="w-3 h-3 text-slate-400" />
+            <ChevronIcon className="w-3 h-3 text-slate-400 rotate-180" />
           </button>
           <button
-            onClick={() => setShowSearch(false)}
+            onClick={() => handleSearch('next')}
+            className="p-0.5 hover:bg-slate-600 rounded"
+            title="Older match (Enter)"
+          >
+            <ChevronIcon className="w-3 h-3 text-slate-400" />
+          </button>
+          <button
+            onClick={handleCloseSearch}
             className="p-0.5 hover:bg-slate-600 rounded"
             title="Close search"
           >
@@ -350,6 +551,38 @@ export function TerminalToolbar({
           <ClearIcon className="w-3.5 h-3.5 text-slate-400" />
         </button>
 
+        {onOpenFolder && (
+          <button
+            onClick={onOpenFolder}
+            className="p-1.5 hover:bg-slate-700 rounded transition-colors"
+            title="Open folder here"
+          >
+            <FolderIcon className="w-3.5 h-3.5 text-slate-400" />
+          </button>
+        )}
+
+        {onOpenGit && (
+          <button
+            onClick={onOpenGit}
+            className="p-1.5 hover:bg-slate-700 rounded transition-colors"
+            title="Open git here"
+          >
+            <GitIcon className="w-3.5 h-3.5 text-slate-400" />
+          </button>
+        )}
+
+        {onToggleHistory && (
+          <button
+            onClick={onToggleHistory}
+            className={`p-1.5 rounded transition-colors ${
+              historyOpen ? 'bg-slate-700' : 'hover:bg-slate-700'
+            }`}
+            title={historyOpen ? 'Hide command history' : 'Show command history'}
+          >
+            <HistoryIcon className="w-3.5 h-3.5 text-slate-400" />
+          </button>
+        )}
+
         {onReconnect && !connected && !connecting && (
           <button
             onClick={onReconnect}
@@ -360,6 +593,28 @@ export function TerminalToolbar({
           </button>
         )}
 
+        {onToggleRecording && connected && (
+          <button
+            onClick={onToggleRecording}
+            className="p-1.5 hover:bg-slate-700 rounded transition-colors"
+            title={recording ? 'Stop recording' : 'Start recording'}
+          >
+            <RecordIcon
+              className={`w-3.5 h-3.5 ${recording ? 'text-red-500 animate-pulse' : 'text-slate-400'}`}
+            />
+          </button>
+        )}
+
+        {onShare && connected && (
+          <button
+            onClick={onShare}
+            className="p-1.5 hover:bg-slate-700 rounded transition-colors"
+            title="Share read-only link"
+          >
+            <ShareIcon className="w-3.5 h-3.5 text-slate-400" />
+          </button>
+        )}
+
         <button
           onClick={onSettings}
           className="p-1.5 hover:bg-slate-700 rounded transition-colors"
@@ -0,0 +1,123 @@
+/**
+ * Terminal Window Tabs Component
+ *
+ * Tab strip for the tmux windows of a terminal, with actions to open and
+ * close windows and to split the current pane. tmux draws the panes itself
+ * inside the terminal.
+ */
+
+'use client';
+
+import type { TerminalWindowAction, TmuxWindow } from '@masterdashboard/shared';
+
+interface TerminalWindowTabsProps {
+  windows: TmuxWindow[];
+  /** Why the last change failed */
+  error: string | null;
+  onChange: (change: TerminalWindowAction) => void;
+  onRefresh: () => void;
+}
+
+/**
+ * Split icon: a box divided beside (horizontal) or below (vertical)
+ */
+function SplitIcon({ vertical, className }: { vertical?: boolean; className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <rect x="4" y="4" width="16" height="16" rx="2" strokeWidth={2} />
+      {vertical ? (
+        <path strokeLinecap="round" strokeWidth={2} d="M4 12h16" />
+      ) : (
+        <path strokeLinecap="round" strokeWidth={2} d="M12 4v16" />
+      )}
+    </svg>
+  );
+}
+
+export function TerminalWindowTabs({ windows, error, onChange, onRefresh }: TerminalWindowTabsProps) {
+  if (windows.length === 0) {
+    return null;
+  }
+
+  const buttonClass =
+    'p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700 transition-colors shrink-0';
+
+  return (
+    <div className="flex items-center gap-0.5 px-1 h-7 bg-slate-900 border-b border-slate-700 nodrag">
+      <div className="flex items-center gap-0.5 flex-1 min-w-0 overflow-x-auto">
+        {windows.map((window) => (
+          <div
+            key={window.id}
+            className={`group flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs cursor-pointer shrink-0 ${
+              window.active
+                ? 'bg-slate-700 text-slate-100'
+                : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+            }`}
+            onClick={() => !window.active && onChange({ action: 'select-window', windowId: window.id })}
+            title={window.panes.map((pane) => `${pane.index}: ${pane.command} (${pane.cwd})`).join('\n')}
+          >
+            <span className="font-mono">{window.index}</span>
+            <span className="max-w-[120px] truncate">{window.name}</span>
+            {window.panes.length > 1 && (
+              <span className="text-[10px] text-slate-500">{window.panes.length}</span>
+            )}
+            {windows.length > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChange({ action: 'kill-window', windowId: window.id });
+                }}
+                className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+                title="Close window"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ action: 'new-window' })}
+          className={buttonClass}
+          title="New window"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      </div>
+
+      {error && (
+        <span className="text-[11px] text-red-400 truncate max-w-[160px]" title={error}>
+          {error}
+        </span>
+      )}
+
+      <button
+        onClick={() => onChange({ action: 'split', direction: 'horizontal' })}
+        className={buttonClass}
+        title="Split pane side by side"
+      >
+        <SplitIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => onChange({ action: 'split', direction: 'vertical' })}
+        className={buttonClass}
+        title="Split pane top and bottom"
+      >
+        <SplitIcon vertical className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={onRefresh} className={buttonClass} title="Refresh windows">
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
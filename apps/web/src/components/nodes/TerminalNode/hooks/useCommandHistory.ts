@@ -0,0 +1,123 @@
+/**
+ * Command History Hook
+ *
+ * Loads a terminal's command history over the REST API and follows new
+ * and finished commands over the WebSocket. Only shells with shell
+ * integration report commands.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  WS_EVENTS,
+  type CommandHistoryEntry,
+  type CommandOutputLocation,
+} from '@masterdashboard/shared';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { upsertCommand } from '@/utils/command-history';
+import { requestRevealMatch } from './useRevealMatch';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+/** Commands kept in the sidebar */
+const HISTORY_LIMIT = 200;
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface UseCommandHistoryOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  projectId: string;
+  /** Load only while the sidebar is open */
+  enabled: boolean;
+}
+
+interface UseCommandHistoryReturn {
+  /** Commands, newest first */
+  commands: CommandHistoryEntry[];
+  loading: boolean;
+  error: string | null;
+  /** Scroll the terminal to a command's output */
+  reveal: (entry: CommandHistoryEntry) => Promise<void>;
+}
+
+export function useCommandHistory({
+  sessionId,
+  projectId,
+  enabled,
+}: UseCommandHistoryOptions): UseCommandHistoryReturn {
+  const { on } = useWebSocket();
+  const [commands, setCommands] = useState<CommandHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCommands = useCallback(async () => {
+    if (!sessionId || !projectId) {
+      setCommands([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ projectId, sessionId, limit: String(HISTORY_LIMIT) });
+      const response = await fetch(`${API_URL}/api/command-history?${params}`, {
+        headers: getAuthHeaders(),
+      });
+      const result: ApiResponse<CommandHistoryEntry[]> = await response.json();
+
+      if (result.success && result.data) {
+        setCommands(result.data);
+        setError(null);
+      } else {
+        setError(result.error ?? 'Failed to load command history');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, projectId]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchCommands();
+    }
+  }, [enabled, fetchCommands]);
+
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    return on<CommandHistoryEntry>(WS_EVENTS.TERMINAL_COMMAND, (entry) => {
+      if (entry.sessionId === sessionId) {
+        setCommands((current) => upsertCommand(current, entry, HISTORY_LIMIT));
+      }
+    });
+  }, [on, enabled, sessionId]);
+
+  // The location depends on output printed since, so ask at click time
+  const reveal = useCallback(
+    async (entry: CommandHistoryEntry) => {
+      try {
+        const response = await fetch(`${API_URL}/api/command-history/${entry.id}/location`, {
+          headers: getAuthHeaders(),
+        });
+        const result: ApiResponse<CommandOutputLocation> = await response.json();
+
+        if (result.success && result.data) {
+          requestRevealMatch({ sessionId: entry.sessionId, ...result.data });
+        } else {
+          setError(result.error ?? 'Failed to find command output');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    []
+  );
+
+  return { commands, loading, error, reveal };
+}
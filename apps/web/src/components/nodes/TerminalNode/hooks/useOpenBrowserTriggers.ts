@@ -0,0 +1,34 @@
+/**
+ * Open Browser Triggers Hook
+ *
+ * Follows output triggers that fired in a terminal with an "open browser"
+ * action, e.g. a dev server printing its URL.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { WS_EVENTS, type OutputTriggerFired } from '@masterdashboard/shared';
+
+interface UseOpenBrowserTriggersOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  /** Called with the URL to open */
+  onOpen: (url: string, fired: OutputTriggerFired) => void;
+}
+
+export function useOpenBrowserTriggers({ sessionId, onOpen }: UseOpenBrowserTriggersOptions): void {
+  const { on } = useWebSocket();
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return on<OutputTriggerFired>(WS_EVENTS.TERMINAL_TRIGGER_FIRED, (fired) => {
+      if (fired.sessionId !== sessionId || fired.action.type !== 'open_browser') {
+        return;
+      }
+      onOpenRef.current(fired.action.url, fired);
+    });
+  }, [on, sessionId]);
+}
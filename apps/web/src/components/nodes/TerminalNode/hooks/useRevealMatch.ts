@@ -0,0 +1,55 @@
+/**
+ * Reveal Match Hook
+ *
+ * Lets other parts of the app (e.g. the command palette's output search)
+ * ask a terminal or SSH node to scroll to a scrollback search match.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { BufferSearchResult } from '@masterdashboard/shared';
+
+/** Window event carrying a RevealMatchDetail */
+export const REVEAL_MATCH_EVENT = 'terminal:reveal-match';
+
+export interface RevealMatchDetail {
+  sessionId: string;
+  result: BufferSearchResult;
+  /** Number of lines the server searched */
+  totalLines: number;
+}
+
+/**
+ * Ask the node showing a session to reveal a match
+ */
+export function requestRevealMatch(detail: RevealMatchDetail): void {
+  window.dispatchEvent(new CustomEvent(REVEAL_MATCH_EVENT, { detail }));
+}
+
+/**
+ * Handle reveal requests for one session
+ */
+export function useRevealMatch(
+  sessionId: string | undefined,
+  onReveal: (result: BufferSearchResult, totalLines: number) => void
+): void {
+  const onRevealRef = useRef(onReveal);
+
+  useEffect(() => {
+    onRevealRef.current = onReveal;
+  });
+
+  useEffect(() => {
+    if (!sessionId || typeof window === 'undefined') return;
+
+    const handleReveal = (event: CustomEvent<RevealMatchDetail>) => {
+      if (event.detail.sessionId === sessionId) {
+        onRevealRef.current(event.detail.result, event.detail.totalLines);
+      }
+    };
+
+    window.addEventListener(REVEAL_MATCH_EVENT, handleReveal as EventListener);
+    return () => {
+      window.removeEventListener(REVEAL_MATCH_EVENT, handleReveal as EventListener);
+    };
+  }, [sessionId]);
+}
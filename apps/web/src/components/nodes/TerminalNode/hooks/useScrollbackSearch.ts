@@ -0,0 +1,188 @@
+/**
+ * Scrollback Search Hook
+ *
+ * Searches a terminal's full server-side scrollback over the WebSocket and
+ * steps through the matches, newest first. Matches are revealed in the local
+ * terminal when they are still in its scrollback. Also handles matches sent
+ * from the project-wide output search.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useRevealMatch } from './useRevealMatch';
+import {
+  WS_EVENTS,
+  type BufferSearchResult,
+  type TerminalSearchResultsPayload,
+} from '@masterdashboard/shared';
+
+export interface ScrollbackSearchOptions {
+  /** Treat the query as a regular expression */
+  regex: boolean;
+  /** Match case exactly */
+  caseSensitive: boolean;
+}
+
+interface UseScrollbackSearchOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  /**
+   * Show a match in the terminal; returns false if the match is older
+   * than the local scrollback
+   */
+  onReveal: (result: BufferSearchResult, totalLines: number) => boolean;
+}
+
+interface UseScrollbackSearchReturn {
+  /** Search, or step to the next/previous match of the current search */
+  find: (query: string, direction: 'next' | 'prev', options: ScrollbackSearchOptions) => void;
+  /** Forget the current search */
+  clear: () => void;
+  /** Short status for the search bar, e.g. "3/42" */
+  status: string | null;
+  /** Text of the current match when it is older than the local scrollback */
+  offscreenLine: string | null;
+}
+
+let requestIdCounter = 0;
+function generateRequestId(): string {
+  return `search_${Date.now()}_${++requestIdCounter}`;
+}
+
+interface SearchState {
+  key: string;
+  results: BufferSearchResult[];
+  totalLines: number;
+  truncated: boolean;
+  index: number;
+}
+
+export function useScrollbackSearch({
+  sessionId,
+  onReveal,
+}: UseScrollbackSearchOptions): UseScrollbackSearchReturn {
+  const { emit, on } = useWebSocket();
+  const [status, setStatus] = useState<string | null>(null);
+  const [offscreenLine, setOffscreenLine] = useState<string | null>(null);
+
+  const searchRef = useRef<SearchState | null>(null);
+  const pendingRef = useRef<{ requestId: string; key: string } | null>(null);
+  const onRevealRef = useRef(onReveal);
+
+  useEffect(() => {
+    onRevealRef.current = onReveal;
+  });
+
+  /**
+   * Reveal a match, or show its text if it is older than the local scrollback
+   */
+  const reveal = useCallback((result: BufferSearchResult, totalLines: number) => {
+    const visible = onRevealRef.current(result, totalLines);
+    setOffscreenLine(visible ? null : `${result.lineNumber + 1}: ${result.lineContent}`);
+  }, []);
+
+  /**
+   * Reveal the current match and update the status text
+   */
+  const show = useCallback((search: SearchState) => {
+    const result = search.results[search.index];
+    if (!result) {
+      setStatus('No matches');
+      setOffscreenLine(null);
+      return;
+    }
+
+    reveal(result, search.totalLines);
+    setStatus(`${search.index + 1}/${search.results.length}${search.truncated ? '+' : ''}`);
+  }, [reveal]);
+
+  // Matches picked in the project-wide output search
+  useRevealMatch(sessionId, (result, totalLines) => {
+    searchRef.current = null;
+    setStatus(null);
+    reveal(result, totalLines);
+  });
+
+  useEffect(() => {
+    const handleResults = (payload: TerminalSearchResultsPayload & { correlationId?: string }) => {
+      const pending = pendingRef.current;
+      if (!pending || payload.correlationId !== pending.requestId) {
+        return;
+      }
+
+      pendingRef.current = null;
+      searchRef.current = {
+        key: pending.key,
+        results: payload.results,
+        totalLines: payload.totalLines,
+        truncated: payload.truncated,
+        index: 0,
+      };
+      show(searchRef.current);
+    };
+
+    const handleError = (payload: { message: string; correlationId?: string }) => {
+      if (pendingRef.current && payload.correlationId === pendingRef.current.requestId) {
+        pendingRef.current = null;
+        setStatus(payload.message);
+        setOffscreenLine(null);
+      }
+    };
+
+    const unsubResults = on<TerminalSearchResultsPayload>(
+      WS_EVENTS.TERMINAL_SEARCH_RESULTS,
+      handleResults
+    );
+    const unsubError = on<{ message: string; correlationId?: string }>(
+      WS_EVENTS.ERROR,
+      handleError
+    );
+
+    return () => {
+      unsubResults();
+      unsubError();
+    };
+  }, [on, show]);
+
+  const find = useCallback(
+    (query: string, direction: 'next' | 'prev', options: ScrollbackSearchOptions) => {
+      if (!sessionId || !query) return;
+
+      const key = JSON.stringify([query, options.regex, options.caseSensitive]);
+      const search = searchRef.current;
+
+      // Same search again: step through the matches (next goes further back)
+      if (search && search.key === key && search.results.length > 0) {
+        const count = search.results.length;
+        search.index = (search.index + (direction === 'next' ? 1 : count - 1)) % count;
+        show(search);
+        return;
+      }
+
+      const requestId = generateRequestId();
+      pendingRef.current = { requestId, key };
+      setStatus('Searching...');
+      emit(
+        WS_EVENTS.TERMINAL_SEARCH,
+        {
+          sessionId,
+          query,
+          regex: options.regex,
+          caseSensitive: options.caseSensitive,
+          direction: 'backward',
+        },
+        requestId
+      );
+    },
+    [sessionId, emit, show]
+  );
+
+  const clear = useCallback(() => {
+    searchRef.current = null;
+    pendingRef.current = null;
+    setStatus(null);
+    setOffscreenLine(null);
+  }, []);
+
+  return { find, clear, status, offscreenLine };
+}
@@ -0,0 +1,92 @@
+/**
+ * Session Recording Hook
+ *
+ * Tracks whether a terminal session is being recorded and switches
+ * recording on and off through the REST API.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { SessionRecording } from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface UseSessionRecordingOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  /** Whether the session is connected */
+  connected: boolean;
+  /** Callback with the finished recording when recording stops */
+  onStopped?: (recording: SessionRecording) => void;
+}
+
+interface UseSessionRecordingReturn {
+  /** Whether the session is being recorded */
+  recording: boolean;
+  /** Start or stop recording */
+  toggleRecording: () => Promise<void>;
+  /** Last error, if any */
+  error: string | null;
+}
+
+export function useSessionRecording({
+  sessionId,
+  connected,
+  onStopped,
+}: UseSessionRecordingOptions): UseSessionRecordingReturn {
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up a recording that was started before this page loaded
+  useEffect(() => {
+    if (!sessionId || !connected) {
+      setRecording(false);
+      return;
+    }
+    let cancelled = false;
+
+    fetch(`${API_URL}/api/sessions/${sessionId}/recording`, { headers: getAuthHeaders() })
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled && data.success) {
+          setRecording(data.data !== null);
+        }
+      })
+      .catch(() => {
+        // Recording state is best-effort; the toggle still works
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, connected]);
+
+  const toggleRecording = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/sessions/${sessionId}/recording`, {
+        method: recording ? 'DELETE' : 'POST',
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error ?? 'Recording request failed');
+        return;
+      }
+
+      setError(null);
+      if (recording) {
+        setRecording(false);
+        onStopped?.(data.data);
+      } else {
+        setRecording(true);
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, [sessionId, recording, onStopped]);
+
+  return { recording, toggleRecording, error };
+}
@@ -0,0 +1,43 @@
+/**
+ * Shell State Hook
+ *
+ * Follows the working directory and last command a terminal's shell reports
+ * through shell integration. Shells without integration never report, and
+ * the state stays null.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { WS_EVENTS, type TerminalShellStatePayload } from '@masterdashboard/shared';
+
+interface UseShellStateOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  /** Called with each reported state */
+  onChange?: (state: TerminalShellStatePayload) => void;
+}
+
+export function useShellState({
+  sessionId,
+  onChange,
+}: UseShellStateOptions): TerminalShellStatePayload | null {
+  const { on } = useWebSocket();
+  const [state, setState] = useState<TerminalShellStatePayload | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    setState(null);
+    if (!sessionId) return;
+
+    return on<TerminalShellStatePayload>(WS_EVENTS.TERMINAL_SHELL_STATE, (payload) => {
+      if (payload.sessionId !== sessionId) {
+        return;
+      }
+      setState(payload);
+      onChangeRef.current?.(payload);
+    });
+  }, [on, sessionId]);
+
+  return state;
+}
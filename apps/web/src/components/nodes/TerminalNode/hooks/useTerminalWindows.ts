@@ -0,0 +1,113 @@
+/**
+ * Terminal Windows Hook
+ *
+ * Loads and changes the tmux windows and panes of a terminal over the
+ * WebSocket. Terminals that are not backed by tmux have no windows.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  WS_EVENTS,
+  type TerminalWindowAction,
+  type TerminalWindowsStatePayload,
+  type TmuxWindow,
+} from '@masterdashboard/shared';
+
+interface UseTerminalWindowsOptions {
+  /** Terminal session ID (empty until connected) */
+  sessionId: string;
+  /** Whether the terminal is attached */
+  connected: boolean;
+}
+
+interface UseTerminalWindowsReturn {
+  /** Windows of the terminal's tmux session (empty without tmux) */
+  windows: TmuxWindow[];
+  /** Why the last change failed */
+  error: string | null;
+  /** Reload the windows, e.g. after tmux key bindings changed them */
+  refresh: () => void;
+  /** Open, split, select or close a window or pane */
+  update: (change: TerminalWindowAction) => void;
+}
+
+let requestIdCounter = 0;
+function generateRequestId(): string {
+  return `windows_${Date.now()}_${++requestIdCounter}`;
+}
+
+export function useTerminalWindows({
+  sessionId,
+  connected,
+}: UseTerminalWindowsOptions): UseTerminalWindowsReturn {
+  const { emit, on } = useWebSocket();
+  const [windows, setWindows] = useState<TmuxWindow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Pending request, and whether it was a change (list failures only mean no tmux)
+  const pendingRef = useRef<{ requestId: string; change: boolean } | null>(null);
+
+  useEffect(() => {
+    const handleState = (payload: TerminalWindowsStatePayload) => {
+      if (payload.sessionId !== sessionId) {
+        return;
+      }
+      pendingRef.current = null;
+      setWindows(payload.windows);
+      setError(null);
+    };
+
+    const handleError = (payload: { message: string; correlationId?: string }) => {
+      const pending = pendingRef.current;
+      if (!pending || payload.correlationId !== pending.requestId) {
+        return;
+      }
+
+      pendingRef.current = null;
+      if (pending.change) {
+        setError(payload.message);
+      } else {
+        setWindows([]);
+      }
+    };
+
+    const unsubState = on<TerminalWindowsStatePayload>(WS_EVENTS.TERMINAL_WINDOWS_STATE, handleState);
+    const unsubError = on<{ message: string; correlationId?: string }>(WS_EVENTS.ERROR, handleError);
+
+    return () => {
+      unsubState();
+      unsubError();
+    };
+  }, [on, sessionId]);
+
+  const refresh = useCallback(() => {
+    if (!sessionId) return;
+
+    const requestId = generateRequestId();
+    pendingRef.current = { requestId, change: false };
+    emit(WS_EVENTS.TERMINAL_WINDOWS, { sessionId }, requestId);
+  }, [sessionId, emit]);
+
+  const update = useCallback(
+    (change: TerminalWindowAction) => {
+      if (!sessionId) return;
+
+      const requestId = generateRequestId();
+      pendingRef.current = { requestId, change: true };
+      emit(WS_EVENTS.TERMINAL_WINDOW_ACTION, { sessionId, ...change }, requestId);
+    },
+    [sessionId, emit]
+  );
+
+  // Load once attached; a detached terminal shows no windows
+  useEffect(() => {
+    if (connected) {
+      refresh();
+    } else {
+      setWindows([]);
+      setError(null);
+    }
+  }, [connected, refresh]);
+
+  return { windows, error, refresh, update };
+}
@@ -8,9 +8,25 @@ export { TerminalNode } from './TerminalNode';
 export { Terminal, type TerminalHandle } from './Terminal';
 export { TerminalToolbar } from './TerminalToolbar';
 export { TerminalConfig, type TerminalConfigData } from './TerminalConfig';
+export { ShareSessionDialog } from './ShareSessionDialog';
+export { TerminalWindowTabs } from './TerminalWindowTabs';
+export { CommandHistorySidebar } from './CommandHistorySidebar';
+export { ResourceUsage } from './ResourceUsage';
 
 // Hooks
 export { useTerminalSocket } from './hooks/useTerminalSocket';
+export { useSessionRecording } from './hooks/useSessionRecording';
+export { useScrollbackSearch } from './hooks/useScrollbackSearch';
+export { useTerminalWindows } from './hooks/useTerminalWindows';
+export { useShellState } from './hooks/useShellState';
+export { useCommandHistory } from './hooks/useCommandHistory';
+export { useOpenBrowserTriggers } from './hooks/useOpenBrowserTriggers';
+export {
+  useRevealMatch,
+  requestRevealMatch,
+  REVEAL_MATCH_EVENT,
+  type RevealMatchDetail,
+} from './hooks/useRevealMatch';
 export { useTerminal, getShellDisplayName, getShellColor, AVAILABLE_SHELLS } from './hooks/useTerminal';
 
 // Utils
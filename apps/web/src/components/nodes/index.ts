@@ -15,6 +15,7 @@ import { ViewerNode } from './ViewerNode';
 import { DiffNode } from './DiffNode';
 import { DatabaseNode } from './DatabaseNode';
 import { GitNode } from './GitNode';
+import { ReplayNode } from './ReplayNode';
 
 /**
  * Node type registry for React Flow
@@ -30,6 +31,7 @@ export const nodeTypes = {
   [NodeType.DIFF]: DiffNode,
   [NodeType.DATABASE]: DatabaseNode,
   [NodeType.GIT]: GitNode,
+  [NodeType.REPLAY]: ReplayNode,
 } as NodeTypes;
 
 // Export individual components
@@ -44,3 +46,4 @@ export { ViewerNode } from './ViewerNode';
 export { DiffNode } from './DiffNode';
 export { DatabaseNode } from './DatabaseNode';
 export { GitNode } from './GitNode';
+export { ReplayNode } from './ReplayNode';
@@ -0,0 +1,202 @@
+/**
+ * Audit Log Panel
+ *
+ * Pages through the server's audit log of security-relevant actions
+ * (session, file, git, database and SSH operations), newest first.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AuditResult, WS_EVENTS, type AuditEntry } from '@masterdashboard/shared';
+import { Button } from '@/components/ui/Button';
+import { getAuthHeaders } from '@/stores/auth-store';
+
+interface AuditLogPanelProps {
+  /** Restrict the log to one project */
+  projectId?: string;
+  className?: string;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+const PAGE_SIZE = 25;
+
+/** Events offered in the filter dropdown */
+const EVENT_OPTIONS = [
+  WS_EVENTS.SESSION_CREATE,
+  WS_EVENTS.SESSION_TERMINATE,
+  WS_EVENTS.FILE_WRITE,
+  WS_EVENTS.FILE_DELETE,
+  WS_EVENTS.FILE_MOVE,
+  WS_EVENTS.GIT_COMMIT,
+  WS_EVENTS.GIT_PUSH,
+  WS_EVENTS.GIT_DISCARD,
+  WS_EVENTS.DATABASE_QUERY,
+  WS_EVENTS.SSH_CONNECT,
+];
+
+const RESULT_CLASSES: Record<AuditResult, string> = {
+  [AuditResult.SUCCESS]: 'text-green-400',
+  [AuditResult.FAILURE]: 'text-amber-400',
+  [AuditResult.DENIED]: 'text-red-400',
+};
+
+const selectClassName =
+  'px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * One-line summary of an entry's details
+ */
+function describeDetails(details: AuditEntry['details']): string | null {
+  if (!details) return null;
+  if (typeof details.error === 'string') return details.error;
+  if (typeof details.reason === 'string') return details.reason;
+  if (typeof details.query === 'string') return details.query;
+  return null;
+}
+
+export function AuditLogPanel({ projectId, className = '' }: AuditLogPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [event, setEvent] = useState('');
+  const [result, setResult] = useState<AuditResult | ''>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+    if (projectId) params.set('projectId', projectId);
+    if (event) params.set('event', event);
+    if (result) params.set('result', result);
+
+    try {
+      const response = await fetch(`${API_URL}/api/audit?${params}`, {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setEntries(data.data);
+        setTotal(data.meta.total);
+        setError(null);
+      } else {
+        setError(data.error ?? 'Failed to load audit log');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, event, result, offset]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const lastShown = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={event}
+          onChange={(e) => {
+            setEvent(e.target.value);
+            setOffset(0);
+          }}
+          className={selectClassName}
+          aria-label="Filter by event"
+        >
+          <option value="">All events</option>
+          {EVENT_OPTIONS.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={result}
+          onChange={(e) => {
+            setResult(e.target.value as AuditResult | '');
+            setOffset(0);
+          }}
+          className={selectClassName}
+          aria-label="Filter by result"
+        >
+          <option value="">All results</option>
+          {Object.values(AuditResult).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <Button variant="ghost" size="sm" onClick={fetchEntries} loading={loading}>
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {entries.length === 0 && !loading ? (
+        <p className="text-sm text-slate-400">No audit entries match these filters.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800 max-h-96 overflow-y-auto">
+          {entries.map((entry) => {
+            const summary = describeDetails(entry.details);
+            return (
+              <li key={entry.id} className="py-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-slate-200">{entry.event}</span>
+                  <span className={RESULT_CLASSES[entry.result]}>{entry.result}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2 text-slate-400">
+                  <span className="truncate" title={entry.target ?? undefined}>
+                    {entry.target ?? '—'}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {entry.actor ?? 'unknown'} · {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                {summary && (
+                  <div className="mt-0.5 truncate font-mono text-slate-500" title={summary}>
+                    {summary}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {total === 0 ? '0 entries' : `${offset + 1}–${lastShown} of ${total}`}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0 || loading}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={lastShown >= total || loading}
+          >
+            Older
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Resource Panel
+ *
+ * CPU and memory use of every terminal in the project, busiest first, with
+ * each terminal's process tree. A runaway child process can be killed along
+ * with everything under it.
+ */
+
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  NodeType,
+  type KillTreeResult,
+  type KillTreeSignal,
+  type ProcessResourceUsage,
+} from '@masterdashboard/shared';
+import { Button } from '@/components/ui/Button';
+import { Sparkline } from '@/components/ui/Sparkline';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useResourceStore } from '@/stores/resource-store';
+import { formatBytes } from '@/utils/resources';
+
+interface ResourcePanelProps {
+  className?: string;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export function ResourcePanel({ className = '' }: ResourcePanelProps) {
+  const samples = useResourceStore((state) => state.samples);
+  const history = useResourceStore((state) => state.history);
+  const nodes = useCanvasStore((state) => state.nodes);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [killing, setKilling] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sessionLabels = useMemo(
+    () =>
+      new Map(
+        nodes
+          .filter((n) => n.type === NodeType.TERMINAL)
+          .map((n) => n.data)
+          .filter((data) => !!data.sessionId)
+          .map((data) => [data.sessionId, data.label])
+      ),
+    [nodes]
+  );
+
+  const rows = useMemo(
+    () => Array.from(samples.values()).sort((a, b) => b.cpuPercent - a.cpuPercent),
+    [samples]
+  );
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (sum, sample) => ({
+          cpuPercent: sum.cpuPercent + sample.cpuPercent,
+          rssBytes: sum.rssBytes + sample.rssBytes,
+        }),
+        { cpuPercent: 0, rssBytes: 0 }
+      ),
+    [rows]
+  );
+
+  const killTree = useCallback(
+    async (sessionId: string, proc: ProcessResourceUsage, signal: KillTreeSignal) => {
+      setKilling(proc.pid);
+      setMessage(null);
+      try {
+        const response = await fetch(`${API_URL}/api/resources/${sessionId}/kill`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify({ pid: proc.pid, signal }),
+        });
+        const result: ApiResponse<KillTreeResult> = await response.json();
+
+        if (result.success && result.data) {
+          const count = result.data.killed.length;
+          setMessage(
+            `Sent ${signal} to ${proc.command} (${proc.pid}) and ${count - 1} child process${
+              count === 2 ? '' : 'es'
+            }`
+          );
+          setError(null);
+        } else {
+          setError(result.error ?? 'Failed to kill process tree');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setKilling(null);
+      }
+    },
+    []
+  );
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {rows.length} terminal{rows.length === 1 ? '' : 's'} · CPU{' '}
+          {Math.round(totals.cpuPercent)}% · {formatBytes(totals.rssBytes)}
+        </span>
+        <span>100% is one core</span>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {message && <p className="text-sm text-slate-300">{message}</p>}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400">No terminal processes sampled yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800 max-h-96 overflow-y-auto">
+          {rows.map((sample) => {
+            const open = expanded === sample.sessionId;
+            const cpuValues = (history.get(sample.sessionId) ?? []).map((p) => p.cpuPercent);
+            const memoryValues = (history.get(sample.sessionId) ?? []).map((p) => p.rssBytes);
+
+            return (
+              <li key={sample.sessionId} className="py-2 text-xs" data-testid="resource-row">
+                <button
+                  className="w-full flex items-center justify-between gap-2 text-left"
+                  onClick={() => setExpanded(open ? null : sample.sessionId)}
+                  aria-expanded={open}
+                >
+                  <span className="truncate text-slate-200">
+                    {open ? '▾' : '▸'} {sessionLabels.get(sample.sessionId) ?? sample.sessionId}
+                    <span className="ml-2 text-slate-500">
+                      {sample.processes.length} process{sample.processes.length === 1 ? '' : 'es'}
+                    </span>
+                  </span>
+                  <span className="flex flex-shrink-0 items-center gap-2 font-mono text-slate-300">
+                    <Sparkline values={cpuValues} max={100} color="#60a5fa" label="CPU history" />
+                    <span className="w-12 text-right">{sample.cpuPercent}%</span>
+                    <Sparkline values={memoryValues} color="#a78bfa" label="Memory history" />
+                    <span className="w-16 text-right">{formatBytes(sample.rssBytes)}</span>
+                  </span>
+                </button>
+
+                {open && (
+                  <table className="mt-2 w-full font-mono text-slate-400">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="font-normal">Process</th>
+                        <th className="font-normal text-right">PID</th>
+                        <th className="font-normal text-right">CPU</th>
+                        <th className="font-normal text-right">Memory</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sample.processes.map((proc) => (
+                        <tr key={proc.pid}>
+                          <td
+                            className="truncate text-slate-300"
+                            style={{ paddingLeft: `${proc.depth * 12}px` }}
+                          >
+                            {proc.command}
+                          </td>
+                          <td className="text-right">{proc.pid}</td>
+                          <td className="text-right">{proc.cpuPercent}%</td>
+                          <td className="text-right">{formatBytes(proc.rssBytes)}</td>
+                          <td className="text-right">
+                            {proc.depth > 0 && (
+                              <span className="flex justify-end gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => killTree(sample.sessionId, proc, 'SIGTERM')}
+                                  loading={killing === proc.pid}
+                                  title="Send SIGTERM to this process and its children"
+                                >
+                                  Kill tree
+                                </Button>
+                                <Button
+                                  variant="danger"
+                                  size="sm"
+                                  onClick={() => killTree(sample.sessionId, proc, 'SIGKILL')}
+                                  disabled={killing === proc.pid}
+                                  title="Send SIGKILL to this process and its children"
+                                >
+                                  Force
+                                </Button>
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+/**
+ * Schedule Panel
+ *
+ * Lists a project's scheduled commands with their next and last runs, and
+ * adds new ones: input sent to a terminal session on a cron expression,
+ * after a delay, or at a set time. Schedules run on the server.
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { NodeType, type ScheduledCommand } from '@masterdashboard/shared';
+import { Button } from '@/components/ui/Button';
+import { useScheduledCommands } from '@/hooks/useScheduledCommands';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { describeSchedule, formatTimeUntil, runAtAfterMinutes } from '@/utils/schedules';
+
+interface SchedulePanelProps {
+  projectId: string;
+  className?: string;
+}
+
+/** How a new schedule's time is given */
+type ScheduleMode = 'cron' | 'delay' | 'at';
+
+interface ScheduleDraft {
+  name: string;
+  sessionId: string;
+  mode: ScheduleMode;
+  cron: string;
+  delayMinutes: string;
+  /** Local date and time from a datetime-local input */
+  at: string;
+  command: string;
+  enter: boolean;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  sessionId: '',
+  mode: 'cron',
+  cron: '0 2 * * *',
+  delayMinutes: '30',
+  at: '',
+  command: '',
+  enter: true,
+};
+
+const MODE_LABELS: Record<ScheduleMode, string> = {
+  cron: 'Repeat (cron)',
+  delay: 'Once, in minutes',
+  at: 'Once, at a time',
+};
+
+/** How often relative run times are refreshed */
+const CLOCK_INTERVAL_MS = 30_000;
+
+const fieldClassName =
+  'px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Run time for a one-off draft, or null if it has none yet
+ */
+function draftRunAt(draft: ScheduleDraft): string | null {
+  if (draft.mode === 'delay') {
+    const minutes = Number(draft.delayMinutes);
+    return minutes > 0 ? runAtAfterMinutes(minutes) : null;
+  }
+  if (draft.mode === 'at' && draft.at) {
+    return new Date(draft.at).toISOString();
+  }
+  return null;
+}
+
+export function SchedulePanel({ projectId, className = '' }: SchedulePanelProps) {
+  const nodes = useCanvasStore((state) => state.nodes);
+  const { schedules, loading, error, saveSchedule, setPaused, runNow, removeSchedule } =
+    useScheduledCommands(projectId);
+  const [draft, setDraft] = useState<ScheduleDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Sessions on the canvas a schedule can send to
+  const sessions = useMemo(
+    () =>
+      nodes
+        .filter((n) => n.type === NodeType.TERMINAL)
+        .map((n) => n.data)
+        .filter((data) => !!data.sessionId)
+        .map((data) => ({ sessionId: data.sessionId, label: data.label })),
+    [nodes]
+  );
+
+  const sessionLabels = useMemo(
+    () => new Map(sessions.map((session) => [session.sessionId, session.label])),
+    [sessions]
+  );
+
+  const updateDraft = useCallback((changes: Partial<ScheduleDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  }, []);
+
+  const canSave =
+    draft.name.trim().length > 0 &&
+    draft.sessionId.length > 0 &&
+    draft.command.length > 0 &&
+    (draft.mode === 'cron' ? draft.cron.trim().length > 0 : draftRunAt(draft) !== null);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    const saved = await saveSchedule({
+      id: `schedule_${Date.now().toString(36)}`,
+      projectId,
+      sessionId: draft.sessionId,
+      name: draft.name.trim(),
+      kind: draft.mode === 'cron' ? 'cron' : 'once',
+      cron: draft.mode === 'cron' ? draft.cron.trim() : null,
+      runAt: draft.mode === 'cron' ? null : draftRunAt(draft),
+      command: draft.command,
+      enter: draft.enter,
+      paused: false,
+    });
+    setSaving(false);
+    if (saved) {
+      setDraft({ ...EMPTY_DRAFT, sessionId: draft.sessionId });
+    }
+  }, [draft, projectId, saveSchedule]);
+
+  const describeNextRun = (schedule: ScheduledCommand): string => {
+    if (schedule.paused) return 'Paused';
+    if (!schedule.nextRunAt) return schedule.kind === 'once' ? 'Done' : 'Never';
+    return `Next ${formatTimeUntil(schedule.nextRunAt, now)}`;
+  };
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <p className="text-xs text-slate-400">
+        Send input to a terminal on a schedule. Cron expressions use the server&apos;s local time,
+        e.g. <span className="font-mono">0 2 * * *</span> for every night at 02:00.
+      </p>
+
+      {/* New schedule */}
+      <div className="flex flex-col gap-2 rounded-md border border-slate-700 p-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Name"
+            className={`${fieldClassName} w-40`}
+            aria-label="Name"
+          />
+          <select
+            value={draft.sessionId}
+            onChange={(e) => updateDraft({ sessionId: e.target.value })}
+            className={`${fieldClassName} flex-1`}
+            aria-label="Session"
+          >
+            <option value="">{sessions.length ? 'Choose a session' : 'No open sessions'}</option>
+            {sessions.map((session) => (
+              <option key={session.sessionId} value={session.sessionId}>
+                {session.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={draft.mode}
+            onChange={(e) => updateDraft({ mode: e.target.value as ScheduleMode })}
+            className={fieldClassName}
+            aria-label="When"
+          >
+            {(Object.keys(MODE_LABELS) as ScheduleMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          {draft.mode === 'cron' && (
+            <input
+              type="text"
+              value={draft.cron}
+              onChange={(e) => updateDraft({ cron: e.target.value })}
+              placeholder="minute hour day month weekday"
+              className={`${fieldClassName} flex-1 font-mono`}
+              aria-label="Cron expression"
+            />
+          )}
+          {draft.mode === 'delay' && (
+            <input
+              type="number"
+              min={1}
+              value={draft.delayMinutes}
+              onChange={(e) => updateDraft({ delayMinutes: e.target.value })}
+              className={`${fieldClassName} w-24`}
+              aria-label="Minutes from now"
+            />
+          )}
+          {draft.mode === 'at' && (
+            <input
+              type="datetime-local"
+              value={draft.at}
+              onChange={(e) => updateDraft({ at: e.target.value })}
+              className={fieldClassName}
+              aria-label="Run at"
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={draft.command}
+            onChange={(e) => updateDraft({ command: e.target.value })}
+            placeholder="Command, e.g. pnpm test:e2e"
+            className={`${fieldClassName} flex-1 font-mono`}
+            aria-label="Command"
+          />
+          <label className="flex items-center gap-1 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.enter}
+              onChange={(e) => updateDraft({ enter: e.target.checked })}
+            />
+            Press Enter
+          </label>
+          <Button size="sm" onClick={handleSave} disabled={!canSave} loading={saving}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {schedules.length === 0 && !loading ? (
+        <p className="text-sm text-slate-400">No scheduled commands yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800 max-h-96 overflow-y-auto">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="py-2 text-xs" data-testid="schedule-row">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-slate-200">
+                  {schedule.name}
+                  <span className="ml-2 text-slate-500">
+                    → {sessionLabels.get(schedule.sessionId) ?? schedule.sessionId}
+                  </span>
+                </span>
+                <span className={schedule.paused ? 'text-amber-400' : 'text-slate-400'}>
+                  {describeNextRun(schedule)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2 text-slate-400">
+                <span className="truncate font-mono" title={schedule.command}>
+                  {schedule.command}
+                </span>
+                <span className="flex-shrink-0">{describeSchedule(schedule)}</span>
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-2">
+                <span
+                  className={`truncate ${schedule.lastError ? 'text-red-400' : 'text-slate-500'}`}
+                  title={schedule.lastError ?? undefined}
+                >
+                  {schedule.lastRunAt
+                    ? `Last run ${new Date(schedule.lastRunAt).toLocaleString()}${
+                        schedule.lastError ? ` — ${schedule.lastError}` : ''
+                      }`
+                    : 'Not run yet'}
+                </span>
+                <span className="flex flex-shrink-0 gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => runNow(schedule.id)}>
+                    Run now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPaused(schedule.id, !schedule.paused)}
+                  >
+                    {schedule.paused ? 'Resume' : 'Pause'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeSchedule(schedule.id)}>
+                    Delete
+                  </Button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
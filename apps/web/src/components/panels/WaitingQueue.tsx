@@ -1,16 +1,28 @@
 /**
  * Waiting Queue Panel
  *
- * Shows all terminals that are awaiting user input.
- * Provides quick navigation and notification controls.
+ * Shows all terminals and SSH sessions that are awaiting user input.
+ * Provides quick navigation and notification controls, and answers prompts
+ * in place: the end of each prompt is shown with one-click replies inferred
+ * from it, plus a free-text reply.
  */
 
 'use client';
 
-import { useMemo } from 'react';
-import { ShellType } from '@masterdashboard/shared';
-import { useStatusStore, useWaitingQueue } from '@/stores/status-store';
+import { useMemo, useState, useCallback } from 'react';
+import { NodeType, ShellType, WS_EVENTS } from '@masterdashboard/shared';
+import {
+  useStatusStore,
+  useWaitingQueue,
+  useWaitingDetails,
+  type WaitingDetail,
+} from '@/stores/status-store';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { inferQuickReplies } from '@/utils/quick-replies';
+
+/** Prompt lines shown for each waiting terminal */
+const PREVIEW_LINES = 4;
 
 interface WaitingQueueProps {
   projectId?: string;
@@ -107,6 +119,27 @@ function TerminalIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Send icon component
+ */
+function SendIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+      />
+    </svg>
+  );
+}
+
 /**
  * Sparkles icon for Claude Code
  */
@@ -128,8 +161,144 @@ function SparklesIcon({ className }: { className?: string }) {
   );
 }
 
+interface WaitingTerminal {
+  sessionId: string;
+  nodeId: string;
+  /** SSH sessions take input over their own event */
+  isSSH: boolean;
+  label: string;
+  shell?: ShellType;
+  cwd?: string;
+  detail?: WaitingDetail;
+}
+
+interface WaitingItemProps {
+  terminal: WaitingTerminal;
+  onFocus: (sessionId: string) => void;
+  onReply: (terminal: WaitingTerminal, data: string) => void;
+}
+
+/**
+ * One waiting terminal: prompt preview, quick replies and a free-text reply
+ */
+function WaitingItem({ terminal, onFocus, onReply }: WaitingItemProps) {
+  const [text, setText] = useState('');
+  const { detail } = terminal;
+  const previewLines = detail?.promptLines.slice(-PREVIEW_LINES) ?? [];
+  const quickReplies = useMemo(
+    () =>
+      detail
+        ? inferQuickReplies({
+            matchedPatternId: detail.matchedPatternId,
+            promptLines: detail.promptLines,
+            shell: terminal.shell,
+          })
+        : [],
+    [detail, terminal.shell]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text) return;
+    onReply(terminal, `${text}\r`);
+    setText('');
+  };
+
+  return (
+    <div className="bg-gray-700 rounded" data-testid="waiting-item">
+      <button
+        onClick={() => onFocus(terminal.sessionId)}
+        className="w-full p-2 rounded-t hover:bg-gray-600 transition-colors text-left flex items-center gap-2 group"
+      >
+        {/* Pulsing indicator */}
+        <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse flex-shrink-0" />
+
+        {/* Icon */}
+        {terminal.shell === ShellType.CLAUDE_CODE ? (
+          <SparklesIcon className="w-4 h-4 text-purple-400 flex-shrink-0" />
+        ) : (
+          <TerminalIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        )}
+
+        {/* Info */}
+        <div className="flex-1 min-w-0">
+          <div className="text-xs font-medium text-white truncate">
+            {terminal.label}
+          </div>
+          {detail?.message && (
+            <div className="text-xs text-yellow-300 truncate" title={detail.message}>
+              {detail.message}
+            </div>
+          )}
+          {terminal.cwd && (
+            <div className="text-xs text-gray-400 truncate">
+              {terminal.cwd}
+            </div>
+          )}
+        </div>
+
+        {/* Focus indicator on hover */}
+        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+          <FocusIcon className="w-4 h-4 text-blue-400" />
+        </div>
+      </button>
+
+      <div className="px-2 pb-2 space-y-1.5">
+        {/* Prompt preview */}
+        {previewLines.length > 0 && (
+          <pre
+            className="text-[10px] leading-tight text-gray-300 bg-gray-900 rounded p-1.5 overflow-hidden whitespace-pre-wrap break-all font-mono"
+            data-testid="waiting-prompt"
+          >
+            {previewLines.join('\n')}
+          </pre>
+        )}
+
+        {/* Quick replies */}
+        {quickReplies.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {quickReplies.map((reply) => (
+              <button
+                key={reply.label}
+                onClick={() => onReply(terminal, reply.data)}
+                className="px-2 py-0.5 text-xs rounded bg-gray-600 text-gray-100 hover:bg-blue-600 transition-colors truncate max-w-full"
+                title={reply.label}
+                data-testid="quick-reply"
+              >
+                {reply.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Free-text reply */}
+        <form onSubmit={handleSubmit} className="flex gap-1">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Reply..."
+            className="flex-1 min-w-0 px-2 py-1 text-xs rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:border-blue-500"
+            aria-label={`Reply to ${terminal.label}`}
+          />
+          <button
+            type="submit"
+            disabled={!text}
+            className="p-1 rounded text-gray-300 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+            title="Send reply"
+          >
+            <SendIcon className="w-3.5 h-3.5" />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 export function WaitingQueue({ projectId, className = '' }: WaitingQueueProps) {
   const waitingQueue = useWaitingQueue();
+  const waitingDetails = useWaitingDetails();
+  const { emit } = useWebSocket();
   const { soundEnabled, autoFocusEnabled, toggleSound, toggleAutoFocus } =
     useStatusStore();
   const nodes = useCanvasStore((state) => state.nodes);
@@ -145,19 +314,15 @@ export function WaitingQueue({ projectId, className = '' }: WaitingQueueProps) {
         return {
           sessionId,
           nodeId: node.id,
+          isSSH: node.type === NodeType.SSH,
           label: node.data.label || 'Terminal',
           shell: node.data.shell as ShellType | undefined,
           cwd: node.data.cwd as string | undefined,
+          detail: waitingDetails.get(sessionId),
         };
       })
-      .filter(Boolean) as Array<{
-      sessionId: string;
-      nodeId: string;
-      label: string;
-      shell?: ShellType;
-      cwd?: string;
-    }>;
-  }, [waitingQueue, nodes, projectId]);
+      .filter(Boolean) as WaitingTerminal[];
+  }, [waitingQueue, waitingDetails, nodes, projectId]);
 
   // Focus on a terminal
   const handleFocus = (sessionId: string) => {
@@ -168,6 +333,15 @@ export function WaitingQueue({ projectId, className = '' }: WaitingQueueProps) {
     }
   };
 
+  // Answer a prompt; the terminal leaves the queue until it waits again
+  const handleReply = useCallback(
+    ({ sessionId, isSSH }: WaitingTerminal, data: string) => {
+      emit(isSSH ? WS_EVENTS.SSH_INPUT : WS_EVENTS.TERMINAL_INPUT, { sessionId, data });
+      useStatusStore.getState().removeFromWaitingQueue(sessionId);
+    },
+    [emit]
+  );
+
   // Don't show panel if no waiting terminals and sound is off
   if (waitingTerminals.length === 0 && !soundEnabled) {
     return null;
@@ -223,38 +397,12 @@ export function WaitingQueue({ projectId, className = '' }: WaitingQueueProps) {
           </div>
         ) : (
           waitingTerminals.map((terminal) => (
-            <button
+            <WaitingItem
               key={terminal.sessionId}
-              onClick={() => handleFocus(terminal.sessionId)}
-              className="w-full p-2 bg-gray-700 rounded hover:bg-gray-600 transition-colors text-left flex items-center gap-2 group"
-            >
-              {/* Pulsing indicator */}
-              <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse flex-shrink-0" />
-
-              {/* Icon */}
-              {terminal.shell === ShellType.CLAUDE_CODE ? (
-                <SparklesIcon className="w-4 h-4 text-purple-400 flex-shrink-0" />
-              ) : (
-                <TerminalIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
-              )}
-
-              {/* Info */}
-              <div className="flex-1 min-w-0">
-                <div className="text-xs font-medium text-white truncate">
-                  {terminal.label}
-                </div>
-                {terminal.cwd && (
-                  <div className="text-xs text-gray-400 truncate">
-                    {terminal.cwd}
-                  </div>
-                )}
-              </div>
-
-              {/* Focus indicator on hover */}
-              <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                <FocusIcon className="w-4 h-4 text-blue-400" />
-              </div>
-            </button>
+              terminal={terminal}
+              onFocus={handleFocus}
+              onReply={handleReply}
+            />
           ))
         )}
       </div>
@@ -0,0 +1,179 @@
+/**
+ * ForeignTmuxSessions Component
+ *
+ * Lists tmux sessions the user started outside the dashboard, with their
+ * windows and panes, and attaches any of them to the project as a terminal
+ * node. The original tmux session keeps running and keeps its name.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { NodeType, type ForeignTmuxSession, type TerminalSession } from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useCanvasStore } from '@/stores/canvas-store';
+
+interface ForeignTmuxSessionsProps {
+  projectId: string;
+}
+
+type AdoptedSession = Pick<TerminalSession, 'id' | 'shell' | 'cwd' | 'title' | 'tmuxTarget'>;
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+export function ForeignTmuxSessions({ projectId }: ForeignTmuxSessionsProps) {
+  const [sessions, setSessions] = useState<ForeignTmuxSession[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [adopting, setAdopting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/tmux/foreign`, {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSessions(data.data);
+        setError(null);
+      } else {
+        setError(data.error ?? 'Failed to list tmux sessions');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const adopt = useCallback(
+    async (target: string) => {
+      setAdopting(target);
+      try {
+        const response = await fetch(`${API_URL}/api/tmux/adopt`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify({ projectId, target }),
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          const session: AdoptedSession = data.data;
+          // The node reconnects to the session on mount, which attaches to tmux
+          useCanvasStore.getState().addNodeGroup([
+            {
+              type: NodeType.TERMINAL,
+              position: { x: 0, y: 0 },
+              data: {
+                sessionId: session.id,
+                shell: session.shell,
+                cwd: session.cwd,
+                label: session.title,
+              },
+            },
+          ]);
+          setError(null);
+          await fetchSessions();
+        } else {
+          setError(data.error ?? 'Failed to attach tmux session');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setAdopting(null);
+      }
+    },
+    [projectId, fetchSessions]
+  );
+
+  const attachButton = (target: string, label = 'Attach') => (
+    <button
+      onClick={() => adopt(target)}
+      disabled={adopting !== null}
+      className="px-1.5 py-0.5 rounded text-[11px] bg-blue-600/20 text-blue-400 hover:bg-blue-600/30
+        disabled:opacity-50 transition-colors shrink-0"
+    >
+      {adopting === target ? '...' : label}
+    </button>
+  );
+
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500 uppercase tracking-wider">Your tmux sessions</p>
+        <button
+          onClick={fetchSessions}
+          className="text-slate-500 hover:text-slate-300 transition-colors"
+          title="Refresh"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {sessions.length === 0 ? (
+        <div className="text-xs text-slate-500">No tmux sessions running outside the dashboard</div>
+      ) : (
+        <div className="space-y-1">
+          {sessions.map((session) => (
+            <div key={session.id} className="bg-slate-800/50 rounded text-xs">
+              <div className="flex items-center gap-2 px-2.5 py-1.5">
+                <button
+                  onClick={() => setExpanded(expanded === session.id ? null : session.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="text-slate-200 truncate">{session.name}</div>
+                  <div className="text-[11px] text-slate-500">
+                    {session.windows.length} window{session.windows.length === 1 ? '' : 's'}
+                    {session.attachedClients > 0 && ' · attached'}
+                    {session.adoptedBy.length > 0 && ' · on canvas'}
+                  </div>
+                </button>
+                {attachButton(session.id)}
+              </div>
+
+              {expanded === session.id && (
+                <div className="pb-1.5 space-y-0.5">
+                  {session.windows.map((window) => (
+                    <div key={window.id}>
+                      <div className="flex items-center gap-2 pl-5 pr-2.5 py-0.5">
+                        <span className="flex-1 truncate text-slate-300">
+                          {window.index}: {window.name}
+                        </span>
+                        {attachButton(window.id)}
+                      </div>
+                      {window.panes.length > 1 &&
+                        window.panes.map((pane) => (
+                          <div
+                            key={pane.id}
+                            className="flex items-center gap-2 pl-8 pr-2.5 py-0.5"
+                            title={pane.cwd}
+                          >
+                            <span className="flex-1 truncate text-slate-400">
+                              {pane.index}: {pane.command}
+                            </span>
+                            {attachButton(pane.id)}
+                          </div>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,10 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { Dialog } from '@/components/ui/Dialog';
 import { SettingsPanel } from '@/components/settings';
+import { AuditLogPanel } from '@/components/panels/AuditLogPanel';
+import { SchedulePanel } from '@/components/panels/SchedulePanel';
+import { ResourcePanel } from '@/components/panels/ResourcePanel';
+import { ProjectMembersDialog } from './ProjectMembersDialog';
 import { useProjectStore } from '@/stores/project-store';
 import {
   useIsSettingsPanelOpen,
@@ -43,6 +47,10 @@ export function ProjectHeader({
   const closeSettings = useCloseSettingsPanel();
 
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMembersDialog, setShowMembersDialog] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showResources, setShowResources] = useState(false);
   const [showActionsMenu, setShowActionsMenu] = useState(false);
   const [isKilling, setIsKilling] = useState(false);
 
@@ -167,6 +175,82 @@ export function ProjectHeader({
                       Settings
                     </span>
                   </button>
+                  <button
+                    className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    onClick={() => {
+                      setShowActionsMenu(false);
+                      setShowMembersDialog(true);
+                    }}
+                  >
+                    <span className="flex items-center gap-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+                        />
+                      </svg>
+                      Members
+                    </span>
+                  </button>
+                  <button
+                    className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    onClick={() => {
+                      setShowActionsMenu(false);
+                      setShowAuditLog(true);
+                    }}
+                  >
+                    <span className="flex items-center gap-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                        />
+                      </svg>
+                      Audit Log
+                    </span>
+                  </button>
+                  <button
+                    className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    onClick={() => {
+                      setShowActionsMenu(false);
+                      setShowSchedules(true);
+                    }}
+                  >
+                    <span className="flex items-center gap-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                        />
+                      </svg>
+                      Scheduled Commands
+                    </span>
+                  </button>
+                  <button
+                    className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    onClick={() => {
+                      setShowActionsMenu(false);
+                      setShowResources(true);
+                    }}
+                  >
+                    <span className="flex items-center gap-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                        />
+                      </svg>
+                      Resources
+                    </span>
+                  </button>
                   <div className="border-t border-slate-700 my-1" />
                   <button
                     className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-slate-700 hover:text-red-300 transition-colors"
@@ -228,6 +312,43 @@ export function ProjectHeader({
         </p>
       </Dialog>
 
+      {/* Members Dialog */}
+      <ProjectMembersDialog
+        projectId={projectId}
+        open={showMembersDialog}
+        onClose={() => setShowMembersDialog(false)}
+      />
+
+      {/* Audit Log Dialog */}
+      <Dialog
+        open={showAuditLog}
+        onClose={() => setShowAuditLog(false)}
+        title="Audit Log"
+        width="lg"
+      >
+        {showAuditLog && <AuditLogPanel projectId={projectId} />}
+      </Dialog>
+
+      {/* Scheduled Commands Dialog */}
+      <Dialog
+        open={showSchedules}
+        onClose={() => setShowSchedules(false)}
+        title="Scheduled Commands"
+        width="lg"
+      >
+        {showSchedules && <SchedulePanel projectId={projectId} />}
+      </Dialog>
+
+      {/* Resources Dialog */}
+      <Dialog
+        open={showResources}
+        onClose={() => setShowResources(false)}
+        title="Resources"
+        width="lg"
+      >
+        {showResources && <ResourcePanel />}
+      </Dialog>
+
       {/* Settings Panel */}
       <SettingsPanel isOpen={isSettingsOpen} onClose={closeSettings} />
     </>
@@ -0,0 +1,201 @@
+/**
+ * Project Members Dialog
+ *
+ * Lists the users with access to a project. Owners can add members by
+ * username, change roles, and remove members.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { ProjectRole, type ProjectMember } from '@masterdashboard/shared';
+import { Dialog } from '@/components/ui/Dialog';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { getAuthHeaders, useAuthUser } from '@/stores/auth-store';
+
+interface ProjectMembersDialogProps {
+  /** Project ID */
+  projectId: string;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when dialog should close */
+  onClose: () => void;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  [ProjectRole.OWNER]: 'Owner',
+  [ProjectRole.OPERATOR]: 'Operator',
+  [ProjectRole.VIEWER]: 'Viewer (read-only)',
+};
+
+const ROLES = [ProjectRole.OWNER, ProjectRole.OPERATOR, ProjectRole.VIEWER];
+
+const selectClassName =
+  'px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-md text-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50';
+
+export function ProjectMembersDialog({ projectId, open, onClose }: ProjectMembersDialogProps) {
+  const user = useAuthUser();
+
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<ProjectRole>(ProjectRole.OPERATOR);
+
+  const myRole = members.find((m) => m.userId === user?.id)?.role;
+  const canManage = !user || user.isAdmin || myRole === ProjectRole.OWNER;
+
+  /**
+   * Send a members request and replace the list with the response
+   */
+  const request = useCallback(
+    async (path: string, init?: RequestInit) => {
+      setLoading(true);
+      try {
+        const response = await fetch(`${API_URL}/api/projects/${projectId}/members${path}`, {
+          ...init,
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setMembers(data.data);
+          setError(null);
+          return true;
+        }
+        setError(data.error ?? 'Request failed');
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setLoading(false);
+      }
+      return false;
+    },
+    [projectId]
+  );
+
+  useEffect(() => {
+    if (open) {
+      request('');
+    }
+  }, [open, request]);
+
+  const handleAdd = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      if (!username.trim()) return;
+
+      const ok = await request('', {
+        method: 'POST',
+        body: JSON.stringify({ username: username.trim(), role }),
+      });
+      if (ok) {
+        setUsername('');
+      }
+    },
+    [username, role, request]
+  );
+
+  const handleRoleChange = useCallback(
+    (userId: string, newRole: ProjectRole) =>
+      request(`/${userId}`, { method: 'PUT', body: JSON.stringify({ role: newRole }) }),
+    [request]
+  );
+
+  const handleRemove = useCallback(
+    (userId: string) => request(`/${userId}`, { method: 'DELETE' }),
+    [request]
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="Project Members"
+      width="lg"
+      footer={
+        <Button variant="secondary" onClick={onClose}>
+          Close
+        </Button>
+      }
+    >
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+      {members.length === 0 && !loading ? (
+        <p className="text-sm text-slate-400">
+          No members yet. Administrators and the shared dashboard password always have full access.
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-800 mb-4">
+          {members.map((member) => (
+            <li key={member.userId} className="flex items-center justify-between gap-3 py-2">
+              <span className="text-sm text-slate-200 truncate">
+                {member.username}
+                {member.userId === user?.id && (
+                  <span className="ml-1.5 text-xs text-slate-500">(you)</span>
+                )}
+              </span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.userId, e.target.value as ProjectRole)}
+                  disabled={!canManage || loading}
+                  className={selectClassName}
+                  aria-label={`Role for ${member.username}`}
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(member.userId)}
+                    disabled={loading}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="Add member"
+              name="username"
+              placeholder="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as ProjectRole)}
+            className={selectClassName}
+            aria-label="Role for new member"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" loading={loading} disabled={!username.trim()}>
+            Add
+          </Button>
+        </form>
+      )}
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 /**
  * QuickStart Sidebar
  *
- * Sidebar panel with tabs for launching terminals and browsing files.
+ * Sidebar panel with tabs for launching terminals and workspace templates,
+ * and browsing files.
  */
 
 'use client';
@@ -10,8 +11,10 @@ import { useState, useCallback } from 'react';
 import { Input } from '@/components/ui/Input';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { NodeType, ShellType } from '@masterdashboard/shared';
+import { ForeignTmuxSessions } from './ForeignTmuxSessions';
 import { SessionStats } from './SessionStats';
 import { SidebarFileBrowser } from './SidebarFileBrowser';
+import { WorkspaceTemplates } from './WorkspaceTemplates';
 
 interface QuickStartProps {
   /** Default working directory */
@@ -340,6 +343,20 @@ export function QuickStart({ defaultCwd, projectId }: QuickStartProps) {
         </div>
       )}
 
+      {/* Workspace Templates */}
+      {projectId && activeTab === 'launch' && (
+        <div className="border-t border-slate-800">
+          <WorkspaceTemplates projectId={projectId} />
+        </div>
+      )}
+
+      {/* Foreign tmux sessions */}
+      {projectId && activeTab === 'launch' && (
+        <div className="border-t border-slate-800">
+          <ForeignTmuxSessions projectId={projectId} />
+        </div>
+      )}
+
       {/* Session Stats */}
       {projectId && activeTab === 'launch' && (
         <div className="border-t border-slate-800">
@@ -1,12 +1,17 @@
 /**
  * SessionStats Component
  *
- * Displays tmux session statistics and cleanup controls for a project.
+ * Displays tmux session statistics and cleanup controls for a project,
+ * and a timeline of how long today each session spent working, waiting
+ * and errored.
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TerminalActivityStatus, type StatusSummary } from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useNodes } from '@/stores/canvas-store';
 
 interface TmuxStats {
   active: number;
@@ -22,15 +27,143 @@ interface SessionStatsProps {
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
 
+/** Status history changes slowly; no need to poll it as often as tmux stats */
+const SUMMARY_REFRESH_MS = 30000;
+
+const SEGMENT_COLORS: Record<TerminalActivityStatus, string> = {
+  [TerminalActivityStatus.WORKING]: 'bg-green-500',
+  [TerminalActivityStatus.WAITING]: 'bg-yellow-500',
+  [TerminalActivityStatus.ERROR]: 'bg-red-500',
+  [TerminalActivityStatus.STALLED]: 'bg-orange-500',
+  [TerminalActivityStatus.IDLE]: 'bg-slate-600',
+};
+
+const TOTALS: Array<{ status: TerminalActivityStatus; label: string; color: string }> = [
+  { status: TerminalActivityStatus.WORKING, label: 'Working', color: 'text-green-400' },
+  { status: TerminalActivityStatus.WAITING, label: 'Blocked on you', color: 'text-yellow-400' },
+  { status: TerminalActivityStatus.ERROR, label: 'Errored', color: 'text-red-400' },
+  { status: TerminalActivityStatus.STALLED, label: 'Stalled', color: 'text-orange-400' },
+];
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.floor(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function startOfToday(): string {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date.toISOString();
+}
+
+interface StatusTimelineProps {
+  summary: StatusSummary;
+}
+
+/**
+ * Per-session bars of status over the summarized period
+ */
+function StatusTimeline({ summary }: StatusTimelineProps) {
+  const nodes = useNodes();
+  const labels = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const node of nodes) {
+      if (node.data.sessionId) map.set(node.data.sessionId, node.data.label);
+    }
+    return map;
+  }, [nodes]);
+
+  const from = new Date(summary.from).getTime();
+  const span = Math.max(new Date(summary.to).getTime() - from, 1);
+  const suspects = summary.patterns.filter((pattern) => pattern.shortLivedCount > 0).slice(0, 3);
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-slate-800">
+      <div className="text-xs font-medium text-slate-400">Today</div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {TOTALS.map(({ status, label, color }) => (
+          <div
+            key={status}
+            className="flex items-center justify-between bg-slate-800/50 px-2.5 py-1.5 rounded"
+          >
+            <span className="text-slate-400">{label}</span>
+            <span className={`font-mono ${color}`}>{formatDuration(summary.totals[status])}</span>
+          </div>
+        ))}
+      </div>
+
+      {summary.sessions.length === 0 ? (
+        <div className="text-xs text-slate-500">No status changes recorded today</div>
+      ) : (
+        <div className="space-y-1.5">
+          {summary.sessions.map((session) => (
+            <div key={session.sessionId} className="space-y-0.5">
+              <div className="flex items-center justify-between text-[11px]">
+                <span className="text-slate-300 truncate">
+                  {labels.get(session.sessionId) ?? session.sessionId}
+                </span>
+                <span className="text-slate-500 font-mono shrink-0 ml-2">
+                  {formatDuration(session.durations[TerminalActivityStatus.WAITING])} waiting
+                </span>
+              </div>
+              <div className="relative h-2 bg-slate-800 rounded overflow-hidden">
+                {session.segments.map((segment) => {
+                  const start = new Date(segment.start).getTime();
+                  const end = new Date(segment.end).getTime();
+                  return (
+                    <div
+                      key={segment.start}
+                      className={`absolute inset-y-0 ${SEGMENT_COLORS[segment.status]}`}
+                      style={{
+                        left: `${((start - from) / span) * 100}%`,
+                        width: `${((end - start) / span) * 100}%`,
+                      }}
+                      title={`${segment.status} for ${formatDuration(end - start)}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {suspects.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-slate-500">Possible false positives</div>
+          {suspects.map((pattern) => (
+            <div
+              key={pattern.pattern}
+              className="flex items-center justify-between text-[11px]"
+              title={`Average ${formatDuration(pattern.averageDurationMs)} in ${pattern.status}`}
+            >
+              <span className="text-slate-300 truncate">{pattern.pattern}</span>
+              <span className="text-orange-400 font-mono shrink-0 ml-2">
+                {pattern.shortLivedCount}/{pattern.count} brief
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function SessionStats({ projectId }: SessionStatsProps) {
   const [stats, setStats] = useState<TmuxStats | null>(null);
+  const [summary, setSummary] = useState<StatusSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const fetchStats = useCallback(async () => {
     try {
-      const response = await fetch(`${API_URL}/api/tmux/stats?projectId=${projectId}`);
+      const response = await fetch(`${API_URL}/api/tmux/stats?projectId=${projectId}`, {
+        headers: getAuthHeaders(),
+      });
       const data = await response.json();
 
       if (data.success) {
@@ -46,12 +179,34 @@ export function SessionStats({ projectId }: SessionStatsProps) {
     }
   }, [projectId]);
 
+  const fetchSummary = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ projectId, since: startOfToday() });
+      const response = await fetch(`${API_URL}/api/status-history/summary?${params}`, {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.data);
+      }
+    } catch {
+      // The tmux stats request reports connection errors
+    }
+  }, [projectId]);
+
   useEffect(() => {
     fetchStats();
     const interval = setInterval(fetchStats, 5000);
     return () => clearInterval(interval);
   }, [fetchStats]);
 
+  useEffect(() => {
+    fetchSummary();
+    const interval = setInterval(fetchSummary, SUMMARY_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchSummary]);
+
   const handleKillAll = useCallback(async () => {
     if (!confirm('Kill all sessions for this project? This cannot be undone.')) {
       return;
@@ -61,7 +216,7 @@ export function SessionStats({ projectId }: SessionStatsProps) {
     try {
       const response = await fetch(`${API_URL}/api/tmux/kill-all`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
         body: JSON.stringify({ projectId }),
       });
       const data = await response.json();
@@ -83,7 +238,7 @@ export function SessionStats({ projectId }: SessionStatsProps) {
     try {
       const response = await fetch(`${API_URL}/api/tmux/cleanup`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
         body: JSON.stringify({}),
       });
       const data = await response.json();
@@ -127,7 +282,10 @@ export function SessionStats({ projectId }: SessionStatsProps) {
           Session Stats
         </h3>
         <button
-          onClick={fetchStats}
+          onClick={() => {
+            fetchStats();
+            fetchSummary();
+          }}
           className="text-slate-500 hover:text-slate-300 transition-colors"
           title="Refresh"
         >
@@ -224,6 +382,8 @@ export function SessionStats({ projectId }: SessionStatsProps) {
           </div>
         </>
       )}
+
+      {summary && <StatusTimeline summary={summary} />}
     </div>
   );
 }
@@ -0,0 +1,167 @@
+/**
+ * WorkspaceTemplates Component
+ *
+ * Lists a project's workspace templates with a launch action for each, and
+ * saves the current canvas as a new template, either in the project or as
+ * a file in the repository.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { REPO_TEMPLATES_DIR, type WorkspaceTemplateSource } from '@masterdashboard/shared';
+import { useWorkspaceTemplates } from '@/hooks/useWorkspaceTemplates';
+import { useNodes } from '@/stores/canvas-store';
+import { canvasToTemplateNodes } from '@/utils/workspace-templates';
+
+interface WorkspaceTemplatesProps {
+  projectId: string;
+}
+
+/**
+ * Build a template ID from its name
+ */
+function createTemplateId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 50);
+  return slug || `template-${Date.now().toString(36)}`;
+}
+
+export function WorkspaceTemplates({ projectId }: WorkspaceTemplatesProps) {
+  const nodes = useNodes();
+  const { templates, loading, error, launching, saveTemplate, removeTemplate, launchTemplate } =
+    useWorkspaceTemplates(projectId);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<WorkspaceTemplateSource>('project');
+
+  const handleSave = useCallback(async () => {
+    const trimmed = name.trim();
+    if (!trimmed || nodes.length === 0) return;
+
+    const id = createTemplateId(trimmed);
+    const existing = templates.find((template) => template.id === id && template.source === source);
+    if (existing && !confirm(`Replace the template "${existing.name}"?`)) {
+      return;
+    }
+
+    const saved = await saveTemplate({
+      id,
+      projectId,
+      source,
+      name: trimmed,
+      nodes: canvasToTemplateNodes(nodes),
+    });
+    if (saved) {
+      setName('');
+      setSaving(false);
+    }
+  }, [name, nodes, templates, source, projectId, saveTemplate]);
+
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500 uppercase tracking-wider">Templates</p>
+        <button
+          onClick={() => setSaving((value) => !value)}
+          disabled={nodes.length === 0}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-slate-600 transition-colors"
+          title={nodes.length === 0 ? 'Add nodes to the canvas first' : 'Save the canvas as a template'}
+        >
+          {saving ? 'Cancel' : 'Save canvas'}
+        </button>
+      </div>
+
+      {saving && (
+        <div className="space-y-2 p-2 bg-slate-800/50 rounded">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Template name"
+            className="w-full px-2 py-1 text-xs bg-slate-900 border border-slate-700 rounded text-slate-200
+              placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            autoFocus
+          />
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            {(['project', 'repo'] as const).map((option) => (
+              <label key={option} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={source === option}
+                  onChange={() => setSource(option)}
+                />
+                {option === 'project' ? 'Project' : 'Repository'}
+              </label>
+            ))}
+          </div>
+          {source === 'repo' && (
+            <p className="text-[11px] text-slate-500">
+              Written to {REPO_TEMPLATES_DIR}/{createTemplateId(name)}.yaml
+            </p>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="w-full px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-500 text-white
+              disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+          >
+            Save {nodes.length} node{nodes.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {loading && templates.length === 0 ? (
+        <div className="text-xs text-slate-500">Loading templates...</div>
+      ) : templates.length === 0 ? (
+        <div className="text-xs text-slate-500">
+          No templates yet. Save the canvas or add files to {REPO_TEMPLATES_DIR}.
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {templates.map((template) => (
+            <div
+              key={`${template.source}:${template.id}`}
+              className="flex items-center gap-2 px-2.5 py-1.5 bg-slate-800/50 rounded text-xs group"
+              title={template.description ?? template.path ?? template.name}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 truncate">{template.name}</div>
+                <div className="text-[11px] text-slate-500">
+                  {template.nodes.length} node{template.nodes.length === 1 ? '' : 's'}
+                  {template.source === 'repo' && ' · repository'}
+                </div>
+              </div>
+              <button
+                onClick={() => launchTemplate(template)}
+                disabled={launching !== null}
+                className="px-2 py-0.5 rounded bg-green-600/20 text-green-400 hover:bg-green-600/30
+                  disabled:opacity-50 transition-colors"
+              >
+                {launching === template.id ? 'Launching...' : 'Launch'}
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete the template "${template.name}"?`)) {
+                    removeTemplate(template);
+                  }
+                }}
+                className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete template"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,10 @@
  */
 
 export { CreateProjectDialog } from './CreateProjectDialog';
+export { ForeignTmuxSessions } from './ForeignTmuxSessions';
 export { ProjectCard } from './ProjectCard';
 export { ProjectHeader } from './ProjectHeader';
+export { ProjectMembersDialog } from './ProjectMembersDialog';
 export { QuickStart } from './QuickStart';
 export { SessionStats } from './SessionStats';
+export { WorkspaceTemplates } from './WorkspaceTemplates';
@@ -0,0 +1,429 @@
+/**
+ * Notification Rule Settings Component
+ *
+ * Editor for the current project's notification rules: which events notify,
+ * for the whole project, a shell or a single session, with quiet hours and
+ * a minimum duration to ride out flapping statuses.
+ */
+
+'use client';
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  NodeType,
+  ShellType,
+  DEFAULT_NOTIFICATION_RULE,
+  type NotificationRule,
+  type NotificationRuleScope,
+  type NotificationTrigger,
+} from '@masterdashboard/shared';
+import { useNotificationRules } from '@/hooks/useNotificationRules';
+import { useCanvasStore } from '@/stores/canvas-store';
+
+interface RuleDraft {
+  /** Set when editing an existing rule */
+  id: string | null;
+  scope: NotificationRuleScope;
+  target: string;
+  triggers: NotificationTrigger[];
+  minDurationSeconds: number;
+  quietHoursEnabled: boolean;
+  quietStart: string;
+  quietEnd: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  id: null,
+  scope: 'project',
+  target: '',
+  triggers: [...DEFAULT_NOTIFICATION_RULE.triggers],
+  minDurationSeconds: DEFAULT_NOTIFICATION_RULE.minDurationMs / 1000,
+  quietHoursEnabled: false,
+  quietStart: '22:00',
+  quietEnd: '08:00',
+  enabled: true,
+};
+
+const TRIGGER_LABELS: Record<NotificationTrigger, string> = {
+  waiting: 'Waiting for input',
+  error: 'Error',
+  exited: 'Process exited',
+};
+
+const SCOPE_LABELS: Record<NotificationRuleScope, string> = {
+  project: 'Whole project',
+  shell: 'Shell',
+  session: 'Session',
+};
+
+const inputStyle = {
+  backgroundColor: 'rgb(var(--bg-input))',
+  borderColor: 'rgb(var(--border-primary))',
+  color: 'rgb(var(--text-primary))',
+};
+
+function ruleToDraft(rule: NotificationRule): RuleDraft {
+  return {
+    id: rule.id,
+    scope: rule.scope,
+    target: rule.target ?? '',
+    triggers: rule.triggers,
+    minDurationSeconds: rule.minDurationMs / 1000,
+    quietHoursEnabled: rule.quietHours !== null,
+    quietStart: rule.quietHours?.start ?? EMPTY_DRAFT.quietStart,
+    quietEnd: rule.quietHours?.end ?? EMPTY_DRAFT.quietEnd,
+    enabled: rule.enabled,
+  };
+}
+
+/**
+ * Desktop notification permission, or 'unsupported' outside browsers that have it
+ */
+function useNotificationPermission() {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    'unsupported'
+  );
+
+  useEffect(() => {
+    if (typeof Notification !== 'undefined') {
+      setPermission(Notification.permission);
+    }
+  }, []);
+
+  const request = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { permission, request };
+}
+
+export function NotificationRuleSettings() {
+  const { projectId, nodes } = useCanvasStore();
+  const { rules, loading, error, saveRule, removeRule } = useNotificationRules(projectId);
+  const { permission, request } = useNotificationPermission();
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  // Sessions on the canvas a rule can target
+  const sessions = useMemo(
+    () =>
+      nodes
+        .filter((n) => n.type === NodeType.TERMINAL)
+        .map((n) => n.data)
+        .filter((data) => !!data.sessionId)
+        .map((data) => ({ sessionId: data.sessionId, label: data.label })),
+    [nodes]
+  );
+
+  const sessionLabels = useMemo(
+    () => new Map(sessions.map((session) => [session.sessionId, session.label])),
+    [sessions]
+  );
+
+  const updateDraft = useCallback((updates: Partial<RuleDraft>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  }, []);
+
+  const toggleTrigger = useCallback((trigger: NotificationTrigger) => {
+    setDraft((current) => ({
+      ...current,
+      triggers: current.triggers.includes(trigger)
+        ? current.triggers.filter((t) => t !== trigger)
+        : [...current.triggers, trigger],
+    }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!projectId) return;
+
+    saveRule({
+      id: draft.id ?? `rule_${Date.now().toString(36)}`,
+      projectId,
+      scope: draft.scope,
+      target: draft.scope === 'project' ? null : draft.target,
+      triggers: draft.triggers,
+      minDurationMs: Math.round(draft.minDurationSeconds * 1000),
+      quietHours: draft.quietHoursEnabled ? { start: draft.quietStart, end: draft.quietEnd } : null,
+      enabled: draft.enabled,
+    });
+    setDraft(EMPTY_DRAFT);
+  }, [draft, projectId, saveRule]);
+
+  const handleToggle = useCallback(
+    (rule: NotificationRule) => {
+      saveRule({
+        id: rule.id,
+        projectId: rule.projectId,
+        scope: rule.scope,
+        target: rule.target,
+        triggers: rule.triggers,
+        minDurationMs: rule.minDurationMs,
+        quietHours: rule.quietHours,
+        enabled: !rule.enabled,
+      });
+    },
+    [saveRule]
+  );
+
+  const handleRemove = useCallback(
+    (rule: NotificationRule) => {
+      if (confirm('Delete this notification rule?')) {
+        removeRule(rule.id);
+      }
+    },
+    [removeRule]
+  );
+
+  const describeTarget = (rule: NotificationRule) => {
+    if (rule.scope === 'project') return SCOPE_LABELS.project;
+    if (rule.scope === 'shell') return `Shell: ${rule.target}`;
+    return `Session: ${sessionLabels.get(rule.target ?? '') ?? rule.target}`;
+  };
+
+  const canSave = draft.scope === 'project' || draft.target.length > 0;
+
+  if (!projectId) {
+    return (
+      <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+        Open a project to edit its notification rules.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-sm font-medium" style={{ color: 'rgb(var(--text-primary))' }}>
+          Notifications
+        </h3>
+        <p className="text-xs mt-1" style={{ color: 'rgb(var(--text-muted))' }}>
+          Rules are shared by everyone on this project. A session rule overrides a shell rule,
+          which overrides the project rule. Without rules, waiting and error notify after{' '}
+          {DEFAULT_NOTIFICATION_RULE.minDurationMs / 1000}s.
+        </p>
+      </div>
+
+      {/* Browser permission */}
+      <div className="flex items-center justify-between text-sm">
+        <span style={{ color: 'rgb(var(--text-secondary))' }}>
+          {permission === 'granted' && 'Desktop notifications are on in this browser'}
+          {permission === 'denied' && 'Desktop notifications are blocked in the browser settings'}
+          {permission === 'default' && 'Desktop notifications are off in this browser'}
+          {permission === 'unsupported' && 'This browser does not support desktop notifications'}
+        </span>
+        {permission === 'default' && (
+          <button
+            onClick={request}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors"
+            style={{ backgroundColor: 'rgb(var(--accent-primary))', color: 'white' }}
+            data-testid="notification-permission"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+
+      {/* Editor */}
+      <section
+        className="p-4 rounded-lg space-y-3"
+        style={{ backgroundColor: 'rgb(var(--bg-tertiary))' }}
+        data-testid="notification-rule-editor"
+      >
+        <div className="flex items-center gap-3">
+          <select
+            value={draft.scope}
+            onChange={(e) =>
+              updateDraft({ scope: e.target.value as NotificationRuleScope, target: '' })
+            }
+            className="px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Applies to"
+          >
+            {(Object.keys(SCOPE_LABELS) as NotificationRuleScope[]).map((scope) => (
+              <option key={scope} value={scope}>
+                {SCOPE_LABELS[scope]}
+              </option>
+            ))}
+          </select>
+          {draft.scope === 'shell' && (
+            <select
+              value={draft.target}
+              onChange={(e) => updateDraft({ target: e.target.value })}
+              className="px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+              aria-label="Shell"
+            >
+              <option value="">Choose a shell</option>
+              {Object.values(ShellType).map((shell) => (
+                <option key={shell} value={shell}>
+                  {shell}
+                </option>
+              ))}
+            </select>
+          )}
+          {draft.scope === 'session' && (
+            <select
+              value={draft.target}
+              onChange={(e) => updateDraft({ target: e.target.value })}
+              className="px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+              aria-label="Session"
+            >
+              <option value="">{sessions.length ? 'Choose a session' : 'No open sessions'}</option>
+              {sessions.map((session) => (
+                <option key={session.sessionId} value={session.sessionId}>
+                  {session.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4">
+          {(Object.keys(TRIGGER_LABELS) as NotificationTrigger[]).map((trigger) => (
+            <label
+              key={trigger}
+              className="flex items-center gap-2 text-xs"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              <input
+                type="checkbox"
+                checked={draft.triggers.includes(trigger)}
+                onChange={() => toggleTrigger(trigger)}
+              />
+              {TRIGGER_LABELS[trigger]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 text-xs" style={{ color: 'rgb(var(--text-secondary))' }}>
+          <label className="flex items-center gap-2">
+            Notify after
+            <input
+              type="number"
+              min={0}
+              max={3600}
+              value={draft.minDurationSeconds}
+              onChange={(e) => updateDraft({ minDurationSeconds: Number(e.target.value) })}
+              className="w-16 px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+            />
+            s
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.quietHoursEnabled}
+              onChange={(e) => updateDraft({ quietHoursEnabled: e.target.checked })}
+            />
+            Quiet hours
+          </label>
+          <input
+            type="time"
+            value={draft.quietStart}
+            onChange={(e) => updateDraft({ quietStart: e.target.value })}
+            disabled={!draft.quietHoursEnabled}
+            className="px-2 py-1 text-sm rounded-lg border disabled:opacity-40"
+            style={inputStyle}
+            aria-label="Quiet hours start"
+          />
+          –
+          <input
+            type="time"
+            value={draft.quietEnd}
+            onChange={(e) => updateDraft({ quietEnd: e.target.value })}
+            disabled={!draft.quietHoursEnabled}
+            className="px-2 py-1 text-sm rounded-lg border disabled:opacity-40"
+            style={inputStyle}
+            aria-label="Quiet hours end"
+          />
+          <div className="flex-1" />
+          {draft.id && (
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-3 py-1.5 text-sm rounded-lg transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40"
+            style={{ backgroundColor: 'rgb(var(--accent-primary))', color: 'white' }}
+            data-testid="notification-rule-save"
+          >
+            {draft.id ? 'Update' : 'Add'}
+          </button>
+        </div>
+      </section>
+
+      {error && (
+        <div className="text-sm" style={{ color: 'rgb(var(--accent-error))' }}>
+          {error}
+        </div>
+      )}
+
+      {/* Rule List */}
+      <section className="space-y-2">
+        {loading && (
+          <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+            Loading rules...
+          </div>
+        )}
+        {!loading && rules.length === 0 && (
+          <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+            No rules yet; the default applies.
+          </div>
+        )}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex items-center gap-3 py-2 px-3 rounded-lg"
+            style={{
+              backgroundColor: draft.id === rule.id ? 'rgb(var(--bg-tertiary))' : 'transparent',
+              opacity: rule.enabled ? 1 : 0.5,
+            }}
+            data-testid={`notification-rule-${rule.id}`}
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={() => handleToggle(rule)}
+              aria-label="Enable rule"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm truncate" style={{ color: 'rgb(var(--text-primary))' }}>
+                {describeTarget(rule)}
+              </div>
+              <div className="text-xs truncate" style={{ color: 'rgb(var(--text-muted))' }}>
+                {rule.triggers.length
+                  ? rule.triggers.map((trigger) => TRIGGER_LABELS[trigger]).join(', ')
+                  : 'Muted'}
+                {rule.minDurationMs > 0 && ` · after ${rule.minDurationMs / 1000}s`}
+                {rule.quietHours && ` · quiet ${rule.quietHours.start}–${rule.quietHours.end}`}
+              </div>
+            </div>
+            <button
+              onClick={() => setDraft(ruleToDraft(rule))}
+              className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => handleRemove(rule)}
+              className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--accent-error))' }}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
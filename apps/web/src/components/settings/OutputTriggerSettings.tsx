@@ -0,0 +1,640 @@
+/**
+ * Output Trigger Settings Component
+ *
+ * Editor for the current project's output triggers: a pattern over terminal
+ * output and the action it runs, for the whole project or one session, with
+ * a cooldown. Below the editor, the log of recent runs.
+ */
+
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  NodeType,
+  DEFAULT_TRIGGER_COOLDOWN_MS,
+  MIN_TRIGGER_COOLDOWN_MS,
+  type OutputTrigger,
+  type OutputTriggerAction,
+  type OutputTriggerActionType,
+  type OutputTriggerScope,
+} from '@masterdashboard/shared';
+import { useOutputTriggers } from '@/hooks/useOutputTriggers';
+import { useCanvasStore } from '@/stores/canvas-store';
+
+interface TriggerDraft {
+  /** Set when editing an existing trigger */
+  id: string | null;
+  name: string;
+  scope: OutputTriggerScope;
+  target: string;
+  pattern: string;
+  caseSensitive: boolean;
+  actionType: OutputTriggerActionType;
+  keys: string;
+  enter: boolean;
+  title: string;
+  body: string;
+  url: string;
+  webhookUrl: string;
+  commandSessionId: string;
+  command: string;
+  cooldownSeconds: number;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: TriggerDraft = {
+  id: null,
+  name: '',
+  scope: 'project',
+  target: '',
+  pattern: '',
+  caseSensitive: true,
+  actionType: 'notify',
+  keys: '',
+  enter: true,
+  title: '',
+  body: '$0',
+  url: '$0',
+  webhookUrl: 'http://localhost:',
+  commandSessionId: '',
+  command: '',
+  cooldownSeconds: DEFAULT_TRIGGER_COOLDOWN_MS / 1000,
+  enabled: true,
+};
+
+/** Starting points for common triggers */
+const PRESETS: { label: string; draft: Partial<TriggerDraft> }[] = [
+  {
+    label: 'Open dev server',
+    draft: {
+      name: 'Open dev server',
+      pattern: 'https?://(localhost|127\\.0\\.0\\.1):\\d+\\S*',
+      actionType: 'open_browser',
+      url: '$0',
+      cooldownSeconds: 300,
+    },
+  },
+  {
+    label: 'Notify on FAIL',
+    draft: {
+      name: 'Tests failed',
+      pattern: '\\bFAIL\\b',
+      actionType: 'notify',
+      title: 'Tests failed',
+      body: '$0',
+      cooldownSeconds: 30,
+    },
+  },
+];
+
+const ACTION_LABELS: Record<OutputTriggerActionType, string> = {
+  send_keys: 'Send keys',
+  notify: 'Notify',
+  open_browser: 'Open browser',
+  webhook: 'Webhook',
+  run_command: 'Run command in session',
+};
+
+const SCOPE_LABELS: Record<OutputTriggerScope, string> = {
+  project: 'Whole project',
+  session: 'Session',
+};
+
+const inputStyle = {
+  backgroundColor: 'rgb(var(--bg-input))',
+  borderColor: 'rgb(var(--border-primary))',
+  color: 'rgb(var(--text-primary))',
+};
+
+function triggerToDraft(trigger: OutputTrigger): TriggerDraft {
+  const { action } = trigger;
+  return {
+    ...EMPTY_DRAFT,
+    id: trigger.id,
+    name: trigger.name,
+    scope: trigger.scope,
+    target: trigger.target ?? '',
+    pattern: trigger.pattern,
+    caseSensitive: trigger.caseSensitive,
+    actionType: action.type,
+    ...(action.type === 'send_keys' && { keys: action.keys, enter: action.enter }),
+    ...(action.type === 'notify' && { title: action.title, body: action.body }),
+    ...(action.type === 'open_browser' && { url: action.url }),
+    ...(action.type === 'webhook' && { webhookUrl: action.url }),
+    ...(action.type === 'run_command' && {
+      commandSessionId: action.sessionId,
+      command: action.command,
+    }),
+    cooldownSeconds: trigger.cooldownMs / 1000,
+    enabled: trigger.enabled,
+  };
+}
+
+function draftToAction(draft: TriggerDraft): OutputTriggerAction {
+  switch (draft.actionType) {
+    case 'send_keys':
+      return { type: 'send_keys', keys: draft.keys, enter: draft.enter };
+    case 'notify':
+      return { type: 'notify', title: draft.title || draft.name, body: draft.body };
+    case 'open_browser':
+      return { type: 'open_browser', url: draft.url };
+    case 'webhook':
+      return { type: 'webhook', url: draft.webhookUrl };
+    case 'run_command':
+      return { type: 'run_command', sessionId: draft.commandSessionId, command: draft.command };
+  }
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export function OutputTriggerSettings() {
+  const { projectId, nodes } = useCanvasStore();
+  const { triggers, executions, loading, error, saveTrigger, removeTrigger } =
+    useOutputTriggers(projectId);
+  const [draft, setDraft] = useState<TriggerDraft>(EMPTY_DRAFT);
+
+  // Sessions on the canvas a trigger can watch or send commands to
+  const sessions = useMemo(
+    () =>
+      nodes
+        .filter((n) => n.type === NodeType.TERMINAL)
+        .map((n) => n.data)
+        .filter((data) => !!data.sessionId)
+        .map((data) => ({ sessionId: data.sessionId, label: data.label })),
+    [nodes]
+  );
+
+  const sessionLabels = useMemo(
+    () => new Map(sessions.map((session) => [session.sessionId, session.label])),
+    [sessions]
+  );
+
+  const triggerNames = useMemo(
+    () => new Map(triggers.map((trigger) => [trigger.id, trigger.name])),
+    [triggers]
+  );
+
+  const updateDraft = useCallback((updates: Partial<TriggerDraft>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!projectId) return;
+
+    saveTrigger({
+      id: draft.id ?? `trigger_${Date.now().toString(36)}`,
+      projectId,
+      name: draft.name,
+      scope: draft.scope,
+      target: draft.scope === 'project' ? null : draft.target,
+      pattern: draft.pattern,
+      caseSensitive: draft.caseSensitive,
+      action: draftToAction(draft),
+      cooldownMs: Math.max(MIN_TRIGGER_COOLDOWN_MS, Math.round(draft.cooldownSeconds * 1000)),
+      enabled: draft.enabled,
+    });
+    setDraft(EMPTY_DRAFT);
+  }, [draft, projectId, saveTrigger]);
+
+  const handleToggle = useCallback(
+    (trigger: OutputTrigger) => {
+      saveTrigger({
+        id: trigger.id,
+        projectId: trigger.projectId,
+        name: trigger.name,
+        scope: trigger.scope,
+        target: trigger.target,
+        pattern: trigger.pattern,
+        caseSensitive: trigger.caseSensitive,
+        action: trigger.action,
+        cooldownMs: trigger.cooldownMs,
+        enabled: !trigger.enabled,
+      });
+    },
+    [saveTrigger]
+  );
+
+  const handleRemove = useCallback(
+    (trigger: OutputTrigger) => {
+      if (confirm(`Delete the trigger "${trigger.name}"?`)) {
+        removeTrigger(trigger.id);
+      }
+    },
+    [removeTrigger]
+  );
+
+  const describeAction = (action: OutputTriggerAction) => {
+    switch (action.type) {
+      case 'send_keys':
+        return `Send "${action.keys}"${action.enter ? ' + Enter' : ''}`;
+      case 'notify':
+        return `Notify "${action.title}"`;
+      case 'open_browser':
+        return `Open ${action.url}`;
+      case 'webhook':
+        return `POST ${action.url}`;
+      case 'run_command':
+        return `Run "${action.command}" in ${sessionLabels.get(action.sessionId) ?? action.sessionId}`;
+    }
+  };
+
+  const actionComplete =
+    (draft.actionType === 'send_keys' && draft.keys.length > 0) ||
+    draft.actionType === 'notify' ||
+    (draft.actionType === 'open_browser' && draft.url.length > 0) ||
+    (draft.actionType === 'webhook' && draft.webhookUrl.length > 0) ||
+    (draft.actionType === 'run_command' && !!draft.commandSessionId && draft.command.length > 0);
+
+  const canSave =
+    draft.name.trim().length > 0 &&
+    isValidPattern(draft.pattern) &&
+    (draft.scope === 'project' || draft.target.length > 0) &&
+    actionComplete;
+
+  if (!projectId) {
+    return (
+      <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+        Open a project to edit its output triggers.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-sm font-medium" style={{ color: 'rgb(var(--text-primary))' }}>
+          Output Triggers
+        </h3>
+        <p className="text-xs mt-1" style={{ color: 'rgb(var(--text-muted))' }}>
+          Run an action when a line of terminal output matches a regular expression. In action
+          fields, $0 is the whole match and $1–$9 its groups. A trigger runs at most once per
+          cooldown in each session.
+        </p>
+      </div>
+
+      {/* Editor */}
+      <section
+        className="p-4 rounded-lg space-y-3"
+        style={{ backgroundColor: 'rgb(var(--bg-tertiary))' }}
+        data-testid="output-trigger-editor"
+      >
+        {!draft.id && (
+          <div className="flex items-center gap-2 text-xs" style={{ color: 'rgb(var(--text-muted))' }}>
+            Start from
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => setDraft({ ...EMPTY_DRAFT, ...preset.draft })}
+                className="px-2 py-1 rounded transition-colors hover:bg-theme-hover"
+                style={{ color: 'rgb(var(--text-secondary))' }}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Name"
+            className="w-40 px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Name"
+          />
+          <select
+            value={draft.scope}
+            onChange={(e) => updateDraft({ scope: e.target.value as OutputTriggerScope, target: '' })}
+            className="px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Applies to"
+          >
+            {(Object.keys(SCOPE_LABELS) as OutputTriggerScope[]).map((scope) => (
+              <option key={scope} value={scope}>
+                {SCOPE_LABELS[scope]}
+              </option>
+            ))}
+          </select>
+          {draft.scope === 'session' && (
+            <select
+              value={draft.target}
+              onChange={(e) => updateDraft({ target: e.target.value })}
+              className="px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+              aria-label="Session"
+            >
+              <option value="">{sessions.length ? 'Choose a session' : 'No open sessions'}</option>
+              {sessions.map((session) => (
+                <option key={session.sessionId} value={session.sessionId}>
+                  {session.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={draft.pattern}
+            onChange={(e) => updateDraft({ pattern: e.target.value })}
+            placeholder="Pattern, e.g. \bFAIL\b"
+            className="flex-1 px-2 py-1.5 text-sm font-mono rounded-lg border"
+            style={{
+              ...inputStyle,
+              borderColor:
+                draft.pattern && !isValidPattern(draft.pattern)
+                  ? 'rgb(var(--accent-error))'
+                  : inputStyle.borderColor,
+            }}
+            aria-label="Pattern"
+          />
+          <label
+            className="flex items-center gap-2 text-xs"
+            style={{ color: 'rgb(var(--text-secondary))' }}
+          >
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={(e) => updateDraft({ caseSensitive: e.target.checked })}
+            />
+            Match case
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={draft.actionType}
+            onChange={(e) => updateDraft({ actionType: e.target.value as OutputTriggerActionType })}
+            className="px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Action"
+          >
+            {(Object.keys(ACTION_LABELS) as OutputTriggerActionType[]).map((type) => (
+              <option key={type} value={type}>
+                {ACTION_LABELS[type]}
+              </option>
+            ))}
+          </select>
+
+          {draft.actionType === 'send_keys' && (
+            <>
+              <input
+                type="text"
+                value={draft.keys}
+                onChange={(e) => updateDraft({ keys: e.target.value })}
+                placeholder="Keys"
+                className="flex-1 px-2 py-1.5 text-sm font-mono rounded-lg border"
+                style={inputStyle}
+                aria-label="Keys"
+              />
+              <label
+                className="flex items-center gap-2 text-xs"
+                style={{ color: 'rgb(var(--text-secondary))' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.enter}
+                  onChange={(e) => updateDraft({ enter: e.target.checked })}
+                />
+                Enter
+              </label>
+            </>
+          )}
+          {draft.actionType === 'notify' && (
+            <>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+                placeholder="Title (defaults to the name)"
+                className="flex-1 px-2 py-1.5 text-sm rounded-lg border"
+                style={inputStyle}
+                aria-label="Title"
+              />
+              <input
+                type="text"
+                value={draft.body}
+                onChange={(e) => updateDraft({ body: e.target.value })}
+                placeholder="Body"
+                className="flex-1 px-2 py-1.5 text-sm rounded-lg border"
+                style={inputStyle}
+                aria-label="Body"
+              />
+            </>
+          )}
+          {draft.actionType === 'open_browser' && (
+            <input
+              type="text"
+              value={draft.url}
+              onChange={(e) => updateDraft({ url: e.target.value })}
+              placeholder="URL, e.g. $0"
+              className="flex-1 px-2 py-1.5 text-sm font-mono rounded-lg border"
+              style={inputStyle}
+              aria-label="URL"
+            />
+          )}
+          {draft.actionType === 'webhook' && (
+            <input
+              type="text"
+              value={draft.webhookUrl}
+              onChange={(e) => updateDraft({ webhookUrl: e.target.value })}
+              placeholder="http://localhost:8080/hook"
+              className="flex-1 px-2 py-1.5 text-sm font-mono rounded-lg border"
+              style={inputStyle}
+              aria-label="Webhook URL"
+            />
+          )}
+          {draft.actionType === 'run_command' && (
+            <>
+              <select
+                value={draft.commandSessionId}
+                onChange={(e) => updateDraft({ commandSessionId: e.target.value })}
+                className="px-2 py-1.5 text-sm rounded-lg border"
+                style={inputStyle}
+                aria-label="Command session"
+              >
+                <option value="">{sessions.length ? 'Choose a session' : 'No open sessions'}</option>
+                {sessions.map((session) => (
+                  <option key={session.sessionId} value={session.sessionId}>
+                    {session.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={draft.command}
+                onChange={(e) => updateDraft({ command: e.target.value })}
+                placeholder="Command"
+                className="flex-1 px-2 py-1.5 text-sm font-mono rounded-lg border"
+                style={inputStyle}
+                aria-label="Command"
+              />
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 text-xs" style={{ color: 'rgb(var(--text-secondary))' }}>
+          <label className="flex items-center gap-2">
+            At most once every
+            <input
+              type="number"
+              min={MIN_TRIGGER_COOLDOWN_MS / 1000}
+              max={86400}
+              value={draft.cooldownSeconds}
+              onChange={(e) => updateDraft({ cooldownSeconds: Number(e.target.value) })}
+              className="w-20 px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+            />
+            s
+          </label>
+          <div className="flex-1" />
+          {(draft.id || draft.name || draft.pattern) && (
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-3 py-1.5 text-sm rounded-lg transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40"
+            style={{ backgroundColor: 'rgb(var(--accent-primary))', color: 'white' }}
+            data-testid="output-trigger-save"
+          >
+            {draft.id ? 'Update' : 'Add'}
+          </button>
+        </div>
+      </section>
+
+      {error && (
+        <div className="text-sm" style={{ color: 'rgb(var(--accent-error))' }}>
+          {error}
+        </div>
+      )}
+
+      {/* Trigger List */}
+      <section className="space-y-2">
+        {loading && (
+          <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+            Loading triggers...
+          </div>
+        )}
+        {!loading && triggers.length === 0 && (
+          <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+            No triggers yet.
+          </div>
+        )}
+        {triggers.map((trigger) => (
+          <div
+            key={trigger.id}
+            className="flex items-center gap-3 py-2 px-3 rounded-lg"
+            style={{
+              backgroundColor: draft.id === trigger.id ? 'rgb(var(--bg-tertiary))' : 'transparent',
+              opacity: trigger.enabled ? 1 : 0.5,
+            }}
+            data-testid={`output-trigger-${trigger.id}`}
+          >
+            <input
+              type="checkbox"
+              checked={trigger.enabled}
+              onChange={() => handleToggle(trigger)}
+              aria-label="Enable trigger"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm truncate" style={{ color: 'rgb(var(--text-primary))' }}>
+                {trigger.name}
+                <span className="ml-2 text-xs font-mono" style={{ color: 'rgb(var(--text-muted))' }}>
+                  /{trigger.pattern}/{trigger.caseSensitive ? '' : 'i'}
+                </span>
+              </div>
+              <div className="text-xs truncate" style={{ color: 'rgb(var(--text-muted))' }}>
+                {trigger.scope === 'project'
+                  ? SCOPE_LABELS.project
+                  : `Session: ${sessionLabels.get(trigger.target ?? '') ?? trigger.target}`}
+                {' · '}
+                {describeAction(trigger.action)}
+                {` · every ${trigger.cooldownMs / 1000}s`}
+              </div>
+            </div>
+            <button
+              onClick={() => setDraft(triggerToDraft(trigger))}
+              className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => handleRemove(trigger)}
+              className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--accent-error))' }}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </section>
+
+      {/* Execution Log */}
+      <section className="space-y-2" data-testid="output-trigger-log">
+        <h4 className="text-xs font-medium" style={{ color: 'rgb(var(--text-secondary))' }}>
+          Recent runs
+        </h4>
+        {executions.length === 0 ? (
+          <div className="text-xs" style={{ color: 'rgb(var(--text-muted))' }}>
+            No triggers have run yet.
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {executions.map((execution) => (
+              <div
+                key={execution.id}
+                className="flex items-center gap-2 text-xs"
+                title={execution.error ?? execution.match}
+              >
+                <span
+                  className="w-4 shrink-0 text-center"
+                  style={{
+                    color: execution.success ? 'rgb(var(--accent-success))' : 'rgb(var(--accent-error))',
+                  }}
+                >
+                  {execution.success ? '✓' : '✕'}
+                </span>
+                <span className="shrink-0" style={{ color: 'rgb(var(--text-muted))' }}>
+                  {new Date(execution.executedAt).toLocaleTimeString()}
+                </span>
+                <span className="shrink-0" style={{ color: 'rgb(var(--text-primary))' }}>
+                  {triggerNames.get(execution.triggerId) ?? execution.triggerId}
+                </span>
+                <span className="shrink-0" style={{ color: 'rgb(var(--text-muted))' }}>
+                  in {sessionLabels.get(execution.sessionId) ?? execution.sessionId}
+                </span>
+                <span
+                  className="flex-1 min-w-0 truncate font-mono"
+                  style={{
+                    color: execution.success ? 'rgb(var(--text-secondary))' : 'rgb(var(--accent-error))',
+                  }}
+                >
+                  {execution.error ?? execution.match}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
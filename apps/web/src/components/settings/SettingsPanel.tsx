@@ -2,7 +2,7 @@
  * Settings Panel Component
  *
  * Modal dialog for managing application settings.
- * Contains tabs for Appearance, Terminal, Keyboard, and Editor settings.
+ * Contains tabs for Appearance, Terminal, Keyboard, Status Patterns, Notifications, Triggers and Editor settings.
  */
 
 'use client';
@@ -12,6 +12,9 @@ import { useSettingsStore } from '@/stores/settings-store';
 import { AppearanceSettings } from './AppearanceSettings';
 import { TerminalSettings } from './TerminalSettings';
 import { KeyboardSettings } from './KeyboardSettings';
+import { StatusPatternSettings } from './StatusPatternSettings';
+import { NotificationRuleSettings } from './NotificationRuleSettings';
+import { OutputTriggerSettings } from './OutputTriggerSettings';
 import { EditorSettings } from './EditorSettings';
 import { NodeColorSettings } from './NodeColorSettings';
 
@@ -20,7 +23,15 @@ interface SettingsPanelProps {
   onClose: () => void;
 }
 
-type SettingsTab = 'appearance' | 'terminal' | 'nodeColors' | 'keyboard' | 'editor';
+type SettingsTab =
+  | 'appearance'
+  | 'terminal'
+  | 'nodeColors'
+  | 'keyboard'
+  | 'statusPatterns'
+  | 'notifications'
+  | 'triggers'
+  | 'editor';
 
 const TABS: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
   {
@@ -59,6 +70,33 @@ const TABS: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
       </svg>
     ),
   },
+  {
+    id: 'statusPatterns',
+    label: 'Status Patterns',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+      </svg>
+    ),
+  },
+  {
+    id: 'notifications',
+    label: 'Notifications',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+      </svg>
+    ),
+  },
+  {
+    id: 'triggers',
+    label: 'Triggers',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+      </svg>
+    ),
+  },
   {
     id: 'editor',
     label: 'Editor',
@@ -244,6 +282,21 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                 <KeyboardSettings />
               </div>
             )}
+            {activeTab === 'statusPatterns' && (
+              <div data-testid="status-pattern-settings">
+                <StatusPatternSettings />
+              </div>
+            )}
+            {activeTab === 'notifications' && (
+              <div data-testid="notification-settings">
+                <NotificationRuleSettings />
+              </div>
+            )}
+            {activeTab === 'triggers' && (
+              <div data-testid="output-trigger-settings">
+                <OutputTriggerSettings />
+              </div>
+            )}
             {activeTab === 'editor' && (
               <div data-testid="editor-settings">
                 <EditorSettings />
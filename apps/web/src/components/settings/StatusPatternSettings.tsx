@@ -0,0 +1,431 @@
+/**
+ * Status Pattern Settings Component
+ *
+ * Editor for the server's status detection patterns. Patterns can be tested
+ * live against a session's recent output before they are saved.
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  NodeType,
+  ShellType,
+  TerminalActivityStatus,
+  type ListedStatusPattern,
+  type StatusPattern,
+} from '@masterdashboard/shared';
+import { useStatusPatterns } from '@/hooks/useStatusPatterns';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { StatusBadge } from '@/components/nodes/TerminalNode/StatusIndicator';
+
+interface PatternDraft {
+  /** Set when editing an existing pattern */
+  id: string | null;
+  name: string;
+  pattern: string;
+  shell: ShellType | 'all';
+  status: TerminalActivityStatus;
+  priority: number;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: PatternDraft = {
+  id: null,
+  name: '',
+  pattern: '',
+  shell: 'all',
+  status: TerminalActivityStatus.WAITING,
+  priority: 100,
+  enabled: true,
+};
+
+const SHELL_OPTIONS: (ShellType | 'all')[] = ['all', ...Object.values(ShellType)];
+// Stalled is only set by the detector's stall timer, never by a pattern
+const STATUS_OPTIONS = Object.values(TerminalActivityStatus).filter(
+  (status) => status !== TerminalActivityStatus.STALLED
+);
+
+/**
+ * Build an ID for a new pattern from its name
+ */
+function createPatternId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 40);
+  return `custom-${slug || Date.now().toString(36)}`;
+}
+
+function draftToPattern(draft: PatternDraft): StatusPattern {
+  return {
+    id: draft.id ?? createPatternId(draft.name),
+    name: draft.name.trim(),
+    shell: draft.shell,
+    pattern: draft.pattern,
+    status: draft.status,
+    priority: draft.priority,
+    enabled: draft.enabled,
+  };
+}
+
+const inputStyle = {
+  backgroundColor: 'rgb(var(--bg-input))',
+  borderColor: 'rgb(var(--border-primary))',
+  color: 'rgb(var(--text-primary))',
+};
+
+export function StatusPatternSettings() {
+  const {
+    patterns,
+    loading,
+    error,
+    savePattern,
+    removePattern,
+    testPattern,
+    testResult,
+    testError,
+  } = useStatusPatterns();
+  const { nodes } = useCanvasStore();
+
+  const [draft, setDraft] = useState<PatternDraft>(EMPTY_DRAFT);
+  const [testSessionId, setTestSessionId] = useState('');
+  const [filter, setFilter] = useState('');
+
+  // Sessions on the canvas that can be tested against
+  const sessions = useMemo(
+    () =>
+      nodes
+        .filter((n) => n.type === NodeType.TERMINAL || n.type === NodeType.SSH)
+        .map((n) => n.data as { sessionId?: string; title?: string })
+        .filter((data): data is { sessionId: string; title?: string } => !!data.sessionId)
+        .map((data) => ({ sessionId: data.sessionId, title: data.title ?? data.sessionId })),
+    [nodes]
+  );
+
+  // Default to the first session
+  useEffect(() => {
+    if (!testSessionId && sessions[0]) {
+      setTestSessionId(sessions[0].sessionId);
+    }
+  }, [sessions, testSessionId]);
+
+  // Re-test whenever the regex or session changes
+  useEffect(() => {
+    testPattern(testSessionId, draft.pattern);
+  }, [testSessionId, draft.pattern, testPattern]);
+
+  const visiblePatterns = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return patterns;
+    return patterns.filter(
+      (p) =>
+        p.name.toLowerCase().includes(query) ||
+        p.pattern.toLowerCase().includes(query) ||
+        p.shell.includes(query)
+    );
+  }, [patterns, filter]);
+
+  const updateDraft = useCallback((updates: Partial<PatternDraft>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  }, []);
+
+  const handleEdit = useCallback((pattern: ListedStatusPattern) => {
+    setDraft({
+      id: pattern.id,
+      name: pattern.name,
+      pattern: pattern.pattern,
+      shell: pattern.shell,
+      status: pattern.status,
+      priority: pattern.priority,
+      enabled: pattern.enabled !== false,
+    });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    savePattern(draftToPattern(draft));
+    setDraft(EMPTY_DRAFT);
+  }, [draft, savePattern]);
+
+  const handleToggle = useCallback(
+    (pattern: ListedStatusPattern) => {
+      savePattern({
+        id: pattern.id,
+        name: pattern.name,
+        shell: pattern.shell,
+        pattern: pattern.pattern,
+        status: pattern.status,
+        priority: pattern.priority,
+        enabled: pattern.enabled === false,
+      });
+    },
+    [savePattern]
+  );
+
+  const handleRemove = useCallback(
+    (pattern: ListedStatusPattern) => {
+      const message =
+        pattern.source === 'override'
+          ? `Restore the built-in "${pattern.name}" pattern?`
+          : `Delete the "${pattern.name}" pattern?`;
+      if (confirm(message)) {
+        removePattern(pattern.id);
+      }
+    },
+    [removePattern]
+  );
+
+  const canSave = draft.name.trim().length > 0 && draft.pattern.length > 0 && !testError;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-sm font-medium" style={{ color: 'rgb(var(--text-primary))' }}>
+          Status Patterns
+        </h3>
+        <p className="text-xs mt-1" style={{ color: 'rgb(var(--text-muted))' }}>
+          Regular expressions matched against the last lines of terminal output to set the
+          status glow. Higher priority patterns are checked first.
+        </p>
+      </div>
+
+      {/* Editor */}
+      <section
+        className="p-4 rounded-lg space-y-3"
+        style={{ backgroundColor: 'rgb(var(--bg-tertiary))' }}
+        data-testid="status-pattern-editor"
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Name"
+            className="px-3 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            data-testid="status-pattern-name"
+          />
+          <input
+            type="text"
+            value={draft.pattern}
+            onChange={(e) => updateDraft({ pattern: e.target.value })}
+            placeholder="Regular expression"
+            className="px-3 py-1.5 text-sm font-mono rounded-lg border"
+            style={{
+              ...inputStyle,
+              borderColor: testError ? 'rgb(var(--accent-error))' : inputStyle.borderColor,
+            }}
+            spellCheck={false}
+            data-testid="status-pattern-regex"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={draft.shell}
+            onChange={(e) => updateDraft({ shell: e.target.value as ShellType | 'all' })}
+            className="px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Shell"
+          >
+            {SHELL_OPTIONS.map((shell) => (
+              <option key={shell} value={shell}>
+                {shell === 'all' ? 'All shells' : shell}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draft.status}
+            onChange={(e) => updateDraft({ status: e.target.value as TerminalActivityStatus })}
+            className="px-2 py-1.5 text-sm rounded-lg border"
+            style={inputStyle}
+            aria-label="Status"
+          >
+            {STATUS_OPTIONS.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-xs" style={{ color: 'rgb(var(--text-secondary))' }}>
+            Priority
+            <input
+              type="number"
+              min={0}
+              max={1000}
+              value={draft.priority}
+              onChange={(e) => updateDraft({ priority: Number(e.target.value) })}
+              className="w-20 px-2 py-1.5 text-sm rounded-lg border"
+              style={inputStyle}
+            />
+          </label>
+          <div className="flex-1" />
+          {draft.id && (
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-3 py-1.5 text-sm rounded-lg transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40"
+            style={{ backgroundColor: 'rgb(var(--accent-primary))', color: 'white' }}
+            data-testid="status-pattern-save"
+          >
+            {draft.id ? 'Update' : 'Add'}
+          </button>
+        </div>
+
+        {/* Live test */}
+        <div className="pt-2 border-t space-y-2" style={{ borderColor: 'rgb(var(--border-primary))' }}>
+          <div className="flex items-center gap-2 text-xs" style={{ color: 'rgb(var(--text-secondary))' }}>
+            Test against
+            <select
+              value={testSessionId}
+              onChange={(e) => setTestSessionId(e.target.value)}
+              className="px-2 py-1 text-xs rounded border"
+              style={inputStyle}
+              aria-label="Test session"
+              data-testid="status-pattern-test-session"
+            >
+              {sessions.length === 0 && <option value="">No open sessions</option>}
+              {sessions.map((session) => (
+                <option key={session.sessionId} value={session.sessionId}>
+                  {session.title}
+                </option>
+              ))}
+            </select>
+            {testResult && (
+              <span
+                style={{
+                  color: testResult.matchesLatest
+                    ? 'rgb(var(--accent-success))'
+                    : 'rgb(var(--text-muted))',
+                }}
+                data-testid="status-pattern-matches-latest"
+              >
+                {testResult.matchesLatest
+                  ? 'Matches current output'
+                  : 'Does not match current output'}
+              </span>
+            )}
+          </div>
+          {testError && (
+            <div className="text-xs" style={{ color: 'rgb(var(--accent-error))' }}>
+              {testError}
+            </div>
+          )}
+          {testResult && (
+            <div
+              className="max-h-32 overflow-y-auto rounded p-2 font-mono text-xs space-y-0.5"
+              style={{ backgroundColor: 'rgb(var(--bg-input))', color: 'rgb(var(--text-secondary))' }}
+              data-testid="status-pattern-test-results"
+            >
+              {testResult.results.length === 0 && (
+                <div style={{ color: 'rgb(var(--text-muted))' }}>
+                  No matches in {testResult.totalLines} lines
+                </div>
+              )}
+              {testResult.results.map((result) => (
+                <div key={`${result.lineNumber}:${result.matchStart}`} className="truncate">
+                  <span style={{ color: 'rgb(var(--text-muted))' }}>{result.lineNumber + 1}: </span>
+                  {result.lineContent.slice(0, result.matchStart)}
+                  <mark className="bg-yellow-500/30 text-inherit">
+                    {result.lineContent.slice(result.matchStart, result.matchEnd)}
+                  </mark>
+                  {result.lineContent.slice(result.matchEnd)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {error && (
+        <div className="text-sm" style={{ color: 'rgb(var(--accent-error))' }}>
+          {error}
+        </div>
+      )}
+
+      {/* Pattern List */}
+      <section className="space-y-2">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter patterns..."
+          className="w-full px-3 py-1.5 text-sm rounded-lg border"
+          style={inputStyle}
+        />
+        {loading && (
+          <div className="text-sm" style={{ color: 'rgb(var(--text-muted))' }}>
+            Loading patterns...
+          </div>
+        )}
+        {visiblePatterns.map((pattern) => (
+          <div
+            key={pattern.id}
+            className="flex items-center gap-3 py-2 px-3 rounded-lg"
+            style={{
+              backgroundColor:
+                draft.id === pattern.id ? 'rgb(var(--bg-tertiary))' : 'transparent',
+              opacity: pattern.enabled === false ? 0.5 : 1,
+            }}
+            data-testid={`status-pattern-${pattern.id}`}
+          >
+            <input
+              type="checkbox"
+              checked={pattern.enabled !== false}
+              onChange={() => handleToggle(pattern)}
+              aria-label={`Enable ${pattern.name}`}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-sm" style={{ color: 'rgb(var(--text-primary))' }}>
+                <span className="truncate">{pattern.name}</span>
+                {pattern.source !== 'builtin' && (
+                  <span
+                    className="px-1.5 text-[10px] rounded"
+                    style={{ backgroundColor: 'rgb(var(--bg-tertiary))', color: 'rgb(var(--text-muted))' }}
+                  >
+                    {pattern.source}
+                  </span>
+                )}
+              </div>
+              <div className="text-xs font-mono truncate" style={{ color: 'rgb(var(--text-muted))' }}>
+                {pattern.pattern}
+              </div>
+            </div>
+            <span className="text-xs" style={{ color: 'rgb(var(--text-muted))' }}>
+              {pattern.shell === 'all' ? 'all' : pattern.shell}
+            </span>
+            <StatusBadge status={pattern.status} />
+            <span className="w-10 text-right text-xs font-mono" style={{ color: 'rgb(var(--text-muted))' }}>
+              {pattern.priority}
+            </span>
+            <button
+              onClick={() => handleEdit(pattern)}
+              className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+              style={{ color: 'rgb(var(--text-secondary))' }}
+            >
+              Edit
+            </button>
+            {pattern.source !== 'builtin' && (
+              <button
+                onClick={() => handleRemove(pattern)}
+                className="px-2 py-1 text-xs rounded transition-colors hover:bg-theme-hover"
+                style={{ color: 'rgb(var(--accent-error))' }}
+              >
+                {pattern.source === 'override' ? 'Reset' : 'Delete'}
+              </button>
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
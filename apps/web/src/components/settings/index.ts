@@ -8,5 +8,8 @@ export { SettingsPanel } from './SettingsPanel';
 export { AppearanceSettings } from './AppearanceSettings';
 export { TerminalSettings } from './TerminalSettings';
 export { KeyboardSettings } from './KeyboardSettings';
+export { StatusPatternSettings } from './StatusPatternSettings';
+export { NotificationRuleSettings } from './NotificationRuleSettings';
+export { OutputTriggerSettings } from './OutputTriggerSettings';
 export { EditorSettings } from './EditorSettings';
 export { NodeColorSettings } from './NodeColorSettings';
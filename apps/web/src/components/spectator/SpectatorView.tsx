@@ -0,0 +1,142 @@
+/**
+ * Spectator View
+ *
+ * Full-page, read-only view of a shared terminal session. Authenticates with
+ * the share token from the URL, replays the session buffer, then follows live
+ * output until the link expires, is revoked, or the session ends.
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { io, type Socket } from 'socket.io-client';
+import {
+  SPECTATOR_NAMESPACE,
+  WS_EVENTS,
+  type SpectatorEndedPayload,
+  type SpectatorSessionInfo,
+  type SpectatorSnapshotPayload,
+  type TerminalOutputPayload,
+} from '@masterdashboard/shared';
+import { Terminal, type TerminalHandle } from '@/components/nodes/TerminalNode';
+
+interface SpectatorViewProps {
+  /** Share token from the spectator URL */
+  token: string;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:4050';
+
+const ENDED_MESSAGES: Record<SpectatorEndedPayload['reason'], string> = {
+  expired: 'This share link has expired.',
+  revoked: 'This share link was revoked.',
+  terminated: 'The terminal session has ended.',
+};
+
+export function SpectatorView({ token }: SpectatorViewProps) {
+  const terminalRef = useRef<TerminalHandle>(null);
+  const [info, setInfo] = useState<SpectatorSessionInfo | null>(null);
+  const [terminalReady, setTerminalReady] = useState(false);
+  const [live, setLive] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Look up the shared session before opening the stream
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadInfo = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/spectate/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (data.success) {
+          setInfo(data.data);
+        } else {
+          setMessage(data.error ?? 'This share link is not valid.');
+        }
+      } catch {
+        if (!cancelled) setMessage('Failed to connect to server');
+      }
+    };
+
+    loadInfo();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Stream output once both the session and xterm are ready
+  useEffect(() => {
+    if (!info || !terminalReady) return;
+
+    const socket: Socket = io(`${WS_URL}${SPECTATOR_NAMESPACE}`, {
+      transports: ['websocket', 'polling'],
+      auth: { shareToken: token },
+      reconnection: false,
+    });
+
+    socket.on('connect', () => setLive(true));
+
+    socket.on('connect_error', (error: Error) => {
+      setLive(false);
+      setMessage(error.message || 'Could not connect to the shared session.');
+    });
+
+    socket.on(WS_EVENTS.SPECTATOR_SNAPSHOT, (snapshot: SpectatorSnapshotPayload) => {
+      terminalRef.current?.reset();
+      terminalRef.current?.write(snapshot.output);
+    });
+
+    socket.on(WS_EVENTS.TERMINAL_OUTPUT, (payload: TerminalOutputPayload) => {
+      if (payload.sessionId === info.sessionId) {
+        terminalRef.current?.write(payload.data);
+      }
+    });
+
+    socket.on(WS_EVENTS.SPECTATOR_ENDED, (payload: SpectatorEndedPayload) => {
+      setMessage(ENDED_MESSAGES[payload.reason]);
+    });
+
+    socket.on('disconnect', () => setLive(false));
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [info, terminalReady, token]);
+
+  const handleReady = useCallback(() => setTerminalReady(true), []);
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-950">
+      <header className="flex items-center justify-between gap-3 px-4 py-2 border-b border-slate-800 text-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <span
+            className={`w-2 h-2 rounded-full flex-shrink-0 ${live ? 'bg-green-500' : 'bg-slate-500'}`}
+          />
+          <span className="truncate text-slate-200">{info?.title ?? 'Shared terminal'}</span>
+          <span className="px-1.5 py-0.5 rounded bg-slate-800 text-xs text-slate-400">
+            Read-only
+          </span>
+        </div>
+        {info && (
+          <span className="flex-shrink-0 text-xs text-slate-500">
+            Link expires {new Date(info.expiresAt).toLocaleString()}
+          </span>
+        )}
+      </header>
+
+      {message && (
+        <div className="px-4 py-2 bg-slate-900 border-b border-slate-800 text-sm text-amber-400">
+          {message}
+        </div>
+      )}
+
+      <main className="flex-1 min-h-0 p-2">
+        <Terminal ref={terminalRef} onReady={handleReady} cursorBlink={false} disabled />
+      </main>
+    </div>
+  );
+}
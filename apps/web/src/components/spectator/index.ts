@@ -0,0 +1,5 @@
+/**
+ * Spectator Components Exports
+ */
+
+export { SpectatorView } from './SpectatorView';
@@ -0,0 +1,64 @@
+/**
+ * Sparkline Component
+ *
+ * Small inline line chart of recent values, oldest on the left.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { sparklinePoints } from '@/utils/resources';
+
+interface SparklineProps {
+  /** Values to plot, oldest first */
+  values: number[];
+  /** Width in pixels */
+  width?: number;
+  /** Height in pixels */
+  height?: number;
+  /** Value at the top of the chart, unless a value is higher */
+  max?: number;
+  /** Line color (CSS color) */
+  color?: string;
+  /** Accessible description */
+  label?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+export function Sparkline({
+  values,
+  width = 48,
+  height = 14,
+  max = 0,
+  color = 'currentColor',
+  label,
+  className = '',
+}: SparklineProps) {
+  const points = useMemo(
+    () => sparklinePoints(values, width, height - 1, max),
+    [values, width, height, max]
+  );
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 -0.5 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={label}
+    >
+      {points && (
+        <polyline
+          points={points}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.25}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      )}
+    </svg>
+  );
+}
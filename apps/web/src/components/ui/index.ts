@@ -7,3 +7,4 @@ export { Dialog } from './Dialog';
 export { Input } from './Input';
 export { Panel } from './Panel';
 export { Tooltip } from './Tooltip';
+export { Sparkline } from './Sparkline';
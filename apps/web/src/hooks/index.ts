@@ -13,3 +13,11 @@ export { useKeyboardShortcuts } from './useKeyboardShortcuts';
 export { useNotes } from './useNotes';
 export { useCommands, type Command } from './useCommands';
 export { useQuickOpen, type FileResult } from './useQuickOpen';
+export { useOutputSearch } from './useOutputSearch';
+export { useStatusPatterns } from './useStatusPatterns';
+export { useNotificationRules } from './useNotificationRules';
+export { useOutputTriggers } from './useOutputTriggers';
+export { useScheduledCommands } from './useScheduledCommands';
+export { useResourceMonitor } from './useResourceMonitor';
+export { useWorkspaceTemplates } from './useWorkspaceTemplates';
+export { useBroadcast } from './useBroadcast';
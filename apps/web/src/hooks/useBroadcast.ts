@@ -0,0 +1,57 @@
+/**
+ * Broadcast Hook
+ *
+ * Synchronized typing: writes input to every terminal and SSH node of the
+ * broadcast group with a single WebSocket event.
+ */
+
+import { useCallback } from 'react';
+import { useWebSocket, WS_EVENTS } from './useWebSocket';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useBroadcastStore, useBroadcastNodeIds } from '@/stores/broadcast-store';
+import { getBroadcastGroup, getBroadcastTargets } from '@/utils/broadcast';
+
+interface UseBroadcastReturn {
+  /** Nodes in the broadcast group; empty when not broadcasting */
+  nodeIds: string[];
+  /** Broadcast to the selected nodes, or the nodes linked to the selected node */
+  start: () => boolean;
+  /** Leave broadcast mode */
+  stop: () => void;
+  /** Write input to every member of the group */
+  send: (data: string) => void;
+}
+
+export function useBroadcast(): UseBroadcastReturn {
+  const { emit } = useWebSocket();
+  const nodeIds = useBroadcastNodeIds();
+
+  const start = useCallback(() => {
+    const { nodes, edges } = useCanvasStore.getState();
+    const group = getBroadcastGroup(nodes, edges);
+    if (group.length < 2) {
+      return false;
+    }
+
+    useBroadcastStore.getState().start(group);
+    return true;
+  }, []);
+
+  const stop = useCallback(() => {
+    useBroadcastStore.getState().stop();
+  }, []);
+
+  // Read the stores at send time so typing does not re-render on canvas changes
+  const send = useCallback(
+    (data: string) => {
+      const { nodes, projectId } = useCanvasStore.getState();
+      const targets = getBroadcastTargets(nodes, useBroadcastStore.getState().nodeIds);
+      if (!projectId || targets.length === 0) return;
+
+      emit(WS_EVENTS.TERMINAL_BROADCAST, { projectId, targets, data });
+    },
+    [emit]
+  );
+
+  return { nodeIds, start, stop, send };
+}
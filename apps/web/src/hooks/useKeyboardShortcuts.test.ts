@@ -9,6 +9,7 @@ import { renderHook, act } from '@testing-library/react';
 import { useKeyboardShortcuts } from './useKeyboardShortcuts';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useCommandStore } from '@/stores/command-store';
+import { useBroadcastStore } from '@/stores/broadcast-store';
 import { NodeType } from '@masterdashboard/shared';
 
 // Mock the stores
@@ -261,6 +262,35 @@ describe('useKeyboardShortcuts', () => {
     });
   });
 
+  describe('broadcast', () => {
+    it('should toggle broadcast to the selected terminals on Ctrl+Shift+B', () => {
+      vi.mocked(useCanvasStore).mockReturnValue({
+        nodes: [
+          { id: 'term-1', type: NodeType.TERMINAL, selected: true, data: { sessionId: 'a' } },
+          { id: 'ssh-1', type: NodeType.SSH, selected: true, data: { sessionId: 'b' } },
+          { id: 'note-1', type: NodeType.NOTES, selected: true, data: { sessionId: '' } },
+        ],
+        edges: [],
+        selectedNodeId: 'term-1',
+        setSelectedNode: mockSetSelectedNode,
+        addNode: mockAddNode,
+      } as unknown as ReturnType<typeof useCanvasStore>);
+
+      renderHook(() => useKeyboardShortcuts({ enabled: true }));
+
+      const press = () =>
+        window.dispatchEvent(
+          new KeyboardEvent('keydown', { key: 'B', ctrlKey: true, shiftKey: true, bubbles: true })
+        );
+
+      press();
+      expect(useBroadcastStore.getState().nodeIds).toEqual(['term-1', 'ssh-1']);
+
+      press();
+      expect(useBroadcastStore.getState().nodeIds).toEqual([]);
+    });
+  });
+
   describe('disabled state', () => {
     it('should not handle any shortcuts when disabled', () => {
       renderHook(() => useKeyboardShortcuts({ enabled: false }));
@@ -2,13 +2,15 @@
  * Keyboard Shortcuts Hook
  *
  * Global keyboard shortcuts for terminal navigation, canvas operations,
- * and command palette activation.
+ * broadcast input, and command palette activation.
  */
 
 import { useEffect, useCallback } from 'react';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useCommandStore } from '@/stores/command-store';
 import { useSettingsStore } from '@/stores/settings-store';
+import { useBroadcastStore } from '@/stores/broadcast-store';
+import { getBroadcastGroup } from '@/utils/broadcast';
 import { NodeType } from '@masterdashboard/shared';
 
 interface UseKeyboardShortcutsOptions {
@@ -22,7 +24,7 @@ interface UseKeyboardShortcutsOptions {
 
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {}) {
   const { onClearTerminal, onCreateNote, enabled = true } = options;
-  const { nodes, selectedNodeId, setSelectedNode, addNode } = useCanvasStore();
+  const { nodes, edges, selectedNodeId, setSelectedNode, addNode } = useCanvasStore();
   const { open: openCommandPalette, isOpen: isCommandPaletteOpen } = useCommandStore();
   const { openSettingsPanel, isSettingsPanelOpen } = useSettingsStore();
 
@@ -82,6 +84,20 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     setSelectedNode(null);
   }, [setSelectedNode]);
 
+  // Start broadcasting to the selected group, or leave broadcast mode
+  const toggleBroadcast = useCallback(() => {
+    const { nodeIds, start, stop } = useBroadcastStore.getState();
+    if (nodeIds.length > 0) {
+      stop();
+      return;
+    }
+
+    const group = getBroadcastGroup(nodes, edges);
+    if (group.length > 1) {
+      start(group);
+    }
+  }, [nodes, edges]);
+
   // Create a new note (N key when no input focused)
   const createNewNote = useCallback(() => {
     if (onCreateNote) {
@@ -135,6 +151,14 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
         return;
       }
 
+      // Cmd/Ctrl+Shift+F: Search output across all sessions
+      if ((event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        event.stopPropagation();
+        openCommandPalette('output');
+        return;
+      }
+
       // Cmd/Ctrl+K: Open Command Palette (or clear terminal if selected)
       if ((event.metaKey || event.ctrlKey) && event.key === 'k') {
         event.preventDefault();
@@ -149,6 +173,14 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
         return;
       }
 
+      // Cmd/Ctrl+Shift+B: Toggle broadcast input (works even when terminal focused)
+      if ((event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === 'b') {
+        event.preventDefault();
+        event.stopPropagation();
+        toggleBroadcast();
+        return;
+      }
+
       // Cmd/Ctrl + Shift + Arrow: Cycle through terminals (works even when terminal focused)
       // Using arrows instead of [ ] for international keyboard compatibility
       if ((event.metaKey || event.ctrlKey) && event.shiftKey && event.key === 'ArrowLeft') {
@@ -203,6 +235,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     selectNextTerminal,
     selectPrevTerminal,
     selectTerminalByNumber,
+    toggleBroadcast,
     selectedNodeId,
     nodes,
     onClearTerminal,
@@ -214,6 +247,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     selectPrevTerminal,
     selectTerminalByNumber,
     deselect,
+    toggleBroadcast,
     createNewNote,
   };
 }
@@ -11,6 +11,7 @@
 
 import { useCallback, useRef } from 'react';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { getAuthHeaders } from '@/stores/auth-store';
 import {
   type NotesNodeData,
   type NoteColor,
@@ -74,7 +75,7 @@ export function useNotes(projectId: string | null) {
       try {
         const response = await fetch(`${API_BASE}/api/notes`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
           body: JSON.stringify({
             projectId,
             ...data,
@@ -117,7 +118,7 @@ export function useNotes(projectId: string | null) {
         try {
           await fetch(`${API_BASE}/api/notes/${noteId}`, {
             method: 'PATCH',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             body: JSON.stringify(updates),
           });
         } catch (error) {
@@ -140,6 +141,7 @@ export function useNotes(projectId: string | null) {
     try {
       await fetch(`${API_BASE}/api/notes/${noteId}`, {
         method: 'DELETE',
+        headers: getAuthHeaders(),
       });
     } catch (error) {
       console.error('Failed to delete note:', error);
@@ -0,0 +1,120 @@
+/**
+ * Notification Rules Hook
+ *
+ * Loads and edits a project's notification rules via the REST API. Rules
+ * are evaluated on the server, so a change applies to every open tab.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { NotificationRule, NotificationRuleInput } from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface UseNotificationRulesReturn {
+  rules: NotificationRule[];
+  loading: boolean;
+  error: string | null;
+  /** Create or replace a rule */
+  saveRule: (rule: NotificationRuleInput) => Promise<void>;
+  removeRule: (ruleId: string) => Promise<void>;
+}
+
+export function useNotificationRules(projectId: string | null): UseNotificationRulesReturn {
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!projectId) {
+      setRules([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `${API_URL}/api/notification-rules?projectId=${encodeURIComponent(projectId)}`,
+        { headers: getAuthHeaders() }
+      );
+      const result: ApiResponse<NotificationRule[]> = await response.json();
+
+      if (result.success && result.data) {
+        setRules(result.data);
+        setError(null);
+      } else {
+        setError(result.error ?? 'Failed to load notification rules');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const saveRule = useCallback(
+    async (rule: NotificationRuleInput) => {
+      try {
+        const { id, ...body } = rule;
+        const response = await fetch(`${API_URL}/api/notification-rules/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify(body),
+        });
+        const result: ApiResponse<NotificationRule> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchRules();
+        } else {
+          setError(result.error ?? 'Failed to save notification rule');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    [fetchRules]
+  );
+
+  const removeRule = useCallback(
+    async (ruleId: string) => {
+      try {
+        const response = await fetch(`${API_URL}/api/notification-rules/${ruleId}`, {
+          method: 'DELETE',
+          headers: getAuthHeaders(),
+        });
+        const result: ApiResponse<never> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchRules();
+        } else {
+          setError(result.error ?? 'Failed to delete notification rule');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    [fetchRules]
+  );
+
+  return {
+    rules,
+    loading,
+    error,
+    saveRule,
+    removeRule,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Output Search Hook
+ *
+ * Searches the scrollback of every terminal and SSH session in a project
+ * for the command palette's output mode.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { SessionOutputMatches } from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface UseOutputSearchOptions {
+  /** Project to search */
+  projectId?: string;
+  /** Maximum matches per session */
+  maxResults?: number;
+  /** Lines of context around each match */
+  contextLines?: number;
+  /** Debounce delay in ms */
+  debounceMs?: number;
+}
+
+interface UseOutputSearchReturn {
+  /** Matches grouped by session */
+  sessions: SessionOutputMatches[];
+  loading: boolean;
+  error: string | null;
+  search: (query: string) => void;
+  clearResults: () => void;
+}
+
+export function useOutputSearch({
+  projectId,
+  maxResults = 20,
+  contextLines = 1,
+  debounceMs = 250,
+}: UseOutputSearchOptions): UseOutputSearchReturn {
+  const [sessions, setSessions] = useState<SessionOutputMatches[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancelPending = useCallback(() => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => cancelPending, [cancelPending]);
+
+  const search = useCallback(
+    (query: string) => {
+      cancelPending();
+
+      if (!query.trim() || !projectId) {
+        setSessions([]);
+        setLoading(false);
+        setError(null);
+        return;
+      }
+
+      setLoading(true);
+
+      debounceTimerRef.current = setTimeout(async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const params = new URLSearchParams({
+          projectId,
+          query,
+          maxResults: String(maxResults),
+          contextLines: String(contextLines),
+        });
+
+        try {
+          const response = await fetch(`${API_URL}/api/sessions/search?${params}`, {
+            headers: getAuthHeaders(),
+            signal: controller.signal,
+          });
+          const data = await response.json();
+
+          if (data.success) {
+            setSessions(data.data);
+            setError(null);
+          } else {
+            setSessions([]);
+            setError(data.error ?? 'Search failed');
+          }
+          setLoading(false);
+        } catch (err) {
+          if ((err as Error).name === 'AbortError') return;
+          setSessions([]);
+          setError('Failed to connect to server');
+          setLoading(false);
+        }
+      }, debounceMs);
+    },
+    [projectId, maxResults, contextLines, debounceMs, cancelPending]
+  );
+
+  const clearResults = useCallback(() => {
+    cancelPending();
+    setSessions([]);
+    setLoading(false);
+    setError(null);
+  }, [cancelPending]);
+
+  return {
+    sessions,
+    loading,
+    error,
+    search,
+    clearResults,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Output Triggers Hook
+ *
+ * Loads and edits a project's output triggers via the REST API, and keeps
+ * the recent execution log current over the WebSocket. Triggers run on the
+ * server, so a change applies to every open tab.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  WS_EVENTS,
+  type OutputTrigger,
+  type OutputTriggerExecution,
+  type OutputTriggerInput,
+} from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useWebSocket } from './useWebSocket';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+/** Runs kept in the execution log */
+const EXECUTION_LIMIT = 50;
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface UseOutputTriggersReturn {
+  triggers: OutputTrigger[];
+  /** Recent runs, newest first */
+  executions: OutputTriggerExecution[];
+  loading: boolean;
+  error: string | null;
+  /** Create or replace a trigger */
+  saveTrigger: (trigger: OutputTriggerInput) => Promise<void>;
+  removeTrigger: (triggerId: string) => Promise<void>;
+}
+
+export function useOutputTriggers(projectId: string | null): UseOutputTriggersReturn {
+  const { on } = useWebSocket();
+  const [triggers, setTriggers] = useState<OutputTrigger[]>([]);
+  const [executions, setExecutions] = useState<OutputTriggerExecution[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTriggers = useCallback(async () => {
+    if (!projectId) {
+      setTriggers([]);
+      setExecutions([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const query = encodeURIComponent(projectId);
+      const [triggersResponse, executionsResponse] = await Promise.all([
+        fetch(`${API_URL}/api/output-triggers?projectId=${query}`, { headers: getAuthHeaders() }),
+        fetch(`${API_URL}/api/output-triggers/executions?projectId=${query}&limit=${EXECUTION_LIMIT}`, {
+          headers: getAuthHeaders(),
+        }),
+      ]);
+      const triggersResult: ApiResponse<OutputTrigger[]> = await triggersResponse.json();
+      const executionsResult: ApiResponse<OutputTriggerExecution[]> =
+        await executionsResponse.json();
+
+      if (triggersResult.success && triggersResult.data) {
+        setTriggers(triggersResult.data);
+        setExecutions(executionsResult.data ?? []);
+        setError(null);
+      } else {
+        setError(triggersResult.error ?? 'Failed to load output triggers');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchTriggers();
+  }, [fetchTriggers]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    return on<OutputTriggerExecution>(WS_EVENTS.TERMINAL_TRIGGER_EXECUTED, (execution) => {
+      if (execution.projectId === projectId) {
+        setExecutions((current) => [execution, ...current].slice(0, EXECUTION_LIMIT));
+      }
+    });
+  }, [on, projectId]);
+
+  const saveTrigger = useCallback(
+    async (trigger: OutputTriggerInput) => {
+      try {
+        const { id, ...body } = trigger;
+        const response = await fetch(`${API_URL}/api/output-triggers/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify(body),
+        });
+        const result: ApiResponse<OutputTrigger> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchTriggers();
+        } else {
+          setError(result.error ?? 'Failed to save output trigger');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    [fetchTriggers]
+  );
+
+  const removeTrigger = useCallback(
+    async (triggerId: string) => {
+      try {
+        const response = await fetch(`${API_URL}/api/output-triggers/${triggerId}`, {
+          method: 'DELETE',
+          headers: getAuthHeaders(),
+        });
+        const result: ApiResponse<never> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchTriggers();
+        } else {
+          setError(result.error ?? 'Failed to delete output trigger');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    [fetchTriggers]
+  );
+
+  return {
+    triggers,
+    executions,
+    loading,
+    error,
+    saveTrigger,
+    removeTrigger,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Resource Monitor Hook
+ *
+ * Keeps the resource store current for a project: loads the samples the
+ * server has kept, then follows the samples it streams over the WebSocket.
+ * Mount once per project page; node headers and the resources view read
+ * the store.
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import {
+  WS_EVENTS,
+  type SessionResourceSample,
+  type SessionResources,
+} from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useResourceStore } from '@/stores/resource-store';
+import { useWebSocket } from './useWebSocket';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export function useResourceMonitor(projectId: string | null): void {
+  const { on } = useWebSocket();
+  const load = useResourceStore((state) => state.load);
+  const addSamples = useResourceStore((state) => state.addSamples);
+  const clear = useResourceStore((state) => state.clear);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    fetch(`${API_URL}/api/resources?projectId=${encodeURIComponent(projectId)}`, {
+      headers: getAuthHeaders(),
+    })
+      .then((response) => response.json() as Promise<ApiResponse<SessionResources[]>>)
+      .then((result) => {
+        if (!cancelled && result.success && result.data) {
+          load(result.data);
+        }
+      })
+      .catch(() => {
+        // Samples arrive over the WebSocket anyway
+      });
+
+    const unsubscribe = on<SessionResourceSample[]>(WS_EVENTS.SESSION_RESOURCES, (samples) => {
+      addSamples(samples.filter((sample) => sample.projectId === projectId));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clear();
+    };
+  }, [on, projectId, load, addSamples, clear]);
+}
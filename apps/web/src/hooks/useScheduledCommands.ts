@@ -0,0 +1,168 @@
+/**
+ * Scheduled Commands Hook
+ *
+ * Loads and edits a project's scheduled commands via the REST API, and keeps
+ * their last and next runs current over the WebSocket. Schedules run on the
+ * server, so they fire whether or not a browser is open.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  WS_EVENTS,
+  type ScheduledCommand,
+  type ScheduledCommandInput,
+} from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { upsertSchedule } from '@/utils/schedules';
+import { useWebSocket } from './useWebSocket';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface UseScheduledCommandsReturn {
+  schedules: ScheduledCommand[];
+  loading: boolean;
+  error: string | null;
+  /** Create or replace a schedule; resolves to whether it was saved */
+  saveSchedule: (schedule: ScheduledCommandInput) => Promise<boolean>;
+  setPaused: (scheduleId: string, paused: boolean) => Promise<void>;
+  runNow: (scheduleId: string) => Promise<void>;
+  removeSchedule: (scheduleId: string) => Promise<void>;
+}
+
+export function useScheduledCommands(projectId: string | null): UseScheduledCommandsReturn {
+  const { on } = useWebSocket();
+  const [schedules, setSchedules] = useState<ScheduledCommand[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!projectId) {
+      setSchedules([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `${API_URL}/api/schedules?projectId=${encodeURIComponent(projectId)}`,
+        { headers: getAuthHeaders() }
+      );
+      const result: ApiResponse<ScheduledCommand[]> = await response.json();
+
+      if (result.success && result.data) {
+        setSchedules(result.data);
+        setError(null);
+      } else {
+        setError(result.error ?? 'Failed to load schedules');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    return on<ScheduledCommand>(WS_EVENTS.SESSION_SCHEDULE_RUN, (schedule) => {
+      if (schedule.projectId === projectId) {
+        setSchedules((current) => upsertSchedule(current, schedule));
+      }
+    });
+  }, [on, projectId]);
+
+  /**
+   * Send a request that returns the updated schedule, and merge it in
+   */
+  const update = useCallback(
+    async (path: string, init: RequestInit, failure: string): Promise<boolean> => {
+      try {
+        const response = await fetch(`${API_URL}/api/schedules/${path}`, {
+          ...init,
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        });
+        const result: ApiResponse<ScheduledCommand> = await response.json();
+
+        if (result.success && result.data) {
+          const schedule = result.data;
+          setSchedules((current) => upsertSchedule(current, schedule));
+          setError(null);
+          return true;
+        }
+        setError(result.error ?? failure);
+      } catch {
+        setError('Failed to connect to server');
+      }
+      return false;
+    },
+    []
+  );
+
+  const saveSchedule = useCallback(
+    async (schedule: ScheduledCommandInput) => {
+      const { id, ...body } = schedule;
+      return update(id, { method: 'PUT', body: JSON.stringify(body) }, 'Failed to save schedule');
+    },
+    [update]
+  );
+
+  const setPaused = useCallback(
+    async (scheduleId: string, paused: boolean) => {
+      await update(
+        scheduleId,
+        { method: 'PATCH', body: JSON.stringify({ paused }) },
+        'Failed to update schedule'
+      );
+    },
+    [update]
+  );
+
+  const runNow = useCallback(
+    async (scheduleId: string) => {
+      await update(`${scheduleId}/run`, { method: 'POST', body: '{}' }, 'Failed to run schedule');
+    },
+    [update]
+  );
+
+  const removeSchedule = useCallback(async (scheduleId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/api/schedules/${scheduleId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      const result: ApiResponse<never> = await response.json();
+
+      if (result.success) {
+        setSchedules((current) => current.filter((schedule) => schedule.id !== scheduleId));
+        setError(null);
+      } else {
+        setError(result.error ?? 'Failed to delete schedule');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    }
+  }, []);
+
+  return {
+    schedules,
+    loading,
+    error,
+    saveSchedule,
+    setPaused,
+    runNow,
+    removeSchedule,
+  };
+}
@@ -2,14 +2,21 @@
  * Status Notification Hook
  *
  * Listens to WebSocket status change events and updates the status store.
- * Triggers sound notifications and auto-focus when terminals need input.
+ * Shows desktop notifications (with sound) for the events the server's
+ * notification rules select, and for output triggers with a notify action;
+ * clicking one focuses the terminal's node.
  */
 
 'use client';
 
 import { useEffect, useCallback } from 'react';
-import { WS_EVENTS, type StatusChangeEvent } from '@masterdashboard/shared';
-import { useStatusStore } from '@/stores/status-store';
+import {
+  WS_EVENTS,
+  type OutputTriggerFired,
+  type StatusChangeEvent,
+  type StatusNotification,
+} from '@masterdashboard/shared';
+import { useStatusStore, useSoundEnabled } from '@/stores/status-store';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useWebSocket } from './useWebSocket';
 import { useNotificationSound } from './useSound';
@@ -17,8 +24,10 @@ import { useNotificationSound } from './useSound';
 interface UseStatusNotificationOptions {
   /** Whether status notifications are enabled */
   enabled?: boolean;
-  /** Whether to play sounds on status change */
+  /** Whether to play sounds with notifications */
   playSounds?: boolean;
+  /** Whether to show desktop notifications (once the browser allows them) */
+  desktopNotifications?: boolean;
   /** Callback when status changes */
   onStatusChange?: (event: StatusChangeEvent) => void;
 }
@@ -33,16 +42,22 @@ interface UseStatusNotificationReturn {
 export function useStatusNotification(
   options: UseStatusNotificationOptions = {}
 ): UseStatusNotificationReturn {
-  const { enabled = true, playSounds = true, onStatusChange } = options;
+  const {
+    enabled = true,
+    playSounds = true,
+    desktopNotifications = true,
+    onStatusChange,
+  } = options;
 
   const { on } = useWebSocket();
   const { handleStatusChange } = useStatusStore();
   const updateNodeData = useCanvasStore((state) => state.updateNodeData);
   const nodes = useCanvasStore((state) => state.nodes);
+  const projectId = useCanvasStore((state) => state.projectId);
+  const soundEnabled = useSoundEnabled();
 
-  // Sound notification (prepared for future use)
-  useNotificationSound('notification', {
-    enabled: playSounds,
+  const { play: playSound } = useNotificationSound('notification', {
+    enabled: playSounds && soundEnabled,
     volume: 0.5,
   });
 
@@ -68,16 +83,74 @@ export function useStatusNotification(
     [enabled, handleStatusChange, nodes, updateNodeData, onStatusChange]
   );
 
+  // Play the sound and show a desktop notification that focuses the terminal
+  const notify = useCallback(
+    (sessionId: string, title: string, body: string, tag: string) => {
+      playSound();
+
+      if (
+        !desktopNotifications ||
+        typeof Notification === 'undefined' ||
+        Notification.permission !== 'granted'
+      ) {
+        return;
+      }
+
+      const desktopNotification = new Notification(title, { body, tag });
+      desktopNotification.onclick = () => {
+        window.focus();
+        window.dispatchEvent(new CustomEvent('focusTerminal', { detail: sessionId }));
+        desktopNotification.close();
+      };
+    },
+    [desktopNotifications, playSound]
+  );
+
+  // Show notifications the server's rules raised for this project
+  const handleNotification = useCallback(
+    (notification: StatusNotification) => {
+      if (!enabled || notification.projectId !== projectId) return;
+
+      // Tagged by session so several open tabs replace rather than stack
+      notify(
+        notification.sessionId,
+        notification.title,
+        notification.body,
+        `${notification.sessionId}:${notification.trigger}`
+      );
+    },
+    [enabled, projectId, notify]
+  );
+
+  // Show notifications from output triggers in this project
+  const handleTriggerFired = useCallback(
+    (fired: OutputTriggerFired) => {
+      if (!enabled || fired.projectId !== projectId || fired.action.type !== 'notify') return;
+
+      notify(
+        fired.sessionId,
+        fired.action.title,
+        fired.action.body,
+        `${fired.sessionId}:${fired.triggerId}`
+      );
+    },
+    [enabled, projectId, notify]
+  );
+
   // Subscribe to WebSocket status change events
   useEffect(() => {
     if (!enabled) return;
 
-    const unsubscribe = on(WS_EVENTS.STATUS_CHANGE, handleStatusChangeEvent);
+    const unsubscribeStatus = on(WS_EVENTS.STATUS_CHANGE, handleStatusChangeEvent);
+    const unsubscribeNotification = on(WS_EVENTS.STATUS_NOTIFICATION, handleNotification);
+    const unsubscribeTrigger = on(WS_EVENTS.TERMINAL_TRIGGER_FIRED, handleTriggerFired);
 
     return () => {
-      unsubscribe();
+      unsubscribeStatus();
+      unsubscribeNotification();
+      unsubscribeTrigger();
     };
-  }, [enabled, on, handleStatusChangeEvent]);
+  }, [enabled, on, handleStatusChangeEvent, handleNotification, handleTriggerFired]);
 
   // Session subscription management (for future use with selective subscriptions)
   const subscribeSession = useCallback((sessionId: string) => {
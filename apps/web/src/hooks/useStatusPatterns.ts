@@ -0,0 +1,191 @@
+/**
+ * Status Patterns Hook
+ *
+ * Lists, saves and removes the server's status detection patterns, and tests
+ * a regex against a session's recent output as it is typed.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  WS_EVENTS,
+  type ListedStatusPattern,
+  type StatusPattern,
+  type StatusPatternsListResponsePayload,
+  type StatusPatternTestResultPayload,
+} from '@masterdashboard/shared';
+
+interface UseStatusPatternsOptions {
+  /** Debounce delay for pattern tests in ms */
+  testDebounceMs?: number;
+}
+
+interface UseStatusPatternsReturn {
+  patterns: ListedStatusPattern[];
+  loading: boolean;
+  /** Last error from saving or removing a pattern */
+  error: string | null;
+  savePattern: (pattern: StatusPattern) => void;
+  removePattern: (patternId: string) => void;
+  /** Test a regex against a session (debounced); pass an empty pattern to clear */
+  testPattern: (sessionId: string, pattern: string) => void;
+  testResult: StatusPatternTestResultPayload | null;
+  testError: string | null;
+}
+
+interface ErrorPayload {
+  message: string;
+  correlationId?: string;
+}
+
+let requestIdCounter = 0;
+function generateRequestId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${++requestIdCounter}`;
+}
+
+export function useStatusPatterns({
+  testDebounceMs = 300,
+}: UseStatusPatternsOptions = {}): UseStatusPatternsReturn {
+  const { emit, on, connected } = useWebSocket();
+  const [patterns, setPatterns] = useState<ListedStatusPattern[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<StatusPatternTestResultPayload | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const pendingRequestsRef = useRef(new Set<string>());
+  const testRequestIdRef = useRef<string | null>(null);
+  const testTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Set up event listeners
+  useEffect(() => {
+    // Also broadcast to every client after a pattern is added or removed
+    const handleList = (payload: StatusPatternsListResponsePayload & { correlationId?: string }) => {
+      setPatterns(payload.patterns);
+      setLoading(false);
+      if (payload.correlationId) {
+        pendingRequestsRef.current.delete(payload.correlationId);
+      }
+    };
+
+    const handleTestResult = (
+      payload: StatusPatternTestResultPayload & { correlationId?: string }
+    ) => {
+      if (payload.correlationId === testRequestIdRef.current) {
+        testRequestIdRef.current = null;
+        setTestResult(payload);
+        setTestError(null);
+      }
+    };
+
+    const handleError = (payload: ErrorPayload) => {
+      if (!payload.correlationId) return;
+
+      if (payload.correlationId === testRequestIdRef.current) {
+        testRequestIdRef.current = null;
+        setTestResult(null);
+        setTestError(payload.message);
+      } else if (pendingRequestsRef.current.delete(payload.correlationId)) {
+        setError(payload.message);
+        setLoading(false);
+      }
+    };
+
+    const unsubList = on<StatusPatternsListResponsePayload>(
+      WS_EVENTS.STATUS_PATTERNS_LIST_RESPONSE,
+      handleList
+    );
+    const unsubTest = on<StatusPatternTestResultPayload>(
+      WS_EVENTS.STATUS_PATTERN_TEST_RESULT,
+      handleTestResult
+    );
+    const unsubError = on<ErrorPayload>(WS_EVENTS.ERROR, handleError);
+
+    return () => {
+      unsubList();
+      unsubTest();
+      unsubError();
+    };
+  }, [on]);
+
+  // Load patterns once connected
+  useEffect(() => {
+    if (!connected) return;
+    const requestId = generateRequestId('patterns');
+    pendingRequestsRef.current.add(requestId);
+    emit(WS_EVENTS.STATUS_PATTERNS_LIST, {}, requestId);
+  }, [connected, emit]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (testTimerRef.current) {
+        clearTimeout(testTimerRef.current);
+      }
+    };
+  }, []);
+
+  const savePattern = useCallback(
+    (pattern: StatusPattern) => {
+      const requestId = generateRequestId('pattern_add');
+      pendingRequestsRef.current.add(requestId);
+      setError(null);
+      emit(WS_EVENTS.STATUS_PATTERN_ADD, { pattern }, requestId);
+    },
+    [emit]
+  );
+
+  const removePattern = useCallback(
+    (patternId: string) => {
+      const requestId = generateRequestId('pattern_remove');
+      pendingRequestsRef.current.add(requestId);
+      setError(null);
+      emit(WS_EVENTS.STATUS_PATTERN_REMOVE, { patternId }, requestId);
+    },
+    [emit]
+  );
+
+  const testPattern = useCallback(
+    (sessionId: string, pattern: string) => {
+      if (testTimerRef.current) {
+        clearTimeout(testTimerRef.current);
+        testTimerRef.current = null;
+      }
+
+      if (!sessionId || !pattern) {
+        testRequestIdRef.current = null;
+        setTestResult(null);
+        setTestError(null);
+        return;
+      }
+
+      // Report syntax errors without a round trip
+      try {
+        new RegExp(pattern, 'm');
+      } catch (err) {
+        testRequestIdRef.current = null;
+        setTestResult(null);
+        setTestError((err as Error).message);
+        return;
+      }
+
+      testTimerRef.current = setTimeout(() => {
+        const requestId = generateRequestId('pattern_test');
+        testRequestIdRef.current = requestId;
+        emit(WS_EVENTS.STATUS_PATTERN_TEST, { sessionId, pattern }, requestId);
+      }, testDebounceMs);
+    },
+    [emit, testDebounceMs]
+  );
+
+  return {
+    patterns,
+    loading,
+    error,
+    savePattern,
+    removePattern,
+    testPattern,
+    testResult,
+    testError,
+  };
+}
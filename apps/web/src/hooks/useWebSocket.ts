@@ -9,6 +9,7 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { WS_EVENTS } from '@masterdashboard/shared';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { getAuthToken, useAuthStore } from '@/stores/auth-store';
 
 interface UseWebSocketOptions {
   /** WebSocket server URL */
@@ -119,6 +120,8 @@ class SocketManager {
         reconnectionDelay: 1000,
         reconnectionDelayMax: 30000,
         timeout: 20000,
+        // Evaluated on every (re)connect so a fresh login is picked up
+        auth: (cb) => cb({ token: getAuthToken() }),
       });
 
       this.socket.on('connect', () => {
@@ -135,6 +138,9 @@ class SocketManager {
       });
 
       this.socket.on('connect_error', (error) => {
+        if (error.message === 'Authentication required') {
+          useAuthStore.getState().handleUnauthorized();
+        }
         this._connecting = false;
         this.notify();
         callbacks?.onError?.(error);
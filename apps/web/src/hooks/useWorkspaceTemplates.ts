@@ -0,0 +1,206 @@
+/**
+ * Workspace Templates Hook
+ *
+ * Loads and edits a project's workspace templates via the REST API, and
+ * launches them over the WebSocket so the new sessions belong to this
+ * client. Launched nodes are added to the canvas as one group.
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  WS_EVENTS,
+  type TemplateLaunchPayload,
+  type TemplateLaunchResult,
+  type WorkspaceTemplate,
+  type WorkspaceTemplateInput,
+} from '@masterdashboard/shared';
+import { getAuthHeaders } from '@/stores/auth-store';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { launchedNodeToGroupItem } from '@/utils/workspace-templates';
+import { useWebSocket } from './useWebSocket';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:4050';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface UseWorkspaceTemplatesReturn {
+  templates: WorkspaceTemplate[];
+  loading: boolean;
+  error: string | null;
+  /** ID of the template being launched */
+  launching: string | null;
+  /** Create or replace a template */
+  saveTemplate: (template: WorkspaceTemplateInput) => Promise<boolean>;
+  removeTemplate: (template: WorkspaceTemplate) => Promise<void>;
+  launchTemplate: (template: WorkspaceTemplate) => void;
+}
+
+let requestIdCounter = 0;
+function generateRequestId(): string {
+  return `template_${Date.now()}_${++requestIdCounter}`;
+}
+
+export function useWorkspaceTemplates(projectId: string | null): UseWorkspaceTemplatesReturn {
+  const [templates, setTemplates] = useState<WorkspaceTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [launching, setLaunching] = useState<string | null>(null);
+  const { emit, on } = useWebSocket();
+  const pendingRequestRef = useRef<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!projectId) {
+      setTemplates([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `${API_URL}/api/templates?projectId=${encodeURIComponent(projectId)}`,
+        { headers: getAuthHeaders() }
+      );
+      const result: ApiResponse<WorkspaceTemplate[]> = await response.json();
+
+      if (result.success && result.data) {
+        setTemplates(result.data);
+        setError(null);
+      } else {
+        setError(result.error ?? 'Failed to load templates');
+      }
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    const handleLaunched = (payload: TemplateLaunchResult & { correlationId?: string }) => {
+      if (!pendingRequestRef.current || payload.correlationId !== pendingRequestRef.current) {
+        return;
+      }
+
+      pendingRequestRef.current = null;
+      setLaunching(null);
+      useCanvasStore.getState().addNodeGroup(payload.nodes.map(launchedNodeToGroupItem));
+
+      const failed = payload.nodes.filter((launched) => launched.error);
+      setError(
+        failed.length > 0
+          ? `${failed.length} terminal${failed.length === 1 ? '' : 's'} failed to start: ${failed[0]!.error}`
+          : null
+      );
+    };
+
+    const handleError = (payload: { message: string; correlationId?: string }) => {
+      if (pendingRequestRef.current && payload.correlationId === pendingRequestRef.current) {
+        pendingRequestRef.current = null;
+        setLaunching(null);
+        setError(payload.message);
+      }
+    };
+
+    const unsubLaunched = on<TemplateLaunchResult & { correlationId?: string }>(
+      WS_EVENTS.TEMPLATE_LAUNCHED,
+      handleLaunched
+    );
+    const unsubError = on<{ message: string; correlationId?: string }>(
+      WS_EVENTS.ERROR,
+      handleError
+    );
+
+    return () => {
+      unsubLaunched();
+      unsubError();
+    };
+  }, [on]);
+
+  const saveTemplate = useCallback(
+    async (template: WorkspaceTemplateInput) => {
+      try {
+        const { id, ...body } = template;
+        const response = await fetch(`${API_URL}/api/templates/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify(body),
+        });
+        const result: ApiResponse<WorkspaceTemplate> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchTemplates();
+          return true;
+        }
+        setError(result.error ?? 'Failed to save template');
+      } catch {
+        setError('Failed to connect to server');
+      }
+      return false;
+    },
+    [fetchTemplates]
+  );
+
+  const removeTemplate = useCallback(
+    async (template: WorkspaceTemplate) => {
+      try {
+        const params = new URLSearchParams({
+          projectId: template.projectId,
+          source: template.source,
+        });
+        const response = await fetch(`${API_URL}/api/templates/${template.id}?${params}`, {
+          method: 'DELETE',
+          headers: getAuthHeaders(),
+        });
+        const result: ApiResponse<never> = await response.json();
+
+        if (result.success) {
+          setError(null);
+          await fetchTemplates();
+        } else {
+          setError(result.error ?? 'Failed to delete template');
+        }
+      } catch {
+        setError('Failed to connect to server');
+      }
+    },
+    [fetchTemplates]
+  );
+
+  const launchTemplate = useCallback(
+    (template: WorkspaceTemplate) => {
+      const requestId = generateRequestId();
+      pendingRequestRef.current = requestId;
+      setLaunching(template.id);
+      setError(null);
+
+      const payload: TemplateLaunchPayload = {
+        projectId: template.projectId,
+        templateId: template.id,
+        source: template.source,
+      };
+      emit(WS_EVENTS.TEMPLATE_LAUNCH, payload, requestId);
+    },
+    [emit]
+  );
+
+  return {
+    templates,
+    loading,
+    error,
+    launching,
+    saveTemplate,
+    removeTemplate,
+    launchTemplate,
+  };
+}
@@ -4,6 +4,8 @@
  * REST API client for communicating with the backend server.
  */
 
+import { getAuthHeaders } from '@/stores/auth-store';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4050/api';
 
 interface ApiResponse<T> {
@@ -47,6 +49,7 @@ async function request<T>(
       signal: controller.signal,
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
         ...fetchOptions.headers,
       },
     });
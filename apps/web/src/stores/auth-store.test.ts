@@ -0,0 +1,110 @@
+/**
+ * Auth Store Tests
+ *
+ * Tests for the login flow, session check, and auth header helpers.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useAuthStore, getAuthHeaders } from './auth-store';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('Auth Store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useAuthStore.setState({
+      token: null,
+      authRequired: false,
+      userAccounts: false,
+      user: null,
+      status: 'unknown',
+      error: null,
+      isLoading: false,
+    });
+  });
+
+  it('should not add an Authorization header without a token', () => {
+    expect(getAuthHeaders()).toEqual({});
+  });
+
+  it('should store the token on successful login', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true, data: { token: 'abc.def' } }),
+    });
+
+    const ok = await useAuthStore.getState().login('secret');
+
+    expect(ok).toBe(true);
+    expect(useAuthStore.getState().status).toBe('authenticated');
+    expect(getAuthHeaders()).toEqual({ Authorization: 'Bearer abc.def' });
+  });
+
+  it('should send the username and load the user after login', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { token: 'abc.def' } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: {
+            authRequired: true,
+            authenticated: true,
+            userAccounts: true,
+            user: { id: 'usr_1', username: 'alice', isAdmin: false },
+          },
+        }),
+      });
+
+    const ok = await useAuthStore.getState().login('wonderland', 'alice');
+
+    expect(ok).toBe(true);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      username: 'alice',
+      password: 'wonderland',
+    });
+    expect(useAuthStore.getState().user?.username).toBe('alice');
+  });
+
+  it('should surface the server error on failed login', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ success: false, error: 'Invalid password' }),
+    });
+
+    const ok = await useAuthStore.getState().login('wrong');
+
+    expect(ok).toBe(false);
+    expect(useAuthStore.getState().error).toBe('Invalid password');
+    expect(useAuthStore.getState().token).toBeNull();
+  });
+
+  it('should require login when the server reports an unauthenticated session', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { authRequired: true, authenticated: false },
+      }),
+    });
+
+    await useAuthStore.getState().checkSession();
+
+    expect(useAuthStore.getState().status).toBe('unauthenticated');
+    expect(useAuthStore.getState().authRequired).toBe(true);
+  });
+
+  it('should drop the token when the server rejects it', () => {
+    useAuthStore.setState({ token: 'stale', authRequired: true, status: 'authenticated' });
+
+    useAuthStore.getState().handleUnauthorized();
+
+    expect(useAuthStore.getState().token).toBeNull();
+    expect(useAuthStore.getState().status).toBe('unauthenticated');
+  });
+});
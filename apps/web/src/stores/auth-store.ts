@@ -0,0 +1,166 @@
+/**
+ * Auth Store
+ *
+ * Zustand store for the dashboard session token. The token is persisted to
+ * localStorage and attached to REST calls and the Socket.IO handshake.
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4050';
+
+export type AuthStatus = 'unknown' | 'authenticated' | 'unauthenticated';
+
+/** Who the current session acts as */
+export interface AuthUser {
+  /** User account ID (null for the shared password or open access) */
+  id: string | null;
+  username: string;
+  isAdmin: boolean;
+}
+
+interface AuthState {
+  /** Session token issued by the server */
+  token: string | null;
+  /** Whether the server requires authentication */
+  authRequired: boolean;
+  /** Whether named user accounts exist (login asks for a username) */
+  userAccounts: boolean;
+  /** Current user, once the session check completes */
+  user: AuthUser | null;
+  /** Current auth status (unknown until the session check completes) */
+  status: AuthStatus;
+  /** Last login error */
+  error: string | null;
+  /** Whether a login request is in flight */
+  isLoading: boolean;
+
+  // Actions
+  checkSession: () => Promise<void>;
+  login: (password: string, username?: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  handleUnauthorized: () => void;
+}
+
+interface SessionResponse {
+  authRequired: boolean;
+  authenticated: boolean;
+  userAccounts?: boolean;
+  user?: AuthUser | null;
+}
+
+export const useAuthStore = create<AuthState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        token: null,
+        authRequired: false,
+        userAccounts: false,
+        user: null,
+        status: 'unknown',
+        error: null,
+        isLoading: false,
+
+        checkSession: async () => {
+          try {
+            const response = await fetch(`${API_BASE}/api/auth/session`, {
+              headers: getAuthHeaders(),
+            });
+            const result = await response.json();
+            const session = result.data as SessionResponse;
+
+            set({
+              authRequired: session.authRequired,
+              userAccounts: session.userAccounts ?? false,
+              user: session.user ?? null,
+              status: session.authenticated ? 'authenticated' : 'unauthenticated',
+            });
+          } catch {
+            // Server unreachable - let the app render its own connection errors
+            set({ status: 'authenticated' });
+          }
+        },
+
+        login: async (password, username) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const response = await fetch(`${API_BASE}/api/auth/login`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(username ? { username, password } : { password }),
+            });
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+              set({ isLoading: false, error: result.error || 'Login failed' });
+              return false;
+            }
+
+            set({
+              token: result.data.token,
+              status: 'authenticated',
+              isLoading: false,
+            });
+            // Pick up the user behind the new token
+            await get().checkSession();
+            return true;
+          } catch (error) {
+            set({
+              isLoading: false,
+              error: error instanceof Error ? error.message : 'Login failed',
+            });
+            return false;
+          }
+        },
+
+        logout: async () => {
+          const { token } = get();
+          if (token) {
+            try {
+              await fetch(`${API_BASE}/api/auth/logout`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+              });
+            } catch {
+              // Token is dropped locally either way
+            }
+          }
+          set({ token: null, user: null, status: 'unauthenticated' });
+        },
+
+        handleUnauthorized: () => {
+          if (get().authRequired || get().token) {
+            set({ token: null, user: null, status: 'unauthenticated' });
+          }
+        },
+      }),
+      {
+        name: 'masterdashboard-auth',
+        partialize: (state) => ({ token: state.token }),
+      }
+    ),
+    { name: 'AuthStore' }
+  )
+);
+
+/**
+ * Headers carrying the current session token, for use with fetch()
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = useAuthStore.getState().token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Current session token, for the Socket.IO handshake
+ */
+export function getAuthToken(): string | null {
+  return useAuthStore.getState().token;
+}
+
+// Selector hooks
+export const useAuthStatus = () => useAuthStore((state) => state.status);
+export const useAuthRequired = () => useAuthStore((state) => state.authRequired);
+export const useAuthUser = () => useAuthStore((state) => state.user);
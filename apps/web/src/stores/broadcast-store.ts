@@ -0,0 +1,45 @@
+/**
+ * Broadcast Store
+ *
+ * Zustand store for synchronized typing: the terminal and SSH nodes whose
+ * input is written to every member of the group.
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+
+interface BroadcastState {
+  // State
+  /** Nodes in the broadcast group; empty when not broadcasting */
+  nodeIds: string[];
+
+  // Actions
+  start: (nodeIds: string[]) => void;
+  stop: () => void;
+}
+
+export const useBroadcastStore = create<BroadcastState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      nodeIds: [],
+
+      // Actions
+      start: (nodeIds) => {
+        set({ nodeIds });
+      },
+
+      stop: () => {
+        set({ nodeIds: [] });
+      },
+    }),
+    { name: 'BroadcastStore' }
+  )
+);
+
+// Selector hooks for optimized renders
+export const useBroadcastNodeIds = () => useBroadcastStore((state) => state.nodeIds);
+export const useIsBroadcasting = (nodeId?: string) =>
+  useBroadcastStore((state) =>
+    nodeId ? state.nodeIds.includes(nodeId) : state.nodeIds.length > 0
+  );
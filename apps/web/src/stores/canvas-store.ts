@@ -27,6 +27,7 @@ import {
   type FolderViewerNodeData,
   type ViewerNodeData,
   type DiffNodeData,
+  type ReplayNodeData,
   type DatabaseNodeData,
   type GitNodeData,
   type CanvasViewport,
@@ -144,6 +145,17 @@ function findNonOverlappingPosition(
   };
 }
 
+/**
+ * A node to add as part of a group (e.g. a launched workspace template)
+ */
+export interface NodeGroupItem {
+  type: NodeType;
+  position: { x: number; y: number };
+  size?: { width: number; height: number };
+  /** Overrides for the type's default node data */
+  data?: Partial<DashboardNodeData>;
+}
+
 interface ProjectLayout {
   nodes: DashboardNode[];
   edges: DashboardEdge[];
@@ -172,6 +184,8 @@ interface CanvasState {
   // Node actions
   addNode: (type: NodeType, position: { x: number; y: number }) => string;
   addNodeAtViewportCenter: (type: NodeType) => string;
+  /** Add nodes keeping their relative layout, to the right of existing nodes */
+  addNodeGroup: (items: NodeGroupItem[]) => string[];
   removeNode: (nodeId: string) => void;
   updateNodeData: <T extends DashboardNodeData>(
     nodeId: string,
@@ -339,6 +353,13 @@ function createDefaultNodeData(
         error: null,
       } as GitNodeData;
 
+    case NodeType.REPLAY:
+      return {
+        ...baseData,
+        recordingId: '',
+        playbackSpeed: 1,
+      } as ReplayNodeData;
+
     default:
       return baseData as DashboardNodeData;
   }
@@ -490,6 +511,52 @@ export const useCanvasStore = create<CanvasState>()(
           return state.addNode(type, position);
         },
 
+        addNodeGroup: (items) => {
+          const state = get();
+          if (items.length === 0) return [];
+
+          const projectState = useProjectStore.getState();
+          const defaultCwd = projectState.currentProject?.defaultCwd || '~';
+
+          // Shift the whole group past the right edge of the existing nodes
+          const groupLeft = Math.min(...items.map((item) => item.position.x));
+          const groupTop = Math.min(...items.map((item) => item.position.y));
+          const occupiedRight = state.nodes.reduce((right, node) => {
+            const width = (node.style?.width as number) ?? node.measured?.width ?? 400;
+            return Math.max(right, node.position.x + width);
+          }, Number.NEGATIVE_INFINITY);
+          const offsetX = state.nodes.length > 0 ? occupiedRight + 60 - groupLeft : 100 - groupLeft;
+          const offsetY = state.nodes.length > 0 ? 0 : 100 - groupTop;
+
+          const newNodes = items.map((item, index): DashboardNode => {
+            const dimensions = item.size ?? DEFAULT_NODE_DIMENSIONS[item.type];
+            const existingCount =
+              state.nodes.filter((n) => n.type === item.type).length +
+              items.slice(0, index).filter((other) => other.type === item.type).length;
+
+            return {
+              id: generateId(),
+              type: item.type,
+              position: { x: item.position.x + offsetX, y: item.position.y + offsetY },
+              data: {
+                ...createDefaultNodeData(item.type, existingCount, state.projectId, defaultCwd),
+                ...item.data,
+              } as DashboardNodeData,
+              style: {
+                width: dimensions.width,
+                height: dimensions.height,
+              },
+            };
+          });
+
+          set({
+            nodes: [...state.nodes, ...newNodes],
+            selectedNodeId: newNodes[0]?.id ?? state.selectedNodeId,
+          });
+
+          return newNodes.map((node) => node.id);
+        },
+
         removeNode: (nodeId) => {
           const state = get();
           set({
@@ -8,7 +8,7 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 
-export type CommandMode = 'commands' | 'files';
+export type CommandMode = 'commands' | 'files' | 'output';
 
 interface CommandState {
   // State
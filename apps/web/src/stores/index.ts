@@ -11,11 +11,13 @@ export {
   useSelectedNodeId,
   useConnectionStatus,
   useSelectedNode,
+  type NodeGroupItem,
 } from './canvas-store';
 
 export {
   useStatusStore,
   useWaitingQueue,
+  useWaitingDetails,
   useSoundEnabled,
   useAutoFocusEnabled,
   useSessionStatus,
@@ -38,3 +40,25 @@ export {
   type KeyboardShortcut,
   type SettingsState,
 } from './settings-store';
+
+export {
+  useAuthStore,
+  useAuthStatus,
+  useAuthRequired,
+  useAuthUser,
+  getAuthHeaders,
+  getAuthToken,
+  type AuthUser,
+} from './auth-store';
+
+export {
+  useBroadcastStore,
+  useBroadcastNodeIds,
+  useIsBroadcasting,
+} from './broadcast-store';
+
+export {
+  useResourceStore,
+  useSessionResources,
+  useSessionResourceHistory,
+} from './resource-store';
@@ -12,6 +12,7 @@ import type {
   CreateProjectConfig,
   ProjectSettings,
 } from '@masterdashboard/shared';
+import { getAuthHeaders } from './auth-store';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4050';
 
@@ -83,7 +84,9 @@ export const useProjectStore = create<ProjectState>()(
           set({ isLoading: true, error: null });
 
           try {
-            const response = await fetch(`${API_BASE}/api/projects/${projectId}`);
+            const response = await fetch(`${API_BASE}/api/projects/${projectId}`, {
+              headers: getAuthHeaders(),
+            });
             const result: ApiResponse<ProjectWithCounts> = await response.json();
 
             if (!result.success || !result.data) {
@@ -108,7 +111,9 @@ export const useProjectStore = create<ProjectState>()(
           set({ isLoading: true, error: null });
 
           try {
-            const response = await fetch(`${API_BASE}/api/projects`);
+            const response = await fetch(`${API_BASE}/api/projects`, {
+              headers: getAuthHeaders(),
+            });
             const result: ApiResponse<ProjectWithCounts[]> = await response.json();
 
             if (!result.success || !result.data) {
@@ -137,7 +142,7 @@ export const useProjectStore = create<ProjectState>()(
           try {
             const response = await fetch(`${API_BASE}/api/projects`, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
               body: JSON.stringify(config),
             });
             const result: ApiResponse<ProjectWithCounts> = await response.json();
@@ -172,7 +177,7 @@ export const useProjectStore = create<ProjectState>()(
           try {
             const response = await fetch(`${API_BASE}/api/projects/${projectId}`, {
               method: 'PATCH',
-              headers: { 'Content-Type': 'application/json' },
+              headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
               body: JSON.stringify(updates),
             });
             const result: ApiResponse<ProjectWithCounts> = await response.json();
@@ -210,6 +215,7 @@ export const useProjectStore = create<ProjectState>()(
           try {
             const response = await fetch(`${API_BASE}/api/projects/${projectId}`, {
               method: 'DELETE',
+              headers: getAuthHeaders(),
             });
             const result: ApiResponse<void> = await response.json();
 
@@ -242,7 +248,7 @@ export const useProjectStore = create<ProjectState>()(
           try {
             const response = await fetch(
               `${API_BASE}/api/projects/${projectId}/sessions`,
-              { method: 'DELETE' }
+              { method: 'DELETE', headers: getAuthHeaders() }
             );
             const result: ApiResponse<void> = await response.json();
 
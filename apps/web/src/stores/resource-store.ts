@@ -0,0 +1,82 @@
+/**
+ * Resource Store
+ *
+ * Zustand store for the CPU and memory use of each terminal's process tree,
+ * as streamed by the server, with a short history for sparklines.
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import {
+  RESOURCE_HISTORY_LENGTH,
+  type SessionResourcePoint,
+  type SessionResourceSample,
+  type SessionResources,
+} from '@masterdashboard/shared';
+import { appendResourceHistory } from '@/utils/resources';
+
+interface ResourceState {
+  // State
+  /** Latest sample per session */
+  samples: Map<string, SessionResourceSample>;
+  /** Recent totals per session, oldest first */
+  history: Map<string, SessionResourcePoint[]>;
+
+  // Actions
+  /** Replace everything with what the server has kept */
+  load: (resources: SessionResources[]) => void;
+  addSamples: (samples: SessionResourceSample[]) => void;
+  clear: () => void;
+}
+
+export const useResourceStore = create<ResourceState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      samples: new Map(),
+      history: new Map(),
+
+      // Actions
+      load: (resources) => {
+        set({
+          samples: new Map(resources.map(({ sample }) => [sample.sessionId, sample])),
+          history: new Map(resources.map(({ sample, history }) => [sample.sessionId, history])),
+        });
+      },
+
+      addSamples: (samples) => {
+        set((state) => {
+          const nextSamples = new Map(state.samples);
+          const nextHistory = new Map(state.history);
+          for (const sample of samples) {
+            nextSamples.set(sample.sessionId, sample);
+            nextHistory.set(
+              sample.sessionId,
+              appendResourceHistory(
+                nextHistory.get(sample.sessionId) ?? [],
+                {
+                  timestamp: sample.timestamp,
+                  cpuPercent: sample.cpuPercent,
+                  rssBytes: sample.rssBytes,
+                },
+                RESOURCE_HISTORY_LENGTH
+              )
+            );
+          }
+          return { samples: nextSamples, history: nextHistory };
+        });
+      },
+
+      clear: () => {
+        set({ samples: new Map(), history: new Map() });
+      },
+    }),
+    { name: 'ResourceStore' }
+  )
+);
+
+// Selector hooks for optimized renders
+export const useSessionResources = (sessionId?: string) =>
+  useResourceStore((state) => (sessionId ? state.samples.get(sessionId) : undefined));
+export const useSessionResourceHistory = (sessionId?: string) =>
+  useResourceStore((state) => (sessionId ? state.history.get(sessionId) : undefined));
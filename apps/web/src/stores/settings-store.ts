@@ -138,6 +138,18 @@ const DEFAULT_SHORTCUTS: KeyboardShortcut[] = [
     keys: 'Ctrl+P',
     action: 'openQuickOpen',
   },
+  {
+    id: 'search-output',
+    name: 'Search Output',
+    keys: 'Ctrl+Shift+F',
+    action: 'openOutputSearch',
+  },
+  {
+    id: 'broadcast-input',
+    name: 'Broadcast Input',
+    keys: 'Ctrl+Shift+B',
+    action: 'toggleBroadcast',
+  },
   {
     id: 'save',
     name: 'Save',
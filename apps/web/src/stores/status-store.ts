@@ -12,6 +12,18 @@ import {
   type StatusChangeEvent,
 } from '@masterdashboard/shared';
 
+/**
+ * Why a queued session is waiting
+ */
+export interface WaitingDetail {
+  /** Explanation, e.g. a Claude Code notification */
+  message?: string;
+  /** ID of the status pattern that matched */
+  matchedPatternId?: string;
+  /** Last lines of output when the session started waiting */
+  promptLines: string[];
+}
+
 interface StatusState {
   // Session statuses
   statuses: Map<string, TerminalActivityStatus>;
@@ -19,6 +31,9 @@ interface StatusState {
   // Waiting queue (sessions awaiting input)
   waitingQueue: string[];
 
+  // Why each queued session is waiting
+  waitingDetails: Map<string, WaitingDetail>;
+
   // Notification settings
   soundEnabled: boolean;
   autoFocusEnabled: boolean;
@@ -39,24 +54,6 @@ interface StatusState {
   clearAllStatuses: () => void;
 }
 
-// Sound notification helper
-let audioInstance: HTMLAudioElement | null = null;
-
-function playNotificationSound(): void {
-  try {
-    if (!audioInstance) {
-      audioInstance = new Audio('/sounds/notification.mp3');
-      audioInstance.volume = 0.5;
-    }
-    audioInstance.currentTime = 0;
-    audioInstance.play().catch(() => {
-      // Silently fail if audio can't play (e.g., no user interaction yet)
-    });
-  } catch {
-    // Audio not supported
-  }
-}
-
 export const useStatusStore = create<StatusState>()(
   devtools(
     persist(
@@ -64,6 +61,7 @@ export const useStatusStore = create<StatusState>()(
         // Initial state
         statuses: new Map(),
         waitingQueue: [],
+        waitingDetails: new Map(),
         soundEnabled: true,
         autoFocusEnabled: false, // Off by default to prevent screen jumping
 
@@ -76,9 +74,8 @@ export const useStatusStore = create<StatusState>()(
         },
 
         handleStatusChange: (event) => {
-          const { sessionId, newStatus, previousStatus } = event;
+          const { sessionId, newStatus } = event;
           const {
-            soundEnabled,
             autoFocusEnabled,
             updateStatus,
             addToWaitingQueue,
@@ -90,11 +87,15 @@ export const useStatusStore = create<StatusState>()(
           // Handle waiting status
           if (newStatus === TerminalActivityStatus.WAITING) {
             addToWaitingQueue(sessionId);
-
-            // Play sound notification
-            if (soundEnabled && previousStatus !== TerminalActivityStatus.WAITING) {
-              playNotificationSound();
-            }
+            set((state) => {
+              const waitingDetails = new Map(state.waitingDetails);
+              waitingDetails.set(sessionId, {
+                message: event.message,
+                matchedPatternId: event.matchedPatternId,
+                promptLines: event.promptLines ?? [],
+              });
+              return { waitingDetails };
+            });
 
             // Auto-focus (if enabled)
             if (autoFocusEnabled) {
@@ -128,18 +129,26 @@ export const useStatusStore = create<StatusState>()(
         },
 
         removeFromWaitingQueue: (sessionId) => {
-          set((state) => ({
-            waitingQueue: state.waitingQueue.filter((id) => id !== sessionId),
-          }));
+          set((state) => {
+            const waitingDetails = new Map(state.waitingDetails);
+            waitingDetails.delete(sessionId);
+            return {
+              waitingQueue: state.waitingQueue.filter((id) => id !== sessionId),
+              waitingDetails,
+            };
+          });
         },
 
         clearSession: (sessionId) => {
           set((state) => {
             const newStatuses = new Map(state.statuses);
             newStatuses.delete(sessionId);
+            const waitingDetails = new Map(state.waitingDetails);
+            waitingDetails.delete(sessionId);
             return {
               statuses: newStatuses,
               waitingQueue: state.waitingQueue.filter((id) => id !== sessionId),
+              waitingDetails,
             };
           });
         },
@@ -148,6 +157,7 @@ export const useStatusStore = create<StatusState>()(
           set({
             statuses: new Map(),
             waitingQueue: [],
+            waitingDetails: new Map(),
           });
         },
       }),
@@ -181,6 +191,9 @@ export const useStatusStore = create<StatusState>()(
 export const useWaitingQueue = () =>
   useStatusStore((state) => state.waitingQueue);
 
+export const useWaitingDetails = () =>
+  useStatusStore((state) => state.waitingDetails);
+
 export const useSoundEnabled = () =>
   useStatusStore((state) => state.soundEnabled);
 
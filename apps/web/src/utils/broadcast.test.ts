@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { NodeType, SessionType, type DashboardEdge, type DashboardNode } from '@masterdashboard/shared';
+import { getBroadcastGroup, getBroadcastTargets, keyToTerminalInput } from './broadcast';
+
+function node(id: string, type: NodeType, sessionId: string, selected = false): DashboardNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    selected,
+    data: { sessionId, label: id, projectId: 'prj_1' },
+  } as DashboardNode;
+}
+
+function edge(source: string, target: string): DashboardEdge {
+  return { id: `${source}-${target}`, source, target };
+}
+
+describe('getBroadcastGroup', () => {
+  it('should use the selected terminal and SSH nodes', () => {
+    const nodes = [
+      node('a', NodeType.TERMINAL, 'term_a', true),
+      node('b', NodeType.SSH, 'ssh_b', true),
+      node('c', NodeType.NOTES, '', true),
+      node('d', NodeType.TERMINAL, 'term_d'),
+    ];
+
+    expect(getBroadcastGroup(nodes, [edge('a', 'd')])).toEqual(['a', 'b']);
+  });
+
+  it('should follow edges from a single selected node', () => {
+    const nodes = [
+      node('a', NodeType.TERMINAL, 'term_a', true),
+      node('notes', NodeType.NOTES, ''),
+      node('b', NodeType.SSH, 'ssh_b'),
+      node('c', NodeType.TERMINAL, 'term_c'),
+    ];
+
+    expect(getBroadcastGroup(nodes, [edge('notes', 'a'), edge('notes', 'b')])).toEqual(['a', 'b']);
+    expect(getBroadcastGroup(nodes, [])).toEqual(['a']);
+  });
+});
+
+describe('getBroadcastTargets', () => {
+  it('should map members with a session to targets', () => {
+    const nodes = [
+      node('a', NodeType.TERMINAL, 'term_a'),
+      node('b', NodeType.SSH, 'ssh_b'),
+      node('c', NodeType.TERMINAL, ''),
+      node('d', NodeType.TERMINAL, 'term_d'),
+    ];
+
+    expect(getBroadcastTargets(nodes, ['a', 'b', 'c'])).toEqual([
+      { type: SessionType.TERMINAL, sessionId: 'term_a' },
+      { type: SessionType.SSH, sessionId: 'ssh_b' },
+    ]);
+  });
+});
+
+describe('keyToTerminalInput', () => {
+  const press = (key: string, modifiers: { ctrlKey?: boolean; altKey?: boolean; metaKey?: boolean } = {}) =>
+    keyToTerminalInput({ key, ctrlKey: false, altKey: false, metaKey: false, ...modifiers });
+
+  it('should send characters, control codes and escape sequences', () => {
+    expect(press('a')).toBe('a');
+    expect(press('Enter')).toBe('\r');
+    expect(press('ArrowUp')).toBe('\x1b[A');
+    expect(press('c', { ctrlKey: true })).toBe('\x03');
+    expect(press('b', { altKey: true })).toBe('\x1bb');
+  });
+
+  it('should ignore modifiers alone and Cmd shortcuts', () => {
+    expect(press('Shift')).toBeNull();
+    expect(press('F5')).toBeNull();
+    expect(press('v', { metaKey: true })).toBeNull();
+    expect(press('1', { ctrlKey: true })).toBeNull();
+  });
+});
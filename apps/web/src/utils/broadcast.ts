@@ -0,0 +1,121 @@
+/**
+ * Broadcast input helpers
+ *
+ * Picks the terminal and SSH nodes that take part in synchronized typing,
+ * and turns keys pressed in the broadcast bar into terminal input.
+ */
+
+import {
+  NodeType,
+  SessionType,
+  type BroadcastTarget,
+  type DashboardEdge,
+  type DashboardNode,
+} from '@masterdashboard/shared';
+
+/**
+ * Whether a node can receive broadcast input
+ */
+export function isBroadcastNode(node: DashboardNode): boolean {
+  return node.type === NodeType.TERMINAL || node.type === NodeType.SSH;
+}
+
+/**
+ * Pick the nodes of a broadcast group.
+ * Several selected nodes form the group on their own; a single selected node
+ * brings in every terminal and SSH node linked to it by edges.
+ */
+export function getBroadcastGroup(nodes: DashboardNode[], edges: DashboardEdge[]): string[] {
+  const candidates = new Set(nodes.filter(isBroadcastNode).map((node) => node.id));
+  const selected = nodes.filter((node) => node.selected && candidates.has(node.id));
+
+  if (selected.length !== 1) {
+    return selected.map((node) => node.id);
+  }
+
+  // Walk the edges from the selected node, through nodes of any type
+  const linked = new Set([selected[0]!.id]);
+  const queue = [selected[0]!.id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      const next =
+        edge.source === current ? edge.target : edge.target === current ? edge.source : null;
+      if (next && !linked.has(next)) {
+        linked.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return nodes.filter((node) => linked.has(node.id) && candidates.has(node.id)).map((node) => node.id);
+}
+
+/**
+ * Sessions to write broadcast input to; members without a session are skipped
+ */
+export function getBroadcastTargets(nodes: DashboardNode[], nodeIds: string[]): BroadcastTarget[] {
+  const members = new Set(nodeIds);
+
+  return nodes
+    .filter((node) => members.has(node.id) && node.data.sessionId)
+    .map((node) => ({
+      type: node.type === NodeType.SSH ? SessionType.SSH : SessionType.TERMINAL,
+      sessionId: node.data.sessionId,
+    }));
+}
+
+/**
+ * A key press, as far as terminal input is concerned
+ */
+export interface BroadcastKey {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+/** Escape sequences for keys that do not type a character */
+const SPECIAL_KEYS: Record<string, string> = {
+  Enter: '\r',
+  Backspace: '\x7f',
+  Tab: '\t',
+  Escape: '\x1b',
+  Delete: '\x1b[3~',
+  ArrowUp: '\x1b[A',
+  ArrowDown: '\x1b[B',
+  ArrowRight: '\x1b[C',
+  ArrowLeft: '\x1b[D',
+  Home: '\x1b[H',
+  End: '\x1b[F',
+};
+
+/**
+ * Terminal input for a key press, or null for keys that send nothing
+ * (modifiers alone, function keys, and shortcuts with Cmd)
+ */
+export function keyToTerminalInput({ key, ctrlKey, altKey, metaKey }: BroadcastKey): string | null {
+  if (metaKey) {
+    return null;
+  }
+
+  const special = SPECIAL_KEYS[key];
+  if (special) {
+    return altKey ? `\x1b${special}` : special;
+  }
+  if (key.length !== 1) {
+    return null;
+  }
+
+  let input = key;
+  if (ctrlKey) {
+    // Ctrl+A..Z and Ctrl+[ \ ] ^ _ map to control codes 1..31
+    const code = key.toUpperCase().charCodeAt(0);
+    if (code < 64 || code > 95) {
+      return null;
+    }
+    input = String.fromCharCode(code - 64);
+  }
+
+  return altKey ? `\x1b${input}` : input;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { CommandHistoryEntry } from '@masterdashboard/shared';
+import { upsertCommand, isFailedCommand, formatCommandDuration } from './command-history';
+
+function entry(id: number, overrides: Partial<CommandHistoryEntry> = {}): CommandHistoryEntry {
+  return {
+    id,
+    sessionId: 'term_1',
+    projectId: 'prj_1',
+    command: `cmd ${id}`,
+    cwd: '/tmp',
+    startedAt: '2026-01-05T09:00:00.000Z',
+    finishedAt: null,
+    exitCode: null,
+    durationMs: null,
+    outputStartLine: id * 10,
+    outputEndLine: null,
+    ...overrides,
+  };
+}
+
+describe('upsertCommand', () => {
+  it('should add new commands first', () => {
+    const commands = upsertCommand([entry(2), entry(1)], entry(3), 10);
+    expect(commands.map((c) => c.id)).toEqual([3, 2, 1]);
+  });
+
+  it('should replace a command in place when it finishes', () => {
+    const finished = entry(2, { finishedAt: '2026-01-05T09:00:01.000Z', exitCode: 0 });
+    const commands = upsertCommand([entry(3), entry(2), entry(1)], finished, 10);
+
+    expect(commands.map((c) => c.id)).toEqual([3, 2, 1]);
+    expect(commands[1]).toBe(finished);
+  });
+
+  it('should drop the oldest commands past the limit', () => {
+    const commands = upsertCommand([entry(2), entry(1)], entry(3), 2);
+    expect(commands.map((c) => c.id)).toEqual([3, 2]);
+  });
+});
+
+describe('isFailedCommand', () => {
+  it('should only flag non-zero exit codes', () => {
+    expect(isFailedCommand(entry(1, { exitCode: 1 }))).toBe(true);
+    expect(isFailedCommand(entry(1, { exitCode: 0 }))).toBe(false);
+    expect(isFailedCommand(entry(1))).toBe(false);
+  });
+});
+
+describe('formatCommandDuration', () => {
+  it('should pick a unit for the length', () => {
+    expect(formatCommandDuration(850)).toBe('850ms');
+    expect(formatCommandDuration(4200)).toBe('4.2s');
+    expect(formatCommandDuration(185_000)).toBe('3m 05s');
+    expect(formatCommandDuration(4_320_000)).toBe('1h 12m');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Command History Utility
+ *
+ * Helpers for a terminal's command history: merging live updates into the
+ * loaded list and formatting run times.
+ */
+
+import type { CommandHistoryEntry } from '@masterdashboard/shared';
+
+/**
+ * Insert or replace an entry, keeping the list newest first and capped
+ */
+export function upsertCommand(
+  commands: CommandHistoryEntry[],
+  entry: CommandHistoryEntry,
+  limit: number
+): CommandHistoryEntry[] {
+  const rest = commands.filter((command) => command.id !== entry.id);
+  const index = rest.findIndex((command) => command.id < entry.id);
+  rest.splice(index === -1 ? rest.length : index, 0, entry);
+  return rest.slice(0, limit);
+}
+
+/**
+ * Whether a command exited with a non-zero code
+ */
+export function isFailedCommand(entry: CommandHistoryEntry): boolean {
+  return entry.exitCode !== null && entry.exitCode !== 0;
+}
+
+/**
+ * Format a run time compactly: 850ms, 4.2s, 3m 05s, 1h 12m
+ */
+export function formatCommandDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.max(0, Math.round(ms))}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+  return `${minutes}m ${String(totalSeconds % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseEnvLines, formatEnvLines } from './env-vars';
+
+describe('parseEnvLines', () => {
+  it('should parse KEY=VALUE lines', () => {
+    const { env, invalidLines } = parseEnvLines(
+      ['NODE_ENV=development', '', '# comment', 'export PORT = 3000', 'URL=http://x?a=b'].join('\n')
+    );
+
+    expect(env).toEqual({ NODE_ENV: 'development', PORT: '3000', URL: 'http://x?a=b' });
+    expect(invalidLines).toEqual([]);
+  });
+
+  it('should strip matching quotes only', () => {
+    const { env } = parseEnvLines(`A="quoted value"\nB='single'\nC="unbalanced`);
+
+    expect(env).toEqual({ A: 'quoted value', B: 'single', C: '"unbalanced' });
+  });
+
+  it('should report invalid lines', () => {
+    const { env, invalidLines } = parseEnvLines('GOOD=1\nno separator\n1BAD=2\n=empty');
+
+    expect(env).toEqual({ GOOD: '1' });
+    expect(invalidLines).toEqual([2, 3, 4]);
+  });
+});
+
+describe('formatEnvLines', () => {
+  it('should round-trip through parseEnvLines', () => {
+    const env = { EDITOR: 'vim', EMPTY: '' };
+
+    expect(formatEnvLines(env)).toBe('EDITOR=vim\nEMPTY=');
+    expect(parseEnvLines(formatEnvLines(env)).env).toEqual(env);
+    expect(formatEnvLines(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Environment variable helpers
+ *
+ * Converts between a terminal's environment and the KEY=VALUE lines it is
+ * edited as.
+ */
+
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface ParsedEnvLines {
+  env: Record<string, string>;
+  /** 1-based numbers of lines that are not KEY=VALUE */
+  invalidLines: number[];
+}
+
+/**
+ * Parse KEY=VALUE lines
+ * Blank lines and lines starting with # are skipped, a leading "export" is
+ * allowed, and matching quotes around a value are removed.
+ */
+export function parseEnvLines(text: string): ParsedEnvLines {
+  const env: Record<string, string> = {};
+  const invalidLines: number[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const assignment = line.replace(/^export\s+/, '');
+    const separator = assignment.indexOf('=');
+    const name = separator > 0 ? assignment.slice(0, separator).trim() : '';
+    if (!ENV_NAME_REGEX.test(name)) {
+      invalidLines.push(index + 1);
+      return;
+    }
+
+    let value = assignment.slice(separator + 1).trim();
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+      value = value.slice(1, -1);
+    }
+    env[name] = value;
+  });
+
+  return { env, invalidLines };
+}
+
+/**
+ * Format an environment as KEY=VALUE lines
+ */
+export function formatEnvLines(env: Readonly<Record<string, string>> | undefined): string {
+  return Object.entries(env ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+}
@@ -0,0 +1,49 @@
+/**
+ * Playback Utility Tests
+ *
+ * Tests for recording replay helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { RecordingEvent } from '@masterdashboard/shared';
+import { eventIndexAt, collectOutput, formatPlaybackTime } from './playback';
+
+const events: RecordingEvent[] = [
+  [0.1, 'o', 'a'],
+  [0.5, 'o', 'b'],
+  [0.5, 'r', '100x30'],
+  [2, 'o', 'c'],
+];
+
+describe('eventIndexAt', () => {
+  it('should count events at or before the time', () => {
+    expect(eventIndexAt(events, 0)).toBe(0);
+    expect(eventIndexAt(events, 0.1)).toBe(1);
+    expect(eventIndexAt(events, 0.5)).toBe(3);
+    expect(eventIndexAt(events, 1.9)).toBe(3);
+    expect(eventIndexAt(events, 10)).toBe(4);
+  });
+
+  it('should handle an empty recording', () => {
+    expect(eventIndexAt([], 5)).toBe(0);
+  });
+});
+
+describe('collectOutput', () => {
+  it('should join output events and skip resizes', () => {
+    expect(collectOutput(events, 0, 4)).toBe('abc');
+    expect(collectOutput(events, 1, 3)).toBe('b');
+    expect(collectOutput(events, 2, 2)).toBe('');
+  });
+});
+
+describe('formatPlaybackTime', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatPlaybackTime(0)).toBe('0:00');
+    expect(formatPlaybackTime(65.9)).toBe('1:05');
+  });
+
+  it('should include hours for long recordings', () => {
+    expect(formatPlaybackTime(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Playback Utility
+ *
+ * Helpers for replaying recorded terminal sessions (asciicast v2 events):
+ * locating the playhead in the event list and collecting output to write.
+ */
+
+import type { RecordingEvent } from '@masterdashboard/shared';
+
+/**
+ * Number of events at or before a point in time (index of the next event to play)
+ */
+export function eventIndexAt(events: RecordingEvent[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (events[mid]![0] <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Concatenate the output of events in [from, to)
+ * Resize events are skipped; the player keeps its own size.
+ */
+export function collectOutput(events: RecordingEvent[], from: number, to: number): string {
+  let output = '';
+  for (let i = from; i < to; i++) {
+    const event = events[i]!;
+    if (event[1] === 'o') {
+      output += event[2];
+    }
+  }
+  return output;
+}
+
+/**
+ * Format seconds as m:ss (or h:mm:ss for long recordings)
+ */
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Quick Reply Utility Tests
+ *
+ * Tests for inferring one-click answers to waiting prompts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ShellType } from '@masterdashboard/shared';
+import { inferQuickReplies, parseMenuOptions } from './quick-replies';
+
+const PERMISSION_MENU = [
+  ' Bash command',
+  '   npm test',
+  ' Do you want to proceed?',
+  ' ❯ 1. Yes',
+  "   2. Yes, and don't ask again for npm test commands",
+  '   3. No, and tell Claude what to do differently (esc)',
+];
+
+describe('parseMenuOptions', () => {
+  it('should parse a numbered menu into digit replies', () => {
+    expect(parseMenuOptions(PERMISSION_MENU)).toEqual([
+      { label: '1. Yes', data: '1' },
+      { label: "2. Yes, and don't ask again for npm test commands", data: '2' },
+      { label: '3. No, and tell Claude what to do differently (esc)', data: '3' },
+    ]);
+  });
+
+  it('should use the last menu when output contains several', () => {
+    const lines = ['1. Install deps', '2. Run tests', 'Done.', ' ❯ 1. Yes', '   2. No'];
+    expect(parseMenuOptions(lines).map((option) => option.data)).toEqual(['1', '2']);
+  });
+
+  it('should ignore numbered lines that are not a menu', () => {
+    expect(parseMenuOptions(['Step 1. Build', '2. done'])).toEqual([]);
+    expect(parseMenuOptions(['1. Only one'])).toEqual([]);
+  });
+});
+
+describe('inferQuickReplies', () => {
+  it('should offer y/n for yes/no prompts', () => {
+    const replies = inferQuickReplies({
+      matchedPatternId: 'yes-no-prompt',
+      promptLines: ['Overwrite file? [y/N]'],
+    });
+    expect(replies.map((reply) => reply.data)).toEqual(['y\r', 'n\r']);
+  });
+
+  it('should offer menu options for Claude Code permission prompts', () => {
+    expect(
+      inferQuickReplies({ matchedPatternId: 'claude-permission-menu', promptLines: PERMISSION_MENU })
+    ).toHaveLength(3);
+
+    // Hook-driven sessions carry no pattern, only the shell
+    expect(
+      inferQuickReplies({ shell: ShellType.CLAUDE_CODE, promptLines: PERMISSION_MENU })
+    ).toHaveLength(3);
+  });
+
+  it('should offer nothing for other prompts', () => {
+    expect(
+      inferQuickReplies({ matchedPatternId: 'bash-prompt-dollar', promptLines: PERMISSION_MENU })
+    ).toEqual([]);
+  });
+});
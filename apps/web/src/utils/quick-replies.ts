@@ -0,0 +1,87 @@
+/**
+ * Quick reply helpers
+ *
+ * Infers one-click answers for a waiting terminal from the pattern that put
+ * it in the waiting state and the prompt lines the server sent with it.
+ */
+
+import { ShellType } from '@masterdashboard/shared';
+
+/**
+ * A one-click answer and the input it sends
+ */
+export interface QuickReply {
+  /** Button label */
+  label: string;
+  /** Raw terminal input */
+  data: string;
+}
+
+/**
+ * What is known about why a terminal is waiting
+ */
+export interface WaitingPrompt {
+  /** ID of the status pattern that matched, if any */
+  matchedPatternId?: string;
+  /** Last lines of output when the terminal started waiting */
+  promptLines: string[];
+  /** Shell running in the terminal */
+  shell?: ShellType;
+}
+
+/** A menu entry such as "❯ 1. Yes" or "  2. No, and tell Claude what to do" */
+const MENU_OPTION_REGEX = /^\s*(?:[❯>›]\s*)?(\d)\.\s+(.+?)\s*$/;
+
+/** Patterns whose prompt is answered with y or n */
+const YES_NO_PATTERN_IDS = new Set(['yes-no-prompt']);
+
+const CLAUDE_SHELLS = new Set<ShellType | undefined>([
+  ShellType.CLAUDE_CODE,
+  ShellType.CLAUDE_CODE_SKIP_PERMISSIONS,
+]);
+
+/**
+ * Parse a numbered menu (1., 2., ...) from the end of the prompt.
+ * Claude Code selects an option as soon as its digit is typed.
+ */
+export function parseMenuOptions(promptLines: string[]): QuickReply[] {
+  const options: QuickReply[] = [];
+
+  for (const line of promptLines) {
+    const match = MENU_OPTION_REGEX.exec(line);
+    if (!match) continue;
+
+    const [, digit, label] = match;
+    // A "1." starts a new menu; anything out of sequence is not a menu entry
+    if (digit === '1') {
+      options.length = 0;
+    } else if (Number(digit) !== options.length + 1) {
+      continue;
+    }
+    options.push({ label: `${digit}. ${label}`, data: digit! });
+  }
+
+  return options.length >= 2 ? options : [];
+}
+
+/**
+ * Infer quick replies for a waiting prompt; free text is always possible
+ * and is not included
+ */
+export function inferQuickReplies(prompt: WaitingPrompt): QuickReply[] {
+  if (prompt.matchedPatternId && YES_NO_PATTERN_IDS.has(prompt.matchedPatternId)) {
+    return [
+      { label: 'Yes', data: 'y\r' },
+      { label: 'No', data: 'n\r' },
+    ];
+  }
+
+  if (
+    prompt.matchedPatternId === 'claude-permission-menu' ||
+    CLAUDE_SHELLS.has(prompt.shell)
+  ) {
+    return parseMenuOptions(prompt.promptLines);
+  }
+
+  return [];
+}
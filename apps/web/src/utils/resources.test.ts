@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { SessionResourcePoint } from '@masterdashboard/shared';
+import { formatBytes, appendResourceHistory, sparklinePoints } from './resources';
+
+function point(second: number, cpuPercent = 0): SessionResourcePoint {
+  return {
+    timestamp: `2026-03-01T12:00:${String(second).padStart(2, '0')}.000Z`,
+    cpuPercent,
+    rssBytes: 1024,
+  };
+}
+
+describe('formatBytes', () => {
+  it('should pick a unit by magnitude', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(4096)).toBe('4.0 KB');
+    expect(formatBytes(120 * 1024 * 1024)).toBe('120 MB');
+    expect(formatBytes(1.5 * 1024 ** 3)).toBe('1.5 GB');
+  });
+});
+
+describe('appendResourceHistory', () => {
+  it('should add points and keep the newest', () => {
+    const history = [point(0), point(5)];
+    expect(appendResourceHistory(history, point(10), 2)).toEqual([point(5), point(10)]);
+  });
+
+  it('should not add a point twice', () => {
+    const history = [point(0), point(5)];
+    expect(appendResourceHistory(history, point(5), 10)).toBe(history);
+  });
+});
+
+describe('sparklinePoints', () => {
+  it('should spread values across the width and scale to the maximum', () => {
+    expect(sparklinePoints([0, 50, 100], 40, 10)).toBe('0,10 20,5 40,0');
+  });
+
+  it('should scale to a given maximum when values stay under it', () => {
+    expect(sparklinePoints([0, 50], 10, 10, 200)).toBe('0,10 10,7.5');
+  });
+
+  it('should handle no values, a single value and all zeros', () => {
+    expect(sparklinePoints([], 40, 10)).toBe('');
+    expect(sparklinePoints([5], 40, 10)).toBe('40,0');
+    expect(sparklinePoints([0, 0], 40, 10)).toBe('0,10 40,10');
+  });
+});
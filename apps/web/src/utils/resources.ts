@@ -0,0 +1,68 @@
+/**
+ * Resource Monitoring Utility
+ *
+ * Helpers for showing terminal resource use: formatting memory, keeping a
+ * session's sample history, and drawing sparklines.
+ */
+
+import type { SessionResourcePoint } from '@masterdashboard/shared';
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Format a byte count compactly: 512 B, 4.0 KB, 120 MB, 1.5 GB
+ */
+export function formatBytes(bytes: number): string {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const digits = unit === 0 || value >= 100 ? 0 : 1;
+  return `${value.toFixed(digits)} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Add a point to a history, keeping the newest `limit` points
+ * A point already in the history (same timestamp) is not added again.
+ */
+export function appendResourceHistory(
+  history: SessionResourcePoint[],
+  point: SessionResourcePoint,
+  limit: number
+): SessionResourcePoint[] {
+  if (history[history.length - 1]?.timestamp === point.timestamp) {
+    return history;
+  }
+  return [...history, point].slice(-limit);
+}
+
+/**
+ * SVG polyline points for a sparkline, oldest value on the left
+ * Values are scaled to `max`, or to the largest value if that is higher.
+ */
+export function sparklinePoints(
+  values: number[],
+  width: number,
+  height: number,
+  max = 0
+): string {
+  if (values.length === 0) {
+    return '';
+  }
+
+  const top = Math.max(max, ...values) || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values
+    .map((value, index) => {
+      const x = values.length > 1 ? index * step : width;
+      const y = height - (Math.max(0, value) / top) * height;
+      return `${round(x)},${round(y)}`;
+    })
+    .join(' ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { ScheduledCommand } from '@masterdashboard/shared';
+import { upsertSchedule, runAtAfterMinutes, formatTimeUntil, describeSchedule } from './schedules';
+
+function schedule(id: string, overrides: Partial<ScheduledCommand> = {}): ScheduledCommand {
+  return {
+    id,
+    projectId: 'prj_1',
+    sessionId: 'term_1',
+    name: `Schedule ${id}`,
+    kind: 'cron',
+    cron: '0 2 * * *',
+    runAt: null,
+    command: 'pnpm test:e2e',
+    enter: true,
+    paused: false,
+    nextRunAt: '2026-03-02T02:00:00.000Z',
+    lastRunAt: null,
+    lastError: null,
+    createdAt: '2026-03-01T09:00:00.000Z',
+    updatedAt: '2026-03-01T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('upsertSchedule', () => {
+  it('should replace a schedule in place after it runs', () => {
+    const ran = schedule('b', { lastRunAt: '2026-03-01T12:00:00.000Z' });
+    const schedules = upsertSchedule([schedule('a'), schedule('b'), schedule('c')], ran);
+    expect(schedules.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+    expect(schedules[1]).toBe(ran);
+  });
+
+  it('should add schedules it has not seen', () => {
+    expect(upsertSchedule([schedule('a')], schedule('b')).map((s) => s.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('runAtAfterMinutes', () => {
+  it('should add minutes to now', () => {
+    expect(runAtAfterMinutes(30, NOW)).toBe('2026-03-01T12:30:00.000Z');
+  });
+});
+
+describe('formatTimeUntil', () => {
+  it('should format by magnitude', () => {
+    expect(formatTimeUntil('2026-03-01T12:00:45.000Z', NOW)).toBe('in 45s');
+    expect(formatTimeUntil('2026-03-01T12:12:00.000Z', NOW)).toBe('in 12m');
+    expect(formatTimeUntil('2026-03-01T15:05:00.000Z', NOW)).toBe('in 3h 05m');
+    expect(formatTimeUntil('2026-03-03T16:00:00.000Z', NOW)).toBe('in 2d 4h');
+  });
+
+  it('should call past runs due', () => {
+    expect(formatTimeUntil('2026-03-01T11:59:00.000Z', NOW)).toBe('due');
+  });
+});
+
+describe('describeSchedule', () => {
+  it('should show the cron expression', () => {
+    expect(describeSchedule(schedule('a'))).toBe('Cron 0 2 * * *');
+  });
+
+  it('should show a one-off run time', () => {
+    const once = schedule('a', { kind: 'once', cron: null, runAt: '2026-03-01T12:30:00.000Z' });
+    expect(describeSchedule(once)).toMatch(/^Once at /);
+  });
+});
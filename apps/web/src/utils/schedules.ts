@@ -0,0 +1,64 @@
+/**
+ * Scheduled Commands Utility
+ *
+ * Helpers for the schedules panel: merging live run updates into the
+ * loaded list and describing when a schedule runs.
+ */
+
+import type { ScheduledCommand } from '@masterdashboard/shared';
+
+/**
+ * Replace a schedule in the list, or add it at the end if it is new
+ */
+export function upsertSchedule(
+  schedules: ScheduledCommand[],
+  schedule: ScheduledCommand
+): ScheduledCommand[] {
+  const index = schedules.findIndex((existing) => existing.id === schedule.id);
+  if (index === -1) {
+    return [...schedules, schedule];
+  }
+  return schedules.map((existing, i) => (i === index ? schedule : existing));
+}
+
+/**
+ * ISO run time a number of minutes from now
+ */
+export function runAtAfterMinutes(minutes: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + minutes * 60_000).toISOString();
+}
+
+/**
+ * Time until a run, compactly: "in 45s", "in 12m", "in 3h 05m", "in 2d 4h";
+ * "due" once it has passed
+ */
+export function formatTimeUntil(iso: string, now: Date = new Date()): string {
+  const ms = new Date(iso).getTime() - now.getTime();
+  if (ms <= 0) {
+    return 'due';
+  }
+
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `in ${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `in ${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `in ${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  }
+  return `in ${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * One-line description of when a schedule runs
+ */
+export function describeSchedule(schedule: ScheduledCommand): string {
+  if (schedule.kind === 'cron') {
+    return `Cron ${schedule.cron}`;
+  }
+  return `Once at ${new Date(schedule.runAt ?? '').toLocaleString()}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Scrollback Search Utility Tests
+ *
+ * Tests for mapping server search results onto the local terminal buffer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BufferSearchResult } from '@masterdashboard/shared';
+import { locateMatch, type SearchableBuffer } from './scrollback-search';
+
+const COLS = 10;
+
+/**
+ * Build a fake buffer from rows; a leading '+' marks a wrapped row
+ */
+function createBuffer(rows: string[]): SearchableBuffer {
+  return {
+    getLine: (y) => {
+      const raw = rows[y];
+      if (raw === undefined) return undefined;
+      const isWrapped = raw.startsWith('+');
+      const text = (isWrapped ? raw.slice(1) : raw).padEnd(COLS);
+      return {
+        isWrapped,
+        translateToString: (trimRight) => (trimRight ? text.trimEnd() : text),
+      };
+    },
+  };
+}
+
+function result(lineNumber: number, lineContent: string, needle: string): BufferSearchResult {
+  const matchStart = lineContent.indexOf(needle);
+  return { lineNumber, lineContent, matchStart, matchEnd: matchStart + needle.length };
+}
+
+describe('locateMatch', () => {
+  // Logical lines: "$ make", "error: 0123456789" (wraps), "$ "
+  const buffer = createBuffer(['$ make', 'error: 012', '+3456789', '$']);
+
+  it('should align lines from the bottom of both buffers', () => {
+    // The server holds two older lines the client no longer has
+    expect(locateMatch(buffer, 3, COLS, result(2, '$ make', 'make'), 5)).toEqual({
+      row: 0,
+      col: 2,
+      length: 4,
+    });
+  });
+
+  it('should follow matches onto wrapped rows', () => {
+    expect(locateMatch(buffer, 3, COLS, result(1, 'error: 0123456789', '456'), 3)).toEqual({
+      row: 2,
+      col: 1,
+      length: 3,
+    });
+  });
+
+  it('should return null for lines older than the local scrollback', () => {
+    expect(locateMatch(buffer, 3, COLS, result(0, 'ancient', 'anc'), 5)).toBeNull();
+  });
+
+  it('should fall back to the line start when the text has changed', () => {
+    expect(locateMatch(buffer, 3, COLS, result(0, '$ rm -rf', 'rm'), 3)).toEqual({
+      row: 0,
+      col: 0,
+      length: 0,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Scrollback search helpers
+ *
+ * Maps server-side scrollback matches (logical output lines) onto the rows of
+ * the local xterm buffer, where long lines wrap across several rows.
+ */
+
+import type { BufferSearchResult } from '@masterdashboard/shared';
+
+/**
+ * The parts of an xterm buffer needed to locate a match
+ */
+export interface SearchableBuffer {
+  getLine(y: number): { isWrapped: boolean; translateToString(trimRight?: boolean): string } | undefined;
+}
+
+/**
+ * Where a match sits in the local buffer
+ */
+export interface MatchLocation {
+  /** Buffer row the match starts on */
+  row: number;
+  /** Column the match starts at */
+  col: number;
+  /** Match length in cells (0 when only the line could be found) */
+  length: number;
+}
+
+/**
+ * Locate a server search result in the local terminal buffer.
+ * Both buffers end with the same output, so lines are aligned from the
+ * bottom. Returns null when the line is older than the local scrollback.
+ *
+ * @param buffer - Local terminal buffer
+ * @param lastRow - Last buffer row holding output (the cursor row)
+ * @param cols - Terminal width
+ * @param result - Match from the server
+ * @param totalLines - Number of lines the server searched
+ */
+export function locateMatch(
+  buffer: SearchableBuffer,
+  lastRow: number,
+  cols: number,
+  result: BufferSearchResult,
+  totalLines: number
+): MatchLocation | null {
+  // First row of every logical line
+  const lineStarts: number[] = [];
+  for (let y = 0; y <= lastRow; y++) {
+    if (y === 0 || !buffer.getLine(y)?.isWrapped) {
+      lineStarts.push(y);
+    }
+  }
+
+  const index = result.lineNumber - (totalLines - lineStarts.length);
+  if (index < 0 || index >= lineStarts.length) {
+    return null;
+  }
+
+  const startRow = lineStarts[index]!;
+  const endRow = index + 1 < lineStarts.length ? lineStarts[index + 1]! : lastRow + 1;
+  let text = '';
+  for (let y = startRow; y < endRow; y++) {
+    text += buffer.getLine(y)?.translateToString(y === endRow - 1) ?? '';
+  }
+
+  const needle = result.lineContent.slice(result.matchStart, result.matchEnd);
+  let col = text.slice(result.matchStart, result.matchEnd) === needle
+    ? result.matchStart
+    : text.indexOf(needle);
+
+  if (col < 0) {
+    // The line moved (e.g. redrawn since); show it without a selection
+    return { row: startRow, col: 0, length: 0 };
+  }
+
+  const row = startRow + Math.floor(col / cols);
+  col %= cols;
+  return { row, col, length: needle.length };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { NodeType, ShellType, type DashboardNode } from '@masterdashboard/shared';
+import { canvasToTemplateNodes, launchedNodeToGroupItem } from './workspace-templates';
+
+function node(type: NodeType, data: Record<string, unknown>, extra: Partial<DashboardNode> = {}): DashboardNode {
+  return {
+    id: `node-${type}`,
+    type,
+    position: { x: 10.4, y: 20.6 },
+    data: { sessionId: 'term_1', label: `${type} 1`, projectId: 'prj_1', ...data },
+    ...extra,
+  } as DashboardNode;
+}
+
+describe('canvasToTemplateNodes', () => {
+  it('should keep a terminal setup and drop runtime state', () => {
+    const [terminal] = canvasToTemplateNodes([
+      node(
+        NodeType.TERMINAL,
+        {
+          shell: ShellType.ZSH,
+          cwd: '/work/app/api',
+          env: { PORT: '4000' },
+          initialCommand: 'pnpm dev',
+          connected: true,
+          activityStatus: 'working',
+        },
+        { style: { width: 640.7, height: 50 } }
+      ),
+    ]);
+
+    expect(terminal).toEqual({
+      type: NodeType.TERMINAL,
+      label: 'terminal 1',
+      position: { x: 10, y: 21 },
+      size: { width: 641, height: 100 },
+      data: undefined,
+      shell: ShellType.ZSH,
+      cwd: '/work/app/api',
+      env: { PORT: '4000' },
+      command: 'pnpm dev',
+      hooks: undefined,
+    });
+  });
+
+  it('should map folder and git paths to cwd and keep their view settings', () => {
+    const [folder, git] = canvasToTemplateNodes([
+      node(NodeType.FOLDER, { rootPath: '/work/app', currentPath: '/work/app/src', showHidden: true, expandedPaths: ['/a'] }),
+      node(NodeType.GIT, { repoPath: '/work/app', viewMode: 'log', selectedFiles: ['a.ts'] }),
+    ]);
+
+    expect(folder).toMatchObject({ cwd: '/work/app', data: { showHidden: true } });
+    expect(git).toMatchObject({ cwd: '/work/app', data: { viewMode: 'log' } });
+    expect(git!.size).toBeUndefined();
+  });
+});
+
+describe('launchedNodeToGroupItem', () => {
+  it('should attach the created session to a terminal', () => {
+    const item = launchedNodeToGroupItem({
+      node: {
+        type: NodeType.TERMINAL,
+        label: 'API',
+        position: { x: 0, y: 0 },
+        shell: ShellType.BASH,
+        cwd: '/work/app/api',
+        command: 'pnpm dev',
+      },
+      sessionId: 'term_9',
+    });
+
+    expect(item).toEqual({
+      type: NodeType.TERMINAL,
+      position: { x: 0, y: 0 },
+      size: undefined,
+      data: {
+        label: 'API',
+        sessionId: 'term_9',
+        shell: ShellType.BASH,
+        cwd: '/work/app/api',
+        initialCommand: 'pnpm dev',
+      },
+    });
+  });
+
+  it('should open folders and repositories at the resolved cwd', () => {
+    const folder = launchedNodeToGroupItem({
+      node: { type: NodeType.FOLDER, position: { x: 0, y: 0 }, cwd: '/work/app', data: { showHidden: true } },
+      sessionId: null,
+    });
+
+    expect(folder.data).toEqual({ showHidden: true, rootPath: '/work/app', currentPath: '/work/app' });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Workspace template helpers
+ *
+ * Converts canvas nodes to template nodes when saving the canvas as a
+ * template, and launched template nodes back to canvas nodes.
+ */
+
+import {
+  NodeType,
+  type DashboardNode,
+  type DashboardNodeData,
+  type FolderViewerNodeData,
+  type GitNodeData,
+  type LaunchedTemplateNode,
+  type TerminalNodeData,
+  type WorkspaceTemplateNode,
+} from '@masterdashboard/shared';
+import type { NodeGroupItem } from '@/stores/canvas-store';
+
+/** Node data worth keeping in a template, besides what the template fields cover */
+const TEMPLATE_DATA_KEYS: Partial<Record<NodeType, readonly string[]>> = {
+  [NodeType.BROWSER]: ['url', 'engine'],
+  [NodeType.NOTES]: ['content', 'color'],
+  [NodeType.FOLDER]: ['viewMode', 'showHidden', 'sortBy', 'sortDirection'],
+  [NodeType.GIT]: ['viewMode', 'commitLimit'],
+};
+
+/** Node sizes templates accept */
+const MIN_NODE_SIZE = 100;
+const MAX_NODE_SIZE = 2000;
+
+function clampSize(value: number): number {
+  return Math.min(MAX_NODE_SIZE, Math.max(MIN_NODE_SIZE, Math.round(value)));
+}
+
+function pickData(type: NodeType, data: DashboardNodeData): Record<string, unknown> | undefined {
+  const keys = TEMPLATE_DATA_KEYS[type] ?? [];
+  const picked = Object.fromEntries(
+    keys.filter((key) => data[key] !== undefined).map((key) => [key, data[key]])
+  );
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Describe canvas nodes as template nodes
+ * Runtime state (sessions, connection, loaded content) is left out. Node
+ * types a template cannot recreate meaningfully keep only their position.
+ */
+export function canvasToTemplateNodes(nodes: DashboardNode[]): WorkspaceTemplateNode[] {
+  return nodes.map((node) => {
+    const type = node.type as NodeType;
+    const width = (node.style?.width as number | undefined) ?? node.measured?.width;
+    const height = (node.style?.height as number | undefined) ?? node.measured?.height;
+
+    const templateNode: WorkspaceTemplateNode = {
+      type,
+      label: node.data.label,
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+      size: width && height ? { width: clampSize(width), height: clampSize(height) } : undefined,
+      data: pickData(type, node.data),
+    };
+
+    switch (type) {
+      case NodeType.TERMINAL: {
+        const data = node.data as TerminalNodeData;
+        templateNode.shell = data.shell;
+        templateNode.cwd = data.cwd;
+        templateNode.env = data.env;
+        templateNode.command = data.initialCommand;
+        templateNode.hooks = data.hooks;
+        break;
+      }
+      case NodeType.FOLDER:
+        templateNode.cwd = (node.data as FolderViewerNodeData).rootPath;
+        break;
+      case NodeType.GIT:
+        templateNode.cwd = (node.data as GitNodeData).repoPath;
+        break;
+    }
+
+    return templateNode;
+  });
+}
+
+/**
+ * Turn a launched template node into a node to add to the canvas
+ * A terminal whose session failed to start gets no session ID, so it
+ * creates one itself when it mounts.
+ */
+export function launchedNodeToGroupItem({ node, sessionId }: LaunchedTemplateNode): NodeGroupItem {
+  const data: Record<string, unknown> = { ...node.data };
+  if (node.label) {
+    data.label = node.label;
+  }
+
+  switch (node.type) {
+    case NodeType.TERMINAL:
+      Object.assign(data, {
+        sessionId: sessionId ?? '',
+        shell: node.shell,
+        cwd: node.cwd,
+        env: node.env,
+        initialCommand: node.command,
+        hooks: node.hooks,
+      });
+      break;
+    case NodeType.FOLDER:
+      Object.assign(data, { rootPath: node.cwd, currentPath: node.cwd });
+      break;
+    case NodeType.GIT:
+      Object.assign(data, { repoPath: node.cwd });
+      break;
+  }
+
+  return {
+    type: node.type,
+    position: node.position,
+    size: node.size,
+    data: Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<DashboardNodeData>,
+  };
+}
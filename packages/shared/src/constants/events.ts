@@ -43,6 +43,8 @@ export const EVENTS_BY_CATEGORY: Readonly<Record<string, readonly string[]>> = {
     WS_EVENTS.SESSION_ERROR,
     WS_EVENTS.SESSION_LIST,
     WS_EVENTS.SESSION_LIST_RESPONSE,
+    WS_EVENTS.SESSION_SCHEDULE_RUN,
+    WS_EVENTS.SESSION_RESOURCES,
   ],
   [EVENT_CATEGORIES.TERMINAL]: [
     WS_EVENTS.TERMINAL_INPUT,
@@ -52,12 +54,27 @@ export const EVENTS_BY_CATEGORY: Readonly<Record<string, readonly string[]>> = {
     WS_EVENTS.TERMINAL_RECONNECT_RESPONSE,
     WS_EVENTS.TERMINAL_BUFFER,
     WS_EVENTS.TERMINAL_CLEAR,
+    WS_EVENTS.TERMINAL_SEARCH,
+    WS_EVENTS.TERMINAL_SEARCH_RESULTS,
+    WS_EVENTS.TERMINAL_WINDOWS,
+    WS_EVENTS.TERMINAL_WINDOW_ACTION,
+    WS_EVENTS.TERMINAL_WINDOWS_STATE,
+    WS_EVENTS.TERMINAL_BROADCAST,
+    WS_EVENTS.TERMINAL_SHELL_STATE,
+    WS_EVENTS.TERMINAL_COMMAND,
+    WS_EVENTS.TERMINAL_TRIGGER_FIRED,
+    WS_EVENTS.TERMINAL_TRIGGER_EXECUTED,
   ],
   [EVENT_CATEGORIES.STATUS]: [
     WS_EVENTS.STATUS_CHANGE,
     WS_EVENTS.STATUS_PATTERN_ADD,
     WS_EVENTS.STATUS_PATTERN_REMOVE,
     WS_EVENTS.STATUS_PATTERNS_LIST,
+    WS_EVENTS.STATUS_PATTERNS_LIST_RESPONSE,
+    WS_EVENTS.STATUS_PATTERN_TEST,
+    WS_EVENTS.STATUS_PATTERN_TEST_RESULT,
+    WS_EVENTS.STATUS_HOOK_EVENT,
+    WS_EVENTS.STATUS_NOTIFICATION,
   ],
   [EVENT_CATEGORIES.PROJECT]: [
     WS_EVENTS.PROJECT_CREATE,
@@ -76,6 +93,8 @@ export const EVENTS_BY_CATEGORY: Readonly<Record<string, readonly string[]>> = {
     WS_EVENTS.LAYOUT_LOADED,
     WS_EVENTS.LAYOUT_DELETE,
     WS_EVENTS.LAYOUT_DELETED,
+    WS_EVENTS.TEMPLATE_LAUNCH,
+    WS_EVENTS.TEMPLATE_LAUNCHED,
   ],
   [EVENT_CATEGORIES.BROWSER]: [
     WS_EVENTS.BROWSER_FRAME,
@@ -107,11 +126,49 @@ export const AUTHENTICATED_EVENTS: readonly string[] = [
   WS_EVENTS.LAYOUT_DELETE,
 ] as const;
 
+/**
+ * Events read-only (viewer) members may send
+ * Every other event is treated as modifying state and needs the operator role,
+ * so new events are blocked for viewers until they are added here.
+ */
+export const READ_ONLY_ALLOWED_EVENTS: readonly string[] = [
+  WS_EVENTS.PING,
+  WS_EVENTS.RECONNECT,
+  WS_EVENTS.SESSION_LIST,
+  WS_EVENTS.TERMINAL_RECONNECT,
+  WS_EVENTS.TERMINAL_SEARCH,
+  WS_EVENTS.TERMINAL_WINDOWS,
+  WS_EVENTS.STATUS_PATTERNS_LIST,
+  WS_EVENTS.STATUS_PATTERN_TEST,
+  WS_EVENTS.PROJECT_LIST,
+  WS_EVENTS.LAYOUT_LOAD,
+  WS_EVENTS.FILE_LIST,
+  WS_EVENTS.FILE_TREE,
+  WS_EVENTS.FILE_INFO,
+  WS_EVENTS.FILE_SEARCH,
+  WS_EVENTS.FILE_WATCH,
+  WS_EVENTS.FILE_READ,
+  WS_EVENTS.FILE_READ_IMAGE,
+  WS_EVENTS.NOTE_LIST,
+  WS_EVENTS.DATABASE_SCHEMA,
+  WS_EVENTS.DATABASE_TABLES,
+  WS_EVENTS.GIT_STATUS,
+  WS_EVENTS.GIT_LOG,
+  WS_EVENTS.GIT_BRANCHES,
+] as const;
+
+/**
+ * Socket.IO namespace used by read-only spectator links
+ * Clients on this namespace only receive output; every inbound event is rejected.
+ */
+export const SPECTATOR_NAMESPACE = '/spectate';
+
 /**
  * Events that should be rate-limited
  */
 export const RATE_LIMITED_EVENTS: Readonly<Record<string, number>> = {
   [WS_EVENTS.TERMINAL_INPUT]: 1000, // Max 1000/sec
+  [WS_EVENTS.TERMINAL_BROADCAST]: 1000, // Max 1000/sec
   [WS_EVENTS.TERMINAL_RESIZE]: 10,  // Max 10/sec
   [WS_EVENTS.BROWSER_INPUT]: 100,   // Max 100/sec
 } as const;
@@ -12,6 +12,7 @@ export {
   SHELL_ICONS,
   SHELL_STARTUP_ARGS,
   SHELL_ENV_DEFAULTS,
+  SESSION_ID_ENV_VAR,
   supportsLoginMode,
   isWindowsShell,
   getDefaultShell,
@@ -23,6 +24,8 @@ export {
   EVENT_CATEGORIES,
   EVENTS_BY_CATEGORY,
   AUTHENTICATED_EVENTS,
+  READ_ONLY_ALLOWED_EVENTS,
+  SPECTATOR_NAMESPACE,
   RATE_LIMITED_EVENTS,
   EVENT_TIMEOUT_MS,
   HEARTBEAT_INTERVAL_MS,
@@ -85,6 +85,12 @@ export const SHELL_ENV_DEFAULTS: Readonly<Record<string, string>> = {
   LANG: 'en_US.UTF-8',
 } as const;
 
+/**
+ * Environment variable holding the dashboard session ID in every terminal,
+ * so hook scripts can say which terminal they ran in
+ */
+export const SESSION_ID_ENV_VAR = 'MASTERDASHBOARD_SESSION_ID';
+
 /**
  * Check if a shell type supports login mode
  */
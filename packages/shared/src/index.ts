@@ -41,6 +41,16 @@ export {
   type TerminalSession,
   type SerializedTerminalSession,
   type TerminalConfig,
+  type TerminalHooks,
+  type TmuxPane,
+  type TmuxWindow,
+  type TmuxSplitDirection,
+  type TerminalWindowAction,
+  type ShellCommand,
+  type CommandHistoryEntry,
+  type CommandOutputLocation,
+  type ForeignTmuxSession,
+  type TmuxAdoptConfig,
   type TerminalReconnectPayload,
   type TerminalDimensions,
   DEFAULT_TERMINAL_DIMENSIONS,
@@ -62,9 +72,23 @@ export {
 // Status detection types
 export {
   type StatusPattern,
+  type StatusPatternSource,
+  type ListedStatusPattern,
   type CompiledStatusPattern,
   type StatusChangeEvent,
   type SerializedStatusChangeEvent,
+  type StatusTimerKind,
+  type StatusTimerConfig,
+  type StatusTimerSettings,
+  DEFAULT_STATUS_TIMERS,
+  type StatusTransitionSource,
+  type StatusTransition,
+  type StatusDurations,
+  type StatusSegment,
+  type SessionStatusSummary,
+  type PatternStatusStats,
+  type StatusSummary,
+  STATUS_SHORT_LIVED_MS,
   DEFAULT_STATUS_PATTERNS,
   type StatusDetectorConfig,
   DEFAULT_STATUS_DETECTOR_CONFIG,
@@ -83,6 +107,8 @@ export {
   type BufferReadOptions,
   type BufferSearchOptions,
   type BufferSearchResult,
+  type BufferSearchResults,
+  type SessionOutputMatches,
 } from './types/buffer.js';
 
 // Browser types (V2)
@@ -120,6 +146,7 @@ export {
   type DiffNodeData,
   type DatabaseNodeData,
   type GitNodeData,
+  type ReplayNodeData,
   type DashboardNodeData,
   type DashboardNode,
   type TerminalNode,
@@ -131,6 +158,7 @@ export {
   type DiffNode,
   type DatabaseNode,
   type GitNode,
+  type ReplayNode,
   type DashboardEdge,
   type CanvasViewport,
   type CanvasLayout,
@@ -145,6 +173,104 @@ export {
   DEFAULT_VIEWPORT,
 } from './types/canvas.js';
 
+// User types
+export {
+  ProjectRole,
+  PROJECT_ROLE_RANK,
+  hasProjectRole,
+  type User,
+  type ProjectMember,
+} from './types/user.js';
+
+// Audit types
+export {
+  AuditResult,
+  type AuditEntry,
+  type AuditLogQuery,
+} from './types/audit.js';
+
+// Share types
+export {
+  type SessionShare,
+  type CreatedSessionShare,
+  type SpectatorSessionInfo,
+} from './types/share.js';
+
+// Recording types
+export {
+  type RecordingEventCode,
+  type RecordingEvent,
+  type SessionRecording,
+  type AsciicastHeader,
+} from './types/recording.js';
+
+// Claude Code hook types
+export {
+  type ClaudeHookEventName,
+  type ClaudeHookPayload,
+  type ClaudeHookEvent,
+} from './types/claude-hooks.js';
+
+// Notification rule types
+export {
+  type NotificationTrigger,
+  type NotificationRuleScope,
+  type QuietHours,
+  type NotificationRule,
+  type NotificationRuleInput,
+  type StatusNotification,
+  DEFAULT_NOTIFICATION_RULE,
+} from './types/notifications.js';
+
+// Workspace template types
+export {
+  REPO_TEMPLATES_DIR,
+  type WorkspaceTemplateSource,
+  type WorkspaceTemplateNode,
+  type WorkspaceTemplateDefinition,
+  type WorkspaceTemplate,
+  type WorkspaceTemplateInput,
+  type TemplateLaunchPayload,
+  type LaunchedTemplateNode,
+  type TemplateLaunchResult,
+} from './types/templates.js';
+
+// Output trigger types
+export {
+  type OutputTriggerScope,
+  type SendKeysTriggerAction,
+  type NotifyTriggerAction,
+  type OpenBrowserTriggerAction,
+  type WebhookTriggerAction,
+  type RunCommandTriggerAction,
+  type OutputTriggerAction,
+  type OutputTriggerActionType,
+  type OutputTrigger,
+  type OutputTriggerInput,
+  type OutputTriggerExecution,
+  type OutputTriggerFired,
+  DEFAULT_TRIGGER_COOLDOWN_MS,
+  MIN_TRIGGER_COOLDOWN_MS,
+} from './types/triggers.js';
+
+// Scheduled command types
+export {
+  type ScheduleKind,
+  type ScheduledCommand,
+  type ScheduledCommandInput,
+} from './types/schedules.js';
+
+// Resource monitoring types
+export {
+  type KillTreeSignal,
+  type ProcessResourceUsage,
+  type SessionResourceSample,
+  type SessionResourcePoint,
+  type SessionResources,
+  type KillTreeResult,
+  RESOURCE_HISTORY_LENGTH,
+} from './types/resources.js';
+
 // Git types
 export {
   GitFileStatus,
@@ -190,10 +316,24 @@ export {
   type TerminalOutputPayload,
   type TerminalResizePayload,
   type TerminalReconnectRequest,
+  type TerminalSearchPayload,
+  type TerminalSearchResultsPayload,
+  type TerminalWindowsPayload,
+  type TerminalWindowActionPayload,
+  type TerminalWindowsStatePayload,
+  type BroadcastTarget,
+  type TerminalBroadcastPayload,
+  type TerminalShellStatePayload,
   type TerminalReconnectResponse,
+  type SpectatorSnapshotPayload,
+  type SpectatorEndedPayload,
   type StatusChangePayload,
   type StatusPatternAddPayload,
   type StatusPatternRemovePayload,
+  type StatusPatternsListPayload,
+  type StatusPatternsListResponsePayload,
+  type StatusPatternTestPayload,
+  type StatusPatternTestResultPayload,
   type ClientReconnectPayload,
   type ClientReconnectResponse,
   type ProjectCreatePayload,
@@ -328,6 +468,7 @@ export {
   SHELL_ICONS,
   SHELL_STARTUP_ARGS,
   SHELL_ENV_DEFAULTS,
+  SESSION_ID_ENV_VAR,
   supportsLoginMode,
   isWindowsShell,
   getDefaultShell,
@@ -338,6 +479,8 @@ export {
   EVENT_CATEGORIES,
   EVENTS_BY_CATEGORY,
   AUTHENTICATED_EVENTS,
+  READ_ONLY_ALLOWED_EVENTS,
+  SPECTATOR_NAMESPACE,
   RATE_LIMITED_EVENTS,
   EVENT_TIMEOUT_MS,
   HEARTBEAT_INTERVAL_MS,
@@ -388,6 +531,9 @@ export {
   createNodeId,
   createPatternId,
   createBufferId,
+  createUserId,
+  createShareId,
+  createRecordingId,
   createId,
   createShortId,
   createPinCode,
@@ -413,10 +559,22 @@ export {
   terminalDimensionsSchema,
   terminalConfigSchema,
   type ValidatedTerminalConfig,
+  tmuxAdoptSchema,
   // Project schemas
   projectSettingsSchema,
   createProjectConfigSchema,
   type ValidatedCreateProjectConfig,
+  // User schemas
+  projectRoleSchema,
+  createUserSchema,
+  type ValidatedCreateUser,
+  projectMemberSchema,
+  // Audit schemas
+  auditLogQuerySchema,
+  type ValidatedAuditLogQuery,
+  // Share schemas
+  createSessionShareSchema,
+  type ValidatedCreateSessionShare,
   // Browser schemas
   browserEngineSchema,
   browserViewportSchema,
@@ -434,12 +592,51 @@ export {
   // Status pattern schemas
   statusPatternSchema,
   type ValidatedStatusPattern,
+  statusPatternAddPayloadSchema,
+  statusPatternRemovePayloadSchema,
+  statusPatternsListPayloadSchema,
+  statusPatternTestPayloadSchema,
+  statusHistoryQuerySchema,
+  statusSummaryQuerySchema,
+  // Claude Code hook schemas
+  claudeHookPayloadSchema,
+  notificationRuleSchema,
+  notificationRulesQuerySchema,
+  // Workspace template schemas
+  templateIdSchema,
+  workspaceTemplateDefinitionSchema,
+  workspaceTemplateSchema,
+  workspaceTemplatesQuerySchema,
+  templateLaunchPayloadSchema,
   // Buffer schemas
   bufferConfigSchema,
   type ValidatedBufferConfig,
+  bufferSearchQuerySchema,
+  type ValidatedBufferSearchQuery,
+  projectOutputSearchQuerySchema,
+  type ValidatedProjectOutputSearchQuery,
+  commandHistoryQuerySchema,
+  type ValidatedCommandHistoryQuery,
+  // Output trigger schemas
+  outputTriggerActionSchema,
+  outputTriggerSchema,
+  outputTriggersQuerySchema,
+  outputTriggerExecutionsQuerySchema,
+  type ValidatedOutputTriggerExecutionsQuery,
+  // Scheduled command schemas
+  scheduledCommandSchema,
+  scheduledCommandsQuerySchema,
+  scheduledCommandPauseSchema,
+  // Resource monitoring schemas
+  resourcesQuerySchema,
+  killProcessTreeSchema,
   // WebSocket payload schemas
   terminalInputPayloadSchema,
   terminalResizePayloadSchema,
+  terminalSearchPayloadSchema,
+  terminalWindowsPayloadSchema,
+  terminalWindowActionPayloadSchema,
+  terminalBroadcastPayloadSchema,
   sessionCreatePayloadSchema,
   // Validation helpers
   validate,
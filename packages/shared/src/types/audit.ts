@@ -0,0 +1,61 @@
+/**
+ * Audit Types
+ *
+ * Types for the persistent audit log of security-relevant actions.
+ */
+
+/**
+ * Outcome of an audited action
+ */
+export enum AuditResult {
+  /** The action completed */
+  SUCCESS = 'success',
+  /** The action was attempted but failed */
+  FAILURE = 'failure',
+  /** The action was rejected by authorization */
+  DENIED = 'denied',
+}
+
+/**
+ * A single audit log entry
+ */
+export interface AuditEntry {
+  /** Sequential entry ID */
+  readonly id: number;
+  /** When the action happened (ISO string) */
+  readonly timestamp: string;
+  /** Socket client that performed the action (null for REST calls) */
+  clientId: string | null;
+  /** User account behind the action, if any */
+  userId: string | null;
+  /** Display name of the actor */
+  actor: string | null;
+  /** Project the action targeted */
+  projectId: string | null;
+  /** WebSocket event or REST action name */
+  event: string;
+  /** What the action targeted (session ID, file path, repository, host) */
+  target: string | null;
+  /** Outcome */
+  result: AuditResult;
+  /** Extra context (error message, query text, flags) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Filter and paging options for reading the audit log
+ */
+export interface AuditLogQuery {
+  projectId?: string;
+  event?: string;
+  result?: AuditResult;
+  userId?: string;
+  /** Only entries at or after this time (ISO string) */
+  since?: string;
+  /** Only entries before this time (ISO string) */
+  until?: string;
+  /** Page size */
+  limit?: number;
+  /** Entries to skip */
+  offset?: number;
+}
@@ -5,6 +5,8 @@
  * Supports 20,000 lines of scrollback per terminal.
  */
 
+import type { SessionType } from './session.js';
+
 /**
  * Default scrollback buffer configuration
  */
@@ -128,6 +130,8 @@ export interface BufferSearchOptions {
   maxResults?: number;
   /** Search direction */
   direction?: 'forward' | 'backward';
+  /** Lines of context to include around each match */
+  contextLines?: number;
 }
 
 /**
@@ -142,4 +146,31 @@ export interface BufferSearchResult {
   matchStart: number;
   /** End index of match within line */
   matchEnd: number;
+  /** Lines before the match (when context was requested) */
+  before?: string[];
+  /** Lines after the match (when context was requested) */
+  after?: string[];
+}
+
+/**
+ * Matches from a buffer search
+ */
+export interface BufferSearchResults {
+  /** Matches, ordered by search direction */
+  results: BufferSearchResult[];
+  /** Number of searchable lines in the buffer */
+  totalLines: number;
+  /** Whether the search stopped at maxResults */
+  truncated: boolean;
+}
+
+/**
+ * Search matches in one session, as returned by a project-wide output search
+ */
+export interface SessionOutputMatches extends BufferSearchResults {
+  sessionId: string;
+  /** Terminal or SSH */
+  sessionType: SessionType;
+  /** Display name of the session */
+  title: string;
 }
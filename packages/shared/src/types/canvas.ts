@@ -5,7 +5,7 @@
  */
 
 import type { Node, Edge } from '@xyflow/react';
-import type { ShellType, TerminalActivityStatus } from './terminal.js';
+import type { ShellType, TerminalActivityStatus, TerminalHooks } from './terminal.js';
 import type { BrowserEngine } from './browser.js';
 import type {
   DatabaseEngine,
@@ -29,6 +29,7 @@ export enum NodeType {
   DIFF = 'diff',
   DATABASE = 'database',
   GIT = 'git',
+  REPLAY = 'replay',
 }
 
 /**
@@ -57,6 +58,12 @@ export interface TerminalNodeData extends BaseNodeData {
   cwd: string;
   /** Custom title */
   title?: string;
+  /** Environment variables for new sessions */
+  env?: Record<string, string>;
+  /** Command typed into new sessions once the shell starts */
+  initialCommand?: string;
+  /** Pre-start and post-exit hook commands for new sessions */
+  hooks?: TerminalHooks;
 }
 
 /**
@@ -85,6 +92,8 @@ export interface SSHNodeData extends BaseNodeData {
   connected: boolean;
   /** Current activity status */
   activityStatus: TerminalActivityStatus;
+  /** Shell on the remote host, for status detection */
+  shell?: ShellType;
 }
 
 /**
@@ -281,6 +290,16 @@ export interface GitNodeData extends BaseNodeData {
   error: string | null;
 }
 
+/**
+ * Data specific to recording replay nodes
+ */
+export interface ReplayNodeData extends BaseNodeData {
+  /** Recording being replayed */
+  recordingId: string;
+  /** Playback speed multiplier */
+  playbackSpeed: number;
+}
+
 /**
  * Union type for all node data types
  */
@@ -293,7 +312,8 @@ export type DashboardNodeData =
   | ViewerNodeData
   | DiffNodeData
   | DatabaseNodeData
-  | GitNodeData;
+  | GitNodeData
+  | ReplayNodeData;
 
 /**
  * Dashboard node type (React Flow Node with our data)
@@ -345,6 +365,11 @@ export type DatabaseNode = Node<DatabaseNodeData, NodeType.DATABASE>;
  */
 export type GitNode = Node<GitNodeData, NodeType.GIT>;
 
+/**
+ * Replay-specific node type
+ */
+export type ReplayNode = Node<ReplayNodeData, NodeType.REPLAY>;
+
 /**
  * Dashboard edge type
  */
@@ -421,6 +446,7 @@ export const DEFAULT_NODE_DIMENSIONS: Readonly<Record<NodeType, NodeDimensions>>
   [NodeType.DIFF]: { width: 900, height: 600 },
   [NodeType.DATABASE]: { width: 900, height: 650 },
   [NodeType.GIT]: { width: 420, height: 550 },
+  [NodeType.REPLAY]: { width: 800, height: 520 },
 } as const;
 
 /**
@@ -0,0 +1,58 @@
+/**
+ * Claude Code Hook Types
+ *
+ * Claude Code runs user-configured hook commands on lifecycle events and
+ * pipes a JSON description of the event to them. Hooks installed in a
+ * dashboard terminal post that JSON back to the server, which treats it as
+ * the authoritative status for the terminal.
+ */
+
+import type { TerminalActivityStatus } from './terminal.js';
+
+/**
+ * Claude Code hook events the server understands
+ */
+export type ClaudeHookEventName =
+  | 'SessionStart'
+  | 'UserPromptSubmit'
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'Notification'
+  | 'Stop'
+  | 'SubagentStop'
+  | 'PreCompact'
+  | 'SessionEnd';
+
+/**
+ * JSON Claude Code passes to a hook command on stdin (fields we use)
+ */
+export interface ClaudeHookPayload {
+  /** Event that fired the hook */
+  hook_event_name: ClaudeHookEventName;
+  /** Claude Code's own session ID (not the dashboard session) */
+  session_id?: string;
+  /** Working directory of the Claude Code process */
+  cwd?: string;
+  /** Tool about to run or just run (PreToolUse/PostToolUse) */
+  tool_name?: string;
+  /** Human-readable notification text (Notification) */
+  message?: string;
+}
+
+/**
+ * A hook event recorded against a dashboard session
+ */
+export interface ClaudeHookEvent {
+  /** Dashboard terminal session the hook ran in */
+  sessionId: string;
+  /** Event that fired the hook */
+  event: ClaudeHookEventName;
+  /** Tool name for tool events */
+  toolName?: string;
+  /** Notification text */
+  message?: string;
+  /** Status the event set, null if it left the status alone */
+  status: TerminalActivityStatus | null;
+  /** When the server received the event (ISO string) */
+  timestamp: string;
+}
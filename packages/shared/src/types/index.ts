@@ -19,6 +19,16 @@ export {
   type TerminalSession,
   type SerializedTerminalSession,
   type TerminalConfig,
+  type TerminalHooks,
+  type TmuxPane,
+  type TmuxWindow,
+  type TmuxSplitDirection,
+  type TerminalWindowAction,
+  type ShellCommand,
+  type CommandHistoryEntry,
+  type CommandOutputLocation,
+  type ForeignTmuxSession,
+  type TmuxAdoptConfig,
   type TerminalReconnectPayload,
   type TerminalDimensions,
   DEFAULT_TERMINAL_DIMENSIONS,
@@ -40,9 +50,23 @@ export {
 // Status detection types
 export {
   type StatusPattern,
+  type StatusPatternSource,
+  type ListedStatusPattern,
   type CompiledStatusPattern,
   type StatusChangeEvent,
   type SerializedStatusChangeEvent,
+  type StatusTimerKind,
+  type StatusTimerConfig,
+  type StatusTimerSettings,
+  DEFAULT_STATUS_TIMERS,
+  type StatusTransitionSource,
+  type StatusTransition,
+  type StatusDurations,
+  type StatusSegment,
+  type SessionStatusSummary,
+  type PatternStatusStats,
+  type StatusSummary,
+  STATUS_SHORT_LIVED_MS,
   DEFAULT_STATUS_PATTERNS,
   type StatusDetectorConfig,
   DEFAULT_STATUS_DETECTOR_CONFIG,
@@ -61,6 +85,8 @@ export {
   type BufferReadOptions,
   type BufferSearchOptions,
   type BufferSearchResult,
+  type BufferSearchResults,
+  type SessionOutputMatches,
 } from './buffer.js';
 
 // Browser types (V2)
@@ -98,6 +124,7 @@ export {
   type DiffNodeData,
   type DatabaseNodeData,
   type GitNodeData,
+  type ReplayNodeData,
   type DashboardNodeData,
   type DashboardNode,
   type TerminalNode,
@@ -109,6 +136,7 @@ export {
   type DiffNode,
   type DatabaseNode,
   type GitNode,
+  type ReplayNode,
   type DashboardEdge,
   type CanvasViewport,
   type CanvasLayout,
@@ -123,6 +151,104 @@ export {
   DEFAULT_VIEWPORT,
 } from './canvas.js';
 
+// User types
+export {
+  ProjectRole,
+  PROJECT_ROLE_RANK,
+  hasProjectRole,
+  type User,
+  type ProjectMember,
+} from './user.js';
+
+// Audit types
+export {
+  AuditResult,
+  type AuditEntry,
+  type AuditLogQuery,
+} from './audit.js';
+
+// Share types
+export {
+  type SessionShare,
+  type CreatedSessionShare,
+  type SpectatorSessionInfo,
+} from './share.js';
+
+// Recording types
+export {
+  type RecordingEventCode,
+  type RecordingEvent,
+  type SessionRecording,
+  type AsciicastHeader,
+} from './recording.js';
+
+// Claude Code hook types
+export {
+  type ClaudeHookEventName,
+  type ClaudeHookPayload,
+  type ClaudeHookEvent,
+} from './claude-hooks.js';
+
+// Notification rule types
+export {
+  type NotificationTrigger,
+  type NotificationRuleScope,
+  type QuietHours,
+  type NotificationRule,
+  type NotificationRuleInput,
+  type StatusNotification,
+  DEFAULT_NOTIFICATION_RULE,
+} from './notifications.js';
+
+// Workspace template types
+export {
+  REPO_TEMPLATES_DIR,
+  type WorkspaceTemplateSource,
+  type WorkspaceTemplateNode,
+  type WorkspaceTemplateDefinition,
+  type WorkspaceTemplate,
+  type WorkspaceTemplateInput,
+  type TemplateLaunchPayload,
+  type LaunchedTemplateNode,
+  type TemplateLaunchResult,
+} from './templates.js';
+
+// Output trigger types
+export {
+  type OutputTriggerScope,
+  type SendKeysTriggerAction,
+  type NotifyTriggerAction,
+  type OpenBrowserTriggerAction,
+  type WebhookTriggerAction,
+  type RunCommandTriggerAction,
+  type OutputTriggerAction,
+  type OutputTriggerActionType,
+  type OutputTrigger,
+  type OutputTriggerInput,
+  type OutputTriggerExecution,
+  type OutputTriggerFired,
+  DEFAULT_TRIGGER_COOLDOWN_MS,
+  MIN_TRIGGER_COOLDOWN_MS,
+} from './triggers.js';
+
+// Scheduled command types
+export {
+  type ScheduleKind,
+  type ScheduledCommand,
+  type ScheduledCommandInput,
+} from './schedules.js';
+
+// Resource monitoring types
+export {
+  type KillTreeSignal,
+  type ProcessResourceUsage,
+  type SessionResourceSample,
+  type SessionResourcePoint,
+  type SessionResources,
+  type KillTreeResult,
+  RESOURCE_HISTORY_LENGTH,
+} from './resources.js';
+
 // Git types
 export {
   GitFileStatus,
@@ -168,10 +294,24 @@ export {
   type TerminalOutputPayload,
   type TerminalResizePayload,
   type TerminalReconnectRequest,
+  type TerminalSearchPayload,
+  type TerminalSearchResultsPayload,
+  type TerminalWindowsPayload,
+  type TerminalWindowActionPayload,
+  type TerminalWindowsStatePayload,
+  type BroadcastTarget,
+  type TerminalBroadcastPayload,
+  type TerminalShellStatePayload,
   type TerminalReconnectResponse,
+  type SpectatorSnapshotPayload,
+  type SpectatorEndedPayload,
   type StatusChangePayload,
   type StatusPatternAddPayload,
   type StatusPatternRemovePayload,
+  type StatusPatternsListPayload,
+  type StatusPatternsListResponsePayload,
+  type StatusPatternTestPayload,
+  type StatusPatternTestResultPayload,
   type ClientReconnectPayload,
   type ClientReconnectResponse,
   type ProjectCreatePayload,
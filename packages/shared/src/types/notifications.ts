@@ -0,0 +1,79 @@
+/**
+ * Notification Rule Types
+ *
+ * Rules decide which terminal events raise a desktop notification. They are
+ * stored and evaluated on the server, so every open tab receives the same
+ * notifications.
+ */
+
+import type { ShellType } from './terminal.js';
+
+/**
+ * Events a rule can notify on
+ */
+export type NotificationTrigger = 'waiting' | 'error' | 'exited';
+
+/**
+ * What a rule applies to. The most specific rule wins:
+ * a session rule over a shell rule over the project rule.
+ */
+export type NotificationRuleScope = 'project' | 'shell' | 'session';
+
+/**
+ * Daily window without notifications, in server-local "HH:MM".
+ * A window whose end is before its start runs past midnight.
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * A stored notification rule
+ */
+export interface NotificationRule {
+  id: string;
+  projectId: string;
+  scope: NotificationRuleScope;
+  /** Shell type for shell rules, session ID for session rules, null for project rules */
+  target: string | null;
+  triggers: NotificationTrigger[];
+  /** How long a status must hold before notifying, to skip flapping */
+  minDurationMs: number;
+  quietHours: QuietHours | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rule fields a client sends when creating or replacing a rule
+ */
+export type NotificationRuleInput = Omit<NotificationRule, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Notification raised by a rule
+ */
+export interface StatusNotification {
+  /** Rule that raised it, or null for the default rule */
+  ruleId: string | null;
+  projectId: string;
+  sessionId: string;
+  shell?: ShellType;
+  trigger: NotificationTrigger;
+  title: string;
+  body: string;
+  timestamp: string;
+}
+
+/**
+ * Applied when no rule matches a session
+ */
+export const DEFAULT_NOTIFICATION_RULE: Readonly<
+  Pick<NotificationRule, 'triggers' | 'minDurationMs' | 'quietHours' | 'enabled'>
+> = {
+  triggers: ['waiting', 'error'],
+  minDurationMs: 2_000,
+  quietHours: null,
+  enabled: true,
+};
@@ -0,0 +1,58 @@
+/**
+ * Recording Types
+ *
+ * Types for terminal session recordings. Events follow the asciicast v2
+ * event stream so recordings export to asciinema without conversion.
+ */
+
+/**
+ * Recording event codes (asciicast v2)
+ * 'o' is terminal output; 'r' is a resize with data "COLSxROWS".
+ */
+export type RecordingEventCode = 'o' | 'r';
+
+/**
+ * A recorded event: seconds since recording start, event code, data
+ */
+export type RecordingEvent = [time: number, code: RecordingEventCode, data: string];
+
+/**
+ * A terminal session recording
+ */
+export interface SessionRecording {
+  /** Recording ID */
+  readonly id: string;
+  /** Terminal session that was recorded */
+  sessionId: string;
+  /** Project the session belongs to */
+  projectId: string;
+  /** Session title when recording started */
+  title: string | null;
+  /** Terminal columns when recording started */
+  cols: number;
+  /** Terminal rows when recording started */
+  rows: number;
+  /** User account that started the recording */
+  createdBy: string | null;
+  /** When recording started (ISO string) */
+  readonly startedAt: string;
+  /** When recording stopped (ISO string), null while recording */
+  endedAt: string | null;
+  /** Seconds from start to the last recorded event */
+  duration: number;
+  /** Number of recorded events */
+  eventCount: number;
+}
+
+/**
+ * asciicast v2 header line
+ */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix timestamp (seconds) of the recording start */
+  timestamp: number;
+  duration?: number;
+  title?: string;
+}
@@ -0,0 +1,76 @@
+/**
+ * Resource Monitoring Types
+ *
+ * The server samples the process tree under each terminal (its PTY, or the
+ * panes of its tmux session) and streams CPU and memory use to clients.
+ */
+
+/**
+ * Samples kept per session for sparklines
+ */
+export const RESOURCE_HISTORY_LENGTH = 60;
+
+/**
+ * Signals the kill-tree action can send
+ */
+export type KillTreeSignal = 'SIGTERM' | 'SIGKILL';
+
+/**
+ * One process in a session's tree
+ */
+export interface ProcessResourceUsage {
+  pid: number;
+  ppid: number;
+  /** Command name, as the kernel reports it (at most 15 characters) */
+  command: string;
+  /** 0 for the session's shell or a tmux pane, 1 for its children, ... */
+  depth: number;
+  /** CPU use since the previous sample, where 100 is one core */
+  cpuPercent: number;
+  /** Resident memory */
+  rssBytes: number;
+}
+
+/**
+ * A session's resource use at one point in time
+ */
+export interface SessionResourceSample {
+  sessionId: string;
+  projectId: string;
+  timestamp: string;
+  /** Total over the tree, where 100 is one core */
+  cpuPercent: number;
+  /** Total over the tree */
+  rssBytes: number;
+  /** The tree, parents before their children */
+  processes: ProcessResourceUsage[];
+}
+
+/**
+ * Totals from an earlier sample, for sparklines
+ */
+export interface SessionResourcePoint {
+  timestamp: string;
+  cpuPercent: number;
+  rssBytes: number;
+}
+
+/**
+ * A session's latest sample and recent history
+ */
+export interface SessionResources {
+  sample: SessionResourceSample;
+  /** Oldest first, ending with the latest sample */
+  history: SessionResourcePoint[];
+}
+
+/**
+ * Result of killing a process and its children
+ */
+export interface KillTreeResult {
+  sessionId: string;
+  pid: number;
+  signal: KillTreeSignal;
+  /** Processes signalled, children first */
+  killed: number[];
+}
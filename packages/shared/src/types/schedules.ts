@@ -0,0 +1,48 @@
+/**
+ * Scheduled Command Types
+ *
+ * A schedule sends input to a terminal session on a cron schedule or once
+ * at a set time. Schedules are stored and run on the server, so they keep
+ * running with no browser open and survive restarts.
+ */
+
+/**
+ * Repeating on a cron expression, or a single run
+ */
+export type ScheduleKind = 'cron' | 'once';
+
+/**
+ * A stored schedule
+ */
+export interface ScheduledCommand {
+  id: string;
+  projectId: string;
+  /** Session that receives the input */
+  sessionId: string;
+  name: string;
+  kind: ScheduleKind;
+  /** Five-field cron expression (server-local time), for cron schedules */
+  cron: string | null;
+  /** When a one-off schedule runs */
+  runAt: string | null;
+  /** Input to send */
+  command: string;
+  /** Press Enter after the command */
+  enter: boolean;
+  paused: boolean;
+  /** Next run, or null when paused or a one-off has run */
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  /** Why the last run failed, or null if it succeeded */
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Schedule fields a client sends when creating or replacing a schedule
+ */
+export type ScheduledCommandInput = Pick<
+  ScheduledCommand,
+  'id' | 'projectId' | 'sessionId' | 'name' | 'kind' | 'cron' | 'runAt' | 'command' | 'enter' | 'paused'
+>;
@@ -0,0 +1,48 @@
+/**
+ * Share Types
+ *
+ * Types for time-limited, read-only spectator links to a terminal session.
+ */
+
+/**
+ * A spectator link for one terminal session
+ * The link token itself is only returned once, when the share is created.
+ */
+export interface SessionShare {
+  /** Share ID */
+  readonly id: string;
+  /** Terminal session being shared */
+  sessionId: string;
+  /** Project the session belongs to */
+  projectId: string;
+  /** User account that created the link (null for the shared password) */
+  createdBy: string | null;
+  /** When the link was created (ISO string) */
+  readonly createdAt: string;
+  /** When the link stops working (ISO string) */
+  expiresAt: string;
+  /** When the link was revoked, if it was (ISO string) */
+  revokedAt: string | null;
+}
+
+/**
+ * Response to creating a share - includes the one-time token
+ */
+export interface CreatedSessionShare {
+  share: SessionShare;
+  /** Bearer token embedded in the spectator URL */
+  token: string;
+}
+
+/**
+ * Public information about a shared session, shown on the spectator page
+ */
+export interface SpectatorSessionInfo {
+  sessionId: string;
+  /** Session or node title, if known */
+  title: string | null;
+  cols: number;
+  rows: number;
+  /** When the link stops working (ISO string) */
+  expiresAt: string;
+}
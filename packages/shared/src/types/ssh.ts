@@ -6,7 +6,7 @@
 
 import type { BaseSession, SerializedBaseSession } from './session.js';
 import { SessionType } from './session.js';
-import type { TerminalActivityStatus } from './terminal.js';
+import { ShellType, type TerminalActivityStatus } from './terminal.js';
 
 /**
  * SSH authentication methods
@@ -50,6 +50,8 @@ export interface SSHSession extends BaseSession {
   rows: number;
   /** Current activity status */
   activityStatus: TerminalActivityStatus;
+  /** Shell on the remote host, selecting its status patterns */
+  readonly shell: ShellType;
   /** Connection fingerprint for verification */
   fingerprint?: string;
 }
@@ -65,6 +67,7 @@ export interface SerializedSSHSession extends SerializedBaseSession {
   cols: number;
   rows: number;
   activityStatus: TerminalActivityStatus;
+  readonly shell: ShellType;
   fingerprint?: string;
 }
 
@@ -96,6 +99,8 @@ export interface SSHConfig {
   timeout?: number;
   /** Keep-alive interval in ms */
   keepAliveInterval?: number;
+  /** Shell on the remote host, for status detection (default: bash) */
+  shell?: ShellType;
 }
 
 /**
@@ -218,4 +223,5 @@ export const SSH_DEFAULTS = {
   rows: 30,
   timeout: 30000,
   keepAliveInterval: 10000,
+  shell: ShellType.BASH,
 } as const;
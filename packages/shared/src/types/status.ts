@@ -6,6 +6,7 @@
  */
 
 import { ShellType, TerminalActivityStatus } from './terminal.js';
+import type { ClaudeHookEventName } from './claude-hooks.js';
 
 /**
  * Pattern for detecting terminal status from output
@@ -27,6 +28,21 @@ export interface StatusPattern {
   enabled?: boolean;
 }
 
+/**
+ * Where a status pattern comes from
+ * - builtin: the server's pattern registry
+ * - custom: added by a user and stored in the database
+ * - override: a custom pattern replacing a built-in with the same ID
+ */
+export type StatusPatternSource = 'builtin' | 'custom' | 'override';
+
+/**
+ * Status pattern as listed to clients
+ */
+export interface ListedStatusPattern extends StatusPattern {
+  source: StatusPatternSource;
+}
+
 /**
  * Compiled status pattern for efficient matching
  */
@@ -35,6 +51,13 @@ export interface CompiledStatusPattern extends StatusPattern {
   readonly regex: RegExp;
 }
 
+/**
+ * Timer that changes a session's status when output stops
+ * - silence: output stopped shortly after it was seen
+ * - stall: a working session has printed nothing for a long time
+ */
+export type StatusTimerKind = 'silence' | 'stall';
+
 /**
  * Status change event emitted when terminal status changes
  */
@@ -47,6 +70,16 @@ export interface StatusChangeEvent {
   newStatus: TerminalActivityStatus;
   /** Pattern that triggered the change (if any) */
   matchedPattern?: string;
+  /** ID of the pattern that triggered the change (if any) */
+  matchedPatternId?: string;
+  /** Timer that triggered the change (if any) */
+  timer?: StatusTimerKind;
+  /** Claude Code hook event that triggered the change (if any) */
+  hookEvent?: ClaudeHookEventName;
+  /** Explanation from the trigger, e.g. a hook's notification text */
+  message?: string;
+  /** Last lines of output (ANSI stripped) when the session started waiting */
+  promptLines?: string[];
   /** When the change occurred */
   timestamp: Date;
 }
@@ -59,6 +92,11 @@ export interface SerializedStatusChangeEvent {
   previousStatus: TerminalActivityStatus;
   newStatus: TerminalActivityStatus;
   matchedPattern?: string;
+  matchedPatternId?: string;
+  timer?: StatusTimerKind;
+  hookEvent?: ClaudeHookEventName;
+  message?: string;
+  promptLines?: string[];
   timestamp: string;
 }
 
@@ -243,6 +281,48 @@ export const DEFAULT_STATUS_PATTERNS: readonly StatusPattern[] = [
   },
 ] as const;
 
+/**
+ * Idle and stall timers for one shell
+ */
+export interface StatusTimerConfig {
+  /** Silence after unrecognised output before the session settles, in ms (0 disables) */
+  silenceMs: number;
+  /** Status a working or idle session settles into after silence */
+  silenceStatus: TerminalActivityStatus.IDLE | TerminalActivityStatus.WAITING;
+  /** Time without output while working before the session is stalled, in ms (0 disables) */
+  stallMs: number;
+}
+
+/**
+ * Timer settings per shell; shells without an entry use `default`
+ */
+export type StatusTimerSettings = Partial<Record<ShellType, Partial<StatusTimerConfig>>> & {
+  default?: Partial<StatusTimerConfig>;
+};
+
+/**
+ * Default timers: plain shells go idle, Claude Code is waiting for a reply
+ */
+export const DEFAULT_STATUS_TIMERS: Readonly<
+  Partial<Record<ShellType, StatusTimerConfig>> & { default: StatusTimerConfig }
+> = {
+  default: {
+    silenceMs: 5_000,
+    silenceStatus: TerminalActivityStatus.IDLE,
+    stallMs: 10 * 60_000,
+  },
+  [ShellType.CLAUDE_CODE]: {
+    silenceMs: 3_000,
+    silenceStatus: TerminalActivityStatus.WAITING,
+    stallMs: 10 * 60_000,
+  },
+  [ShellType.CLAUDE_CODE_SKIP_PERMISSIONS]: {
+    silenceMs: 3_000,
+    silenceStatus: TerminalActivityStatus.WAITING,
+    stallMs: 10 * 60_000,
+  },
+};
+
 /**
  * Configuration for the status detector
  */
@@ -255,6 +335,8 @@ export interface StatusDetectorConfig {
   debounceMs?: number;
   /** Number of lines to check for patterns */
   lookbackLines?: number;
+  /** Overrides for the idle and stall timers */
+  timers?: StatusTimerSettings;
 }
 
 /**
@@ -264,3 +346,92 @@ export const DEFAULT_STATUS_DETECTOR_CONFIG: Readonly<StatusDetectorConfig> = {
   debounceMs: 100,
   lookbackLines: 5,
 } as const;
+
+/**
+ * What caused a recorded status transition
+ * - session-end: the session terminated (recorded as a change to idle)
+ */
+export type StatusTransitionSource = 'pattern' | 'timer' | 'hook' | 'manual' | 'session-end';
+
+/**
+ * A persisted status change
+ */
+export interface StatusTransition {
+  /** Sequential transition ID */
+  readonly id: number;
+  sessionId: string;
+  projectId: string;
+  previousStatus: TerminalActivityStatus;
+  newStatus: TerminalActivityStatus;
+  /** Name of the pattern that triggered the change, if any */
+  matchedPattern: string | null;
+  source: StatusTransitionSource;
+  /** When the change occurred (ISO string) */
+  readonly timestamp: string;
+}
+
+/**
+ * Milliseconds spent in each status
+ */
+export type StatusDurations = Record<TerminalActivityStatus, number>;
+
+/**
+ * A stretch of time a session spent in one status
+ */
+export interface StatusSegment {
+  status: TerminalActivityStatus;
+  /** ISO string */
+  start: string;
+  /** ISO string */
+  end: string;
+}
+
+/**
+ * Time spent in each status by one session over a period
+ */
+export interface SessionStatusSummary {
+  sessionId: string;
+  durations: StatusDurations;
+  /** Transitions within the period */
+  transitions: number;
+  /** Timeline of the period, oldest first */
+  segments: StatusSegment[];
+}
+
+/**
+ * How a pattern behaved over a period; patterns whose status is often
+ * replaced within seconds are likely false positives
+ */
+export interface PatternStatusStats {
+  /** Pattern name */
+  pattern: string;
+  /** Status the pattern sets */
+  status: TerminalActivityStatus;
+  /** Times the pattern changed a session's status */
+  count: number;
+  /** Average time the status it set lasted, in ms */
+  averageDurationMs: number;
+  /** Times the status it set lasted under STATUS_SHORT_LIVED_MS */
+  shortLivedCount: number;
+}
+
+/**
+ * Status analytics for a project over a period
+ */
+export interface StatusSummary {
+  projectId: string;
+  /** ISO string */
+  from: string;
+  /** ISO string */
+  to: string;
+  /** Time summed over all sessions */
+  totals: StatusDurations;
+  sessions: SessionStatusSummary[];
+  /** Patterns that changed a status, most short-lived first */
+  patterns: PatternStatusStats[];
+}
+
+/**
+ * A status lasting less than this is counted as short-lived
+ */
+export const STATUS_SHORT_LIVED_MS = 5_000;
@@ -0,0 +1,108 @@
+/**
+ * Workspace Template Types
+ *
+ * A workspace template describes a set of canvas nodes (terminals with their
+ * shell, cwd, environment and startup command, plus Git, Folder and other
+ * nodes) that can be launched in one go. Templates are stored per project or
+ * as YAML/JSON files in the project's repository.
+ */
+
+import type { NodeType } from './canvas.js';
+import type { ShellType, TerminalHooks } from './terminal.js';
+
+/**
+ * Directory, relative to a project's default cwd, that holds repository templates
+ */
+export const REPO_TEMPLATES_DIR = '.masterdashboard/templates';
+
+/**
+ * Where a template is stored
+ */
+export type WorkspaceTemplateSource = 'project' | 'repo';
+
+/**
+ * One node of a template
+ */
+export interface WorkspaceTemplateNode {
+  type: NodeType;
+  /** Node title */
+  label?: string;
+  position: { x: number; y: number };
+  size?: { width: number; height: number };
+  /** Shell for terminal nodes */
+  shell?: ShellType;
+  /**
+   * Terminal working directory, or the path a Folder or Git node opens.
+   * Relative paths resolve against the project's default cwd.
+   */
+  cwd?: string;
+  /** Environment variables for terminal nodes */
+  env?: Record<string, string>;
+  /** Command typed into a terminal once its shell starts */
+  command?: string;
+  /** Pre-start and post-exit hooks for terminal nodes */
+  hooks?: TerminalHooks;
+  /** Any other node data, copied onto the node as-is */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * The declarative part of a template, as written in a template file
+ */
+export interface WorkspaceTemplateDefinition {
+  name: string;
+  description?: string;
+  nodes: WorkspaceTemplateNode[];
+}
+
+/**
+ * A stored template
+ */
+export interface WorkspaceTemplate extends WorkspaceTemplateDefinition {
+  /** Unique per source; a repository template's ID is its file name without extension */
+  id: string;
+  projectId: string;
+  source: WorkspaceTemplateSource;
+  /** File path of a repository template */
+  path?: string;
+  updatedAt: string;
+}
+
+/**
+ * Template create/replace input
+ */
+export type WorkspaceTemplateInput = WorkspaceTemplateDefinition & {
+  id: string;
+  projectId: string;
+  source: WorkspaceTemplateSource;
+};
+
+/**
+ * Payload for launching a template
+ */
+export interface TemplateLaunchPayload {
+  projectId: string;
+  templateId: string;
+  source: WorkspaceTemplateSource;
+}
+
+/**
+ * A launched template node
+ */
+export interface LaunchedTemplateNode {
+  /** The template node with its cwd resolved to an absolute path */
+  node: WorkspaceTemplateNode;
+  /** Terminal session created for the node, if it is a terminal */
+  sessionId: string | null;
+  /** Why the node's session could not be created */
+  error?: string;
+}
+
+/**
+ * Result of launching a template
+ */
+export interface TemplateLaunchResult {
+  templateId: string;
+  source: WorkspaceTemplateSource;
+  nodes: LaunchedTemplateNode[];
+}
@@ -6,6 +6,7 @@
  */
 
 import type { BaseSession, SerializedBaseSession } from './session.js';
+import type { BufferSearchResult } from './buffer.js';
 import { SessionType } from './session.js';
 
 /**
@@ -36,6 +37,8 @@ export enum TerminalActivityStatus {
   ERROR = 'error',
   /** No recent activity (gray/no glow) */
   IDLE = 'idle',
+  /** Was working but has printed nothing for a long time (orange glow) */
+  STALLED = 'stalled',
 }
 
 /**
@@ -45,10 +48,14 @@ export interface TerminalSession extends BaseSession {
   readonly type: SessionType.TERMINAL;
   /** Shell being used */
   readonly shell: ShellType;
-  /** Current working directory */
-  readonly cwd: string;
+  /** Current working directory, followed through shell integration */
+  cwd: string;
   /** Environment variables */
   readonly env?: Readonly<Record<string, string>>;
+  /** Command typed into the shell when the session was created */
+  readonly initialCommand?: string;
+  /** Commands run around the session's lifetime */
+  readonly hooks?: Readonly<TerminalHooks>;
   /** Terminal columns */
   cols: number;
   /** Terminal rows */
@@ -59,6 +66,67 @@ export interface TerminalSession extends BaseSession {
   title?: string;
   /** Exit code if session terminated */
   exitCode?: number;
+  /** Latest command reported by shell integration */
+  lastCommand?: ShellCommand;
+  /**
+   * Target of an adopted tmux session the dashboard did not create.
+   * The dashboard attaches to it but never kills or renames it.
+   */
+  readonly tmuxTarget?: string;
+}
+
+/**
+ * A command run at the shell prompt, reported by shell integration
+ * (OSC 133 marks around each command)
+ */
+export interface ShellCommand {
+  /** Command line as typed */
+  command: string;
+  /** ISO timestamp when the command started */
+  startedAt: string;
+  /** ISO timestamp when the command finished; unset while it runs */
+  finishedAt?: string;
+  /** Exit code, once finished */
+  exitCode?: number;
+}
+
+/**
+ * A command from a terminal's history
+ *
+ * Output lines are counted over everything the session has printed, so
+ * they stay valid as old output leaves the scrollback.
+ */
+export interface CommandHistoryEntry {
+  id: number;
+  sessionId: string;
+  projectId: string;
+  /** Command line as typed */
+  command: string;
+  /** Directory the command ran in */
+  cwd: string;
+  /** ISO timestamp when the command started */
+  startedAt: string;
+  /** ISO timestamp when the command finished; null while it runs */
+  finishedAt: string | null;
+  /** Exit code; null while running or when the shell did not report one */
+  exitCode: number | null;
+  /** Run time in milliseconds; null while it runs */
+  durationMs: number | null;
+  /** Line the output starts on */
+  outputStartLine: number;
+  /** Line after the output; null while it runs */
+  outputEndLine: number | null;
+}
+
+/**
+ * Where a command is in its terminal's scrollback, in the form used to
+ * reveal scrollback search matches
+ */
+export interface CommandOutputLocation {
+  /** The command's line (no match range) */
+  result: BufferSearchResult;
+  /** Lines the session has printed so far */
+  totalLines: number;
 }
 
 /**
@@ -76,6 +144,17 @@ export interface SerializedTerminalSession extends SerializedBaseSession {
   exitCode?: number;
 }
 
+/**
+ * Commands the server runs (via /bin/sh) around a terminal's lifetime,
+ * in the terminal's cwd and with its environment
+ */
+export interface TerminalHooks {
+  /** Runs before the shell starts; a non-zero exit aborts creation */
+  preStart?: string;
+  /** Runs once the session has ended */
+  postExit?: string;
+}
+
 /**
  * Configuration for creating a new terminal session
  */
@@ -86,6 +165,10 @@ export interface TerminalConfig {
   cwd?: string;
   /** Environment variables to set */
   env?: Record<string, string>;
+  /** Command typed into the shell once it starts (not re-run on recovery) */
+  initialCommand?: string;
+  /** Commands run before the shell starts and after the session ends */
+  hooks?: TerminalHooks;
   /** Initial terminal columns */
   cols?: number;
   /** Initial terminal rows */
@@ -96,6 +179,75 @@ export interface TerminalConfig {
   title?: string;
 }
 
+/**
+ * A tmux pane
+ */
+export interface TmuxPane {
+  /** Pane ID (%N), usable as a tmux target */
+  id: string;
+  index: number;
+  active: boolean;
+  /** Command running in the pane */
+  command: string;
+  cwd: string;
+}
+
+/**
+ * A tmux window and its panes
+ */
+export interface TmuxWindow {
+  /** Window ID (@N), usable as a tmux target */
+  id: string;
+  index: number;
+  name: string;
+  active: boolean;
+  panes: TmuxPane[];
+}
+
+/**
+ * How to split a pane: horizontal puts the new pane beside it, vertical below it
+ * (tmux's -h and -v)
+ */
+export type TmuxSplitDirection = 'horizontal' | 'vertical';
+
+/**
+ * A change to the windows and panes of a terminal's tmux session
+ */
+export type TerminalWindowAction =
+  | { action: 'new-window'; name?: string }
+  | { action: 'split'; direction: TmuxSplitDirection; paneId?: string }
+  | { action: 'select-window'; windowId: string }
+  | { action: 'select-pane'; paneId: string }
+  | { action: 'kill-window'; windowId: string }
+  | { action: 'kill-pane'; paneId: string };
+
+/**
+ * A tmux session on the user's default tmux server, started outside the dashboard
+ */
+export interface ForeignTmuxSession {
+  /** Session ID ($N), usable as a tmux target */
+  id: string;
+  name: string;
+  /** Number of clients attached */
+  attachedClients: number;
+  createdAt: string;
+  windows: TmuxWindow[];
+  /** Dashboard sessions attached to this session or one of its windows or panes */
+  adoptedBy: string[];
+}
+
+/**
+ * Request to attach a foreign tmux session, window or pane to a project
+ */
+export interface TmuxAdoptConfig {
+  projectId: string;
+  /** Session ($N), window (@N) or pane (%N) ID */
+  target: string;
+  /** Shell used for status detection; guessed from the pane's command if omitted */
+  shell?: ShellType;
+  title?: string;
+}
+
 /**
  * Payload for terminal reconnection
  */
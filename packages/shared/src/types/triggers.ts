@@ -0,0 +1,135 @@
+/**
+ * Output Trigger Types
+ *
+ * A trigger watches a terminal's output (ANSI codes stripped) for a regular
+ * expression and runs an action when it matches. Triggers are stored and
+ * evaluated on the server; actions that need a browser are sent to every
+ * open tab.
+ *
+ * Action text fields are templates: `$0` is the whole match and `$1`-`$9`
+ * are its capture groups.
+ */
+
+/**
+ * What a trigger applies to: every session in the project, or one session
+ */
+export type OutputTriggerScope = 'project' | 'session';
+
+/**
+ * Send keys to the session whose output matched
+ */
+export interface SendKeysTriggerAction {
+  type: 'send_keys';
+  keys: string;
+  /** Press Enter after the keys */
+  enter: boolean;
+}
+
+/**
+ * Show a desktop notification
+ */
+export interface NotifyTriggerAction {
+  type: 'notify';
+  title: string;
+  body: string;
+}
+
+/**
+ * Open a Browser node next to the terminal
+ */
+export interface OpenBrowserTriggerAction {
+  type: 'open_browser';
+  url: string;
+}
+
+/**
+ * POST the match as JSON to a webhook on this machine
+ */
+export interface WebhookTriggerAction {
+  type: 'webhook';
+  url: string;
+}
+
+/**
+ * Run a command in another session of the project
+ */
+export interface RunCommandTriggerAction {
+  type: 'run_command';
+  sessionId: string;
+  command: string;
+}
+
+export type OutputTriggerAction =
+  | SendKeysTriggerAction
+  | NotifyTriggerAction
+  | OpenBrowserTriggerAction
+  | WebhookTriggerAction
+  | RunCommandTriggerAction;
+
+export type OutputTriggerActionType = OutputTriggerAction['type'];
+
+/**
+ * A stored output trigger
+ */
+export interface OutputTrigger {
+  id: string;
+  projectId: string;
+  name: string;
+  scope: OutputTriggerScope;
+  /** Session ID for session triggers, null for project triggers */
+  target: string | null;
+  /** Regular expression tested against each line of output */
+  pattern: string;
+  caseSensitive: boolean;
+  action: OutputTriggerAction;
+  /** Minimum time between two runs for the same session */
+  cooldownMs: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Trigger fields a client sends when creating or replacing a trigger
+ */
+export type OutputTriggerInput = Omit<OutputTrigger, 'createdAt' | 'updatedAt'>;
+
+/**
+ * One run of a trigger, for the execution log
+ */
+export interface OutputTriggerExecution {
+  id: number;
+  triggerId: string;
+  projectId: string;
+  sessionId: string;
+  actionType: OutputTriggerActionType;
+  /** The output that matched */
+  match: string;
+  success: boolean;
+  error: string | null;
+  executedAt: string;
+}
+
+/**
+ * Action for the browser to carry out, with its templates filled in
+ */
+export interface OutputTriggerFired {
+  triggerId: string;
+  triggerName: string;
+  projectId: string;
+  sessionId: string;
+  action: NotifyTriggerAction | OpenBrowserTriggerAction;
+  match: string;
+  timestamp: string;
+}
+
+/**
+ * Applied to new triggers
+ */
+export const DEFAULT_TRIGGER_COOLDOWN_MS = 10_000;
+
+/**
+ * Shortest cooldown allowed, so a trigger that matches its own action's
+ * output cannot loop
+ */
+export const MIN_TRIGGER_COOLDOWN_MS = 1_000;
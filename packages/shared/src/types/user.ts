@@ -0,0 +1,63 @@
+/**
+ * User Types
+ *
+ * Types for user accounts and per-project membership roles.
+ */
+
+/**
+ * Role a user holds within a project
+ */
+export enum ProjectRole {
+  /** Full control, including membership and project deletion */
+  OWNER = 'owner',
+  /** Can create and drive sessions, edit files, run git and queries */
+  OPERATOR = 'operator',
+  /** Read-only: sees output but cannot type, write, push or query */
+  VIEWER = 'viewer',
+}
+
+/**
+ * Roles ordered from least to most privileged
+ */
+export const PROJECT_ROLE_RANK: Readonly<Record<ProjectRole, number>> = {
+  [ProjectRole.VIEWER]: 0,
+  [ProjectRole.OPERATOR]: 1,
+  [ProjectRole.OWNER]: 2,
+};
+
+/**
+ * Check whether a role meets a minimum role requirement
+ */
+export function hasProjectRole(role: ProjectRole, required: ProjectRole): boolean {
+  return PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[required];
+}
+
+/**
+ * User account (never includes the password hash)
+ */
+export interface User {
+  /** Unique user identifier */
+  readonly id: string;
+  /** Login name */
+  username: string;
+  /** Administrators can see and manage every project */
+  isAdmin: boolean;
+  /** When the account was created (ISO string) */
+  readonly createdAt: string;
+}
+
+/**
+ * A user's membership in a project
+ */
+export interface ProjectMember {
+  /** Project the membership belongs to */
+  readonly projectId: string;
+  /** Member user ID */
+  readonly userId: string;
+  /** Member login name */
+  username: string;
+  /** Role within the project */
+  role: ProjectRole;
+  /** When the membership was granted (ISO string) */
+  readonly createdAt: string;
+}
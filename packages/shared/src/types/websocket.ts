@@ -6,11 +6,18 @@
  */
 
 import type { SessionType, SessionStatus } from './session.js';
-import type { TerminalConfig, TerminalActivityStatus } from './terminal.js';
+import type {
+  TerminalConfig,
+  TerminalActivityStatus,
+  ShellType,
+  TerminalWindowAction,
+  TmuxWindow,
+  ShellCommand,
+} from './terminal.js';
 import type { BrowserConfig } from './browser.js';
 import type { SSHConfig } from './ssh.js';
-import type { SerializedBufferSnapshot } from './buffer.js';
-import type { StatusPattern } from './status.js';
+import type { BufferSearchResults, SerializedBufferSnapshot } from './buffer.js';
+import type { StatusPattern, ListedStatusPattern } from './status.js';
 
 /**
  * WebSocket event names as const object for type safety
@@ -33,6 +40,8 @@ export const WS_EVENTS = {
   SESSION_ERROR: 'session:error',
   SESSION_LIST: 'session:list',
   SESSION_LIST_RESPONSE: 'session:list:response',
+  SESSION_SCHEDULE_RUN: 'session:schedule:run',
+  SESSION_RESOURCES: 'session:resources',
 
   // Terminal events
   TERMINAL_INPUT: 'terminal:input',
@@ -42,12 +51,31 @@ export const WS_EVENTS = {
   TERMINAL_RECONNECT_RESPONSE: 'terminal:reconnect:response',
   TERMINAL_BUFFER: 'terminal:buffer',
   TERMINAL_CLEAR: 'terminal:clear',
+  TERMINAL_SEARCH: 'terminal:search',
+  TERMINAL_SEARCH_RESULTS: 'terminal:search:results',
+  TERMINAL_WINDOWS: 'terminal:windows',
+  TERMINAL_WINDOW_ACTION: 'terminal:window:action',
+  TERMINAL_WINDOWS_STATE: 'terminal:windows:state',
+  TERMINAL_BROADCAST: 'terminal:broadcast',
+  TERMINAL_SHELL_STATE: 'terminal:shell:state',
+  TERMINAL_COMMAND: 'terminal:command',
+  TERMINAL_TRIGGER_FIRED: 'terminal:trigger:fired',
+  TERMINAL_TRIGGER_EXECUTED: 'terminal:trigger:executed',
+
+  // Spectator events (read-only share links)
+  SPECTATOR_SNAPSHOT: 'spectator:snapshot',
+  SPECTATOR_ENDED: 'spectator:ended',
 
   // Status events
   STATUS_CHANGE: 'status:change',
   STATUS_PATTERN_ADD: 'status:pattern:add',
   STATUS_PATTERN_REMOVE: 'status:pattern:remove',
   STATUS_PATTERNS_LIST: 'status:patterns:list',
+  STATUS_PATTERNS_LIST_RESPONSE: 'status:patterns:list:response',
+  STATUS_PATTERN_TEST: 'status:pattern:test',
+  STATUS_PATTERN_TEST_RESULT: 'status:pattern:test:result',
+  STATUS_HOOK_EVENT: 'status:hook:event',
+  STATUS_NOTIFICATION: 'status:notification',
 
   // Project events
   PROJECT_CREATE: 'project:create',
@@ -66,6 +94,8 @@ export const WS_EVENTS = {
   LAYOUT_LOADED: 'layout:loaded',
   LAYOUT_DELETE: 'layout:delete',
   LAYOUT_DELETED: 'layout:deleted',
+  TEMPLATE_LAUNCH: 'template:launch',
+  TEMPLATE_LAUNCHED: 'template:launched',
 
   // Browser events (V2)
   BROWSER_FRAME: 'browser:frame',
@@ -271,6 +301,98 @@ export interface TerminalReconnectRequest {
   lastReceivedTimestamp?: number;
 }
 
+/**
+ * Request to search a terminal's server-side scrollback
+ */
+export interface TerminalSearchPayload {
+  sessionId: string;
+  query: string;
+  /** Treat query as a regular expression */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  direction?: 'forward' | 'backward';
+  maxResults?: number;
+}
+
+/**
+ * Scrollback search matches for a terminal
+ */
+export interface TerminalSearchResultsPayload extends BufferSearchResults {
+  sessionId: string;
+  query: string;
+}
+
+/**
+ * Request for a terminal's tmux windows and panes
+ */
+export interface TerminalWindowsPayload {
+  sessionId: string;
+}
+
+/**
+ * Change to a terminal's tmux windows and panes
+ */
+export type TerminalWindowActionPayload = TerminalWindowAction & {
+  sessionId: string;
+};
+
+/**
+ * A terminal's tmux windows and panes, sent after a request or a change
+ */
+export interface TerminalWindowsStatePayload {
+  sessionId: string;
+  windows: TmuxWindow[];
+}
+
+/**
+ * Where a terminal's shell is and what it runs, from shell integration
+ */
+export interface TerminalShellStatePayload {
+  sessionId: string;
+  /** Current working directory (OSC 7) */
+  cwd: string;
+  /** The running command, or the directory at the prompt */
+  title: string;
+  /** Latest command (OSC 133) */
+  lastCommand?: ShellCommand;
+}
+
+/**
+ * A terminal or SSH session that receives broadcast input
+ */
+export interface BroadcastTarget {
+  type: SessionType.TERMINAL | SessionType.SSH;
+  sessionId: string;
+}
+
+/**
+ * Input typed once and written to every session in a broadcast group
+ */
+export interface TerminalBroadcastPayload {
+  projectId: string;
+  targets: BroadcastTarget[];
+  data: string;
+}
+
+/**
+ * Initial state sent to a spectator when it joins a shared session
+ */
+export interface SpectatorSnapshotPayload {
+  sessionId: string;
+  /** Buffered output to replay before live output */
+  output: string;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Sent to spectators when the shared session can no longer be watched
+ */
+export interface SpectatorEndedPayload {
+  sessionId: string;
+  reason: 'expired' | 'revoked' | 'terminated';
+}
+
 /**
  * Response to terminal reconnect request
  */
@@ -314,6 +436,39 @@ export interface StatusPatternRemovePayload {
   patternId: string;
 }
 
+/**
+ * Payload for listing status patterns
+ */
+export interface StatusPatternsListPayload {
+  /** Only list patterns that apply to this shell */
+  shell?: ShellType;
+}
+
+/**
+ * Status patterns list (also broadcast after a pattern is added or removed)
+ */
+export interface StatusPatternsListResponsePayload {
+  patterns: ListedStatusPattern[];
+}
+
+/**
+ * Payload for testing a pattern against a session's recent output
+ */
+export interface StatusPatternTestPayload {
+  sessionId: string;
+  pattern: string;
+}
+
+/**
+ * Result of a pattern test
+ */
+export interface StatusPatternTestResultPayload extends BufferSearchResults {
+  sessionId: string;
+  pattern: string;
+  /** Whether the pattern matches the lines the status detector looks at */
+  matchesLatest: boolean;
+}
+
 // ============================================================================
 // Client Reconnection
 // ============================================================================
@@ -48,6 +48,9 @@ export const ID_PREFIXES = {
   node: 'node_',
   pattern: 'pat_',
   buffer: 'buf_',
+  user: 'usr_',
+  share: 'shr_',
+  recording: 'rec_',
 } as const;
 
 export type IdPrefix = (typeof ID_PREFIXES)[keyof typeof ID_PREFIXES];
@@ -115,6 +118,27 @@ export function createBufferId(): string {
   return `${ID_PREFIXES.buffer}${nanoid(DEFAULT_ID_LENGTH)}`;
 }
 
+/**
+ * Generate a unique user ID
+ */
+export function createUserId(): string {
+  return `${ID_PREFIXES.user}${nanoid(DEFAULT_ID_LENGTH)}`;
+}
+
+/**
+ * Generate a unique session share ID
+ */
+export function createShareId(): string {
+  return `${ID_PREFIXES.share}${nanoid(DEFAULT_ID_LENGTH)}`;
+}
+
+/**
+ * Generate a unique recording ID
+ */
+export function createRecordingId(): string {
+  return `${ID_PREFIXES.recording}${nanoid(DEFAULT_ID_LENGTH)}`;
+}
+
 /**
  * Generate a generic unique ID (no prefix)
  */
@@ -19,6 +19,9 @@ export {
   createNodeId,
   createPatternId,
   createBufferId,
+  createUserId,
+  createShareId,
+  createRecordingId,
   createId,
   createShortId,
   createPinCode,
@@ -44,10 +47,22 @@ export {
   terminalDimensionsSchema,
   terminalConfigSchema,
   type ValidatedTerminalConfig,
+  tmuxAdoptSchema,
   // Project schemas
   projectSettingsSchema,
   createProjectConfigSchema,
   type ValidatedCreateProjectConfig,
+  // User schemas
+  projectRoleSchema,
+  createUserSchema,
+  type ValidatedCreateUser,
+  projectMemberSchema,
+  // Audit schemas
+  auditLogQuerySchema,
+  type ValidatedAuditLogQuery,
+  // Share schemas
+  createSessionShareSchema,
+  type ValidatedCreateSessionShare,
   // Browser schemas
   browserEngineSchema,
   browserViewportSchema,
@@ -65,12 +80,52 @@ export {
   // Status pattern schemas
   statusPatternSchema,
   type ValidatedStatusPattern,
+  statusPatternAddPayloadSchema,
+  statusPatternRemovePayloadSchema,
+  statusPatternsListPayloadSchema,
+  statusPatternTestPayloadSchema,
+  statusHistoryQuerySchema,
+  statusSummaryQuerySchema,
+  // Claude Code hook schemas
+  claudeHookPayloadSchema,
+  notificationRuleSchema,
+  notificationRulesQuerySchema,
+  // Workspace template schemas
+  templateIdSchema,
+  workspaceTemplateDefinitionSchema,
+  workspaceTemplateSchema,
+  workspaceTemplatesQuerySchema,
+  templateLaunchPayloadSchema,
   // Buffer schemas
   bufferConfigSchema,
   type ValidatedBufferConfig,
+  bufferSearchQuerySchema,
+  type ValidatedBufferSearchQuery,
+  projectOutputSearchQuerySchema,
+  type ValidatedProjectOutputSearchQuery,
+  // Command history schemas
+  commandHistoryQuerySchema,
+  type ValidatedCommandHistoryQuery,
+  // Output trigger schemas
+  outputTriggerActionSchema,
+  outputTriggerSchema,
+  outputTriggersQuerySchema,
+  outputTriggerExecutionsQuerySchema,
+  type ValidatedOutputTriggerExecutionsQuery,
+  // Scheduled command schemas
+  scheduledCommandSchema,
+  scheduledCommandsQuerySchema,
+  scheduledCommandPauseSchema,
+  // Resource monitoring schemas
+  resourcesQuerySchema,
+  killProcessTreeSchema,
   // WebSocket payload schemas
   terminalInputPayloadSchema,
   terminalResizePayloadSchema,
+  terminalSearchPayloadSchema,
+  terminalWindowsPayloadSchema,
+  terminalWindowActionPayloadSchema,
+  terminalBroadcastPayloadSchema,
   sessionCreatePayloadSchema,
   // Validation helpers
   validate,
@@ -11,6 +11,9 @@ import { BrowserEngine } from '../types/browser.js';
 import { NodeType } from '../types/canvas.js';
 import { SSH_DEFAULTS } from '../types/ssh.js';
 import { DEFAULT_SCROLLBACK_LINES } from '../types/project.js';
+import { ProjectRole } from '../types/user.js';
+import { AuditResult } from '../types/audit.js';
+import { MIN_TRIGGER_COOLDOWN_MS } from '../types/triggers.js';
 
 // ============================================================================
 // Base Schemas
@@ -70,7 +73,14 @@ export const terminalDimensionsSchema = z.object({
 export const terminalConfigSchema = z.object({
   shell: shellTypeSchema,
   cwd: z.string().optional(),
-  env: z.record(z.string()).optional(),
+  env: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid variable name'), z.string()).optional(),
+  initialCommand: z.string().max(1000).optional(),
+  hooks: z
+    .object({
+      preStart: z.string().max(1000).optional(),
+      postExit: z.string().max(1000).optional(),
+    })
+    .optional(),
   cols: z.number().int().min(1).max(500).default(100),
   rows: z.number().int().min(1).max(200).default(30),
   projectId: idSchema,
@@ -82,6 +92,17 @@ export const terminalConfigSchema = z.object({
  */
 export type ValidatedTerminalConfig = z.infer<typeof terminalConfigSchema>;
 
+/**
+ * Foreign tmux adoption schema
+ * Targets are tmux session ($N), window (@N) or pane (%N) IDs.
+ */
+export const tmuxAdoptSchema = z.object({
+  projectId: idSchema,
+  target: z.string().regex(/^[$@%]\d+$/, 'Expected a tmux session, window or pane ID'),
+  shell: shellTypeSchema.optional(),
+  title: z.string().max(100).optional(),
+});
+
 // ============================================================================
 // Project Schemas
 // ============================================================================
@@ -112,6 +133,76 @@ export const createProjectConfigSchema = z.object({
  */
 export type ValidatedCreateProjectConfig = z.infer<typeof createProjectConfigSchema>;
 
+// ============================================================================
+// User Schemas
+// ============================================================================
+
+/**
+ * Project role schema
+ */
+export const projectRoleSchema = z.nativeEnum(ProjectRole);
+
+/**
+ * Create user schema
+ */
+export const createUserSchema = z.object({
+  username: z.string().min(2).max(64).regex(/^[a-zA-Z0-9._-]+$/),
+  password: z.string().min(8).max(256),
+  isAdmin: z.boolean().default(false),
+});
+
+/**
+ * Type inferred from create user schema
+ */
+export type ValidatedCreateUser = z.infer<typeof createUserSchema>;
+
+/**
+ * Add/update project member schema
+ */
+export const projectMemberSchema = z.object({
+  username: z.string().min(1),
+  role: projectRoleSchema,
+});
+
+// ============================================================================
+// Audit Schemas
+// ============================================================================
+
+/**
+ * Audit log query schema (REST query string values arrive as strings)
+ */
+export const auditLogQuerySchema = z.object({
+  projectId: z.string().min(1).optional(),
+  event: z.string().min(1).optional(),
+  result: z.nativeEnum(AuditResult).optional(),
+  userId: z.string().min(1).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Type inferred from audit log query schema
+ */
+export type ValidatedAuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// ============================================================================
+// Share Schemas
+// ============================================================================
+
+/**
+ * Create session share schema (lifetime capped at one week)
+ */
+export const createSessionShareSchema = z.object({
+  ttlMinutes: z.number().int().min(1).max(10080).default(60),
+});
+
+/**
+ * Type inferred from create session share schema
+ */
+export type ValidatedCreateSessionShare = z.infer<typeof createSessionShareSchema>;
+
 // ============================================================================
 // Browser Schemas
 // ============================================================================
@@ -171,6 +262,7 @@ export const sshConfigSchema = z.object({
   rows: z.number().int().min(1).max(200).default(SSH_DEFAULTS.rows),
   timeout: z.number().int().min(1000).max(120000).default(SSH_DEFAULTS.timeout),
   keepAliveInterval: z.number().int().min(1000).max(60000).default(SSH_DEFAULTS.keepAliveInterval),
+  shell: shellTypeSchema.default(SSH_DEFAULTS.shell),
 }).refine((data) => {
   // Validate that required auth fields are present
   if (data.authMethod === 'password' && !data.password) {
@@ -245,6 +337,194 @@ export const statusPatternSchema = z.object({
  */
 export type ValidatedStatusPattern = z.infer<typeof statusPatternSchema>;
 
+/**
+ * Regular expression source that must compile
+ */
+const regexSourceSchema = z
+  .string()
+  .min(1)
+  .max(1000)
+  .refine(
+    (source) => {
+      try {
+        new RegExp(source, 'm');
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid regular expression' }
+  );
+
+/**
+ * Status pattern add payload schema
+ */
+export const statusPatternAddPayloadSchema = z.object({
+  pattern: statusPatternSchema.extend({ pattern: regexSourceSchema }),
+});
+
+/**
+ * Status pattern remove payload schema
+ */
+export const statusPatternRemovePayloadSchema = z.object({
+  patternId: idSchema,
+});
+
+/**
+ * Status patterns list payload schema
+ */
+export const statusPatternsListPayloadSchema = z.object({
+  shell: shellTypeSchema.optional(),
+});
+
+/**
+ * Status pattern test payload schema
+ */
+export const statusPatternTestPayloadSchema = z.object({
+  sessionId: idSchema,
+  pattern: regexSourceSchema,
+});
+
+/**
+ * Status history query schema
+ */
+export const statusHistoryQuerySchema = z.object({
+  projectId: z.string().min(1),
+  sessionId: z.string().min(1).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+/**
+ * Status summary query schema (defaults to the last 24 hours)
+ */
+export const statusSummaryQuerySchema = z.object({
+  projectId: z.string().min(1),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+});
+
+// ============================================================================
+// Claude Code Hook Schemas
+// ============================================================================
+
+/**
+ * Claude Code hook payload schema
+ * Claude Code sends more fields than we use; unknown ones are dropped.
+ */
+export const claudeHookPayloadSchema = z.object({
+  hook_event_name: z.enum([
+    'SessionStart',
+    'UserPromptSubmit',
+    'PreToolUse',
+    'PostToolUse',
+    'Notification',
+    'Stop',
+    'SubagentStop',
+    'PreCompact',
+    'SessionEnd',
+  ]),
+  session_id: z.string().max(200).optional(),
+  cwd: z.string().max(4096).optional(),
+  tool_name: z.string().max(200).optional(),
+  message: z.string().max(2000).optional(),
+});
+
+/**
+ * "HH:MM" in 24-hour time
+ */
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+
+/**
+ * Notification rule schema (create or replace)
+ */
+export const notificationRuleSchema = z
+  .object({
+    id: idSchema,
+    projectId: z.string().min(1),
+    scope: z.enum(['project', 'shell', 'session']),
+    target: z.string().min(1).max(200).nullable(),
+    triggers: z.array(z.enum(['waiting', 'error', 'exited'])).max(3),
+    minDurationMs: z.number().int().min(0).max(60 * 60 * 1000),
+    quietHours: z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).nullable(),
+    enabled: z.boolean(),
+  })
+  .refine((rule) => (rule.scope === 'project') === (rule.target === null), {
+    message: 'Project rules have no target; shell and session rules require one',
+    path: ['target'],
+  });
+
+/**
+ * Notification rule list query schema
+ */
+export const notificationRulesQuerySchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// ============================================================================
+// Workspace Template Schemas
+// ============================================================================
+
+const templateSourceSchema = z.enum(['project', 'repo']);
+
+/**
+ * Template ID schema; repository template IDs are file names, so shorter
+ * IDs than idSchema allows are fine
+ */
+export const templateIdSchema = z.string().min(1).max(50).regex(/^[a-zA-Z0-9_-]+$/);
+
+/**
+ * Workspace template node schema
+ */
+export const workspaceTemplateNodeSchema = z.object({
+  type: nodeTypeSchema,
+  label: z.string().max(100).optional(),
+  position: nodePositionSchema,
+  size: nodeDimensionsSchema.optional(),
+  shell: shellTypeSchema.optional(),
+  cwd: z.string().max(1000).optional(),
+  env: terminalConfigSchema.shape.env,
+  command: z.string().max(1000).optional(),
+  hooks: terminalConfigSchema.shape.hooks,
+  data: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Workspace template definition schema (the contents of a template file)
+ */
+export const workspaceTemplateDefinitionSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  nodes: z.array(workspaceTemplateNodeSchema).min(1).max(50),
+});
+
+/**
+ * Workspace template schema (create or replace)
+ */
+export const workspaceTemplateSchema = workspaceTemplateDefinitionSchema.extend({
+  id: templateIdSchema,
+  projectId: z.string().min(1),
+  source: templateSourceSchema,
+});
+
+/**
+ * Workspace template list query schema
+ */
+export const workspaceTemplatesQuerySchema = z.object({
+  projectId: z.string().min(1),
+  source: templateSourceSchema.optional(),
+});
+
+/**
+ * Template launch payload schema
+ */
+export const templateLaunchPayloadSchema = z.object({
+  projectId: z.string().min(1),
+  templateId: templateIdSchema,
+  source: templateSourceSchema,
+});
+
 // ============================================================================
 // Buffer Schemas
 // ============================================================================
@@ -263,6 +543,223 @@ export const bufferConfigSchema = z.object({
  */
 export type ValidatedBufferConfig = z.infer<typeof bufferConfigSchema>;
 
+/**
+ * Boolean that also accepts 'true'/'false' from REST query strings
+ */
+const queryBooleanSchema = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform((value) => value === 'true'),
+]);
+
+/**
+ * Scrollback search query schema
+ */
+export const bufferSearchQuerySchema = z.object({
+  query: z.string().min(1).max(1000),
+  regex: queryBooleanSchema.default(false),
+  caseSensitive: queryBooleanSchema.default(false),
+  direction: z.enum(['forward', 'backward']).default('backward'),
+  maxResults: z.coerce.number().int().min(1).max(1000).default(100),
+  contextLines: z.coerce.number().int().min(0).max(5).default(0),
+});
+
+/**
+ * Type inferred from buffer search query schema
+ */
+export type ValidatedBufferSearchQuery = z.infer<typeof bufferSearchQuerySchema>;
+
+/**
+ * Project-wide output search query schema (maxResults is per session)
+ */
+export const projectOutputSearchQuerySchema = bufferSearchQuerySchema.extend({
+  projectId: z.string().min(1),
+  maxResults: z.coerce.number().int().min(1).max(200).default(20),
+  contextLines: z.coerce.number().int().min(0).max(5).default(1),
+});
+
+/**
+ * Type inferred from project output search query schema
+ */
+export type ValidatedProjectOutputSearchQuery = z.infer<typeof projectOutputSearchQuerySchema>;
+
+// ============================================================================
+// Command History Schemas
+// ============================================================================
+
+/**
+ * Command history query schema (a project, or one of its sessions)
+ */
+export const commandHistoryQuerySchema = z.object({
+  projectId: z.string().min(1),
+  sessionId: z.string().min(1).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  /** Only commands that exited with a non-zero code */
+  failed: queryBooleanSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+/**
+ * Type inferred from command history query schema
+ */
+export type ValidatedCommandHistoryQuery = z.infer<typeof commandHistoryQuerySchema>;
+
+// ============================================================================
+// Output Trigger Schemas
+// ============================================================================
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * http(s) URL on this machine; triggers may not post output elsewhere
+ */
+const localWebhookUrlSchema = z
+  .string()
+  .max(2000)
+  .refine(
+    (value) => {
+      try {
+        const url = new URL(value);
+        return (
+          (url.protocol === 'http:' || url.protocol === 'https:') &&
+          LOCAL_HOSTNAMES.has(url.hostname)
+        );
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Webhook URL must be http(s) on localhost' }
+  );
+
+/**
+ * Output trigger action schema
+ */
+export const outputTriggerActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('send_keys'), keys: z.string().max(1000), enter: z.boolean() }),
+  z.object({
+    type: z.literal('notify'),
+    title: z.string().min(1).max(200),
+    body: z.string().max(1000),
+  }),
+  z.object({ type: z.literal('open_browser'), url: z.string().min(1).max(2000) }),
+  z.object({ type: z.literal('webhook'), url: localWebhookUrlSchema }),
+  z.object({
+    type: z.literal('run_command'),
+    sessionId: z.string().min(1).max(200),
+    command: z.string().min(1).max(1000),
+  }),
+]);
+
+/**
+ * Output trigger schema (create or replace)
+ */
+export const outputTriggerSchema = z
+  .object({
+    id: idSchema,
+    projectId: z.string().min(1),
+    name: z.string().min(1).max(100),
+    scope: z.enum(['project', 'session']),
+    target: z.string().min(1).max(200).nullable(),
+    pattern: regexSourceSchema,
+    caseSensitive: z.boolean(),
+    action: outputTriggerActionSchema,
+    cooldownMs: z.number().int().min(MIN_TRIGGER_COOLDOWN_MS).max(24 * 60 * 60 * 1000),
+    enabled: z.boolean(),
+  })
+  .refine((trigger) => (trigger.scope === 'project') === (trigger.target === null), {
+    message: 'Project triggers have no target; session triggers require one',
+    path: ['target'],
+  });
+
+/**
+ * Output trigger list query schema
+ */
+export const outputTriggersQuerySchema = z.object({
+  projectId: z.string().min(1),
+});
+
+/**
+ * Output trigger execution log query schema
+ */
+export const outputTriggerExecutionsQuerySchema = z.object({
+  projectId: z.string().min(1),
+  triggerId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+/**
+ * Type inferred from output trigger execution log query schema
+ */
+export type ValidatedOutputTriggerExecutionsQuery = z.infer<
+  typeof outputTriggerExecutionsQuerySchema
+>;
+
+// ============================================================================
+// Scheduled Command Schemas
+// ============================================================================
+
+/**
+ * Scheduled command schema (create or replace); the server checks the
+ * cron expression itself
+ */
+export const scheduledCommandSchema = z
+  .object({
+    id: idSchema,
+    projectId: z.string().min(1),
+    sessionId: z.string().min(1).max(200),
+    name: z.string().min(1).max(100),
+    kind: z.enum(['cron', 'once']),
+    cron: z.string().min(1).max(100).nullable(),
+    runAt: z.string().datetime().nullable(),
+    command: z.string().min(1).max(4000),
+    enter: z.boolean(),
+    paused: z.boolean(),
+  })
+  .refine(
+    (schedule) =>
+      schedule.kind === 'cron'
+        ? schedule.cron !== null && schedule.runAt === null
+        : schedule.runAt !== null && schedule.cron === null,
+    {
+      message: 'Cron schedules need a cron expression; one-off schedules need a run time',
+      path: ['kind'],
+    }
+  );
+
+/**
+ * Scheduled command list query schema
+ */
+export const scheduledCommandsQuerySchema = z.object({
+  projectId: z.string().min(1),
+});
+
+/**
+ * Pause or resume payload schema
+ */
+export const scheduledCommandPauseSchema = z.object({
+  paused: z.boolean(),
+});
+
+// ============================================================================
+// Resource Monitoring Schemas
+// ============================================================================
+
+/**
+ * Resource list query schema
+ */
+export const resourcesQuerySchema = z.object({
+  projectId: z.string().min(1),
+});
+
+/**
+ * Kill-tree payload schema
+ */
+export const killProcessTreeSchema = z.object({
+  pid: z.number().int().positive(),
+  signal: z.enum(['SIGTERM', 'SIGKILL']).default('SIGTERM'),
+});
+
 // ============================================================================
 // WebSocket Payload Schemas
 // ============================================================================
@@ -284,6 +781,74 @@ export const terminalResizePayloadSchema = z.object({
   rows: z.number().int().min(1).max(200),
 });
 
+/**
+ * Terminal search payload schema
+ */
+export const terminalSearchPayloadSchema = bufferSearchQuerySchema.extend({
+  sessionId: idSchema,
+});
+
+/**
+ * Tmux window (@N) and pane (%N) ID schemas
+ */
+const tmuxWindowIdSchema = z.string().regex(/^@\d+$/, 'Expected a tmux window ID');
+const tmuxPaneIdSchema = z.string().regex(/^%\d+$/, 'Expected a tmux pane ID');
+
+/**
+ * Terminal windows request payload schema
+ */
+export const terminalWindowsPayloadSchema = z.object({
+  sessionId: idSchema,
+});
+
+/**
+ * Terminal window action payload schema
+ */
+export const terminalWindowActionPayloadSchema = z.discriminatedUnion('action', [
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('new-window'),
+    name: z.string().min(1).max(50).optional(),
+  }),
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('split'),
+    direction: z.enum(['horizontal', 'vertical']),
+    paneId: tmuxPaneIdSchema.optional(),
+  }),
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('select-window'),
+    windowId: tmuxWindowIdSchema,
+  }),
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('select-pane'),
+    paneId: tmuxPaneIdSchema,
+  }),
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('kill-window'),
+    windowId: tmuxWindowIdSchema,
+  }),
+  terminalWindowsPayloadSchema.extend({
+    action: z.literal('kill-pane'),
+    paneId: tmuxPaneIdSchema,
+  }),
+]);
+
+/**
+ * Terminal broadcast payload schema
+ */
+export const terminalBroadcastPayloadSchema = z.object({
+  projectId: idSchema,
+  targets: z
+    .array(
+      z.object({
+        type: z.enum([SessionType.TERMINAL, SessionType.SSH]),
+        sessionId: idSchema,
+      })
+    )
+    .min(1)
+    .max(50),
+  data: z.string(),
+});
+
 /**
  * Session create payload schema
  */